@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { registerTsMorphTools } from "./ts-morph-tools";
 import * as fs from "node:fs";
 import * as path from "node:path";
@@ -190,6 +190,41 @@ console.log(oldName);
 			expect(content).toContain("oldName");
 			expect(content).not.toContain("newName");
 		});
+
+		it("findInComments / findInStrings でコメント・文字列内の出現も書き換えて一覧にする", async () => {
+			const filePath = path.join(srcDir, "widget.ts");
+
+			fs.writeFileSync(
+				filePath,
+				`// Widget factory
+export function Widget() {
+  return "Widget";
+}
+`,
+			);
+
+			const result = await mockServer.callTool("rename_symbol_by_tsmorph", {
+				tsconfigPath,
+				targetFilePath: filePath,
+				position: { line: 2, column: 17 },
+				symbolName: "Widget",
+				newName: "Gadget",
+				findInComments: true,
+				findInStrings: true,
+			});
+
+			const text = result.content[0]?.text || "";
+			expect(text).toContain(
+				"Comment/string occurrences also renamed (2), review them:",
+			);
+			expect(text).toContain(`${filePath}:1:4 [comment] // Widget factory`);
+			expect(text).toContain(`${filePath}:3:11 [string] return "Widget";`);
+			expect(fs.readFileSync(filePath, "utf-8")).toBe(`// Gadget factory
+export function Gadget() {
+  return "Gadget";
+}
+`);
+		});
 	});
 
 	describe("find_references_by_tsmorph", () => {
@@ -277,6 +312,34 @@ console.log(multiply(3, 4));
 			expect(updatedContent).toContain('from "./utils/math"');
 			expect(updatedContent).not.toContain('from "@/utils/math"');
 		});
+
+		it("dryRun と reportNewDiagnostics を併用すると in-memory に適用して診断を比べ、ファイルは書き換えない", async () => {
+			const utilsPath = path.join(srcDir, "utils", "math.ts");
+			const appPath = path.join(srcDir, "app.ts");
+			fs.mkdirSync(path.dirname(utilsPath), { recursive: true });
+			fs.writeFileSync(
+				utilsPath,
+				"export const multiply = (a: number, b: number) => a * b;\n",
+			);
+			const appContent = `import { multiply } from "@/utils/math";
+
+console.log(multiply(3, 4));
+`;
+			fs.writeFileSync(appPath, appContent);
+
+			const result = await mockServer.callTool("remove_path_alias_by_tsmorph", {
+				tsconfigPath,
+				targetPath: appPath,
+				dryRun: true,
+				includeDiff: false,
+				reportNewDiagnostics: true,
+			});
+
+			const text = result.content[0]?.text ?? "";
+			expect(text).toContain(` - ${appPath}`);
+			expect(text).toContain("New diagnostics: none");
+			expect(fs.readFileSync(appPath, "utf-8")).toBe(appContent);
+		});
 	});
 
 	describe("rename_filesystem_entry_by_tsmorph", () => {
@@ -310,6 +373,43 @@ console.log(data.value);
 			const updatedImporterContent = fs.readFileSync(importerPath, "utf-8");
 			expect(updatedImporterContent).toContain('from "./new-name"');
 		});
+
+		it("dryRun と includeDiff で、移動元の削除・移動先の追加・import の書き換えの差分を返しディスクは変更しない", async () => {
+			const oldPath = path.join(srcDir, "old-name.ts");
+			const newPath = path.join(srcDir, "new-name.ts");
+			const importerPath = path.join(srcDir, "importer.ts");
+			const importerContent = `import { data } from "./old-name";
+
+console.log(data.value);
+`;
+			fs.writeFileSync(oldPath, "export const data = { value: 42 };\n");
+			fs.writeFileSync(importerPath, importerContent);
+
+			const result = await mockServer.callTool(
+				"rename_filesystem_entry_by_tsmorph",
+				{
+					tsconfigPath,
+					renames: [{ oldPath, newPath }],
+					dryRun: true,
+					includeDiff: true,
+				},
+			);
+
+			const text = result.content[0].text;
+			expect(result.isError).toBe(false);
+			expect(text).toContain(
+				`--- ${importerPath}\n+++ ${importerPath}\n@@ -1,3 +1,3 @@\n-import { data } from "./old-name";\n+import { data } from "./new-name";`,
+			);
+			expect(text).toContain(
+				`--- /dev/null\n+++ ${newPath}\n@@ -0,0 +1,1 @@\n+export const data = { value: 42 };`,
+			);
+			expect(text).toContain(
+				`--- ${oldPath}\n+++ /dev/null\n@@ -1,1 +0,0 @@\n-export const data = { value: 42 };`,
+			);
+			expect(fs.existsSync(oldPath)).toBe(true);
+			expect(fs.existsSync(newPath)).toBe(false);
+			expect(fs.readFileSync(importerPath, "utf-8")).toBe(importerContent);
+		});
 	});
 
 	describe("move_symbol_to_file_by_tsmorph", () => {
@@ -364,6 +464,155 @@ console.log(funcToStay());
 			expect(consumerContent).toContain('from "./target"');
 			expect(consumerContent).toContain('from "./source"');
 		});
+
+		it("symbolsToMove で複数のシンボルを 1 回で移動し、参照元の import を 1 つにまとめる", async () => {
+			const sourcePath = path.join(srcDir, "source.ts");
+			const targetPath = path.join(srcDir, "target.ts");
+			const consumerPath = path.join(srcDir, "consumer.ts");
+
+			fs.writeFileSync(
+				sourcePath,
+				`function format(value: number) {
+  return value.toFixed(2);
+}
+
+export function showA(a: number) {
+  return format(a);
+}
+
+export function showB(b: number) {
+  return format(b);
+}
+
+export const stay = 1;
+`,
+			);
+			fs.writeFileSync(
+				consumerPath,
+				`import { showA, showB, stay } from "./source";
+
+console.log(showA(stay), showB(stay));
+`,
+			);
+
+			const result = await mockServer.callTool(
+				"move_symbol_to_file_by_tsmorph",
+				{
+					tsconfigPath,
+					originalFilePath: sourcePath,
+					targetFilePath: targetPath,
+					symbolsToMove: ["showA", "showB"],
+					dryRun: false,
+					includeDiff: false,
+					reportNewDiagnostics: false,
+				},
+			);
+
+			expect(result).toHaveProperty("isError", false);
+			const targetContent = fs.readFileSync(targetPath, "utf-8");
+			expect(targetContent.match(/function format/g)).toHaveLength(1);
+			expect(targetContent).not.toContain("export function format");
+			expect(fs.readFileSync(sourcePath, "utf-8")).toBe(
+				"export const stay = 1;\n",
+			);
+			expect(
+				fs.readFileSync(consumerPath, "utf-8"),
+			).toBe(`import { stay } from "./source";
+import { showA, showB } from "./target";
+
+console.log(showA(stay), showB(stay));
+`);
+		});
+
+		it("defaultExport: convertToNamed でデフォルトエクスポートを名前付きエクスポートとして移動する", async () => {
+			const sourcePath = path.join(srcDir, "Button.ts");
+			const targetPath = path.join(srcDir, "ui.ts");
+			const consumerPath = path.join(srcDir, "consumer.ts");
+
+			fs.writeFileSync(
+				sourcePath,
+				`export default function Button() {
+  return "button";
+}
+`,
+			);
+			fs.writeFileSync(
+				consumerPath,
+				`import MyButton from "./Button";
+
+console.log(MyButton());
+`,
+			);
+
+			const result = await mockServer.callTool(
+				"move_symbol_to_file_by_tsmorph",
+				{
+					tsconfigPath,
+					originalFilePath: sourcePath,
+					targetFilePath: targetPath,
+					symbolToMove: "Button",
+					defaultExport: "convertToNamed",
+					dryRun: false,
+					includeDiff: false,
+					reportNewDiagnostics: false,
+				},
+			);
+
+			expect(result).toHaveProperty("isError", false);
+			expect(fs.readFileSync(targetPath, "utf-8")).toContain(
+				"export function Button()",
+			);
+			expect(
+				fs.readFileSync(consumerPath, "utf-8"),
+			).toBe(`import { Button as MyButton } from "./ui";
+
+console.log(MyButton());
+`);
+		});
+
+		it("symbolToMove と symbolsToMove の両方を指定するとエラーになる", async () => {
+			const sourcePath = path.join(srcDir, "source.ts");
+			fs.writeFileSync(sourcePath, "export const a = 1;\n");
+
+			const result = await mockServer.callTool(
+				"move_symbol_to_file_by_tsmorph",
+				{
+					tsconfigPath,
+					originalFilePath: sourcePath,
+					targetFilePath: path.join(srcDir, "target.ts"),
+					symbolToMove: "a",
+					symbolsToMove: ["a"],
+					dryRun: false,
+					includeDiff: false,
+					reportNewDiagnostics: false,
+				},
+			);
+
+			expect(result).toHaveProperty("isError", true);
+		});
+
+		it("symbolToMove と symbolsToMove のどちらも指定しないとエラーになる", async () => {
+			const sourcePath = path.join(srcDir, "source.ts");
+			fs.writeFileSync(sourcePath, "export const a = 1;\n");
+
+			const result = await mockServer.callTool(
+				"move_symbol_to_file_by_tsmorph",
+				{
+					tsconfigPath,
+					originalFilePath: sourcePath,
+					targetFilePath: path.join(srcDir, "target.ts"),
+					dryRun: false,
+					includeDiff: false,
+					reportNewDiagnostics: false,
+				},
+			);
+
+			expect(result).toHaveProperty("isError", true);
+			expect(result.content[0]?.text).toContain(
+				"Error moving symbol: Specify exactly one of symbolToMove or symbolsToMove.",
+			);
+			expect(fs.existsSync(path.join(srcDir, "target.ts"))).toBe(false);
+		});
 	});
 
 	describe("change_signature_by_tsmorph", () => {
@@ -438,6 +687,68 @@ foo(1);
 			expect(content).toContain("function foo(a: number)");
 			expect(content).toContain("foo(1);");
 		});
+
+		it("changeType で型チェックを通らなくなった呼び出し元を報告する", async () => {
+			const filePath = path.join(srcDir, "fn.ts");
+			fs.writeFileSync(
+				filePath,
+				`export function foo(a: number) { return a; }
+foo(1);
+`,
+			);
+
+			const result = await mockServer.callTool("change_signature_by_tsmorph", {
+				tsconfigPath,
+				targetFilePath: filePath,
+				position: { line: 1, column: 17 },
+				functionName: "foo",
+				changes: [{ kind: "changeType", index: 0, typeText: "string" }],
+				dryRun: true,
+			});
+
+			expect(result).toHaveProperty("isError", false);
+			expect(result.content[0]?.text).toContain(
+				"Call sites that no longer type-check (1):",
+			);
+			expect(result.content[0]?.text).toContain(
+				`${filePath}:2:5 - error TS2345`,
+			);
+		});
+		it("reportNewDiagnostics で importer 側に新しく出た診断だけを報告する", async () => {
+			const fnPath = path.join(srcDir, "fn.ts");
+			const userPath = path.join(srcDir, "user.ts");
+			fs.writeFileSync(
+				fnPath,
+				"export function foo(a: number) { return a; }\n",
+			);
+			fs.writeFileSync(
+				userPath,
+				`import { foo } from "./fn";
+const broken: string = 1;
+export const value = foo(1);
+`,
+			);
+
+			const result = await mockServer.callTool("change_signature_by_tsmorph", {
+				tsconfigPath,
+				targetFilePath: fnPath,
+				position: { line: 1, column: 17 },
+				functionName: "foo",
+				changes: [{ kind: "changeReturnType", typeText: "string" }],
+				dryRun: true,
+				includeDiff: false,
+				reportNewDiagnostics: true,
+			});
+
+			expect(result).toHaveProperty("isError", false);
+			const text = result.content[0]?.text ?? "";
+			expect(text).toContain(
+				"New diagnostics introduced by this refactor (1):",
+			);
+			expect(text).toContain(`${fnPath}:1:42 - error TS2322`);
+			expect(text).not.toContain(`${userPath}:2:`);
+			expect(text).not.toContain(` - ${userPath}`);
+		});
 	});
 
 	describe("get_type_at_position_by_tsmorph", () => {
@@ -634,6 +945,779 @@ console.log(u);
 			expect(text).toContain("internalFn");
 			expect(text).not.toContain("publicFn");
 		});
+
+		it("workspaceRoot を指定すると別パッケージからの利用を使用中として扱う", async () => {
+			const writePackage = (name: string, files: Record<string, string>) => {
+				const packageDir = path.join(tempDir, "packages", name);
+				fs.mkdirSync(path.join(packageDir, "src"), { recursive: true });
+				fs.writeFileSync(
+					path.join(packageDir, "package.json"),
+					JSON.stringify({ name: `@acme/${name}`, main: "dist/index.js" }),
+				);
+				fs.writeFileSync(
+					path.join(packageDir, "tsconfig.json"),
+					JSON.stringify({
+						compilerOptions: { outDir: "dist", rootDir: "src" },
+						include: ["src/**/*.ts"],
+					}),
+				);
+				for (const [fileName, content] of Object.entries(files)) {
+					fs.writeFileSync(path.join(packageDir, "src", fileName), content);
+				}
+			};
+			fs.writeFileSync(
+				path.join(tempDir, "pnpm-workspace.yaml"),
+				"packages:\n  - packages/*\n",
+			);
+			writePackage("ui", {
+				"index.ts": 'export { button } from "./button";\n',
+				"button.ts":
+					"export const button = 1;\nexport const unusedButton = 2;\n",
+			});
+			writePackage("app", {
+				"index.ts":
+					'import { button } from "@acme/ui";\nconsole.log(button);\n',
+			});
+
+			const result = await mockServer.callTool(
+				"find_unused_exports_by_tsmorph",
+				{
+					tsconfigPath: path.join(tempDir, "packages", "ui", "tsconfig.json"),
+					workspaceRoot: tempDir,
+					responseFormat: "list",
+					expandNamespaceImports: true,
+				},
+			);
+
+			expect(result).toHaveProperty("isError", false);
+			const text = result.content[0]?.text || "";
+			expect(text).toContain("unusedButton");
+			expect(text).not.toMatch(/ button \(/);
+			expect(text).toContain("Workspace packages: @acme/ui, @acme/app");
+		});
+	});
+
+	describe("batch_refactor_by_tsmorph", () => {
+		it("rename → ファイル名変更をまとめて適用する", async () => {
+			const utilsPath = path.join(srcDir, "utils.ts");
+			const mainPath = path.join(srcDir, "main.ts");
+			const helpersPath = path.join(srcDir, "helpers.ts");
+
+			fs.writeFileSync(utilsPath, "export const oldName = 1;\n");
+			fs.writeFileSync(
+				mainPath,
+				'import { oldName } from "./utils";\nconsole.log(oldName);\n',
+			);
+
+			const result = await mockServer.callTool("batch_refactor_by_tsmorph", {
+				tsconfigPath,
+				operations: [
+					{
+						kind: "renameSymbol",
+						targetFilePath: utilsPath,
+						position: { line: 1, column: 14 },
+						symbolName: "oldName",
+						newName: "newName",
+					},
+					{
+						kind: "renameFileSystemEntry",
+						renames: [{ oldPath: utilsPath, newPath: helpersPath }],
+					},
+				],
+				dryRun: false,
+				includeDiff: false,
+			});
+
+			expect(result.isError).toBe(false);
+			expect(fs.existsSync(utilsPath)).toBe(false);
+			expect(fs.readFileSync(helpersPath, "utf-8")).toContain(
+				"export const newName = 1;",
+			);
+			const mainContent = fs.readFileSync(mainPath, "utf-8");
+			expect(mainContent).toContain('import { newName } from "./helpers";');
+		});
+
+		it("途中で失敗した場合はディスクを変更しない", async () => {
+			const utilsPath = path.join(srcDir, "utils.ts");
+			const original = "export const oldName = 1;\n";
+			fs.writeFileSync(utilsPath, original);
+
+			const result = await mockServer.callTool("batch_refactor_by_tsmorph", {
+				tsconfigPath,
+				operations: [
+					{
+						kind: "renameSymbol",
+						targetFilePath: utilsPath,
+						position: { line: 1, column: 14 },
+						symbolName: "oldName",
+						newName: "newName",
+					},
+					{
+						kind: "renameSymbol",
+						targetFilePath: utilsPath,
+						position: { line: 1, column: 14 },
+						symbolName: "oldName",
+						newName: "other",
+					},
+				],
+				dryRun: false,
+				includeDiff: false,
+			});
+
+			expect(result.isError).toBe(true);
+			expect(result.content[0]?.text).toContain("ステップ 2 (renameSymbol)");
+			expect(fs.readFileSync(utilsPath, "utf-8")).toBe(original);
+		});
+	});
+
+	describe("undo_last_refactor_by_tsmorph", () => {
+		beforeEach(() => {
+			vi.stubEnv("MCP_TSMORPH_JOURNAL_DIR", path.join(tempDir, ".journal"));
+		});
+
+		afterEach(() => {
+			vi.unstubAllEnvs();
+		});
+
+		it("直前のリネームを取り消す", async () => {
+			const utilsPath = path.join(srcDir, "utils.ts");
+			const original = "export const oldName = 1;\n";
+			fs.writeFileSync(utilsPath, original);
+
+			await mockServer.callTool("rename_symbol_by_tsmorph", {
+				tsconfigPath,
+				targetFilePath: utilsPath,
+				position: { line: 1, column: 14 },
+				symbolName: "oldName",
+				newName: "newName",
+				dryRun: false,
+			});
+			expect(fs.readFileSync(utilsPath, "utf-8")).toContain("newName");
+
+			const result = await mockServer.callTool(
+				"undo_last_refactor_by_tsmorph",
+				{ tsconfigPath },
+			);
+
+			expect(result.isError).toBe(false);
+			expect(result.content[0]?.text).toContain("Reverted 'renameSymbol'");
+			expect(fs.readFileSync(utilsPath, "utf-8")).toBe(original);
+		});
+
+		it("記録が無い場合はエラーを返す", async () => {
+			const result = await mockServer.callTool(
+				"undo_last_refactor_by_tsmorph",
+				{ tsconfigPath },
+			);
+
+			expect(result.isError).toBe(true);
+			expect(result.content[0]?.text).toContain(
+				"取り消せる操作の記録がありません",
+			);
+		});
+	});
+
+	describe("extract_function_by_tsmorph", () => {
+		it("範囲の文を関数に抽出して呼び出しに置き換える", async () => {
+			const mathPath = path.join(srcDir, "math.ts");
+			fs.writeFileSync(
+				mathPath,
+				`export function area(width: number, height: number) {
+	const size = width * height;
+	console.log(size);
+	return size;
+}
+`,
+			);
+
+			const result = await mockServer.callTool("extract_function_by_tsmorph", {
+				tsconfigPath,
+				targetFilePath: mathPath,
+				startPosition: { line: 2, column: 2 },
+				endPosition: { line: 3, column: 20 },
+				functionName: "computeSize",
+				placement: "module",
+				dryRun: false,
+				includeDiff: false,
+			});
+
+			expect(result.isError).toBe(false);
+			expect(result.content[0]?.text).toContain("Parameters: width, height");
+			expect(result.content[0]?.text).toContain("Return values: size");
+			const content = fs.readFileSync(mathPath, "utf-8");
+			expect(content).toContain("const size = computeSize(width, height);");
+			expect(content).toContain(
+				"function computeSize(width: number, height: number) {",
+			);
+		});
+
+		it("const 変数を参照箇所に展開して宣言を削除する", async () => {
+			const mathPath = path.join(srcDir, "math.ts");
+			fs.writeFileSync(
+				mathPath,
+				`export function area(width: number, height: number) {
+	const size = width * height;
+	return size;
+}
+`,
+			);
+
+			const result = await mockServer.callTool("inline_symbol_by_tsmorph", {
+				tsconfigPath,
+				targetFilePath: mathPath,
+				position: { line: 2, column: 8 },
+				symbolName: "size",
+				dryRun: false,
+				includeDiff: false,
+			});
+
+			expect(result.isError).toBe(false);
+			expect(result.content[0]?.text).toContain(
+				"variable 'size' inlined at 1 reference(s)",
+			);
+			expect(fs.readFileSync(mathPath, "utf-8")).toBe(
+				`export function area(width: number, height: number) {
+	return width * height;
+}
+`,
+			);
+		});
+	});
+
+	describe("get_diagnostics_by_tsmorph", () => {
+		it("指定したファイルの型エラーを位置付きで返す", async () => {
+			const filePath = path.join(srcDir, "broken.ts");
+			fs.writeFileSync(filePath, `export const count: number = "one";\n`);
+
+			const result = await mockServer.callTool("get_diagnostics_by_tsmorph", {
+				tsconfigPath,
+				filePaths: [filePath],
+				limit: 200,
+			});
+
+			expect(result.isError).toBe(false);
+			expect(result.content[0]?.text).toContain(
+				"Found 1 diagnostic(s) in 1 checked file(s):",
+			);
+			expect(result.content[0]?.text).toContain(
+				`${filePath}:1:14 - error TS2322`,
+			);
+		});
+	});
+
+	describe("apply_code_fixes_by_tsmorph", () => {
+		it("fixMissingImport で不足している import を追加して保存する", async () => {
+			const mathPath = path.join(srcDir, "math.ts");
+			const mainPath = path.join(srcDir, "main.ts");
+			fs.writeFileSync(
+				mathPath,
+				"export function double(n: number) { return n * 2; }\n",
+			);
+			fs.writeFileSync(mainPath, "export const value = double(2);\n");
+
+			const result = await mockServer.callTool("apply_code_fixes_by_tsmorph", {
+				tsconfigPath,
+				fixIds: ["fixMissingImport"],
+				filePaths: [mainPath],
+				dryRun: false,
+				includeDiff: false,
+				reportNewDiagnostics: false,
+			});
+
+			expect(result.isError).toBe(false);
+			expect(result.content[0]?.text).toContain(
+				" - fixMissingImport: 1 file(s)",
+			);
+			expect(fs.readFileSync(mainPath, "utf-8")).toContain(
+				'import { double } from "./math";',
+			);
+		});
+	});
+
+	describe("organize_imports_by_tsmorph", () => {
+		it("ディレクトリ配下の import を整理する", async () => {
+			const valuesPath = path.join(srcDir, "values.ts");
+			const mainPath = path.join(srcDir, "main.ts");
+			fs.writeFileSync(
+				valuesPath,
+				"export const a = 1;\nexport const b = 2;\nexport const c = 3;\n",
+			);
+			fs.writeFileSync(
+				mainPath,
+				`import { b } from "./values";
+import { a, c } from "./values";
+
+export const total = a + b;
+`,
+			);
+
+			const result = await mockServer.callTool("organize_imports_by_tsmorph", {
+				tsconfigPath,
+				directory: srcDir,
+				dryRun: false,
+				includeDiff: false,
+				reportNewDiagnostics: false,
+			});
+
+			expect(result.isError).toBe(false);
+			expect(result.content[0]?.text).toContain(
+				"Imports organized: 1 of 2 checked file(s) were modified:",
+			);
+			expect(fs.readFileSync(mainPath, "utf-8")).toBe(
+				`import { a, b } from "./values";
+
+export const total = a + b;
+`,
+			);
+		});
+	});
+
+	describe("move_member_by_tsmorph", () => {
+		it("static メソッドをトップレベルの関数に移動して呼び出し箇所を書き換える", async () => {
+			const mathPath = path.join(srcDir, "math.ts");
+			const mainPath = path.join(srcDir, "main.ts");
+			const helpersPath = path.join(srcDir, "helpers.ts");
+			fs.writeFileSync(
+				mathPath,
+				`export class MathUtil {
+	static double(value: number) {
+		return value * 2;
+	}
+}
+`,
+			);
+			fs.writeFileSync(
+				mainPath,
+				`import { MathUtil } from "./math";
+
+export const result = MathUtil.double(3);
+`,
+			);
+
+			const result = await mockServer.callTool("move_member_by_tsmorph", {
+				tsconfigPath,
+				targetFilePath: mathPath,
+				className: "MathUtil",
+				memberName: "double",
+				destination: { kind: "function", filePath: helpersPath },
+				dryRun: false,
+				includeDiff: false,
+				reportNewDiagnostics: false,
+			});
+
+			expect(result.isError).toBe(false);
+			expect(result.content[0]?.text).toContain(
+				"staticMethod 'MathUtil.double' moved to function 'double' (1 reference(s) updated)",
+			);
+			expect(fs.readFileSync(helpersPath, "utf-8")).toContain(
+				"export function double(value: number) {",
+			);
+			const mainContent = fs.readFileSync(mainPath, "utf-8");
+			expect(mainContent).toContain('import { double } from "./helpers";');
+			expect(mainContent).toContain("export const result = double(3);");
+			expect(mainContent).not.toContain("MathUtil");
+		});
+	});
+
+	describe("split_file_by_tsmorph", () => {
+		it("export ごとのファイルに分割し、空になった元のファイルを削除する", async () => {
+			const utilsPath = path.join(srcDir, "utils.ts");
+			const mainPath = path.join(srcDir, "main.ts");
+			fs.writeFileSync(
+				utilsPath,
+				`export function double(value: number) {
+	return value * 2;
+}
+
+export const LIMIT = 10;
+`,
+			);
+			fs.writeFileSync(
+				mainPath,
+				`import { LIMIT, double } from "./utils";
+
+export const result = double(LIMIT);
+`,
+			);
+
+			const result = await mockServer.callTool("split_file_by_tsmorph", {
+				tsconfigPath,
+				targetFilePath: utilsPath,
+				strategy: "onePerExport",
+				keepBarrel: false,
+				dryRun: false,
+				includeDiff: false,
+				reportNewDiagnostics: false,
+			});
+
+			expect(result.isError).toBe(false);
+			expect(result.content[0]?.text).toContain("split into 2 file(s)");
+			expect(fs.existsSync(utilsPath)).toBe(false);
+			expect(fs.readFileSync(path.join(srcDir, "double.ts"), "utf-8")).toBe(
+				`export function double(value: number) {
+	return value * 2;
+}
+`,
+			);
+			expect(fs.readFileSync(path.join(srcDir, "limit.ts"), "utf-8")).toBe(
+				"export const LIMIT = 10;\n",
+			);
+			const mainContent = fs.readFileSync(mainPath, "utf-8");
+			expect(mainContent).toContain('import { double } from "./double";');
+			expect(mainContent).toContain('import { LIMIT } from "./limit";');
+		});
+	});
+
+	describe("merge_files_by_tsmorph", () => {
+		it("ファイルを結合して参照元を結合先に向け直し、元のファイルを削除する", async () => {
+			const datePath = path.join(srcDir, "date.ts");
+			const timePath = path.join(srcDir, "time.ts");
+			const mainPath = path.join(srcDir, "main.ts");
+			const formatPath = path.join(srcDir, "format.ts");
+			fs.writeFileSync(
+				datePath,
+				`export function formatDate(date: Date) {
+	return date.toDateString();
+}
+`,
+			);
+			fs.writeFileSync(
+				timePath,
+				`export function formatTime(date: Date) {
+	return date.toTimeString();
+}
+`,
+			);
+			fs.writeFileSync(
+				mainPath,
+				`import { formatDate } from "./date";
+import { formatTime } from "./time";
+
+export const now = formatDate(new Date()) + formatTime(new Date());
+`,
+			);
+
+			const result = await mockServer.callTool("merge_files_by_tsmorph", {
+				tsconfigPath,
+				sourceFilePaths: [datePath, timePath],
+				targetFilePath: formatPath,
+				dryRun: false,
+				includeDiff: false,
+				reportNewDiagnostics: false,
+			});
+
+			expect(result.isError).toBe(false);
+			expect(result.content[0]?.text).toContain("2 file(s) merged into");
+			expect(fs.existsSync(datePath)).toBe(false);
+			expect(fs.existsSync(timePath)).toBe(false);
+			expect(fs.readFileSync(formatPath, "utf-8")).toBe(
+				`export function formatDate(date: Date) {
+	return date.toDateString();
+}
+
+export function formatTime(date: Date) {
+	return date.toTimeString();
+}
+`,
+			);
+			expect(fs.readFileSync(mainPath, "utf-8")).toContain(
+				'import { formatDate, formatTime } from "./format";',
+			);
+		});
+	});
+
+	describe("bypass_barrel_imports_by_tsmorph / generate_barrel_file_by_tsmorph", () => {
+		it("バレルを生成し、バレル経由の import を直接の import に書き換える", async () => {
+			const componentsDir = path.join(srcDir, "components");
+			fs.mkdirSync(componentsDir, { recursive: true });
+			fs.writeFileSync(
+				path.join(componentsDir, "button.ts"),
+				'export const Button = () => "button";\n',
+			);
+			fs.writeFileSync(
+				path.join(componentsDir, "card.ts"),
+				'export const Card = () => "card";\n',
+			);
+			const barrelPath = path.join(componentsDir, "index.ts");
+
+			const generateResult = await mockServer.callTool(
+				"generate_barrel_file_by_tsmorph",
+				{
+					tsconfigPath,
+					directory: componentsDir,
+					barrelFileName: "index.ts",
+					dryRun: false,
+					includeDiff: false,
+					reportNewDiagnostics: false,
+				},
+			);
+
+			expect(generateResult.isError).toBe(false);
+			expect(generateResult.content[0]?.text).toContain("was created");
+			expect(fs.readFileSync(barrelPath, "utf-8")).toBe(
+				`export { Button } from "./button";
+export { Card } from "./card";
+`,
+			);
+
+			const mainPath = path.join(srcDir, "main.ts");
+			fs.writeFileSync(
+				mainPath,
+				`import { Button, Card } from "./components";
+
+export const page = [Button(), Card()];
+`,
+			);
+
+			const bypassResult = await mockServer.callTool(
+				"bypass_barrel_imports_by_tsmorph",
+				{
+					tsconfigPath,
+					filePaths: [mainPath],
+					dryRun: false,
+					includeDiff: false,
+					reportNewDiagnostics: false,
+				},
+			);
+
+			expect(bypassResult.isError).toBe(false);
+			expect(bypassResult.content[0]?.text).toContain(
+				"2 imported name(s) were rewritten",
+			);
+			expect(fs.readFileSync(mainPath, "utf-8")).toBe(
+				`import { Button } from "./components/button";
+import { Card } from "./components/card";
+
+export const page = [Button(), Card()];
+`,
+			);
+		});
+	});
+
+	describe("find_circular_imports_by_tsmorph", () => {
+		it("import の循環をファイルの並びとして報告する", async () => {
+			const aPath = path.join(srcDir, "a.ts");
+			const bPath = path.join(srcDir, "b.ts");
+			fs.writeFileSync(
+				aPath,
+				'import { b } from "./b";\nexport const a = () => b();\n',
+			);
+			fs.writeFileSync(
+				bPath,
+				'import { a } from "./a";\nexport const b = () => a();\n',
+			);
+
+			const result = await mockServer.callTool(
+				"find_circular_imports_by_tsmorph",
+				{
+					tsconfigPath,
+					ignoreTypeOnlyImports: true,
+				},
+			);
+
+			expect(result.isError).toBe(false);
+			const text = result.content[0]?.text ?? "";
+			expect(text).toContain("Circular imports found (1):");
+			expect(text).toContain(`1. ${aPath} -> ${bPath} -> ${aPath}`);
+			expect(text).toContain(`${bPath}:1 imports "./a"`);
+		});
+	});
+
+	describe("get_dependency_graph_by_tsmorph", () => {
+		it("ファイル単位の依存グラフを Mermaid で出力する", async () => {
+			fs.writeFileSync(
+				path.join(srcDir, "a.ts"),
+				'import { b, c } from "./b";\nexport const a = () => b + c;\n',
+			);
+			fs.writeFileSync(
+				path.join(srcDir, "b.ts"),
+				"export const b = 1;\nexport const c = 2;\n",
+			);
+
+			const result = await mockServer.callTool(
+				"get_dependency_graph_by_tsmorph",
+				{
+					tsconfigPath,
+					directory: srcDir,
+					granularity: "file",
+					format: "mermaid",
+					ignoreTypeOnlyImports: false,
+				},
+			);
+
+			expect(result.isError).toBe(false);
+			const text = result.content[0]?.text ?? "";
+			expect(text).toContain('n0["a.ts"]');
+			expect(text).toContain('n1["b.ts"]');
+			expect(text).toContain("n0 -->|2| n1");
+		});
+	});
+
+	describe("check_layer_rules_by_tsmorph", () => {
+		it("禁止されたグループへの import を報告する", async () => {
+			fs.mkdirSync(path.join(srcDir, "domain"), { recursive: true });
+			fs.mkdirSync(path.join(srcDir, "infra"), { recursive: true });
+			fs.writeFileSync(
+				path.join(srcDir, "infra", "db.ts"),
+				"export const connect = () => 1;\n",
+			);
+			fs.writeFileSync(
+				path.join(srcDir, "domain", "user.ts"),
+				'import { connect } from "../infra/db";\nexport const user = connect();\n',
+			);
+
+			const result = await mockServer.callTool("check_layer_rules_by_tsmorph", {
+				tsconfigPath,
+				groups: [
+					{ name: "domain", patterns: ["src/domain/**"] },
+					{ name: "infra", patterns: ["src/infra/**"] },
+				],
+				rules: [{ from: "domain", disallow: ["infra"] }],
+				suggestFixes: true,
+			});
+
+			expect(result.isError).toBe(false);
+			const text = result.content[0]?.text ?? "";
+			expect(text).toContain(
+				`${path.join(srcDir, "domain", "user.ts")}:1 imports "../infra/db" (domain -> infra)`,
+			);
+			expect(text).toContain('"symbolsToMove":["connect"]');
+			expect(text).toContain("Checked files: 2");
+		});
+	});
+
+	describe("fix_unused_exports_by_tsmorph", () => {
+		it("未使用の宣言を削除し、同一ファイル内で使われている宣言の export を外す", async () => {
+			const libPath = path.join(srcDir, "lib.ts");
+			const mainPath = path.join(srcDir, "main.ts");
+			fs.writeFileSync(
+				libPath,
+				"export const dead = 1;\nexport const helper = 2;\nexport const used = helper + 1;\n",
+			);
+			fs.writeFileSync(
+				mainPath,
+				'import { used } from "./lib";\nconsole.log(used);\n',
+			);
+
+			const result = await mockServer.callTool(
+				"fix_unused_exports_by_tsmorph",
+				{
+					tsconfigPath,
+					entryPoints: [mainPath],
+					excludeFilePatterns: [],
+					maxTextOccurrences: 0,
+					dryRun: false,
+					includeDiff: false,
+					reportNewDiagnostics: false,
+				},
+			);
+
+			expect(result.isError).toBe(false);
+			const text = result.content[0]?.text ?? "";
+			expect(text).toContain(
+				"Unused exports fixed: 1 declaration(s) deleted, 1 unexported",
+			);
+			expect(text).toContain(`${libPath}:1 dead (VariableDeclaration): delete`);
+			expect(fs.readFileSync(libPath, "utf-8")).toBe(
+				"const helper = 2;\nexport const used = helper + 1;\n",
+			);
+		});
+	});
+
+	describe("find_unused_members_by_tsmorph", () => {
+		it("export されたクラスと enum の未使用メンバーを列挙する", async () => {
+			const libPath = path.join(srcDir, "lib.ts");
+			const mainPath = path.join(srcDir, "main.ts");
+			fs.writeFileSync(
+				libPath,
+				"export class Service {\n  run(): void {}\n  stale(): void {}\n}\nexport enum Mode { On, Off }\n",
+			);
+			fs.writeFileSync(
+				mainPath,
+				'import { Mode, Service } from "./lib";\nnew Service().run();\nconsole.log(Mode.On);\n',
+			);
+
+			const result = await mockServer.callTool(
+				"find_unused_members_by_tsmorph",
+				{ tsconfigPath },
+			);
+
+			expect(result.isError).toBe(false);
+			const text = result.content[0]?.text ?? "";
+			expect(text).toContain("Unused member candidates (2):");
+			expect(text).toContain(
+				`${libPath}:3:3  Service.stale (MethodDeclaration in ClassDeclaration)  textHits=0 sameFileRefs=0`,
+			);
+			expect(text).toContain("Mode.Off (EnumMember in EnumDeclaration)");
+			expect(text).not.toContain("Service.run");
+		});
+	});
+
+	describe("find_unreachable_files_by_tsmorph", () => {
+		it("エントリポイントから到達できないファイルを、到達できない import 元とともに列挙する", async () => {
+			const mainPath = path.join(srcDir, "main.ts");
+			const usedPath = path.join(srcDir, "used.ts");
+			const oldPagePath = path.join(srcDir, "old-page.ts");
+			const oldHelperPath = path.join(srcDir, "old-helper.ts");
+			fs.writeFileSync(
+				mainPath,
+				'import { used } from "./used";\nconsole.log(used);\n',
+			);
+			fs.writeFileSync(usedPath, "export const used = 1;\n");
+			fs.writeFileSync(
+				oldPagePath,
+				'import { helper } from "./old-helper";\nhelper();\n',
+			);
+			fs.writeFileSync(oldHelperPath, "export function helper(): void {}\n");
+
+			const result = await mockServer.callTool(
+				"find_unreachable_files_by_tsmorph",
+				{ tsconfigPath, entryPoints: [mainPath] },
+			);
+
+			expect(result.isError).toBe(false);
+			const text = result.content[0]?.text ?? "";
+			expect(text).toContain("Unreachable files (2):");
+			expect(text).toContain(
+				`- ${oldHelperPath}  (imported only by unreachable: ${oldPagePath})`,
+			);
+			expect(text).toContain(`- ${oldPagePath}\n`);
+			expect(text).not.toContain(usedPath);
+			expect(text).toContain("Entry files: 1");
+		});
+	});
+
+	describe("audit_dependencies_by_tsmorph", () => {
+		it("package.json と import を突き合わせて未使用・未宣言の依存を報告する", async () => {
+			const mainPath = path.join(srcDir, "main.ts");
+			fs.writeFileSync(
+				path.join(tempDir, "package.json"),
+				JSON.stringify({
+					name: "app",
+					dependencies: { zod: "^3.0.0", pino: "^9.0.0" },
+				}),
+			);
+			fs.writeFileSync(
+				mainPath,
+				'import { z } from "zod";\nimport chalk from "chalk";\nimport * as fs from "node:fs";\nconsole.log(z, chalk, fs);\n',
+			);
+
+			const result = await mockServer.callTool(
+				"audit_dependencies_by_tsmorph",
+				{ tsconfigPath, includeDevDependencies: false },
+			);
+
+			expect(result.isError).toBe(false);
+			const text = result.content[0]?.text ?? "";
+			expect(text).toContain("Unused dependencies (1):\n- pino (dependencies)");
+			expect(text).toContain(
+				`Undeclared dependencies (1):\n- chalk\n   - ${mainPath}:2:19 "chalk"`,
+			);
+			expect(text).not.toContain("node:fs");
+			expect(text).toContain(
+				`package.json: ${path.join(tempDir, "package.json")}`,
+			);
+		});
 	});
 
 	describe("エラーハンドリング", () => {
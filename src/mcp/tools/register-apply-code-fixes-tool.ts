@@ -0,0 +1,164 @@
+import { performance } from "node:perf_hooks";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { formatNewDiagnostics } from "../../ts-morph/_utils/diagnostics";
+import { formatFileDiffs } from "../../ts-morph/_utils/file-diff";
+import { getProject } from "../../ts-morph/_utils/project-registry";
+import { applyCodeFixes } from "../../ts-morph/code-fixes/apply-code-fixes";
+import {
+	captureDiagnosticsBaseline,
+	findNewDiagnostics,
+} from "../../ts-morph/get-diagnostics/new-diagnostics";
+import logger from "../../utils/logger";
+
+export function registerApplyCodeFixesTool(server: McpServer): void {
+	server.tool(
+		"apply_code_fixes_by_tsmorph",
+		`[ts-morph] Apply TypeScript quick fixes ("fix all in file" for the given fix IDs) to a list of files or a directory.
+
+## When to use
+- Adding missing imports after moving or pasting code (\`fixMissingImport\`).
+- Removing unused variables, parameters and imports (\`unusedIdentifier_delete\`, \`unusedIdentifier_deleteImports\`).
+- Fixing misspelled identifiers the compiler suggests a correction for (\`fixSpelling\`).
+- Adding a missing \`await\` (\`addMissingAwait\`), making a function \`async\` for an \`await\` (\`fixAwaitInSyncFunction\`), or declaring a missing \`const\` (\`addMissingConst\`).
+- Other fix IDs supported by the TypeScript language service, e.g. \`fixClassIncorrectlyImplementsInterface\`, \`fixClassDoesntImplementInheritedAbstractMember\`, \`fixAddMissingMember\`, \`addMissingOverride\`, \`fixUnreachableCode\`.
+
+## When NOT to use
+- Only sorting / merging / pruning imports -> use \`organize_imports_by_tsmorph\`.
+- Checking which errors exist -> use \`get_diagnostics_by_tsmorph\`.
+
+## Critical constraints
+- At least one of \`filePaths\` / \`directory\` is required (\`node_modules\` and \`.d.ts\` files are skipped). When both are given, the union is processed.
+- Fix IDs are applied in the given order, each over every target file; later fixes see the result of earlier ones. An unknown fix ID is an error.
+- A fix only applies where the compiler reports the corresponding diagnostic (e.g. \`unusedIdentifier_delete\` needs \`noUnusedLocals\` / \`noUnusedParameters\` or the matching suggestion diagnostics).
+- A fix may also change files outside the targets (e.g. adding a missing member to a class in another file).
+- All paths MUST be absolute.
+
+## Tips
+- Run with \`dryRun: true\` and \`includeDiff: true\` first to review what each fix does.
+
+## Result
+Returns, per fix ID, the files it changed, and the modified (or to-be-modified, in dryRun) file paths, plus status and processing time. With \`includeDiff: true\`, a unified diff per changed file is appended. With \`reportNewDiagnostics: true\`, the TypeScript diagnostics introduced by the fixes (in the changed files and their importers) are appended.`,
+		{
+			tsconfigPath: z
+				.string()
+				.describe("Absolute path to the project's tsconfig.json file."),
+			fixIds: z
+				.array(z.string())
+				.min(1)
+				.describe(
+					'TypeScript code fix IDs to apply, in order (e.g. ["fixMissingImport", "unusedIdentifier_delete"]).',
+				),
+			filePaths: z
+				.array(z.string())
+				.optional()
+				.describe("Absolute paths of the files to fix."),
+			directory: z
+				.string()
+				.optional()
+				.describe("Absolute path of a directory whose files are fixed."),
+			dryRun: z
+				.boolean()
+				.optional()
+				.default(false)
+				.describe(
+					"If true, only show intended changes without modifying files.",
+				),
+			includeDiff: z
+				.boolean()
+				.optional()
+				.default(false)
+				.describe(
+					"If true, append a unified diff (on-disk text vs. rewritten text) for each changed file. Most useful together with dryRun.",
+				),
+			reportNewDiagnostics: z
+				.boolean()
+				.optional()
+				.default(false)
+				.describe(
+					"If true, type-check the changed files and the files importing them after the refactor and report only the TypeScript diagnostics it introduced.",
+				),
+		},
+		async (args) => {
+			const startTime = performance.now();
+			let message = "";
+			let isError = false;
+			let duration = "0.00";
+
+			const logArgs = {
+				fixIds: args.fixIds,
+				filePaths: args.filePaths,
+				directory: args.directory,
+				dryRun: args.dryRun,
+			};
+
+			try {
+				const diagnosticsBaseline = args.reportNewDiagnostics
+					? captureDiagnosticsBaseline(getProject(args.tsconfigPath))
+					: undefined;
+				const result = await applyCodeFixes({
+					tsconfigPath: args.tsconfigPath,
+					fixIds: args.fixIds,
+					filePaths: args.filePaths,
+					directory: args.directory,
+					dryRun: args.dryRun,
+					includeDiff: args.includeDiff,
+				});
+
+				const fixSummary = result.appliedFixes
+					.map(
+						({ fixId, filePaths }) =>
+							` - ${fixId}: ${filePaths.length} file(s)`,
+					)
+					.join("\n");
+				if (result.changedFiles.length === 0) {
+					message = `No applicable code fixes found in ${result.checkedFileCount} checked file(s):\n${fixSummary}`;
+				} else {
+					const changedFilesList = result.changedFiles.join("\n - ");
+					const verb = args.dryRun ? "would be" : "were";
+					message = `${args.dryRun ? "Dry run complete" : "Code fixes applied"} to ${result.checkedFileCount} checked file(s):\n${fixSummary}\nThe following files ${verb} modified:\n - ${changedFilesList}`;
+				}
+				if (diagnosticsBaseline) {
+					message += `\n\n${formatNewDiagnostics(findNewDiagnostics(diagnosticsBaseline))}`;
+				}
+				if (result.diffs) {
+					message += `\n\nDiff:\n${formatFileDiffs(result.diffs)}`;
+				}
+			} catch (error) {
+				logger.error(
+					{ err: error, toolArgs: logArgs },
+					"Error executing apply_code_fixes_by_tsmorph",
+				);
+				const errorMessage =
+					error instanceof Error ? error.message : String(error);
+				message = `Error during code fixes: ${errorMessage}`;
+				isError = true;
+			} finally {
+				const endTime = performance.now();
+				duration = ((endTime - startTime) / 1000).toFixed(2);
+				logger.info(
+					{
+						status: isError ? "Failure" : "Success",
+						durationMs: Number.parseFloat((endTime - startTime).toFixed(2)),
+						...logArgs,
+					},
+					"apply_code_fixes_by_tsmorph tool finished",
+				);
+				try {
+					logger.flush();
+				} catch (flushErr) {
+					console.error("Failed to flush logs:", flushErr);
+				}
+			}
+
+			const finalMessage = `${message}\nStatus: ${
+				isError ? "Failure" : "Success"
+			}\nProcessing time: ${duration} seconds`;
+
+			return {
+				content: [{ type: "text", text: finalMessage }],
+				isError,
+			};
+		},
+	);
+}
@@ -0,0 +1,190 @@
+import * as path from "node:path";
+import { performance } from "node:perf_hooks";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { getProject } from "../../ts-morph/_utils/project-registry";
+import {
+	auditDependencies,
+	type PackageImportLocation,
+	type PackageUsage,
+	readNearestPackageJson,
+} from "../../ts-morph/audit-dependencies/audit-dependencies";
+import logger from "../../utils/logger";
+
+function safeLogError(error: unknown, toolArgs: Record<string, unknown>): void {
+	try {
+		logger.error(
+			{ err: error, toolArgs },
+			"Error executing audit_dependencies_by_tsmorph",
+		);
+	} catch (loggerErr) {
+		console.error("Failed to write error log:", loggerErr);
+	}
+}
+
+function safeLogInfo(fields: Record<string, unknown>): void {
+	try {
+		logger.info(fields, "audit_dependencies_by_tsmorph tool finished");
+	} catch (loggerErr) {
+		console.error("Failed to write info log:", loggerErr);
+	}
+}
+
+function formatLocation(location: PackageImportLocation): string {
+	const tag = location.isTypeOnly ? " (type-only)" : "";
+	return `   - ${location.filePath}:${location.line}:${location.column} "${location.moduleSpecifier}"${tag}`;
+}
+
+function formatUsage(usage: PackageUsage): string {
+	return [
+		`- ${usage.packageName}`,
+		...usage.locations.map(formatLocation),
+	].join("\n");
+}
+
+export function registerAuditDependenciesTool(server: McpServer): void {
+	server.tool(
+		"audit_dependencies_by_tsmorph",
+		`[ts-morph] Cross-check the nearest package.json of a tsconfig against every package import in the project. Reports unused dependencies, undeclared (imported but not declared) packages, and dependencies imported only in type positions. Read-only.
+
+## When to use
+- Cleaning up package.json after removing code.
+- A build works locally but fails in CI / production because a package is imported without being declared (it only resolved through hoisting).
+- Shrinking production installs: finding \`dependencies\` that are used only as types and could move to \`devDependencies\`.
+
+## Detection scope
+Package imports are collected from import / export declarations, dynamic \`import()\`, \`import x = require()\`, \`require()\` in JS files and \`import("pkg").Type\`. The package name is the first path segment (\`lodash/get\` -> \`lodash\`, \`@scope/pkg/sub\` -> \`@scope/pkg\`). Not counted: relative / absolute paths, tsconfig \`paths\` aliases, specifiers that \`baseUrl\` resolves to a project file, \`#\` subpath imports, Node.js built-ins (\`fs\`, \`node:fs\`) and the package's own name.
+
+## Reports
+- **Unused dependencies**: entries of \`dependencies\` and \`optionalDependencies\` (plus \`devDependencies\` with \`includeDevDependencies\`) that no file imports. \`@types/*\` (loaded automatically or via tsconfig \`types\`) and \`peerDependencies\` are never reported.
+- **Undeclared dependencies**: packages imported but listed in none of \`dependencies\` / \`devDependencies\` / \`peerDependencies\` / \`optionalDependencies\`, with every import location. When only \`@types/x\` is declared, \`x\` counts as declared only if every import of it is type-only; a runtime import still needs \`x\` itself.
+- **Type-only dependencies**: \`dependencies\` whose every import is removed from the emitted JS (\`import type\`, imports of only interfaces / type aliases, \`import("pkg").Type\`, imports inside .d.ts files), with every import location. These can usually move to \`devDependencies\` — but NOT for a published library whose emitted .d.ts files reference those types.
+
+## Known limitations
+- Packages used without an import are reported as unused: CLI tools run from scripts, Babel / ESLint / PostCSS plugins named in config files, polyfills loaded by a bundler. Use \`ignorePackages\` for them. That is also why \`devDependencies\` are not checked by default.
+- Only files of the tsconfig are scanned; config files outside it (e.g. \`vite.config.ts\` not in \`include\`) are not seen.
+
+## Options
+- \`tsconfigPath\`: absolute path to tsconfig.json. The package.json is the nearest one found from its directory upward.
+- \`includeDevDependencies\`: also report unused \`devDependencies\`. Default false.
+- \`ignorePackages\`: package names to leave out of every report.
+- \`excludeFilePatterns\`: substrings; files whose absolute path \`includes()\` a pattern are not scanned. Excluding tests (\`".test."\`) shows test-only packages as unused dependencies.
+
+## Result format
+Three sections (omitted when empty), each package followed by its import locations as \`path:line:column "specifier"\`. Trailing lines report the package.json path and \`Scanned files: N\`.`,
+		{
+			tsconfigPath: z
+				.string()
+				.describe("Absolute path to the project's tsconfig.json."),
+			includeDevDependencies: z
+				.boolean()
+				.optional()
+				.default(false)
+				.describe(
+					"If true, devDependencies are also checked for being unused.",
+				),
+			ignorePackages: z
+				.array(z.string())
+				.optional()
+				.describe("Package names to leave out of every report."),
+			excludeFilePatterns: z
+				.array(z.string())
+				.optional()
+				.describe(
+					"Substrings; files whose absolute path includes any of these are not scanned.",
+				),
+		},
+		async (args) => {
+			const startTime = performance.now();
+			let message = "";
+			let isError = false;
+			let duration = "0.00";
+
+			const logArgs = {
+				tsconfigPath: args.tsconfigPath,
+				includeDevDependencies: args.includeDevDependencies,
+				ignorePackages: args.ignorePackages,
+				excludeFilePatterns: args.excludeFilePatterns,
+			};
+
+			try {
+				const project = getProject(args.tsconfigPath);
+				const { packageJsonPath, packageJson } = readNearestPackageJson(
+					path.dirname(args.tsconfigPath),
+				);
+				const result = auditDependencies(project, {
+					packageJsonPath,
+					packageJson,
+					includeDevDependencies: args.includeDevDependencies,
+					ignorePackages: args.ignorePackages,
+					excludeFilePatterns: args.excludeFilePatterns,
+				});
+
+				const sections: string[] = [];
+				if (result.unusedDependencies.length > 0) {
+					sections.push(
+						[
+							`Unused dependencies (${result.unusedDependencies.length}):`,
+							...result.unusedDependencies.map(
+								(dep) => `- ${dep.packageName} (${dep.field})`,
+							),
+						].join("\n"),
+					);
+				}
+				if (result.undeclaredDependencies.length > 0) {
+					sections.push(
+						[
+							`Undeclared dependencies (${result.undeclaredDependencies.length}):`,
+							...result.undeclaredDependencies.map(formatUsage),
+						].join("\n"),
+					);
+				}
+				if (result.typeOnlyDependencies.length > 0) {
+					sections.push(
+						[
+							`Type-only dependencies, could move to devDependencies (${result.typeOnlyDependencies.length}):`,
+							...result.typeOnlyDependencies.map(formatUsage),
+						].join("\n"),
+					);
+				}
+				if (sections.length === 0) {
+					sections.push("No dependency problems found.");
+				}
+				message = [
+					...sections,
+					"",
+					`package.json: ${result.packageJsonPath}`,
+					`Scanned files: ${result.scannedFiles}`,
+				].join("\n");
+			} catch (error) {
+				safeLogError(error, logArgs);
+				const errorMessage =
+					error instanceof Error ? error.message : String(error);
+				message = `Error: ${errorMessage}`;
+				isError = true;
+			} finally {
+				const endTime = performance.now();
+				duration = ((endTime - startTime) / 1000).toFixed(2);
+				safeLogInfo({
+					status: isError ? "Failure" : "Success",
+					durationMs: Number.parseFloat((endTime - startTime).toFixed(2)),
+					...logArgs,
+				});
+				try {
+					logger.flush();
+				} catch (flushErr) {
+					console.error("Failed to flush logs:", flushErr);
+				}
+			}
+
+			const finalMessage = `${message}\nStatus: ${
+				isError ? "Failure" : "Success"
+			}\nProcessing time: ${duration} seconds`;
+
+			return {
+				content: [{ type: "text", text: finalMessage }],
+				isError,
+			};
+		},
+	);
+}
@@ -0,0 +1,240 @@
+import { performance } from "node:perf_hooks";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { formatNewDiagnostics } from "../../ts-morph/_utils/diagnostics";
+import { formatFileDiffs } from "../../ts-morph/_utils/file-diff";
+import { getProject } from "../../ts-morph/_utils/project-registry";
+import {
+	captureDiagnosticsBaseline,
+	findNewDiagnostics,
+} from "../../ts-morph/get-diagnostics/new-diagnostics";
+import { batchRefactor } from "../../ts-morph/batch-refactor/batch-refactor";
+import type { BatchRefactorOperation } from "../../ts-morph/batch-refactor/types";
+import logger from "../../utils/logger";
+import { operationSchema as signatureOperationSchema } from "./register-change-signature-tool";
+import {
+	declarationKindNames,
+	defaultExportHandlingNames,
+	syntaxKindMapping,
+} from "./register-move-symbol-to-file-tool";
+
+const positionSchema = z.object({
+	line: z.number().int().positive().describe("1-based line number."),
+	column: z.number().int().positive().describe("1-based column number."),
+});
+
+const batchOperationSchema = z.discriminatedUnion("kind", [
+	z.object({
+		kind: z.literal("renameSymbol"),
+		targetFilePath: z
+			.string()
+			.describe("Absolute path to the file containing the symbol."),
+		position: positionSchema.describe("Position of the symbol identifier."),
+		symbolName: z.string().describe("Current name of the symbol."),
+		newName: z.string().describe("New name for the symbol."),
+	}),
+	z.object({
+		kind: z.literal("moveSymbol"),
+		originalFilePath: z
+			.string()
+			.describe("Absolute path to the file containing the symbol to move."),
+		targetFilePath: z
+			.string()
+			.describe("Absolute path to the destination file (created if missing)."),
+		symbolToMove: z.string().describe("Name of the top-level symbol to move."),
+		declarationKindString: z
+			.enum(declarationKindNames)
+			.optional()
+			.describe(
+				"Optional declaration kind to disambiguate same-name declarations.",
+			),
+		defaultExport: z
+			.enum(defaultExportHandlingNames)
+			.optional()
+			.describe(
+				"Required when moving a default export: keep it as the default export or convert it to a named export.",
+			),
+	}),
+	z.object({
+		kind: z.literal("renameFileSystemEntry"),
+		renames: z
+			.array(
+				z.object({
+					oldPath: z.string().describe("Current absolute path."),
+					newPath: z.string().describe("New absolute path."),
+				}),
+			)
+			.nonempty()
+			.describe("Files and/or folders to rename."),
+	}),
+	z.object({
+		kind: z.literal("changeSignature"),
+		targetFilePath: z
+			.string()
+			.describe("Absolute path to the file containing the function."),
+		position: positionSchema.describe("Position of the function name."),
+		functionName: z.string().describe("Name of the function/method."),
+		changes: z
+			.array(signatureOperationSchema)
+			.min(1)
+			.describe(
+				"Signature operations, same as change_signature_by_tsmorph's `changes`.",
+			),
+	}),
+	z.object({
+		kind: z.literal("removePathAlias"),
+		targetPath: z
+			.string()
+			.describe("Absolute path to the target file or directory."),
+	}),
+]);
+
+type BatchOperationArgs = z.infer<typeof batchOperationSchema>;
+
+function toBatchRefactorOperation(
+	operation: BatchOperationArgs,
+): BatchRefactorOperation {
+	if (operation.kind !== "moveSymbol") {
+		return operation;
+	}
+	const { declarationKindString, ...rest } = operation;
+	return {
+		...rest,
+		declarationKind: declarationKindString
+			? syntaxKindMapping[declarationKindString]
+			: undefined,
+	};
+}
+
+export function registerBatchRefactorTool(server: McpServer): void {
+	server.tool(
+		"batch_refactor_by_tsmorph",
+		`[ts-morph] Run an ordered list of refactoring operations (rename symbol, move symbol, rename file/folder, change signature, remove path alias) against ONE in-memory project, and write to disk only if every step succeeds.
+
+## When to use
+- Chained refactors such as "rename a function, move it to a new file, then add a parameter". Running the individual tools one by one saves after each step, so a failure halfway leaves the tree half-refactored; this tool is all-or-nothing.
+- Previewing the combined effect of several refactors with \`dryRun: true\` (optionally with \`includeDiff: true\`).
+
+## When NOT to use
+- A single operation -> use the dedicated tool (\`rename_symbol_by_tsmorph\`, \`move_symbol_to_file_by_tsmorph\`, etc.).
+
+## Critical constraints
+- Operations run in order. Positions and paths in a step refer to the code AFTER all previous steps have been applied (e.g. after moving a symbol, address it in its new file; after renaming a file, use the new path).
+- Each operation accepts the same parameters as its dedicated tool (without \`tsconfigPath\` / \`dryRun\`).
+- If any step fails, nothing is written and the error names the failing step.
+- All paths MUST be absolute.
+
+## Result
+Returns the completed steps, the list of modified (or to-be-modified, in dryRun) and removed file paths, plus status and processing time. With \`includeDiff: true\`, a unified diff per file is appended. With \`reportNewDiagnostics: true\`, the TypeScript diagnostics introduced by the refactor (in the changed files and their importers) are appended.`,
+		{
+			tsconfigPath: z
+				.string()
+				.describe("Absolute path to the project's tsconfig.json file."),
+			operations: z
+				.array(batchOperationSchema)
+				.min(1)
+				.describe(
+					"Ordered list of operations. Each item is discriminated by `kind`.",
+				),
+			dryRun: z
+				.boolean()
+				.optional()
+				.default(false)
+				.describe(
+					"If true, only show intended changes without modifying files.",
+				),
+			includeDiff: z
+				.boolean()
+				.optional()
+				.default(false)
+				.describe(
+					"If true, append a unified diff (on-disk text vs. rewritten text) for each changed or removed file. Most useful together with dryRun.",
+				),
+			reportNewDiagnostics: z
+				.boolean()
+				.optional()
+				.default(false)
+				.describe(
+					"If true, type-check the changed files and the files importing them after the refactor and report only the TypeScript diagnostics it introduced.",
+				),
+		},
+		async (args) => {
+			const startTime = performance.now();
+			let message = "";
+			let isError = false;
+			let duration = "0.00";
+
+			const logArgs = {
+				tsconfigPath: args.tsconfigPath,
+				operationKinds: args.operations.map((op) => op.kind),
+				dryRun: args.dryRun,
+			};
+
+			try {
+				const project = getProject(args.tsconfigPath);
+				const diagnosticsBaseline = args.reportNewDiagnostics
+					? captureDiagnosticsBaseline(project)
+					: undefined;
+				const result = await batchRefactor(project, {
+					operations: args.operations.map(toBatchRefactorOperation),
+					dryRun: args.dryRun,
+					includeDiff: args.includeDiff,
+				});
+
+				const stepList = result.steps
+					.map((step, i) => `${i + 1}. ${step.kind}`)
+					.join("\n");
+				const changedFilesList =
+					result.changedFiles.length > 0
+						? result.changedFiles.join("\n - ")
+						: "(No changes)";
+				const verb = args.dryRun ? "would be" : "were";
+
+				message = `${args.dryRun ? "Dry run complete" : "Batch refactor successful"}: ${result.steps.length} step(s) applied.\n${stepList}\nThe following files ${verb} modified:\n - ${changedFilesList}`;
+				if (result.removedFiles.length > 0) {
+					message += `\nThe following files ${verb} removed:\n - ${result.removedFiles.join("\n - ")}`;
+				}
+				if (diagnosticsBaseline) {
+					message += `\n\n${formatNewDiagnostics(findNewDiagnostics(diagnosticsBaseline))}`;
+				}
+				if (result.diffs) {
+					message += `\n\nDiff:\n${formatFileDiffs(result.diffs)}`;
+				}
+			} catch (error) {
+				logger.error(
+					{ err: error, toolArgs: logArgs },
+					"Error executing batch_refactor_by_tsmorph",
+				);
+				const errorMessage =
+					error instanceof Error ? error.message : String(error);
+				message = `Error during batch refactor: ${errorMessage}`;
+				isError = true;
+			} finally {
+				const endTime = performance.now();
+				duration = ((endTime - startTime) / 1000).toFixed(2);
+				logger.info(
+					{
+						status: isError ? "Failure" : "Success",
+						durationMs: Number.parseFloat((endTime - startTime).toFixed(2)),
+						...logArgs,
+					},
+					"batch_refactor_by_tsmorph tool finished",
+				);
+				try {
+					logger.flush();
+				} catch (flushErr) {
+					console.error("Failed to flush logs:", flushErr);
+				}
+			}
+
+			const finalMessage = `${message}\nStatus: ${
+				isError ? "Failure" : "Success"
+			}\nProcessing time: ${duration} seconds`;
+
+			return {
+				content: [{ type: "text", text: finalMessage }],
+				isError,
+			};
+		},
+	);
+}
@@ -0,0 +1,164 @@
+import { performance } from "node:perf_hooks";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { formatNewDiagnostics } from "../../ts-morph/_utils/diagnostics";
+import { formatFileDiffs } from "../../ts-morph/_utils/file-diff";
+import { getProject } from "../../ts-morph/_utils/project-registry";
+import { bypassBarrelImports } from "../../ts-morph/barrel-files/bypass-barrel-imports";
+import {
+	captureDiagnosticsBaseline,
+	findNewDiagnostics,
+} from "../../ts-morph/get-diagnostics/new-diagnostics";
+import logger from "../../utils/logger";
+
+export function registerBypassBarrelImportsTool(server: McpServer): void {
+	server.tool(
+		"bypass_barrel_imports_by_tsmorph",
+		`[ts-morph] Rewrite imports that go through a barrel file (\`import { Button } from "./components"\`) into direct imports from the files that define the symbols (\`import { Button } from "./components/button"\`). Cuts circular imports and tree-shaking problems caused by barrels.
+
+## When to use
+- A barrel (\`index.ts\` re-exporting a directory) causes circular imports or pulls in more modules than needed.
+- Code inside a directory imports its own barrel.
+
+## When NOT to use
+- Creating or updating the barrel itself -> use \`generate_barrel_file_by_tsmorph\`.
+- Rewriting path aliases to relative paths -> use \`remove_path_alias_by_tsmorph\`.
+
+## Critical constraints
+- At least one of \`filePaths\` / \`directory\` is required (\`node_modules\` and \`.d.ts\` files are skipped). When both are given, the union is processed. These are the files whose imports are rewritten, not the barrels.
+- Each imported name is resolved through the whole re-export chain (\`export { x } from\`, \`export *\`, nested barrels) by the type checker. Local names and \`import type\` / \`type\` modifiers are kept; a name re-exported as \`default\` or under another name is imported by its name in the defining file.
+- Left untouched: names the barrel defines itself, namespace imports (\`import * as x\`), and names defined in packages or \`.d.ts\` files.
+- New module specifiers are relative paths, even when the original import used a path alias.
+- Side effects of the barrel module are no longer triggered by the rewritten imports.
+- All paths MUST be absolute.
+
+## Tips
+- Pass \`barrelFilePaths\` to bypass only specific barrels.
+- Run with \`dryRun: true\` and \`includeDiff: true\` first to review the result.
+
+## Result
+Returns each rewritten import (file, barrel, imported name, new module specifier) and the modified (or to-be-modified, in dryRun) file paths out of the checked files, plus status and processing time. With \`includeDiff: true\`, a unified diff per changed file is appended. With \`reportNewDiagnostics: true\`, the TypeScript diagnostics introduced by the change (in the changed files and their importers) are appended.`,
+		{
+			tsconfigPath: z
+				.string()
+				.describe("Absolute path to the project's tsconfig.json file."),
+			filePaths: z
+				.array(z.string())
+				.optional()
+				.describe("Absolute paths of the files whose imports are rewritten."),
+			directory: z
+				.string()
+				.optional()
+				.describe(
+					"Absolute path of a directory whose files' imports are rewritten.",
+				),
+			barrelFilePaths: z
+				.array(z.string())
+				.optional()
+				.describe(
+					"Absolute paths of the barrel files to bypass. If omitted, every import that goes through a re-export is rewritten.",
+				),
+			dryRun: z
+				.boolean()
+				.optional()
+				.default(false)
+				.describe(
+					"If true, only show intended changes without modifying files.",
+				),
+			includeDiff: z
+				.boolean()
+				.optional()
+				.default(false)
+				.describe(
+					"If true, append a unified diff (on-disk text vs. rewritten text) for each changed file. Most useful together with dryRun.",
+				),
+			reportNewDiagnostics: z
+				.boolean()
+				.optional()
+				.default(false)
+				.describe(
+					"If true, type-check the changed files and the files importing them after the refactor and report only the TypeScript diagnostics it introduced.",
+				),
+		},
+		async (args) => {
+			const startTime = performance.now();
+			let message = "";
+			let isError = false;
+			let duration = "0.00";
+
+			const logArgs = {
+				filePaths: args.filePaths,
+				directory: args.directory,
+				barrelFilePaths: args.barrelFilePaths,
+				dryRun: args.dryRun,
+			};
+
+			try {
+				const diagnosticsBaseline = args.reportNewDiagnostics
+					? captureDiagnosticsBaseline(getProject(args.tsconfigPath))
+					: undefined;
+				const result = await bypassBarrelImports({
+					tsconfigPath: args.tsconfigPath,
+					filePaths: args.filePaths,
+					directory: args.directory,
+					barrelFilePaths: args.barrelFilePaths,
+					dryRun: args.dryRun,
+					includeDiff: args.includeDiff,
+				});
+
+				if (result.bypassedImports.length === 0) {
+					message = `No imports through barrel files found in ${result.checkedFileCount} checked file(s).`;
+				} else {
+					const verb = args.dryRun ? "would be" : "were";
+					const importList = result.bypassedImports
+						.map(
+							(bypassed) =>
+								` - ${bypassed.filePath}: ${bypassed.name} (${bypassed.barrelFilePath} -> "${bypassed.moduleSpecifier}")`,
+						)
+						.join("\n");
+					message = `${args.dryRun ? "Dry run complete" : "Barrel imports bypassed"}: ${result.bypassedImports.length} imported name(s) ${verb} rewritten:\n${importList}\nThe following files ${verb} modified:\n - ${result.changedFiles.join("\n - ")}`;
+				}
+				if (diagnosticsBaseline) {
+					message += `\n\n${formatNewDiagnostics(findNewDiagnostics(diagnosticsBaseline))}`;
+				}
+				if (result.diffs) {
+					message += `\n\nDiff:\n${formatFileDiffs(result.diffs)}`;
+				}
+			} catch (error) {
+				logger.error(
+					{ err: error, toolArgs: logArgs },
+					"Error executing bypass_barrel_imports_by_tsmorph",
+				);
+				const errorMessage =
+					error instanceof Error ? error.message : String(error);
+				message = `Error during bypass barrel imports: ${errorMessage}`;
+				isError = true;
+			} finally {
+				const endTime = performance.now();
+				duration = ((endTime - startTime) / 1000).toFixed(2);
+				logger.info(
+					{
+						status: isError ? "Failure" : "Success",
+						durationMs: Number.parseFloat((endTime - startTime).toFixed(2)),
+						...logArgs,
+					},
+					"bypass_barrel_imports_by_tsmorph tool finished",
+				);
+				try {
+					logger.flush();
+				} catch (flushErr) {
+					console.error("Failed to flush logs:", flushErr);
+				}
+			}
+
+			const finalMessage = `${message}\nStatus: ${
+				isError ? "Failure" : "Success"
+			}\nProcessing time: ${duration} seconds`;
+
+			return {
+				content: [{ type: "text", text: finalMessage }],
+				isError,
+			};
+		},
+	);
+}
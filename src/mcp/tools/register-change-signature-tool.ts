@@ -1,7 +1,17 @@
 import { performance } from "node:perf_hooks";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
+import {
+	formatDiagnosticInfos,
+	formatNewDiagnostics,
+} from "../../ts-morph/_utils/diagnostics";
+import { formatFileDiffs } from "../../ts-morph/_utils/file-diff";
 import { changeSignature } from "../../ts-morph/change-signature/change-signature";
+import { getProject } from "../../ts-morph/_utils/project-registry";
+import {
+	captureDiagnosticsBaseline,
+	findNewDiagnostics,
+} from "../../ts-morph/get-diagnostics/new-diagnostics";
 import logger from "../../utils/logger";
 
 const addOpSchema = z.object({
@@ -57,25 +67,52 @@ const reorderOpSchema = z.object({
 		),
 });
 
-const operationSchema = z.discriminatedUnion("kind", [
+const toObjectParameterOpSchema = z.object({
+	kind: z.literal("toObjectParameter"),
+});
+
+const changeTypeOpSchema = z.object({
+	kind: z.literal("changeType"),
+	index: z
+		.number()
+		.int()
+		.nonnegative()
+		.describe("0-based index of the parameter whose type annotation changes."),
+	typeText: z
+		.string()
+		.describe('New type annotation text (e.g. "string | undefined").'),
+});
+
+const changeReturnTypeOpSchema = z.object({
+	kind: z.literal("changeReturnType"),
+	typeText: z
+		.string()
+		.describe('New return type annotation text (e.g. "Promise<void>").'),
+});
+
+export const operationSchema = z.discriminatedUnion("kind", [
 	addOpSchema,
 	removeOpSchema,
 	reorderOpSchema,
+	toObjectParameterOpSchema,
+	changeTypeOpSchema,
+	changeReturnTypeOpSchema,
 ]);
 
 export function registerChangeSignatureTool(server: McpServer): void {
 	server.tool(
 		"change_signature_by_tsmorph",
-		`[ts-morph] Add, remove, or reorder parameters of a function/method/arrow-function and propagate the matching argument changes to every call site in the project.
+		`[ts-morph] Add, remove, or reorder parameters of a function/method/arrow-function (or collapse them into a single options object, or change parameter/return types) and propagate the matching argument changes to every call site in the project.
 
 ## When to use
 - Adding a required parameter to a function with many callers (LLM single-edit reliably misses some — this tool guarantees every call site is updated via the type checker).
 - Removing or reordering parameters of a function that is imported, re-exported, or accessed through a method chain.
 - Inserting a context-like first parameter (\`ctx\`, \`logger\`, etc.) into existing helpers.
+- Changing a parameter type or the return type and finding out which callers no longer type-check, without running a full \`tsc\`.
+- Turning a long positional parameter list \`fn(a, b, c?)\` into an options object \`fn({ a, b, c })\`.
 
 ## When NOT to use
 - Renaming a parameter — use \`rename_symbol_by_tsmorph\` on the parameter identifier instead.
-- Changing only the parameter's type annotation without changing arity — edit the source file directly.
 - Moving the function to another file — use \`move_symbol_to_file_by_tsmorph\`.
 
 ## Critical constraints
@@ -89,13 +126,17 @@ export function registerChangeSignatureTool(server: McpServer): void {
 - **add**: Inserts a parameter at \`index\` (default: end). If \`argumentForCallers\` is provided, that exact text is inserted at the same index in every call site. If omitted, callers are left untouched (use only for trailing optional / defaulted parameters).
 - **remove**: Removes the parameter at \`index\`. Each call site with at least that many arguments drops the corresponding one. Calls passing fewer arguments are left untouched.
 - **reorder**: Rebuilds the parameter list and every call site according to \`newOrder\`. Fails if any call site does not pass exactly that many arguments (no way to safely reorder omitted optionals).
+- **toObjectParameter**: Replaces all parameters with one destructured, typed parameter (\`{ a, b, c = 1 }: { a: A; b?: B; c?: number }\`). Optional and defaulted parameters become optional properties; untyped parameters get their inferred type; if every parameter is optional the object defaults to \`{}\`. Each call site's positional arguments become an object literal keyed by parameter name (omitted optional arguments are left out, an argument that is an identifier with the same name becomes a shorthand property). Rest and destructured parameters are rejected.
+- **changeType**: Replaces the type annotation of the parameter at \`index\`. Call sites are not modified.
+- **changeReturnType**: Replaces (or adds) the return type annotation. Not allowed on setters.
+- After \`changeType\` / \`changeReturnType\`, the statements containing each call site are type-checked and any error that did not exist before the change is reported with file, line, and column. The change itself is still applied (unless \`dryRun\`), so review the reported callers or rerun with \`dryRun: true\` first.
 
 ## Tips
-- Run with \`dryRun: true\` first when the function has many callers to preview the impacted files.
+- Run with \`dryRun: true\` first when the function has many callers to preview the impacted files. Add \`includeDiff: true\` to review the exact rewritten lines.
 - For adding multiple parameters at once, list multiple \`add\` operations; their \`index\` values refer to the parameter list *after* prior operations in the same call have been applied.
 
 ## Result
-Returns the list of modified (or to-be-modified, in dryRun) file paths, plus status and processing time.`,
+Returns the list of modified (or to-be-modified, in dryRun) file paths, plus status and processing time. For type changes, also lists the call sites that no longer type-check (or states that all callers still type-check). With \`includeDiff: true\`, a unified diff per changed file is appended. With \`reportNewDiagnostics: true\`, the TypeScript diagnostics introduced by the refactor (in the changed files and their importers) are appended.`,
 		{
 			tsconfigPath: z
 				.string()
@@ -129,6 +170,20 @@ Returns the list of modified (or to-be-modified, in dryRun) file paths, plus sta
 				.describe(
 					"If true, only show intended changes without modifying files.",
 				),
+			includeDiff: z
+				.boolean()
+				.optional()
+				.default(false)
+				.describe(
+					"If true, append a unified diff (on-disk text vs. rewritten text) for each changed file. Most useful together with dryRun.",
+				),
+			reportNewDiagnostics: z
+				.boolean()
+				.optional()
+				.default(false)
+				.describe(
+					"If true, type-check the changed files and the files importing them after the refactor and report only the TypeScript diagnostics it introduced.",
+				),
 		},
 		async (args) => {
 			const startTime = performance.now();
@@ -145,6 +200,9 @@ Returns the list of modified (or to-be-modified, in dryRun) file paths, plus sta
 			};
 
 			try {
+				const diagnosticsBaseline = args.reportNewDiagnostics
+					? captureDiagnosticsBaseline(getProject(args.tsconfigPath))
+					: undefined;
 				const result = await changeSignature({
 					tsconfigPath: args.tsconfigPath,
 					targetFilePath: args.targetFilePath,
@@ -152,6 +210,7 @@ Returns the list of modified (or to-be-modified, in dryRun) file paths, plus sta
 					functionName: args.functionName,
 					changes: args.changes,
 					dryRun: args.dryRun,
+					includeDiff: args.includeDiff,
 				});
 
 				changedFilesCount = result.changedFiles.length;
@@ -165,6 +224,18 @@ Returns the list of modified (or to-be-modified, in dryRun) file paths, plus sta
 				} else {
 					message = `Signature change successful for '${args.functionName}'. The following files were modified:\n - ${changedFilesList}`;
 				}
+				if (result.callSiteErrors) {
+					message +=
+						result.callSiteErrors.length > 0
+							? `\n\nCall sites that no longer type-check (${result.callSiteErrors.length}):\n${formatDiagnosticInfos(result.callSiteErrors)}`
+							: "\n\nAll call sites still type-check.";
+				}
+				if (diagnosticsBaseline) {
+					message += `\n\n${formatNewDiagnostics(findNewDiagnostics(diagnosticsBaseline))}`;
+				}
+				if (result.diffs) {
+					message += `\n\nDiff:\n${formatFileDiffs(result.diffs)}`;
+				}
 			} catch (error) {
 				logger.error(
 					{ err: error, toolArgs: logArgs },
@@ -0,0 +1,204 @@
+import * as path from "node:path";
+import { performance } from "node:perf_hooks";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { checkLayerRules } from "../../ts-morph/check-layer-rules/check-layer-rules";
+import type { LayerViolation } from "../../ts-morph/check-layer-rules/types";
+import { getProject } from "../../ts-morph/_utils/project-registry";
+import logger from "../../utils/logger";
+
+function safeLogError(error: unknown, toolArgs: Record<string, unknown>): void {
+	try {
+		logger.error(
+			{ err: error, toolArgs },
+			"Error executing check_layer_rules_by_tsmorph",
+		);
+	} catch (loggerErr) {
+		console.error("Failed to write error log:", loggerErr);
+	}
+}
+
+function safeLogInfo(fields: Record<string, unknown>): void {
+	try {
+		logger.info(fields, "check_layer_rules_by_tsmorph tool finished");
+	} catch (loggerErr) {
+		console.error("Failed to write info log:", loggerErr);
+	}
+}
+
+function formatViolation(violation: LayerViolation): string {
+	const lines = [
+		`- ${violation.filePath}:${violation.line} imports "${violation.moduleSpecifier}" (${violation.fromGroup} -> ${violation.toGroup})${violation.message ? `: ${violation.message}` : ""}`,
+	];
+	if (violation.suggestions?.length === 0) {
+		lines.push(
+			"  Suggested fix: none (no move keeps both sides within the rules)",
+		);
+	}
+	for (const suggestion of violation.suggestions ?? []) {
+		lines.push(
+			`  Suggested fix: move_symbol_to_file_by_tsmorph ${JSON.stringify(suggestion)}`,
+		);
+	}
+	return lines.join("\n");
+}
+
+export function registerCheckLayerRulesTool(server: McpServer): void {
+	server.tool(
+		"check_layer_rules_by_tsmorph",
+		`[ts-morph] Check architectural layer boundaries: define path groups with globs, declare which groups each group may (not) import, and get every violating import / re-export with its location. Read-only.
+
+## When to use
+- Enforcing rules such as "\`domain\` must not import \`infra\`" or "a feature must not import another feature's internals".
+- After moving code, to confirm no boundary was crossed.
+
+## When NOT to use
+- Finding import cycles -> use \`find_circular_imports_by_tsmorph\`.
+- Getting an overview of which directories depend on which -> use \`get_dependency_graph_by_tsmorph\`.
+
+## Groups
+- \`groups\`: \`[{ name, patterns }]\`. Patterns are globs relative to the tsconfig.json directory (\`**\`, \`*\`, \`?\`, \`{a,b}\`). A file belongs to the FIRST group with a matching pattern; files in no group are not checked.
+- The segments before the first \`**\` identify an element of the group: with \`src/features/*/**\`, \`src/features/auth\` and \`src/features/cart\` are different elements. Without \`**\`, the file's directory is the element.
+
+## Rules
+- \`rules\`: \`[{ from, disallow?, allow?, except?, message? }]\`, applied to files in group \`from\`.
+- \`disallow\`: groups that must not be imported. \`allow\`: if given, every other group is disallowed (files in no group are still fine).
+- Imports inside the same element are always allowed. An import into ANOTHER element of the same group is judged under the group's own name, so \`{ from: "features", disallow: ["features"] }\` forbids cross-feature imports.
+- \`except\`: globs for import targets that never violate this rule, e.g. \`src/features/*/index.ts\` as the public entry point.
+- Imports are resolved like the other tools (path aliases included). \`node_modules\` and \`.d.ts\` files are ignored.
+
+## Options
+- \`suggestFixes\`: for each violation, propose \`move_symbol_to_file_by_tsmorph\` arguments that move the imported symbols into the importing element (same file name as their declaring file). A move is only proposed when the declaring file may import the new location; otherwise \`none\` is reported. Dependencies of the moved symbols are not checked, so re-run this tool after moving.
+- \`excludeFilePatterns\`: substrings; any file whose absolute path \`includes()\` a pattern is not checked.
+
+## Result format
+A list of \`path:line imports "specifier" (fromGroup -> toGroup): message\`, each optionally followed by suggested fixes. A trailing line reports \`Checked files: N\`.`,
+		{
+			tsconfigPath: z
+				.string()
+				.describe(
+					"Absolute path to the project's tsconfig.json. Group patterns are relative to its directory.",
+				),
+			groups: z
+				.array(
+					z.object({
+						name: z.string().describe("Group name used in rules."),
+						patterns: z
+							.array(z.string())
+							.min(1)
+							.describe(
+								"Globs relative to the tsconfig.json directory (e.g. 'src/domain/**').",
+							),
+					}),
+				)
+				.min(1)
+				.describe("Path groups. A file belongs to the first matching group."),
+			rules: z
+				.array(
+					z.object({
+						from: z.string().describe("Group whose imports are checked."),
+						disallow: z
+							.array(z.string())
+							.optional()
+							.describe("Groups that must not be imported."),
+						allow: z
+							.array(z.string())
+							.optional()
+							.describe(
+								"If given, only these groups may be imported (files in no group are always allowed).",
+							),
+						except: z
+							.array(z.string())
+							.optional()
+							.describe(
+								"Globs for import targets exempt from this rule (e.g. public index.ts).",
+							),
+						message: z
+							.string()
+							.optional()
+							.describe("Explanation shown with each violation."),
+					}),
+				)
+				.min(1)
+				.describe("Import rules between groups."),
+			suggestFixes: z
+				.boolean()
+				.optional()
+				.default(false)
+				.describe(
+					"If true, propose move_symbol_to_file_by_tsmorph arguments for each violation.",
+				),
+			excludeFilePatterns: z
+				.array(z.string())
+				.optional()
+				.describe(
+					"Substrings; files whose absolute path includes any of these are not checked.",
+				),
+		},
+		async (args) => {
+			const startTime = performance.now();
+			let message = "";
+			let isError = false;
+			let duration = "0.00";
+
+			const logArgs = {
+				tsconfigPath: args.tsconfigPath,
+				groupCount: args.groups.length,
+				ruleCount: args.rules.length,
+				suggestFixes: args.suggestFixes,
+				excludeFilePatterns: args.excludeFilePatterns,
+			};
+
+			try {
+				const project = getProject(args.tsconfigPath);
+				const result = checkLayerRules(project, {
+					rootDir: path.dirname(args.tsconfigPath),
+					groups: args.groups,
+					rules: args.rules,
+					suggestFixes: args.suggestFixes,
+					excludeFilePatterns: args.excludeFilePatterns,
+				});
+
+				const footer = `Checked files: ${result.checkedFileCount}`;
+				if (result.violations.length === 0) {
+					message = `No layer rule violations found.\n${footer}`;
+				} else {
+					message = [
+						`Layer rule violations found (${result.violations.length}):`,
+						...result.violations.map(formatViolation),
+						"",
+						footer,
+					].join("\n");
+				}
+			} catch (error) {
+				safeLogError(error, logArgs);
+				const errorMessage =
+					error instanceof Error ? error.message : String(error);
+				message = `Error: ${errorMessage}`;
+				isError = true;
+			} finally {
+				const endTime = performance.now();
+				duration = ((endTime - startTime) / 1000).toFixed(2);
+				safeLogInfo({
+					status: isError ? "Failure" : "Success",
+					durationMs: Number.parseFloat((endTime - startTime).toFixed(2)),
+					...logArgs,
+				});
+				try {
+					logger.flush();
+				} catch (flushErr) {
+					console.error("Failed to flush logs:", flushErr);
+				}
+			}
+
+			const finalMessage = `${message}\nStatus: ${
+				isError ? "Failure" : "Success"
+			}\nProcessing time: ${duration} seconds`;
+
+			return {
+				content: [{ type: "text", text: finalMessage }],
+				isError,
+			};
+		},
+	);
+}
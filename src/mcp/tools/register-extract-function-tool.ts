@@ -0,0 +1,170 @@
+import { performance } from "node:perf_hooks";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { formatFileDiffs } from "../../ts-morph/_utils/file-diff";
+import { extractFunction } from "../../ts-morph/extract-function/extract-function";
+import { formatNewDiagnostics } from "../../ts-morph/_utils/diagnostics";
+import { getProject } from "../../ts-morph/_utils/project-registry";
+import {
+	captureDiagnosticsBaseline,
+	findNewDiagnostics,
+} from "../../ts-morph/get-diagnostics/new-diagnostics";
+import logger from "../../utils/logger";
+
+const positionSchema = z.object({
+	line: z.number().int().positive().describe("1-based line number."),
+	column: z.number().int().positive().describe("1-based column number."),
+});
+
+export function registerExtractFunctionTool(server: McpServer): void {
+	server.tool(
+		"extract_function_by_tsmorph",
+		`[ts-morph] Extract the statements inside a line/column range into a new function (or private class method) and replace them with a call.
+
+## When to use
+- A long function contains a block that deserves its own name (validation, formatting, a loop body that computes a value).
+- You want the parameter list and return value derived from the code instead of working them out by hand: variables declared outside the range become parameters (typed from the checker), and variables assigned inside the range that are used afterwards become return values.
+
+## When NOT to use
+- Extracting a single expression (not whole statements) -- this tool only works on complete statements.
+- Moving an existing top-level function to another file -> use \`move_symbol_to_file_by_tsmorph\`.
+
+## Critical constraints
+- The range must cover whole statements of the same block. Starting or ending in the middle of a statement fails.
+- \`endPosition\` may point at the last character of the range or just after it.
+- Ranges containing \`return\`, \`yield\`, or \`break\`/\`continue\` that jump outside the range are rejected.
+- \`placement: "module"\` (default) adds a function declaration right after the top-level statement containing the range; ranges that use \`this\`/\`super\` are rejected. \`placement: "classMethod"\` adds a private method (static if the enclosing member is static) right after the enclosing member and calls it via \`this\`.
+- If the range contains \`await\`, the new function is \`async\` and the call is awaited.
+- Type parameters of enclosing functions / classes that the range or the parameter types use (\`f<T extends object>\`) are copied with their constraints onto the new function (for \`classMethod\`, only those the class does not already provide). The call passes explicit type arguments when one cannot be inferred from the parameters.
+- One return value is returned directly; several are returned as an object and destructured at the call site.
+- All paths MUST be absolute.
+
+## Tips
+- Run with \`dryRun: true\` and \`includeDiff: true\` first to review the generated signature.
+- Rename the generated parameters afterwards with \`rename_symbol_by_tsmorph\` if needed.
+
+## Result
+Returns the inferred parameters and return values and the modified (or to-be-modified, in dryRun) file paths, plus status and processing time. With \`includeDiff: true\`, a unified diff per changed file is appended. With \`reportNewDiagnostics: true\`, the TypeScript diagnostics introduced by the refactor (in the changed files and their importers) are appended.`,
+		{
+			tsconfigPath: z
+				.string()
+				.describe("Absolute path to the project's tsconfig.json file."),
+			targetFilePath: z
+				.string()
+				.describe("Absolute path to the file containing the statements."),
+			startPosition: positionSchema.describe(
+				"Start of the range (beginning of the first statement).",
+			),
+			endPosition: positionSchema.describe(
+				"End of the range (last character of the last statement, or just after it).",
+			),
+			functionName: z.string().describe("Name of the new function or method."),
+			placement: z
+				.enum(["module", "classMethod"])
+				.optional()
+				.default("module")
+				.describe(
+					'Where to put the new function: "module" (top-level function) or "classMethod" (private method of the enclosing class).',
+				),
+			dryRun: z
+				.boolean()
+				.optional()
+				.default(false)
+				.describe(
+					"If true, only show intended changes without modifying files.",
+				),
+			includeDiff: z
+				.boolean()
+				.optional()
+				.default(false)
+				.describe(
+					"If true, append a unified diff (on-disk text vs. rewritten text) for each changed file. Most useful together with dryRun.",
+				),
+			reportNewDiagnostics: z
+				.boolean()
+				.optional()
+				.default(false)
+				.describe(
+					"If true, type-check the changed files and the files importing them after the refactor and report only the TypeScript diagnostics it introduced.",
+				),
+		},
+		async (args) => {
+			const startTime = performance.now();
+			let message = "";
+			let isError = false;
+			let duration = "0.00";
+
+			const logArgs = {
+				targetFilePath: args.targetFilePath,
+				startPosition: args.startPosition,
+				endPosition: args.endPosition,
+				functionName: args.functionName,
+				placement: args.placement,
+				dryRun: args.dryRun,
+			};
+
+			try {
+				const diagnosticsBaseline = args.reportNewDiagnostics
+					? captureDiagnosticsBaseline(getProject(args.tsconfigPath))
+					: undefined;
+				const result = await extractFunction({
+					tsconfigPath: args.tsconfigPath,
+					targetFilePath: args.targetFilePath,
+					startPosition: args.startPosition,
+					endPosition: args.endPosition,
+					functionName: args.functionName,
+					placement: args.placement,
+					dryRun: args.dryRun,
+					includeDiff: args.includeDiff,
+				});
+
+				const format = (names: string[]) =>
+					names.length > 0 ? names.join(", ") : "(none)";
+				const changedFilesList = result.changedFiles.join("\n - ");
+				const verb = args.dryRun ? "would be" : "were";
+
+				message = `${args.dryRun ? "Dry run complete" : "Extract function successful"}: '${args.functionName}'\nParameters: ${format(result.parameters)}\nReturn values: ${format(result.returnValues)}\nThe following files ${verb} modified:\n - ${changedFilesList}`;
+				if (diagnosticsBaseline) {
+					message += `\n\n${formatNewDiagnostics(findNewDiagnostics(diagnosticsBaseline))}`;
+				}
+				if (result.diffs) {
+					message += `\n\nDiff:\n${formatFileDiffs(result.diffs)}`;
+				}
+			} catch (error) {
+				logger.error(
+					{ err: error, toolArgs: logArgs },
+					"Error executing extract_function_by_tsmorph",
+				);
+				const errorMessage =
+					error instanceof Error ? error.message : String(error);
+				message = `Error during extract function: ${errorMessage}`;
+				isError = true;
+			} finally {
+				const endTime = performance.now();
+				duration = ((endTime - startTime) / 1000).toFixed(2);
+				logger.info(
+					{
+						status: isError ? "Failure" : "Success",
+						durationMs: Number.parseFloat((endTime - startTime).toFixed(2)),
+						...logArgs,
+					},
+					"extract_function_by_tsmorph tool finished",
+				);
+				try {
+					logger.flush();
+				} catch (flushErr) {
+					console.error("Failed to flush logs:", flushErr);
+				}
+			}
+
+			const finalMessage = `${message}\nStatus: ${
+				isError ? "Failure" : "Success"
+			}\nProcessing time: ${duration} seconds`;
+
+			return {
+				content: [{ type: "text", text: finalMessage }],
+				isError,
+			};
+		},
+	);
+}
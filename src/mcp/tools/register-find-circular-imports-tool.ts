@@ -0,0 +1,152 @@
+import { performance } from "node:perf_hooks";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { getProject } from "../../ts-morph/_utils/project-registry";
+import {
+	type CircularImport,
+	findCircularImports,
+} from "../../ts-morph/find-circular-imports/find-circular-imports";
+import logger from "../../utils/logger";
+
+function safeLogError(error: unknown, toolArgs: Record<string, unknown>): void {
+	try {
+		logger.error(
+			{ err: error, toolArgs },
+			"Error executing find_circular_imports_by_tsmorph",
+		);
+	} catch (loggerErr) {
+		console.error("Failed to write error log:", loggerErr);
+	}
+}
+
+function safeLogInfo(fields: Record<string, unknown>): void {
+	try {
+		logger.info(fields, "find_circular_imports_by_tsmorph tool finished");
+	} catch (loggerErr) {
+		console.error("Failed to write info log:", loggerErr);
+	}
+}
+
+function formatCircularImport(cycle: CircularImport, index: number): string {
+	const tag = cycle.isTypeOnly ? " [type-only]" : "";
+	return [
+		`${index + 1}. ${cycle.files.join(" -> ")}${tag}`,
+		...cycle.links.map(
+			(link) =>
+				`   - ${link.from}:${link.line} imports "${link.moduleSpecifier}"${link.isTypeOnly ? " (type-only)" : ""}`,
+		),
+	].join("\n");
+}
+
+export function registerFindCircularImportsTool(server: McpServer): void {
+	server.tool(
+		"find_circular_imports_by_tsmorph",
+		`[ts-morph] Find import cycles between the project's files and report each as an ordered file chain (\`a.ts -> b.ts -> a.ts\`) with the import that forms each link. Read-only.
+
+## When to use
+- A build or test run fails with \`undefined\` imports / "Cannot access X before initialization" that tsc does not report.
+- Before or after moving code between modules, to make sure no new cycle was introduced.
+
+## When NOT to use
+- Listing the dependencies of a file without cycles in mind -> use \`find_references_by_tsmorph\` or read the imports.
+
+## Detection scope
+- The module graph is built from every \`ImportDeclaration\` and \`ExportDeclaration\` (\`export * from\`, \`export { x } from\`) resolved to a project file. \`node_modules\` and \`.d.ts\` files are not part of the graph. Dynamic \`import()\` and \`require()\` are not followed.
+- A link is type-only when it is \`import type\` / \`export type\`, every specifier has a \`type\` modifier, or it imports only interfaces / type aliases (TypeScript drops it from the output). Cycles containing such a link are tagged \`[type-only]\`; they do not break at runtime.
+- One cycle is reported per back edge found by a depth-first search, so alternative paths through the same files may not all be listed. Break a reported link and re-run to see what remains.
+
+## Options
+- \`ignoreTypeOnlyImports\`: drop type-only links from the graph, so only runtime cycles are reported.
+- \`excludeFilePatterns\`: substrings; any file whose absolute path \`includes()\` a pattern is removed from the graph. Use this for test files (e.g. \`".test."\`), stories, generated dirs, etc.
+- \`maxResults\`: cap on reported cycles. Default 100. When reached, the search stops and \`truncated\` becomes true.
+
+## Result format
+A numbered list of cycles, each followed by its links as \`path:line imports "specifier"\`. Trailing lines report \`Scanned files: N\` and \`Truncated: bool\`.`,
+		{
+			tsconfigPath: z
+				.string()
+				.describe("Absolute path to the project's tsconfig.json."),
+			ignoreTypeOnlyImports: z
+				.boolean()
+				.optional()
+				.default(false)
+				.describe(
+					"If true, type-only imports/exports are not part of the graph (only runtime cycles are reported).",
+				),
+			excludeFilePatterns: z
+				.array(z.string())
+				.optional()
+				.describe(
+					"Substrings; files whose absolute path includes any of these are removed from the graph.",
+				),
+			maxResults: z
+				.number()
+				.int()
+				.positive()
+				.optional()
+				.describe("Cap on reported cycles. Default 100."),
+		},
+		async (args) => {
+			const startTime = performance.now();
+			let message = "";
+			let isError = false;
+			let duration = "0.00";
+
+			const logArgs = {
+				tsconfigPath: args.tsconfigPath,
+				ignoreTypeOnlyImports: args.ignoreTypeOnlyImports,
+				excludeFilePatterns: args.excludeFilePatterns,
+				maxResults: args.maxResults,
+			};
+
+			try {
+				const project = getProject(args.tsconfigPath);
+				const result = findCircularImports(project, {
+					ignoreTypeOnlyImports: args.ignoreTypeOnlyImports,
+					excludeFilePatterns: args.excludeFilePatterns,
+					maxResults: args.maxResults,
+				});
+
+				const footer = `Scanned files: ${result.scannedFiles}\nTruncated: ${result.truncated}`;
+				if (result.cycles.length === 0) {
+					message = `No circular imports found.\n${footer}`;
+				} else {
+					message = [
+						`Circular imports found (${result.cycles.length}):`,
+						...result.cycles.map(formatCircularImport),
+						"",
+						footer,
+					].join("\n");
+				}
+			} catch (error) {
+				safeLogError(error, logArgs);
+				const errorMessage =
+					error instanceof Error ? error.message : String(error);
+				message = `Error: ${errorMessage}`;
+				isError = true;
+			} finally {
+				const endTime = performance.now();
+				duration = ((endTime - startTime) / 1000).toFixed(2);
+				safeLogInfo({
+					status: isError ? "Failure" : "Success",
+					durationMs: Number.parseFloat((endTime - startTime).toFixed(2)),
+					...logArgs,
+				});
+				try {
+					logger.flush();
+				} catch (flushErr) {
+					console.error("Failed to flush logs:", flushErr);
+				}
+			}
+
+			const finalMessage = `${message}\nStatus: ${
+				isError ? "Failure" : "Success"
+			}\nProcessing time: ${duration} seconds`;
+
+			return {
+				content: [{ type: "text", text: finalMessage }],
+				isError,
+			};
+		},
+	);
+}
@@ -0,0 +1,162 @@
+import * as path from "node:path";
+import { performance } from "node:perf_hooks";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { getProject } from "../../ts-morph/_utils/project-registry";
+import {
+	findUnreachableFiles,
+	type UnreachableFile,
+} from "../../ts-morph/find-unreachable-files/find-unreachable-files";
+import logger from "../../utils/logger";
+
+function safeLogError(error: unknown, toolArgs: Record<string, unknown>): void {
+	try {
+		logger.error(
+			{ err: error, toolArgs },
+			"Error executing find_unreachable_files_by_tsmorph",
+		);
+	} catch (loggerErr) {
+		console.error("Failed to write error log:", loggerErr);
+	}
+}
+
+function safeLogInfo(fields: Record<string, unknown>): void {
+	try {
+		logger.info(fields, "find_unreachable_files_by_tsmorph tool finished");
+	} catch (loggerErr) {
+		console.error("Failed to write info log:", loggerErr);
+	}
+}
+
+function formatUnreachableFile(file: UnreachableFile): string {
+	if (file.importedBy.length === 0) {
+		return `- ${file.filePath}`;
+	}
+	return `- ${file.filePath}  (imported only by unreachable: ${file.importedBy.join(", ")})`;
+}
+
+export function registerFindUnreachableFilesTool(server: McpServer): void {
+	server.tool(
+		"find_unreachable_files_by_tsmorph",
+		`[ts-morph] Walk the import graph from the given entry files and list every project source file that is never reached. Read-only.
+
+## When to use
+- Finding whole orphaned files. \`find_unused_exports_by_tsmorph\` misses them when their exports are used only by OTHER orphaned files (each export has a reference, yet nothing reaches the cluster).
+- After deleting a feature, to see which helpers were left behind.
+
+## When NOT to use
+- Unused exports inside files that are still reached — use \`find_unused_exports_by_tsmorph\`.
+
+## Entry files
+At least one entry file is required; the tool fails otherwise.
+- \`entryPoints\`: absolute file paths (same meaning as in \`find_unused_exports_by_tsmorph\`): \`src/index.ts\`, \`src/main.tsx\`, CLI bins, etc.
+- \`entryPatterns\`: globs relative to the directory of tsconfig.json (\`**\`, \`*\`, \`?\`, \`{a,b}\`) for files loaded by convention, e.g. \`**/*.test.ts\`, \`**/*.stories.tsx\`, \`src/pages/**\`, \`app/**/{page,layout,route}.tsx\`, \`*.config.ts\`. There are no defaults — list every convention your tooling uses, or those files and everything only they import are reported.
+
+## Traversal
+Dependencies are the files resolved by TypeScript from import / export declarations, dynamic \`import("./x")\`, \`import x = require("./x")\`, \`require("./x")\` in JS files, and \`/// <reference path>\`. Path aliases are resolved with the tsconfig. Template-string imports (\`import(\`./pages/\${name}\`)\`) cannot be resolved — add those targets via \`entryPatterns\`. \`node_modules\` and \`.d.ts\` files are neither reported nor traversed.
+
+## Options
+- \`excludeFilePatterns\`: substrings; matching files are neither entries nor traversed nor reported. Excluding tests (\`".test."\`) while not listing them as entries shows files used ONLY by tests.
+- \`maxResults\`: cap on reported files. Default 100. Extra files are dropped and \`truncated\` becomes true.
+
+## Result format
+One line per unreachable file (path order). Files imported by other unreachable files show those importers, so an orphaned cluster can be deleted together. Trailing lines report \`Entry files\`, \`Reachable files\`, \`Scanned files\` and \`Truncated\`.`,
+		{
+			tsconfigPath: z
+				.string()
+				.describe("Absolute path to the project's tsconfig.json."),
+			entryPoints: z
+				.array(z.string())
+				.optional()
+				.describe("Absolute file paths to start the traversal from."),
+			entryPatterns: z
+				.array(z.string())
+				.optional()
+				.describe(
+					'Globs relative to the tsconfig.json directory; matching files are also entries (e.g. "**/*.test.ts", "src/pages/**").',
+				),
+			excludeFilePatterns: z
+				.array(z.string())
+				.optional()
+				.describe(
+					"Substrings; files whose absolute path includes any of these are neither entries, traversed nor reported.",
+				),
+			maxResults: z
+				.number()
+				.int()
+				.positive()
+				.optional()
+				.describe("Cap on reported files. Default 100."),
+		},
+		async (args) => {
+			const startTime = performance.now();
+			let message = "";
+			let isError = false;
+			let duration = "0.00";
+
+			const logArgs = {
+				tsconfigPath: args.tsconfigPath,
+				entryPoints: args.entryPoints,
+				entryPatterns: args.entryPatterns,
+				excludeFilePatterns: args.excludeFilePatterns,
+				maxResults: args.maxResults,
+			};
+
+			try {
+				const project = getProject(args.tsconfigPath);
+				const result = findUnreachableFiles(project, {
+					rootDir: path.dirname(args.tsconfigPath),
+					entryPoints: args.entryPoints,
+					entryPatterns: args.entryPatterns,
+					excludeFilePatterns: args.excludeFilePatterns,
+					maxResults: args.maxResults,
+				});
+
+				const footer = [
+					`Entry files: ${result.entryFileCount}`,
+					`Reachable files: ${result.reachableFileCount}`,
+					`Scanned files: ${result.scannedFiles}`,
+					`Truncated: ${result.truncated}`,
+				].join("\n");
+				if (result.unreachableFiles.length === 0) {
+					message = `No unreachable files found.\n${footer}`;
+				} else {
+					message = [
+						`Unreachable files (${result.unreachableFiles.length}):`,
+						...result.unreachableFiles.map(formatUnreachableFile),
+						"",
+						footer,
+					].join("\n");
+				}
+			} catch (error) {
+				safeLogError(error, logArgs);
+				const errorMessage =
+					error instanceof Error ? error.message : String(error);
+				message = `Error: ${errorMessage}`;
+				isError = true;
+			} finally {
+				const endTime = performance.now();
+				duration = ((endTime - startTime) / 1000).toFixed(2);
+				safeLogInfo({
+					status: isError ? "Failure" : "Success",
+					durationMs: Number.parseFloat((endTime - startTime).toFixed(2)),
+					...logArgs,
+				});
+				try {
+					logger.flush();
+				} catch (flushErr) {
+					console.error("Failed to flush logs:", flushErr);
+				}
+			}
+
+			const finalMessage = `${message}\nStatus: ${
+				isError ? "Failure" : "Success"
+			}\nProcessing time: ${duration} seconds`;
+
+			return {
+				content: [{ type: "text", text: finalMessage }],
+				isError,
+			};
+		},
+	);
+}
@@ -1,7 +1,8 @@
 import { performance } from "node:perf_hooks";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { initializeProject } from "../../ts-morph/_utils/ts-morph-project";
+import { getProject } from "../../ts-morph/_utils/project-registry";
+import { createWorkspaceProject } from "../../ts-morph/_utils/workspace-project";
 import {
 	findUnusedExports,
 	type UnusedExport,
@@ -109,6 +110,9 @@ export function registerFindUnusedExportsTool(server: McpServer): void {
 ## When NOT to use
 - You want a single symbol's references — use \`find_references_by_tsmorph\`.
 - Single-file unused locals — \`tsc --noUnusedLocals\` is faster.
+- Applying the fixes — use \`fix_unused_exports_by_tsmorph\` (deletes / unexports the candidates with safety checks).
+- Unused methods / properties / enum members inside exported types — use \`find_unused_members_by_tsmorph\`.
+- Whole files that nothing reaches from the entry points (including files used only by other orphaned files) — use \`find_unreachable_files_by_tsmorph\`.
 
 ## Detection scope
 Reports:
@@ -141,8 +145,16 @@ Always verify a candidate with \`find_references_by_tsmorph\` before deletion.
 - \`tsconfigPath\`: absolute path to \`tsconfig.json\`.
 - \`entryPoints\`: list of absolute file paths whose exports should be skipped (treat as public API). Reference sites IN these files still count as "used" automatically.
 - \`excludeFilePatterns\`: substrings; any file whose absolute path \`includes()\` a pattern is not scanned. Use this for test files (e.g. \`".test."\`), generated dirs, etc.
+- \`additionalTsconfigPaths\` / \`workspaceRoot\`: workspace mode for monorepos (see below).
 - \`maxResults\`: cap on number of reported entries. Default 100. When reached, scanning stops and \`truncated\` becomes true — narrow scope with the filters above and retry.
 
+## Workspace mode (monorepos)
+By default only the files of \`tsconfigPath\` are analyzed, so an export used only by ANOTHER package (with its own tsconfig) is a false positive. Pass \`additionalTsconfigPaths\` (other packages' tsconfig.json) and/or \`workspaceRoot\` (packages are discovered from \`pnpm-workspace.yaml\` or the root \`package.json\` \`workspaces\`; each package needs a \`tsconfig.json\` next to its \`package.json\`) to analyze all packages together:
+- Package-name imports (\`@acme/ui\`, \`@acme/ui/button\`) resolve to the workspace SOURCE file that the package's \`package.json\` \`exports\` (or \`types\` / \`module\` / \`main\`) points to. Build output paths are mapped back through the tsconfig's \`outDir\` -> \`rootDir\` (default \`src\`). Subpath patterns with \`*\` are not mapped.
+- Those entry files are added to \`entryPoints\` automatically (they are the package's public API).
+- Other imports resolve with the tsconfig of the package containing the importing file, so per-package \`paths\` work.
+- The combined project is built for each call (not cached), so expect this mode to be slower.
+
 ## Output modes (\`responseFormat\`)
 - \`"list"\` (default): one line per candidate (format below).
 - \`"summary"\`: aggregate counts for the WHOLE project — total, delete-safety split (deletable vs unexport-only), default-export count, and breakdowns by kind and by directory. On large repos the per-line list easily blows past the response size limit, so start with \`"summary"\` to see where dead code clusters, then narrow with \`entryPoints\` / \`excludeFilePatterns\` and switch to \`"list"\` for exact locations. (\`summary\` scans the whole project regardless of \`maxResults\`.)
@@ -179,6 +191,18 @@ Trailing line reports \`Scanned files: N\` and \`Truncated: bool\`.`,
 				.describe(
 					"Substrings; files whose absolute path includes any of these are not scanned.",
 				),
+			additionalTsconfigPaths: z
+				.array(z.string())
+				.optional()
+				.describe(
+					"Absolute paths to the tsconfig.json of other workspace packages to analyze together with tsconfigPath (workspace mode).",
+				),
+			workspaceRoot: z
+				.string()
+				.optional()
+				.describe(
+					"Absolute path to a monorepo root. Packages are discovered from pnpm-workspace.yaml or package.json workspaces and analyzed together (workspace mode).",
+				),
 			maxResults: z
 				.number()
 				.int()
@@ -212,6 +236,8 @@ Trailing line reports \`Scanned files: N\` and \`Truncated: bool\`.`,
 
 			const logArgs = {
 				tsconfigPath: args.tsconfigPath,
+				additionalTsconfigPaths: args.additionalTsconfigPaths,
+				workspaceRoot: args.workspaceRoot,
 				entryPoints: args.entryPoints,
 				excludeFilePatterns: args.excludeFilePatterns,
 				maxResults: args.maxResults,
@@ -220,13 +246,28 @@ Trailing line reports \`Scanned files: N\` and \`Truncated: bool\`.`,
 			};
 
 			try {
-				const project = initializeProject(args.tsconfigPath);
+				// 別の tsconfig のパッケージから使われている export を偽陽性にしないよう、
+				// ワークスペースモードではすべてのパッケージを 1 つの Project にまとめて解析する。
+				const workspace =
+					args.workspaceRoot !== undefined ||
+					(args.additionalTsconfigPaths?.length ?? 0) > 0
+						? createWorkspaceProject({
+								tsconfigPaths: [
+									args.tsconfigPath,
+									...(args.additionalTsconfigPaths ?? []),
+								],
+								workspaceRoot: args.workspaceRoot,
+							})
+						: undefined;
+				const project = workspace?.project ?? getProject(args.tsconfigPath);
 				// summary は全体像が目的なので、ユーザー指定が無ければ実質無制限でスキャンする。
 				const effectiveMaxResults = isSummary
 					? (args.maxResults ?? SUMMARY_SCAN_CAP)
 					: args.maxResults;
 				const result = findUnusedExports(project, {
-					entryPoints: args.entryPoints,
+					entryPoints: workspace
+						? [...(args.entryPoints ?? []), ...workspace.entryPoints]
+						: args.entryPoints,
 					excludeFilePatterns: args.excludeFilePatterns,
 					maxResults: effectiveMaxResults,
 					expandNamespaceImports: args.expandNamespaceImports,
@@ -250,6 +291,11 @@ Trailing line reports \`Scanned files: N\` and \`Truncated: bool\`.`,
 					];
 					message = lines.join("\n");
 				}
+				if (workspace) {
+					message += `\nWorkspace packages: ${workspace.packages
+						.map((pkg) => pkg.name ?? pkg.tsconfigPath)
+						.join(", ")}`;
+				}
 			} catch (error) {
 				safeLogError(error, logArgs);
 				const errorMessage =
@@ -0,0 +1,197 @@
+import { performance } from "node:perf_hooks";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { getProject } from "../../ts-morph/_utils/project-registry";
+import { createWorkspaceProject } from "../../ts-morph/_utils/workspace-project";
+import {
+	findUnusedMembers,
+	type UnusedMember,
+} from "../../ts-morph/find-unused-exports/find-unused-members";
+import logger from "../../utils/logger";
+
+function safeLogError(error: unknown, toolArgs: Record<string, unknown>): void {
+	try {
+		logger.error(
+			{ err: error, toolArgs },
+			"Error executing find_unused_members_by_tsmorph",
+		);
+	} catch (loggerErr) {
+		console.error("Failed to write error log:", loggerErr);
+	}
+}
+
+function safeLogInfo(fields: Record<string, unknown>): void {
+	try {
+		logger.info(fields, "find_unused_members_by_tsmorph tool finished");
+	} catch (loggerErr) {
+		console.error("Failed to write info log:", loggerErr);
+	}
+}
+
+function formatUnusedMember(entry: UnusedMember): string {
+	return `- ${entry.filePath}:${entry.line}:${entry.column}  ${entry.containerName}.${entry.name} (${entry.kind} in ${entry.containerKind})  textHits=${entry.textOccurrences} sameFileRefs=${entry.sameFileReferenceCount}`;
+}
+
+export function registerFindUnusedMembersTool(server: McpServer): void {
+	server.tool(
+		"find_unused_members_by_tsmorph",
+		`[ts-morph] List members of exported classes, interfaces, enums and type-literal type aliases that have no references outside their declaring file. Read-only companion to \`find_unused_exports_by_tsmorph\`.
+
+## When to use
+- The exported type itself is used, but you suspect dead public methods, enum members or interface properties inside it.
+- Shrinking a class's public surface: members used only inside their own file can become \`private\`.
+
+## When NOT to use
+- Top-level exports — use \`find_unused_exports_by_tsmorph\`.
+- Private members and locals — \`tsc --noUnusedLocals\` is faster.
+
+## Detection scope
+- Methods, properties and accessors (including static) of \`export class\`. A getter/setter pair is reported once, on the getter.
+- Property and method signatures of \`export interface\` and \`export type X = { ... }\`.
+- Members of \`export enum\`.
+Skipped: \`private\` / \`#private\` members, constructors, computed names, and decorated members (frameworks often call them by name).
+
+## Detection algorithm
+\`findReferencesAsNodes()\` is run on each member name. Before deciding "unused", the following are excluded:
+- Member DECLARATIONS in classes, interfaces and type literals. TypeScript links implementing members (a class method and the interface signature it implements) as references of each other; a declaration is not a use. Object literal properties DO count as uses, because they supply a value for the member.
+- References in \`node_modules\`.
+If no reference remains outside the declaring file, the member is reported. Calls made through an interface (\`repo.find()\` with \`repo: Repo\`) also count as references of the implementing class member, so a member used only via its interface is NOT reported.
+
+## Interface implementations
+A class member whose name exists on an \`implements\`-ed interface or on the base class is never reported: deleting it alone breaks the contract (e.g. \`ngOnInit\` for a library interface). If the contract member lives in the project and is unused, it is reported instead — remove it, then re-run to see the implementing members. Interface members that redeclare a member of an \`extends\`-ed interface are skipped the same way.
+
+## Known limitations
+- Members accessed by string key (\`obj[key]\`, \`Color[name]\`), reflection or serialization are not seen. Check \`textHits\`.
+- Members of types used only as a whole (e.g. passed to \`JSON.stringify\`, spread into another object) look unused.
+Always verify a candidate with \`find_references_by_tsmorph\` before deletion.
+
+## Options
+- \`tsconfigPath\`, \`entryPoints\`, \`excludeFilePatterns\`, \`additionalTsconfigPaths\`, \`workspaceRoot\`: same as \`find_unused_exports_by_tsmorph\`. Members of types declared in \`entryPoints\` files are not reported.
+- \`maxResults\`: cap on number of reported entries. Default 100. When reached, scanning stops and \`truncated\` becomes true.
+
+## Result format
+A bullet list of candidates with file:line:column, \`Container.member\`, the member kind and container kind, \`textHits=N\` and \`sameFileRefs=N\` (same meaning as in \`find_unused_exports_by_tsmorph\`):
+- \`sameFileRefs=0\`: not used anywhere → the member can be deleted.
+- \`sameFileRefs=1+\`: used only inside its own file → for class members, make it \`private\` instead of deleting.
+
+Trailing line reports \`Scanned files: N\` and \`Truncated: bool\`.`,
+		{
+			tsconfigPath: z
+				.string()
+				.describe("Absolute path to the project's tsconfig.json."),
+			entryPoints: z
+				.array(z.string())
+				.optional()
+				.describe(
+					"Absolute file paths to treat as public API. Members of types declared here are skipped.",
+				),
+			excludeFilePatterns: z
+				.array(z.string())
+				.optional()
+				.describe(
+					"Substrings; files whose absolute path includes any of these are not scanned.",
+				),
+			additionalTsconfigPaths: z
+				.array(z.string())
+				.optional()
+				.describe(
+					"Absolute paths to the tsconfig.json of other workspace packages to analyze together with tsconfigPath (workspace mode).",
+				),
+			workspaceRoot: z
+				.string()
+				.optional()
+				.describe(
+					"Absolute path to a monorepo root. Packages are discovered from pnpm-workspace.yaml or package.json workspaces and analyzed together (workspace mode).",
+				),
+			maxResults: z
+				.number()
+				.int()
+				.positive()
+				.optional()
+				.describe("Cap on reported entries. Default 100."),
+		},
+		async (args) => {
+			const startTime = performance.now();
+			let message = "";
+			let isError = false;
+			let duration = "0.00";
+
+			const logArgs = {
+				tsconfigPath: args.tsconfigPath,
+				additionalTsconfigPaths: args.additionalTsconfigPaths,
+				workspaceRoot: args.workspaceRoot,
+				entryPoints: args.entryPoints,
+				excludeFilePatterns: args.excludeFilePatterns,
+				maxResults: args.maxResults,
+			};
+
+			try {
+				const workspace =
+					args.workspaceRoot !== undefined ||
+					(args.additionalTsconfigPaths?.length ?? 0) > 0
+						? createWorkspaceProject({
+								tsconfigPaths: [
+									args.tsconfigPath,
+									...(args.additionalTsconfigPaths ?? []),
+								],
+								workspaceRoot: args.workspaceRoot,
+							})
+						: undefined;
+				const project = workspace?.project ?? getProject(args.tsconfigPath);
+				const result = findUnusedMembers(project, {
+					entryPoints: workspace
+						? [...(args.entryPoints ?? []), ...workspace.entryPoints]
+						: args.entryPoints,
+					excludeFilePatterns: args.excludeFilePatterns,
+					maxResults: args.maxResults,
+				});
+
+				if (result.unusedMembers.length === 0) {
+					message = `No unused members found.\nScanned files: ${result.scannedFiles}\nTruncated: ${result.truncated}`;
+				} else {
+					const lines = [
+						`Unused member candidates (${result.unusedMembers.length}):`,
+						...result.unusedMembers.map(formatUnusedMember),
+						"",
+						`Scanned files: ${result.scannedFiles}`,
+						`Truncated: ${result.truncated}`,
+					];
+					message = lines.join("\n");
+				}
+				if (workspace) {
+					message += `\nWorkspace packages: ${workspace.packages
+						.map((pkg) => pkg.name ?? pkg.tsconfigPath)
+						.join(", ")}`;
+				}
+			} catch (error) {
+				safeLogError(error, logArgs);
+				const errorMessage =
+					error instanceof Error ? error.message : String(error);
+				message = `Error: ${errorMessage}`;
+				isError = true;
+			} finally {
+				const endTime = performance.now();
+				duration = ((endTime - startTime) / 1000).toFixed(2);
+				safeLogInfo({
+					status: isError ? "Failure" : "Success",
+					durationMs: Number.parseFloat((endTime - startTime).toFixed(2)),
+					...logArgs,
+				});
+				try {
+					logger.flush();
+				} catch (flushErr) {
+					console.error("Failed to flush logs:", flushErr);
+				}
+			}
+
+			const finalMessage = `${message}\nStatus: ${
+				isError ? "Failure" : "Success"
+			}\nProcessing time: ${duration} seconds`;
+
+			return {
+				content: [{ type: "text", text: finalMessage }],
+				isError,
+			};
+		},
+	);
+}
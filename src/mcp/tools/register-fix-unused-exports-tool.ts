@@ -0,0 +1,204 @@
+import { performance } from "node:perf_hooks";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { formatNewDiagnostics } from "../../ts-morph/_utils/diagnostics";
+import { formatFileDiffs } from "../../ts-morph/_utils/file-diff";
+import { getProject } from "../../ts-morph/_utils/project-registry";
+import {
+	type FixUnusedExportsResult,
+	fixUnusedExports,
+} from "../../ts-morph/find-unused-exports/fix-unused-exports";
+import {
+	captureDiagnosticsBaseline,
+	findNewDiagnostics,
+} from "../../ts-morph/get-diagnostics/new-diagnostics";
+import logger from "../../utils/logger";
+
+function formatResult(result: FixUnusedExportsResult, dryRun: boolean): string {
+	const deletedCount = result.fixes.filter(
+		(fix) => fix.action === "delete",
+	).length;
+	const unexportedCount = result.fixes.length - deletedCount;
+	const lines = [
+		`${dryRun ? "Dry run complete" : "Unused exports fixed"}: ${deletedCount} declaration(s) ${dryRun ? "would be " : ""}deleted, ${unexportedCount} ${dryRun ? "would be " : ""}unexported, ${result.removedReExportCount} re-export(s) and ${result.removedImportCount} import(s) ${dryRun ? "would be " : ""}removed.`,
+	];
+	if (result.fixes.length > 0) {
+		lines.push(
+			"",
+			"Fixes:",
+			...result.fixes.map(
+				(fix) =>
+					` - ${fix.filePath}:${fix.line} ${fix.name} (${fix.kind}): ${fix.action}`,
+			),
+		);
+	}
+	if (result.skipped.length > 0) {
+		lines.push(
+			"",
+			`Skipped (${result.skipped.length}):`,
+			...result.skipped.map(
+				(entry) =>
+					` - ${entry.filePath}:${entry.line} ${entry.name}: ${entry.reason}`,
+			),
+		);
+	}
+	if (result.changedFiles.length > 0) {
+		lines.push(
+			"",
+			`Changed files (${result.changedFiles.length}):`,
+			...result.changedFiles.map((filePath) => ` - ${filePath}`),
+		);
+	}
+	return lines.join("\n");
+}
+
+export function registerFixUnusedExportsTool(server: McpServer): void {
+	server.tool(
+		"fix_unused_exports_by_tsmorph",
+		`[ts-morph] Fix the candidates reported by \`find_unused_exports_by_tsmorph\`: delete dead declarations, remove only the \`export\` keyword from over-exported ones, and clean up the re-exports and imports left dangling.
+
+## When to use
+- After reviewing \`find_unused_exports_by_tsmorph\` output, to apply the fixes across many files at once instead of editing each by hand.
+
+## When NOT to use
+- Deleting a single symbol you already identified -> edit it directly or use \`find_references_by_tsmorph\` first.
+- Monorepos where exports are consumed by other packages: this tool sees only \`tsconfigPath\`'s files (no workspace mode), so pass every public entry file as \`entryPoints\`.
+
+## Actions
+- \`sameFileRefs=0\` (not used anywhere): the declaration is DELETED. Imports that only the deleted declaration used are removed too; imports that were already unused are left alone.
+- \`sameFileRefs=1+\` (used within its own file): only the \`export\` keyword is removed (\`unexport\`).
+- In both cases, re-export sites pointing at the symbol (\`export { x } from "./a"\`, local \`export { x }\`) are removed; an \`export { }\` that becomes empty is removed entirely.
+
+## Safety rules (candidates are skipped, with the reason reported)
+- Default exports (\`[default]\` candidates are high false-positive).
+- \`textHits\` above \`maxTextOccurrences\` (default 0), after discounting the re-export sites that are removed together. Raise it only after checking the hits.
+- Exports of files consumed via \`import * as ns\` / \`export * as ns\` (dynamic use like \`{ ...ns }\` cannot be traced).
+- Declarations exported from an \`entryPoints\` file (directly or via re-export).
+- Functions with overloads, symbols whose declarations are merged (\`class C\` + \`namespace C\`, repeated \`interface\`), and variable statements that declare other exports that are not being fixed (\`export const a = 1, b = 2\`).
+
+## Tips
+- Always run with \`dryRun: true\` and \`includeDiff: true\` first.
+- Pass file-convention entry files (Next.js pages, CLI entries, test setup) as \`entryPoints\` and tests via \`excludeFilePatterns\`.
+- The change can be reverted with \`undo_last_refactor_by_tsmorph\`.
+
+## Result
+Lists the applied (or, in dryRun, planned) fixes, the skipped candidates with reasons, and the changed files. With \`includeDiff: true\`, a unified diff per changed file is appended. With \`reportNewDiagnostics: true\`, the TypeScript diagnostics introduced by the change are appended.`,
+		{
+			tsconfigPath: z
+				.string()
+				.describe("Absolute path to the project's tsconfig.json file."),
+			entryPoints: z
+				.array(z.string())
+				.optional()
+				.describe(
+					"Absolute file paths to treat as public API. Their exports, and declarations re-exported from them, are never changed.",
+				),
+			excludeFilePatterns: z
+				.array(z.string())
+				.optional()
+				.describe(
+					"Substrings; files whose absolute path includes any of these are not scanned.",
+				),
+			maxTextOccurrences: z
+				.number()
+				.int()
+				.nonnegative()
+				.optional()
+				.default(0)
+				.describe(
+					"Skip candidates whose name appears in more than this many places in other files (textHits, excluding removed re-exports). Default 0.",
+				),
+			dryRun: z
+				.boolean()
+				.optional()
+				.default(false)
+				.describe(
+					"If true, only show intended changes without modifying files.",
+				),
+			includeDiff: z
+				.boolean()
+				.optional()
+				.default(false)
+				.describe(
+					"If true, append a unified diff (on-disk text vs. rewritten text) for each changed file. Most useful together with dryRun.",
+				),
+			reportNewDiagnostics: z
+				.boolean()
+				.optional()
+				.default(false)
+				.describe(
+					"If true, type-check the changed files and the files importing them after the refactor and report only the TypeScript diagnostics it introduced.",
+				),
+		},
+		async (args) => {
+			const startTime = performance.now();
+			let message = "";
+			let isError = false;
+			let duration = "0.00";
+
+			const logArgs = {
+				tsconfigPath: args.tsconfigPath,
+				entryPoints: args.entryPoints,
+				excludeFilePatterns: args.excludeFilePatterns,
+				maxTextOccurrences: args.maxTextOccurrences,
+				dryRun: args.dryRun,
+			};
+
+			try {
+				const diagnosticsBaseline = args.reportNewDiagnostics
+					? captureDiagnosticsBaseline(getProject(args.tsconfigPath))
+					: undefined;
+				const result = await fixUnusedExports({
+					tsconfigPath: args.tsconfigPath,
+					entryPoints: args.entryPoints,
+					excludeFilePatterns: args.excludeFilePatterns,
+					maxTextOccurrences: args.maxTextOccurrences,
+					dryRun: args.dryRun,
+					includeDiff: args.includeDiff,
+				});
+
+				message = formatResult(result, args.dryRun);
+				if (diagnosticsBaseline) {
+					message += `\n\n${formatNewDiagnostics(findNewDiagnostics(diagnosticsBaseline))}`;
+				}
+				if (result.diffs) {
+					message += `\n\nDiff:\n${formatFileDiffs(result.diffs)}`;
+				}
+			} catch (error) {
+				logger.error(
+					{ err: error, toolArgs: logArgs },
+					"Error executing fix_unused_exports_by_tsmorph",
+				);
+				const errorMessage =
+					error instanceof Error ? error.message : String(error);
+				message = `Error during fix unused exports: ${errorMessage}`;
+				isError = true;
+			} finally {
+				const endTime = performance.now();
+				duration = ((endTime - startTime) / 1000).toFixed(2);
+				logger.info(
+					{
+						status: isError ? "Failure" : "Success",
+						durationMs: Number.parseFloat((endTime - startTime).toFixed(2)),
+						...logArgs,
+					},
+					"fix_unused_exports_by_tsmorph tool finished",
+				);
+				try {
+					logger.flush();
+				} catch (flushErr) {
+					console.error("Failed to flush logs:", flushErr);
+				}
+			}
+
+			const finalMessage = `${message}\nStatus: ${
+				isError ? "Failure" : "Success"
+			}\nProcessing time: ${duration} seconds`;
+
+			return {
+				content: [{ type: "text", text: finalMessage }],
+				isError,
+			};
+		},
+	);
+}
@@ -0,0 +1,154 @@
+import { performance } from "node:perf_hooks";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { formatNewDiagnostics } from "../../ts-morph/_utils/diagnostics";
+import { formatFileDiffs } from "../../ts-morph/_utils/file-diff";
+import { getProject } from "../../ts-morph/_utils/project-registry";
+import { generateBarrel } from "../../ts-morph/barrel-files/generate-barrel";
+import {
+	captureDiagnosticsBaseline,
+	findNewDiagnostics,
+} from "../../ts-morph/get-diagnostics/new-diagnostics";
+import logger from "../../utils/logger";
+
+export function registerGenerateBarrelTool(server: McpServer): void {
+	server.tool(
+		"generate_barrel_file_by_tsmorph",
+		`[ts-morph] Generate or update the barrel file (\`index.ts\`) of a directory from the exports of its files: one named re-export per module (\`export { a, b } from "./x"\`, with \`export type { T } from "./x"\` for type-only exports).
+
+## When to use
+- Creating a barrel for a new directory of components/utilities.
+- Bringing an existing barrel up to date after files were added, removed or renamed.
+
+## When NOT to use
+- Rewriting imports to stop going through a barrel -> use \`bypass_barrel_imports_by_tsmorph\`.
+
+## Critical constraints
+- Re-exports the files directly in the directory and the barrels (\`index.ts\` / \`index.tsx\`) of its subdirectories (as \`"./sub"\`). Subdirectories without a barrel, \`.d.ts\` files and \`*.test.*\` / \`*.spec.*\` / \`*.stories.*\` files are skipped.
+- Default exports and \`export =\` are not re-exported.
+- A name exported by more than one module, or already exported by the barrel itself, is not re-exported and is reported as a conflict.
+- In an existing barrel, only re-exports that point into the directory (or unresolvable \`./\` paths) are regenerated; the barrel's own declarations, comments and other re-exports are kept at the top. If nothing changes, the file is not touched.
+- All paths MUST be absolute.
+
+## Tips
+- Run with \`dryRun: true\` and \`includeDiff: true\` first to review the barrel.
+
+## Result
+Returns the barrel path (created or updated), the re-exported files, the name conflicts, and the modified (or to-be-modified, in dryRun) file paths, plus status and processing time. With \`includeDiff: true\`, a unified diff per changed file is appended. With \`reportNewDiagnostics: true\`, the TypeScript diagnostics introduced by the change (in the changed files and their importers) are appended.`,
+		{
+			tsconfigPath: z
+				.string()
+				.describe("Absolute path to the project's tsconfig.json file."),
+			directory: z
+				.string()
+				.describe("Absolute path of the directory to generate the barrel for."),
+			barrelFileName: z
+				.string()
+				.optional()
+				.default("index.ts")
+				.describe("File name of the barrel inside the directory."),
+			dryRun: z
+				.boolean()
+				.optional()
+				.default(false)
+				.describe(
+					"If true, only show intended changes without modifying files.",
+				),
+			includeDiff: z
+				.boolean()
+				.optional()
+				.default(false)
+				.describe(
+					"If true, append a unified diff (on-disk text vs. rewritten text) for each changed file. Most useful together with dryRun.",
+				),
+			reportNewDiagnostics: z
+				.boolean()
+				.optional()
+				.default(false)
+				.describe(
+					"If true, type-check the changed files and the files importing them after the refactor and report only the TypeScript diagnostics it introduced.",
+				),
+		},
+		async (args) => {
+			const startTime = performance.now();
+			let message = "";
+			let isError = false;
+			let duration = "0.00";
+
+			const logArgs = {
+				directory: args.directory,
+				barrelFileName: args.barrelFileName,
+				dryRun: args.dryRun,
+			};
+
+			try {
+				const diagnosticsBaseline = args.reportNewDiagnostics
+					? captureDiagnosticsBaseline(getProject(args.tsconfigPath))
+					: undefined;
+				const result = await generateBarrel({
+					tsconfigPath: args.tsconfigPath,
+					directory: args.directory,
+					barrelFileName: args.barrelFileName,
+					dryRun: args.dryRun,
+					includeDiff: args.includeDiff,
+				});
+
+				if (result.changedFiles.length === 0) {
+					message = `Barrel ${result.barrelFilePath} is already up to date.`;
+				} else {
+					const verb = args.dryRun ? "would be" : "was";
+					message = `${args.dryRun ? "Dry run complete" : "Barrel generated"}: ${result.barrelFilePath} ${verb} ${result.created ? "created" : "updated"}.`;
+				}
+				message += `\nRe-exported files (${result.exportedFiles.length}):\n - ${result.exportedFiles.join("\n - ")}`;
+				if (result.conflicts.length > 0) {
+					message += `\nNot re-exported because of name conflicts:\n${result.conflicts
+						.map(
+							(conflict) =>
+								` - ${conflict.name}: ${conflict.filePaths.join(", ")}`,
+						)
+						.join("\n")}`;
+				}
+				if (diagnosticsBaseline) {
+					message += `\n\n${formatNewDiagnostics(findNewDiagnostics(diagnosticsBaseline))}`;
+				}
+				if (result.diffs) {
+					message += `\n\nDiff:\n${formatFileDiffs(result.diffs)}`;
+				}
+			} catch (error) {
+				logger.error(
+					{ err: error, toolArgs: logArgs },
+					"Error executing generate_barrel_file_by_tsmorph",
+				);
+				const errorMessage =
+					error instanceof Error ? error.message : String(error);
+				message = `Error during generate barrel: ${errorMessage}`;
+				isError = true;
+			} finally {
+				const endTime = performance.now();
+				duration = ((endTime - startTime) / 1000).toFixed(2);
+				logger.info(
+					{
+						status: isError ? "Failure" : "Success",
+						durationMs: Number.parseFloat((endTime - startTime).toFixed(2)),
+						...logArgs,
+					},
+					"generate_barrel_file_by_tsmorph tool finished",
+				);
+				try {
+					logger.flush();
+				} catch (flushErr) {
+					console.error("Failed to flush logs:", flushErr);
+				}
+			}
+
+			const finalMessage = `${message}\nStatus: ${
+				isError ? "Failure" : "Success"
+			}\nProcessing time: ${duration} seconds`;
+
+			return {
+				content: [{ type: "text", text: finalMessage }],
+				isError,
+			};
+		},
+	);
+}
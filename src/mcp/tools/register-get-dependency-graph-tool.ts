@@ -0,0 +1,144 @@
+import { performance } from "node:perf_hooks";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { getProject } from "../../ts-morph/_utils/project-registry";
+import { formatDependencyGraph } from "../../ts-morph/dependency-graph/format-dependency-graph";
+import { getDependencyGraph } from "../../ts-morph/dependency-graph/get-dependency-graph";
+import logger from "../../utils/logger";
+
+function safeLogError(error: unknown, toolArgs: Record<string, unknown>): void {
+	try {
+		logger.error(
+			{ err: error, toolArgs },
+			"Error executing get_dependency_graph_by_tsmorph",
+		);
+	} catch (loggerErr) {
+		console.error("Failed to write error log:", loggerErr);
+	}
+}
+
+function safeLogInfo(fields: Record<string, unknown>): void {
+	try {
+		logger.info(fields, "get_dependency_graph_by_tsmorph tool finished");
+	} catch (loggerErr) {
+		console.error("Failed to write info log:", loggerErr);
+	}
+}
+
+export function registerGetDependencyGraphTool(server: McpServer): void {
+	server.tool(
+		"get_dependency_graph_by_tsmorph",
+		`[ts-morph] Output the import graph of the project, or of a subtree, at file or directory level, as JSON, Graphviz DOT or Mermaid. Each edge carries a weight (number of imported symbols) and a type-only flag. Read-only.
+
+## When to use
+- Planning \`move_symbol_to_file_by_tsmorph\` / \`rename_filesystem_entry_by_tsmorph\` / \`split_file_by_tsmorph\`: see which modules depend on each other and how strongly before choosing a target.
+- Getting an overview of how the directories of a package depend on each other.
+
+## When NOT to use
+- Looking for import cycles -> use \`find_circular_imports_by_tsmorph\`.
+- Finding the references of a single symbol -> use \`find_references_by_tsmorph\`.
+
+## Graph
+- Built from every \`ImportDeclaration\` and \`ExportDeclaration\` resolved to a project file (path aliases are resolved through tsconfig \`paths\`). \`node_modules\`, \`.d.ts\` files, dynamic \`import()\` and \`require()\` are not included.
+- \`directory\`: only files under this directory are included, and edges to files outside it are dropped. Node names are relative to this directory (otherwise to the deepest directory containing all files).
+- \`granularity: "directory"\`: nodes are the directories containing the files; edges inside one directory are dropped and weights are summed.
+- Weight = number of imported/re-exported names: each named specifier counts 1, a default or namespace import counts 1, \`export *\` counts the target's exports, a side-effect import counts 0.
+- An edge is type-only when every import behind it is \`import type\` / \`export type\`, has only \`type\` specifiers, or imports only interfaces / type aliases. DOT and Mermaid draw such edges dashed.
+
+## Tips
+- On large projects start with \`granularity: "directory"\` or a \`directory\` subtree; a file-level graph of the whole project can be very large.
+- Use \`excludeFilePatterns\` (e.g. \`".test."\`) to drop tests and generated files.
+
+## Result
+The graph in the requested \`format\`: \`"json"\` (\`{ root, granularity, nodes, edges: [{ from, to, weight, isTypeOnly, usesPathAlias }] }\`), \`"dot"\` or \`"mermaid"\` (edge labels are weights), followed by node and edge counts.`,
+		{
+			tsconfigPath: z
+				.string()
+				.describe("Absolute path to the project's tsconfig.json."),
+			directory: z
+				.string()
+				.optional()
+				.describe(
+					"Absolute path of a directory. If given, only the files under it are included.",
+				),
+			granularity: z
+				.enum(["file", "directory"])
+				.optional()
+				.default("file")
+				.describe(
+					'"file" (default): one node per file. "directory": one node per directory.',
+				),
+			format: z
+				.enum(["json", "dot", "mermaid"])
+				.optional()
+				.default("json")
+				.describe('Output format: "json" (default), "dot" or "mermaid".'),
+			ignoreTypeOnlyImports: z
+				.boolean()
+				.optional()
+				.default(false)
+				.describe("If true, type-only imports/exports are not included."),
+			excludeFilePatterns: z
+				.array(z.string())
+				.optional()
+				.describe(
+					"Substrings; files whose absolute path includes any of these are removed from the graph.",
+				),
+		},
+		async (args) => {
+			const startTime = performance.now();
+			let message = "";
+			let isError = false;
+			let duration = "0.00";
+
+			const logArgs = {
+				tsconfigPath: args.tsconfigPath,
+				directory: args.directory,
+				granularity: args.granularity,
+				format: args.format,
+				ignoreTypeOnlyImports: args.ignoreTypeOnlyImports,
+				excludeFilePatterns: args.excludeFilePatterns,
+			};
+
+			try {
+				const project = getProject(args.tsconfigPath);
+				const graph = getDependencyGraph(project, {
+					directory: args.directory,
+					granularity: args.granularity,
+					ignoreTypeOnlyImports: args.ignoreTypeOnlyImports,
+					excludeFilePatterns: args.excludeFilePatterns,
+				});
+
+				message = `${formatDependencyGraph(graph, args.format)}\n\nNodes: ${graph.nodes.length}\nEdges: ${graph.edges.length}`;
+			} catch (error) {
+				safeLogError(error, logArgs);
+				const errorMessage =
+					error instanceof Error ? error.message : String(error);
+				message = `Error: ${errorMessage}`;
+				isError = true;
+			} finally {
+				const endTime = performance.now();
+				duration = ((endTime - startTime) / 1000).toFixed(2);
+				safeLogInfo({
+					status: isError ? "Failure" : "Success",
+					durationMs: Number.parseFloat((endTime - startTime).toFixed(2)),
+					...logArgs,
+				});
+				try {
+					logger.flush();
+				} catch (flushErr) {
+					console.error("Failed to flush logs:", flushErr);
+				}
+			}
+
+			const finalMessage = `${message}\nStatus: ${
+				isError ? "Failure" : "Success"
+			}\nProcessing time: ${duration} seconds`;
+
+			return {
+				content: [{ type: "text", text: finalMessage }],
+				isError,
+			};
+		},
+	);
+}
@@ -0,0 +1,137 @@
+import { performance } from "node:perf_hooks";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { formatDiagnosticInfos } from "../../ts-morph/_utils/diagnostics";
+import { getProject } from "../../ts-morph/_utils/project-registry";
+import { getDiagnostics } from "../../ts-morph/get-diagnostics/get-diagnostics";
+import logger from "../../utils/logger";
+
+function safeLogError(error: unknown, toolArgs: Record<string, unknown>): void {
+	try {
+		logger.error(
+			{ err: error, toolArgs },
+			"Error executing get_diagnostics_by_tsmorph",
+		);
+	} catch (loggerErr) {
+		console.error("Failed to write error log:", loggerErr);
+	}
+}
+
+function safeLogInfo(fields: Record<string, unknown>): void {
+	try {
+		logger.info(fields, "get_diagnostics_by_tsmorph tool finished");
+	} catch (loggerErr) {
+		console.error("Failed to write info log:", loggerErr);
+	}
+}
+
+export function registerGetDiagnosticsTool(server: McpServer): void {
+	server.tool(
+		"get_diagnostics_by_tsmorph",
+		`[ts-morph] Return TypeScript pre-emit diagnostics (syntax and type errors) for the whole project, a list of files, or a directory, as structured entries.
+
+## When to use
+- Checking whether the project (or the files you just edited) type-checks, without spawning \`tsc\`.
+- After a manual edit, to find which lines broke and why.
+- Re-checking only a directory or a few files in a large project.
+
+## When NOT to use
+- Checking the result of a refactor made by another ts-morph write tool -> pass \`reportNewDiagnostics: true\` to that tool instead; it reports only the diagnostics the refactor introduced.
+- Looking up the type of a single expression -> use \`get_type_at_position_by_tsmorph\`.
+
+## Critical constraints
+- Omit both \`filePaths\` and \`directory\` to check every file in the project (excluding \`node_modules\`). When both are given, the union is checked.
+- Files must be part of the project described by \`tsconfigPath\`.
+- Diagnostics that are not attached to a file (e.g. tsconfig option errors) are not included.
+- All paths MUST be absolute.
+
+## Tips
+- The first call on a large project builds the type checker and can take a while; later calls reuse the cached project.
+- Use \`limit\` to keep the output short; \`totalCount\` always reports the full number.
+
+## Result
+Each entry is \`path:line:column - category TScode: message\` (1-based line/column), sorted by file and position, followed by the total count and the number of checked files.`,
+		{
+			tsconfigPath: z
+				.string()
+				.describe("Absolute path to the project's tsconfig.json file."),
+			filePaths: z
+				.array(z.string())
+				.optional()
+				.describe("Absolute paths of the files to check."),
+			directory: z
+				.string()
+				.optional()
+				.describe("Absolute path of a directory whose files are checked."),
+			limit: z
+				.number()
+				.int()
+				.positive()
+				.optional()
+				.default(200)
+				.describe("Maximum number of diagnostics to return (default 200)."),
+		},
+		async (args) => {
+			const startTime = performance.now();
+			let message = "";
+			let isError = false;
+			let duration = "0.00";
+			let totalCount = 0;
+
+			const logArgs = {
+				filePaths: args.filePaths,
+				directory: args.directory,
+				limit: args.limit,
+			};
+
+			try {
+				const project = getProject(args.tsconfigPath);
+				const result = getDiagnostics(project, {
+					filePaths: args.filePaths,
+					directory: args.directory,
+					limit: args.limit,
+				});
+				totalCount = result.totalCount;
+
+				if (result.totalCount === 0) {
+					message = `No diagnostics found (${result.checkedFileCount} file(s) checked).`;
+				} else {
+					const shown =
+						result.diagnostics.length < result.totalCount
+							? ` (showing first ${result.diagnostics.length})`
+							: "";
+					message = `Found ${result.totalCount} diagnostic(s) in ${result.checkedFileCount} checked file(s)${shown}:\n${formatDiagnosticInfos(result.diagnostics)}`;
+				}
+			} catch (error) {
+				safeLogError(error, logArgs);
+				const errorMessage =
+					error instanceof Error ? error.message : String(error);
+				message = `Error: ${errorMessage}`;
+				isError = true;
+			} finally {
+				const endTime = performance.now();
+				duration = ((endTime - startTime) / 1000).toFixed(2);
+				safeLogInfo({
+					status: isError ? "Failure" : "Success",
+					durationMs: Number.parseFloat((endTime - startTime).toFixed(2)),
+					totalCount,
+					...logArgs,
+				});
+				try {
+					logger.flush();
+				} catch (flushErr) {
+					console.error("Failed to flush logs:", flushErr);
+				}
+			}
+
+			const finalMessage = `${message}\nStatus: ${
+				isError ? "Failure" : "Success"
+			}\nProcessing time: ${duration} seconds`;
+
+			return {
+				content: [{ type: "text", text: finalMessage }],
+				isError,
+			};
+		},
+	);
+}
@@ -1,7 +1,7 @@
 import { performance } from "node:perf_hooks";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { initializeProject } from "../../ts-morph/_utils/ts-morph-project";
+import { getProject } from "../../ts-morph/_utils/project-registry";
 import { getTypeAtPosition } from "../../ts-morph/get-type-at-position/get-type-at-position";
 import logger from "../../utils/logger";
 
@@ -89,7 +89,7 @@ export function registerGetTypeAtPositionTool(server: McpServer): void {
 			};
 
 			try {
-				const project = initializeProject(args.tsconfigPath);
+				const project = getProject(args.tsconfigPath);
 				const result = getTypeAtPosition(
 					project,
 					args.targetFilePath,
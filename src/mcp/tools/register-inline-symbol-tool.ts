@@ -0,0 +1,160 @@
+import { performance } from "node:perf_hooks";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { formatFileDiffs } from "../../ts-morph/_utils/file-diff";
+import { inlineSymbol } from "../../ts-morph/inline-symbol/inline-symbol";
+import { formatNewDiagnostics } from "../../ts-morph/_utils/diagnostics";
+import { getProject } from "../../ts-morph/_utils/project-registry";
+import {
+	captureDiagnosticsBaseline,
+	findNewDiagnostics,
+} from "../../ts-morph/get-diagnostics/new-diagnostics";
+import logger from "../../utils/logger";
+
+export function registerInlineSymbolTool(server: McpServer): void {
+	server.tool(
+		"inline_symbol_by_tsmorph",
+		`[ts-morph] Inline a function or a const variable: replace every call site with the function body (or every reference with the initializer) and delete the declaration. The inverse of \`extract_function_by_tsmorph\`.
+
+## When to use
+- A small helper function or intermediate variable no longer pulls its weight and you want its body written out where it is used.
+- Undoing an extraction that made the code harder to follow.
+
+## When NOT to use
+- The symbol is used from other files -> inline is limited to a single file; move or rewrite the other usages first.
+- The symbol is exported (\`export function\`, \`export const\`, or listed in \`export { ... }\`) -> rejected even when nothing in the project imports it, because deleting the declaration would break the public API and importers outside the project. Remove the \`export\` first if the symbol is really internal.
+- Renaming or moving a symbol -> use \`rename_symbol_by_tsmorph\` / \`move_symbol_to_file_by_tsmorph\`.
+
+## Critical constraints
+- Functions: the body must be a single expression (\`return expr;\` or an arrow expression body), or a list of statements without \`return\` (only inlined where the call is used as a statement). Arguments are mapped to parameters; omitted arguments use the default value.
+- Functions that are overloaded, generic, async, generators, recursive, take rest/destructured parameters, assign to parameters, or use \`this\`/\`arguments\` (non-arrow functions) are rejected. Every reference must be a plain call (no spread arguments, type arguments, or \`?.()\`).
+- Variables: only \`const\` declarations with an initializer. References via \`export { x }\` or \`typeof x\` are rejected. An initializer with side effects is only inlined when it is used once in the immediately following statement.
+- The tool refuses instead of changing behaviour: when an argument or initializer with side effects would be evaluated a different number of times or in a different order, when the value of \`this\` would differ, or when a name used by the body would resolve to a different declaration at the call site.
+- All paths MUST be absolute.
+
+## Tips
+- \`position\` may point at the declaration name or at any reference of the symbol.
+- Run with \`dryRun: true\` and \`includeDiff: true\` first to review the expanded code.
+
+## Result
+Returns the kind of symbol that was inlined, the number of replaced call sites/references, and the modified (or to-be-modified, in dryRun) file paths, plus status and processing time. With \`includeDiff: true\`, a unified diff per changed file is appended. With \`reportNewDiagnostics: true\`, the TypeScript diagnostics introduced by the refactor (in the changed files and their importers) are appended.`,
+		{
+			tsconfigPath: z
+				.string()
+				.describe("Absolute path to the project's tsconfig.json file."),
+			targetFilePath: z
+				.string()
+				.describe("Absolute path to the file containing the symbol."),
+			position: z
+				.object({
+					line: z.number().int().positive().describe("1-based line number."),
+					column: z
+						.number()
+						.int()
+						.positive()
+						.describe("1-based column number."),
+				})
+				.describe(
+					"Position of the symbol name (its declaration or any reference).",
+				),
+			symbolName: z
+				.string()
+				.describe("The name of the function or variable to inline."),
+			dryRun: z
+				.boolean()
+				.optional()
+				.default(false)
+				.describe(
+					"If true, only show intended changes without modifying files.",
+				),
+			includeDiff: z
+				.boolean()
+				.optional()
+				.default(false)
+				.describe(
+					"If true, append a unified diff (on-disk text vs. rewritten text) for each changed file. Most useful together with dryRun.",
+				),
+			reportNewDiagnostics: z
+				.boolean()
+				.optional()
+				.default(false)
+				.describe(
+					"If true, type-check the changed files and the files importing them after the refactor and report only the TypeScript diagnostics it introduced.",
+				),
+		},
+		async (args) => {
+			const startTime = performance.now();
+			let message = "";
+			let isError = false;
+			let duration = "0.00";
+
+			const logArgs = {
+				targetFilePath: args.targetFilePath,
+				position: args.position,
+				symbolName: args.symbolName,
+				dryRun: args.dryRun,
+			};
+
+			try {
+				const diagnosticsBaseline = args.reportNewDiagnostics
+					? captureDiagnosticsBaseline(getProject(args.tsconfigPath))
+					: undefined;
+				const result = await inlineSymbol({
+					tsconfigPath: args.tsconfigPath,
+					targetFilePath: args.targetFilePath,
+					position: args.position,
+					symbolName: args.symbolName,
+					dryRun: args.dryRun,
+					includeDiff: args.includeDiff,
+				});
+
+				const changedFilesList = result.changedFiles.join("\n - ");
+				const verb = args.dryRun ? "would be" : "were";
+				const unit =
+					result.kind === "function" ? "call site(s)" : "reference(s)";
+
+				message = `${args.dryRun ? "Dry run complete" : "Inline successful"}: ${result.kind} '${args.symbolName}' inlined at ${result.inlinedCount} ${unit}\nThe following files ${verb} modified:\n - ${changedFilesList}`;
+				if (diagnosticsBaseline) {
+					message += `\n\n${formatNewDiagnostics(findNewDiagnostics(diagnosticsBaseline))}`;
+				}
+				if (result.diffs) {
+					message += `\n\nDiff:\n${formatFileDiffs(result.diffs)}`;
+				}
+			} catch (error) {
+				logger.error(
+					{ err: error, toolArgs: logArgs },
+					"Error executing inline_symbol_by_tsmorph",
+				);
+				const errorMessage =
+					error instanceof Error ? error.message : String(error);
+				message = `Error during inline: ${errorMessage}`;
+				isError = true;
+			} finally {
+				const endTime = performance.now();
+				duration = ((endTime - startTime) / 1000).toFixed(2);
+				logger.info(
+					{
+						status: isError ? "Failure" : "Success",
+						durationMs: Number.parseFloat((endTime - startTime).toFixed(2)),
+						...logArgs,
+					},
+					"inline_symbol_by_tsmorph tool finished",
+				);
+				try {
+					logger.flush();
+				} catch (flushErr) {
+					console.error("Failed to flush logs:", flushErr);
+				}
+			}
+
+			const finalMessage = `${message}\nStatus: ${
+				isError ? "Failure" : "Success"
+			}\nProcessing time: ${duration} seconds`;
+
+			return {
+				content: [{ type: "text", text: finalMessage }],
+				isError,
+			};
+		},
+	);
+}
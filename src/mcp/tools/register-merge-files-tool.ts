@@ -0,0 +1,156 @@
+import { performance } from "node:perf_hooks";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { formatNewDiagnostics } from "../../ts-morph/_utils/diagnostics";
+import { formatFileDiffs } from "../../ts-morph/_utils/file-diff";
+import { getProject } from "../../ts-morph/_utils/project-registry";
+import {
+	captureDiagnosticsBaseline,
+	findNewDiagnostics,
+} from "../../ts-morph/get-diagnostics/new-diagnostics";
+import { mergeFiles } from "../../ts-morph/merge-files/merge-files";
+import logger from "../../utils/logger";
+
+export function registerMergeFilesTool(server: McpServer): void {
+	server.tool(
+		"merge_files_by_tsmorph",
+		`[ts-morph] Merge several source files into one target file: concatenate their code, deduplicate their imports, resolve top-level name collisions with type-aware renames, redirect every import/export in the project to the merged file, and delete the originals. The inverse of \`split_file_by_tsmorph\`.
+
+## When to use
+- Several small modules belong together and are always imported together.
+- Undoing an over-eager split.
+
+## When NOT to use
+- Moving or renaming a single file -> use \`rename_filesystem_entry_by_tsmorph\`.
+- Moving only some symbols -> use \`move_symbol_to_file_by_tsmorph\`.
+
+## Critical constraints
+- The target may be an existing file (its content stays first) or a new file. The source files are appended in the given order and then deleted.
+- Name collisions are resolved in favour of the earlier file: a later file's colliding declaration is renamed to \`<name><FileName>\` (e.g. \`format\` in \`order.ts\` -> \`formatOrder\`), and importers are updated. Colliding imports of different modules get an alias.
+- Rejected: default exports in more than one file, \`export =\`, and namespace imports (\`import * as x\`) between the merged files.
+- Imports between the merged files are removed; aliased and default imports between them are rewritten to the declaration names.
+- All paths MUST be absolute.
+
+## Tips
+- Run with \`dryRun: true\` and \`includeDiff: true\` first to review the merged file and the renames.
+
+## Result
+Returns the renames made to avoid collisions, the files whose imports were redirected, the removed files, and the modified (or to-be-modified, in dryRun) file paths, plus status and processing time. With \`includeDiff: true\`, a unified diff per changed file is appended. With \`reportNewDiagnostics: true\`, the TypeScript diagnostics introduced by the refactor (in the changed files and their importers) are appended.`,
+		{
+			tsconfigPath: z
+				.string()
+				.describe("Absolute path to the project's tsconfig.json file."),
+			sourceFilePaths: z
+				.array(z.string())
+				.min(1)
+				.describe(
+					"Absolute paths of the files to merge, in the order their code is appended.",
+				),
+			targetFilePath: z
+				.string()
+				.describe(
+					"Absolute path of the merged file. An existing file keeps its content at the top.",
+				),
+			dryRun: z
+				.boolean()
+				.optional()
+				.default(false)
+				.describe(
+					"If true, only show intended changes without modifying files.",
+				),
+			includeDiff: z
+				.boolean()
+				.optional()
+				.default(false)
+				.describe(
+					"If true, append a unified diff (on-disk text vs. rewritten text) for each changed file. Most useful together with dryRun.",
+				),
+			reportNewDiagnostics: z
+				.boolean()
+				.optional()
+				.default(false)
+				.describe(
+					"If true, type-check the changed files and the files importing them after the refactor and report only the TypeScript diagnostics it introduced.",
+				),
+		},
+		async (args) => {
+			const startTime = performance.now();
+			let message = "";
+			let isError = false;
+			let duration = "0.00";
+
+			const logArgs = {
+				sourceFilePaths: args.sourceFilePaths,
+				targetFilePath: args.targetFilePath,
+				dryRun: args.dryRun,
+			};
+
+			try {
+				const diagnosticsBaseline = args.reportNewDiagnostics
+					? captureDiagnosticsBaseline(getProject(args.tsconfigPath))
+					: undefined;
+				const result = await mergeFiles({
+					tsconfigPath: args.tsconfigPath,
+					sourceFilePaths: args.sourceFilePaths,
+					targetFilePath: args.targetFilePath,
+					dryRun: args.dryRun,
+					includeDiff: args.includeDiff,
+				});
+
+				const verb = args.dryRun ? "would be" : "were";
+				message = `${args.dryRun ? "Dry run complete" : "Merge successful"}: ${result.removedFiles.length} file(s) merged into ${args.targetFilePath}`;
+				if (result.renames.length > 0) {
+					message += `\nRenamed to avoid name collisions:\n${result.renames
+						.map(
+							(rename) =>
+								` - ${rename.oldName} -> ${rename.newName} (${rename.filePath})`,
+						)
+						.join("\n")}`;
+				}
+				message += `\nImports redirected in ${result.redirectedFiles.length} file(s).`;
+				message += `\nThe following files ${verb} removed:\n - ${result.removedFiles.join("\n - ")}`;
+				message += `\nThe following files ${verb} modified:\n - ${result.changedFiles.join("\n - ")}`;
+				if (diagnosticsBaseline) {
+					message += `\n\n${formatNewDiagnostics(findNewDiagnostics(diagnosticsBaseline))}`;
+				}
+				if (result.diffs) {
+					message += `\n\nDiff:\n${formatFileDiffs(result.diffs)}`;
+				}
+			} catch (error) {
+				logger.error(
+					{ err: error, toolArgs: logArgs },
+					"Error executing merge_files_by_tsmorph",
+				);
+				const errorMessage =
+					error instanceof Error ? error.message : String(error);
+				message = `Error during merge: ${errorMessage}`;
+				isError = true;
+			} finally {
+				const endTime = performance.now();
+				duration = ((endTime - startTime) / 1000).toFixed(2);
+				logger.info(
+					{
+						status: isError ? "Failure" : "Success",
+						durationMs: Number.parseFloat((endTime - startTime).toFixed(2)),
+						...logArgs,
+					},
+					"merge_files_by_tsmorph tool finished",
+				);
+				try {
+					logger.flush();
+				} catch (flushErr) {
+					console.error("Failed to flush logs:", flushErr);
+				}
+			}
+
+			const finalMessage = `${message}\nStatus: ${
+				isError ? "Failure" : "Success"
+			}\nProcessing time: ${duration} seconds`;
+
+			return {
+				content: [{ type: "text", text: finalMessage }],
+				isError,
+			};
+		},
+	);
+}
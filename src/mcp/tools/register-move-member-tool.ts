@@ -0,0 +1,193 @@
+import { performance } from "node:perf_hooks";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { formatNewDiagnostics } from "../../ts-morph/_utils/diagnostics";
+import { formatFileDiffs } from "../../ts-morph/_utils/file-diff";
+import { getProject } from "../../ts-morph/_utils/project-registry";
+import {
+	captureDiagnosticsBaseline,
+	findNewDiagnostics,
+} from "../../ts-morph/get-diagnostics/new-diagnostics";
+import { moveMember } from "../../ts-morph/move-member/move-member";
+import logger from "../../utils/logger";
+
+export function registerMoveMemberTool(server: McpServer): void {
+	server.tool(
+		"move_member_by_tsmorph",
+		`[ts-morph] Move a class member out of its class: a static method or property to another class or to a standalone exported function (const for properties), or an instance method that does not use \`this\` to an exported function that takes the receiver as its first argument. Every reference is rewritten (\`Source.method()\` -> \`Dest.method()\` / \`method()\`, \`obj.method(a)\` -> \`method(obj, a)\`).
+
+## When to use
+- A static helper lives on the wrong class, or a class is only used as a namespace for static functions.
+- An instance method does not depend on the instance state and would read better as a free function.
+
+## When NOT to use
+- Moving a top-level function, class, or variable to another file -> use \`move_symbol_to_file_by_tsmorph\`.
+- Renaming a member -> use \`rename_symbol_by_tsmorph\`.
+
+## Critical constraints
+- Supported members: static methods, static properties, and instance methods whose body does not use \`this\` or \`super\`. Instance properties, abstract, decorated, and overloaded members are rejected.
+- Members whose body references a private or protected member (including \`#private\`) of the source class are rejected, since the destination cannot access it. Make that member public or move it first.
+- A class destination only accepts static, public members, and the class must not already have a member with the same name.
+- A function destination rejects static properties without an initializer and writes to a moved static property.
+- Instance methods must only be referenced as calls (\`obj.method(...)\`); references through \`this\`, overrides in subclasses, and non-call references are rejected.
+- Imports and top-level declarations used by the member are imported in the destination file (exporting them from the source file when needed). A name conflict in the destination file is an error.
+- All paths MUST be absolute.
+
+## Tips
+- A function destination file is created when it does not exist. \`functionName\` defaults to the member name.
+- \`receiverParameterName\` defaults to the class name with a lower-case first letter (e.g. \`Order\` -> \`order\`).
+- Run with \`dryRun: true\` and \`includeDiff: true\` first to review the rewritten call sites.
+
+## Result
+Returns the kind of member that was moved, the number of updated references, and the modified (or to-be-modified, in dryRun) file paths, plus status and processing time. With \`includeDiff: true\`, a unified diff per changed file is appended. With \`reportNewDiagnostics: true\`, the TypeScript diagnostics introduced by the refactor (in the changed files and their importers) are appended.`,
+		{
+			tsconfigPath: z
+				.string()
+				.describe("Absolute path to the project's tsconfig.json file."),
+			targetFilePath: z
+				.string()
+				.describe("Absolute path to the file containing the source class."),
+			className: z
+				.string()
+				.describe("The name of the class that currently has the member."),
+			memberName: z.string().describe("The name of the member to move."),
+			destination: z
+				.discriminatedUnion("kind", [
+					z.object({
+						kind: z.literal("class"),
+						filePath: z
+							.string()
+							.describe(
+								"Absolute path to the file containing the destination class.",
+							),
+						className: z
+							.string()
+							.describe("The name of the destination class."),
+					}),
+					z.object({
+						kind: z.literal("function"),
+						filePath: z
+							.string()
+							.describe(
+								"Absolute path to the destination file (created if it does not exist).",
+							),
+						functionName: z
+							.string()
+							.optional()
+							.describe(
+								"Name of the new function (or const for a static property). Defaults to the member name.",
+							),
+					}),
+				])
+				.describe(
+					"Where to move the member: a static member of another class, or a top-level exported function.",
+				),
+			receiverParameterName: z
+				.string()
+				.optional()
+				.describe(
+					"For instance methods: name of the first parameter that receives the instance. Defaults to the class name with a lower-case first letter.",
+				),
+			dryRun: z
+				.boolean()
+				.optional()
+				.default(false)
+				.describe(
+					"If true, only show intended changes without modifying files.",
+				),
+			includeDiff: z
+				.boolean()
+				.optional()
+				.default(false)
+				.describe(
+					"If true, append a unified diff (on-disk text vs. rewritten text) for each changed file. Most useful together with dryRun.",
+				),
+			reportNewDiagnostics: z
+				.boolean()
+				.optional()
+				.default(false)
+				.describe(
+					"If true, type-check the changed files and the files importing them after the refactor and report only the TypeScript diagnostics it introduced.",
+				),
+		},
+		async (args) => {
+			const startTime = performance.now();
+			let message = "";
+			let isError = false;
+			let duration = "0.00";
+
+			const logArgs = {
+				targetFilePath: args.targetFilePath,
+				className: args.className,
+				memberName: args.memberName,
+				destination: args.destination,
+				dryRun: args.dryRun,
+			};
+
+			try {
+				const diagnosticsBaseline = args.reportNewDiagnostics
+					? captureDiagnosticsBaseline(getProject(args.tsconfigPath))
+					: undefined;
+				const result = await moveMember({
+					tsconfigPath: args.tsconfigPath,
+					targetFilePath: args.targetFilePath,
+					className: args.className,
+					memberName: args.memberName,
+					destination: args.destination,
+					receiverParameterName: args.receiverParameterName,
+					dryRun: args.dryRun,
+					includeDiff: args.includeDiff,
+				});
+
+				const changedFilesList = result.changedFiles.join("\n - ");
+				const verb = args.dryRun ? "would be" : "were";
+				const target =
+					args.destination.kind === "class"
+						? `class '${args.destination.className}'`
+						: `function '${args.destination.functionName ?? args.memberName}'`;
+
+				message = `${args.dryRun ? "Dry run complete" : "Move successful"}: ${result.kind} '${args.className}.${args.memberName}' moved to ${target} (${result.updatedReferenceCount} reference(s) updated)\nThe following files ${verb} modified:\n - ${changedFilesList}`;
+				if (diagnosticsBaseline) {
+					message += `\n\n${formatNewDiagnostics(findNewDiagnostics(diagnosticsBaseline))}`;
+				}
+				if (result.diffs) {
+					message += `\n\nDiff:\n${formatFileDiffs(result.diffs)}`;
+				}
+			} catch (error) {
+				logger.error(
+					{ err: error, toolArgs: logArgs },
+					"Error executing move_member_by_tsmorph",
+				);
+				const errorMessage =
+					error instanceof Error ? error.message : String(error);
+				message = `Error during member move: ${errorMessage}`;
+				isError = true;
+			} finally {
+				const endTime = performance.now();
+				duration = ((endTime - startTime) / 1000).toFixed(2);
+				logger.info(
+					{
+						status: isError ? "Failure" : "Success",
+						durationMs: Number.parseFloat((endTime - startTime).toFixed(2)),
+						...logArgs,
+					},
+					"move_member_by_tsmorph tool finished",
+				);
+				try {
+					logger.flush();
+				} catch (flushErr) {
+					console.error("Failed to flush logs:", flushErr);
+				}
+			}
+
+			const finalMessage = `${message}\nStatus: ${
+				isError ? "Failure" : "Success"
+			}\nProcessing time: ${duration} seconds`;
+
+			return {
+				content: [{ type: "text", text: finalMessage }],
+				isError,
+			};
+		},
+	);
+}
@@ -1,14 +1,27 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { moveSymbolToFile } from "../../ts-morph/move-symbol-to-file/move-symbol-to-file";
-import { initializeProject } from "../../ts-morph/_utils/ts-morph-project";
+import { moveSymbolsToFile } from "../../ts-morph/move-symbol-to-file/move-symbol-to-file";
+import {
+	collectFileDiffs,
+	formatFileDiffs,
+} from "../../ts-morph/_utils/file-diff";
+import { formatNewDiagnostics } from "../../ts-morph/_utils/diagnostics";
+import { getProject } from "../../ts-morph/_utils/project-registry";
+import {
+	captureDiagnosticsBaseline,
+	findNewDiagnostics,
+} from "../../ts-morph/get-diagnostics/new-diagnostics";
+import {
+	prepareJournalEntry,
+	writeJournalEntry,
+} from "../../ts-morph/refactor-journal/refactor-journal";
 import { getChangedFiles } from "../../ts-morph/_utils/ts-morph-project";
 import { SyntaxKind } from "ts-morph";
 import { performance } from "node:perf_hooks";
 import logger from "../../utils/logger";
 import * as path from "node:path";
 
-const declarationKindNames = [
+export const declarationKindNames = [
 	"FunctionDeclaration",
 	"VariableStatement",
 	"ClassDeclaration",
@@ -17,7 +30,7 @@ const declarationKindNames = [
 	"EnumDeclaration",
 ] as const;
 
-const syntaxKindMapping: Record<
+export const syntaxKindMapping: Record<
 	(typeof declarationKindNames)[number],
 	SyntaxKind
 > = {
@@ -29,6 +42,11 @@ const syntaxKindMapping: Record<
 	EnumDeclaration: SyntaxKind.EnumDeclaration,
 };
 
+export const defaultExportHandlingNames = [
+	"keepDefault",
+	"convertToNamed",
+] as const;
+
 const moveSymbolSchema = z.object({
 	tsconfigPath: z
 		.string()
@@ -43,18 +61,50 @@ const moveSymbolSchema = z.object({
 		.describe(
 			"Absolute path to the destination file. Can be an existing file; if the path does not exist, a new file will be created.",
 		),
-	symbolToMove: z.string().describe("The name of the symbol to move."),
+	symbolToMove: z
+		.string()
+		.optional()
+		.describe(
+			"The name of the single top-level symbol to move. Specify either this or `symbolsToMove`.",
+		),
+	symbolsToMove: z
+		.array(z.string())
+		.min(1)
+		.optional()
+		.describe(
+			"Names of top-level symbols to move together into the same destination file. Specify either this or `symbolToMove`.",
+		),
 	declarationKindString: z
 		.enum(declarationKindNames)
 		.optional()
 		.describe(
-			"Optional. The kind of the declaration. Providing this helps resolve ambiguity if multiple symbols share the same name.",
+			"Optional. The kind of the declaration. Providing this helps resolve ambiguity if multiple symbols share the same name. Applied to every symbol when moving several at once.",
+		),
+	defaultExport: z
+		.enum(defaultExportHandlingNames)
+		.optional()
+		.describe(
+			'Required when a moved symbol is a default export. "keepDefault" keeps it as the default export of the target file; "convertToNamed" makes it a named export using its declaration name.',
 		),
 	dryRun: z
 		.boolean()
 		.optional()
 		.default(false)
 		.describe("If true, only show intended changes without modifying files."),
+	includeDiff: z
+		.boolean()
+		.optional()
+		.default(false)
+		.describe(
+			"If true, append a unified diff (on-disk text vs. rewritten text) for each changed file, including the newly created destination file. Most useful together with dryRun.",
+		),
+	reportNewDiagnostics: z
+		.boolean()
+		.optional()
+		.default(false)
+		.describe(
+			"If true, type-check the changed files and the files importing them after the refactor and report only the TypeScript diagnostics it introduced.",
+		),
 });
 
 type MoveSymbolArgs = z.infer<typeof moveSymbolSchema>;
@@ -68,40 +118,38 @@ type MoveSymbolArgs = z.infer<typeof moveSymbolSchema>;
 export function registerMoveSymbolToFileTool(server: McpServer): void {
 	server.tool(
 		"move_symbol_to_file_by_tsmorph",
-		`[ts-morph] Move one top-level symbol (function, variable, class, interface, type, enum) from one file to another, carrying its internal-only dependencies and rewriting all imports/exports across the project.
+		`[ts-morph] Move one or more top-level symbols (function, variable, class, interface, type, enum) from one file to another, carrying their internal-only dependencies and rewriting all imports/exports across the project.
 
 ## When to use
-- Splitting a large file: move related symbols to a new file one by one.
+- Splitting a large file: move a group of related symbols to a new file in one call.
 - Relocating a helper from a generic \`utils.ts\` to a feature-specific module.
 - Prefer this over manual cut-and-paste + import fixing. Manual moves frequently miss re-exports, leave stale imports, or fail to add the new export -- this tool handles all of that via the type checker.
 
 ## When NOT to use
 - Renaming the file (without moving a single symbol out of it) -> \`rename_filesystem_entry_by_tsmorph\`.
 - Renaming a symbol in place -> \`rename_symbol_by_tsmorph\`.
-- The symbol you want to move is a \`export default\` -> NOT SUPPORTED, refactor it to a named export first.
 
 ## Critical constraints
-- ONE top-level symbol per call. To move N symbols, invoke the tool N times.
-- Default exports CANNOT be moved. Convert them to named exports beforehand.
+- Specify exactly one of \`symbolToMove\` (a single name) or \`symbolsToMove\` (a list of names). All listed symbols must live in \`originalFilePath\` and go to the same \`targetFilePath\`.
+- Moving a default export (\`export default function Name\`, \`export default class Name\`, or a declaration exported via \`export default Name;\`) requires \`defaultExport\`; without it the call fails.
+  - \`"keepDefault"\`: it stays the default export of \`targetFilePath\` (which must not already have one). \`import X from\` sites keep their local name \`X\`.
+  - \`"convertToNamed"\`: it becomes \`export function Name\`. \`import X from\` sites become \`import { Name as X } from\` (or \`import { Name }\` when \`X\` is \`Name\`), and \`export { default } from\` re-exports become \`export { Name as default } from\`.
+- Anonymous default exports (\`export default () => ...\`) cannot be moved; give them a name first.
 - If multiple top-level declarations share the same name (e.g., function + namespace), pass \`declarationKindString\` (e.g., \`"FunctionDeclaration"\`, \`"VariableStatement"\`) to disambiguate.
 - Internal dependency rules:
-  - Dependencies used ONLY by the moved symbol travel with it.
+  - Dependencies used ONLY by the moved symbols travel with them. A private helper shared by several moved symbols is moved once.
   - Dependencies also used by other symbols in the source file stay put, gain \`export\` if missing, and are imported back into the destination file.
+- Files that imported several of the moved symbols get a single import statement from the destination file.
 - All paths (\`tsconfigPath\`, \`originalFilePath\`, \`targetFilePath\`) MUST be absolute.
 - \`targetFilePath\` may point to a non-existent file; it will be created.
 
 ## Tips
-- Run with \`dryRun: true\` first when the source file has many co-dependencies to confirm what gets pulled along.
+- Run with \`dryRun: true\` first when the source file has many co-dependencies to confirm what gets pulled along. Add \`includeDiff: true\` to see exactly which declarations and imports move.
+- The tool adds and updates imports but does not re-sort them. Follow up with \`organize_imports_by_tsmorph\` on the changed files to merge and sort imports.
 
 ## Result
-Returns the list of modified (or to-be-modified, in dryRun) file paths, plus status and processing time.`,
-		moveSymbolSchema.extend({
-			symbolToMove: z
-				.string()
-				.describe(
-					"The name of the single top-level symbol you want to move in this execution.",
-				),
-		}).shape,
+Returns the list of modified (or to-be-modified, in dryRun) file paths, plus status and processing time. With \`includeDiff: true\`, a unified diff per changed file is appended. With \`reportNewDiagnostics: true\`, the TypeScript diagnostics introduced by the refactor (in the changed files and their importers) are appended.`,
+		moveSymbolSchema.shape,
 		async (args: MoveSymbolArgs) => {
 			const startTime = performance.now();
 			let message = "";
@@ -113,8 +161,12 @@ Returns the list of modified (or to-be-modified, in dryRun) file paths, plus sta
 				originalFilePath,
 				targetFilePath,
 				symbolToMove,
+				symbolsToMove,
 				declarationKindString,
+				defaultExport,
 				dryRun,
+				includeDiff,
+				reportNewDiagnostics,
 			} = args;
 
 			const declarationKind: SyntaxKind | undefined = declarationKindString
@@ -126,24 +178,44 @@ Returns the list of modified (or to-be-modified, in dryRun) file paths, plus sta
 				originalFilePath: path.basename(originalFilePath),
 				targetFilePath: path.basename(targetFilePath),
 				symbolToMove,
+				symbolsToMove,
 				declarationKindString,
+				defaultExport,
 				dryRun,
 			};
 
 			try {
-				const project = initializeProject(tsconfigPath);
-				await moveSymbolToFile(
+				let symbolNames: string[];
+				if (symbolToMove !== undefined && symbolsToMove === undefined) {
+					symbolNames = [symbolToMove];
+				} else if (symbolsToMove !== undefined && symbolToMove === undefined) {
+					symbolNames = symbolsToMove;
+				} else {
+					throw new Error(
+						"Specify exactly one of symbolToMove or symbolsToMove.",
+					);
+				}
+				const project = getProject(tsconfigPath);
+				const diagnosticsBaseline = reportNewDiagnostics
+					? captureDiagnosticsBaseline(project)
+					: undefined;
+				await moveSymbolsToFile(
 					project,
 					originalFilePath,
 					targetFilePath,
-					symbolToMove,
-					declarationKind,
+					symbolNames.map((name) => ({ name, declarationKind })),
+					{ defaultExport },
 				);
 
-				changedFiles = getChangedFiles(project).map((sf) => sf.getFilePath());
+				const changedSourceFiles = getChangedFiles(project);
+				changedFiles = changedSourceFiles.map((sf) => sf.getFilePath());
 				changedFilesCount = changedFiles.length;
+				const diffs = includeDiff
+					? collectFileDiffs(project, changedSourceFiles)
+					: undefined;
 
-				const baseMessage = `Moved symbol \"${symbolToMove}\" from ${originalFilePath} to ${targetFilePath}.`;
+				const symbolList = symbolNames.map((name) => `"${name}"`).join(", ");
+				const baseMessage = `Moved ${symbolNames.length === 1 ? "symbol" : "symbols"} ${symbolList} from ${originalFilePath} to ${targetFilePath}.`;
 				const changedFilesList =
 					changedFiles.length > 0 ? changedFiles.join("\n - ") : "(No changes)";
 
@@ -151,10 +223,20 @@ Returns the list of modified (or to-be-modified, in dryRun) file paths, plus sta
 					message = `Dry run: ${baseMessage}\nFiles that would be modified:\n - ${changedFilesList}`;
 					logger.info({ changedFiles }, "Dry run: Skipping save.");
 				} else {
+					const journal = prepareJournalEntry(project, {
+						operation: "moveSymbolToFile",
+					});
 					await project.save();
+					writeJournalEntry(journal);
 					logger.debug("Project changes saved after symbol move.");
 					message = `${baseMessage}\nThe following files were modified:\n - ${changedFilesList}`;
 				}
+				if (diagnosticsBaseline) {
+					message += `\n\n${formatNewDiagnostics(findNewDiagnostics(diagnosticsBaseline))}`;
+				}
+				if (diffs) {
+					message += `\n\nDiff:\n${formatFileDiffs(diffs)}`;
+				}
 				isError = false;
 			} catch (error) {
 				logger.error(
@@ -0,0 +1,148 @@
+import { performance } from "node:perf_hooks";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { formatNewDiagnostics } from "../../ts-morph/_utils/diagnostics";
+import { formatFileDiffs } from "../../ts-morph/_utils/file-diff";
+import { getProject } from "../../ts-morph/_utils/project-registry";
+import { organizeImports } from "../../ts-morph/code-fixes/organize-imports";
+import {
+	captureDiagnosticsBaseline,
+	findNewDiagnostics,
+} from "../../ts-morph/get-diagnostics/new-diagnostics";
+import logger from "../../utils/logger";
+
+export function registerOrganizeImportsTool(server: McpServer): void {
+	server.tool(
+		"organize_imports_by_tsmorph",
+		`[ts-morph] Organize imports in a list of files or a directory, like the editor's "Organize Imports": remove unused imports, merge imports from the same module, and sort them.
+
+## When to use
+- Cleaning up after \`move_symbol_to_file_by_tsmorph\`, \`rename_filesystem_entry_by_tsmorph\` or manual edits left duplicated, unsorted or unused imports.
+- Normalizing imports across a directory before a review.
+
+## When NOT to use
+- Adding imports that are missing -> use \`apply_code_fixes_by_tsmorph\` with \`fixMissingImport\`.
+- Rewriting alias paths to relative paths -> use \`remove_path_alias_by_tsmorph\`.
+
+## Critical constraints
+- At least one of \`filePaths\` / \`directory\` is required (\`node_modules\` and \`.d.ts\` files are skipped). When both are given, the union is processed.
+- Unused imports are removed; side-effect imports (\`import "./polyfill"\`) are kept.
+- The order follows the TypeScript language service (by module specifier), not project-specific lint rules.
+- All paths MUST be absolute.
+
+## Tips
+- Run with \`dryRun: true\` and \`includeDiff: true\` first to review the result.
+
+## Result
+Returns the modified (or to-be-modified, in dryRun) file paths out of the checked files, plus status and processing time. With \`includeDiff: true\`, a unified diff per changed file is appended. With \`reportNewDiagnostics: true\`, the TypeScript diagnostics introduced by the change (in the changed files and their importers) are appended.`,
+		{
+			tsconfigPath: z
+				.string()
+				.describe("Absolute path to the project's tsconfig.json file."),
+			filePaths: z
+				.array(z.string())
+				.optional()
+				.describe("Absolute paths of the files whose imports are organized."),
+			directory: z
+				.string()
+				.optional()
+				.describe(
+					"Absolute path of a directory whose files' imports are organized.",
+				),
+			dryRun: z
+				.boolean()
+				.optional()
+				.default(false)
+				.describe(
+					"If true, only show intended changes without modifying files.",
+				),
+			includeDiff: z
+				.boolean()
+				.optional()
+				.default(false)
+				.describe(
+					"If true, append a unified diff (on-disk text vs. rewritten text) for each changed file. Most useful together with dryRun.",
+				),
+			reportNewDiagnostics: z
+				.boolean()
+				.optional()
+				.default(false)
+				.describe(
+					"If true, type-check the changed files and the files importing them after the refactor and report only the TypeScript diagnostics it introduced.",
+				),
+		},
+		async (args) => {
+			const startTime = performance.now();
+			let message = "";
+			let isError = false;
+			let duration = "0.00";
+
+			const logArgs = {
+				filePaths: args.filePaths,
+				directory: args.directory,
+				dryRun: args.dryRun,
+			};
+
+			try {
+				const diagnosticsBaseline = args.reportNewDiagnostics
+					? captureDiagnosticsBaseline(getProject(args.tsconfigPath))
+					: undefined;
+				const result = await organizeImports({
+					tsconfigPath: args.tsconfigPath,
+					filePaths: args.filePaths,
+					directory: args.directory,
+					dryRun: args.dryRun,
+					includeDiff: args.includeDiff,
+				});
+
+				if (result.changedFiles.length === 0) {
+					message = `Imports are already organized in all ${result.checkedFileCount} checked file(s).`;
+				} else {
+					const changedFilesList = result.changedFiles.join("\n - ");
+					const verb = args.dryRun ? "would be" : "were";
+					message = `${args.dryRun ? "Dry run complete" : "Imports organized"}: ${result.changedFiles.length} of ${result.checkedFileCount} checked file(s) ${verb} modified:\n - ${changedFilesList}`;
+				}
+				if (diagnosticsBaseline) {
+					message += `\n\n${formatNewDiagnostics(findNewDiagnostics(diagnosticsBaseline))}`;
+				}
+				if (result.diffs) {
+					message += `\n\nDiff:\n${formatFileDiffs(result.diffs)}`;
+				}
+			} catch (error) {
+				logger.error(
+					{ err: error, toolArgs: logArgs },
+					"Error executing organize_imports_by_tsmorph",
+				);
+				const errorMessage =
+					error instanceof Error ? error.message : String(error);
+				message = `Error during organize imports: ${errorMessage}`;
+				isError = true;
+			} finally {
+				const endTime = performance.now();
+				duration = ((endTime - startTime) / 1000).toFixed(2);
+				logger.info(
+					{
+						status: isError ? "Failure" : "Success",
+						durationMs: Number.parseFloat((endTime - startTime).toFixed(2)),
+						...logArgs,
+					},
+					"organize_imports_by_tsmorph tool finished",
+				);
+				try {
+					logger.flush();
+				} catch (flushErr) {
+					console.error("Failed to flush logs:", flushErr);
+				}
+			}
+
+			const finalMessage = `${message}\nStatus: ${
+				isError ? "Failure" : "Success"
+			}\nProcessing time: ${duration} seconds`;
+
+			return {
+				content: [{ type: "text", text: finalMessage }],
+				isError,
+			};
+		},
+	);
+}
@@ -1,7 +1,20 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { removePathAlias } from "../../ts-morph/remove-path-alias/remove-path-alias";
-import { Project } from "ts-morph";
+import {
+	collectFileDiffs,
+	formatFileDiffs,
+} from "../../ts-morph/_utils/file-diff";
+import { formatNewDiagnostics } from "../../ts-morph/_utils/diagnostics";
+import { getProject } from "../../ts-morph/_utils/project-registry";
+import {
+	captureDiagnosticsBaseline,
+	findNewDiagnostics,
+} from "../../ts-morph/get-diagnostics/new-diagnostics";
+import {
+	prepareJournalEntry,
+	writeJournalEntry,
+} from "../../ts-morph/refactor-journal/refactor-journal";
 import { performance } from "node:perf_hooks";
 
 export function registerRemovePathAliasTool(server: McpServer): void {
@@ -24,10 +37,10 @@ export function registerRemovePathAliasTool(server: McpServer): void {
 - All paths (\`tsconfigPath\`, \`targetPath\`) MUST be absolute.
 
 ## Tips
-- Run with \`dryRun: true\` first when applying to a directory, to confirm the scope.
+- Run with \`dryRun: true\` first when applying to a directory, to confirm the scope. Add \`includeDiff: true\` to see the exact rewritten import lines.
 
 ## Result
-Returns the list of modified (or to-be-modified, in dryRun) file paths, plus status and processing time.`,
+Returns the list of modified (or to-be-modified, in dryRun) file paths, plus status and processing time. With \`includeDiff: true\`, a unified diff per changed file is appended. With \`reportNewDiagnostics: true\`, the TypeScript diagnostics introduced by the refactor (in the changed files and their importers) are appended.`,
 		{
 			tsconfigPath: z
 				.string()
@@ -42,6 +55,20 @@ Returns the list of modified (or to-be-modified, in dryRun) file paths, plus sta
 				.describe(
 					"If true, only show intended changes without modifying files.",
 				),
+			includeDiff: z
+				.boolean()
+				.optional()
+				.default(false)
+				.describe(
+					"If true, append a unified diff (on-disk text vs. rewritten text) for each changed file. Most useful together with dryRun.",
+				),
+			reportNewDiagnostics: z
+				.boolean()
+				.optional()
+				.default(false)
+				.describe(
+					"If true, type-check the changed files and the files importing them after the refactor and report only the TypeScript diagnostics it introduced.",
+				),
 		},
 		async (args) => {
 			const startTime = performance.now();
@@ -50,21 +77,34 @@ Returns the list of modified (or to-be-modified, in dryRun) file paths, plus sta
 			let duration = "0.00";
 
 			try {
-				const { tsconfigPath, targetPath, dryRun } = args;
-				const project = new Project({
-					tsConfigFilePath: tsconfigPath,
-				});
+				const {
+					tsconfigPath,
+					targetPath,
+					dryRun,
+					includeDiff,
+					reportNewDiagnostics,
+				} = args;
+				const project = getProject(tsconfigPath);
+				const diagnosticsBaseline = reportNewDiagnostics
+					? captureDiagnosticsBaseline(project)
+					: undefined;
 				const pathsOption = project.compilerOptions.get().paths ?? {};
 
 				const result = await removePathAlias({
 					project,
 					targetPath,
-					dryRun,
+					// 差分や新しい診断を出すには in-memory に変更を適用する必要がある (保存はしない)
+					dryRun: dryRun && !includeDiff && !reportNewDiagnostics,
 					paths: pathsOption,
 				});
+				const diffs = includeDiff ? collectFileDiffs(project) : undefined;
 
 				if (!dryRun) {
+					const journal = prepareJournalEntry(project, {
+						operation: "removePathAlias",
+					});
 					await project.save();
+					writeJournalEntry(journal);
 				}
 
 				const changedFilesList =
@@ -75,6 +115,12 @@ Returns the list of modified (or to-be-modified, in dryRun) file paths, plus sta
 				message = `Path alias removal (${
 					dryRun ? "Dry run" : "Execute"
 				}): Within the specified path '${targetPath}', the following files were ${actionVerb}:\n - ${changedFilesList}`;
+				if (diagnosticsBaseline) {
+					message += `\n\n${formatNewDiagnostics(findNewDiagnostics(diagnosticsBaseline))}`;
+				}
+				if (diffs) {
+					message += `\n\nDiff:\n${formatFileDiffs(diffs)}`;
+				}
 			} catch (error) {
 				const errorMessage =
 					error instanceof Error ? error.message : String(error);
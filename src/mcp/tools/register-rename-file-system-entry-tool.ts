@@ -1,7 +1,13 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { renameFileSystemEntry } from "../../ts-morph/rename-file-system/rename-file-system-entry";
-import { initializeProject } from "../../ts-morph/_utils/ts-morph-project";
+import { formatNewDiagnostics } from "../../ts-morph/_utils/diagnostics";
+import { formatFileDiffs } from "../../ts-morph/_utils/file-diff";
+import { getProject } from "../../ts-morph/_utils/project-registry";
+import {
+	captureDiagnosticsBaseline,
+	findNewDiagnostics,
+} from "../../ts-morph/get-diagnostics/new-diagnostics";
 import * as path from "node:path";
 import { performance } from "node:perf_hooks";
 import { TimeoutError } from "../../errors/timeout-error";
@@ -31,6 +37,20 @@ const renameSchema = z.object({
 		.optional()
 		.default(false)
 		.describe("If true, only show intended changes without modifying files."),
+	includeDiff: z
+		.boolean()
+		.optional()
+		.default(false)
+		.describe(
+			"If true, append a unified diff (on-disk text vs. rewritten text) for each changed file. Moved files appear as a deletion of the old path and an addition of the new path. Most useful together with dryRun.",
+		),
+	reportNewDiagnostics: z
+		.boolean()
+		.optional()
+		.default(false)
+		.describe(
+			"If true, type-check the changed files and the files importing them after the refactor and report only the TypeScript diagnostics it introduced.",
+		),
 	timeoutSeconds: z
 		.number()
 		.int()
@@ -66,18 +86,25 @@ export function registerRenameFileSystemEntryTool(server: McpServer): void {
 - The tool refuses to run on path conflicts (target already exists, duplicate destinations).
 
 ## Tips
-- Run with \`dryRun: true\` first for any non-trivial rename to inspect the affected file list.
+- Run with \`dryRun: true\` first for any non-trivial rename to inspect the affected file list. Add \`includeDiff: true\` to review the rewritten imports.
 - \`timeoutSeconds\` defaults to 120; raise it for very large projects or huge batch renames.
 
 ## Result
-Returns the list of modified (or to-be-modified, in dryRun) file paths, plus status and processing time. On timeout the operation is cancelled and an error is returned.`,
+Returns the list of modified (or to-be-modified, in dryRun) file paths, plus status and processing time. On timeout the operation is cancelled and an error is returned. With \`includeDiff: true\`, a unified diff per changed file is appended. With \`reportNewDiagnostics: true\`, the TypeScript diagnostics introduced by the refactor (in the changed files and their importers) are appended.`,
 		renameSchema.shape,
 		async (args: RenameArgs) => {
 			const startTime = performance.now();
 			let message = "";
 			let isError = false;
 			let changedFilesCount = 0;
-			const { tsconfigPath, renames, dryRun, timeoutSeconds } = args;
+			const {
+				tsconfigPath,
+				renames,
+				dryRun,
+				includeDiff,
+				timeoutSeconds,
+				reportNewDiagnostics,
+			} = args;
 			const TIMEOUT_MS = timeoutSeconds * 1000;
 
 			let resultPayload: {
@@ -110,11 +137,15 @@ Returns the list of modified (or to-be-modified, in dryRun) file paths, plus sta
 					controller.abort(new TimeoutError(errorMessage, timeoutSeconds));
 				}, TIMEOUT_MS);
 
-				const project = initializeProject(tsconfigPath);
+				const project = getProject(tsconfigPath);
+				const diagnosticsBaseline = reportNewDiagnostics
+					? captureDiagnosticsBaseline(project)
+					: undefined;
 				const result = await renameFileSystemEntry({
 					project,
 					renames,
 					dryRun,
+					includeDiff,
 					signal: controller.signal,
 				});
 
@@ -136,6 +167,12 @@ Returns the list of modified (or to-be-modified, in dryRun) file paths, plus sta
 				} else {
 					message = `Rename successful: Renamed [${renameSummary}]. The following files were modified:\n - ${changedFilesList}`;
 				}
+				if (diagnosticsBaseline) {
+					message += `\n\n${formatNewDiagnostics(findNewDiagnostics(diagnosticsBaseline))}`;
+				}
+				if (result.diffs) {
+					message += `\n\nDiff:\n${formatFileDiffs(result.diffs)}`;
+				}
 				isError = false;
 			} catch (error) {
 				logger.error(
@@ -1,8 +1,22 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { renameSymbol } from "../../ts-morph/rename-symbol/rename-symbol";
+import { formatNewDiagnostics } from "../../ts-morph/_utils/diagnostics";
+import { formatFileDiffs } from "../../ts-morph/_utils/file-diff";
+import { getProject } from "../../ts-morph/_utils/project-registry";
+import {
+	captureDiagnosticsBaseline,
+	findNewDiagnostics,
+} from "../../ts-morph/get-diagnostics/new-diagnostics";
+import {
+	type RenameTextOccurrence,
+	renameSymbol,
+} from "../../ts-morph/rename-symbol/rename-symbol";
 import { performance } from "node:perf_hooks";
 
+function formatTextOccurrence(occurrence: RenameTextOccurrence): string {
+	return ` - ${occurrence.filePath}:${occurrence.line}:${occurrence.column} [${occurrence.kind}] ${occurrence.lineText}`;
+}
+
 export function registerRenameSymbolTool(server: McpServer): void {
 	server.tool(
 		"rename_symbol_by_tsmorph",
@@ -23,11 +37,14 @@ export function registerRenameSymbolTool(server: McpServer): void {
 - \`symbolName\` must match the identifier text at that position; it is used as a sanity check.
 - All paths (\`tsconfigPath\`, \`targetFilePath\`) MUST be absolute.
 
+## Comments and string literals
+By default only type-checker references are renamed; JSDoc \`{@link Foo}\` tags count as references and are always renamed. Plain mentions of the name in comments, JSDoc text and string literals (test names, \`data-testid\`, log messages) are left as they are. Opt in with \`findInComments\` / \`findInStrings\` (same as the TypeScript language service options): every whole-word, same-text occurrence is rewritten, including unrelated ones, so review the listed occurrences — preferably with \`dryRun: true\` first.
+
 ## Tips
-- Run with \`dryRun: true\` first when the change spans many files, to preview the affected file list.
+- Run with \`dryRun: true\` first when the change spans many files, to preview the affected file list. Add \`includeDiff: true\` to review the exact edits.
 
 ## Result
-Returns the list of modified (or to-be-modified, in dryRun) file paths, plus status and processing time.`,
+Returns the list of modified (or to-be-modified, in dryRun) file paths, plus status and processing time. With \`includeDiff: true\`, a unified diff per changed file is appended. With \`reportNewDiagnostics: true\`, the TypeScript diagnostics introduced by the refactor (in the changed files and their importers) are appended. With \`findInComments\` / \`findInStrings\`, the comment / string occurrences rewritten in addition to the references are listed separately as \`path:line:column [comment|jsdoc|string] line text\` (positions before the rename).`,
 		{
 			tsconfigPath: z
 				.string()
@@ -50,6 +67,34 @@ Returns the list of modified (or to-be-modified, in dryRun) file paths, plus sta
 				.describe(
 					"If true, only show intended changes without modifying files.",
 				),
+			includeDiff: z
+				.boolean()
+				.optional()
+				.default(false)
+				.describe(
+					"If true, append a unified diff (on-disk text vs. rewritten text) for each changed file. Most useful together with dryRun.",
+				),
+			reportNewDiagnostics: z
+				.boolean()
+				.optional()
+				.default(false)
+				.describe(
+					"If true, type-check the changed files and the files importing them after the refactor and report only the TypeScript diagnostics it introduced.",
+				),
+			findInComments: z
+				.boolean()
+				.optional()
+				.default(false)
+				.describe(
+					"If true, also rename occurrences of the name in comments and JSDoc text. They are listed separately in the result.",
+				),
+			findInStrings: z
+				.boolean()
+				.optional()
+				.default(false)
+				.describe(
+					"If true, also rename occurrences of the name in string literals and template strings. They are listed separately in the result.",
+				),
 		},
 		async (args) => {
 			const startTime = performance.now();
@@ -65,7 +110,14 @@ Returns the list of modified (or to-be-modified, in dryRun) file paths, plus sta
 					symbolName,
 					newName,
 					dryRun,
+					includeDiff,
+					reportNewDiagnostics,
+					findInComments,
+					findInStrings,
 				} = args;
+				const diagnosticsBaseline = reportNewDiagnostics
+					? captureDiagnosticsBaseline(getProject(tsconfigPath))
+					: undefined;
 				const result = await renameSymbol({
 					tsconfigPath: tsconfigPath,
 					targetFilePath: targetFilePath,
@@ -73,6 +125,9 @@ Returns the list of modified (or to-be-modified, in dryRun) file paths, plus sta
 					symbolName: symbolName,
 					newName: newName,
 					dryRun: dryRun,
+					includeDiff: includeDiff,
+					findInComments: findInComments,
+					findInStrings: findInStrings,
 				});
 
 				const changedFilesList =
@@ -85,6 +140,18 @@ Returns the list of modified (or to-be-modified, in dryRun) file paths, plus sta
 				} else {
 					message = `Rename successful: Renamed symbol '${symbolName}' to '${newName}'. The following files were modified:\n - ${changedFilesList}`;
 				}
+				if (result.textOccurrences) {
+					message +=
+						result.textOccurrences.length > 0
+							? `\n\nComment/string occurrences also renamed (${result.textOccurrences.length}), review them:\n${result.textOccurrences.map(formatTextOccurrence).join("\n")}`
+							: "\n\nNo comment/string occurrences found.";
+				}
+				if (diagnosticsBaseline) {
+					message += `\n\n${formatNewDiagnostics(findNewDiagnostics(diagnosticsBaseline))}`;
+				}
+				if (result.diffs) {
+					message += `\n\nDiff:\n${formatFileDiffs(result.diffs)}`;
+				}
 			} catch (error) {
 				const errorMessage =
 					error instanceof Error ? error.message : String(error);
@@ -0,0 +1,209 @@
+import { performance } from "node:perf_hooks";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { formatNewDiagnostics } from "../../ts-morph/_utils/diagnostics";
+import { formatFileDiffs } from "../../ts-morph/_utils/file-diff";
+import { getProject } from "../../ts-morph/_utils/project-registry";
+import {
+	captureDiagnosticsBaseline,
+	findNewDiagnostics,
+} from "../../ts-morph/get-diagnostics/new-diagnostics";
+import { splitFile } from "../../ts-morph/split-file/split-file";
+import logger from "../../utils/logger";
+import { defaultExportHandlingNames } from "./register-move-symbol-to-file-tool";
+
+export function registerSplitFileTool(server: McpServer): void {
+	server.tool(
+		"split_file_by_tsmorph",
+		`[ts-morph] Split one file into several files in a single transaction, either by an explicit plan (target file -> symbols) or by a strategy such as one exported symbol per file. Imports in every referencing file are updated, as with \`move_symbol_to_file_by_tsmorph\`.
+
+## When to use
+- A module has grown too large and its symbols fall into a few cohesive groups.
+- Turning a grab-bag utility file into one file per exported function/class/type (\`strategy: "onePerExport"\`).
+
+## When NOT to use
+- Moving a few symbols into one existing file -> use \`move_symbol_to_file_by_tsmorph\` (it accepts several symbols).
+- Moving class members -> use \`move_member_by_tsmorph\`.
+
+## Critical constraints
+- Specify exactly one of \`groups\` or \`strategy\`. Each symbol may appear in only one group, names declared by one statement (\`const x = 1, y = 2;\`) must be in the same group, and no target may be the file itself.
+- Symbols exported by a separate statement (\`function a() {}\` + \`export { a };\`, or \`export default a;\`) are rejected; put \`export\` on the declaration first.
+- Private (non-exported) declarations used by a single group move with that group. Private declarations used by several groups are first moved to a shared module (\`sharedFilePath\`, default \`<file name>-shared.ts\` next to the file) and imported from there.
+- Symbols not listed in any group stay in the original file. Without \`keepBarrel\`, the original file is deleted when nothing (or only side-effect imports) is left in it.
+- Side-effect imports of the original file (\`import "./styles.css";\`) are copied to the top of every new file, including the shared module, with paths relative to that file.
+- \`onePerExport\` names each file after its symbol in kebab-case (\`parseUser\` -> \`parse-user.ts\`) in \`outputDirectory\` (default: the file's directory). A statement declaring several names (\`export const x = 1, y = 2;\`) moves as a whole into the file of its first name. Anonymous default exports stay in the original file.
+- Default exports require \`defaultExport\` (\`keepDefault\` or \`convertToNamed\`), as with \`move_symbol_to_file_by_tsmorph\`.
+- All paths MUST be absolute.
+
+## Tips
+- \`keepBarrel: true\` keeps the original file as \`export { ... } from "./new-file"\` re-exports, so code outside the project keeps working.
+- Run with \`dryRun: true\` and \`includeDiff: true\` first to review the new files.
+
+## Result
+Returns each target file with its symbols, the shared module (if one was needed), the removed original file, and the modified (or to-be-modified, in dryRun) file paths, plus status and processing time. With \`includeDiff: true\`, a unified diff per changed file is appended. With \`reportNewDiagnostics: true\`, the TypeScript diagnostics introduced by the refactor (in the changed files and their importers) are appended.`,
+		{
+			tsconfigPath: z
+				.string()
+				.describe("Absolute path to the project's tsconfig.json file."),
+			targetFilePath: z
+				.string()
+				.describe("Absolute path to the file to split."),
+			groups: z
+				.array(
+					z.object({
+						filePath: z
+							.string()
+							.describe(
+								"Absolute path of the target file (created if it does not exist).",
+							),
+						symbols: z
+							.array(z.string())
+							.min(1)
+							.describe("Names of the top-level symbols to move to this file."),
+					}),
+				)
+				.min(1)
+				.optional()
+				.describe(
+					"Explicit plan: which symbols go to which file. Mutually exclusive with strategy.",
+				),
+			strategy: z
+				.enum(["onePerExport"])
+				.optional()
+				.describe(
+					"Automatic plan. onePerExport: one file per exported top-level declaration. Mutually exclusive with groups.",
+				),
+			outputDirectory: z
+				.string()
+				.optional()
+				.describe(
+					"For strategy: absolute path of the directory for the new files. Defaults to the directory of the split file.",
+				),
+			sharedFilePath: z
+				.string()
+				.optional()
+				.describe(
+					"Absolute path of the module for private declarations used by several groups. Defaults to '<file name>-shared.ts' next to the split file.",
+				),
+			keepBarrel: z
+				.boolean()
+				.optional()
+				.default(false)
+				.describe(
+					"If true, keep the original file as a barrel re-exporting the moved exports.",
+				),
+			defaultExport: z
+				.enum(defaultExportHandlingNames)
+				.optional()
+				.describe(
+					"How to move a default-exported symbol: keepDefault keeps it the default export of its new file, convertToNamed turns it into a named export.",
+				),
+			dryRun: z
+				.boolean()
+				.optional()
+				.default(false)
+				.describe(
+					"If true, only show intended changes without modifying files.",
+				),
+			includeDiff: z
+				.boolean()
+				.optional()
+				.default(false)
+				.describe(
+					"If true, append a unified diff (on-disk text vs. rewritten text) for each changed file. Most useful together with dryRun.",
+				),
+			reportNewDiagnostics: z
+				.boolean()
+				.optional()
+				.default(false)
+				.describe(
+					"If true, type-check the changed files and the files importing them after the refactor and report only the TypeScript diagnostics it introduced.",
+				),
+		},
+		async (args) => {
+			const startTime = performance.now();
+			let message = "";
+			let isError = false;
+			let duration = "0.00";
+
+			const logArgs = {
+				targetFilePath: args.targetFilePath,
+				groups: args.groups,
+				strategy: args.strategy,
+				keepBarrel: args.keepBarrel,
+				dryRun: args.dryRun,
+			};
+
+			try {
+				const diagnosticsBaseline = args.reportNewDiagnostics
+					? captureDiagnosticsBaseline(getProject(args.tsconfigPath))
+					: undefined;
+				const result = await splitFile({
+					tsconfigPath: args.tsconfigPath,
+					targetFilePath: args.targetFilePath,
+					groups: args.groups,
+					strategy: args.strategy,
+					outputDirectory: args.outputDirectory,
+					sharedFilePath: args.sharedFilePath,
+					keepBarrel: args.keepBarrel,
+					defaultExport: args.defaultExport,
+					dryRun: args.dryRun,
+					includeDiff: args.includeDiff,
+				});
+
+				const verb = args.dryRun ? "would be" : "were";
+				const groupLines = result.groups
+					.map((group) => ` - ${group.filePath}: ${group.symbols.join(", ")}`)
+					.join("\n");
+				message = `${args.dryRun ? "Dry run complete" : "Split successful"}: ${args.targetFilePath} split into ${result.groups.length} file(s):\n${groupLines}`;
+				if (result.shared) {
+					message += `\nShared dependencies moved to ${result.shared.filePath}: ${result.shared.symbols.join(", ")}`;
+				}
+				if (result.removedFiles.length > 0) {
+					message += `\nThe following files ${verb} removed:\n - ${result.removedFiles.join("\n - ")}`;
+				}
+				message += `\nThe following files ${verb} modified:\n - ${result.changedFiles.join("\n - ")}`;
+				if (diagnosticsBaseline) {
+					message += `\n\n${formatNewDiagnostics(findNewDiagnostics(diagnosticsBaseline))}`;
+				}
+				if (result.diffs) {
+					message += `\n\nDiff:\n${formatFileDiffs(result.diffs)}`;
+				}
+			} catch (error) {
+				logger.error(
+					{ err: error, toolArgs: logArgs },
+					"Error executing split_file_by_tsmorph",
+				);
+				const errorMessage =
+					error instanceof Error ? error.message : String(error);
+				message = `Error during split: ${errorMessage}`;
+				isError = true;
+			} finally {
+				const endTime = performance.now();
+				duration = ((endTime - startTime) / 1000).toFixed(2);
+				logger.info(
+					{
+						status: isError ? "Failure" : "Success",
+						durationMs: Number.parseFloat((endTime - startTime).toFixed(2)),
+						...logArgs,
+					},
+					"split_file_by_tsmorph tool finished",
+				);
+				try {
+					logger.flush();
+				} catch (flushErr) {
+					console.error("Failed to flush logs:", flushErr);
+				}
+			}
+
+			const finalMessage = `${message}\nStatus: ${
+				isError ? "Failure" : "Success"
+			}\nProcessing time: ${duration} seconds`;
+
+			return {
+				content: [{ type: "text", text: finalMessage }],
+				isError,
+			};
+		},
+	);
+}
@@ -0,0 +1,92 @@
+import { performance } from "node:perf_hooks";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { undoLastRefactor } from "../../ts-morph/refactor-journal/undo-last-refactor";
+import logger from "../../utils/logger";
+
+export function registerUndoLastRefactorTool(server: McpServer): void {
+	server.tool(
+		"undo_last_refactor_by_tsmorph",
+		`[ts-morph] Revert the most recent write operation performed by this server's refactoring tools on the given project, using the journal recorded at save time.
+
+## When to use
+- A refactor (rename, move, member move, file split/merge, change signature, extract function, inline, file rename, path alias removal, code fixes, organize imports, barrel bypass/generation, unused export fixes, batch) produced an unwanted result and the working tree is not under clean git control.
+- Call repeatedly to step back through earlier operations (each call reverts one operation, newest first).
+
+## When NOT to use
+- The project is under git and you can simply \`git checkout\` / \`git stash\` the changes.
+- Reverting edits you made by hand -- only operations performed by these tools are journaled.
+
+## Critical constraints
+- Refuses (and changes nothing) if any file touched by the operation has been modified since, so manual follow-up edits are never silently lost.
+- Files created by the operation are deleted, moved files are moved back, and directories removed during cleanup are recreated.
+- The journal lives in \`MCP_TSMORPH_JOURNAL_DIR\` (defaults to a directory under the OS temp dir) and keeps the last 20 operations per tsconfig. Dry runs are not journaled.
+- \`tsconfigPath\` MUST be absolute and match the one used for the original operation.
+
+## Result
+Returns the reverted operation name and time, the restored and deleted file paths, plus status and processing time.`,
+		{
+			tsconfigPath: z
+				.string()
+				.describe("Absolute path to the project's tsconfig.json file."),
+		},
+		async (args) => {
+			const startTime = performance.now();
+			let message = "";
+			let isError = false;
+			let duration = "0.00";
+
+			try {
+				const result = undoLastRefactor(args.tsconfigPath);
+
+				const lines = [
+					`Undo successful: Reverted '${result.operation}' (recorded at ${result.createdAt}).`,
+				];
+				if (result.restoredFiles.length > 0) {
+					lines.push(
+						`Restored files:\n - ${result.restoredFiles.join("\n - ")}`,
+					);
+				}
+				if (result.deletedFiles.length > 0) {
+					lines.push(
+						`Deleted files (created by the operation):\n - ${result.deletedFiles.join("\n - ")}`,
+					);
+				}
+				message = lines.join("\n");
+			} catch (error) {
+				logger.error(
+					{ err: error, toolArgs: args },
+					"Error executing undo_last_refactor_by_tsmorph",
+				);
+				const errorMessage =
+					error instanceof Error ? error.message : String(error);
+				message = `Error during undo: ${errorMessage}`;
+				isError = true;
+			} finally {
+				const endTime = performance.now();
+				duration = ((endTime - startTime) / 1000).toFixed(2);
+				logger.info(
+					{
+						status: isError ? "Failure" : "Success",
+						durationMs: Number.parseFloat((endTime - startTime).toFixed(2)),
+					},
+					"undo_last_refactor_by_tsmorph tool finished",
+				);
+				try {
+					logger.flush();
+				} catch (flushErr) {
+					console.error("Failed to flush logs:", flushErr);
+				}
+			}
+
+			const finalMessage = `${message}\nStatus: ${
+				isError ? "Failure" : "Success"
+			}\nProcessing time: ${duration} seconds`;
+
+			return {
+				content: [{ type: "text", text: finalMessage }],
+				isError,
+			};
+		},
+	);
+}
@@ -1,13 +1,32 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 
+import { registerApplyCodeFixesTool } from "./register-apply-code-fixes-tool";
+import { registerAuditDependenciesTool } from "./register-audit-dependencies-tool";
+import { registerBatchRefactorTool } from "./register-batch-refactor-tool";
+import { registerBypassBarrelImportsTool } from "./register-bypass-barrel-imports-tool";
 import { registerChangeSignatureTool } from "./register-change-signature-tool";
+import { registerCheckLayerRulesTool } from "./register-check-layer-rules-tool";
+import { registerExtractFunctionTool } from "./register-extract-function-tool";
+import { registerFindCircularImportsTool } from "./register-find-circular-imports-tool";
 import { registerFindReferencesTool } from "./register-find-references-tool";
+import { registerFindUnreachableFilesTool } from "./register-find-unreachable-files-tool";
 import { registerFindUnusedExportsTool } from "./register-find-unused-exports-tool";
+import { registerFindUnusedMembersTool } from "./register-find-unused-members-tool";
+import { registerFixUnusedExportsTool } from "./register-fix-unused-exports-tool";
+import { registerGenerateBarrelTool } from "./register-generate-barrel-tool";
+import { registerGetDependencyGraphTool } from "./register-get-dependency-graph-tool";
+import { registerGetDiagnosticsTool } from "./register-get-diagnostics-tool";
 import { registerGetTypeAtPositionTool } from "./register-get-type-at-position-tool";
+import { registerInlineSymbolTool } from "./register-inline-symbol-tool";
+import { registerMergeFilesTool } from "./register-merge-files-tool";
+import { registerMoveMemberTool } from "./register-move-member-tool";
 import { registerMoveSymbolToFileTool } from "./register-move-symbol-to-file-tool";
+import { registerOrganizeImportsTool } from "./register-organize-imports-tool";
 import { registerRemovePathAliasTool } from "./register-remove-path-alias-tool";
 import { registerRenameFileSystemEntryTool } from "./register-rename-file-system-entry-tool";
 import { registerRenameSymbolTool } from "./register-rename-symbol-tool";
+import { registerSplitFileTool } from "./register-split-file-tool";
+import { registerUndoLastRefactorTool } from "./register-undo-last-refactor-tool";
 
 /**
  * ts-morph を利用したリファクタリングツール群を MCP サーバーに登録する
@@ -21,4 +40,23 @@ export function registerTsMorphTools(server: McpServer): void {
 	registerChangeSignatureTool(server);
 	registerGetTypeAtPositionTool(server);
 	registerFindUnusedExportsTool(server);
+	registerBatchRefactorTool(server);
+	registerUndoLastRefactorTool(server);
+	registerExtractFunctionTool(server);
+	registerInlineSymbolTool(server);
+	registerGetDiagnosticsTool(server);
+	registerApplyCodeFixesTool(server);
+	registerOrganizeImportsTool(server);
+	registerMoveMemberTool(server);
+	registerSplitFileTool(server);
+	registerMergeFilesTool(server);
+	registerBypassBarrelImportsTool(server);
+	registerGenerateBarrelTool(server);
+	registerFindCircularImportsTool(server);
+	registerGetDependencyGraphTool(server);
+	registerCheckLayerRulesTool(server);
+	registerFixUnusedExportsTool(server);
+	registerFindUnusedMembersTool(server);
+	registerFindUnreachableFilesTool(server);
+	registerAuditDependenciesTool(server);
 }
@@ -0,0 +1,72 @@
+import { Node, type SourceFile } from "ts-morph";
+
+/** ソースファイル上の範囲 [start, end) を text に置き換える編集 */
+export interface TextEdit {
+	start: number;
+	end: number;
+	text: string;
+}
+
+/**
+ * ソースファイルの [start, end) のテキストを、開始位置の行のインデントを取り除いた形で取り出す。
+ * 文を別の場所 (新しい関数の本文や呼び出し元) へ移すときに、移動先のインデントに揃えるために使う。
+ *
+ * - テンプレートリテラル内の改行の後ろは文字列の一部なので字下げを変えない
+ * - edits で指定した範囲 (元のファイル上の位置) は置き換える
+ */
+export function getDedentedText(
+	sourceFile: SourceFile,
+	start: number,
+	end: number,
+	edits: readonly TextEdit[] = [],
+): string {
+	const fullText = sourceFile.getFullText();
+	const lineStart = fullText.lastIndexOf("\n", start - 1) + 1;
+	const indentation =
+		/^[ \t]*/.exec(fullText.slice(lineStart, start))?.[0] ?? "";
+
+	const literalRanges = sourceFile
+		.getDescendants()
+		.filter(
+			(n) =>
+				n.getEnd() > start &&
+				n.getStart() < end &&
+				(Node.isNoSubstitutionTemplateLiteral(n) ||
+					Node.isTemplateHead(n) ||
+					Node.isTemplateMiddle(n) ||
+					Node.isTemplateTail(n)),
+		)
+		.map((n) => [n.getStart(), n.getEnd()] as const);
+	const isInsideLiteral = (pos: number) =>
+		literalRanges.some(([litStart, litEnd]) => pos > litStart && pos < litEnd);
+
+	const allEdits: TextEdit[] = [...edits];
+	if (indentation.length > 0) {
+		for (
+			let pos = fullText.indexOf("\n", start);
+			pos !== -1 && pos < end;
+			pos = fullText.indexOf("\n", pos + 1)
+		) {
+			const next = pos + 1;
+			if (
+				!isInsideLiteral(next) &&
+				fullText.startsWith(indentation, next) &&
+				next + indentation.length <= end
+			) {
+				allEdits.push({
+					start: next,
+					end: next + indentation.length,
+					text: "",
+				});
+			}
+		}
+	}
+
+	let result = "";
+	let cursor = start;
+	for (const edit of allEdits.sort((a, b) => a.start - b.start)) {
+		result += fullText.slice(cursor, edit.start) + edit.text;
+		cursor = edit.end;
+	}
+	return result + fullText.slice(cursor, end);
+}
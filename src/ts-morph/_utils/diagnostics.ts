@@ -0,0 +1,120 @@
+import { type Diagnostic, type SourceFile, ts } from "ts-morph";
+
+export type DiagnosticCategoryName =
+	| "error"
+	| "warning"
+	| "suggestion"
+	| "message";
+
+/** 位置情報付きの型エラーなどの診断結果 */
+export interface DiagnosticInfo {
+	filePath: string;
+	/** 1-based */
+	line: number;
+	/** 1-based */
+	column: number;
+	/** TypeScript のエラーコード (例: 2345) */
+	code: number;
+	category: DiagnosticCategoryName;
+	/** メッセージチェーンを改行で連結したメッセージ */
+	message: string;
+}
+
+function toCategoryName(
+	category: ts.DiagnosticCategory,
+): DiagnosticCategoryName {
+	switch (category) {
+		case ts.DiagnosticCategory.Error:
+			return "error";
+		case ts.DiagnosticCategory.Warning:
+			return "warning";
+		case ts.DiagnosticCategory.Suggestion:
+			return "suggestion";
+		default:
+			return "message";
+	}
+}
+
+/**
+ * コンパイラの Diagnostic を DiagnosticInfo に変換する。
+ * ファイルや位置を持たない診断 (tsconfig のエラーなど) は undefined。
+ */
+export function fromCompilerDiagnostic(
+	diagnostic: ts.Diagnostic,
+): DiagnosticInfo | undefined {
+	const { file, start } = diagnostic;
+	if (!file || start === undefined) {
+		return undefined;
+	}
+	const { line, character } = file.getLineAndCharacterOfPosition(start);
+	return {
+		filePath: file.fileName,
+		line: line + 1,
+		column: character + 1,
+		code: diagnostic.code,
+		category: toCategoryName(diagnostic.category),
+		message: ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n"),
+	};
+}
+
+/**
+ * ts-morph の Diagnostic を DiagnosticInfo に変換する。
+ */
+export function toDiagnosticInfo(
+	diagnostic: Diagnostic,
+): DiagnosticInfo | undefined {
+	return fromCompilerDiagnostic(diagnostic.compilerObject);
+}
+
+/**
+ * ソースファイルの診断 (構文・型チェック) のうち、カテゴリが Error のものを返す。
+ */
+export function getErrorDiagnostics(sourceFile: SourceFile): Diagnostic[] {
+	return sourceFile
+		.getPreEmitDiagnostics()
+		.filter(
+			(diagnostic) => diagnostic.getCategory() === ts.DiagnosticCategory.Error,
+		);
+}
+
+/**
+ * 診断の位置が [start, end] の範囲と重なるか。
+ */
+export function isDiagnosticInRange(
+	diagnostic: Diagnostic,
+	start: number,
+	end: number,
+): boolean {
+	const diagnosticStart = diagnostic.getStart();
+	if (diagnosticStart === undefined) {
+		return false;
+	}
+	const diagnosticEnd = diagnosticStart + (diagnostic.getLength() ?? 0);
+	return diagnosticStart <= end && diagnosticEnd >= start;
+}
+
+/**
+ * DiagnosticInfo を tsc と同じ `path:line:column - error TS1234: message` 形式の行に整形する。
+ */
+export function formatDiagnosticInfos(
+	diagnostics: readonly DiagnosticInfo[],
+): string {
+	return diagnostics
+		.map(
+			(d) =>
+				`${d.filePath}:${d.line}:${d.column} - ${d.category} TS${d.code}: ${d.message.replace(/\n/g, "\n    ")}`,
+		)
+		.join("\n");
+}
+
+/**
+ * write 系ツールの reportNewDiagnostics 用に、リファクタリングで新しく出た診断の一覧を整形する。
+ */
+export function formatNewDiagnostics(
+	diagnostics: readonly DiagnosticInfo[],
+): string {
+	if (diagnostics.length === 0) {
+		return "New diagnostics: none (the refactor introduced no new TypeScript diagnostics in the changed files or their importers).";
+	}
+	return `New diagnostics introduced by this refactor (${diagnostics.length}):\n${formatDiagnosticInfos(diagnostics)}`;
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { createInMemoryProject } from "../_test-utils/create-in-memory-project";
+import { collectFileDiffs, formatFileDiffs } from "./file-diff";
+
+describe("collectFileDiffs", () => {
+	it("未保存の変更をディスク上の内容と比較した差分を返す", () => {
+		const project = createInMemoryProject();
+		const sourceFile = project.createSourceFile(
+			"/src/a.ts",
+			"export const a = 1;\n",
+		);
+		project.saveSync();
+
+		sourceFile.getVariableDeclarationOrThrow("a").rename("renamed");
+
+		expect(collectFileDiffs(project)).toEqual([
+			{
+				filePath: "/src/a.ts",
+				diff: [
+					"--- /src/a.ts",
+					"+++ /src/a.ts",
+					"@@ -1,1 +1,1 @@",
+					"-export const a = 1;",
+					"+export const renamed = 1;",
+					"",
+				].join("\n"),
+			},
+		]);
+	});
+
+	it("ディスクに存在しないファイルは新規ファイルとして扱う", () => {
+		const project = createInMemoryProject();
+		project.createSourceFile("/src/new.ts", "export {};\n");
+
+		const [fileDiff] = collectFileDiffs(project);
+		expect(fileDiff.diff.split("\n").slice(0, 3)).toEqual([
+			"--- /dev/null",
+			"+++ /src/new.ts",
+			"@@ -0,0 +1,1 @@",
+		]);
+	});
+
+	it("変更が無ければ空配列を返す", () => {
+		const project = createInMemoryProject();
+		project.createSourceFile("/src/a.ts", "export const a = 1;\n");
+		project.saveSync();
+
+		expect(collectFileDiffs(project)).toEqual([]);
+		expect(formatFileDiffs([])).toBe("(No diff)");
+	});
+});
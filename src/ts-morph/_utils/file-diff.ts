@@ -0,0 +1,73 @@
+import type { Project, SourceFile } from "ts-morph";
+import { getChangedFiles } from "./ts-morph-project";
+import { createUnifiedDiff } from "./unified-diff";
+
+export interface FileDiff {
+	filePath: string;
+	/** unified diff 形式の差分 (ヘッダー込み) */
+	diff: string;
+}
+
+/**
+ * 未保存の SourceFile について、ディスク上の内容と in-memory の内容の差分を返す。
+ * `saveProjectChanges` の前に呼ぶことで、dryRun でも実際に書き込まれる内容を確認できる。
+ * ディスクに存在しないファイル (新規作成) は `/dev/null` からの差分になる。
+ *
+ * `sourceFiles` を省略した場合は `getChangedFiles(project)` を対象にする。
+ */
+export function collectFileDiffs(
+	project: Project,
+	sourceFiles: readonly SourceFile[] = getChangedFiles(project),
+): FileDiff[] {
+	const fileSystem = project.getFileSystem();
+	const diffs: FileDiff[] = [];
+
+	for (const sourceFile of sourceFiles) {
+		const filePath = sourceFile.getFilePath();
+		const existsOnDisk = fileSystem.fileExistsSync(filePath);
+		const diff = createUnifiedDiff(
+			existsOnDisk ? fileSystem.readFileSync(filePath) : "",
+			sourceFile.getFullText(),
+			{ oldPath: existsOnDisk ? filePath : undefined, newPath: filePath },
+		);
+		if (diff !== "") {
+			diffs.push({ filePath, diff });
+		}
+	}
+	return diffs;
+}
+
+/**
+ * ファイル移動などで Project から外れた (保存時にディスクから消える) ファイルについて、
+ * ディスク上の内容を全削除する差分を返す。ディスクに存在しないパスは無視する。
+ */
+export function collectRemovedFileDiffs(
+	project: Project,
+	filePaths: readonly string[],
+): FileDiff[] {
+	const fileSystem = project.getFileSystem();
+	const diffs: FileDiff[] = [];
+
+	for (const filePath of filePaths) {
+		if (!fileSystem.fileExistsSync(filePath)) {
+			continue;
+		}
+		const diff = createUnifiedDiff(fileSystem.readFileSync(filePath), "", {
+			oldPath: filePath,
+		});
+		if (diff !== "") {
+			diffs.push({ filePath, diff });
+		}
+	}
+	return diffs;
+}
+
+/**
+ * ツールの応答に埋め込むため、複数ファイルの差分を 1 つのテキストにまとめる。
+ */
+export function formatFileDiffs(diffs: readonly FileDiff[]): string {
+	if (diffs.length === 0) {
+		return "(No diff)";
+	}
+	return diffs.map((d) => d.diff.trimEnd()).join("\n");
+}
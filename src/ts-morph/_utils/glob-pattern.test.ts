@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { globToRegExp } from "./glob-pattern";
+
+describe("globToRegExp", () => {
+	it("* はパス区切りをまたがない", () => {
+		const regExp = globToRegExp("src/*.ts");
+		expect(regExp.test("src/a.ts")).toBe(true);
+		expect(regExp.test("src/lib/a.ts")).toBe(false);
+	});
+
+	it("** は 0 個以上のセグメントに一致する", () => {
+		const regExp = globToRegExp("src/domain/**");
+		expect(regExp.test("src/domain/user.ts")).toBe(true);
+		expect(regExp.test("src/domain/model/user.ts")).toBe(true);
+		expect(regExp.test("src/infra/db.ts")).toBe(false);
+
+		const nested = globToRegExp("src/**/index.ts");
+		expect(nested.test("src/index.ts")).toBe(true);
+		expect(nested.test("src/features/auth/index.ts")).toBe(true);
+	});
+
+	it("{a,b} はいずれかに一致し、. は文字として扱う", () => {
+		const regExp = globToRegExp("src/{domain,app}/*.ts");
+		expect(regExp.test("src/domain/a.ts")).toBe(true);
+		expect(regExp.test("src/app/a.ts")).toBe(true);
+		expect(regExp.test("src/infra/a.ts")).toBe(false);
+		expect(regExp.test("src/app/aXts")).toBe(false);
+	});
+});
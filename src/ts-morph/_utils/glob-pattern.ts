@@ -0,0 +1,41 @@
+/**
+ * glob パターンを、POSIX 形式の相対パス全体に一致する正規表現に変換する。
+ *
+ * - `**` はパス区切りをまたいで 0 個以上のセグメントに一致 (`a/**\/b` は `a/b` にも一致)
+ * - `*` と `?` はパス区切りをまたがない
+ * - `{a,b}` はいずれかに一致
+ */
+export function globToRegExp(pattern: string): RegExp {
+	let source = "";
+	let braceDepth = 0;
+	for (let i = 0; i < pattern.length; i++) {
+		const char = pattern[i];
+		if (char === "*") {
+			if (pattern[i + 1] === "*") {
+				const atSegmentStart = i === 0 || pattern[i - 1] === "/";
+				i++;
+				if (atSegmentStart && pattern[i + 1] === "/") {
+					i++;
+					source += "(?:.*/)?";
+				} else {
+					source += ".*";
+				}
+			} else {
+				source += "[^/]*";
+			}
+		} else if (char === "?") {
+			source += "[^/]";
+		} else if (char === "{") {
+			braceDepth++;
+			source += "(?:";
+		} else if (char === "}" && braceDepth > 0) {
+			braceDepth--;
+			source += ")";
+		} else if (char === "," && braceDepth > 0) {
+			source += "|";
+		} else {
+			source += char.replace(/[.+^$()|[\]\\]/g, "\\$&");
+		}
+	}
+	return new RegExp(`^${source}$`);
+}
@@ -0,0 +1,49 @@
+import { IndentationText } from "ts-morph";
+import { describe, expect, it } from "vitest";
+import { createInMemoryProject } from "../_test-utils/create-in-memory-project";
+import { detectIndentationText, withFileIndentation } from "./indentation";
+
+function createFile(text: string) {
+	return createInMemoryProject({
+		manipulationSettings: { indentationText: IndentationText.FourSpaces },
+	}).createSourceFile("/src/a.ts", text);
+}
+
+describe("detectIndentationText", () => {
+	it("最も浅いスペースの字下げを字下げ幅とみなし、JSDoc の継続行は数えない", () => {
+		const file = createFile(`/**
+ * doc
+ */
+function f() {
+  if (x) {
+    return 1;
+  }
+}
+`);
+		expect(detectIndentationText(file)).toBe(IndentationText.TwoSpaces);
+	});
+
+	it("タブで字下げした行があればタブ、字下げされた行がなければ undefined を返す", () => {
+		expect(
+			detectIndentationText(createFile("function f() {\n\treturn 1;\n}\n")),
+		).toBe(IndentationText.Tab);
+		expect(detectIndentationText(createFile("const a = 1;\n"))).toBeUndefined();
+	});
+});
+
+describe("withFileIndentation", () => {
+	it("ファイルの字下げ幅で挿入し、終わったら manipulationSettings を元に戻す", () => {
+		const file = createFile("function f() {\n  return 1;\n}\n");
+
+		withFileIndentation(file, () =>
+			file.addFunction({ name: "g", statements: "return 2;" }),
+		);
+
+		expect(file.getFullText()).toBe(
+			"function f() {\n  return 1;\n}\n\nfunction g() {\n  return 2;\n}\n",
+		);
+		expect(file.getProject().manipulationSettings.getIndentationText()).toBe(
+			IndentationText.FourSpaces,
+		);
+	});
+});
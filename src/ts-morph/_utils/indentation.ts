@@ -0,0 +1,54 @@
+import { IndentationText, type SourceFile } from "ts-morph";
+
+/**
+ * ファイルの字下げ幅を行頭の空白から推定する。
+ * タブで字下げした行があればタブ、なければ最も浅いスペースの字下げ (2 / 4 / 8) とみなす。
+ * 字下げされた行がなければ undefined。
+ *
+ * JSDoc の継続行 (` * ...`) は 1 スペースで始まるため数えない。
+ */
+export function detectIndentationText(
+	sourceFile: SourceFile,
+): IndentationText | undefined {
+	let minSpaces: number | undefined;
+	for (const line of sourceFile.getFullText().split("\n")) {
+		const indentation = /^[ \t]*/.exec(line)?.[0] ?? "";
+		const rest = line.slice(indentation.length);
+		if (indentation.length === 0 || rest.length === 0 || rest[0] === "*") {
+			continue;
+		}
+		if (indentation.startsWith("\t")) {
+			return IndentationText.Tab;
+		}
+		minSpaces = Math.min(minSpaces ?? indentation.length, indentation.length);
+	}
+	switch (minSpaces) {
+		case undefined:
+			return undefined;
+		case 2:
+			return IndentationText.TwoSpaces;
+		case 8:
+			return IndentationText.EightSpaces;
+		default:
+			return IndentationText.FourSpaces;
+	}
+}
+
+/**
+ * sourceFile の字下げ幅を manipulationSettings に一時的に設定して fn を実行する。
+ * ts-morph が挿入するコード (addMember や insertFunction など) をファイル自身の字下げに揃えるために使う。
+ */
+export function withFileIndentation<T>(sourceFile: SourceFile, fn: () => T): T {
+	const indentationText = detectIndentationText(sourceFile);
+	const settings = sourceFile.getProject().manipulationSettings;
+	const original = settings.getIndentationText();
+	if (indentationText === undefined || indentationText === original) {
+		return fn();
+	}
+	settings.set({ indentationText });
+	try {
+		return fn();
+	} finally {
+		settings.set({ indentationText: original });
+	}
+}
@@ -0,0 +1,183 @@
+import * as path from "node:path";
+import {
+	type ExportDeclaration,
+	type ImportDeclaration,
+	Node,
+	type Project,
+	type Symbol as TsMorphSymbol,
+} from "ts-morph";
+import { isPathAlias } from "./path-alias";
+import { getTsConfigAliasKeys } from "./ts-morph-project";
+
+/** ファイル間の依存 1 つ (同じファイル間の複数の import/export はまとめる) */
+export interface ModuleGraphEdge {
+	/** import / export している側のファイル */
+	from: string;
+	/** 依存先のファイル */
+	to: string;
+	/** 最初の import / export 宣言の 1-based 行番号 */
+	line: number;
+	/** 最初の import / export 宣言のモジュール指定子 */
+	moduleSpecifier: string;
+	/** すべての宣言が型だけの依存か (実行時には消える) */
+	isTypeOnly: boolean;
+	/**
+	 * import / export している名前の数 (すべての宣言の合計)。
+	 * namespace import は 1、`export *` は依存先が export している名前の数、副作用のための import は 0
+	 */
+	symbolCount: number;
+	/** いずれかの宣言のモジュール指定子が tsconfig の paths のエイリアスか */
+	usesPathAlias: boolean;
+}
+
+export interface ModuleGraph {
+	/** グラフに含めたファイル (パス順) */
+	files: string[];
+	/** ファイルごとの依存 (宣言の順) */
+	edges: Map<string, ModuleGraphEdge[]>;
+}
+
+export interface ModuleGraphOptions {
+	/** true の場合、型だけの import / export を依存に含めない */
+	ignoreTypeOnlyImports?: boolean;
+	/** 部分文字列のいずれかを filePath に含むファイルはグラフから除外 */
+	excludeFilePatterns?: string[];
+	/** 指定した場合、このディレクトリ配下のファイルだけをグラフに含める */
+	directory?: string;
+}
+
+function isTypeOnlySymbol(symbol: TsMorphSymbol | undefined): boolean {
+	const target = symbol?.isAlias() ? symbol.getAliasedSymbol() : symbol;
+	const declarations = target?.getDeclarations() ?? [];
+	return (
+		declarations.length > 0 &&
+		declarations.every(
+			(declaration) =>
+				Node.isInterfaceDeclaration(declaration) ||
+				Node.isTypeAliasDeclaration(declaration),
+		)
+	);
+}
+
+/**
+ * import / export 宣言が型だけの依存か。
+ * `import type` / `export type` / すべての指定子に `type` が付いたもののほか、
+ * 型 (interface / type alias) しか import していない宣言も、TypeScript が出力時に取り除くため型だけとみなす。
+ */
+export function isTypeOnlyDeclaration(
+	declaration: ImportDeclaration | ExportDeclaration,
+): boolean {
+	if (declaration.isTypeOnly()) {
+		return true;
+	}
+	if (Node.isExportDeclaration(declaration)) {
+		const namedExports = declaration.getNamedExports();
+		return (
+			!declaration.isNamespaceExport() &&
+			namedExports.length > 0 &&
+			namedExports.every((specifier) => specifier.isTypeOnly())
+		);
+	}
+	const importClause = declaration.getImportClause();
+	if (!importClause || declaration.getNamespaceImport()) {
+		return false;
+	}
+	const defaultImport = declaration.getDefaultImport();
+	const namedImports = declaration.getNamedImports();
+	if (!defaultImport && namedImports.length === 0) {
+		return false;
+	}
+	return (
+		(!defaultImport || isTypeOnlySymbol(defaultImport.getSymbol())) &&
+		namedImports.every(
+			(specifier) =>
+				specifier.isTypeOnly() ||
+				isTypeOnlySymbol(specifier.getNameNode().getSymbol()),
+		)
+	);
+}
+
+function countSymbols(
+	declaration: ImportDeclaration | ExportDeclaration,
+): number {
+	if (Node.isExportDeclaration(declaration)) {
+		if (declaration.isNamespaceExport()) {
+			return declaration.getNamespaceExport()
+				? 1
+				: (declaration.getModuleSpecifierSourceFile()?.getExportSymbols()
+						.length ?? 0);
+		}
+		return declaration.getNamedExports().length;
+	}
+	return (
+		(declaration.getDefaultImport() ? 1 : 0) +
+		(declaration.getNamespaceImport() ? 1 : 0) +
+		declaration.getNamedImports().length
+	);
+}
+
+/**
+ * プロジェクトのファイル間の依存グラフを作る。
+ * すべての ImportDeclaration / ExportDeclaration を `getModuleSpecifierSourceFile()` で解決し、
+ * プロジェクト内のファイル (node_modules と .d.ts を除く) への依存を辺とする。
+ * 動的 `import()` と `require()` は含めない。
+ */
+export function buildModuleGraph(
+	project: Project,
+	options: ModuleGraphOptions = {},
+): ModuleGraph {
+	const excludePatterns = options.excludeFilePatterns ?? [];
+	const directoryPrefix =
+		options.directory !== undefined
+			? path.resolve(options.directory) + path.sep
+			: undefined;
+	const aliasKeys = getTsConfigAliasKeys(project);
+	const sourceFiles = project
+		.getSourceFiles()
+		.filter((sf) => {
+			if (sf.isInNodeModules()) return false;
+			if (sf.isDeclarationFile()) return false;
+			const fp = sf.getFilePath();
+			if (directoryPrefix && !fp.startsWith(directoryPrefix)) return false;
+			return !excludePatterns.some((p) => fp.includes(p));
+		})
+		.sort((a, b) => a.getFilePath().localeCompare(b.getFilePath()));
+	const files = new Set(sourceFiles.map((sf) => sf.getFilePath()));
+
+	const edges = new Map<string, ModuleGraphEdge[]>();
+	for (const sourceFile of sourceFiles) {
+		const from = sourceFile.getFilePath();
+		const edgesByTarget = new Map<string, ModuleGraphEdge>();
+		const declarations = [
+			...sourceFile.getImportDeclarations(),
+			...sourceFile.getExportDeclarations(),
+		].sort((a, b) => a.getStart() - b.getStart());
+		for (const declaration of declarations) {
+			const to = declaration.getModuleSpecifierSourceFile()?.getFilePath();
+			if (!to || !files.has(to)) continue;
+			const isTypeOnly = isTypeOnlyDeclaration(declaration);
+			if (isTypeOnly && options.ignoreTypeOnlyImports) continue;
+			const moduleSpecifier = declaration.getModuleSpecifierValue() ?? "";
+			const symbolCount = countSymbols(declaration);
+			const usesPathAlias = isPathAlias(moduleSpecifier, aliasKeys);
+			const existing = edgesByTarget.get(to);
+			if (existing) {
+				existing.isTypeOnly &&= isTypeOnly;
+				existing.symbolCount += symbolCount;
+				existing.usesPathAlias ||= usesPathAlias;
+				continue;
+			}
+			edgesByTarget.set(to, {
+				from,
+				to,
+				line: declaration.getStartLineNumber(),
+				moduleSpecifier,
+				isTypeOnly,
+				symbolCount,
+				usesPathAlias,
+			});
+		}
+		edges.set(from, [...edgesByTarget.values()]);
+	}
+	return { files: [...files], edges };
+}
@@ -0,0 +1,108 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { getProject, invalidateProject } from "./project-registry";
+
+vi.mock("../../utils/logger");
+
+describe("getProject", () => {
+	let tempDir: string;
+	let tsconfigPath: string;
+	let writeCount = 1;
+
+	beforeEach(() => {
+		tempDir = fs.realpathSync(
+			fs.mkdtempSync(path.join(os.tmpdir(), "project-registry-test-")),
+		);
+		tsconfigPath = path.join(tempDir, "tsconfig.json");
+		writeTsConfig();
+		writeFile("src/a.ts", "export const a = 1;\n");
+	});
+
+	afterEach(() => {
+		invalidateProject();
+		fs.rmSync(tempDir, { recursive: true, force: true });
+	});
+
+	function writeTsConfig(extra: Record<string, unknown> = {}) {
+		fs.writeFileSync(
+			tsconfigPath,
+			JSON.stringify({
+				compilerOptions: { target: "ES2020", module: "ESNext", ...extra },
+				include: ["src/**/*.ts"],
+			}),
+		);
+	}
+
+	function writeFile(relativePath: string, content: string) {
+		const filePath = path.join(tempDir, relativePath);
+		fs.mkdirSync(path.dirname(filePath), { recursive: true });
+		fs.writeFileSync(filePath, content);
+		// mtime の分解能に依存しないよう、書き込みごとに mtime を進める
+		const future = new Date(Date.now() + writeCount++ * 1000);
+		fs.utimesSync(filePath, future, future);
+	}
+
+	it("同じ tsconfig に対しては同じ Project を再利用する", () => {
+		const first = getProject(tsconfigPath);
+		const second = getProject(tsconfigPath);
+		expect(second).toBe(first);
+	});
+
+	it("ディスク上で変更されたファイルを取り込む", () => {
+		const project = getProject(tsconfigPath);
+		writeFile("src/a.ts", "export const a = 2;\n");
+
+		const reused = getProject(tsconfigPath);
+		expect(reused).toBe(project);
+		expect(
+			reused.getSourceFileOrThrow(path.join(tempDir, "src/a.ts")).getFullText(),
+		).toBe("export const a = 2;\n");
+	});
+
+	it("追加・削除されたファイルを反映する", () => {
+		getProject(tsconfigPath);
+		writeFile("src/b.ts", "export const b = 1;\n");
+		fs.rmSync(path.join(tempDir, "src/a.ts"));
+
+		const project = getProject(tsconfigPath);
+		const filePaths = project.getSourceFiles().map((sf) => sf.getFilePath());
+		expect(filePaths).toEqual([path.join(tempDir, "src/b.ts")]);
+	});
+
+	it("未保存の変更が残っている場合は Project を作り直す", () => {
+		const project = getProject(tsconfigPath);
+		project
+			.getSourceFileOrThrow(path.join(tempDir, "src/a.ts"))
+			.replaceWithText("export const changed = 1;\n");
+
+		const rebuilt = getProject(tsconfigPath);
+		expect(rebuilt).not.toBe(project);
+		expect(
+			rebuilt
+				.getSourceFileOrThrow(path.join(tempDir, "src/a.ts"))
+				.getFullText(),
+		).toBe("export const a = 1;\n");
+	});
+
+	it("未保存の削除が残っている場合は Project を作り直す", () => {
+		const project = getProject(tsconfigPath);
+		project.getSourceFileOrThrow(path.join(tempDir, "src/a.ts")).delete();
+
+		const rebuilt = getProject(tsconfigPath);
+		expect(rebuilt).not.toBe(project);
+		expect(rebuilt.getSourceFile(path.join(tempDir, "src/a.ts"))).toBeDefined();
+	});
+
+	it("tsconfig が更新された場合は Project を作り直す", () => {
+		const project = getProject(tsconfigPath);
+		writeTsConfig({ strict: true });
+		const future = new Date(Date.now() + 60_000);
+		fs.utimesSync(tsconfigPath, future, future);
+
+		const rebuilt = getProject(tsconfigPath);
+		expect(rebuilt).not.toBe(project);
+		expect(rebuilt.compilerOptions.get().strict).toBe(true);
+	});
+});
@@ -0,0 +1,153 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { Project } from "ts-morph";
+import logger from "../../utils/logger";
+import { initializeProject } from "./ts-morph-project";
+
+interface RegistryEntry {
+	project: Project;
+	tsconfigMtimeMs: number;
+	/** 前回同期時点の SourceFile ごとのディスク状態 (絶対パス → stat) */
+	fileStats: Map<string, FileStat>;
+}
+
+interface FileStat {
+	mtimeMs: number;
+	size: number;
+}
+
+/**
+ * MCP サーバープロセス内で tsconfig ごとに Project を使い回すためのレジストリ。
+ *
+ * 大規模リポジトリでは `new Project()` による全ファイルの再パースに数十秒かかるため、
+ * 一度構築した Project を保持し、次回取得時はディスクとの差分 (mtime / size) だけを
+ * `refreshFromFileSystemSync()` で取り込む。
+ *
+ * 次の場合は差分更新では安全に元へ戻せないため、Project を作り直す:
+ *  - tsconfig 自体が更新された (include / paths などが変わり得る)
+ *  - 未保存の SourceFile が残っている (dryRun や途中で失敗した操作の名残。
+ *    move などはファイルシステム操作をキューに積んだままなので、次の save で
+ *    意図せず実行されるのを防ぐ)
+ *  - 前回把握していたファイルが Project から消えているのにディスクには残っている
+ *    (未保存の削除操作の名残)
+ */
+const registry = new Map<string, RegistryEntry>();
+
+/**
+ * tsconfig に対応する Project を返す。
+ * キャッシュがあればディスクとの差分を取り込んだ上で再利用し、無ければ新規に構築する。
+ */
+export function getProject(tsconfigPath: string): Project {
+	const absoluteTsconfigPath = path.resolve(tsconfigPath);
+	const tsconfigMtimeMs = fs.statSync(absoluteTsconfigPath).mtimeMs;
+	const cached = registry.get(absoluteTsconfigPath);
+
+	if (cached && cached.tsconfigMtimeMs === tsconfigMtimeMs) {
+		if (refreshProject(cached)) {
+			return cached.project;
+		}
+		logger.debug(
+			{ tsconfigPath: absoluteTsconfigPath },
+			"Cached project has pending in-memory changes; rebuilding",
+		);
+	}
+
+	const project = initializeProject(absoluteTsconfigPath);
+	registry.set(absoluteTsconfigPath, {
+		project,
+		tsconfigMtimeMs,
+		fileStats: collectFileStats(project),
+	});
+	return project;
+}
+
+/**
+ * 指定した tsconfig のキャッシュを破棄する。引数を省略した場合はすべて破棄する。
+ */
+export function invalidateProject(tsconfigPath?: string): void {
+	if (tsconfigPath === undefined) {
+		registry.clear();
+		return;
+	}
+	registry.delete(path.resolve(tsconfigPath));
+}
+
+/**
+ * キャッシュ済み Project にディスク上の変更を取り込む。
+ * 差分更新では整合性を保てない状態なら false を返す (呼び出し側で作り直す)。
+ */
+function refreshProject(entry: RegistryEntry): boolean {
+	const { project } = entry;
+	const sourceFiles = project.getSourceFiles();
+
+	if (sourceFiles.some((sf) => !sf.isSaved())) {
+		return false;
+	}
+
+	const currentPaths = new Set<string>(
+		sourceFiles.map((sf) => sf.getFilePath()),
+	);
+	for (const knownPath of entry.fileStats.keys()) {
+		if (!currentPaths.has(knownPath) && fs.existsSync(knownPath)) {
+			return false;
+		}
+	}
+
+	let refreshedCount = 0;
+	let removedCount = 0;
+	for (const sourceFile of sourceFiles) {
+		const filePath = sourceFile.getFilePath();
+		const stat = statFile(filePath);
+		if (!stat) {
+			project.removeSourceFile(sourceFile);
+			removedCount++;
+			continue;
+		}
+		const known = entry.fileStats.get(filePath);
+		if (known && known.mtimeMs === stat.mtimeMs && known.size === stat.size) {
+			continue;
+		}
+		sourceFile.refreshFromFileSystemSync();
+		refreshedCount++;
+	}
+
+	// tsconfig の include に新しく現れたファイルを取り込む (既存ファイルはそのまま)
+	const fileCountBeforeAdd = project.getSourceFiles().length;
+	const configFilePath = project.compilerOptions.get().configFilePath;
+	if (typeof configFilePath === "string") {
+		project.addSourceFilesFromTsConfig(configFilePath);
+	}
+	const addedCount = project.getSourceFiles().length - fileCountBeforeAdd;
+
+	entry.fileStats = collectFileStats(project);
+	logger.debug(
+		{
+			refreshed: refreshedCount,
+			removed: removedCount,
+			added: addedCount,
+		},
+		"Refreshed cached project from file system",
+	);
+	return true;
+}
+
+function collectFileStats(project: Project): Map<string, FileStat> {
+	const stats = new Map<string, FileStat>();
+	for (const sourceFile of project.getSourceFiles()) {
+		const filePath = sourceFile.getFilePath();
+		const stat = statFile(filePath);
+		if (stat) {
+			stats.set(filePath, stat);
+		}
+	}
+	return stats;
+}
+
+function statFile(filePath: string): FileStat | undefined {
+	try {
+		const stat = fs.statSync(filePath);
+		return { mtimeMs: stat.mtimeMs, size: stat.size };
+	} catch {
+		return undefined;
+	}
+}
@@ -0,0 +1,47 @@
+import * as path from "node:path";
+import type { Project, SourceFile } from "ts-morph";
+
+export interface SourceFileSelection {
+	/** 対象ファイルの絶対パス */
+	filePaths?: string[];
+	/** 対象ディレクトリの絶対パス。配下のファイル (node_modules を除く) を対象にする */
+	directory?: string;
+}
+
+/**
+ * filePaths と directory で指定されたソースファイルを選ぶ。両方指定した場合は和集合。
+ * どちらも指定しない場合は、node_modules 以外のプロジェクト全体。
+ */
+export function selectSourceFiles(
+	project: Project,
+	{ filePaths, directory }: SourceFileSelection,
+): SourceFile[] {
+	const selected = new Set<SourceFile>();
+	for (const filePath of filePaths ?? []) {
+		const sourceFile = project.getSourceFile(filePath);
+		if (!sourceFile) {
+			throw new Error(`ファイルがプロジェクトに含まれていません: ${filePath}`);
+		}
+		selected.add(sourceFile);
+	}
+	if (directory !== undefined) {
+		const prefix = path.resolve(directory) + path.sep;
+		const inDirectory = project
+			.getSourceFiles()
+			.filter(
+				(sf) => sf.getFilePath().startsWith(prefix) && !sf.isInNodeModules(),
+			);
+		if (inDirectory.length === 0) {
+			throw new Error(
+				`ディレクトリ配下にプロジェクトのファイルがありません: ${directory}`,
+			);
+		}
+		for (const sourceFile of inDirectory) {
+			selected.add(sourceFile);
+		}
+	}
+	if (filePaths === undefined && directory === undefined) {
+		return project.getSourceFiles().filter((sf) => !sf.isInNodeModules());
+	}
+	return [...selected];
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { createUnifiedDiff } from "./unified-diff";
+
+describe("createUnifiedDiff", () => {
+	it("内容が同じ場合は空文字列を返す", () => {
+		expect(createUnifiedDiff("a\nb\n", "a\nb\n")).toBe("");
+	});
+
+	it("1 行の変更を前後 3 行のコンテキスト付きで出力する", () => {
+		const oldText = "1\n2\n3\n4\n5\n6\n7\n8\n9\n";
+		const newText = "1\n2\n3\n4\nfive\n6\n7\n8\n9\n";
+
+		expect(
+			createUnifiedDiff(oldText, newText, {
+				oldPath: "/src/a.ts",
+				newPath: "/src/a.ts",
+			}),
+		).toBe(
+			[
+				"--- /src/a.ts",
+				"+++ /src/a.ts",
+				"@@ -2,7 +2,7 @@",
+				" 2",
+				" 3",
+				" 4",
+				"-5",
+				"+five",
+				" 6",
+				" 7",
+				" 8",
+				"",
+			].join("\n"),
+		);
+	});
+
+	it("離れた変更は別の hunk に分ける", () => {
+		const lines = Array.from({ length: 20 }, (_, i) => `line${i + 1}`);
+		const changed = [...lines];
+		changed[1] = "changed2";
+		changed[17] = "changed18";
+
+		const diff = createUnifiedDiff(
+			`${lines.join("\n")}\n`,
+			`${changed.join("\n")}\n`,
+			{ oldPath: "/a.ts", newPath: "/a.ts" },
+		);
+
+		expect(diff.match(/^@@ .* @@$/gm)).toEqual([
+			"@@ -1,5 +1,5 @@",
+			"@@ -15,6 +15,6 @@",
+		]);
+	});
+
+	it("新規ファイルは /dev/null からの追加として出力する", () => {
+		expect(createUnifiedDiff("", "a\nb\n", { newPath: "/src/new.ts" })).toBe(
+			[
+				"--- /dev/null",
+				"+++ /src/new.ts",
+				"@@ -0,0 +1,2 @@",
+				"+a",
+				"+b",
+				"",
+			].join("\n"),
+		);
+	});
+
+	it("末尾改行の有無の違いを検出して印を付ける", () => {
+		expect(
+			createUnifiedDiff("a\nb", "a\nb\n", { oldPath: "/x", newPath: "/x" }),
+		).toBe(
+			[
+				"--- /x",
+				"+++ /x",
+				"@@ -1,2 +1,2 @@",
+				" a",
+				"-b",
+				"\\ No newline at end of file",
+				"+b",
+				"",
+			].join("\n"),
+		);
+	});
+
+	it("挿入と削除が混在する場合も最小の差分を出す", () => {
+		const diff = createUnifiedDiff("a\nb\nc\nd\n", "a\nx\nc\nd\ny\n", {
+			oldPath: "/x",
+			newPath: "/x",
+		});
+
+		expect(diff.split("\n").slice(2)).toEqual([
+			"@@ -1,4 +1,5 @@",
+			" a",
+			"-b",
+			"+x",
+			" c",
+			" d",
+			"+y",
+			"",
+		]);
+	});
+});
@@ -0,0 +1,256 @@
+/**
+ * 2 つのテキストから unified diff 形式の文字列を生成する。
+ *
+ * 行単位の Myers 差分を使う。共通の先頭/末尾を取り除いてから差分を取るので、
+ * リファクタリングのような局所的な変更なら大きなファイルでも軽い。
+ * 編集距離が `MAX_EDIT_DISTANCE` を超える場合は、変更範囲全体を
+ * 「削除 + 追加」として出力する (差分としては正しいが最小ではない)。
+ */
+
+const DEFAULT_CONTEXT_LINES = 3;
+const MAX_EDIT_DISTANCE = 2000;
+const NO_NEWLINE_MARKER = "\\ No newline at end of file";
+
+type DiffOp =
+	| { type: "equal"; line: Line }
+	| { type: "delete"; line: Line }
+	| { type: "insert"; line: Line };
+
+/** 改行コードまで含めた 1 行。末尾改行の有無の違いも差分として扱うため */
+interface Line {
+	text: string;
+	hasNewline: boolean;
+}
+
+export interface CreateUnifiedDiffOptions {
+	/** ヘッダーの `---` 行に出すパス。省略時は `/dev/null` (新規ファイル) */
+	oldPath?: string;
+	/** ヘッダーの `+++` 行に出すパス。省略時は `/dev/null` (削除されたファイル) */
+	newPath?: string;
+	/** 変更行の前後に含めるコンテキスト行数 (デフォルト 3) */
+	contextLines?: number;
+}
+
+/**
+ * `oldText` から `newText` への unified diff を返す。差分が無ければ空文字列。
+ */
+export function createUnifiedDiff(
+	oldText: string,
+	newText: string,
+	{
+		oldPath,
+		newPath,
+		contextLines = DEFAULT_CONTEXT_LINES,
+	}: CreateUnifiedDiffOptions = {},
+): string {
+	if (oldText === newText) {
+		return "";
+	}
+
+	const ops = diffLines(splitLines(oldText), splitLines(newText));
+	const output = [
+		`--- ${oldPath ?? "/dev/null"}`,
+		`+++ ${newPath ?? "/dev/null"}`,
+	];
+	for (const hunk of buildHunks(ops, contextLines)) {
+		output.push(...hunk);
+	}
+	return `${output.join("\n")}\n`;
+}
+
+function splitLines(text: string): Line[] {
+	if (text === "") {
+		return [];
+	}
+	const parts = text.split("\n");
+	const lines: Line[] = parts.map((part) => ({ text: part, hasNewline: true }));
+	const last = lines[lines.length - 1];
+	if (last.text === "") {
+		lines.pop();
+	} else {
+		last.hasNewline = false;
+	}
+	return lines;
+}
+
+function linesEqual(a: Line, b: Line): boolean {
+	return a.text === b.text && a.hasNewline === b.hasNewline;
+}
+
+function diffLines(a: Line[], b: Line[]): DiffOp[] {
+	let prefix = 0;
+	while (
+		prefix < a.length &&
+		prefix < b.length &&
+		linesEqual(a[prefix], b[prefix])
+	) {
+		prefix++;
+	}
+	let endA = a.length;
+	let endB = b.length;
+	while (
+		endA > prefix &&
+		endB > prefix &&
+		linesEqual(a[endA - 1], b[endB - 1])
+	) {
+		endA--;
+		endB--;
+	}
+
+	const toEqual = (line: Line): DiffOp => ({ type: "equal", line });
+	return [
+		...a.slice(0, prefix).map(toEqual),
+		...myersDiff(a.slice(prefix, endA), b.slice(prefix, endB)),
+		...a.slice(endA).map(toEqual),
+	];
+}
+
+/**
+ * Myers の O(ND) 差分アルゴリズム。
+ * 各ステップの V 配列は後ろ向きに辿るのに必要な範囲 (-d-1..d+1) だけ保存する。
+ */
+function myersDiff(a: Line[], b: Line[]): DiffOp[] {
+	const n = a.length;
+	const m = b.length;
+	const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+	const offset = n + m + 1;
+	const v = new Array<number>(2 * offset + 1).fill(0);
+	const trace: number[][] = [];
+
+	for (let d = 0; d <= max; d++) {
+		trace.push(v.slice(offset - d - 1, offset + d + 2));
+		for (let k = -d; k <= d; k += 2) {
+			let x =
+				k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+					? v[offset + k + 1]
+					: v[offset + k - 1] + 1;
+			let y = x - k;
+			while (x < n && y < m && linesEqual(a[x], b[y])) {
+				x++;
+				y++;
+			}
+			v[offset + k] = x;
+			if (x >= n && y >= m) {
+				return backtrack(a, b, trace);
+			}
+		}
+	}
+
+	return [
+		...a.map((line): DiffOp => ({ type: "delete", line })),
+		...b.map((line): DiffOp => ({ type: "insert", line })),
+	];
+}
+
+function backtrack(a: Line[], b: Line[], trace: number[][]): DiffOp[] {
+	const ops: DiffOp[] = [];
+	let x = a.length;
+	let y = b.length;
+
+	for (let d = trace.length - 1; d >= 0; d--) {
+		const snapshot = trace[d];
+		// snapshot[i] は V[k] (k = i - d - 1) に対応する
+		const at = (k: number) => snapshot[k + d + 1];
+		const k = x - y;
+		const prevK =
+			k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+		const prevX = d === 0 ? 0 : at(prevK);
+		const prevY = d === 0 ? 0 : prevX - prevK;
+
+		while (x > prevX && y > prevY) {
+			ops.push({ type: "equal", line: a[x - 1] });
+			x--;
+			y--;
+		}
+		if (d > 0) {
+			if (x === prevX) {
+				ops.push({ type: "insert", line: b[y - 1] });
+			} else {
+				ops.push({ type: "delete", line: a[x - 1] });
+			}
+		}
+		x = prevX;
+		y = prevY;
+	}
+
+	return ops.reverse();
+}
+
+/**
+ * 差分操作列を hunk ごとの出力行に変換する。
+ * 変更同士の間の一致行が `2 * contextLines` 以下なら同じ hunk にまとめる。
+ */
+function buildHunks(ops: DiffOp[], contextLines: number): string[][] {
+	// 各操作の直前までに消費した旧/新の行数
+	const oldPositions: number[] = [];
+	const newPositions: number[] = [];
+	let oldPos = 0;
+	let newPos = 0;
+	for (const op of ops) {
+		oldPositions.push(oldPos);
+		newPositions.push(newPos);
+		if (op.type !== "insert") oldPos++;
+		if (op.type !== "delete") newPos++;
+	}
+
+	const hunks: string[][] = [];
+	let index = 0;
+	while (index < ops.length) {
+		if (ops[index].type === "equal") {
+			index++;
+			continue;
+		}
+
+		let lastChange = index;
+		let cursor = index;
+		while (cursor < ops.length) {
+			if (ops[cursor].type !== "equal") {
+				lastChange = cursor;
+				cursor++;
+				continue;
+			}
+			let runEnd = cursor;
+			while (runEnd < ops.length && ops[runEnd].type === "equal") {
+				runEnd++;
+			}
+			if (runEnd === ops.length || runEnd - cursor > 2 * contextLines) {
+				break;
+			}
+			cursor = runEnd;
+		}
+
+		const start = Math.max(0, index - contextLines);
+		const end = Math.min(ops.length, lastChange + 1 + contextLines);
+		hunks.push(
+			formatHunk(
+				ops.slice(start, end),
+				oldPositions[start],
+				newPositions[start],
+			),
+		);
+		index = end;
+	}
+	return hunks;
+}
+
+function formatHunk(
+	ops: DiffOp[],
+	oldStartIndex: number,
+	newStartIndex: number,
+): string[] {
+	const oldCount = ops.filter((op) => op.type !== "insert").length;
+	const newCount = ops.filter((op) => op.type !== "delete").length;
+	// 行数 0 の範囲は「その直前の行番号」で表すのが unified diff の慣例
+	const oldStart = oldCount === 0 ? oldStartIndex : oldStartIndex + 1;
+	const newStart = newCount === 0 ? newStartIndex : newStartIndex + 1;
+
+	const lines = [`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`];
+	for (const op of ops) {
+		const prefix = op.type === "equal" ? " " : op.type === "delete" ? "-" : "+";
+		lines.push(`${prefix}${op.line.text}`);
+		if (!op.line.hasNewline) {
+			lines.push(NO_NEWLINE_MARKER);
+		}
+	}
+	return lines;
+}
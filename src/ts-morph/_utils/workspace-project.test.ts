@@ -0,0 +1,133 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createWorkspaceProject } from "./workspace-project";
+
+describe("createWorkspaceProject", () => {
+	let tempDir: string;
+
+	beforeEach(() => {
+		tempDir = fs.realpathSync(
+			fs.mkdtempSync(path.join(os.tmpdir(), "workspace-project-test-")),
+		);
+	});
+
+	afterEach(() => {
+		fs.rmSync(tempDir, { recursive: true, force: true });
+	});
+
+	function writeFile(relativePath: string, content: string) {
+		const filePath = path.join(tempDir, relativePath);
+		fs.mkdirSync(path.dirname(filePath), { recursive: true });
+		fs.writeFileSync(filePath, content);
+	}
+
+	function writePackage(
+		directory: string,
+		packageJson: Record<string, unknown>,
+	) {
+		writeFile(`${directory}/package.json`, JSON.stringify(packageJson));
+		writeFile(
+			`${directory}/tsconfig.json`,
+			JSON.stringify({
+				compilerOptions: {
+					target: "ES2020",
+					module: "ESNext",
+					moduleResolution: "bundler",
+					outDir: "dist",
+					rootDir: "src",
+					baseUrl: ".",
+					paths: { "@/*": ["src/*"] },
+				},
+				include: ["src/**/*.ts"],
+			}),
+		);
+	}
+
+	function setupWorkspace() {
+		writeFile(
+			"pnpm-workspace.yaml",
+			'packages:\n  - "packages/*"\n  - "!packages/ignored"\n',
+		);
+		writePackage("packages/ui", {
+			name: "@acme/ui",
+			exports: {
+				".": { types: "./dist/index.d.ts", import: "./dist/index.js" },
+				"./button": "./dist/button.js",
+			},
+		});
+		writeFile("packages/ui/src/index.ts", 'export * from "@/button";\n');
+		writeFile("packages/ui/src/button.ts", "export const button = 1;\n");
+		writePackage("packages/app", { name: "@acme/app", main: "dist/main.js" });
+		writeFile(
+			"packages/app/src/main.ts",
+			[
+				'import { button } from "@acme/ui";',
+				'import { button as direct } from "@acme/ui/button";',
+				'import { helper } from "@/helper";',
+				"export const main = [button, direct, helper];",
+			].join("\n"),
+		);
+		writeFile("packages/app/src/helper.ts", "export const helper = 1;\n");
+		writePackage("packages/ignored", { name: "@acme/ignored" });
+		writeFile("packages/ignored/src/index.ts", "export const x = 1;\n");
+	}
+
+	it("workspaceRoot からパッケージを見つけ、package.json の exports / main をソースに対応付ける", () => {
+		setupWorkspace();
+
+		const workspace = createWorkspaceProject({ workspaceRoot: tempDir });
+
+		expect(workspace.packages.map((pkg) => pkg.name)).toEqual([
+			"@acme/app",
+			"@acme/ui",
+		]);
+		expect(workspace.entryPoints.sort()).toEqual([
+			path.join(tempDir, "packages/app/src/main.ts"),
+			path.join(tempDir, "packages/ui/src/button.ts"),
+			path.join(tempDir, "packages/ui/src/index.ts"),
+		]);
+	});
+
+	it("パッケージ名の import はソースに、パッケージ内の paths はそのパッケージの tsconfig で解決する", () => {
+		setupWorkspace();
+
+		const { project } = createWorkspaceProject({
+			tsconfigPaths: [
+				path.join(tempDir, "packages/app/tsconfig.json"),
+				path.join(tempDir, "packages/ui/tsconfig.json"),
+			],
+		});
+
+		const main = project.getSourceFileOrThrow(
+			path.join(tempDir, "packages/app/src/main.ts"),
+		);
+		expect(
+			main
+				.getImportDeclarations()
+				.map((declaration) =>
+					declaration.getModuleSpecifierSourceFile()?.getFilePath(),
+				),
+		).toEqual([
+			path.join(tempDir, "packages/ui/src/index.ts"),
+			path.join(tempDir, "packages/ui/src/button.ts"),
+			path.join(tempDir, "packages/app/src/helper.ts"),
+		]);
+		const index = project.getSourceFileOrThrow(
+			path.join(tempDir, "packages/ui/src/index.ts"),
+		);
+		expect(
+			index
+				.getExportDeclarations()[0]
+				.getModuleSpecifierSourceFile()
+				?.getFilePath(),
+		).toBe(path.join(tempDir, "packages/ui/src/button.ts"));
+	});
+
+	it("ワークスペースのパッケージ定義が無い場合はエラー", () => {
+		expect(() => createWorkspaceProject({ workspaceRoot: tempDir })).toThrow(
+			"ワークスペースのパッケージ定義",
+		);
+	});
+});
@@ -0,0 +1,416 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { Project, ts } from "ts-morph";
+import { NewLineKind } from "typescript";
+import { globToRegExp } from "./glob-pattern";
+
+export interface WorkspacePackage {
+	/** package.json の name (package.json が無い、または name が無い場合は undefined) */
+	name: string | undefined;
+	/** package.json のディレクトリ (package.json が無い場合は tsconfig のディレクトリ) */
+	directory: string;
+	tsconfigPath: string;
+	/**
+	 * package.json の exports / main などから解決した、パッケージ名での import 指定子ごとのソースファイル。
+	 * 例: `@acme/ui` → `/repo/packages/ui/src/index.ts`、`@acme/ui/button` → `.../src/button.ts`
+	 */
+	entryPoints: Map<string, string>;
+}
+
+export interface WorkspaceProject {
+	/** すべてのパッケージのソースファイルを含む Project (キャッシュしない) */
+	project: Project;
+	packages: WorkspacePackage[];
+	/** すべてのパッケージの entry point の絶対パス (重複なし) */
+	entryPoints: string[];
+}
+
+export interface WorkspaceProjectOptions {
+	/** 含める tsconfig.json の絶対パス。先頭の tsconfig のコンパイラオプションが Project の既定になる */
+	tsconfigPaths?: string[];
+	/**
+	 * ワークスペースのルートの絶対パス。pnpm-workspace.yaml (無ければ package.json の workspaces) の
+	 * パターンに一致し、tsconfig.json を持つパッケージを含める
+	 */
+	workspaceRoot?: string;
+}
+
+interface PackageInfo {
+	name: string | undefined;
+	directory: string;
+	tsconfigPath: string;
+	compilerOptions: ts.CompilerOptions;
+	packageJson: Record<string, unknown>;
+}
+
+function readJsonFile(filePath: string): Record<string, unknown> {
+	try {
+		return JSON.parse(fs.readFileSync(filePath, "utf8"));
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		throw new Error(`JSON を読み込めません: ${filePath}: ${message}`);
+	}
+}
+
+/** pnpm-workspace.yaml の `packages:` の各行 (`- "packages/*"`) を読む */
+function readPnpmWorkspacePatterns(yamlText: string): string[] {
+	const patterns: string[] = [];
+	let inPackages = false;
+	for (const line of yamlText.split(/\r?\n/)) {
+		if (/^packages\s*:/.test(line)) {
+			inPackages = true;
+			continue;
+		}
+		if (!inPackages || line.trim() === "" || line.trim().startsWith("#")) {
+			continue;
+		}
+		if (!/^\s/.test(line)) break;
+		const item = line.match(/^\s+-\s*(['"]?)([^'"#]+?)\1\s*(#.*)?$/);
+		if (item) {
+			patterns.push(item[2]);
+		}
+	}
+	return patterns;
+}
+
+function readWorkspacePatterns(workspaceRoot: string): string[] {
+	const pnpmWorkspacePath = path.join(workspaceRoot, "pnpm-workspace.yaml");
+	if (fs.existsSync(pnpmWorkspacePath)) {
+		return readPnpmWorkspacePatterns(
+			fs.readFileSync(pnpmWorkspacePath, "utf8"),
+		);
+	}
+	const packageJsonPath = path.join(workspaceRoot, "package.json");
+	if (fs.existsSync(packageJsonPath)) {
+		const workspaces = readJsonFile(packageJsonPath).workspaces;
+		const patterns = Array.isArray(workspaces)
+			? workspaces
+			: (workspaces as { packages?: unknown } | undefined)?.packages;
+		if (Array.isArray(patterns)) {
+			return patterns.filter((p): p is string => typeof p === "string");
+		}
+	}
+	throw new Error(
+		`ワークスペースのパッケージ定義 (pnpm-workspace.yaml または package.json の workspaces) が見つかりません: ${workspaceRoot}`,
+	);
+}
+
+/**
+ * ワークスペースのパターンに一致し、package.json を持つディレクトリを返す。
+ * node_modules と `.` で始まるディレクトリは辿らない。`!` で始まるパターンは除外。
+ */
+function findWorkspacePackageDirectories(
+	workspaceRoot: string,
+	patterns: readonly string[],
+): string[] {
+	const normalize = (pattern: string) =>
+		pattern.replace(/^\.\//, "").replace(/\/+$/, "");
+	const includes = patterns
+		.filter((p) => !p.startsWith("!"))
+		.map((p) => normalize(p));
+	const excludes = patterns
+		.filter((p) => p.startsWith("!"))
+		.map((p) => globToRegExp(normalize(p.slice(1))));
+	const includeRegExps = includes.map(globToRegExp);
+	const maxDepth = includes.some((p) => p.includes("**"))
+		? Number.POSITIVE_INFINITY
+		: Math.max(0, ...includes.map((p) => p.split("/").length));
+
+	const directories: string[] = [];
+	const walk = (relativeDir: string, depth: number) => {
+		if (depth >= maxDepth) return;
+		const absoluteDir = path.join(workspaceRoot, relativeDir);
+		for (const entry of fs.readdirSync(absoluteDir, { withFileTypes: true })) {
+			if (!entry.isDirectory()) continue;
+			if (entry.name === "node_modules" || entry.name.startsWith(".")) {
+				continue;
+			}
+			const relativePath = path.posix.join(relativeDir, entry.name);
+			if (
+				includeRegExps.some((regExp) => regExp.test(relativePath)) &&
+				!excludes.some((regExp) => regExp.test(relativePath)) &&
+				fs.existsSync(path.join(workspaceRoot, relativePath, "package.json"))
+			) {
+				directories.push(path.join(workspaceRoot, relativePath));
+			}
+			walk(relativePath, depth + 1);
+		}
+	};
+	walk("", 0);
+	return directories.sort();
+}
+
+function findNearestPackageJson(directory: string): string | undefined {
+	let current = directory;
+	while (true) {
+		const candidate = path.join(current, "package.json");
+		if (fs.existsSync(candidate)) {
+			return candidate;
+		}
+		const parent = path.dirname(current);
+		if (parent === current) {
+			return undefined;
+		}
+		current = parent;
+	}
+}
+
+function readCompilerOptions(tsconfigPath: string): ts.CompilerOptions {
+	const parsed = ts.getParsedCommandLineOfConfigFile(
+		tsconfigPath,
+		{},
+		{
+			...ts.sys,
+			onUnRecoverableConfigFileDiagnostic: (diagnostic) => {
+				throw new Error(
+					`tsconfig を読み込めません: ${tsconfigPath}: ${ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n")}`,
+				);
+			},
+		},
+	);
+	if (!parsed) {
+		throw new Error(`tsconfig を読み込めません: ${tsconfigPath}`);
+	}
+	return parsed.options;
+}
+
+function readPackageInfo(
+	tsconfigPath: string,
+	packageJsonPath: string | undefined,
+): PackageInfo {
+	if (!fs.existsSync(tsconfigPath)) {
+		throw new Error(`tsconfig が見つかりません: ${tsconfigPath}`);
+	}
+	const packageJson = packageJsonPath ? readJsonFile(packageJsonPath) : {};
+	return {
+		name: typeof packageJson.name === "string" ? packageJson.name : undefined,
+		directory: packageJsonPath
+			? path.dirname(packageJsonPath)
+			: path.dirname(tsconfigPath),
+		tsconfigPath,
+		compilerOptions: readCompilerOptions(tsconfigPath),
+		packageJson,
+	};
+}
+
+/** exports の値 (文字列 / 条件付きオブジェクト / 配列) に現れるパスを、書かれた順に集める */
+function collectExportTargets(value: unknown): string[] {
+	if (typeof value === "string") return [value];
+	if (Array.isArray(value)) return value.flatMap(collectExportTargets);
+	if (value && typeof value === "object") {
+		return Object.values(value).flatMap(collectExportTargets);
+	}
+	return [];
+}
+
+/**
+ * package.json の exports (無ければ types / typings / module / main) を、
+ * サブパス (`.`、`./button` など) ごとの候補パスにする。`*` を含むサブパスは対象外。
+ */
+function collectPackageEntryTargets(
+	packageJson: Record<string, unknown>,
+): Map<string, string[]> {
+	const targets = new Map<string, string[]>();
+	const { exports } = packageJson;
+	if (exports !== undefined && exports !== null) {
+		const isSubpathMap =
+			typeof exports === "object" &&
+			!Array.isArray(exports) &&
+			Object.keys(exports).some((key) => key.startsWith("."));
+		if (!isSubpathMap) {
+			targets.set(".", collectExportTargets(exports));
+			return targets;
+		}
+		for (const [subpath, value] of Object.entries(exports)) {
+			if (!subpath.startsWith(".") || subpath.includes("*")) continue;
+			targets.set(subpath, collectExportTargets(value));
+		}
+		return targets;
+	}
+	const fields = ["types", "typings", "module", "main"]
+		.map((field) => packageJson[field])
+		.filter((value): value is string => typeof value === "string");
+	if (fields.length > 0) {
+		targets.set(".", fields);
+	}
+	return targets;
+}
+
+/**
+ * package.json に書かれたパス (多くはビルド成果物) を、プロジェクト内のソースファイルに対応付ける。
+ * 拡張子を除いたパスに加え、outDir / declarationDir 配下なら rootDir (無ければ `src`) に置き換えたパスで
+ * `.ts` / `.tsx` / `index.ts` などを探す。
+ */
+function findEntrySourceFile(
+	project: Project,
+	info: PackageInfo,
+	target: string,
+): string | undefined {
+	const withoutExtension = path
+		.resolve(info.directory, target)
+		.replace(/(\.d)?\.[mc]?[jt]sx?$/, "");
+	const bases = [withoutExtension];
+	const { outDir, declarationDir, rootDir } = info.compilerOptions;
+	for (const buildDir of [outDir, declarationDir]) {
+		if (!buildDir || !withoutExtension.startsWith(buildDir + path.sep)) {
+			continue;
+		}
+		bases.push(
+			path.join(
+				rootDir ?? path.join(info.directory, "src"),
+				path.relative(buildDir, withoutExtension),
+			),
+		);
+	}
+	for (const base of bases) {
+		for (const suffix of [".ts", ".tsx", ".mts", ".cts", "/index.ts"]) {
+			const sourceFile = project.getSourceFile(base + suffix);
+			if (sourceFile && !sourceFile.isDeclarationFile()) {
+				return sourceFile.getFilePath();
+			}
+		}
+	}
+	return undefined;
+}
+
+/** entry point は findEntrySourceFile が探す拡張子のソースファイルに限られる */
+function toExtension(filePath: string): ts.Extension {
+	if (filePath.endsWith(".tsx")) return ts.Extension.Tsx;
+	if (filePath.endsWith(".mts")) return ts.Extension.Mts;
+	if (filePath.endsWith(".cts")) return ts.Extension.Cts;
+	return ts.Extension.Ts;
+}
+
+function collectPackageEntryPoints(
+	project: Project,
+	info: PackageInfo,
+): Map<string, string> {
+	const entryPoints = new Map<string, string>();
+	if (!info.name) {
+		return entryPoints;
+	}
+	for (const [subpath, targets] of collectPackageEntryTargets(
+		info.packageJson,
+	)) {
+		for (const target of targets) {
+			const sourceFilePath = findEntrySourceFile(project, info, target);
+			if (sourceFilePath) {
+				entryPoints.set(
+					path.posix.join(info.name, subpath.replace(/^\.\/?/, "")),
+					sourceFilePath,
+				);
+				break;
+			}
+		}
+	}
+	return entryPoints;
+}
+
+/**
+ * 複数の tsconfig (またはワークスペースのパッケージ) のソースファイルを 1 つの Project にまとめる。
+ *
+ * パッケージ名での import (`@acme/ui`、`@acme/ui/button`) は、ビルド成果物や node_modules ではなく
+ * package.json の exports / main が指すワークスペース内のソースファイルに解決する。
+ * それ以外の import は、import しているファイルが属するパッケージの tsconfig のコンパイラオプションで解決するため、
+ * パッケージごとに異なる paths (`@/*` など) も正しく扱える。
+ */
+export function createWorkspaceProject(
+	options: WorkspaceProjectOptions,
+): WorkspaceProject {
+	const infos: PackageInfo[] = [];
+	const seenTsconfigPaths = new Set<string>();
+	const addPackage = (
+		tsconfigPath: string,
+		packageJsonPath: string | undefined,
+	) => {
+		const absoluteTsconfigPath = path.resolve(tsconfigPath);
+		if (seenTsconfigPaths.has(absoluteTsconfigPath)) return;
+		seenTsconfigPaths.add(absoluteTsconfigPath);
+		infos.push(readPackageInfo(absoluteTsconfigPath, packageJsonPath));
+	};
+
+	for (const tsconfigPath of options.tsconfigPaths ?? []) {
+		addPackage(
+			tsconfigPath,
+			findNearestPackageJson(path.dirname(path.resolve(tsconfigPath))),
+		);
+	}
+	if (options.workspaceRoot !== undefined) {
+		const workspaceRoot = path.resolve(options.workspaceRoot);
+		for (const directory of findWorkspacePackageDirectories(
+			workspaceRoot,
+			readWorkspacePatterns(workspaceRoot),
+		)) {
+			const tsconfigPath = path.join(directory, "tsconfig.json");
+			if (fs.existsSync(tsconfigPath)) {
+				addPackage(tsconfigPath, path.join(directory, "package.json"));
+			}
+		}
+	}
+	if (infos.length === 0) {
+		throw new Error(
+			"tsconfig.json を持つパッケージが見つかりません (tsconfigPaths または workspaceRoot を確認してください)",
+		);
+	}
+
+	const specifierToSourceFile = new Map<string, string>();
+	const infosByDepth = [...infos].sort(
+		(a, b) => b.directory.length - a.directory.length,
+	);
+	const findOwner = (filePath: string) =>
+		infosByDepth.find((info) => filePath.startsWith(info.directory + path.sep));
+
+	const project = new Project({
+		tsConfigFilePath: infos[0].tsconfigPath,
+		skipAddingFilesFromTsConfig: true,
+		skipFileDependencyResolution: true,
+		manipulationSettings: {
+			newLineKind: NewLineKind.LineFeed,
+		},
+		resolutionHost: (moduleResolutionHost, getCompilerOptions) => ({
+			resolveModuleNames: (moduleNames, containingFile) =>
+				moduleNames.map((moduleName) => {
+					const workspaceFile = specifierToSourceFile.get(moduleName);
+					if (workspaceFile) {
+						return {
+							resolvedFileName: workspaceFile,
+							extension: toExtension(workspaceFile),
+							isExternalLibraryImport: false,
+						};
+					}
+					const compilerOptions =
+						findOwner(containingFile)?.compilerOptions ?? getCompilerOptions();
+					return ts.resolveModuleName(
+						moduleName,
+						containingFile,
+						compilerOptions,
+						moduleResolutionHost,
+					).resolvedModule;
+				}),
+		}),
+	});
+	for (const info of infos) {
+		project.addSourceFilesFromTsConfig(info.tsconfigPath);
+	}
+
+	const packages = infos.map((info) => ({
+		name: info.name,
+		directory: info.directory,
+		tsconfigPath: info.tsconfigPath,
+		entryPoints: collectPackageEntryPoints(project, info),
+	}));
+	for (const pkg of packages) {
+		for (const [specifier, sourceFilePath] of pkg.entryPoints) {
+			specifierToSourceFile.set(specifier, sourceFilePath);
+		}
+	}
+	project.resolveSourceFileDependencies();
+
+	return {
+		project,
+		packages,
+		entryPoints: [
+			...new Set(packages.flatMap((pkg) => [...pkg.entryPoints.values()])),
+		],
+	};
+}
@@ -0,0 +1,235 @@
+import type { Project } from "ts-morph";
+import { describe, expect, it } from "vitest";
+import { createInMemoryProject } from "../_test-utils/create-in-memory-project";
+import { auditDependencies, getPackageName } from "./audit-dependencies";
+
+function setup(files: Record<string, string>): Project {
+	const project = createInMemoryProject();
+	for (const [path, content] of Object.entries(files)) {
+		project.createSourceFile(path, content, { overwrite: true });
+	}
+	return project;
+}
+
+function audit(project: Project, packageJson: Record<string, unknown>) {
+	return auditDependencies(project, {
+		packageJsonPath: "/package.json",
+		packageJson,
+	});
+}
+
+describe("getPackageName", () => {
+	it("サブパスを除いたパッケージ名を返す", () => {
+		expect(getPackageName("lodash")).toBe("lodash");
+		expect(getPackageName("lodash/fp")).toBe("lodash");
+		expect(getPackageName("@scope/pkg/sub/path")).toBe("@scope/pkg");
+	});
+
+	it("パッケージではない指定子は undefined", () => {
+		expect(getPackageName("./a")).toBeUndefined();
+		expect(getPackageName("/abs/a")).toBeUndefined();
+		expect(getPackageName("#internal")).toBeUndefined();
+		expect(getPackageName("node:fs")).toBeUndefined();
+		expect(getPackageName("@scope")).toBeUndefined();
+	});
+});
+
+describe("auditDependencies", () => {
+	it("どこからも import されていない dependencies を報告する", () => {
+		const project = setup({
+			"/src/a.ts": 'import { z } from "zod";\nz;',
+		});
+		const result = audit(project, {
+			dependencies: { zod: "^3", pino: "^9" },
+			devDependencies: { vitest: "^3" },
+		});
+		expect(result.unusedDependencies).toEqual([
+			{ packageName: "pino", field: "dependencies" },
+		]);
+		expect(result.undeclaredDependencies).toEqual([]);
+	});
+
+	it("includeDevDependencies で devDependencies も検査し、@types/* は報告しない", () => {
+		const project = setup({
+			"/src/a.test.ts": 'import { it } from "vitest";\nit;',
+		});
+		const result = auditDependencies(project, {
+			packageJsonPath: "/package.json",
+			packageJson: {
+				devDependencies: {
+					vitest: "^3",
+					"@biomejs/biome": "^1",
+					"@types/node": "^22",
+				},
+			},
+			includeDevDependencies: true,
+		});
+		expect(result.unusedDependencies).toEqual([
+			{ packageName: "@biomejs/biome", field: "devDependencies" },
+		]);
+	});
+
+	it("宣言されていないパッケージの import を位置付きで報告する", () => {
+		const project = setup({
+			"/src/a.ts": [
+				'import { z } from "zod";',
+				'import get from "lodash/get";',
+				'const lazy = () => import("@acme/ui/button");',
+				"z; get;",
+			].join("\n"),
+		});
+		const result = audit(project, { dependencies: { zod: "^3" } });
+		expect(result.undeclaredDependencies).toEqual([
+			{
+				packageName: "@acme/ui",
+				locations: [
+					{
+						filePath: "/src/a.ts",
+						line: 3,
+						column: 27,
+						moduleSpecifier: "@acme/ui/button",
+						isTypeOnly: false,
+					},
+				],
+			},
+			{
+				packageName: "lodash",
+				locations: [
+					{
+						filePath: "/src/a.ts",
+						line: 2,
+						column: 17,
+						moduleSpecifier: "lodash/get",
+						isTypeOnly: false,
+					},
+				],
+			},
+		]);
+	});
+
+	it("相対パス・パスエイリアス・組み込みモジュール・自分自身の名前は対象外", () => {
+		const project = setup({
+			"/src/util.ts": "export const util = 1;",
+			"/src/a.ts": [
+				'import { util } from "./util";',
+				'import { util as u2 } from "@/util";',
+				'import * as fs from "fs";',
+				'import * as path from "node:path";',
+				'import { self } from "my-app/self";',
+				"util; u2; fs; path; self;",
+			].join("\n"),
+		});
+		const result = audit(project, { name: "my-app" });
+		expect(result.undeclaredDependencies).toEqual([]);
+	});
+
+	it("@types/x だけが宣言されている x の import は宣言済みとみなす", () => {
+		const project = setup({
+			"/src/a.ts": [
+				'import type { Request } from "express";',
+				'import type { Node } from "@babel/types";',
+				"export type T = [Request, Node];",
+			].join("\n"),
+		});
+		const result = audit(project, {
+			devDependencies: { "@types/express": "^4", "@types/babel__types": "^7" },
+		});
+		expect(result.undeclaredDependencies).toEqual([]);
+	});
+
+	it("@types/x だけが宣言されていても x を実行時に import していれば未宣言として報告する", () => {
+		const project = setup({
+			"/src/a.ts": 'import express from "express";\nexpress();',
+		});
+		const result = audit(project, {
+			devDependencies: { "@types/express": "^4" },
+		});
+		expect(result.undeclaredDependencies).toEqual([
+			{
+				packageName: "express",
+				locations: [
+					{
+						filePath: "/src/a.ts",
+						line: 1,
+						column: 21,
+						moduleSpecifier: "express",
+						isTypeOnly: false,
+					},
+				],
+			},
+		]);
+	});
+
+	it("dependencies のうち型の位置でしか import されていないものを報告する", () => {
+		const project = setup({
+			"/node_modules/schema/index.d.ts": [
+				"export interface Schema { id: string }",
+				"export declare function parse(input: string): Schema;",
+			].join("\n"),
+			"/node_modules/runtime/index.d.ts":
+				"export declare function run(): void;",
+			"/src/a.ts": [
+				'import { Schema } from "schema";',
+				'import { run } from "runtime";',
+				'export type Parsed = import("schema").Schema;',
+				"export const s: Schema = { id: '' };",
+				"run();",
+			].join("\n"),
+		});
+		const result = audit(project, {
+			dependencies: { schema: "^1", runtime: "^1" },
+		});
+		expect(result.typeOnlyDependencies).toEqual([
+			{
+				packageName: "schema",
+				locations: [
+					{
+						filePath: "/src/a.ts",
+						line: 1,
+						column: 24,
+						moduleSpecifier: "schema",
+						isTypeOnly: true,
+					},
+					{
+						filePath: "/src/a.ts",
+						line: 3,
+						column: 29,
+						moduleSpecifier: "schema",
+						isTypeOnly: true,
+					},
+				],
+			},
+		]);
+	});
+
+	it("型と値の両方で import されているパッケージは型だけとみなさない", () => {
+		const project = setup({
+			"/node_modules/schema/index.d.ts": [
+				"export interface Schema { id: string }",
+				"export declare function parse(input: string): Schema;",
+			].join("\n"),
+			"/src/a.ts":
+				'import type { Schema } from "schema";\nexport type S = Schema;',
+			"/src/b.ts": 'import { parse } from "schema";\nparse("");',
+		});
+		const result = audit(project, { dependencies: { schema: "^1" } });
+		expect(result.typeOnlyDependencies).toEqual([]);
+	});
+
+	it("ignorePackages と excludeFilePatterns を適用する", () => {
+		const project = setup({
+			"/src/a.ts": 'import { z } from "zod";\nz;',
+			"/src/a.test.ts": 'import { it } from "vitest";\nit;',
+		});
+		const result = auditDependencies(project, {
+			packageJsonPath: "/package.json",
+			packageJson: { dependencies: { zod: "^3", "reflect-metadata": "^0.2" } },
+			ignorePackages: ["reflect-metadata"],
+			excludeFilePatterns: [".test."],
+		});
+		expect(result.unusedDependencies).toEqual([]);
+		// vitest を import しているテストファイルはスキャンしないので未宣言にならない
+		expect(result.undeclaredDependencies).toEqual([]);
+		expect(result.scannedFiles).toBe(1);
+	});
+});
@@ -0,0 +1,281 @@
+import * as fs from "node:fs";
+import { builtinModules } from "node:module";
+import * as path from "node:path";
+import {
+	Node,
+	type Project,
+	type SourceFile,
+	type StringLiteral,
+} from "ts-morph";
+import { isTypeOnlyDeclaration } from "../_utils/module-graph";
+import { isPathAlias } from "../_utils/path-alias";
+import { getTsConfigAliasKeys } from "../_utils/ts-morph-project";
+
+/** 使用の有無を検査する package.json の依存フィールド */
+export type DependencyField =
+	| "dependencies"
+	| "devDependencies"
+	| "optionalDependencies";
+
+export interface PackageImportLocation {
+	filePath: string;
+	/** モジュール指定子の 1-based 行番号 */
+	line: number;
+	/** モジュール指定子の 1-based 列番号 */
+	column: number;
+	moduleSpecifier: string;
+	/** 出力時に TypeScript が取り除く import か (`import type`、型だけの import、`import("x").T`、.d.ts 内) */
+	isTypeOnly: boolean;
+}
+
+export interface PackageUsage {
+	packageName: string;
+	/** import している位置 (ファイル・位置順) */
+	locations: PackageImportLocation[];
+}
+
+export interface UnusedDependency {
+	packageName: string;
+	field: DependencyField;
+}
+
+export interface AuditDependenciesOptions {
+	/** package.json の絶対パス (報告用) */
+	packageJsonPath: string;
+	/** package.json の内容 */
+	packageJson: Record<string, unknown>;
+	/** true の場合、devDependencies も未使用の検査対象にする (CLI ツールなど import されない依存が多いためデフォルト false) */
+	includeDevDependencies?: boolean;
+	/** 検査から除くパッケージ名 */
+	ignorePackages?: string[];
+	/** 部分文字列のいずれかを filePath に含むファイルはスキャン対象から除外 */
+	excludeFilePatterns?: string[];
+}
+
+export interface AuditDependenciesResult {
+	packageJsonPath: string;
+	/** 宣言されているがどこからも import されていない依存 */
+	unusedDependencies: UnusedDependency[];
+	/** import されているが package.json のどの依存フィールドにも宣言されていないパッケージ */
+	undeclaredDependencies: PackageUsage[];
+	/** dependencies に宣言されているが、型の位置でしか import されていないパッケージ (devDependencies に移せる候補) */
+	typeOnlyDependencies: PackageUsage[];
+	/** スキャンしたファイル数 (除外後) */
+	scannedFiles: number;
+}
+
+const CHECKED_FIELDS: readonly DependencyField[] = [
+	"dependencies",
+	"optionalDependencies",
+];
+
+const DECLARING_FIELDS = [
+	"dependencies",
+	"devDependencies",
+	"peerDependencies",
+	"optionalDependencies",
+] as const;
+
+const BUILTIN_MODULES = new Set(builtinModules);
+
+/**
+ * startDirectory から親ディレクトリへ向かって最も近い package.json を探し、パスと内容を返す。
+ */
+export function readNearestPackageJson(startDirectory: string): {
+	packageJsonPath: string;
+	packageJson: Record<string, unknown>;
+} {
+	let directory = path.resolve(startDirectory);
+	while (true) {
+		const packageJsonPath = path.join(directory, "package.json");
+		if (fs.existsSync(packageJsonPath)) {
+			try {
+				return {
+					packageJsonPath,
+					packageJson: JSON.parse(fs.readFileSync(packageJsonPath, "utf8")),
+				};
+			} catch (error) {
+				const message = error instanceof Error ? error.message : String(error);
+				throw new Error(
+					`JSON を読み込めません: ${packageJsonPath}: ${message}`,
+				);
+			}
+		}
+		const parent = path.dirname(directory);
+		if (parent === directory) {
+			throw new Error(`package.json が見つかりません: ${startDirectory}`);
+		}
+		directory = parent;
+	}
+}
+
+/**
+ * モジュール指定子からパッケージ名を取り出す (`@scope/pkg/sub` → `@scope/pkg`、`pkg/sub` → `pkg`)。
+ * 相対パス・絶対パス・`#` のサブパス import・`node:` などのスキームは undefined。
+ */
+export function getPackageName(moduleSpecifier: string): string | undefined {
+	if (
+		moduleSpecifier === "" ||
+		moduleSpecifier.startsWith(".") ||
+		moduleSpecifier.startsWith("/") ||
+		moduleSpecifier.startsWith("#") ||
+		moduleSpecifier.includes(":")
+	) {
+		return undefined;
+	}
+	const segments = moduleSpecifier.split("/");
+	if (moduleSpecifier.startsWith("@")) {
+		return segments.length >= 2 && segments[1] !== ""
+			? `${segments[0]}/${segments[1]}`
+			: undefined;
+	}
+	return segments[0];
+}
+
+function isTypeOnlyLiteral(literal: StringLiteral, sf: SourceFile): boolean {
+	if (sf.isDeclarationFile()) return true;
+	const parent = literal.getParent();
+	if (Node.isImportDeclaration(parent) || Node.isExportDeclaration(parent)) {
+		return isTypeOnlyDeclaration(parent);
+	}
+	if (Node.isLiteralTypeNode(parent)) {
+		// `import("pkg").Type`
+		return Node.isImportTypeNode(parent.getParent());
+	}
+	if (Node.isExternalModuleReference(parent)) {
+		const importEquals = parent.getParent();
+		return Node.isImportEqualsDeclaration(importEquals)
+			? importEquals.isTypeOnly()
+			: false;
+	}
+	// 動的 import() / require()
+	return false;
+}
+
+/**
+ * 指定子が baseUrl などでプロジェクト内のファイルに解決されるか (パッケージ名に見えるがパッケージではない)
+ */
+function resolvesToProjectFile(literal: StringLiteral): boolean {
+	const declaration = literal.getSymbol()?.getDeclarations()[0];
+	return (
+		declaration !== undefined &&
+		Node.isSourceFile(declaration) &&
+		!declaration.isInNodeModules()
+	);
+}
+
+function getDeclaredDependencies(
+	packageJson: Record<string, unknown>,
+	field: (typeof DECLARING_FIELDS)[number],
+): string[] {
+	const value = packageJson[field];
+	if (typeof value !== "object" || value === null || Array.isArray(value)) {
+		return [];
+	}
+	return Object.keys(value);
+}
+
+/**
+ * プロジェクト内のすべてのパッケージ import (bare specifier) を package.json の依存と突き合わせる。
+ *
+ * import の収集には `getImportStringLiterals()` を使うため、import / export 宣言に加えて
+ * 動的 `import()`、`import x = require()`、JS ファイルの `require()`、`import("pkg").Type` も対象になる。
+ * 相対パス・tsconfig の paths のエイリアス・baseUrl でプロジェクト内のファイルに解決される指定子・
+ * Node.js の組み込みモジュール・package.json 自身の name は対象外。
+ *
+ * - 未使用: `dependencies` / `optionalDependencies` (と `includeDevDependencies` 指定時の `devDependencies`) のうち
+ *   どこからも import されていないもの。`@types/*` は tsconfig の types や自動読み込みで使われるため報告しない。
+ *   `peerDependencies` は利用側に要求するものなので報告しない。
+ * - 未宣言: import されているがどの依存フィールド (peerDependencies を含む) にも無いパッケージ。
+ *   `@types/x` だけが宣言されている `x` は、すべての import が型だけの場合に限り宣言済みとして扱う。
+ * - 型だけ: `dependencies` に宣言されているが、すべての import が出力時に取り除かれるパッケージ。
+ */
+export function auditDependencies(
+	project: Project,
+	options: AuditDependenciesOptions,
+): AuditDependenciesResult {
+	const { packageJson } = options;
+	const ignored = new Set(options.ignorePackages ?? []);
+	const excludePatterns = options.excludeFilePatterns ?? [];
+	const ownName =
+		typeof packageJson.name === "string" ? packageJson.name : undefined;
+	const aliasKeys = getTsConfigAliasKeys(project);
+
+	const sourceFiles = project
+		.getSourceFiles()
+		.filter((sf) => {
+			if (sf.isInNodeModules()) return false;
+			const fp = sf.getFilePath();
+			return !excludePatterns.some((p) => fp.includes(p));
+		})
+		.sort((a, b) => a.getFilePath().localeCompare(b.getFilePath()));
+
+	const usages = new Map<string, PackageImportLocation[]>();
+	for (const sourceFile of sourceFiles) {
+		for (const literal of sourceFile.getImportStringLiterals()) {
+			const moduleSpecifier = literal.getLiteralValue();
+			const packageName = getPackageName(moduleSpecifier);
+			if (!packageName || packageName === ownName) continue;
+			if (BUILTIN_MODULES.has(packageName)) continue;
+			if (isPathAlias(moduleSpecifier, aliasKeys)) continue;
+			if (resolvesToProjectFile(literal)) continue;
+
+			const { line, column } = sourceFile.getLineAndColumnAtPos(
+				literal.getStart(),
+			);
+			const locations = usages.get(packageName) ?? [];
+			locations.push({
+				filePath: sourceFile.getFilePath(),
+				line,
+				column,
+				moduleSpecifier,
+				isTypeOnly: isTypeOnlyLiteral(literal, sourceFile),
+			});
+			usages.set(packageName, locations);
+		}
+	}
+
+	const declared = new Set(
+		DECLARING_FIELDS.flatMap((field) =>
+			getDeclaredDependencies(packageJson, field),
+		),
+	);
+	// `@types/x` は型だけを提供するので、実行時に読み込まれる import があれば x 自体の宣言が必要
+	const isDeclared = ({ packageName, locations }: PackageUsage) =>
+		declared.has(packageName) ||
+		(locations.every((location) => location.isTypeOnly) &&
+			declared.has(`@types/${packageName.replace(/^@(.+)\/(.+)$/, "$1__$2")}`));
+
+	const checkedFields: DependencyField[] = options.includeDevDependencies
+		? [...CHECKED_FIELDS, "devDependencies"]
+		: [...CHECKED_FIELDS];
+	const unusedDependencies: UnusedDependency[] = [];
+	for (const field of checkedFields) {
+		for (const packageName of getDeclaredDependencies(packageJson, field)) {
+			if (ignored.has(packageName)) continue;
+			if (packageName.startsWith("@types/")) continue;
+			if (usages.has(packageName)) continue;
+			unusedDependencies.push({ packageName, field });
+		}
+	}
+
+	const sortedUsages = [...usages.entries()]
+		.filter(([packageName]) => !ignored.has(packageName))
+		.sort(([a], [b]) => a.localeCompare(b))
+		.map(([packageName, locations]) => ({ packageName, locations }));
+
+	const runtimeDependencies = new Set(
+		getDeclaredDependencies(packageJson, "dependencies"),
+	);
+	return {
+		packageJsonPath: options.packageJsonPath,
+		unusedDependencies,
+		undeclaredDependencies: sortedUsages.filter((usage) => !isDeclared(usage)),
+		typeOnlyDependencies: sortedUsages.filter(
+			(usage) =>
+				runtimeDependencies.has(usage.packageName) &&
+				usage.locations.every((location) => location.isTypeOnly),
+		),
+		scannedFiles: sourceFiles.length,
+	};
+}
@@ -0,0 +1,164 @@
+import { describe, expect, it } from "vitest";
+import { createInMemoryProjectWithDoubleQuotes } from "../_test-utils/create-in-memory-project";
+import { getFileText } from "../_test-utils/get-file-text";
+import { bypassBarrelImportsOnProject } from "./bypass-barrel-imports";
+
+function createProjectWithBarrel() {
+	const project = createInMemoryProjectWithDoubleQuotes();
+	project.createSourceFile(
+		"/src/components/button.ts",
+		`export const Button = () => "button";
+export type ButtonProps = { label: string };
+`,
+	);
+	project.createSourceFile(
+		"/src/components/card.ts",
+		'export default function Card() {\n  return "card";\n}\n',
+	);
+	project.createSourceFile(
+		"/src/components/nested/index.ts",
+		'export * from "./icon";\n',
+	);
+	project.createSourceFile(
+		"/src/components/nested/icon.ts",
+		'export const Icon = () => "icon";\n',
+	);
+	project.createSourceFile(
+		"/src/components/index.ts",
+		`export { Button, type ButtonProps } from "./button";
+export { default as Card } from "./card";
+export * from "./nested";
+export const VERSION = 1;
+`,
+	);
+	return project;
+}
+
+describe("bypassBarrelImportsOnProject", () => {
+	it("バレルを経由している import を、定義しているファイルからの import に書き換える", async () => {
+		const project = createProjectWithBarrel();
+		project.createSourceFile(
+			"/src/app.ts",
+			`import { Button, Card as MyCard, Icon, VERSION, type ButtonProps } from "./components";
+
+const props: ButtonProps = { label: "ok" };
+export const app = [Button(), MyCard(), Icon(), VERSION, props];
+`,
+		);
+
+		const result = await bypassBarrelImportsOnProject(project, {
+			filePaths: ["/src/app.ts"],
+			dryRun: true,
+		});
+
+		expect(getFileText(project, "/src/app.ts")).toBe(
+			`import { VERSION } from "./components";
+import { Button, type ButtonProps } from "./components/button";
+import MyCard from "./components/card";
+import { Icon } from "./components/nested/icon";
+
+const props: ButtonProps = { label: "ok" };
+export const app = [Button(), MyCard(), Icon(), VERSION, props];
+`,
+		);
+		expect(result.bypassedImports).toEqual([
+			{
+				filePath: "/src/app.ts",
+				barrelFilePath: "/src/components/index.ts",
+				name: "Button",
+				moduleSpecifier: "./components/button",
+			},
+			{
+				filePath: "/src/app.ts",
+				barrelFilePath: "/src/components/index.ts",
+				name: "ButtonProps",
+				moduleSpecifier: "./components/button",
+			},
+			{
+				filePath: "/src/app.ts",
+				barrelFilePath: "/src/components/index.ts",
+				name: "Card",
+				moduleSpecifier: "./components/card",
+			},
+			{
+				filePath: "/src/app.ts",
+				barrelFilePath: "/src/components/index.ts",
+				name: "Icon",
+				moduleSpecifier: "./components/nested/icon",
+			},
+		]);
+		expect(result.changedFiles).toContain("/src/app.ts");
+	});
+
+	it("宣言がすべて書き換わる場合は元の import を置き換え、既存の import にまとめる", async () => {
+		const project = createProjectWithBarrel();
+		project.createSourceFile(
+			"/src/page.ts",
+			`import { Icon } from "./components/nested/icon";
+import type { ButtonProps } from "./components";
+import { Button } from "./components";
+
+export const page = (props: ButtonProps) => [Button(), Icon(), props];
+`,
+		);
+
+		await bypassBarrelImportsOnProject(project, {
+			filePaths: ["/src/page.ts"],
+			dryRun: true,
+		});
+
+		expect(getFileText(project, "/src/page.ts")).toBe(
+			`import { Icon } from "./components/nested/icon";
+import type { ButtonProps } from "./components/button";
+import { Button } from "./components/button";
+
+export const page = (props: ButtonProps) => [Button(), Icon(), props];
+`,
+		);
+	});
+
+	it("barrelFilePaths を指定した場合は、そのバレルを経由する import だけを書き換える", async () => {
+		const project = createProjectWithBarrel();
+		project.createSourceFile(
+			"/src/app.ts",
+			`import { Button } from "./components";
+import { Icon } from "./components/nested";
+
+export const app = [Button(), Icon()];
+`,
+		);
+
+		const result = await bypassBarrelImportsOnProject(project, {
+			filePaths: ["/src/app.ts"],
+			barrelFilePaths: ["/src/components/nested/index.ts"],
+			dryRun: true,
+		});
+
+		expect(getFileText(project, "/src/app.ts")).toBe(
+			`import { Button } from "./components";
+import { Icon } from "./components/nested/icon";
+
+export const app = [Button(), Icon()];
+`,
+		);
+		expect(result.bypassedImports.map((i) => i.name)).toEqual(["Icon"]);
+	});
+
+	it("namespace import とバレル自身で定義された名前は書き換えない", async () => {
+		const project = createProjectWithBarrel();
+		const original = `import * as components from "./components";
+import { VERSION } from "./components";
+
+export const app = [components.Button(), VERSION];
+`;
+		project.createSourceFile("/src/app.ts", original);
+
+		const result = await bypassBarrelImportsOnProject(project, {
+			filePaths: ["/src/app.ts"],
+			dryRun: true,
+		});
+
+		expect(getFileText(project, "/src/app.ts")).toBe(original);
+		expect(result.bypassedImports).toEqual([]);
+	});
+});
@@ -0,0 +1,371 @@
+import {
+	type Identifier,
+	type ImportDeclaration,
+	type ImportSpecifierStructure,
+	Node,
+	type OptionalKind,
+	type Project,
+	type SourceFile,
+} from "ts-morph";
+import logger from "../../utils/logger";
+import { calculateRelativePath } from "../_utils/calculate-relative-path";
+import { collectFileDiffs } from "../_utils/file-diff";
+import { getProject } from "../_utils/project-registry";
+import {
+	getChangedFiles,
+	saveProjectChanges,
+} from "../_utils/ts-morph-project";
+import { selectTargetSourceFiles } from "../code-fixes/select-targets";
+import {
+	prepareJournalEntry,
+	writeJournalEntry,
+} from "../refactor-journal/refactor-journal";
+import type {
+	BypassBarrelImportsParams,
+	BypassBarrelImportsResult,
+	BypassedImport,
+} from "./types";
+
+/** バレルを経由せずに import する先 */
+interface DirectImport {
+	/** 定義しているファイル */
+	sourceFile: SourceFile;
+	/** 定義しているファイルでの export 名 ("default" はデフォルトエクスポート) */
+	exportName: string;
+}
+
+/**
+ * import した名前が re-export を経由している場合に、定義しているファイルとそこでの export 名を返す。
+ * import 先のモジュール自身で定義されている名前、パッケージや宣言ファイルで定義されている名前、
+ * 名前空間の re-export (`export * as ns from`) は対象外。
+ */
+function findDirectImport(
+	nameNode: Identifier,
+	moduleFile: SourceFile,
+	importedName: string,
+): DirectImport | undefined {
+	const symbol = nameNode.getSymbol();
+	const resolved = symbol?.isAlias() ? symbol.getAliasedSymbol() : symbol;
+	const declaration = resolved?.getDeclarations()[0];
+	if (!resolved || !declaration || Node.isSourceFile(declaration)) {
+		return undefined;
+	}
+	const sourceFile = declaration.getSourceFile();
+	if (
+		sourceFile === moduleFile ||
+		sourceFile === nameNode.getSourceFile() ||
+		sourceFile.isInNodeModules() ||
+		sourceFile.isDeclarationFile()
+	) {
+		return undefined;
+	}
+
+	const exportNames = sourceFile
+		.getExportSymbols()
+		.filter((exportSymbol) => {
+			const target = exportSymbol.isAlias()
+				? exportSymbol.getAliasedSymbol()
+				: exportSymbol;
+			return target?.getDeclarations()[0] === declaration;
+		})
+		.map((exportSymbol) => exportSymbol.getName());
+	if (exportNames.length === 0) {
+		return undefined;
+	}
+	return {
+		sourceFile,
+		exportName: exportNames.includes(importedName)
+			? importedName
+			: exportNames[0],
+	};
+}
+
+/** バレルを経由している import の名前 1 つ分 */
+interface RedirectedBinding {
+	direct: DirectImport;
+	/** import していた名前 (default import の場合は "default") */
+	importedName: string;
+	localName: string;
+	isTypeOnly: boolean;
+}
+
+/** 1 つの import 宣言の書き換え計画 */
+interface ImportDeclarationPlan {
+	importDeclaration: ImportDeclaration;
+	moduleFile: SourceFile;
+	bindings: RedirectedBinding[];
+}
+
+/** 定義しているファイルへの 1 つの import 宣言に書く内容 */
+interface DirectImportDeclaration {
+	moduleSpecifier: string;
+	defaultImport?: string;
+	namedImports: OptionalKind<ImportSpecifierStructure>[];
+	bindings: RedirectedBinding[];
+}
+
+/**
+ * import 宣言のうちバレルを経由している名前を集める。
+ * 書き換えると型チェッカーの結果が作り直されるため、すべてのファイルの計画を立ててから書き換える。
+ */
+function planImportDeclaration(
+	importDeclaration: ImportDeclaration,
+	moduleFile: SourceFile,
+): ImportDeclarationPlan {
+	const bindings: RedirectedBinding[] = [];
+	const defaultImport = importDeclaration.getDefaultImport();
+	if (defaultImport) {
+		const direct = findDirectImport(defaultImport, moduleFile, "default");
+		if (direct) {
+			bindings.push({
+				direct,
+				importedName: "default",
+				localName: defaultImport.getText(),
+				isTypeOnly: false,
+			});
+		}
+	}
+	for (const specifier of importDeclaration.getNamedImports()) {
+		const nameNode = specifier.getNameNode();
+		if (!Node.isIdentifier(nameNode)) continue;
+		const importedName = nameNode.getText();
+		const direct = findDirectImport(nameNode, moduleFile, importedName);
+		if (!direct) continue;
+		bindings.push({
+			direct,
+			importedName,
+			localName: specifier.getAliasNode()?.getText() ?? importedName,
+			isTypeOnly: specifier.isTypeOnly(),
+		});
+	}
+	return { importDeclaration, moduleFile, bindings };
+}
+
+/**
+ * バレルを経由している名前を、定義しているファイルごとの import 宣言の内容にまとめる。
+ */
+function groupByDefiningFile(
+	importingFilePath: string,
+	bindings: readonly RedirectedBinding[],
+): DirectImportDeclaration[] {
+	const byFile = new Map<SourceFile, DirectImportDeclaration>();
+	for (const binding of bindings) {
+		const { sourceFile, exportName } = binding.direct;
+		const declaration = byFile.get(sourceFile) ?? {
+			moduleSpecifier: calculateRelativePath(
+				importingFilePath,
+				sourceFile.getFilePath(),
+			),
+			namedImports: [],
+			bindings: [],
+		};
+		byFile.set(sourceFile, declaration);
+		declaration.bindings.push(binding);
+		// デフォルトインポートは 1 つの宣言に 1 つまでなので、2 つ目以降は `default as` で書く
+		if (
+			exportName === "default" &&
+			!declaration.defaultImport &&
+			!binding.isTypeOnly
+		) {
+			declaration.defaultImport = binding.localName;
+			continue;
+		}
+		declaration.namedImports.push({
+			name: exportName,
+			alias: exportName === binding.localName ? undefined : binding.localName,
+			isTypeOnly: binding.isTypeOnly,
+		});
+	}
+	return [...byFile.values()];
+}
+
+/**
+ * 定義しているファイルへの import を追加する。同じ指定子の既存の import 宣言があればそこにまとめる。
+ */
+function addDirectImport(
+	sourceFile: SourceFile,
+	index: number,
+	isTypeOnly: boolean,
+	directImport: DirectImportDeclaration,
+): void {
+	const mergeTarget = sourceFile.getImportDeclaration(
+		(decl) =>
+			decl.getModuleSpecifierValue() === directImport.moduleSpecifier &&
+			decl.isTypeOnly() === isTypeOnly &&
+			!decl.getNamespaceImport() &&
+			!(directImport.defaultImport && decl.getDefaultImport()),
+	);
+	if (mergeTarget) {
+		if (directImport.defaultImport) {
+			mergeTarget.setDefaultImport(directImport.defaultImport);
+		}
+		if (directImport.namedImports.length > 0) {
+			mergeTarget.addNamedImports(directImport.namedImports);
+		}
+		return;
+	}
+	sourceFile.insertImportDeclaration(index, {
+		moduleSpecifier: directImport.moduleSpecifier,
+		defaultImport: directImport.defaultImport,
+		namedImports:
+			directImport.namedImports.length > 0
+				? directImport.namedImports
+				: undefined,
+		isTypeOnly,
+	});
+}
+
+/**
+ * 計画に従って import 宣言からバレルを経由している名前を取り除き、定義しているファイルからの import を直後に追加する。
+ * 元の宣言が空になった場合は、その位置に置き換える。
+ */
+function applyImportDeclarationPlan({
+	importDeclaration,
+	moduleFile,
+	bindings,
+}: ImportDeclarationPlan): BypassedImport[] {
+	const sourceFile = importDeclaration.getSourceFile();
+	const isTypeOnly = importDeclaration.isTypeOnly();
+	const redirectedNames = new Set(
+		bindings.map((binding) => binding.importedName),
+	);
+	if (redirectedNames.has("default")) {
+		importDeclaration.removeDefaultImport();
+	}
+	for (const specifier of importDeclaration.getNamedImports()) {
+		if (redirectedNames.has(specifier.getName())) {
+			specifier.remove();
+		}
+	}
+
+	let index = importDeclaration.getChildIndex();
+	if (
+		!importDeclaration.getDefaultImport() &&
+		!importDeclaration.getNamespaceImport() &&
+		importDeclaration.getNamedImports().length === 0
+	) {
+		importDeclaration.remove();
+	} else {
+		index++;
+	}
+
+	const bypassed: BypassedImport[] = [];
+	for (const directImport of groupByDefiningFile(
+		sourceFile.getFilePath(),
+		bindings,
+	)) {
+		addDirectImport(sourceFile, index, isTypeOnly, directImport);
+		index++;
+		for (const binding of directImport.bindings) {
+			bypassed.push({
+				filePath: sourceFile.getFilePath(),
+				barrelFilePath: moduleFile.getFilePath(),
+				name: binding.importedName,
+				moduleSpecifier: directImport.moduleSpecifier,
+			});
+		}
+	}
+	return bypassed;
+}
+
+/**
+ * ファイルの import のうち、バレルを経由しているものの書き換え計画を立てる。
+ */
+function planFile(
+	sourceFile: SourceFile,
+	barrelFilePaths: ReadonlySet<string> | undefined,
+): ImportDeclarationPlan[] {
+	return sourceFile.getImportDeclarations().flatMap((importDeclaration) => {
+		const moduleFile = importDeclaration.getModuleSpecifierSourceFile();
+		if (
+			!moduleFile ||
+			moduleFile.isInNodeModules() ||
+			(barrelFilePaths && !barrelFilePaths.has(moduleFile.getFilePath()))
+		) {
+			return [];
+		}
+		const plan = planImportDeclaration(importDeclaration, moduleFile);
+		return plan.bindings.length > 0 ? [plan] : [];
+	});
+}
+
+/**
+ * バレルファイル (re-export をまとめた index.ts など) を経由している import を、定義しているファイルからの import に書き換える。
+ *
+ * tsconfigPath からプロジェクトを取得して `bypassBarrelImportsOnProject` に委譲する。
+ */
+export async function bypassBarrelImports(
+	params: BypassBarrelImportsParams,
+): Promise<BypassBarrelImportsResult> {
+	const project = getProject(params.tsconfigPath);
+	return bypassBarrelImportsOnProject(project, params);
+}
+
+/**
+ * 既存の Project に対してバレルを経由する import の書き換えを適用する内部 API。
+ *
+ * import した名前を型チェッカーで re-export の連鎖の先まで解決し、定義しているファイルが
+ * import 先のモジュールと異なる名前だけを書き換える。バレル自身で定義されている名前や
+ * namespace import (`import * as x`) はそのまま残す。
+ */
+export async function bypassBarrelImportsOnProject(
+	project: Project,
+	{
+		filePaths,
+		directory,
+		barrelFilePaths,
+		dryRun = false,
+		includeDiff = false,
+	}: Omit<BypassBarrelImportsParams, "tsconfigPath">,
+): Promise<BypassBarrelImportsResult> {
+	logger.debug(
+		{ filePaths, directory, barrelFilePaths },
+		"bypassBarrelImports 開始",
+	);
+
+	for (const barrelFilePath of barrelFilePaths ?? []) {
+		if (!project.getSourceFile(barrelFilePath)) {
+			throw new Error(
+				`バレルファイルがプロジェクトに含まれていません: ${barrelFilePath}`,
+			);
+		}
+	}
+	const sourceFiles = selectTargetSourceFiles(project, {
+		filePaths,
+		directory,
+	});
+	const barrels = barrelFilePaths ? new Set(barrelFilePaths) : undefined;
+
+	const plans = sourceFiles.flatMap((sourceFile) =>
+		planFile(sourceFile, barrels),
+	);
+	const bypassedImports = plans.flatMap(applyImportDeclarationPlan);
+
+	const changedSourceFiles = getChangedFiles(project);
+	const changedFiles = changedSourceFiles.map((sf) => sf.getFilePath());
+	const diffs = includeDiff
+		? collectFileDiffs(project, changedSourceFiles)
+		: undefined;
+
+	if (!dryRun && changedSourceFiles.length > 0) {
+		const journal = prepareJournalEntry(project, {
+			operation: "bypassBarrelImports",
+		});
+		await saveProjectChanges(project);
+		writeJournalEntry(journal);
+		logger.info(
+			{
+				changedFileCount: changedFiles.length,
+				bypassedImportCount: bypassedImports.length,
+			},
+			"bypassBarrelImports 保存完了",
+		);
+	}
+
+	return {
+		bypassedImports,
+		checkedFileCount: sourceFiles.length,
+		changedFiles,
+		diffs,
+	};
+}
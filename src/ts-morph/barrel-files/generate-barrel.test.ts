@@ -0,0 +1,140 @@
+import { describe, expect, it } from "vitest";
+import { createInMemoryProjectWithDoubleQuotes } from "../_test-utils/create-in-memory-project";
+import { getFileText } from "../_test-utils/get-file-text";
+import { generateBarrelOnProject } from "./generate-barrel";
+
+function createComponentsProject() {
+	const project = createInMemoryProjectWithDoubleQuotes();
+	project.createSourceFile(
+		"/src/components/button.ts",
+		`export const Button = () => "button";
+export interface ButtonProps {
+  label: string;
+}
+export default Button;
+`,
+	);
+	project.createSourceFile(
+		"/src/components/card.ts",
+		'export function Card() {\n  return "card";\n}\n',
+	);
+	project.createSourceFile(
+		"/src/components/button.test.ts",
+		'export const testOnly = "x";\n',
+	);
+	project.createSourceFile(
+		"/src/components/icons/index.ts",
+		'export { Icon } from "./icon";\n',
+	);
+	project.createSourceFile(
+		"/src/components/icons/icon.ts",
+		'export const Icon = () => "icon";\n',
+	);
+	project.createSourceFile(
+		"/src/components/forms/input.ts",
+		'export const Input = () => "input";\n',
+	);
+	return project;
+}
+
+describe("generateBarrelOnProject", () => {
+	it("ディレクトリのファイルとバレルを持つサブディレクトリの export からバレルを作る", async () => {
+		const project = createComponentsProject();
+
+		const result = await generateBarrelOnProject(project, {
+			directory: "/src/components",
+			dryRun: true,
+		});
+
+		expect(result.created).toBe(true);
+		expect(result.barrelFilePath).toBe("/src/components/index.ts");
+		expect(getFileText(project, "/src/components/index.ts")).toBe(
+			`export { Button } from "./button";
+export type { ButtonProps } from "./button";
+export { Card } from "./card";
+export { Icon } from "./icons";
+`,
+		);
+		expect(result.exportedFiles).toEqual([
+			"/src/components/button.ts",
+			"/src/components/card.ts",
+			"/src/components/icons/index.ts",
+		]);
+		expect(result.conflicts).toEqual([]);
+	});
+
+	it("既存のバレルはディレクトリ内を指す re-export だけを生成し直し、それ以外は残す", async () => {
+		const project = createComponentsProject();
+		project.createSourceFile(
+			"/src/components/index.ts",
+			`/** UI コンポーネント */
+export { Card } from "./card";
+export { Removed } from "./removed";
+export const VERSION = 1;
+`,
+		);
+
+		const result = await generateBarrelOnProject(project, {
+			directory: "/src/components",
+			dryRun: true,
+		});
+
+		expect(result.created).toBe(false);
+		expect(getFileText(project, "/src/components/index.ts")).toBe(
+			`/** UI コンポーネント */
+export const VERSION = 1;
+
+export { Button } from "./button";
+export type { ButtonProps } from "./button";
+export { Card } from "./card";
+export { Icon } from "./icons";
+`,
+		);
+	});
+
+	it("内容が変わらない場合はファイルを変更しない", async () => {
+		const project = createComponentsProject();
+		await generateBarrelOnProject(project, {
+			directory: "/src/components",
+			dryRun: false,
+		});
+
+		const result = await generateBarrelOnProject(project, {
+			directory: "/src/components",
+			dryRun: true,
+		});
+
+		expect(result.changedFiles).toEqual([]);
+	});
+
+	it("同じ名前を export しているファイルがある場合は re-export せずに衝突として返す", async () => {
+		const project = createComponentsProject();
+		project.createSourceFile(
+			"/src/components/legacy-card.ts",
+			'export const Card = () => "legacy";\nexport const LegacyCard = Card;\n',
+		);
+
+		const result = await generateBarrelOnProject(project, {
+			directory: "/src/components",
+			dryRun: true,
+		});
+
+		expect(result.conflicts).toEqual([
+			{
+				name: "Card",
+				filePaths: [
+					"/src/components/card.ts",
+					"/src/components/legacy-card.ts",
+				],
+			},
+		]);
+		expect(getFileText(project, "/src/components/index.ts")).toBe(
+			`export { Button } from "./button";
+export type { ButtonProps } from "./button";
+export { Icon } from "./icons";
+export { LegacyCard } from "./legacy-card";
+`,
+		);
+		expect(result.exportedFiles).not.toContain("/src/components/card.ts");
+	});
+});
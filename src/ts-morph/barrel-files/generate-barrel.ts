@@ -0,0 +1,336 @@
+import * as path from "node:path";
+import {
+	type Directory,
+	type ExportDeclaration,
+	Node,
+	type Project,
+	type SourceFile,
+	type Symbol as TsMorphSymbol,
+} from "ts-morph";
+import logger from "../../utils/logger";
+import { calculateRelativePath } from "../_utils/calculate-relative-path";
+import { collectFileDiffs } from "../_utils/file-diff";
+import { getProject } from "../_utils/project-registry";
+import {
+	getChangedFiles,
+	saveProjectChanges,
+} from "../_utils/ts-morph-project";
+import {
+	prepareJournalEntry,
+	writeJournalEntry,
+} from "../refactor-journal/refactor-journal";
+import type {
+	BarrelNameConflict,
+	GenerateBarrelParams,
+	GenerateBarrelResult,
+} from "./types";
+
+const DEFAULT_BARREL_FILE_NAME = "index.ts";
+/** サブディレクトリのバレルとして扱うファイル名 (barrelFileName に加えて) */
+const SUBDIRECTORY_BARREL_FILE_NAMES = ["index.ts", "index.tsx"];
+/** re-export しない export 名 (default export と `export =`) */
+const NON_REEXPORTED_NAMES = ["default", "export="];
+/** バレルから re-export しないファイル */
+const EXCLUDED_FILE_PATTERN = /\.(test|spec|stories)\.[cm]?[jt]sx?$/;
+
+/** バレルから re-export するモジュール 1 つ分 */
+interface BarrelModule {
+	sourceFile: SourceFile;
+	moduleSpecifier: string;
+	/** re-export する名前 (default は含めない) と、型だけの export か */
+	exports: { name: string; isTypeOnly: boolean }[];
+}
+
+/**
+ * export された名前が型だけを指すか (`export type { }` で re-export すべきか)。
+ */
+function isTypeOnlyExport(exportSymbol: TsMorphSymbol): boolean {
+	const exportDeclaration = exportSymbol.getDeclarations()[0];
+	if (
+		Node.isExportSpecifier(exportDeclaration) &&
+		(exportDeclaration.isTypeOnly() ||
+			exportDeclaration.getExportDeclaration().isTypeOnly())
+	) {
+		return true;
+	}
+	const target = exportSymbol.isAlias()
+		? exportSymbol.getAliasedSymbol()
+		: exportSymbol;
+	const declarations = target?.getDeclarations() ?? [];
+	return (
+		declarations.length > 0 &&
+		declarations.every(
+			(declaration) =>
+				Node.isInterfaceDeclaration(declaration) ||
+				Node.isTypeAliasDeclaration(declaration),
+		)
+	);
+}
+
+/**
+ * ディレクトリ直下のファイルと、バレルを持つサブディレクトリを、re-export するモジュールとして集める。
+ * テストなどのファイル、宣言ファイル、バレル自身は含めない。
+ */
+function collectBarrelModules(
+	directory: Directory,
+	barrelFilePath: string,
+	barrelFileName: string,
+): BarrelModule[] {
+	const files = directory
+		.getSourceFiles()
+		.filter(
+			(sf) =>
+				sf.getFilePath() !== barrelFilePath &&
+				!sf.isDeclarationFile() &&
+				!EXCLUDED_FILE_PATTERN.test(sf.getBaseName()),
+		);
+	const subdirectoryBarrels = directory.getDirectories().flatMap((sub) => {
+		const barrel = [barrelFileName, ...SUBDIRECTORY_BARREL_FILE_NAMES]
+			.map((fileName) => sub.getSourceFile(fileName))
+			.find((sf) => sf !== undefined);
+		return barrel ? [barrel] : [];
+	});
+
+	return [...files, ...subdirectoryBarrels]
+		.map((sourceFile) => ({
+			sourceFile,
+			// サブディレクトリの index は `./icons/index` ではなく `./icons` で参照する
+			moduleSpecifier: calculateRelativePath(
+				barrelFilePath,
+				sourceFile.getFilePath(),
+			).replace(/\/index$/, ""),
+			exports: sourceFile
+				.getExportSymbols()
+				.filter(
+					(exportSymbol) =>
+						!NON_REEXPORTED_NAMES.includes(exportSymbol.getName()),
+				)
+				.map((exportSymbol) => ({
+					name: exportSymbol.getName(),
+					isTypeOnly: isTypeOnlyExport(exportSymbol),
+				})),
+		}))
+		.filter((module) => module.exports.length > 0)
+		.sort((a, b) => a.moduleSpecifier.localeCompare(b.moduleSpecifier));
+}
+
+/**
+ * 既存のバレルのうち、ツールが管理する re-export (ディレクトリ内のモジュールを指すもの、
+ * 解決できなくなった相対パスのもの) を返す。これらは生成し直した内容で置き換える。
+ */
+function findManagedExportDeclarations(
+	barrel: SourceFile,
+	moduleFiles: ReadonlySet<SourceFile>,
+): ExportDeclaration[] {
+	return barrel.getExportDeclarations().filter((decl) => {
+		const moduleFile = decl.getModuleSpecifierSourceFile();
+		if (moduleFile) {
+			return moduleFiles.has(moduleFile);
+		}
+		return decl.getModuleSpecifierValue()?.startsWith("./") ?? false;
+	});
+}
+
+/**
+ * 既存のバレルで、管理する re-export 以外 (バレル自身の宣言や、ディレクトリ外からの re-export) が export している名前。
+ * 生成する re-export と衝突させないために使う。
+ */
+function collectReservedNames(
+	barrel: SourceFile | undefined,
+	managed: readonly ExportDeclaration[],
+	moduleFiles: ReadonlySet<SourceFile>,
+): Set<string> {
+	if (!barrel) {
+		return new Set();
+	}
+	return new Set(
+		barrel
+			.getExportSymbols()
+			.filter((exportSymbol) =>
+				exportSymbol.getDeclarations().some((declaration) => {
+					if (declaration.getSourceFile() !== barrel) {
+						// `export *` で入ってきた名前
+						return !moduleFiles.has(declaration.getSourceFile());
+					}
+					return !managed.some((decl) =>
+						decl.containsRange(declaration.getPos(), declaration.getEnd()),
+					);
+				}),
+			)
+			.map((exportSymbol) => exportSymbol.getName()),
+	);
+}
+
+/**
+ * 同じ名前を複数のモジュールが export している場合や、バレル自身の export と衝突する場合は、
+ * その名前を re-export せずに衝突として返す。
+ */
+function removeConflicts(
+	modules: readonly BarrelModule[],
+	reservedNames: ReadonlySet<string>,
+	barrelFilePath: string,
+): BarrelNameConflict[] {
+	const owners = new Map<string, string[]>();
+	for (const module of modules) {
+		for (const { name } of module.exports) {
+			owners.set(name, [
+				...(owners.get(name) ?? []),
+				module.sourceFile.getFilePath(),
+			]);
+		}
+	}
+	const conflicts: BarrelNameConflict[] = [];
+	for (const [name, filePaths] of owners) {
+		if (reservedNames.has(name)) {
+			conflicts.push({ name, filePaths: [barrelFilePath, ...filePaths] });
+		} else if (filePaths.length > 1) {
+			conflicts.push({ name, filePaths });
+		}
+	}
+	const conflictNames = new Set(conflicts.map((conflict) => conflict.name));
+	for (const module of modules) {
+		module.exports = module.exports.filter(
+			({ name }) => !conflictNames.has(name),
+		);
+	}
+	return conflicts;
+}
+
+function buildExportLines(modules: readonly BarrelModule[]): string[] {
+	return modules.flatMap(({ moduleSpecifier, exports }) => {
+		const valueNames = exports.filter((e) => !e.isTypeOnly).map((e) => e.name);
+		const typeNames = exports.filter((e) => e.isTypeOnly).map((e) => e.name);
+		return [
+			...(valueNames.length > 0
+				? [`export { ${valueNames.join(", ")} } from "${moduleSpecifier}";`]
+				: []),
+			...(typeNames.length > 0
+				? [`export type { ${typeNames.join(", ")} } from "${moduleSpecifier}";`]
+				: []),
+		];
+	});
+}
+
+/**
+ * 既存のバレルから管理する re-export を取り除いた残りの内容。
+ */
+function getUnmanagedText(
+	barrel: SourceFile,
+	managed: readonly ExportDeclaration[],
+): string {
+	let text = barrel.getFullText();
+	for (const decl of [...managed].sort((a, b) => b.getStart() - a.getStart())) {
+		// 文の後ろの改行も取り除き、取り除いた文の位置に空行を残さない
+		const end = text.startsWith("\n", decl.getEnd())
+			? decl.getEnd() + 1
+			: decl.getEnd();
+		text = text.slice(0, decl.getStart()) + text.slice(end);
+	}
+	return text.replace(/\n\s*\n(\s*\n)+/g, "\n\n").trim();
+}
+
+/**
+ * ディレクトリのバレルファイル (index.ts) を、ディレクトリ内のファイルの export から生成・更新する。
+ *
+ * tsconfigPath からプロジェクトを取得して `generateBarrelOnProject` に委譲する。
+ */
+export async function generateBarrel(
+	params: GenerateBarrelParams,
+): Promise<GenerateBarrelResult> {
+	const project = getProject(params.tsconfigPath);
+	return generateBarrelOnProject(project, params);
+}
+
+/**
+ * 既存の Project に対してバレルファイルの生成・更新を適用する内部 API。
+ *
+ * ディレクトリ直下のファイルと、バレルを持つサブディレクトリの export を名前付きで re-export する
+ * (型だけのものは `export type`)。default export は re-export しない。
+ * 既存のバレルでは、ディレクトリ内を指す re-export だけを生成し直し、それ以外の内容は先頭に残す。
+ */
+export async function generateBarrelOnProject(
+	project: Project,
+	{
+		directory: directoryPath,
+		barrelFileName = DEFAULT_BARREL_FILE_NAME,
+		dryRun = false,
+		includeDiff = false,
+	}: Omit<GenerateBarrelParams, "tsconfigPath">,
+): Promise<GenerateBarrelResult> {
+	logger.debug({ directoryPath, barrelFileName }, "generateBarrel 開始");
+
+	if (barrelFileName.includes("/") || barrelFileName.includes("\\")) {
+		throw new Error(
+			`barrelFileName にはファイル名だけを指定してください: ${barrelFileName}`,
+		);
+	}
+	const directory = project.getDirectory(path.resolve(directoryPath));
+	if (!directory) {
+		throw new Error(
+			`ディレクトリ配下にプロジェクトのファイルがありません: ${directoryPath}`,
+		);
+	}
+	const barrelFilePath = path.join(directory.getPath(), barrelFileName);
+	const existingBarrel = project.getSourceFile(barrelFilePath);
+
+	const modules = collectBarrelModules(
+		directory,
+		barrelFilePath,
+		barrelFileName,
+	);
+	const moduleFiles = new Set(modules.map((module) => module.sourceFile));
+	const managed = existingBarrel
+		? findManagedExportDeclarations(existingBarrel, moduleFiles)
+		: [];
+	const conflicts = removeConflicts(
+		modules,
+		collectReservedNames(existingBarrel, managed, moduleFiles),
+		barrelFilePath,
+	);
+	const exportLines = buildExportLines(modules);
+	if (!existingBarrel && exportLines.length === 0) {
+		throw new Error(
+			`${directoryPath} には re-export できる export がありません`,
+		);
+	}
+
+	const unmanagedText = existingBarrel
+		? getUnmanagedText(existingBarrel, managed)
+		: "";
+	const content = `${[unmanagedText, exportLines.join("\n")]
+		.filter((part) => part.length > 0)
+		.join("\n\n")}\n`;
+	const barrel = existingBarrel ?? project.createSourceFile(barrelFilePath, "");
+	if (barrel.getFullText() !== content) {
+		barrel.replaceText([0, barrel.getEnd()], content);
+	}
+
+	const changedSourceFiles = getChangedFiles(project);
+	const changedFiles = changedSourceFiles.map((sf) => sf.getFilePath());
+	const diffs = includeDiff
+		? collectFileDiffs(project, changedSourceFiles)
+		: undefined;
+
+	if (!dryRun && changedSourceFiles.length > 0) {
+		const journal = prepareJournalEntry(project, {
+			operation: "generateBarrel",
+		});
+		await saveProjectChanges(project);
+		writeJournalEntry(journal);
+		logger.info(
+			{ barrelFilePath, moduleCount: modules.length },
+			"generateBarrel 保存完了",
+		);
+	}
+
+	return {
+		barrelFilePath,
+		created: !existingBarrel,
+		exportedFiles: modules
+			.filter((module) => module.exports.length > 0)
+			.map((module) => module.sourceFile.getFilePath()),
+		conflicts,
+		changedFiles,
+		diffs,
+	};
+}
@@ -0,0 +1,63 @@
+import type { FileDiff } from "../_utils/file-diff";
+import type { SourceFileSelection } from "../_utils/select-source-files";
+
+/** filePaths / directory の少なくとも一方が必要 */
+export interface BypassBarrelImportsParams extends SourceFileSelection {
+	tsconfigPath: string;
+	/**
+	 * 書き換える import の参照先のバレルファイル。省略時は、re-export を経由している import をすべて書き換える
+	 */
+	barrelFilePaths?: string[];
+	dryRun?: boolean;
+	/** true の場合、保存前の in-memory の内容とディスクとの unified diff を返す */
+	includeDiff?: boolean;
+}
+
+/** バレルを経由していた import の 1 つの名前の書き換え */
+export interface BypassedImport {
+	filePath: string;
+	/** import で参照していたバレルファイル */
+	barrelFilePath: string;
+	/** import していた名前 (default import の場合は "default") */
+	name: string;
+	/** 書き換え後のモジュール指定子 */
+	moduleSpecifier: string;
+}
+
+export interface BypassBarrelImportsResult {
+	bypassedImports: BypassedImport[];
+	/** 書き換えの対象として調べたファイルの数 */
+	checkedFileCount: number;
+	changedFiles: string[];
+	/** `includeDiff: true` のときのみ設定される */
+	diffs?: FileDiff[];
+}
+
+export interface GenerateBarrelParams {
+	tsconfigPath: string;
+	/** バレルを作るディレクトリ */
+	directory: string;
+	/** バレルのファイル名。省略時は "index.ts" */
+	barrelFileName?: string;
+	dryRun?: boolean;
+	/** true の場合、保存前の in-memory の内容とディスクとの unified diff を返す */
+	includeDiff?: boolean;
+}
+
+/** 複数のファイルが同じ名前を export しているため re-export しなかった名前 */
+export interface BarrelNameConflict {
+	name: string;
+	filePaths: string[];
+}
+
+export interface GenerateBarrelResult {
+	barrelFilePath: string;
+	/** true の場合はバレルを新しく作った (false は既存のバレルを更新した) */
+	created: boolean;
+	/** バレルから re-export しているファイル (サブディレクトリのバレルを含む) */
+	exportedFiles: string[];
+	conflicts: BarrelNameConflict[];
+	changedFiles: string[];
+	/** `includeDiff: true` のときのみ設定される */
+	diffs?: FileDiff[];
+}
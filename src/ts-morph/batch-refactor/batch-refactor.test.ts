@@ -0,0 +1,147 @@
+import type { Project } from "ts-morph";
+import { describe, expect, it } from "vitest";
+import { createInMemoryProject } from "../_test-utils/create-in-memory-project";
+import { batchRefactor } from "./batch-refactor";
+
+function setup(files: Record<string, string>): Project {
+	const project = createInMemoryProject();
+	for (const [path, content] of Object.entries(files)) {
+		project.createSourceFile(path, content, { overwrite: true });
+	}
+	project.saveSync();
+	return project;
+}
+
+function readDisk(project: Project, filePath: string): string | undefined {
+	const fileSystem = project.getFileSystem();
+	return fileSystem.fileExistsSync(filePath)
+		? fileSystem.readFileSync(filePath)
+		: undefined;
+}
+
+describe("batchRefactor", () => {
+	it("rename → move → changeSignature を順番に適用してまとめて保存する", async () => {
+		const project = setup({
+			"/src/utils.ts":
+				"export function greet(name: string) {\n\treturn name;\n}\n",
+			"/src/main.ts":
+				'import { greet } from "./utils";\n\nconsole.log(greet("a"));\n',
+		});
+
+		const result = await batchRefactor(project, {
+			operations: [
+				{
+					kind: "renameSymbol",
+					targetFilePath: "/src/utils.ts",
+					position: { line: 1, column: 17 },
+					symbolName: "greet",
+					newName: "sayHello",
+				},
+				{
+					kind: "moveSymbol",
+					originalFilePath: "/src/utils.ts",
+					targetFilePath: "/src/hello.ts",
+					symbolToMove: "sayHello",
+				},
+				{
+					kind: "changeSignature",
+					targetFilePath: "/src/hello.ts",
+					position: { line: 1, column: 17 },
+					functionName: "sayHello",
+					changes: [
+						{
+							kind: "add",
+							name: "suffix",
+							typeText: "string",
+							argumentForCallers: '"!"',
+						},
+					],
+				},
+			],
+		});
+
+		expect(result.steps.map((s) => s.kind)).toEqual([
+			"renameSymbol",
+			"moveSymbol",
+			"changeSignature",
+		]);
+		expect(result.changedFiles.sort()).toEqual([
+			"/src/hello.ts",
+			"/src/main.ts",
+			"/src/utils.ts",
+		]);
+		expect(readDisk(project, "/src/hello.ts")).toContain(
+			"export function sayHello(name: string, suffix: string)",
+		);
+		const mainText = readDisk(project, "/src/main.ts");
+		expect(mainText).toContain('import { sayHello } from "./hello";');
+		expect(mainText).toContain('sayHello("a", "!")');
+	});
+
+	it("途中のステップが失敗した場合はどのファイルも保存しない", async () => {
+		const original = "export const value = 1;\n";
+		const project = setup({
+			"/src/a.ts": original,
+			"/src/b.ts": 'import { value } from "./a";\nconsole.log(value);\n',
+		});
+
+		await expect(
+			batchRefactor(project, {
+				operations: [
+					{
+						kind: "renameSymbol",
+						targetFilePath: "/src/a.ts",
+						position: { line: 1, column: 14 },
+						symbolName: "value",
+						newName: "renamed",
+					},
+					{
+						kind: "moveSymbol",
+						originalFilePath: "/src/a.ts",
+						targetFilePath: "/src/c.ts",
+						symbolToMove: "doesNotExist",
+					},
+				],
+			}),
+		).rejects.toThrow(/ステップ 2 \(moveSymbol\)/);
+
+		expect(readDisk(project, "/src/a.ts")).toBe(original);
+		expect(readDisk(project, "/src/c.ts")).toBeUndefined();
+	});
+
+	it("dryRun ではディスクを変更せず、includeDiff で削除されるファイルも差分に含める", async () => {
+		const project = setup({
+			"/src/old-name.ts": "export const a = 1;\n",
+			"/src/main.ts": 'import { a } from "./old-name";\n',
+		});
+
+		const result = await batchRefactor(project, {
+			operations: [
+				{
+					kind: "renameFileSystemEntry",
+					renames: [
+						{ oldPath: "/src/old-name.ts", newPath: "/src/new-name.ts" },
+					],
+				},
+			],
+			dryRun: true,
+			includeDiff: true,
+		});
+
+		expect(result.removedFiles).toEqual(["/src/old-name.ts"]);
+		expect(result.diffs?.map((d) => d.filePath).sort()).toEqual([
+			"/src/main.ts",
+			"/src/new-name.ts",
+			"/src/old-name.ts",
+		]);
+		expect(readDisk(project, "/src/old-name.ts")).toBe("export const a = 1;\n");
+		expect(readDisk(project, "/src/new-name.ts")).toBeUndefined();
+	});
+
+	it("operations が空の場合はエラー", async () => {
+		const project = setup({ "/src/a.ts": "export {};\n" });
+		await expect(batchRefactor(project, { operations: [] })).rejects.toThrow(
+			"operations 配列が空です",
+		);
+	});
+});
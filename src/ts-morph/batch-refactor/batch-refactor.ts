@@ -0,0 +1,158 @@
+import type { Project } from "ts-morph";
+import logger from "../../utils/logger";
+import { collectFileDiffs, collectRemovedFileDiffs } from "../_utils/file-diff";
+import {
+	getChangedFiles,
+	saveProjectChanges,
+} from "../_utils/ts-morph-project";
+import { changeSignatureOnProject } from "../change-signature/change-signature";
+import { moveSymbolToFile } from "../move-symbol-to-file/move-symbol-to-file";
+import {
+	prepareJournalEntry,
+	writeJournalEntry,
+} from "../refactor-journal/refactor-journal";
+import { removePathAlias } from "../remove-path-alias/remove-path-alias";
+import { cleanupEmptyOldDirectories } from "../rename-file-system/cleanup-empty-old-directories";
+import { renameFileSystemEntry } from "../rename-file-system/rename-file-system-entry";
+import { renameSymbolOnProject } from "../rename-symbol/rename-symbol";
+import type { PathMapping } from "../types";
+import type {
+	BatchRefactorOperation,
+	BatchRefactorParams,
+	BatchRefactorResult,
+	BatchRefactorStepResult,
+} from "./types";
+
+/**
+ * 複数のリファクタリング操作を 1 つの Project 上で順番に適用し、
+ * すべて成功した場合にだけまとめて保存する。
+ *
+ * 各ステップは dryRun として (in-memory のみで) 実行するので、途中のステップが失敗した場合は
+ * ディスクには何も書き込まれない。失敗時の in-memory の Project は中途半端な状態になるため、
+ * 呼び出し側で破棄すること (project-registry は未保存の変更が残った Project を自動で作り直す)。
+ */
+export async function batchRefactor(
+	project: Project,
+	{ operations, dryRun = false, includeDiff = false }: BatchRefactorParams,
+): Promise<BatchRefactorResult> {
+	if (operations.length === 0) {
+		throw new Error("operations 配列が空です");
+	}
+
+	const initialFilePaths = project
+		.getSourceFiles()
+		.map((sf) => sf.getFilePath());
+	const directoryRenames: PathMapping[] = [];
+	const steps: BatchRefactorStepResult[] = [];
+
+	for (const [index, operation] of operations.entries()) {
+		logger.debug(
+			{ step: index + 1, kind: operation.kind },
+			"batchRefactor: ステップ開始",
+		);
+		try {
+			await applyOperation(project, operation, directoryRenames);
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			throw new Error(
+				`ステップ ${index + 1} (${operation.kind}) で失敗したため、どのファイルも変更していません: ${message}`,
+			);
+		}
+		steps.push({
+			kind: operation.kind,
+			changedFileCount: getChangedFiles(project).length,
+		});
+	}
+
+	const changedSourceFiles = getChangedFiles(project);
+	const removedFiles = initialFilePaths.filter(
+		(filePath) => !project.getSourceFile(filePath),
+	);
+	const diffs = includeDiff
+		? [
+				...collectFileDiffs(project, changedSourceFiles),
+				...collectRemovedFileDiffs(project, removedFiles),
+			]
+		: undefined;
+
+	if (!dryRun) {
+		const journal = prepareJournalEntry(project, {
+			operation: "batchRefactor",
+			removedFilePaths: removedFiles,
+		});
+		await saveProjectChanges(project);
+		// 保存 (= ファイル移動の反映) 後でないと旧ディレクトリが空にならない
+		const removedDirectories = cleanupEmptyOldDirectories(
+			project,
+			directoryRenames,
+		);
+		writeJournalEntry(journal, { removedDirectories });
+		logger.info(
+			{ stepCount: steps.length, changedFileCount: changedSourceFiles.length },
+			"batchRefactor 保存完了",
+		);
+	}
+
+	return {
+		steps,
+		changedFiles: changedSourceFiles.map((sf) => sf.getFilePath()),
+		removedFiles,
+		diffs,
+	};
+}
+
+async function applyOperation(
+	project: Project,
+	operation: BatchRefactorOperation,
+	directoryRenames: PathMapping[],
+): Promise<void> {
+	switch (operation.kind) {
+		case "renameSymbol":
+			await renameSymbolOnProject(project, {
+				targetFilePath: operation.targetFilePath,
+				position: operation.position,
+				symbolName: operation.symbolName,
+				newName: operation.newName,
+				dryRun: true,
+			});
+			return;
+		case "moveSymbol":
+			await moveSymbolToFile(
+				project,
+				operation.originalFilePath,
+				operation.targetFilePath,
+				operation.symbolToMove,
+				operation.declarationKind,
+				{ defaultExport: operation.defaultExport },
+			);
+			return;
+		case "renameFileSystemEntry":
+			for (const rename of operation.renames) {
+				if (project.getDirectory(rename.oldPath)) {
+					directoryRenames.push(rename);
+				}
+			}
+			await renameFileSystemEntry({
+				project,
+				renames: operation.renames,
+				dryRun: true,
+			});
+			return;
+		case "changeSignature":
+			await changeSignatureOnProject(project, {
+				targetFilePath: operation.targetFilePath,
+				position: operation.position,
+				functionName: operation.functionName,
+				changes: operation.changes,
+				dryRun: true,
+			});
+			return;
+		case "removePathAlias":
+			await removePathAlias({
+				project,
+				targetPath: operation.targetPath,
+				paths: project.compilerOptions.get().paths ?? {},
+			});
+			return;
+	}
+}
@@ -0,0 +1,63 @@
+import type { SyntaxKind } from "ts-morph";
+import type { FileDiff } from "../_utils/file-diff";
+import type { ChangeSignatureOperation } from "../change-signature/types";
+import type { DefaultExportHandling, PathMapping } from "../types";
+
+/**
+ * batch_refactor で実行できる 1 ステップ分の操作。
+ * 位置やパスは「それまでのステップを適用した後」の状態を基準に解釈される。
+ */
+export type BatchRefactorOperation =
+	| {
+			kind: "renameSymbol";
+			targetFilePath: string;
+			position: { line: number; column: number };
+			symbolName: string;
+			newName: string;
+	  }
+	| {
+			kind: "moveSymbol";
+			originalFilePath: string;
+			targetFilePath: string;
+			symbolToMove: string;
+			declarationKind?: SyntaxKind;
+			defaultExport?: DefaultExportHandling;
+	  }
+	| {
+			kind: "renameFileSystemEntry";
+			renames: PathMapping[];
+	  }
+	| {
+			kind: "changeSignature";
+			targetFilePath: string;
+			position: { line: number; column: number };
+			functionName: string;
+			changes: ChangeSignatureOperation[];
+	  }
+	| {
+			kind: "removePathAlias";
+			targetPath: string;
+	  };
+
+export interface BatchRefactorParams {
+	operations: BatchRefactorOperation[];
+	dryRun?: boolean;
+	/** true の場合、保存前の in-memory の内容とディスクとの unified diff を返す */
+	includeDiff?: boolean;
+}
+
+export interface BatchRefactorStepResult {
+	kind: BatchRefactorOperation["kind"];
+	/** ステップ完了時点で未保存になっているファイル (それまでのステップ分を含む) の数 */
+	changedFileCount: number;
+}
+
+export interface BatchRefactorResult {
+	steps: BatchRefactorStepResult[];
+	/** 変更 (新規作成を含む) されたファイルのパス */
+	changedFiles: string[];
+	/** ファイル移動などで削除されたファイルのパス */
+	removedFiles: string[];
+	/** `includeDiff: true` のときのみ設定される */
+	diffs?: FileDiff[];
+}
@@ -16,14 +16,20 @@ import type { ChangeSignatureOperation } from "./types";
  *   optional/defaulted パラメータを想定したケース)。
  * - remove: index が範囲内ならその位置を削除。範囲外なら無変更 (省略された optional 引数のため)。
  * - reorder: 呼び出しの引数数が newOrder の長さと一致しない場合はエラー。
+ * - toObjectParameter: 渡されている引数を、パラメータ名をキーにしたオブジェクトリテラル 1 つにまとめる。
+ *   パラメータ名は parameterNames (操作前の関数のパラメータ名) から、先行する操作を反映して追跡する。
+ * - changeType / changeReturnType: 型注釈だけの変更なので呼び出し側は変えない。
  */
 export function computeNewArgumentTexts(
 	currentArgTexts: readonly string[],
 	operations: readonly ChangeSignatureOperation[],
+	parameterNames: readonly string[] = [],
 ): string[] {
 	let args = [...currentArgTexts];
+	let names = [...parameterNames];
 	for (const op of operations) {
 		if (op.kind === "add") {
+			names.splice(op.index ?? names.length, 0, op.name);
 			if (op.argumentForCallers === undefined) continue;
 			const insertAt = op.index ?? args.length;
 			if (insertAt > args.length) {
@@ -35,6 +41,7 @@ export function computeNewArgumentTexts(
 			continue;
 		}
 		if (op.kind === "remove") {
+			names.splice(op.index, 1);
 			if (op.index >= 0 && op.index < args.length) {
 				args.splice(op.index, 1);
 			}
@@ -47,16 +54,91 @@ export function computeNewArgumentTexts(
 				);
 			}
 			args = op.newOrder.map((index) => args[index]);
+			names = op.newOrder.map((index) => names[index]);
+			continue;
+		}
+		if (op.kind === "toObjectParameter") {
+			if (args.length > names.length) {
+				throw new Error(
+					`toObjectParameter 操作: 呼び出しが ${args.length} 個の引数を渡していますが、パラメータは ${names.length} 個しかありません。`,
+				);
+			}
+			args = args.length === 0 ? [] : [buildObjectArgumentText(names, args)];
+			names = ["options"];
 		}
 	}
 	return args;
 }
 
+/**
+ * 位置引数をパラメータ名のプロパティを持つオブジェクトリテラルにまとめる。
+ * 引数がパラメータと同名の識別子であれば shorthand プロパティにする。
+ */
+function buildObjectArgumentText(
+	names: readonly string[],
+	args: readonly string[],
+): string {
+	const properties = args.map((arg, index) =>
+		arg === names[index] ? arg : `${names[index]}: ${arg}`,
+	);
+	return `{ ${properties.join(", ")} }`;
+}
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][\w$]*$/;
+
+/**
+ * パラメータ列を、分割代入した 1 つのオブジェクトパラメータの構造体に変換する。
+ *
+ * - optional / デフォルト値付きのパラメータは optional プロパティにする (デフォルト値は分割代入側に残す)。
+ * - 全パラメータが省略可能なら、引数なしの呼び出しのため `= {}` をデフォルト値にする。
+ * - 型注釈のないパラメータは呼び出し元 (buildNewParameterStructures) で推論した型を type に入れておくこと。
+ */
+function buildObjectParameterStructure(
+	params: ReadonlyArray<OptionalKind<ParameterDeclarationStructure>>,
+): OptionalKind<ParameterDeclarationStructure> {
+	if (params.length === 0) {
+		throw new Error(
+			"toObjectParameter 操作: パラメータがないためオブジェクトにまとめられません",
+		);
+	}
+	const bindings: string[] = [];
+	const properties: string[] = [];
+	for (const p of params) {
+		if (p.isRestParameter) {
+			throw new Error(
+				`toObjectParameter 操作: rest パラメータ '${p.name}' はオブジェクトにまとめられません`,
+			);
+		}
+		if (!IDENTIFIER_PATTERN.test(p.name) || p.name === "this") {
+			throw new Error(
+				`toObjectParameter 操作: パラメータ '${p.name}' は単純な名前ではないため (分割代入や this パラメータ) オブジェクトにまとめられません`,
+			);
+		}
+		const isOptional =
+			p.hasQuestionToken === true || p.initializer !== undefined;
+		bindings.push(
+			p.initializer !== undefined ? `${p.name} = ${p.initializer}` : p.name,
+		);
+		properties.push(
+			`${p.name}${isOptional ? "?" : ""}: ${p.type ?? "unknown"}`,
+		);
+	}
+	const allOptional = params.every(
+		(p) => p.hasQuestionToken === true || p.initializer !== undefined,
+	);
+	return {
+		name: `{ ${bindings.join(", ")} }`,
+		type: `{ ${properties.join("; ")} }`,
+		initializer: allOptional ? "{}" : undefined,
+	};
+}
+
 /**
  * 関数の Parameter 構造体配列に対して操作列を適用して、新しい構造体配列を計算する。
  *
  * - add の中間挿入で argumentForCallers が無いケースは、呼び出し側が壊れるためここで弾く。
  * - rest パラメータが末尾以外に配置される配列は TypeScript 上不正なので拒否する。
+ * - changeType は index のパラメータの型注釈だけを置き換える (changeReturnType はパラメータに影響しない)。
  */
 export function computeNewParameterStructures(
 	current: ReadonlyArray<OptionalKind<ParameterDeclarationStructure>>,
@@ -122,6 +204,19 @@ export function computeNewParameterStructures(
 				seen.add(i);
 			}
 			params = op.newOrder.map((i) => params[i]);
+			continue;
+		}
+		if (op.kind === "toObjectParameter") {
+			params = [buildObjectParameterStructure(params)];
+			continue;
+		}
+		if (op.kind === "changeType") {
+			if (op.index < 0 || op.index >= params.length) {
+				throw new Error(
+					`changeType 操作の index=${op.index} がパラメータ範囲 [0, ${params.length - 1}] を超えています`,
+				);
+			}
+			params[op.index] = { ...params[op.index], type: op.typeText };
 		}
 	}
 	validateRestParameterIsLast(params);
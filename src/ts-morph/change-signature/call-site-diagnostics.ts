@@ -0,0 +1,90 @@
+import { type CallExpression, Node, type SourceFile } from "ts-morph";
+import {
+	type DiagnosticInfo,
+	getErrorDiagnostics,
+	isDiagnosticInRange,
+	toDiagnosticInfo,
+} from "../_utils/diagnostics";
+
+/** 呼び出し位置を含む範囲ごとの、変更前のエラー (`code:message`) の集合 */
+export type CallSiteDiagnosticsSnapshot = Map<Node, Set<string>>;
+
+/**
+ * 呼び出し位置の型エラーを調べる範囲 (呼び出しを含む文、またはクラスのプロパティ宣言)。
+ * 戻り値の型を変えると、代入先の変数名など呼び出し式の外側でエラーが報告されるため文単位で見る。
+ */
+function getDiagnosticScope(call: CallExpression): Node {
+	return (
+		call.getFirstAncestor(
+			(n) => Node.isStatement(n) || Node.isPropertyDeclaration(n),
+		) ?? call
+	);
+}
+
+function toKey(info: DiagnosticInfo): string {
+	return `${info.code}:${info.message}`;
+}
+
+/**
+ * 範囲ごとのエラーを集める。ソースファイルごとに診断は 1 回だけ計算する。
+ */
+function collectScopeDiagnostics(
+	scopes: readonly Node[],
+): Map<Node, DiagnosticInfo[]> {
+	const diagnosticsByFile = new Map<
+		SourceFile,
+		ReturnType<typeof getErrorDiagnostics>
+	>();
+	const result = new Map<Node, DiagnosticInfo[]>();
+	for (const scope of scopes) {
+		const sourceFile = scope.getSourceFile();
+		let diagnostics = diagnosticsByFile.get(sourceFile);
+		if (!diagnostics) {
+			diagnostics = getErrorDiagnostics(sourceFile);
+			diagnosticsByFile.set(sourceFile, diagnostics);
+		}
+		result.set(
+			scope,
+			diagnostics
+				.filter((d) => isDiagnosticInRange(d, scope.getStart(), scope.getEnd()))
+				.map(toDiagnosticInfo)
+				.filter((info): info is DiagnosticInfo => info !== undefined),
+		);
+	}
+	return result;
+}
+
+/**
+ * 変更前に、呼び出し位置に既にあるエラーを記録する (変更後に新しく出たエラーだけを報告するため)。
+ */
+export function snapshotCallSiteDiagnostics(
+	callSites: readonly CallExpression[],
+): CallSiteDiagnosticsSnapshot {
+	const scopes = [...new Set(callSites.map(getDiagnosticScope))];
+	const snapshot: CallSiteDiagnosticsSnapshot = new Map();
+	for (const [scope, infos] of collectScopeDiagnostics(scopes)) {
+		snapshot.set(scope, new Set(infos.map(toKey)));
+	}
+	return snapshot;
+}
+
+/**
+ * 変更後の呼び出し位置のエラーのうち、変更前には無かったものを返す。
+ * 変更によって削除された範囲は対象外。
+ */
+export function findNewCallSiteDiagnostics(
+	snapshot: CallSiteDiagnosticsSnapshot,
+): DiagnosticInfo[] {
+	const scopes = [...snapshot.keys()].filter((scope) => !scope.wasForgotten());
+	const newDiagnostics: DiagnosticInfo[] = [];
+	for (const [scope, infos] of collectScopeDiagnostics(scopes)) {
+		const before = snapshot.get(scope) ?? new Set<string>();
+		newDiagnostics.push(...infos.filter((info) => !before.has(toKey(info))));
+	}
+	return newDiagnostics.sort(
+		(a, b) =>
+			a.filePath.localeCompare(b.filePath) ||
+			a.line - b.line ||
+			a.column - b.column,
+	);
+}
@@ -100,6 +100,34 @@ describe("computeNewArgumentTexts", () => {
 		// after add: [ctx, a, b], after remove index 2: [ctx, a]
 		expect(result).toEqual(["ctx", "a"]);
 	});
+
+	it("toObjectParameter: 引数をパラメータ名のオブジェクトにまとめ、同名の識別子は shorthand にする", () => {
+		const result = computeNewArgumentTexts(
+			["a", '"x"'],
+			[{ kind: "toObjectParameter" }],
+			["a", "b", "c"],
+		);
+		expect(result).toEqual(['{ a, b: "x" }']);
+	});
+
+	it("toObjectParameter: 先行する操作後のパラメータ名を使う", () => {
+		const result = computeNewArgumentTexts(
+			["1", "2"],
+			[{ kind: "reorder", newOrder: [1, 0] }, { kind: "toObjectParameter" }],
+			["a", "b"],
+		);
+		expect(result).toEqual(["{ b: 2, a: 1 }"]);
+	});
+
+	it("toObjectParameter: 引数がパラメータより多い場合はエラー", () => {
+		expect(() =>
+			computeNewArgumentTexts(
+				["1", "2"],
+				[{ kind: "toObjectParameter" }],
+				["a"],
+			),
+		).toThrow(/パラメータは 1 個/);
+	});
 });
 
 describe("computeNewParameterStructures", () => {
@@ -188,6 +216,64 @@ describe("computeNewParameterStructures", () => {
 			),
 		).toThrow(/rest パラメータ/);
 	});
+
+	it("toObjectParameter: 分割代入したオブジェクトパラメータにまとめる", () => {
+		const result = computeNewParameterStructures(
+			[
+				{ name: "a", type: "number" },
+				{ name: "b", type: "string", hasQuestionToken: true },
+				{ name: "c", type: "boolean", initializer: "false" },
+			],
+			[{ kind: "toObjectParameter" }],
+		);
+		expect(result).toEqual([
+			{
+				name: "{ a, b, c = false }",
+				type: "{ a: number; b?: string; c?: boolean }",
+				initializer: undefined,
+			},
+		]);
+	});
+
+	it("toObjectParameter: 全パラメータが省略可能なら {} をデフォルト値にする", () => {
+		const result = computeNewParameterStructures(
+			[{ name: "a", type: "number", hasQuestionToken: true }],
+			[{ kind: "toObjectParameter" }],
+		);
+		expect(result[0].initializer).toBe("{}");
+	});
+
+	it("changeType: 指定 index のパラメータの型注釈だけを置き換える", () => {
+		const result = computeNewParameterStructures(
+			[
+				{ name: "a", type: "number" },
+				{ name: "b", type: "string", initializer: '""' },
+			],
+			[{ kind: "changeType", index: 1, typeText: "string | null" }],
+		);
+		expect(result).toEqual([
+			{ name: "a", type: "number" },
+			{ name: "b", type: "string | null", initializer: '""' },
+		]);
+	});
+
+	it("changeType: index が範囲外ならエラー", () => {
+		expect(() =>
+			computeNewParameterStructures(
+				[{ name: "a" }],
+				[{ kind: "changeType", index: 1, typeText: "string" }],
+			),
+		).toThrow(/changeType 操作の index=1/);
+	});
+
+	it("toObjectParameter: rest パラメータがあるとエラー", () => {
+		expect(() =>
+			computeNewParameterStructures(
+				[{ name: "rest", type: "number[]", isRestParameter: true }],
+				[{ kind: "toObjectParameter" }],
+			),
+		).toThrow(/rest パラメータ 'rest'/);
+	});
 });
 
 describe("validateRestParameterIsLast", () => {
@@ -587,4 +673,192 @@ describe("changeSignatureOnProject", () => {
 			}),
 		).rejects.toThrow(/rest パラメータ/);
 	});
+
+	it("toObjectParameter: 宣言を分割代入パラメータにし、呼び出しをオブジェクトリテラルにする", async () => {
+		const project = setup({
+			"/a.ts": [
+				"export function foo(id: number, name?: string, retry = 3) {}",
+				'foo(1, "x", 5);',
+			].join("\n"),
+			"/b.ts": ['import { foo } from "./a";', "const id = 2;", "foo(id);"].join(
+				"\n",
+			),
+		});
+		await run(project, {
+			targetFilePath: "/a.ts",
+			position: { line: 1, column: 17 },
+			functionName: "foo",
+			changes: [{ kind: "toObjectParameter" }],
+		});
+		const a = project.getSourceFileOrThrow("/a.ts").getFullText();
+		const b = project.getSourceFileOrThrow("/b.ts").getFullText();
+		expect(a).toContain(
+			"function foo({ id, name, retry = 3 }: { id: number; name?: string; retry?: number })",
+		);
+		expect(a).toContain('foo({ id: 1, name: "x", retry: 5 });');
+		expect(b).toContain("foo({ id });");
+		expect(project.getPreEmitDiagnostics()).toHaveLength(0);
+	});
+
+	it("toObjectParameter: 型注釈のないパラメータは推論した型を使う", async () => {
+		const project = setup({
+			"/a.ts": [
+				"export const scale = (value: number, factor = 2) => value * factor;",
+				"scale(3);",
+			].join("\n"),
+		});
+		await run(project, {
+			targetFilePath: "/a.ts",
+			position: { line: 1, column: 14 },
+			functionName: "scale",
+			changes: [{ kind: "toObjectParameter" }],
+		});
+		const a = project.getSourceFileOrThrow("/a.ts").getFullText();
+		expect(a).toContain(
+			"scale = ({ value, factor = 2 }: { value: number; factor?: number }) =>",
+		);
+		expect(a).toContain("scale({ value: 3 });");
+	});
+
+	it("toObjectParameter: オーバーロードの signature にはデフォルト値を書かない", async () => {
+		const project = setup({
+			"/a.ts": [
+				"export function foo(a: number): void;",
+				"export function foo(a?: number): void {}",
+				"foo(1);",
+			].join("\n"),
+		});
+		await run(project, {
+			targetFilePath: "/a.ts",
+			position: { line: 2, column: 17 },
+			functionName: "foo",
+			changes: [{ kind: "toObjectParameter" }],
+		});
+		const a = project.getSourceFileOrThrow("/a.ts").getFullText();
+		expect(a).toContain("function foo({ a }: { a: number }): void;");
+		expect(a).toContain("function foo({ a }: { a?: number } = {}): void {}");
+		expect(a).toContain("foo({ a: 1 });");
+		expect(project.getPreEmitDiagnostics()).toHaveLength(0);
+	});
+
+	it("toObjectParameter: スプレッド引数の呼び出し位置を報告してエラー", async () => {
+		const project = setup({
+			"/a.ts": [
+				"export function foo(a: number, b: number) {}",
+				"const args: [number, number] = [1, 2];",
+				"foo(...args);",
+			].join("\n"),
+		});
+		await expect(
+			run(project, {
+				targetFilePath: "/a.ts",
+				position: { line: 1, column: 17 },
+				functionName: "foo",
+				changes: [{ kind: "toObjectParameter" }],
+			}),
+		).rejects.toThrow(/スプレッド引数[\s\S]*\/a\.ts:3:1/);
+	});
+
+	it("changeType: 型注釈を変更し、型チェックを通らなくなった呼び出し位置を報告する", async () => {
+		const project = setup({
+			"/a.ts": [
+				"export function foo(id: number, label: string) {}",
+				'foo(1, "a");',
+			].join("\n"),
+			"/b.ts": [
+				'import { foo } from "./a";',
+				'foo("2", "b");',
+				"// @ts-expect-error 変更前から型エラー",
+				"foo(3, 4);",
+				'foo(5, "c");',
+			].join("\n"),
+		});
+		const result = await run(project, {
+			targetFilePath: "/a.ts",
+			position: { line: 1, column: 17 },
+			functionName: "foo",
+			changes: [{ kind: "changeType", index: 0, typeText: "string" }],
+		});
+		const a = project.getSourceFileOrThrow("/a.ts").getFullText();
+		expect(a).toContain("function foo(id: string, label: string)");
+		expect(
+			result.callSiteErrors?.map((e) => [e.filePath, e.line, e.code]),
+		).toEqual([
+			["/a.ts", 2, 2345],
+			["/b.ts", 5, 2345],
+		]);
+	});
+
+	it("changeReturnType: 戻り値の型を変更し、戻り値を使う呼び出し元のエラーを報告する", async () => {
+		const project = setup({
+			"/a.ts": "export const load = (): number => 1;",
+			"/b.ts": [
+				'import { load } from "./a";',
+				"const count: number = load();",
+				"load();",
+			].join("\n"),
+		});
+		const result = await run(project, {
+			targetFilePath: "/a.ts",
+			position: { line: 1, column: 14 },
+			functionName: "load",
+			changes: [{ kind: "changeReturnType", typeText: "string" }],
+		});
+		expect(project.getSourceFileOrThrow("/a.ts").getFullText()).toBe(
+			"export const load = (): string => 1;",
+		);
+		expect(result.callSiteErrors).toHaveLength(1);
+		expect(result.callSiteErrors?.[0]).toMatchObject({
+			filePath: "/b.ts",
+			line: 2,
+			code: 2322,
+		});
+	});
+
+	it("changeReturnType: 呼び出し元が型チェックを通れば callSiteErrors は空", async () => {
+		const project = setup({
+			"/a.ts": ["export function foo(): number { return 1; }", "foo();"].join(
+				"\n",
+			),
+		});
+		const result = await run(project, {
+			targetFilePath: "/a.ts",
+			position: { line: 1, column: 17 },
+			functionName: "foo",
+			changes: [{ kind: "changeReturnType", typeText: "number | string" }],
+		});
+		expect(project.getSourceFileOrThrow("/a.ts").getFullText()).toContain(
+			"function foo(): number | string {",
+		);
+		expect(result.callSiteErrors).toEqual([]);
+	});
+
+	it("changeReturnType: setter は戻り値の型を指定できないのでエラー", async () => {
+		const project = setup({
+			"/a.ts": ["export class C {", "  set value(v: number) {}", "}"].join(
+				"\n",
+			),
+		});
+		await expect(
+			run(project, {
+				targetFilePath: "/a.ts",
+				position: { line: 2, column: 7 },
+				functionName: "value",
+				changes: [{ kind: "changeReturnType", typeText: "void" }],
+			}),
+		).rejects.toThrow(/戻り値の型注釈を指定できません/);
+	});
+
+	it("型の変更を含まない操作では callSiteErrors を返さない", async () => {
+		const project = setup({
+			"/a.ts": ["export function foo(a: number) {}", "foo(1);"].join("\n"),
+		});
+		const result = await run(project, {
+			targetFilePath: "/a.ts",
+			position: { line: 1, column: 17 },
+			functionName: "foo",
+			changes: [{ kind: "remove", index: 0 }],
+		});
+		expect(result.callSiteErrors).toBeUndefined();
+	});
 });
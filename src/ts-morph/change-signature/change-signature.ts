@@ -1,13 +1,19 @@
-import type {
-	CallExpression,
-	OptionalKind,
-	ParameterDeclarationStructure,
-	Project,
+import {
+	type CallExpression,
+	Node,
+	type OptionalKind,
+	type ParameterDeclarationStructure,
+	type Project,
 } from "ts-morph";
 import logger from "../../utils/logger";
+import { collectFileDiffs } from "../_utils/file-diff";
+import { getProject } from "../_utils/project-registry";
+import {
+	prepareJournalEntry,
+	writeJournalEntry,
+} from "../refactor-journal/refactor-journal";
 import {
 	getChangedFiles,
-	initializeProject,
 	saveProjectChanges,
 } from "../_utils/ts-morph-project";
 import {
@@ -21,6 +27,10 @@ import {
 	rewriteCallArguments,
 	rewriteParameters,
 } from "./apply-changes";
+import {
+	findNewCallSiteDiagnostics,
+	snapshotCallSiteDiagnostics,
+} from "./call-site-diagnostics";
 import { filterCallSites } from "./find-call-sites";
 import {
 	findFunctionLikeDeclaration,
@@ -39,7 +49,7 @@ interface CallSitePlan {
 }
 
 /**
- * 関数のシグネチャ (パラメータの追加/削除/並び替え) を変更し、
+ * 関数のシグネチャ (パラメータの追加/削除/並び替え、型注釈) を変更し、
  * プロジェクト全体の呼び出し箇所も同期して更新する。
  *
  * tsconfigPath からプロジェクトを初期化して `changeSignatureOnProject` に委譲する。
@@ -48,7 +58,7 @@ interface CallSitePlan {
 export async function changeSignature(
 	params: ChangeSignatureParams,
 ): Promise<ChangeSignatureResult> {
-	const project = initializeProject(params.tsconfigPath);
+	const project = getProject(params.tsconfigPath);
 	return changeSignatureOnProject(project, params);
 }
 
@@ -63,6 +73,7 @@ export async function changeSignatureOnProject(
 		functionName,
 		changes,
 		dryRun = false,
+		includeDiff = false,
 	}: Omit<ChangeSignatureParams, "tsconfigPath">,
 ): Promise<ChangeSignatureResult> {
 	logger.debug(
@@ -99,7 +110,10 @@ export async function changeSignatureOnProject(
 	// (引数を変更する operation がある場合のみ問題になる)
 	const operationsTouchCallers = changes.some((op) => {
 		if (op.kind === "add") return op.argumentForCallers !== undefined;
-		return true; // remove / reorder は必ず引数に影響
+		if (op.kind === "changeType" || op.kind === "changeReturnType") {
+			return false; // 型注釈だけの変更
+		}
+		return true; // remove / reorder / toObjectParameter は必ず引数に影響
 	});
 	if (operationsTouchCallers) {
 		const spreadCalls = callSites.filter(callHasSpreadArgument);
@@ -125,7 +139,13 @@ export async function changeSignatureOnProject(
 		decl,
 		newParameterStructures: buildNewParameterStructures(decl, changes),
 	}));
-	const callSitePlans = planCallSiteRewrites(callSites, changes);
+	const newReturnType = getNewReturnType(allDeclarations, changes);
+	const parameterNames = getParameterNamesForCallers(allDeclarations, changes);
+	const callSitePlans = planCallSiteRewrites(
+		callSites,
+		changes,
+		parameterNames,
+	);
 
 	logger.debug(
 		{
@@ -135,38 +155,123 @@ export async function changeSignatureOnProject(
 		"計画フェーズ完了",
 	);
 
+	// 型の変更では、変更後に呼び出し位置で新しく出た型エラーだけを報告する
+	const changesTypes = changes.some(
+		(op) => op.kind === "changeType" || op.kind === "changeReturnType",
+	);
+	const diagnosticsSnapshot = changesTypes
+		? snapshotCallSiteDiagnostics(callSites)
+		: undefined;
+
 	// --- Phase 2: 適用フェーズ (例外が起きないことを期待) ---
 	for (const plan of callSitePlans) {
 		rewriteCallArguments(plan.call, plan.newArgTexts);
 	}
 	for (const { decl, newParameterStructures } of declarationPlans) {
 		rewriteParameters(decl, newParameterStructures);
+		if (newReturnType !== undefined && Node.isReturnTyped(decl)) {
+			decl.setReturnType(newReturnType);
+		}
+	}
+
+	const callSiteErrors = diagnosticsSnapshot
+		? findNewCallSiteDiagnostics(diagnosticsSnapshot)
+		: undefined;
+	if (callSiteErrors) {
+		logger.debug(
+			{ callSiteErrorCount: callSiteErrors.length },
+			"呼び出し位置の型チェック完了",
+		);
 	}
 
-	const changedFiles = getChangedFiles(project).map((sf) => sf.getFilePath());
+	const changedSourceFiles = getChangedFiles(project);
+	const changedFiles = changedSourceFiles.map((sf) => sf.getFilePath());
 	logger.debug({ changedFileCount: changedFiles.length }, "適用フェーズ完了");
+	const diffs = includeDiff
+		? collectFileDiffs(project, changedSourceFiles)
+		: undefined;
 
 	if (!dryRun) {
+		const journal = prepareJournalEntry(project, {
+			operation: "changeSignature",
+		});
 		await saveProjectChanges(project);
+		writeJournalEntry(journal);
 		logger.info(
 			{ functionName, changedFileCount: changedFiles.length },
 			"changeSignature 保存完了",
 		);
 	}
-	return { changedFiles };
+	return { changedFiles, diffs, callSiteErrors };
+}
+
+/**
+ * changeReturnType 操作で指定された新しい戻り値の型 (複数あれば最後のもの) を返す。
+ * 戻り値の型注釈を書けない宣言 (setter など) が含まれる場合はエラー。
+ */
+function getNewReturnType(
+	declarations: readonly FunctionLikeWithParameters[],
+	operations: readonly ChangeSignatureOperation[],
+): string | undefined {
+	const returnTypeOps = operations.filter(
+		(op) => op.kind === "changeReturnType",
+	);
+	const typeText = returnTypeOps[returnTypeOps.length - 1]?.typeText;
+	if (typeText === undefined) {
+		return undefined;
+	}
+	for (const decl of declarations) {
+		if (!Node.isReturnTyped(decl) || Node.isSetAccessorDeclaration(decl)) {
+			throw new Error(
+				`changeReturnType 操作: ${decl.getKindName()} には戻り値の型注釈を指定できません`,
+			);
+		}
+	}
+	return typeText;
+}
+
+/**
+ * toObjectParameter でオブジェクトのプロパティ名に使うパラメータ名を返す。
+ * オーバーロードの signature ごとに名前が異なると呼び出し側のプロパティ名が決まらないのでエラー。
+ */
+function getParameterNamesForCallers(
+	declarations: readonly FunctionLikeWithParameters[],
+	operations: readonly ChangeSignatureOperation[],
+): string[] {
+	const [first, ...rest] = declarations.map((decl) =>
+		decl.getParameters().map((p) => p.getName()),
+	);
+	if (operations.some((op) => op.kind === "toObjectParameter")) {
+		const mismatched = rest.find(
+			(names) => names.join(",") !== first.join(","),
+		);
+		if (mismatched) {
+			throw new Error(
+				`toObjectParameter 操作: オーバーロードごとにパラメータ名が異なるため (${first.join(", ")} / ${mismatched.join(", ")})、オブジェクトのプロパティ名を決められません`,
+			);
+		}
+	}
+	return first;
 }
 
 function buildNewParameterStructures(
 	fn: FunctionLikeWithParameters,
 	operations: readonly ChangeSignatureOperation[],
 ): OptionalKind<ParameterDeclarationStructure>[] {
+	// オブジェクトの型リテラルを作るため、型注釈のないパラメータは推論された型を使う
+	const needsTypes = operations.some((op) => op.kind === "toObjectParameter");
 	const currentStructures: OptionalKind<ParameterDeclarationStructure>[] = fn
 		.getParameters()
 		.map((p) => {
 			const structure = p.getStructure();
 			return {
 				name: typeof structure.name === "string" ? structure.name : p.getName(),
-				type: typeof structure.type === "string" ? structure.type : undefined,
+				type:
+					typeof structure.type === "string"
+						? structure.type
+						: needsTypes
+							? p.getType().getText(p)
+							: undefined,
 				hasQuestionToken: structure.hasQuestionToken,
 				initializer:
 					typeof structure.initializer === "string"
@@ -178,19 +283,49 @@ function buildNewParameterStructures(
 				decorators: structure.decorators,
 			};
 		});
-	return computeNewParameterStructures(currentStructures, operations);
+	const newStructures = computeNewParameterStructures(
+		currentStructures,
+		operations,
+	);
+	if (hasImplementationBody(fn)) {
+		return newStructures;
+	}
+	// オーバーロード signature やインターフェースのメソッドにはデフォルト値を書けない
+	return newStructures.map(({ initializer, ...structure }) =>
+		initializer === undefined
+			? structure
+			: { ...structure, hasQuestionToken: true },
+	);
+}
+
+function hasImplementationBody(fn: FunctionLikeWithParameters): boolean {
+	if (Node.isBodyable(fn)) {
+		return fn.hasBody();
+	}
+	return !Node.isMethodSignature(fn);
 }
 
 function planCallSiteRewrites(
 	callSites: readonly CallExpression[],
 	operations: readonly ChangeSignatureOperation[],
+	parameterNames: readonly string[],
 ): CallSitePlan[] {
 	const plans: CallSitePlan[] = [];
 	for (const call of callSites) {
 		const argTexts = call.getArguments().map((a) => a.getText());
 		try {
-			const newArgTexts = computeNewArgumentTexts(argTexts, operations);
-			plans.push({ call, newArgTexts });
+			const newArgTexts = computeNewArgumentTexts(
+				argTexts,
+				operations,
+				parameterNames,
+			);
+			// 型注釈だけの変更などで引数が変わらない呼び出しは書き換えない
+			const unchanged =
+				newArgTexts.length === argTexts.length &&
+				newArgTexts.every((text, i) => text === argTexts[i]);
+			if (!unchanged) {
+				plans.push({ call, newArgTexts });
+			}
 		} catch (error) {
 			const sf = call.getSourceFile();
 			const { line, column } = sf.getLineAndColumnAtPos(call.getStart());
@@ -1,3 +1,6 @@
+import type { DiagnosticInfo } from "../_utils/diagnostics";
+import type { FileDiff } from "../_utils/file-diff";
+
 export type ChangeSignatureOperation =
 	| {
 			kind: "add";
@@ -27,6 +30,25 @@ export type ChangeSignatureOperation =
 			kind: "reorder";
 			/** 新しい順序。例: [2, 0, 1] は newParams[0] = oldParams[2] を意味する。長さは現在のパラメータ数と一致する必要がある。 */
 			newOrder: number[];
+	  }
+	| {
+			/**
+			 * 全パラメータを分割代入した 1 つのオブジェクトパラメータ (`fn({ a, b }: { a: A; b?: B })`) にまとめ、
+			 * 呼び出し側の引数をオブジェクトリテラルに書き換える。省略された optional 引数はプロパティを作らない。
+			 */
+			kind: "toObjectParameter";
+	  }
+	| {
+			kind: "changeType";
+			/** 型注釈を変更するパラメータの index (0-based) */
+			index: number;
+			/** 新しい型注釈テキスト (例: "string | undefined") */
+			typeText: string;
+	  }
+	| {
+			kind: "changeReturnType";
+			/** 新しい戻り値の型注釈テキスト (例: "Promise<void>") */
+			typeText: string;
 	  };
 
 export interface ChangeSignatureParams {
@@ -36,8 +58,17 @@ export interface ChangeSignatureParams {
 	functionName: string;
 	changes: ChangeSignatureOperation[];
 	dryRun?: boolean;
+	/** true の場合、保存前の in-memory の内容とディスクとの unified diff を返す */
+	includeDiff?: boolean;
 }
 
 export interface ChangeSignatureResult {
 	changedFiles: string[];
+	/** `includeDiff: true` のときのみ設定される */
+	diffs?: FileDiff[];
+	/**
+	 * changeType / changeReturnType を含むときのみ設定される。
+	 * 変更後に呼び出し位置で新たに発生した型エラー (空なら全呼び出し元が型チェックを通る)。
+	 */
+	callSiteErrors?: DiagnosticInfo[];
 }
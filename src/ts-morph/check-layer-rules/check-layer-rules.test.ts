@@ -0,0 +1,170 @@
+import type { Project } from "ts-morph";
+import { describe, expect, it } from "vitest";
+import { createInMemoryProject } from "../_test-utils/create-in-memory-project";
+import { checkLayerRules } from "./check-layer-rules";
+import type { LayerGroup } from "./types";
+
+function setup(files: Record<string, string>): Project {
+	const project = createInMemoryProject();
+	for (const [path, content] of Object.entries(files)) {
+		project.createSourceFile(path, content, { overwrite: true });
+	}
+	return project;
+}
+
+const groups: LayerGroup[] = [
+	{ name: "domain", patterns: ["src/domain/**"] },
+	{ name: "infra", patterns: ["src/infra/**"] },
+	{ name: "features", patterns: ["src/features/*/**"] },
+];
+
+describe("checkLayerRules", () => {
+	it("disallow のグループへの import を行番号付きで報告する", () => {
+		const project = setup({
+			"/src/infra/db.ts": [
+				'import { toUser } from "../domain/user";',
+				"export interface UserRow { id: string }",
+				"export const load = toUser;",
+			].join("\n"),
+			"/src/domain/user.ts": [
+				'import { Repository } from "./repository";',
+				'import { UserRow } from "@/infra/db";',
+				"export const toUser = (row: UserRow, repo: Repository) => [row, repo];",
+			].join("\n"),
+			"/src/domain/repository.ts": "export interface Repository {}",
+		});
+
+		const result = checkLayerRules(project, {
+			rootDir: "/",
+			groups,
+			rules: [
+				{
+					from: "domain",
+					disallow: ["infra"],
+					message: "domain は infra に依存しない",
+				},
+			],
+		});
+
+		expect(result.checkedFileCount).toBe(3);
+		expect(result.violations).toEqual([
+			{
+				filePath: "/src/domain/user.ts",
+				line: 2,
+				moduleSpecifier: "@/infra/db",
+				targetFilePath: "/src/infra/db.ts",
+				fromGroup: "domain",
+				toGroup: "infra",
+				message: "domain は infra に依存しない",
+				suggestions: undefined,
+			},
+		]);
+	});
+
+	it("同じグループの別の要素への import は違反とし、except の公開 API は許可する", () => {
+		const project = setup({
+			"/src/features/auth/index.ts": 'export { login } from "./login";',
+			"/src/features/auth/login.ts": "export const login = () => 1;",
+			"/src/features/cart/checkout.ts": [
+				'import { login } from "../auth";',
+				'import { login as internal } from "../auth/login";',
+				'import { total } from "./total";',
+				"export const checkout = () => [login, internal, total];",
+			].join("\n"),
+			"/src/features/cart/total.ts": "export const total = 1;",
+		});
+
+		const result = checkLayerRules(project, {
+			rootDir: "/",
+			groups,
+			rules: [
+				{
+					from: "features",
+					disallow: ["features"],
+					except: ["src/features/*/index.ts"],
+				},
+			],
+		});
+
+		expect(
+			result.violations.map(
+				(violation) => `${violation.filePath}:${violation.line}`,
+			),
+		).toEqual(["/src/features/cart/checkout.ts:2"]);
+	});
+
+	it("allow を指定した場合はそれ以外のグループへの import を違反とする", () => {
+		const project = setup({
+			"/src/features/auth/login.ts": [
+				'import { User } from "../../domain/user";',
+				'import { db } from "../../infra/db";',
+				'import { helper } from "../../utils/helper";',
+				"export const login = (user: User) => [user, db, helper];",
+			].join("\n"),
+			"/src/domain/user.ts": "export interface User { id: string }",
+			"/src/infra/db.ts": "export const db = 1;",
+			"/src/utils/helper.ts": "export const helper = 1;",
+		});
+
+		const result = checkLayerRules(project, {
+			rootDir: "/",
+			groups,
+			rules: [{ from: "features", allow: ["domain"] }],
+		});
+
+		expect(result.violations.map((violation) => violation.toGroup)).toEqual([
+			"infra",
+		]);
+	});
+
+	it("suggestFixes の場合、宣言元から移動先を import しても違反しないときだけ移動を提案する", () => {
+		const project = setup({
+			"/src/domain/user.ts": [
+				'import { UserRow, connect } from "../infra/db";',
+				"export const toUser = (row: UserRow) => [row, connect];",
+			].join("\n"),
+			"/src/features/auth/login.ts": [
+				'import { token } from "../cart/token";',
+				"export const login = token;",
+			].join("\n"),
+			"/src/features/cart/token.ts": "export const token = 1;",
+			"/src/infra/db.ts": [
+				"export interface UserRow { id: string }",
+				"export const connect = () => 1;",
+			].join("\n"),
+		});
+
+		const result = checkLayerRules(project, {
+			rootDir: "/",
+			groups,
+			rules: [
+				{ from: "domain", disallow: ["infra"] },
+				{ from: "features", disallow: ["features"] },
+			],
+			suggestFixes: true,
+		});
+
+		expect(result.violations).toHaveLength(2);
+		expect(result.violations[0].suggestions).toEqual([
+			{
+				originalFilePath: "/src/infra/db.ts",
+				targetFilePath: "/src/domain/db.ts",
+				symbolsToMove: ["UserRow", "connect"],
+			},
+		]);
+		// 別の feature へ移しても、元の feature からの import が違反になるため提案しない
+		expect(result.violations[1].suggestions).toEqual([]);
+	});
+
+	it("規則が未定義のグループを参照している場合はエラー", () => {
+		const project = setup({ "/src/domain/user.ts": "export const a = 1;" });
+
+		expect(() =>
+			checkLayerRules(project, {
+				rootDir: "/",
+				groups,
+				rules: [{ from: "domain", disallow: ["application"] }],
+			}),
+		).toThrow("未定義のグループを参照しています: application");
+	});
+});
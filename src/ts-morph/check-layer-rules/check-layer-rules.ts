@@ -0,0 +1,257 @@
+import * as path from "node:path";
+import {
+	type ExportDeclaration,
+	type ImportDeclaration,
+	Node,
+	type Project,
+} from "ts-morph";
+import { globToRegExp } from "../_utils/glob-pattern";
+import type {
+	CheckLayerRulesOptions,
+	CheckLayerRulesResult,
+	LayerGroup,
+	LayerRule,
+	LayerViolation,
+	MoveSymbolSuggestion,
+} from "./types";
+
+interface GroupMatcher {
+	regExp: RegExp;
+	/** 要素を決めるセグメント数 (最初の `**` より前)。undefined はファイルのディレクトリ */
+	elementDepth: number | undefined;
+}
+
+interface Membership {
+	group: string;
+	/** rootDir からの相対パス (POSIX 形式) */
+	element: string;
+}
+
+interface Classifier {
+	classify(relativePath: string): Membership | undefined;
+	findViolatedRule(
+		from: Membership,
+		to: Membership,
+		targetRelativePath: string,
+	): LayerRule | undefined;
+}
+
+function toMatcher(pattern: string): GroupMatcher {
+	const segments = pattern.split("/");
+	const globstarIndex = segments.indexOf("**");
+	return {
+		regExp: globToRegExp(pattern),
+		elementDepth: globstarIndex === -1 ? undefined : globstarIndex,
+	};
+}
+
+function assertKnownGroups(
+	groups: readonly LayerGroup[],
+	rules: readonly LayerRule[],
+): void {
+	const names = new Set(groups.map((group) => group.name));
+	for (const rule of rules) {
+		for (const name of [
+			rule.from,
+			...(rule.disallow ?? []),
+			...(rule.allow ?? []),
+		]) {
+			if (!names.has(name)) {
+				throw new Error(`未定義のグループを参照しています: ${name}`);
+			}
+		}
+	}
+}
+
+function createClassifier(
+	groups: readonly LayerGroup[],
+	rules: readonly LayerRule[],
+): Classifier {
+	assertKnownGroups(groups, rules);
+	const matchers = groups.map((group) => ({
+		name: group.name,
+		matchers: group.patterns.map(toMatcher),
+	}));
+	const compiledRules = rules.map((rule) => ({
+		rule,
+		except: (rule.except ?? []).map(globToRegExp),
+	}));
+
+	return {
+		classify(relativePath) {
+			for (const group of matchers) {
+				const matcher = group.matchers.find((m) => m.regExp.test(relativePath));
+				if (!matcher) continue;
+				const element =
+					matcher.elementDepth === undefined
+						? path.posix.dirname(relativePath)
+						: relativePath.split("/").slice(0, matcher.elementDepth).join("/");
+				return { group: group.name, element };
+			}
+			return undefined;
+		},
+		findViolatedRule(from, to, targetRelativePath) {
+			if (from.group === to.group && from.element === to.element) {
+				return undefined;
+			}
+			for (const { rule, except } of compiledRules) {
+				if (rule.from !== from.group) continue;
+				if (except.some((regExp) => regExp.test(targetRelativePath))) {
+					continue;
+				}
+				if (
+					rule.disallow?.includes(to.group) ||
+					(rule.allow !== undefined && !rule.allow.includes(to.group))
+				) {
+					return rule;
+				}
+			}
+			return undefined;
+		},
+	};
+}
+
+function toRelativePath(rootDir: string, filePath: string): string {
+	return path.relative(rootDir, filePath).replace(/\\/g, "/");
+}
+
+/**
+ * 違反している import の名前を、宣言されたファイルから import 元の要素へ移す提案を作る。
+ * 移動先は import 元の要素のディレクトリに、宣言元と同じファイル名で置く。
+ * 宣言元のファイルが移動先を import すると別の違反になる場合は提案しない。
+ * default / namespace の import と `export *` は名前を特定できないため提案しない。
+ */
+function suggestMoves(
+	declaration: ImportDeclaration | ExportDeclaration,
+	from: Membership,
+	rootDir: string,
+	classifier: Classifier,
+): MoveSymbolSuggestion[] {
+	let nameNodes: Node[];
+	if (Node.isImportDeclaration(declaration)) {
+		if (declaration.getDefaultImport() || declaration.getNamespaceImport()) {
+			return [];
+		}
+		nameNodes = declaration
+			.getNamedImports()
+			.map((specifier) => specifier.getNameNode());
+	} else {
+		if (declaration.isNamespaceExport()) {
+			return [];
+		}
+		nameNodes = declaration
+			.getNamedExports()
+			.map((specifier) => specifier.getNameNode());
+	}
+
+	const symbolsByFile = new Map<string, string[]>();
+	for (const nameNode of nameNodes) {
+		const symbol = nameNode.getSymbol();
+		const target = symbol?.isAlias() ? symbol.getAliasedSymbol() : symbol;
+		const declarationNode = target?.getDeclarations()[0];
+		if (!target || !declarationNode || target.getName() === "default") {
+			return [];
+		}
+		const originalFilePath = declarationNode.getSourceFile().getFilePath();
+		const symbols = symbolsByFile.get(originalFilePath) ?? [];
+		if (!symbols.includes(target.getName())) {
+			symbols.push(target.getName());
+		}
+		symbolsByFile.set(originalFilePath, symbols);
+	}
+
+	const suggestions: MoveSymbolSuggestion[] = [];
+	for (const [originalFilePath, symbolsToMove] of symbolsByFile) {
+		const targetRelativePath = path.posix.join(
+			from.element,
+			path.basename(originalFilePath),
+		);
+		const movedTo = classifier.classify(targetRelativePath);
+		if (
+			!movedTo ||
+			movedTo.group !== from.group ||
+			movedTo.element !== from.element
+		) {
+			return [];
+		}
+		const original = classifier.classify(
+			toRelativePath(rootDir, originalFilePath),
+		);
+		if (
+			original &&
+			classifier.findViolatedRule(original, movedTo, targetRelativePath)
+		) {
+			return [];
+		}
+		suggestions.push({
+			originalFilePath,
+			targetFilePath: path.join(rootDir, targetRelativePath),
+			symbolsToMove,
+		});
+	}
+	return suggestions;
+}
+
+/**
+ * グループ (glob で定義したパスの集まり) の間の import の規則に違反している
+ * import / export 宣言をすべて返す。
+ *
+ * 依存先は `findDeclarationsReferencingFile` と同じく `getModuleSpecifierSourceFile()` で解決する
+ * (パスエイリアスも解決済み)。どのグループにも属さないファイル、node_modules と .d.ts は検査しない。
+ */
+export function checkLayerRules(
+	project: Project,
+	options: CheckLayerRulesOptions,
+): CheckLayerRulesResult {
+	const rootDir = path.resolve(options.rootDir);
+	const excludePatterns = options.excludeFilePatterns ?? [];
+	const classifier = createClassifier(options.groups, options.rules);
+
+	const sourceFiles = project
+		.getSourceFiles()
+		.filter((sf) => {
+			if (sf.isInNodeModules() || sf.isDeclarationFile()) return false;
+			const fp = sf.getFilePath();
+			return !excludePatterns.some((p) => fp.includes(p));
+		})
+		.sort((a, b) => a.getFilePath().localeCompare(b.getFilePath()));
+
+	const violations: LayerViolation[] = [];
+	let checkedFileCount = 0;
+	for (const sourceFile of sourceFiles) {
+		const filePath = sourceFile.getFilePath();
+		const from = classifier.classify(toRelativePath(rootDir, filePath));
+		if (!from) continue;
+		checkedFileCount++;
+
+		const declarations = [
+			...sourceFile.getImportDeclarations(),
+			...sourceFile.getExportDeclarations(),
+		].sort((a, b) => a.getStart() - b.getStart());
+		for (const declaration of declarations) {
+			const targetFile = declaration.getModuleSpecifierSourceFile();
+			if (!targetFile || targetFile.isInNodeModules()) continue;
+			const targetFilePath = targetFile.getFilePath();
+			const targetRelativePath = toRelativePath(rootDir, targetFilePath);
+			const to = classifier.classify(targetRelativePath);
+			if (!to) continue;
+			const rule = classifier.findViolatedRule(from, to, targetRelativePath);
+			if (!rule) continue;
+
+			violations.push({
+				filePath,
+				line: declaration.getStartLineNumber(),
+				moduleSpecifier: declaration.getModuleSpecifierValue() ?? "",
+				targetFilePath,
+				fromGroup: from.group,
+				toGroup: to.group,
+				message: rule.message,
+				suggestions: options.suggestFixes
+					? suggestMoves(declaration, from, rootDir, classifier)
+					: undefined,
+			});
+		}
+	}
+
+	return { violations, checkedFileCount };
+}
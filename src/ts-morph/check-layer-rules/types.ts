@@ -0,0 +1,68 @@
+/**
+ * レイヤー (パスのグループ)。ファイルは patterns に一致する最初のグループに属する。
+ *
+ * パターンの最初の `**` より前のセグメントが同じファイルは、同じ「要素」とみなす。
+ * 例: `src/features/*\/**` では `src/features/auth` と `src/features/cart` が別の要素になる。
+ * `**` を含まないパターンでは、ファイルのディレクトリが要素になる。
+ */
+export interface LayerGroup {
+	name: string;
+	/** rootDir からの相対パス (POSIX 形式) に対する glob */
+	patterns: string[];
+}
+
+/**
+ * from のグループに属するファイルからの import の規則。
+ * 同じ要素内の import は常に許可する。同じグループの別の要素への import は、
+ * グループ名 (from と同じ名前) で disallow / allow を判定する。
+ */
+export interface LayerRule {
+	/** import する側のグループ名 */
+	from: string;
+	/** import してはいけないグループ名 */
+	disallow?: string[];
+	/** 指定した場合、ここにないグループへの import を禁止 (どのグループにも属さないファイルへの import は対象外) */
+	allow?: string[];
+	/** 違反から除く import 先の glob (公開 API の index.ts など) */
+	except?: string[];
+	/** 違反の報告に添える説明 */
+	message?: string;
+}
+
+export interface CheckLayerRulesOptions {
+	/** パターンの基準にするディレクトリの絶対パス (通常は tsconfig.json のディレクトリ) */
+	rootDir: string;
+	groups: LayerGroup[];
+	rules: LayerRule[];
+	/** true の場合、違反を解消する move_symbol_to_file_by_tsmorph の引数を提案する */
+	suggestFixes?: boolean;
+	/** 部分文字列のいずれかを filePath に含むファイルは検査しない */
+	excludeFilePatterns?: string[];
+}
+
+/** move_symbol_to_file_by_tsmorph に渡せる移動の提案 */
+export interface MoveSymbolSuggestion {
+	originalFilePath: string;
+	targetFilePath: string;
+	symbolsToMove: string[];
+}
+
+export interface LayerViolation {
+	filePath: string;
+	/** import / export 宣言の 1-based 行番号 */
+	line: number;
+	moduleSpecifier: string;
+	targetFilePath: string;
+	fromGroup: string;
+	toGroup: string;
+	/** 違反した規則の message */
+	message?: string;
+	/** suggestFixes の場合のみ。安全な移動先が見つからない場合は空 */
+	suggestions?: MoveSymbolSuggestion[];
+}
+
+export interface CheckLayerRulesResult {
+	violations: LayerViolation[];
+	/** いずれかのグループに属し、検査したファイル数 */
+	checkedFileCount: number;
+}
@@ -0,0 +1,128 @@
+import type { Project } from "ts-morph";
+import { describe, expect, it } from "vitest";
+import { createInMemoryProjectWithDoubleQuotes } from "../_test-utils/create-in-memory-project";
+import { applyCodeFixesOnProject } from "./apply-code-fixes";
+
+/** 作成したファイルは保存済みにして、修正で変わったファイルだけが changedFiles に出るようにする */
+function setup(files: Record<string, string>): Project {
+	const project = createInMemoryProjectWithDoubleQuotes();
+	for (const [path, content] of Object.entries(files)) {
+		project.createSourceFile(path, content, { overwrite: true }).saveSync();
+	}
+	return project;
+}
+
+function getText(project: Project, filePath: string): string {
+	return project.getSourceFileOrThrow(filePath).getFullText();
+}
+
+describe("applyCodeFixesOnProject", () => {
+	it("fixMissingImport で不足している import を追加する", async () => {
+		const project = setup({
+			"/src/math.ts": "export function double(n: number) { return n * 2; }\n",
+			"/src/main.ts": "export const value = double(2);\n",
+		});
+
+		const result = await applyCodeFixesOnProject(project, {
+			filePaths: ["/src/main.ts"],
+			fixIds: ["fixMissingImport"],
+			dryRun: true,
+		});
+
+		expect(result.appliedFixes).toEqual([
+			{ fixId: "fixMissingImport", filePaths: ["/src/main.ts"] },
+		]);
+		expect(result.changedFiles).toEqual(["/src/main.ts"]);
+		expect(getText(project, "/src/main.ts")).toBe(
+			`import { double } from "./math";
+
+export const value = double(2);
+`,
+		);
+	});
+
+	it("複数の fixId を指定順に適用し、ディレクトリ配下のファイルを対象にする", async () => {
+		const project = setup({
+			"/src/a.ts": `export function run() {
+  const unused = 1;
+  return 2;
+}
+`,
+			"/src/b.ts": `export function other() {
+  const count = 1;
+  return [count, cuont];
+}
+`,
+			"/lib/c.ts": `export function untouched() {
+  const unused = 1;
+}
+`,
+		});
+
+		const result = await applyCodeFixesOnProject(project, {
+			directory: "/src",
+			fixIds: ["unusedIdentifier_delete", "fixSpelling"],
+			dryRun: true,
+		});
+
+		expect(result.checkedFileCount).toBe(2);
+		expect(result.appliedFixes).toEqual([
+			{ fixId: "unusedIdentifier_delete", filePaths: ["/src/a.ts"] },
+			{ fixId: "fixSpelling", filePaths: ["/src/b.ts"] },
+		]);
+		expect(getText(project, "/src/a.ts")).toBe(`export function run() {
+  return 2;
+}
+`);
+		expect(getText(project, "/src/b.ts")).toBe(`export function other() {
+  const count = 1;
+  return [count, count];
+}
+`);
+		expect(result.changedFiles).not.toContain("/lib/c.ts");
+	});
+
+	it("適用できる箇所がない場合はファイルを変更しない", async () => {
+		const project = setup({
+			"/src/ok.ts": "export const ok = 1;\n",
+		});
+
+		const result = await applyCodeFixesOnProject(project, {
+			filePaths: ["/src/ok.ts"],
+			fixIds: ["fixMissingImport"],
+			dryRun: true,
+		});
+
+		expect(result.appliedFixes).toEqual([
+			{ fixId: "fixMissingImport", filePaths: [] },
+		]);
+		expect(result.changedFiles).toEqual([]);
+	});
+
+	it("存在しない fixId はエラーにする", async () => {
+		const project = setup({
+			"/src/ok.ts": "export const ok = 1;\n",
+		});
+
+		await expect(
+			applyCodeFixesOnProject(project, {
+				filePaths: ["/src/ok.ts"],
+				fixIds: ["noSuchFix"],
+				dryRun: true,
+			}),
+		).rejects.toThrow("noSuchFix");
+	});
+
+	it("対象ファイルの指定がない場合はエラーにする", async () => {
+		const project = setup({
+			"/src/ok.ts": "export const ok = 1;\n",
+		});
+
+		await expect(
+			applyCodeFixesOnProject(project, {
+				fixIds: ["fixMissingImport"],
+				dryRun: true,
+			}),
+		).rejects.toThrow("filePaths または directory");
+	});
+});
@@ -0,0 +1,120 @@
+import type { CombinedCodeActions, Project, SourceFile } from "ts-morph";
+import logger from "../../utils/logger";
+import { collectFileDiffs } from "../_utils/file-diff";
+import { getProject } from "../_utils/project-registry";
+import {
+	getChangedFiles,
+	saveProjectChanges,
+} from "../_utils/ts-morph-project";
+import {
+	prepareJournalEntry,
+	writeJournalEntry,
+} from "../refactor-journal/refactor-journal";
+import { selectTargetSourceFiles } from "./select-targets";
+import type {
+	AppliedCodeFix,
+	ApplyCodeFixesParams,
+	ApplyCodeFixesResult,
+} from "./types";
+
+/**
+ * 指定したファイル・ディレクトリに TypeScript のコード修正 (fixId 単位の「すべて修正」) を適用する。
+ *
+ * tsconfigPath からプロジェクトを取得して `applyCodeFixesOnProject` に委譲する。
+ */
+export async function applyCodeFixes(
+	params: ApplyCodeFixesParams,
+): Promise<ApplyCodeFixesResult> {
+	const project = getProject(params.tsconfigPath);
+	return applyCodeFixesOnProject(project, params);
+}
+
+/**
+ * 1 ファイル分の fixId の修正を適用し、変更されたファイルのパスを返す。
+ * 修正は対象ファイル以外 (例: 不足しているメンバーを追加するクラスのファイル) を変更することもある。
+ */
+function applyCombinedCodeFix(
+	project: Project,
+	sourceFile: SourceFile,
+	fixId: string,
+): string[] {
+	let combined: CombinedCodeActions;
+	try {
+		combined = project
+			.getLanguageService()
+			.getCombinedCodeFix(sourceFile, fixId);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		throw new Error(
+			`fixId '${fixId}' のコード修正を取得できませんでした (存在しない fixId の可能性があります): ${message}`,
+		);
+	}
+	const changes = combined.getChanges();
+	if (changes.length === 0) {
+		return [];
+	}
+	combined.applyChanges();
+	return changes.map((change) => change.getFilePath());
+}
+
+/**
+ * 既存の Project に対してコード修正を適用する内部 API。
+ * fixIds の順に、対象ファイルごとに修正を適用する (前の修正の結果を踏まえて次の修正を計算する)。
+ */
+export async function applyCodeFixesOnProject(
+	project: Project,
+	{
+		filePaths,
+		directory,
+		fixIds,
+		dryRun = false,
+		includeDiff = false,
+	}: Omit<ApplyCodeFixesParams, "tsconfigPath">,
+): Promise<ApplyCodeFixesResult> {
+	logger.debug({ filePaths, directory, fixIds }, "applyCodeFixes 開始");
+
+	if (fixIds.length === 0) {
+		throw new Error("fixIds を 1 つ以上指定してください");
+	}
+	const sourceFiles = selectTargetSourceFiles(project, {
+		filePaths,
+		directory,
+	});
+
+	const appliedFixes: AppliedCodeFix[] = [];
+	for (const fixId of fixIds) {
+		const changedPaths = new Set<string>();
+		for (const sourceFile of sourceFiles) {
+			for (const filePath of applyCombinedCodeFix(project, sourceFile, fixId)) {
+				changedPaths.add(filePath);
+			}
+		}
+		appliedFixes.push({ fixId, filePaths: [...changedPaths] });
+	}
+	logger.debug({ appliedFixes }, "コード修正の適用完了");
+
+	const changedSourceFiles = getChangedFiles(project);
+	const changedFiles = changedSourceFiles.map((sf) => sf.getFilePath());
+	const diffs = includeDiff
+		? collectFileDiffs(project, changedSourceFiles)
+		: undefined;
+
+	if (!dryRun && changedSourceFiles.length > 0) {
+		const journal = prepareJournalEntry(project, {
+			operation: "applyCodeFixes",
+		});
+		await saveProjectChanges(project);
+		writeJournalEntry(journal);
+		logger.info(
+			{ fixIds, changedFileCount: changedFiles.length },
+			"applyCodeFixes 保存完了",
+		);
+	}
+
+	return {
+		appliedFixes,
+		checkedFileCount: sourceFiles.length,
+		changedFiles,
+		diffs,
+	};
+}
@@ -0,0 +1,60 @@
+import type { Project } from "ts-morph";
+import { describe, expect, it } from "vitest";
+import { createInMemoryProjectWithDoubleQuotes } from "../_test-utils/create-in-memory-project";
+import { organizeImportsOnProject } from "./organize-imports";
+
+function setup(files: Record<string, string>): Project {
+	const project = createInMemoryProjectWithDoubleQuotes();
+	for (const [path, content] of Object.entries(files)) {
+		project.createSourceFile(path, content, { overwrite: true }).saveSync();
+	}
+	return project;
+}
+
+describe("organizeImportsOnProject", () => {
+	it("import を結合・並べ替えし、未使用の import を削除する", async () => {
+		const project = setup({
+			"/src/values.ts":
+				"export const a = 1;\nexport const b = 2;\nexport const c = 3;\n",
+			"/src/sum.ts": "export function sum(...n: number[]) { return 0; }\n",
+			"/src/main.ts": `import { sum } from "./sum";
+import { c, b } from "./values";
+import { a } from "./values";
+
+export const total = sum(a, b);
+`,
+		});
+
+		const result = await organizeImportsOnProject(project, {
+			filePaths: ["/src/main.ts"],
+			dryRun: true,
+		});
+
+		expect(result.changedFiles).toEqual(["/src/main.ts"]);
+		expect(
+			project.getSourceFileOrThrow("/src/main.ts").getFullText(),
+		).toBe(`import { sum } from "./sum";
+import { a, b } from "./values";
+
+export const total = sum(a, b);
+`);
+	});
+
+	it("整理済みのファイルは変更しない", async () => {
+		const project = setup({
+			"/src/values.ts": "export const a = 1;\n",
+			"/src/main.ts": `import { a } from "./values";
+
+export const value = a;
+`,
+		});
+
+		const result = await organizeImportsOnProject(project, {
+			directory: "/src",
+			dryRun: true,
+		});
+
+		expect(result.checkedFileCount).toBe(2);
+		expect(result.changedFiles).toEqual([]);
+	});
+});
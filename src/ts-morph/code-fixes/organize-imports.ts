@@ -0,0 +1,73 @@
+import type { Project } from "ts-morph";
+import logger from "../../utils/logger";
+import { collectFileDiffs } from "../_utils/file-diff";
+import { getProject } from "../_utils/project-registry";
+import {
+	getChangedFiles,
+	saveProjectChanges,
+} from "../_utils/ts-morph-project";
+import {
+	prepareJournalEntry,
+	writeJournalEntry,
+} from "../refactor-journal/refactor-journal";
+import { selectTargetSourceFiles } from "./select-targets";
+import type { OrganizeImportsParams, OrganizeImportsResult } from "./types";
+
+/**
+ * 指定したファイル・ディレクトリの import を整理する (未使用の削除・結合・並べ替え)。
+ *
+ * tsconfigPath からプロジェクトを取得して `organizeImportsOnProject` に委譲する。
+ */
+export async function organizeImports(
+	params: OrganizeImportsParams,
+): Promise<OrganizeImportsResult> {
+	const project = getProject(params.tsconfigPath);
+	return organizeImportsOnProject(project, params);
+}
+
+/**
+ * 既存の Project に対して import の整理を適用する内部 API。
+ */
+export async function organizeImportsOnProject(
+	project: Project,
+	{
+		filePaths,
+		directory,
+		dryRun = false,
+		includeDiff = false,
+	}: Omit<OrganizeImportsParams, "tsconfigPath">,
+): Promise<OrganizeImportsResult> {
+	logger.debug({ filePaths, directory }, "organizeImports 開始");
+
+	const sourceFiles = selectTargetSourceFiles(project, {
+		filePaths,
+		directory,
+	});
+	for (const sourceFile of sourceFiles) {
+		sourceFile.organizeImports();
+	}
+
+	const changedSourceFiles = getChangedFiles(project);
+	const changedFiles = changedSourceFiles.map((sf) => sf.getFilePath());
+	const diffs = includeDiff
+		? collectFileDiffs(project, changedSourceFiles)
+		: undefined;
+
+	if (!dryRun && changedSourceFiles.length > 0) {
+		const journal = prepareJournalEntry(project, {
+			operation: "organizeImports",
+		});
+		await saveProjectChanges(project);
+		writeJournalEntry(journal);
+		logger.info(
+			{ changedFileCount: changedFiles.length },
+			"organizeImports 保存完了",
+		);
+	}
+
+	return {
+		checkedFileCount: sourceFiles.length,
+		changedFiles,
+		diffs,
+	};
+}
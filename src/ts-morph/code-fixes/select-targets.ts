@@ -0,0 +1,21 @@
+import type { Project, SourceFile } from "ts-morph";
+import {
+	type SourceFileSelection,
+	selectSourceFiles,
+} from "../_utils/select-source-files";
+
+/**
+ * 書き換えの対象ファイルを選ぶ。
+ * 読み取り系ツールと違い、意図しない一括書き換えを避けるため対象の指定を必須にする。
+ */
+export function selectTargetSourceFiles(
+	project: Project,
+	selection: SourceFileSelection,
+): SourceFile[] {
+	if (selection.filePaths === undefined && selection.directory === undefined) {
+		throw new Error("filePaths または directory のどちらかを指定してください");
+	}
+	return selectSourceFiles(project, selection).filter(
+		(sf) => !sf.isDeclarationFile(),
+	);
+}
@@ -0,0 +1,41 @@
+import type { FileDiff } from "../_utils/file-diff";
+import type { SourceFileSelection } from "../_utils/select-source-files";
+
+/** filePaths / directory の少なくとも一方が必要 */
+interface CodeFixTargetParams extends SourceFileSelection {
+	tsconfigPath: string;
+	dryRun?: boolean;
+	/** true の場合、保存前の in-memory の内容とディスクとの unified diff を返す */
+	includeDiff?: boolean;
+}
+
+export interface ApplyCodeFixesParams extends CodeFixTargetParams {
+	/** 適用する TypeScript のコード修正の fixId (例: "fixMissingImport")。指定順に適用する */
+	fixIds: string[];
+}
+
+export interface AppliedCodeFix {
+	fixId: string;
+	/** この fixId で変更されたファイル */
+	filePaths: string[];
+}
+
+export interface ApplyCodeFixesResult {
+	/** fixIds と同じ順序。適用できる箇所がなかった fixId は filePaths が空 */
+	appliedFixes: AppliedCodeFix[];
+	/** 修正の対象として調べたファイルの数 */
+	checkedFileCount: number;
+	changedFiles: string[];
+	/** `includeDiff: true` のときのみ設定される */
+	diffs?: FileDiff[];
+}
+
+export type OrganizeImportsParams = CodeFixTargetParams;
+
+export interface OrganizeImportsResult {
+	/** 整理の対象として調べたファイルの数 */
+	checkedFileCount: number;
+	changedFiles: string[];
+	/** `includeDiff: true` のときのみ設定される */
+	diffs?: FileDiff[];
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { formatDependencyGraph } from "./format-dependency-graph";
+import type { DependencyGraph } from "./get-dependency-graph";
+
+const graph: DependencyGraph = {
+	root: "/src",
+	granularity: "file",
+	nodes: ["app.ts", "lib/format.ts", "models/user.ts"],
+	edges: [
+		{
+			from: "app.ts",
+			to: "lib/format.ts",
+			weight: 2,
+			isTypeOnly: false,
+			usesPathAlias: false,
+		},
+		{
+			from: "app.ts",
+			to: "models/user.ts",
+			weight: 1,
+			isTypeOnly: true,
+			usesPathAlias: true,
+		},
+	],
+};
+
+describe("formatDependencyGraph", () => {
+	it("json ではグラフをそのまま JSON にする", () => {
+		expect(JSON.parse(formatDependencyGraph(graph, "json"))).toEqual(graph);
+	});
+
+	it("dot では重みをラベルにし、型だけの辺を点線にする", () => {
+		expect(formatDependencyGraph(graph, "dot")).toBe(
+			[
+				"digraph dependencies {",
+				"  rankdir=LR;",
+				'  "app.ts";',
+				'  "lib/format.ts";',
+				'  "models/user.ts";',
+				'  "app.ts" -> "lib/format.ts" [label="2"];',
+				'  "app.ts" -> "models/user.ts" [label="1", style=dashed];',
+				"}",
+			].join("\n"),
+		);
+	});
+
+	it("mermaid ではノードに ID を振り、型だけの辺を点線にする", () => {
+		expect(formatDependencyGraph(graph, "mermaid")).toBe(
+			[
+				"graph LR",
+				'  n0["app.ts"]',
+				'  n1["lib/format.ts"]',
+				'  n2["models/user.ts"]',
+				"  n0 -->|2| n1",
+				"  n0 -.->|1| n2",
+			].join("\n"),
+		);
+	});
+});
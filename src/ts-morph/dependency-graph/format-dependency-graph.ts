@@ -0,0 +1,52 @@
+import type { DependencyGraph } from "./get-dependency-graph";
+
+export type DependencyGraphFormat = "json" | "dot" | "mermaid";
+
+function toDot(graph: DependencyGraph): string {
+	const quote = (name: string) => `"${name.replace(/["\\]/g, "\\$&")}"`;
+	return [
+		"digraph dependencies {",
+		"  rankdir=LR;",
+		...graph.nodes.map((node) => `  ${quote(node)};`),
+		...graph.edges.map(
+			(edge) =>
+				`  ${quote(edge.from)} -> ${quote(edge.to)} [label="${edge.weight}"${edge.isTypeOnly ? ", style=dashed" : ""}];`,
+		),
+		"}",
+	].join("\n");
+}
+
+/**
+ * Mermaid のノード ID には使えない文字があるため、ノードに連番の ID を振り、名前はラベルに書く。
+ * 型だけの辺は点線 (`-.->`) にする。
+ */
+function toMermaid(graph: DependencyGraph): string {
+	const ids = new Map(graph.nodes.map((node, index) => [node, `n${index}`]));
+	const label = (name: string) => `"${name.replace(/"/g, "#quot;")}"`;
+	return [
+		"graph LR",
+		...graph.nodes.map((node) => `  ${ids.get(node)}[${label(node)}]`),
+		...graph.edges.map(
+			(edge) =>
+				`  ${ids.get(edge.from)} ${edge.isTypeOnly ? "-.->" : "-->"}|${edge.weight}| ${ids.get(edge.to)}`,
+		),
+	].join("\n");
+}
+
+/**
+ * 依存グラフを JSON / Graphviz DOT / Mermaid のテキストにする。
+ * DOT と Mermaid では辺のラベルが重み (import している名前の数) で、型だけの辺を点線にする。
+ */
+export function formatDependencyGraph(
+	graph: DependencyGraph,
+	format: DependencyGraphFormat,
+): string {
+	switch (format) {
+		case "json":
+			return JSON.stringify(graph, null, 2);
+		case "dot":
+			return toDot(graph);
+		case "mermaid":
+			return toMermaid(graph);
+	}
+}
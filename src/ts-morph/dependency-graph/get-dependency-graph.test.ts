@@ -0,0 +1,131 @@
+import type { Project } from "ts-morph";
+import { describe, expect, it } from "vitest";
+import { createInMemoryProject } from "../_test-utils/create-in-memory-project";
+import { getDependencyGraph } from "./get-dependency-graph";
+
+function setup(files: Record<string, string>): Project {
+	const project = createInMemoryProject();
+	for (const [path, content] of Object.entries(files)) {
+		project.createSourceFile(path, content, { overwrite: true });
+	}
+	return project;
+}
+
+const files = {
+	"/src/app.ts": [
+		'import { formatDate, formatTime } from "./lib/format";',
+		'import type { User } from "@/models/user";',
+		'import * as api from "./lib/api";',
+		"export const run = (user: User) => [formatDate(), formatTime(), api, user];",
+	].join("\n"),
+	"/src/lib/format.ts": [
+		'import type { User } from "../models/user";',
+		"export const formatDate = () => 1;",
+		"export const formatTime = () => 2;",
+		"export const formatUser = (user: User) => user;",
+	].join("\n"),
+	"/src/lib/api.ts": 'import "./format";\nexport const get = () => 1;',
+	"/src/models/user.ts": "export interface User { id: string }",
+};
+
+describe("getDependencyGraph", () => {
+	it("ファイル単位の依存グラフを、import している名前の数を重みとして返す", () => {
+		const graph = getDependencyGraph(setup(files));
+
+		expect(graph.root).toBe("/src");
+		expect(graph.granularity).toBe("file");
+		expect(graph.nodes).toEqual([
+			"app.ts",
+			"lib/api.ts",
+			"lib/format.ts",
+			"models/user.ts",
+		]);
+		expect(graph.edges).toEqual([
+			{
+				from: "app.ts",
+				to: "lib/api.ts",
+				weight: 1,
+				isTypeOnly: false,
+				usesPathAlias: false,
+			},
+			{
+				from: "app.ts",
+				to: "lib/format.ts",
+				weight: 2,
+				isTypeOnly: false,
+				usesPathAlias: false,
+			},
+			{
+				from: "app.ts",
+				to: "models/user.ts",
+				weight: 1,
+				isTypeOnly: true,
+				usesPathAlias: true,
+			},
+			{
+				from: "lib/api.ts",
+				to: "lib/format.ts",
+				weight: 0,
+				isTypeOnly: false,
+				usesPathAlias: false,
+			},
+			{
+				from: "lib/format.ts",
+				to: "models/user.ts",
+				weight: 1,
+				isTypeOnly: true,
+				usesPathAlias: false,
+			},
+		]);
+	});
+
+	it("ディレクトリ単位では同じディレクトリ内の依存を除いて重みを合計する", () => {
+		const graph = getDependencyGraph(setup(files), {
+			granularity: "directory",
+		});
+
+		expect(graph.nodes).toEqual([".", "lib", "models"]);
+		expect(graph.edges).toEqual([
+			{
+				from: ".",
+				to: "lib",
+				weight: 3,
+				isTypeOnly: false,
+				usesPathAlias: false,
+			},
+			{
+				from: ".",
+				to: "models",
+				weight: 1,
+				isTypeOnly: true,
+				usesPathAlias: true,
+			},
+			{
+				from: "lib",
+				to: "models",
+				weight: 1,
+				isTypeOnly: true,
+				usesPathAlias: false,
+			},
+		]);
+	});
+
+	it("directory を指定した場合は配下のファイル同士の依存だけを返す", () => {
+		const graph = getDependencyGraph(setup(files), { directory: "/src/lib" });
+
+		expect(graph.root).toBe("/src/lib");
+		expect(graph.nodes).toEqual(["api.ts", "format.ts"]);
+		expect(graph.edges.map((edge) => `${edge.from}->${edge.to}`)).toEqual([
+			"api.ts->format.ts",
+		]);
+	});
+
+	it("ignoreTypeOnlyImports の場合は型だけの依存を含めない", () => {
+		const graph = getDependencyGraph(setup(files), {
+			ignoreTypeOnlyImports: true,
+		});
+
+		expect(graph.edges.some((edge) => edge.isTypeOnly)).toBe(false);
+		expect(graph.edges).toHaveLength(3);
+	});
+});
@@ -0,0 +1,133 @@
+import * as path from "node:path";
+import type { Project } from "ts-morph";
+import { buildModuleGraph } from "../_utils/module-graph";
+
+/**
+ * グラフのノードの単位。
+ * - file: ファイルごと
+ * - directory: ファイルが置かれたディレクトリごと (同じディレクトリ内の依存は含めない)
+ */
+export type DependencyGraphGranularity = "file" | "directory";
+
+export interface DependencyGraphEdge {
+	from: string;
+	to: string;
+	/** import / export している名前の数 (directory 単位の場合は合計) */
+	weight: number;
+	/** すべての依存が型だけか */
+	isTypeOnly: boolean;
+	/** いずれかの依存がパスエイリアス (tsconfig の paths) で書かれているか */
+	usesPathAlias: boolean;
+}
+
+export interface DependencyGraph {
+	/** ノードの名前の基準にした絶対パス */
+	root: string;
+	granularity: DependencyGraphGranularity;
+	/** root からの相対パス (POSIX 形式。root 自身のディレクトリは ".") */
+	nodes: string[];
+	edges: DependencyGraphEdge[];
+}
+
+export interface GetDependencyGraphOptions {
+	/** 指定した場合、このディレクトリ配下だけのグラフにする (ノードの名前もここからの相対パス) */
+	directory?: string;
+	granularity?: DependencyGraphGranularity;
+	/** true の場合、型だけの import / export を含めない */
+	ignoreTypeOnlyImports?: boolean;
+	/** 部分文字列のいずれかを filePath に含むファイルはグラフから除外 */
+	excludeFilePatterns?: string[];
+}
+
+/** ファイル群に共通する最も深いディレクトリ */
+function findCommonDirectory(filePaths: readonly string[]): string {
+	if (filePaths.length === 0) {
+		return path.sep;
+	}
+	let common = path.dirname(filePaths[0]);
+	for (const filePath of filePaths) {
+		while (
+			common !== path.dirname(common) &&
+			!filePath.startsWith(common + path.sep)
+		) {
+			common = path.dirname(common);
+		}
+	}
+	return common;
+}
+
+function toNodeName(
+	root: string,
+	filePath: string,
+	granularity: DependencyGraphGranularity,
+): string {
+	const target =
+		granularity === "directory" ? path.dirname(filePath) : filePath;
+	return path.relative(root, target).replace(/\\/g, "/") || ".";
+}
+
+/**
+ * プロジェクト (または指定したディレクトリ配下) の import / export の依存グラフを、
+ * ファイル単位またはディレクトリ単位で返す。辺には import している名前の数を重みとして付ける。
+ *
+ * ファイル間の依存は `buildModuleGraph` と同じ規則で解決する (パスエイリアスも解決済み)。
+ * directory を指定した場合、その外のファイルとの依存は含めない。
+ */
+export function getDependencyGraph(
+	project: Project,
+	options: GetDependencyGraphOptions = {},
+): DependencyGraph {
+	const granularity = options.granularity ?? "file";
+	const moduleGraph = buildModuleGraph(project, {
+		directory: options.directory,
+		ignoreTypeOnlyImports: options.ignoreTypeOnlyImports,
+		excludeFilePatterns: options.excludeFilePatterns,
+	});
+	if (options.directory !== undefined && moduleGraph.files.length === 0) {
+		throw new Error(
+			`ディレクトリ配下にプロジェクトのファイルがありません: ${options.directory}`,
+		);
+	}
+	const root =
+		options.directory !== undefined
+			? path.resolve(options.directory)
+			: findCommonDirectory(moduleGraph.files);
+
+	const nodes = new Set(
+		moduleGraph.files.map((filePath) =>
+			toNodeName(root, filePath, granularity),
+		),
+	);
+	const edges = new Map<string, DependencyGraphEdge>();
+	for (const fileEdges of moduleGraph.edges.values()) {
+		for (const edge of fileEdges) {
+			const from = toNodeName(root, edge.from, granularity);
+			const to = toNodeName(root, edge.to, granularity);
+			if (from === to) continue;
+			const key = `${from}\n${to}`;
+			const existing = edges.get(key);
+			if (existing) {
+				existing.weight += edge.symbolCount;
+				existing.isTypeOnly &&= edge.isTypeOnly;
+				existing.usesPathAlias ||= edge.usesPathAlias;
+				continue;
+			}
+			edges.set(key, {
+				from,
+				to,
+				weight: edge.symbolCount,
+				isTypeOnly: edge.isTypeOnly,
+				usesPathAlias: edge.usesPathAlias,
+			});
+		}
+	}
+
+	return {
+		root,
+		granularity,
+		nodes: [...nodes].sort(),
+		edges: [...edges.values()].sort(
+			(a, b) => a.from.localeCompare(b.from) || a.to.localeCompare(b.to),
+		),
+	};
+}
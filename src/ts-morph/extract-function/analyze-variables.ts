@@ -0,0 +1,412 @@
+import {
+	Node,
+	type Identifier,
+	type Statement,
+	type Symbol as MorphSymbol,
+	SyntaxKind,
+	TypeFormatFlags,
+	type TypeParameterDeclaration,
+	type VariableDeclarationKind,
+} from "ts-morph";
+import logger from "../../utils/logger";
+
+export interface ExtractionParameter {
+	name: string;
+	/** 引数の型注釈テキスト */
+	typeText: string;
+}
+
+export interface ExtractionReturnValue {
+	name: string;
+	/**
+	 * 範囲内で宣言された変数の宣言キーワード。
+	 * 範囲外で宣言され、範囲内で再代入される変数は undefined
+	 */
+	declarationKind?: VariableDeclarationKind;
+}
+
+export interface RangeVariables {
+	parameters: ExtractionParameter[];
+	returnValues: ExtractionReturnValue[];
+}
+
+export interface OuterTypeParameters {
+	/** 抽出した関数に付ける型パラメータ (制約・デフォルトを含む宣言のテキスト) */
+	declarations: string[];
+	/** 引数の型から推論できない型パラメータがあり、呼び出しで型引数を明示する必要があるか */
+	requiresTypeArguments: boolean;
+}
+
+/**
+ * 抽出した関数からは見えない可能性があるスコープを作るノードか
+ */
+function isScopeBoundary(node: Node): boolean {
+	return (
+		Node.isBlock(node) ||
+		Node.isFunctionLikeDeclaration(node) ||
+		Node.isFunctionExpression(node) ||
+		Node.isCatchClause(node) ||
+		Node.isCaseBlock(node) ||
+		Node.isModuleBlock(node) ||
+		Node.isForStatement(node) ||
+		Node.isForInStatement(node) ||
+		Node.isForOfStatement(node)
+	);
+}
+
+function isLoop(node: Node): boolean {
+	return (
+		Node.isForStatement(node) ||
+		Node.isForInStatement(node) ||
+		Node.isForOfStatement(node) ||
+		Node.isWhileStatement(node) ||
+		Node.isDoStatement(node)
+	);
+}
+
+/**
+ * 識別子が参照している値のシンボル。
+ * `{ a }` のような省略記法では、プロパティではなく変数 `a` のシンボルを返す。
+ */
+function getValueSymbol(identifier: Identifier): MorphSymbol | undefined {
+	const parent = identifier.getParent();
+	if (
+		Node.isShorthandPropertyAssignment(parent) &&
+		parent.getNameNode() === identifier
+	) {
+		return parent.getValueSymbol();
+	}
+	return identifier.getSymbol();
+}
+
+/**
+ * シンボルの宣言のうち、同じファイル内にある変数・引数・関数などの値の宣言を返す。
+ * プロパティやインポートなど、抽出の判定に関係しない宣言しかなければ undefined。
+ */
+function getLocalValueDeclaration(
+	symbol: MorphSymbol,
+	sourceFile: Node,
+): Node | undefined {
+	return symbol
+		.getDeclarations()
+		.find(
+			(d) =>
+				d.getSourceFile() === sourceFile &&
+				(Node.isVariableDeclaration(d) ||
+					Node.isParameterDeclaration(d) ||
+					Node.isBindingElement(d) ||
+					Node.isFunctionDeclaration(d) ||
+					Node.isClassDeclaration(d) ||
+					Node.isEnumDeclaration(d)),
+		);
+}
+
+/**
+ * モジュールのトップレベルで宣言されているか (抽出した関数から直接参照できるか)
+ */
+function isDeclaredAtModuleLevel(declaration: Node): boolean {
+	return !declaration.getAncestors().some(isScopeBoundary);
+}
+
+/**
+ * 識別子が代入先 (`x = ...`, `x += ...`, `x++`, `[x] = ...`, `for (x of ...)`) になっているか
+ */
+export function isWriteReference(identifier: Identifier): boolean {
+	let node: Node = identifier;
+	let parent = node.getParent();
+	// 分割代入のパターンを外側へたどる
+	while (
+		parent &&
+		(Node.isParenthesizedExpression(parent) ||
+			Node.isArrayLiteralExpression(parent) ||
+			Node.isObjectLiteralExpression(parent) ||
+			Node.isShorthandPropertyAssignment(parent) ||
+			Node.isSpreadElement(parent) ||
+			Node.isSpreadAssignment(parent) ||
+			(Node.isPropertyAssignment(parent) && parent.getInitializer() === node))
+	) {
+		node = parent;
+		parent = parent.getParent();
+	}
+
+	if (Node.isBinaryExpression(parent) && parent.getLeft() === node) {
+		const operator = parent.getOperatorToken().getKind();
+		return (
+			operator >= SyntaxKind.FirstAssignment &&
+			operator <= SyntaxKind.LastAssignment
+		);
+	}
+	if (
+		(Node.isPrefixUnaryExpression(parent) ||
+			Node.isPostfixUnaryExpression(parent)) &&
+		node === identifier
+	) {
+		const operator = parent.getOperatorToken();
+		return (
+			operator === SyntaxKind.PlusPlusToken ||
+			operator === SyntaxKind.MinusMinusToken
+		);
+	}
+	if (
+		(Node.isForOfStatement(parent) || Node.isForInStatement(parent)) &&
+		parent.getInitializer() === node
+	) {
+		return true;
+	}
+	return false;
+}
+
+/**
+ * 引数の型注釈テキスト。
+ * 範囲内で再代入されない変数は最初の参照位置で絞り込まれた型を使い、
+ * 再代入される変数は宣言された型を使う。
+ */
+function getParameterTypeText(
+	symbol: MorphSymbol,
+	declaration: Node,
+	firstReference: Identifier,
+	isWritten: boolean,
+): string {
+	let type = isWritten
+		? declaration.getType()
+		: declaration
+				.getProject()
+				.getTypeChecker()
+				.getTypeOfSymbolAtLocation(symbol, firstReference);
+
+	// `const name = "foo"` のようなリテラル型は呼び出し元の都合に縛られないよう広げる
+	if (
+		Node.isVariableDeclaration(declaration) &&
+		!declaration.getTypeNode() &&
+		(type.isLiteral() || type.isBooleanLiteral())
+	) {
+		type = type.getBaseTypeOfLiteralType();
+	}
+	return type.getText(
+		firstReference,
+		TypeFormatFlags.UseAliasDefinedOutsideCurrentScope,
+	);
+}
+
+/**
+ * node 内の識別子が参照している candidates の型パラメータ
+ */
+function findReferencedTypeParameters(
+	node: Node,
+	candidates: ReadonlySet<Node>,
+): TypeParameterDeclaration[] {
+	const found = new Set<TypeParameterDeclaration>();
+	for (const identifier of node.getDescendantsOfKind(SyntaxKind.Identifier)) {
+		for (const declaration of identifier.getSymbol()?.getDeclarations() ?? []) {
+			if (
+				Node.isTypeParameterDeclaration(declaration) &&
+				candidates.has(declaration)
+			) {
+				found.add(declaration);
+			}
+		}
+	}
+	return [...found];
+}
+
+/**
+ * 抽出した関数からは見えなくなる外側の型パラメータ (範囲を囲む関数・クラスなどのもの) のうち、
+ * 範囲内または引数の型で使われているものを、制約・デフォルトが参照するものも含めて宣言の順に返す。
+ *
+ * @param boundary classMethod として抽出する場合の追加先クラス。クラス自身とその外側の型パラメータはメソッドからも見える
+ */
+export function collectOuterTypeParameters(
+	statements: Statement[],
+	parameters: ExtractionParameter[],
+	boundary?: Node,
+): OuterTypeParameters {
+	const ancestors = statements[0].getAncestors();
+	const boundaryIndex = boundary ? ancestors.indexOf(boundary) : -1;
+	const candidates = (
+		boundaryIndex === -1 ? ancestors : ancestors.slice(0, boundaryIndex)
+	)
+		.reverse()
+		.flatMap((n) => (Node.isTypeParametered(n) ? n.getTypeParameters() : []));
+	const candidateSet = new Set<Node>(candidates);
+
+	const usesName = (typeText: string, name: string) =>
+		new RegExp(`(^|[^\\w$])${name.replace(/\$/g, "\\$")}($|[^\\w$])`).test(
+			typeText,
+		);
+	const used = new Set<TypeParameterDeclaration>(
+		candidates.filter((tp) =>
+			parameters.some((p) => usesName(p.typeText, tp.getName())),
+		),
+	);
+	const inferable = new Set(used);
+	const pending = [
+		...used,
+		...statements.flatMap((statement) =>
+			findReferencedTypeParameters(statement, candidateSet),
+		),
+	];
+	for (let current = pending.pop(); current; current = pending.pop()) {
+		used.add(current);
+		for (const dependency of findReferencedTypeParameters(
+			current,
+			candidateSet,
+		)) {
+			if (dependency !== current && !used.has(dependency)) {
+				pending.push(dependency);
+			}
+		}
+	}
+
+	const declarations = candidates.filter((tp) => used.has(tp));
+	logger.debug(
+		{ typeParameters: declarations.map((tp) => tp.getName()) },
+		"抽出範囲が使う外側の型パラメータ",
+	);
+	return {
+		declarations: declarations.map((tp) => tp.getText()),
+		requiresTypeArguments: declarations.some((tp) => !inferable.has(tp)),
+	};
+}
+
+/**
+ * 抽出対象の文が参照している変数を解析し、抽出した関数の引数と戻り値を決める。
+ *
+ * move-symbol-to-file の `getInternalDependencies` と同様に、範囲内の識別子ごとに
+ * シンボルの宣言位置を調べて分類する。
+ * - 範囲外 (かつモジュールのトップレベル以外) で宣言された変数 → 引数
+ * - 範囲内で宣言され、範囲の後で参照される変数 → 戻り値 (呼び出し側で再宣言する)
+ * - 範囲外で宣言され、範囲内で再代入され、範囲の後で参照される変数 → 戻り値 (呼び出し側で再代入する)
+ *
+ * 範囲がループの中にある場合は、次の反復で参照されうるループ内の範囲より前の参照も「後」とみなす。
+ */
+export function analyzeRangeVariables(statements: Statement[]): RangeVariables {
+	const first = statements[0];
+	const sourceFile = first.getSourceFile();
+	const rangeStart = first.getStart();
+	const rangeEnd = statements[statements.length - 1].getEnd();
+	const isInRange = (node: Node) =>
+		node.getStart() >= rangeStart && node.getEnd() <= rangeEnd;
+
+	interface Usage {
+		symbol: MorphSymbol;
+		declaration: Node;
+		firstReference: Identifier;
+		declaredInRange: boolean;
+		written: boolean;
+	}
+	// 範囲内で最初に現れた順を保つ
+	const usages = new Map<MorphSymbol, Usage>();
+
+	for (const statement of statements) {
+		for (const identifier of statement.getDescendantsOfKind(
+			SyntaxKind.Identifier,
+		)) {
+			const symbol = getValueSymbol(identifier);
+			if (!symbol) continue;
+			const declaration = getLocalValueDeclaration(symbol, sourceFile);
+			if (!declaration) continue;
+
+			const declaredInRange = isInRange(declaration);
+			if (!declaredInRange && isDeclaredAtModuleLevel(declaration)) {
+				continue;
+			}
+
+			const usage = usages.get(symbol) ?? {
+				symbol,
+				declaration,
+				firstReference: identifier,
+				declaredInRange,
+				written: false,
+			};
+			usage.written ||= isWriteReference(identifier);
+			usages.set(symbol, usage);
+		}
+	}
+
+	// 範囲の後 (またはループで次の反復に持ち越される位置) で参照されるシンボルを集める
+	const scope =
+		first.getFirstAncestor(
+			(n) => Node.isFunctionLikeDeclaration(n) || Node.isFunctionExpression(n),
+		) ?? sourceFile;
+	const outermostLoop = first
+		.getAncestors()
+		.filter((n) => isLoop(n) && n.getStart() > scope.getStart())
+		.pop();
+	const liveStart = outermostLoop ? outermostLoop.getStart() : rangeEnd;
+	const liveEnd = outermostLoop ? outermostLoop.getEnd() : rangeEnd;
+
+	// 範囲より前にあっても、クロージャ内の参照やモジュールレベルの参照は後から実行されうる
+	const isInClosure = (identifier: Identifier) =>
+		scope === sourceFile ||
+		identifier.getFirstAncestor(
+			(n) =>
+				n === scope ||
+				Node.isFunctionLikeDeclaration(n) ||
+				Node.isFunctionExpression(n),
+		) !== scope;
+
+	const usedAfterRange = new Set<MorphSymbol>();
+	for (const identifier of scope.getDescendantsOfKind(SyntaxKind.Identifier)) {
+		const start = identifier.getStart();
+		if (isInRange(identifier)) continue;
+		const isLive =
+			start >= rangeEnd ||
+			(start >= liveStart && start < liveEnd) ||
+			isInClosure(identifier);
+		if (!isLive) continue;
+		const symbol = getValueSymbol(identifier);
+		if (symbol && usages.has(symbol)) {
+			usedAfterRange.add(symbol);
+		}
+	}
+
+	const parameters: ExtractionParameter[] = [];
+	const returnValues: ExtractionReturnValue[] = [];
+	for (const usage of usages.values()) {
+		const name = usage.symbol.getName();
+		if (!usage.declaredInRange) {
+			parameters.push({
+				name,
+				typeText: getParameterTypeText(
+					usage.symbol,
+					usage.declaration,
+					usage.firstReference,
+					usage.written,
+				),
+			});
+			if (usage.written && usedAfterRange.has(usage.symbol)) {
+				returnValues.push({ name });
+			}
+			continue;
+		}
+
+		if (!usedAfterRange.has(usage.symbol)) continue;
+		const declarationList = usage.declaration.getFirstAncestorByKind(
+			SyntaxKind.VariableDeclarationList,
+		);
+		if (
+			!declarationList ||
+			!(
+				Node.isVariableDeclaration(usage.declaration) ||
+				Node.isBindingElement(usage.declaration)
+			)
+		) {
+			throw new Error(
+				`範囲内で宣言された '${name}' が範囲の後で参照されていますが、変数ではないため戻り値にできません`,
+			);
+		}
+		returnValues.push({
+			name,
+			declarationKind: declarationList.getDeclarationKind(),
+		});
+	}
+
+	logger.debug(
+		{
+			parameters: parameters.map((p) => p.name),
+			returnValues: returnValues.map((r) => r.name),
+		},
+		"抽出範囲の変数を解析",
+	);
+	return { parameters, returnValues };
+}
@@ -0,0 +1,523 @@
+import { IndentationText, type Project } from "ts-morph";
+import { describe, expect, it } from "vitest";
+import { createInMemoryProject } from "../_test-utils/create-in-memory-project";
+import { extractFunctionOnProject } from "./extract-function";
+import type { ExtractFunctionParams } from "./types";
+
+const FILE = "/src/target.ts";
+
+function setup(content: string): Project {
+	const project = createInMemoryProject({
+		manipulationSettings: { indentationText: IndentationText.Tab },
+	});
+	project.createSourceFile(FILE, content, { overwrite: true });
+	return project;
+}
+
+function extract(
+	project: Project,
+	params: Partial<Omit<ExtractFunctionParams, "tsconfigPath">> &
+		Pick<ExtractFunctionParams, "startPosition" | "endPosition">,
+) {
+	return extractFunctionOnProject(project, {
+		targetFilePath: FILE,
+		functionName: "extracted",
+		dryRun: true,
+		...params,
+	});
+}
+
+function getText(project: Project): string {
+	return project.getSourceFileOrThrow(FILE).getFullText();
+}
+
+describe("extractFunctionOnProject", () => {
+	it("範囲外の変数を引数に、範囲の後で使う変数を戻り値にしてモジュールレベルに抽出する", async () => {
+		const project =
+			setup(`export function report(items: number[], factor: number) {
+	const label = "total";
+	let sum = 0;
+	for (const item of items) {
+		sum += item * factor;
+	}
+	const message = \`\${label}: \${sum}\`;
+	console.log(message);
+	return sum;
+}
+`);
+
+		const result = await extract(project, {
+			startPosition: { line: 3, column: 1 },
+			endPosition: { line: 7, column: 37 },
+		});
+
+		expect(result.parameters).toEqual(["items", "factor", "label"]);
+		expect(result.returnValues).toEqual(["sum", "message"]);
+		expect(
+			getText(project),
+		).toBe(`export function report(items: number[], factor: number) {
+	const label = "total";
+	let { sum, message } = extracted(items, factor, label);
+	console.log(message);
+	return sum;
+}
+
+function extracted(items: number[], factor: number, label: string) {
+	let sum = 0;
+	for (const item of items) {
+		sum += item * factor;
+	}
+	const message = \`\${label}: \${sum}\`;
+	return { sum, message };
+}
+`);
+	});
+
+	it("範囲外で宣言され範囲内で再代入される変数は、戻り値を再代入する", async () => {
+		const project = setup(`function count(values: string[]) {
+	let total = 0;
+	total += values.length;
+	console.log(total);
+}
+`);
+
+		const result = await extract(project, {
+			startPosition: { line: 3, column: 2 },
+			endPosition: { line: 3, column: 25 },
+		});
+
+		expect(result.parameters).toEqual(["total", "values"]);
+		expect(result.returnValues).toEqual(["total"]);
+		expect(getText(project)).toContain("\ttotal = extracted(total, values);\n");
+		expect(getText(project)).toContain(
+			"function extracted(total: number, values: string[]) {\n\ttotal += values.length;\n\treturn total;\n}",
+		);
+	});
+
+	it("範囲の後で使われない変数は戻り値にしない", async () => {
+		const project = setup(`function log(name: string) {
+	const greeting = \`hello \${name}\`;
+	console.log(greeting);
+	console.log("done");
+}
+`);
+
+		const result = await extract(project, {
+			startPosition: { line: 2, column: 2 },
+			endPosition: { line: 3, column: 24 },
+		});
+
+		expect(result.returnValues).toEqual([]);
+		expect(getText(project)).toContain("\textracted(name);\n");
+	});
+
+	it("トップレベルの文を抽出した場合は呼び出しの直後に関数を追加し、モジュールレベルの変数は引数にしない", async () => {
+		const project = setup(`const base = 1;
+const doubled = base * 2;
+console.log(doubled);
+`);
+
+		const result = await extract(project, {
+			startPosition: { line: 2, column: 1 },
+			endPosition: { line: 2, column: 25 },
+		});
+
+		expect(result.parameters).toEqual([]);
+		expect(getText(project)).toBe(`const base = 1;
+const doubled = extracted();
+
+function extracted() {
+	const doubled = base * 2;
+	return doubled;
+}
+
+console.log(doubled);
+`);
+	});
+
+	it("絞り込まれた型を引数の型に使う", async () => {
+		const project = setup(`function show(value: string | undefined) {
+	if (!value) {
+		throw new Error("empty");
+	}
+	console.log(value.toUpperCase());
+}
+`);
+
+		await extract(project, {
+			startPosition: { line: 5, column: 2 },
+			endPosition: { line: 5, column: 34 },
+		});
+
+		expect(getText(project)).toContain("function extracted(value: string) {");
+	});
+
+	it("範囲や引数の型で使う外側の型パラメータを制約ごと抽出した関数に付ける", async () => {
+		const project =
+			setup(`export function wrap<T extends object, U = string>(first: T, label: U) {
+	const items = [first];
+	console.log(items, label);
+	return items;
+}
+`);
+
+		await extract(project, {
+			startPosition: { line: 2, column: 2 },
+			endPosition: { line: 2, column: 24 },
+		});
+
+		expect(
+			getText(project),
+		).toBe(`export function wrap<T extends object, U = string>(first: T, label: U) {
+	const items = extracted(first);
+	console.log(items, label);
+	return items;
+}
+
+function extracted<T extends object>(first: T) {
+	const items = [first];
+	return items;
+}
+`);
+	});
+
+	it("引数の型から推論できない型パラメータは呼び出しで型引数を明示する", async () => {
+		const project = setup(`export function table<K, V extends K[] = K[]>() {
+	const rows: Record<string, V> = {};
+	return rows;
+}
+`);
+
+		await extract(project, {
+			startPosition: { line: 2, column: 2 },
+			endPosition: { line: 2, column: 37 },
+		});
+
+		const text = getText(project);
+		expect(text).toContain("\tconst rows = extracted<K, V>();\n");
+		expect(text).toContain("function extracted<K, V extends K[] = K[]>() {");
+	});
+
+	it("呼び出し文と抽出した関数はファイルの字下げ幅に揃える", async () => {
+		const project = setup(`function report(value: number) {
+    if (value > 0) {
+        const doubled = value * 2;
+        console.log(doubled);
+    }
+}
+`);
+
+		await extract(project, {
+			startPosition: { line: 3, column: 9 },
+			endPosition: { line: 3, column: 35 },
+		});
+
+		expect(getText(project)).toBe(`function report(value: number) {
+    if (value > 0) {
+        const doubled = extracted(value);
+        console.log(doubled);
+    }
+}
+
+function extracted(value: number) {
+    const doubled = value * 2;
+    return doubled;
+}
+`);
+	});
+
+	it("classMethod で抽出したメソッドもファイルの字下げ幅で書く", async () => {
+		const project = setup(`class Counter {
+  count = 0;
+
+  add(step: number) {
+    if (step > 0) {
+      this.count += step;
+    }
+  }
+}
+`);
+
+		await extract(project, {
+			startPosition: { line: 5, column: 5 },
+			endPosition: { line: 7, column: 6 },
+			placement: "classMethod",
+		});
+
+		expect(getText(project)).toBe(`class Counter {
+  count = 0;
+
+  add(step: number) {
+    this.extracted(step);
+  }
+
+  private extracted(step: number) {
+    if (step > 0) {
+      this.count += step;
+    }
+  }
+}
+`);
+	});
+
+	it("await を含む範囲は async 関数として抽出し、呼び出しを await する", async () => {
+		const project = setup(`async function load(url: string) {
+	const response = await fetch(url);
+	return response;
+}
+`);
+
+		await extract(project, {
+			startPosition: { line: 2, column: 2 },
+			endPosition: { line: 2, column: 36 },
+		});
+
+		const text = getText(project);
+		expect(text).toContain("\tconst response = await extracted(url);\n");
+		expect(text).toContain("async function extracted(url: string) {");
+	});
+
+	it("classMethod を指定すると this を使う範囲を private メソッドとして抽出する", async () => {
+		const project = setup(`class Counter {
+	private count = 0;
+
+	increment(step: number) {
+		this.count += step;
+		console.log(this.count);
+	}
+}
+`);
+
+		const result = await extract(project, {
+			startPosition: { line: 5, column: 3 },
+			endPosition: { line: 6, column: 27 },
+			placement: "classMethod",
+			functionName: "apply",
+		});
+
+		expect(result.parameters).toEqual(["step"]);
+		expect(getText(project)).toBe(`class Counter {
+	private count = 0;
+
+	increment(step: number) {
+		this.apply(step);
+	}
+
+	private apply(step: number) {
+		this.count += step;
+		console.log(this.count);
+	}
+}
+`);
+	});
+
+	it("classMethod ではメソッドの型パラメータだけを付け、クラスの型パラメータはそのまま使う", async () => {
+		const project = setup(`class Box<K> {
+	key?: K;
+	keep<T extends K>(first: T) {
+		const list: T[] = [first, this.key as T];
+		return list;
+	}
+}
+`);
+
+		await extract(project, {
+			startPosition: { line: 4, column: 3 },
+			endPosition: { line: 4, column: 44 },
+			placement: "classMethod",
+		});
+
+		const text = getText(project);
+		expect(text).toContain("\t\tconst list = this.extracted(first);\n");
+		expect(text).toContain("\tprivate extracted<T extends K>(first: T) {");
+	});
+
+	it("static メソッドから抽出した場合は static メソッドにする", async () => {
+		const project = setup(`class Registry {
+	static create(id: string) {
+		console.log(id);
+	}
+}
+`);
+
+		await extract(project, {
+			startPosition: { line: 3, column: 3 },
+			endPosition: { line: 3, column: 19 },
+			placement: "classMethod",
+		});
+
+		expect(getText(project)).toContain(
+			"private static extracted(id: string) {",
+		);
+	});
+
+	it("範囲に含まれるループ内の break / continue は抽出できる", async () => {
+		const project = setup(`function first(values: number[]) {
+	let found = -1;
+	for (const value of values) {
+		if (value < 0) continue;
+		found = value;
+		break;
+	}
+	return found;
+}
+`);
+
+		const result = await extract(project, {
+			startPosition: { line: 3, column: 2 },
+			endPosition: { line: 7, column: 3 },
+		});
+
+		expect(result.returnValues).toEqual(["found"]);
+	});
+
+	it("ループの中の範囲で再代入した変数は、次の反復で使われるなら戻り値にする", async () => {
+		const project = setup(`function sum(values: number[]) {
+	let acc = 0;
+	for (const value of values) {
+		console.log(acc);
+		acc = acc + value;
+	}
+}
+`);
+
+		const result = await extract(project, {
+			startPosition: { line: 5, column: 3 },
+			endPosition: { line: 5, column: 21 },
+		});
+
+		expect(result.returnValues).toEqual(["acc"]);
+	});
+
+	it("dryRun: false の場合はファイルに保存する", async () => {
+		const project = setup(`function greet(name: string) {
+	console.log(name);
+}
+`);
+		project.saveSync();
+
+		const result = await extract(project, {
+			startPosition: { line: 2, column: 2 },
+			endPosition: { line: 2, column: 20 },
+			dryRun: false,
+		});
+
+		expect(result.changedFiles).toEqual([FILE]);
+		expect(project.getFileSystem().readFileSync(FILE)).toContain(
+			"function extracted(name: string) {",
+		);
+	});
+
+	it("includeDiff: true の場合は差分を返す", async () => {
+		const project = setup(`function greet(name: string) {
+	console.log(name);
+}
+`);
+		project.saveSync();
+
+		const result = await extract(project, {
+			startPosition: { line: 2, column: 2 },
+			endPosition: { line: 2, column: 20 },
+			includeDiff: true,
+		});
+
+		expect(result.diffs?.[0].diff).toContain("+\textracted(name);");
+	});
+
+	describe("抽出できない範囲", () => {
+		it("return 文を含む場合はエラー", async () => {
+			const project = setup(`function check(value: number) {
+	if (value > 0) {
+		return true;
+	}
+	return false;
+}
+`);
+
+			await expect(
+				extract(project, {
+					startPosition: { line: 2, column: 2 },
+					endPosition: { line: 4, column: 3 },
+				}),
+			).rejects.toThrow("return 文が含まれる");
+		});
+
+		it("範囲外のループを対象とする break を含む場合はエラー", async () => {
+			const project = setup(`function scan(values: number[]) {
+	for (const value of values) {
+		if (value > 1) break;
+	}
+}
+`);
+
+			await expect(
+				extract(project, {
+					startPosition: { line: 3, column: 3 },
+					endPosition: { line: 3, column: 24 },
+				}),
+			).rejects.toThrow("break 文");
+		});
+
+		it("module への抽出で this を参照している場合はエラー", async () => {
+			const project = setup(`class Box {
+	value = 1;
+	show() {
+		console.log(this.value);
+	}
+}
+`);
+
+			await expect(
+				extract(project, {
+					startPosition: { line: 4, column: 3 },
+					endPosition: { line: 4, column: 27 },
+				}),
+			).rejects.toThrow('placement に "classMethod" を指定');
+		});
+
+		it("classMethod を指定したが範囲がクラスの外にある場合はエラー", async () => {
+			const project = setup(`function plain() {
+	console.log(1);
+}
+`);
+
+			await expect(
+				extract(project, {
+					startPosition: { line: 2, column: 2 },
+					endPosition: { line: 2, column: 17 },
+					placement: "classMethod",
+				}),
+			).rejects.toThrow("クラスのメソッド内にない");
+		});
+
+		it("範囲が文の途中で終わっている場合はエラー", async () => {
+			const project = setup(`function run() {
+	const a = 1;
+	const b = 2;
+}
+`);
+
+			await expect(
+				extract(project, {
+					startPosition: { line: 2, column: 2 },
+					endPosition: { line: 3, column: 8 },
+				}),
+			).rejects.toThrow("文の途中");
+		});
+
+		it("抽出位置で同名のシンボルが宣言されている場合はエラー", async () => {
+			const project = setup(`function extracted() {}
+function run() {
+	console.log(1);
+}
+`);
+
+			await expect(
+				extract(project, {
+					startPosition: { line: 3, column: 2 },
+					endPosition: { line: 3, column: 17 },
+				}),
+			).rejects.toThrow("既に宣言されています");
+		});
+	});
+});
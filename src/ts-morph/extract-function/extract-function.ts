@@ -0,0 +1,481 @@
+import {
+	type ClassDeclaration,
+	type ClassExpression,
+	type ClassMemberTypes,
+	Node,
+	type Project,
+	Scope,
+	type Statement,
+	SymbolFlags,
+	SyntaxKind,
+	VariableDeclarationKind,
+} from "ts-morph";
+import logger from "../../utils/logger";
+import { getDedentedText } from "../_utils/dedent-text";
+import { collectFileDiffs } from "../_utils/file-diff";
+import { withFileIndentation } from "../_utils/indentation";
+import { getProject } from "../_utils/project-registry";
+import {
+	getChangedFiles,
+	saveProjectChanges,
+} from "../_utils/ts-morph-project";
+import {
+	prepareJournalEntry,
+	writeJournalEntry,
+} from "../refactor-journal/refactor-journal";
+import {
+	analyzeRangeVariables,
+	collectOuterTypeParameters,
+	type ExtractionReturnValue,
+} from "./analyze-variables";
+import { selectStatementsInRange } from "./select-statements";
+import type {
+	ExtractFunctionParams,
+	ExtractFunctionPlacement,
+	ExtractFunctionResult,
+} from "./types";
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][\w$]*$/;
+
+interface ClassPlacement {
+	cls: ClassDeclaration | ClassExpression;
+	member: ClassMemberTypes;
+	isStatic: boolean;
+}
+
+/**
+ * 指定範囲の文を新しい関数 (またはクラスのメソッド) として切り出し、元の位置を呼び出しに置き換える。
+ *
+ * tsconfigPath からプロジェクトを取得して `extractFunctionOnProject` に委譲する。
+ */
+export async function extractFunction(
+	params: ExtractFunctionParams,
+): Promise<ExtractFunctionResult> {
+	const project = getProject(params.tsconfigPath);
+	return extractFunctionOnProject(project, params);
+}
+
+/**
+ * 既存の Project に対して関数の抽出を適用する内部 API。
+ */
+export async function extractFunctionOnProject(
+	project: Project,
+	{
+		targetFilePath,
+		startPosition,
+		endPosition,
+		functionName,
+		placement = "module",
+		dryRun = false,
+		includeDiff = false,
+	}: Omit<ExtractFunctionParams, "tsconfigPath">,
+): Promise<ExtractFunctionResult> {
+	logger.debug(
+		{ targetFilePath, startPosition, endPosition, functionName, placement },
+		"extractFunction 開始",
+	);
+
+	if (!IDENTIFIER_PATTERN.test(functionName)) {
+		throw new Error(`関数名として使えない名前です: ${functionName}`);
+	}
+	const sourceFile = project.getSourceFile(targetFilePath);
+	if (!sourceFile) {
+		throw new Error(`ファイルが見つかりません: ${targetFilePath}`);
+	}
+
+	// --- Phase 1: 計画フェーズ (ここまでは in-memory project に手を付けない) ---
+	const { container, statements, firstIndex } = selectStatementsInRange(
+		sourceFile,
+		startPosition,
+		endPosition,
+	);
+	const isAsync = assertExtractableControlFlow(statements, placement);
+	const classPlacement =
+		placement === "classMethod"
+			? resolveClassPlacement(statements[0])
+			: undefined;
+	assertNameIsAvailable(statements[0], functionName, classPlacement);
+
+	const { parameters, returnValues } = analyzeRangeVariables(statements);
+	const typeParameters = collectOuterTypeParameters(
+		statements,
+		parameters,
+		classPlacement?.cls,
+	);
+
+	const callee = classPlacement ? `this.${functionName}` : functionName;
+	const typeArguments = typeParameters.requiresTypeArguments
+		? `<${typeParameters.declarations
+				.map((declaration) => /^[^\s=]+/.exec(declaration)?.[0])
+				.join(", ")}>`
+		: "";
+	const callExpression = `${isAsync ? "await " : ""}${callee}${typeArguments}(${parameters
+		.map((p) => p.name)
+		.join(", ")})`;
+	const callStatements = buildCallStatements(
+		callExpression,
+		returnValues,
+		`${functionName}Result`,
+	);
+	const bodyText = buildBodyText(statements, returnValues);
+	const functionStructure = {
+		name: functionName,
+		isAsync,
+		typeParameters: typeParameters.declarations,
+		parameters: parameters.map((p) => ({ name: p.name, type: p.typeText })),
+		statements: bodyText,
+	};
+
+	const moduleInsertIndex = classPlacement
+		? undefined
+		: getModuleInsertIndex(statements[0], container, firstIndex);
+	const memberInsertIndex = classPlacement
+		? classPlacement.cls.getMembers().indexOf(classPlacement.member) + 1
+		: undefined;
+
+	const indentation = getLineIndentation(statements[0]);
+
+	// --- Phase 2: 適用フェーズ ---
+	// 抽出した関数の本文は manipulationSettings ではなくファイル自身の字下げ幅で書く
+	const inserted = withFileIndentation(sourceFile, () => {
+		container.removeStatements([
+			firstIndex,
+			firstIndex + statements.length - 1,
+		]);
+		const callStatementNodes = container.insertStatements(
+			firstIndex,
+			callStatements,
+		);
+
+		if (classPlacement && memberInsertIndex !== undefined) {
+			classPlacement.cls.insertMethod(memberInsertIndex, {
+				...functionStructure,
+				scope: Scope.Private,
+				isStatic: classPlacement.isStatic,
+			});
+		} else if (moduleInsertIndex !== undefined) {
+			// 範囲がトップレベルにある場合は、置き換えた呼び出しの直後に追加する
+			const index =
+				container === sourceFile
+					? firstIndex + callStatementNodes.length
+					: moduleInsertIndex;
+			sourceFile.insertFunction(index, functionStructure);
+		}
+		return callStatementNodes;
+	});
+	alignIndentation(inserted, indentation);
+
+	const changedSourceFiles = getChangedFiles(project);
+	const changedFiles = changedSourceFiles.map((sf) => sf.getFilePath());
+	const diffs = includeDiff
+		? collectFileDiffs(project, changedSourceFiles)
+		: undefined;
+
+	if (!dryRun) {
+		const journal = prepareJournalEntry(project, {
+			operation: "extractFunction",
+		});
+		await saveProjectChanges(project);
+		writeJournalEntry(journal);
+		logger.info(
+			{ functionName, placement, parameterCount: parameters.length },
+			"extractFunction 保存完了",
+		);
+	}
+
+	return {
+		changedFiles,
+		parameters: parameters.map((p) => p.name),
+		returnValues: returnValues.map((r) => r.name),
+		diffs,
+	};
+}
+
+function formatPosition(node: Node): string {
+	const { line, column } = node
+		.getSourceFile()
+		.getLineAndColumnAtPos(node.getStart());
+	return `${line}:${column}`;
+}
+
+function isFunctionBoundary(node: Node): boolean {
+	return (
+		Node.isFunctionLikeDeclaration(node) || Node.isFunctionExpression(node)
+	);
+}
+
+/**
+ * 抽出すると意味が変わる制御フロー (return / 範囲外へ抜ける break・continue / yield) がないことを確認する。
+ * module への抽出では this / super の参照も不可。
+ *
+ * @returns 範囲内で await を使っている (抽出した関数を async にする必要がある) か
+ */
+function assertExtractableControlFlow(
+	statements: Statement[],
+	placement: ExtractFunctionPlacement,
+): boolean {
+	const rangeStart = statements[0].getStart();
+	const isInRange = (node: Node) => node.getStart() >= rangeStart;
+	let isAsync = false;
+
+	for (const statement of statements) {
+		const visit = (node: Node, insideNestedFunction: boolean) => {
+			if (!insideNestedFunction) {
+				if (Node.isReturnStatement(node)) {
+					throw new Error(
+						`選択範囲に return 文が含まれるため抽出できません (${formatPosition(node)})`,
+					);
+				}
+				if (Node.isYieldExpression(node)) {
+					throw new Error(
+						`選択範囲に yield 式が含まれるため抽出できません (${formatPosition(node)})`,
+					);
+				}
+				if (
+					Node.isAwaitExpression(node) ||
+					(Node.isForOfStatement(node) && node.isAwaited())
+				) {
+					isAsync = true;
+				}
+				if (Node.isBreakStatement(node) || Node.isContinueStatement(node)) {
+					assertJumpTargetInRange(node, isInRange);
+				}
+			}
+			if (
+				placement === "module" &&
+				(node.getKind() === SyntaxKind.ThisKeyword ||
+					node.getKind() === SyntaxKind.SuperKeyword) &&
+				// アロー関数以外の関数やクラスの内側の this は範囲外を指さない
+				!node.getFirstAncestor(
+					(n) =>
+						isInRange(n) &&
+						((isFunctionBoundary(n) && !Node.isArrowFunction(n)) ||
+							Node.isClassLikeDeclarationBase(n)),
+				)
+			) {
+				throw new Error(
+					`選択範囲で this / super を参照しているため module には抽出できません (${formatPosition(node)})。placement に "classMethod" を指定してください`,
+				);
+			}
+			node.forEachChild((child) =>
+				visit(
+					child,
+					insideNestedFunction ||
+						isFunctionBoundary(node) ||
+						Node.isClassLikeDeclarationBase(node),
+				),
+			);
+		};
+		visit(statement, false);
+	}
+	return isAsync;
+}
+
+function assertJumpTargetInRange(
+	node: Node,
+	isInRange: (node: Node) => boolean,
+): void {
+	const keyword = Node.isBreakStatement(node) ? "break" : "continue";
+	const label = (
+		Node.isBreakStatement(node) || Node.isContinueStatement(node)
+			? node.getLabel()
+			: undefined
+	)?.getText();
+
+	const target = node.getFirstAncestor((n) => {
+		if (label) {
+			return Node.isLabeledStatement(n) && n.getLabel().getText() === label;
+		}
+		return (
+			Node.isIterationStatement(n) ||
+			(keyword === "break" && Node.isSwitchStatement(n))
+		);
+	});
+	if (!target || !isInRange(target)) {
+		throw new Error(
+			`選択範囲の外側を対象とする ${keyword} 文が含まれるため抽出できません (${formatPosition(node)})`,
+		);
+	}
+}
+
+/**
+ * classMethod として抽出する場合の追加先クラスとメンバーを決める。
+ * 範囲の this がそのクラスのインスタンス (static メンバーならクラス自身) を指していることが前提。
+ */
+function resolveClassPlacement(first: Statement): ClassPlacement {
+	const cls = first.getFirstAncestor(
+		(n): n is ClassDeclaration | ClassExpression =>
+			Node.isClassDeclaration(n) || Node.isClassExpression(n),
+	);
+	const member = cls
+		?.getMembers()
+		.find(
+			(m) => m.getStart() <= first.getStart() && m.getEnd() >= first.getEnd(),
+		);
+	// 範囲とメンバーの間にアロー関数以外の関数があると this がクラスを指さない
+	const thisContainer = first.getFirstAncestor(
+		(n) =>
+			(isFunctionBoundary(n) && !Node.isArrowFunction(n)) ||
+			Node.isClassStaticBlockDeclaration(n) ||
+			Node.isClassLikeDeclarationBase(n),
+	);
+	if (!cls || !member || (thisContainer !== member && thisContainer !== cls)) {
+		throw new Error(
+			"選択範囲がクラスのメソッド内にないため classMethod として抽出できません",
+		);
+	}
+
+	const isStatic =
+		Node.isClassStaticBlockDeclaration(member) ||
+		(Node.isStaticable(member) && member.isStatic());
+	return { cls, member, isStatic };
+}
+
+function assertNameIsAvailable(
+	first: Statement,
+	functionName: string,
+	classPlacement: ClassPlacement | undefined,
+): void {
+	if (classPlacement) {
+		if (classPlacement.cls.getMember(functionName)) {
+			throw new Error(
+				`クラスに同名のメンバー '${functionName}' が既に存在します`,
+			);
+		}
+		return;
+	}
+	const conflict = first
+		.getSymbolsInScope(SymbolFlags.Value)
+		.find((s) => s.getName() === functionName);
+	if (conflict) {
+		throw new Error(
+			`'${functionName}' は抽出位置で既に宣言されています。別の名前を指定してください`,
+		);
+	}
+}
+
+/**
+ * module 配置の場合の関数の挿入位置 (範囲を含むトップレベル文の直後)。
+ */
+function getModuleInsertIndex(
+	first: Statement,
+	container: Node,
+	firstIndex: number,
+): number {
+	const sourceFile = first.getSourceFile();
+	if (container === sourceFile) {
+		return firstIndex + 1;
+	}
+	const topLevelStatement = first.getParentWhile(
+		(parent) => parent !== sourceFile,
+	);
+	return (
+		sourceFile
+			.getStatementsWithComments()
+			.indexOf(topLevelStatement as Statement) + 1
+	);
+}
+
+/**
+ * node の開始行の実際の字下げ (getIndentationText は manipulationSettings の字下げ幅から計算するため使わない)
+ */
+function getLineIndentation(node: Node): string {
+	const fullText = node.getSourceFile().getFullText();
+	const lineStart = node.getStartLinePos();
+	return /^[ \t]*/.exec(fullText.slice(lineStart, node.getStart()))?.[0] ?? "";
+}
+
+/**
+ * 挿入した呼び出し文の字下げを元の文に揃える。
+ * insertStatements は字下げの深さ × 字下げ幅で字下げするため、推定した字下げ幅と実際の字下げが合わないファイルではずれる。
+ * 呼び出し文はどれも 1 行なので、各行を元の字下げで書き直す。
+ */
+function alignIndentation(inserted: Statement[], indentation: string): void {
+	const first = inserted[0];
+	const current = getLineIndentation(first);
+	if (current === indentation) {
+		return;
+	}
+	const sourceFile = first.getSourceFile();
+	const start = first.getStart() - current.length;
+	const end = inserted[inserted.length - 1].getEnd();
+	sourceFile.replaceText(
+		[start, end],
+		inserted
+			.map((statement) => `${indentation}${statement.getText()}`)
+			.join("\n"),
+	);
+}
+
+/**
+ * 元の範囲を置き換える呼び出し文。戻り値の種類に応じて再宣言・再代入を行う。
+ */
+function buildCallStatements(
+	callExpression: string,
+	returnValues: ExtractionReturnValue[],
+	resultName: string,
+): string {
+	if (returnValues.length === 0) {
+		return `${callExpression};`;
+	}
+
+	const declared = returnValues.filter((r) => r.declarationKind);
+	const reassigned = returnValues.filter((r) => !r.declarationKind);
+	const keyword = getDeclarationKeyword(declared);
+
+	if (returnValues.length === 1) {
+		const [{ name }] = returnValues;
+		return declared.length > 0
+			? `${keyword} ${name} = ${callExpression};`
+			: `${name} = ${callExpression};`;
+	}
+
+	const pattern = (values: ExtractionReturnValue[]) =>
+		`{ ${values.map((r) => r.name).join(", ")} }`;
+	if (reassigned.length === 0) {
+		return `${keyword} ${pattern(declared)} = ${callExpression};`;
+	}
+	if (declared.length === 0) {
+		return `(${pattern(reassigned)} = ${callExpression});`;
+	}
+	return [
+		`const ${resultName} = ${callExpression};`,
+		...reassigned.map((r) => `${r.name} = ${resultName}.${r.name};`),
+		`${keyword} ${pattern(declared)} = ${resultName};`,
+	].join("\n");
+}
+
+/**
+ * 呼び出し側で再宣言するときのキーワード。
+ * var はブロックの外からも参照されうるので最優先し、次に再代入を許す let を選ぶ。
+ */
+function getDeclarationKeyword(declared: ExtractionReturnValue[]): string {
+	const kinds = declared.map((r) => r.declarationKind);
+	if (kinds.includes(VariableDeclarationKind.Var)) return "var";
+	if (kinds.includes(VariableDeclarationKind.Let)) return "let";
+	return "const";
+}
+
+/**
+ * 抽出する関数の本文。元の文のインデントを取り除き、必要なら return を付け加える。
+ */
+function buildBodyText(
+	statements: Statement[],
+	returnValues: ExtractionReturnValue[],
+): string {
+	const first = statements[0];
+	const lines = [
+		getDedentedText(
+			first.getSourceFile(),
+			first.getStart(),
+			statements[statements.length - 1].getEnd(),
+		),
+	];
+
+	if (returnValues.length === 1) {
+		lines.push(`return ${returnValues[0].name};`);
+	} else if (returnValues.length > 1) {
+		lines.push(`return { ${returnValues.map((r) => r.name).join(", ")} };`);
+	}
+	return lines.join("\n");
+}
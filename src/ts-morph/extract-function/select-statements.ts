@@ -0,0 +1,92 @@
+import {
+	Node,
+	type SourceFile,
+	type StatementedNode,
+	type Statement,
+} from "ts-morph";
+
+export interface SelectedStatements {
+	/** 選択した文を直接含むノード (SourceFile / Block / case 節など) */
+	container: Node & StatementedNode;
+	/** コメント行を含む、選択範囲に完全に含まれる連続した文 */
+	statements: Statement[];
+	/** `container.getStatementsWithComments()` における先頭の文の index */
+	firstIndex: number;
+}
+
+function toOffset(
+	sourceFile: SourceFile,
+	position: { line: number; column: number },
+): number {
+	try {
+		return sourceFile.compilerNode.getPositionOfLineAndCharacter(
+			position.line - 1,
+			position.column - 1,
+		);
+	} catch (error) {
+		throw new Error(
+			`指定位置 (${position.line}:${position.column}) はファイルの範囲外か無効です`,
+		);
+	}
+}
+
+/**
+ * 開始位置と終了位置で囲まれた範囲に完全に含まれる文を取得する。
+ *
+ * 範囲に文が含まれるコンテナのうち最も外側のものを選ぶので、
+ * if 文を丸ごと選択した場合はその内側のブロックではなく if 文自体が対象になる。
+ * 終了位置は最後の文字の位置・その直後の位置のどちらで指定されても同じ結果になる。
+ */
+export function selectStatementsInRange(
+	sourceFile: SourceFile,
+	startPosition: { line: number; column: number },
+	endPosition: { line: number; column: number },
+): SelectedStatements {
+	const startOffset = toOffset(sourceFile, startPosition);
+	const endOffset = toOffset(sourceFile, endPosition);
+	if (endOffset < startOffset) {
+		throw new Error("終了位置が開始位置より前にあります");
+	}
+
+	const containers: (Node & StatementedNode)[] = [
+		sourceFile,
+		...sourceFile.getDescendants().filter(Node.isStatemented),
+	];
+	for (const container of containers) {
+		const candidates = container.getStatementsWithComments();
+		const statements = candidates.filter(
+			(s) => s.getStart() >= startOffset && s.getEnd() <= endOffset + 1,
+		);
+		if (statements.length === 0) {
+			continue;
+		}
+
+		const partial = candidates.find(
+			(s) =>
+				!statements.includes(s) &&
+				s.getStart() < endOffset &&
+				s.getEnd() > startOffset,
+		);
+		if (partial) {
+			const { line, column } = sourceFile.getLineAndColumnAtPos(
+				partial.getStart(),
+			);
+			throw new Error(
+				`選択範囲が文の途中で始まっているか終わっています (${line}:${column} の文)。文全体を含むように範囲を指定してください`,
+			);
+		}
+		if (statements.every(Node.isCommentStatement)) {
+			throw new Error("選択範囲にコメント以外の文が含まれていません");
+		}
+
+		return {
+			container,
+			statements,
+			firstIndex: candidates.indexOf(statements[0]),
+		};
+	}
+
+	throw new Error(
+		`選択範囲 (${startPosition.line}:${startPosition.column} - ${endPosition.line}:${endPosition.column}) に完全に含まれる文がありません`,
+	);
+}
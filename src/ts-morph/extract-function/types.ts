@@ -0,0 +1,33 @@
+import type { FileDiff } from "../_utils/file-diff";
+
+/**
+ * 抽出した関数の配置先。
+ * - module: 範囲を含むトップレベル文の直後に関数宣言として追加する
+ * - classMethod: 範囲を含むクラスメンバーの直後に private メソッドとして追加する
+ */
+export type ExtractFunctionPlacement = "module" | "classMethod";
+
+export interface ExtractFunctionParams {
+	tsconfigPath: string;
+	targetFilePath: string;
+	/** 選択範囲の開始位置 (1-based) */
+	startPosition: { line: number; column: number };
+	/** 選択範囲の終了位置 (1-based)。最後の文字の位置・その直後の位置のどちらでもよい */
+	endPosition: { line: number; column: number };
+	/** 新しく作る関数 (メソッド) の名前 */
+	functionName: string;
+	placement?: ExtractFunctionPlacement;
+	dryRun?: boolean;
+	/** true の場合、保存前の in-memory の内容とディスクとの unified diff を返す */
+	includeDiff?: boolean;
+}
+
+export interface ExtractFunctionResult {
+	changedFiles: string[];
+	/** 抽出した関数の引数名 (範囲外で宣言され、範囲内で参照される変数) */
+	parameters: string[];
+	/** 抽出した関数が返す変数名 (範囲内で代入され、範囲の後で参照される変数) */
+	returnValues: string[];
+	/** `includeDiff: true` のときのみ設定される */
+	diffs?: FileDiff[];
+}
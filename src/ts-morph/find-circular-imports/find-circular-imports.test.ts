@@ -0,0 +1,127 @@
+import type { Project } from "ts-morph";
+import { describe, expect, it } from "vitest";
+import { createInMemoryProject } from "../_test-utils/create-in-memory-project";
+import { findCircularImports } from "./find-circular-imports";
+
+function setup(files: Record<string, string>): Project {
+	const project = createInMemoryProject();
+	for (const [path, content] of Object.entries(files)) {
+		project.createSourceFile(path, content, { overwrite: true });
+	}
+	return project;
+}
+
+function chains(result: { cycles: { files: string[] }[] }): string[] {
+	return result.cycles.map((cycle) => cycle.files.join(" -> "));
+}
+
+describe("findCircularImports", () => {
+	it("import の循環をファイルの並びとして報告する", () => {
+		const project = setup({
+			"/src/a.ts": 'import { b } from "./b";\nexport const a = () => b();',
+			"/src/b.ts": 'import { c } from "./c";\nexport const b = () => c();',
+			"/src/c.ts": '\nimport { a } from "./a";\nexport const c = () => a();',
+			"/src/d.ts": 'import { a } from "./a";\nexport const d = a;',
+		});
+
+		const result = findCircularImports(project);
+
+		expect(chains(result)).toEqual([
+			"/src/a.ts -> /src/b.ts -> /src/c.ts -> /src/a.ts",
+		]);
+		expect(result.cycles[0].links).toEqual([
+			{
+				from: "/src/a.ts",
+				to: "/src/b.ts",
+				line: 1,
+				moduleSpecifier: "./b",
+				isTypeOnly: false,
+				symbolCount: 1,
+				usesPathAlias: false,
+			},
+			{
+				from: "/src/b.ts",
+				to: "/src/c.ts",
+				line: 1,
+				moduleSpecifier: "./c",
+				isTypeOnly: false,
+				symbolCount: 1,
+				usesPathAlias: false,
+			},
+			{
+				from: "/src/c.ts",
+				to: "/src/a.ts",
+				line: 2,
+				moduleSpecifier: "./a",
+				isTypeOnly: false,
+				symbolCount: 1,
+				usesPathAlias: false,
+			},
+		]);
+		expect(result.cycles[0].isTypeOnly).toBe(false);
+		expect(result.scannedFiles).toBe(4);
+	});
+
+	it("re-export (export * / export { } from) も依存として扱う", () => {
+		const project = setup({
+			"/src/index.ts": 'export * from "./button";',
+			"/src/button.ts":
+				'import { theme } from "./index";\nexport const button = theme;\nexport const theme = 1;',
+		});
+
+		expect(chains(findCircularImports(project))).toEqual([
+			"/src/button.ts -> /src/index.ts -> /src/button.ts",
+		]);
+	});
+
+	it("ignoreTypeOnlyImports の場合は型だけの import を無視する", () => {
+		const project = setup({
+			"/src/user.ts":
+				'import type { Order } from "./order";\nexport interface User { orders: Order[] }\nexport const createUser = () => ({ orders: [] });',
+			"/src/order.ts":
+				'import { type User, createUser } from "./user";\nexport interface Order { user: User }\nexport const owner = createUser();',
+			"/src/shape.ts":
+				'import { Circle } from "./circle";\nexport type Shape = Circle;',
+			"/src/circle.ts":
+				'import { Shape } from "./shape";\nexport interface Circle { parent?: Shape }',
+		});
+
+		const all = findCircularImports(project);
+		expect(chains(all)).toEqual([
+			"/src/circle.ts -> /src/shape.ts -> /src/circle.ts",
+			"/src/order.ts -> /src/user.ts -> /src/order.ts",
+		]);
+		expect(all.cycles.map((cycle) => cycle.isTypeOnly)).toEqual([true, true]);
+
+		const runtime = findCircularImports(project, {
+			ignoreTypeOnlyImports: true,
+		});
+		expect(runtime.cycles).toEqual([]);
+	});
+
+	it("excludeFilePatterns に一致するファイルは依存グラフから除外する", () => {
+		const project = setup({
+			"/src/a.ts": 'export const a = 1;\nimport "./a.test";',
+			"/src/a.test.ts": 'import { a } from "./a";\nconsole.log(a);',
+		});
+
+		expect(findCircularImports(project).cycles).toHaveLength(1);
+		expect(
+			findCircularImports(project, { excludeFilePatterns: [".test."] }).cycles,
+		).toEqual([]);
+	});
+
+	it("maxResults に達したら打ち切る", () => {
+		const project = setup({
+			"/src/a.ts": 'import "./b";',
+			"/src/b.ts": 'import "./a";',
+			"/src/c.ts": 'import "./d";',
+			"/src/d.ts": 'import "./c";',
+		});
+
+		const result = findCircularImports(project, { maxResults: 1 });
+
+		expect(chains(result)).toEqual(["/src/a.ts -> /src/b.ts -> /src/a.ts"]);
+		expect(result.truncated).toBe(true);
+	});
+});
@@ -0,0 +1,135 @@
+import type { Project } from "ts-morph";
+import {
+	buildModuleGraph,
+	type ModuleGraph,
+	type ModuleGraphEdge,
+} from "../_utils/module-graph";
+
+export interface CircularImport {
+	/** 循環するファイルの並び。先頭と同じファイルで終わる (例: [a, b, a]) */
+	files: string[];
+	/** files[i] から files[i + 1] への import / export */
+	links: ModuleGraphEdge[];
+	/** 循環が型だけの依存を含み、実行時には循環しないか */
+	isTypeOnly: boolean;
+}
+
+export interface FindCircularImportsOptions {
+	/** true の場合、型だけの import / export を依存に含めない (実行時の循環だけを報告する) */
+	ignoreTypeOnlyImports?: boolean;
+	/** 部分文字列のいずれかを filePath に含むファイルは依存グラフから除外 */
+	excludeFilePatterns?: string[];
+	/** 上限件数 (デフォルト 100)。超えた時点で探索を打ち切り `truncated=true` を返す */
+	maxResults?: number;
+}
+
+export interface FindCircularImportsResult {
+	cycles: CircularImport[];
+	/** maxResults に達して打ち切られたか */
+	truncated: boolean;
+	/** 依存グラフに含めたファイル数 (除外後) */
+	scannedFiles: number;
+}
+
+const DEFAULT_MAX_RESULTS = 100;
+
+/**
+ * 循環を、パスが最も小さいファイルから始まるように回転する (同じ循環を 1 回だけ報告するため)。
+ */
+function normalizeCycle(links: ModuleGraphEdge[]): ModuleGraphEdge[] {
+	let startIndex = 0;
+	for (let i = 1; i < links.length; i++) {
+		if (links[i].from < links[startIndex].from) {
+			startIndex = i;
+		}
+	}
+	return [...links.slice(startIndex), ...links.slice(0, startIndex)];
+}
+
+/**
+ * 深さ優先探索の後退辺 (探索中のファイルへ戻る依存) ごとに循環を 1 つ見つける。
+ * 1 つの強連結成分に含まれるすべての単純閉路を列挙すると組み合わせ爆発するため、
+ * 依存の少なくとも 1 つを切れば解消できる循環をもれなく示すことを優先する。
+ * 深いグラフでもスタックが溢れないよう、再帰を使わずに探索する。
+ */
+function* findCycles(graph: ModuleGraph): Generator<ModuleGraphEdge[]> {
+	const visited = new Set<string>();
+	for (const root of graph.files) {
+		if (visited.has(root)) continue;
+		visited.add(root);
+		const path: { file: string; nextEdgeIndex: number }[] = [
+			{ file: root, nextEdgeIndex: 0 },
+		];
+		const pathEdges: ModuleGraphEdge[] = [];
+		const positionInPath = new Map([[root, 0]]);
+
+		while (path.length > 0) {
+			const frame = path[path.length - 1];
+			const edges = graph.edges.get(frame.file) ?? [];
+			if (frame.nextEdgeIndex >= edges.length) {
+				path.pop();
+				positionInPath.delete(frame.file);
+				pathEdges.pop();
+				continue;
+			}
+			const edge = edges[frame.nextEdgeIndex++];
+			const position = positionInPath.get(edge.to);
+			if (position !== undefined) {
+				yield [...pathEdges.slice(position), edge];
+				continue;
+			}
+			if (visited.has(edge.to)) continue;
+			visited.add(edge.to);
+			positionInPath.set(edge.to, path.length);
+			path.push({ file: edge.to, nextEdgeIndex: 0 });
+			pathEdges.push(edge);
+		}
+	}
+}
+
+/**
+ * プロジェクトの import / export の依存グラフから循環を探し、ファイルの並びとして返す。
+ *
+ * 依存グラフはすべての ImportDeclaration / ExportDeclaration を `getModuleSpecifierSourceFile()` で解決して作る
+ * (動的 `import()` と `require()` は含めない)。循環は深さ優先探索の後退辺ごとに 1 つ報告するため、
+ * 同じファイル群を通る別の経路の循環は報告されないことがある。
+ * 依存を 1 つ切って再実行すると、残りの循環が見える。
+ */
+export function findCircularImports(
+	project: Project,
+	options: FindCircularImportsOptions = {},
+): FindCircularImportsResult {
+	const maxResults = options.maxResults ?? DEFAULT_MAX_RESULTS;
+	if (!Number.isInteger(maxResults) || maxResults < 1) {
+		throw new Error(
+			`maxResults は 1 以上の整数で指定してください (受信値: ${maxResults})`,
+		);
+	}
+
+	const graph = buildModuleGraph(project, {
+		ignoreTypeOnlyImports: options.ignoreTypeOnlyImports,
+		excludeFilePatterns: options.excludeFilePatterns,
+	});
+
+	const cycles: CircularImport[] = [];
+	const seen = new Set<string>();
+	let truncated = false;
+	for (const found of findCycles(graph)) {
+		const links = normalizeCycle(found);
+		const files = [...links.map((link) => link.from), links[0].from];
+		const key = files.join("\n");
+		if (seen.has(key)) continue;
+		seen.add(key);
+		if (cycles.length >= maxResults) {
+			truncated = true;
+			break;
+		}
+		cycles.push({
+			files,
+			links,
+			isTypeOnly: links.some((link) => link.isTypeOnly),
+		});
+	}
+
+	return { cycles, truncated, scannedFiles: graph.files.length };
+}
@@ -1,5 +1,5 @@
 import type { Node, SourceFile } from "ts-morph";
-import { initializeProject } from "./_utils/ts-morph-project";
+import { getProject } from "./_utils/project-registry";
 import { findIdentifierNode } from "./rename-symbol/rename-symbol";
 
 // --- Data Structure for Result ---
@@ -28,7 +28,7 @@ export async function findSymbolReferences({
 	references: ReferenceLocation[];
 	definition: ReferenceLocation | null;
 }> {
-	const project = initializeProject(tsconfigPath);
+	const project = getProject(tsconfigPath);
 
 	// targetFilePath は絶対パスである想定
 	const identifierNode = findIdentifierNode(project, targetFilePath, position);
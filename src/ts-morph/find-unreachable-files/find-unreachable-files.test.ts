@@ -0,0 +1,136 @@
+import type { Project } from "ts-morph";
+import { describe, expect, it } from "vitest";
+import { createInMemoryProject } from "../_test-utils/create-in-memory-project";
+import { findUnreachableFiles } from "./find-unreachable-files";
+
+function setup(files: Record<string, string>): Project {
+	const project = createInMemoryProject();
+	for (const [path, content] of Object.entries(files)) {
+		project.createSourceFile(path, content, { overwrite: true });
+	}
+	return project;
+}
+
+function paths(result: { unreachableFiles: { filePath: string }[] }): string[] {
+	return result.unreachableFiles.map((f) => f.filePath);
+}
+
+describe("findUnreachableFiles", () => {
+	it("起点から import をたどって到達できないファイルを報告する", () => {
+		const project = setup({
+			"/src/main.ts": 'import { a } from "./a";\na();',
+			"/src/a.ts": 'export { b as a } from "./b";',
+			"/src/b.ts": "export function b(): void {}",
+			"/src/orphan.ts": "export const orphan = 1;",
+		});
+		const result = findUnreachableFiles(project, {
+			rootDir: "/",
+			entryPoints: ["/src/main.ts"],
+		});
+		expect(paths(result)).toEqual(["/src/orphan.ts"]);
+		expect(result).toMatchObject({
+			entryFileCount: 1,
+			reachableFileCount: 3,
+			truncated: false,
+			scannedFiles: 4,
+		});
+	});
+
+	it("孤立したファイル同士でだけ使われているファイルも報告し、参照元を添える", () => {
+		const project = setup({
+			"/src/main.ts": "console.log(1);",
+			"/src/old-page.ts": 'import { helper } from "./old-helper";\nhelper();',
+			"/src/old-helper.ts": "export function helper(): void {}",
+		});
+		const result = findUnreachableFiles(project, {
+			rootDir: "/",
+			entryPoints: ["/src/main.ts"],
+		});
+		expect(result.unreachableFiles).toEqual([
+			{ filePath: "/src/old-helper.ts", importedBy: ["/src/old-page.ts"] },
+			{ filePath: "/src/old-page.ts", importedBy: [] },
+		]);
+	});
+
+	it("動的 import・import = require・JS の require もたどる", () => {
+		const project = setup({
+			"/src/main.ts": [
+				'import config = require("./config");',
+				'const lazy = () => import("./lazy");',
+			].join("\n"),
+			"/src/config.ts": "export = 1;",
+			"/src/lazy.js": 'const legacy = require("./legacy");',
+			"/src/legacy.js": "module.exports = 1;",
+		});
+		const result = findUnreachableFiles(project, {
+			rootDir: "/",
+			entryPoints: ["/src/main.ts"],
+		});
+		expect(paths(result)).toEqual([]);
+	});
+
+	it("entryPatterns の glob に一致するファイルを起点にする", () => {
+		const project = setup({
+			"/src/pages/index.tsx": 'import { Nav } from "../nav";\nNav;',
+			"/src/nav.ts": "export const Nav = 1;",
+			"/src/util.ts": "export const util = 1;",
+			"/src/util.test.ts": 'import { util } from "./util";\nutil;',
+			"/src/unused.ts": "export const unused = 1;",
+		});
+		const result = findUnreachableFiles(project, {
+			rootDir: "/",
+			entryPatterns: ["src/pages/**", "**/*.test.ts"],
+		});
+		expect(paths(result)).toEqual(["/src/unused.ts"]);
+		expect(result.entryFileCount).toBe(2);
+	});
+
+	it("excludeFilePatterns のファイルは起点にも探索対象にもしない", () => {
+		const project = setup({
+			"/src/main.ts": "console.log(1);",
+			"/src/util.ts": "export const util = 1;",
+			"/src/util.test.ts": 'import { util } from "./util";\nutil;',
+		});
+		const result = findUnreachableFiles(project, {
+			rootDir: "/",
+			entryPoints: ["/src/main.ts"],
+			entryPatterns: ["**/*.test.ts"],
+			excludeFilePatterns: [".test."],
+		});
+		// テストからしか使われていないファイルが見える
+		expect(paths(result)).toEqual(["/src/util.ts"]);
+	});
+
+	it("起点が 1 つもなければエラー", () => {
+		const project = setup({ "/src/a.ts": "export const a = 1;" });
+		expect(() =>
+			findUnreachableFiles(project, {
+				rootDir: "/",
+				entryPoints: ["/src/missing.ts"],
+			}),
+		).toThrow(/起点になるファイルがありません/);
+	});
+
+	it("maxResults を超えた分は報告せず truncated=true を返す", () => {
+		const project = setup({
+			"/src/main.ts": "console.log(1);",
+			"/src/a.ts": "export const a = 1;",
+			"/src/b.ts": "export const b = 1;",
+			"/src/c.ts": "export const c = 1;",
+		});
+		const result = findUnreachableFiles(project, {
+			rootDir: "/",
+			entryPoints: ["/src/main.ts"],
+			maxResults: 2,
+		});
+		expect(paths(result)).toEqual(["/src/a.ts", "/src/b.ts"]);
+		expect(result.truncated).toBe(true);
+		expect(() =>
+			findUnreachableFiles(project, {
+				rootDir: "/",
+				entryPoints: ["/src/main.ts"],
+				maxResults: 0,
+			}),
+		).toThrow(/1 以上の整数/);
+	});
+});
@@ -0,0 +1,136 @@
+import * as path from "node:path";
+import type { Project, SourceFile } from "ts-morph";
+import { globToRegExp } from "../_utils/glob-pattern";
+
+export interface UnreachableFile {
+	filePath: string;
+	/** このファイルを参照している到達不能なファイル (孤立したファイル同士の依存。パス順) */
+	importedBy: string[];
+}
+
+export interface FindUnreachableFilesOptions {
+	/** `entryPatterns` の基準にするディレクトリの絶対パス (通常は tsconfig.json のディレクトリ) */
+	rootDir: string;
+	/** 探索の起点にするファイルの絶対パス (`FindUnusedExportsOptions.entryPoints` と同じ) */
+	entryPoints?: string[];
+	/** rootDir からの相対パス (POSIX 形式) に対する glob。一致するファイルも起点にする (`**\/*.test.ts`、`src/pages/**` など) */
+	entryPatterns?: string[];
+	/** 部分文字列のいずれかを filePath に含むファイルは、起点にも探索対象にもしない */
+	excludeFilePatterns?: string[];
+	/** 上限件数 (デフォルト 100)。超えた分は報告せず `truncated=true` を返す */
+	maxResults?: number;
+}
+
+export interface FindUnreachableFilesResult {
+	unreachableFiles: UnreachableFile[];
+	/** 起点になったファイル数 */
+	entryFileCount: number;
+	/** 起点から到達できたファイル数 (起点を含む) */
+	reachableFileCount: number;
+	/** maxResults に達して打ち切られたか */
+	truncated: boolean;
+	/** 探索対象にしたファイル数 (除外後) */
+	scannedFiles: number;
+}
+
+const DEFAULT_MAX_RESULTS = 100;
+
+function toRelativePath(rootDir: string, filePath: string): string {
+	return path.relative(rootDir, filePath).replace(/\\/g, "/");
+}
+
+/**
+ * 起点のファイルから import をたどって到達できないファイルを列挙する。
+ *
+ * 依存は `getReferencedSourceFiles()` で解決するため、ImportDeclaration / ExportDeclaration に加えて
+ * 動的 `import("./x")`、`import x = require("./x")`、JS ファイルの `require("./x")`、`/// <reference path>` もたどる。
+ * 文字列を組み立てる動的 import (`import(\`./pages/${name}\`)`) は解決できないため、
+ * そのように読み込まれるファイルは `entryPatterns` で起点に含める。
+ *
+ * 未使用 export の検出 (`findUnusedExports`) では、孤立したファイル同士でだけ使われている export は
+ * 「使用中」になるが、ここではファイル単位で到達可能性を見るため、孤立したファイルの塊ごと報告できる。
+ */
+export function findUnreachableFiles(
+	project: Project,
+	options: FindUnreachableFilesOptions,
+): FindUnreachableFilesResult {
+	const maxResults = options.maxResults ?? DEFAULT_MAX_RESULTS;
+	if (!Number.isInteger(maxResults) || maxResults < 1) {
+		throw new Error(
+			`maxResults は 1 以上の整数で指定してください (受信値: ${maxResults})`,
+		);
+	}
+
+	const rootDir = path.resolve(options.rootDir);
+	const excludePatterns = options.excludeFilePatterns ?? [];
+	const entryPointSet = new Set(
+		(options.entryPoints ?? []).map((p) => path.resolve(p)),
+	);
+	const entryMatchers = (options.entryPatterns ?? []).map(globToRegExp);
+
+	const sourceFiles = project
+		.getSourceFiles()
+		.filter((sf) => {
+			if (sf.isInNodeModules()) return false;
+			if (sf.isDeclarationFile()) return false;
+			const fp = sf.getFilePath();
+			return !excludePatterns.some((p) => fp.includes(p));
+		})
+		.sort((a, b) => a.getFilePath().localeCompare(b.getFilePath()));
+	const files = new Set<SourceFile>(sourceFiles);
+
+	const entryFiles = sourceFiles.filter((sf) => {
+		const fp = sf.getFilePath();
+		if (entryPointSet.has(fp)) return true;
+		const relativePath = toRelativePath(rootDir, fp);
+		return entryMatchers.some((matcher) => matcher.test(relativePath));
+	});
+	if (entryFiles.length === 0) {
+		throw new Error(
+			"起点になるファイルがありません。entryPoints または entryPatterns にプロジェクト内のファイルを指定してください",
+		);
+	}
+
+	const dependencies = new Map<SourceFile, SourceFile[]>();
+	for (const sourceFile of sourceFiles) {
+		dependencies.set(
+			sourceFile,
+			sourceFile.getReferencedSourceFiles().filter((dep) => files.has(dep)),
+		);
+	}
+
+	const reachable = new Set<SourceFile>(entryFiles);
+	const queue = [...entryFiles];
+	for (let i = 0; i < queue.length; i++) {
+		for (const dep of dependencies.get(queue[i]) ?? []) {
+			if (reachable.has(dep)) continue;
+			reachable.add(dep);
+			queue.push(dep);
+		}
+	}
+
+	const importedBy = new Map<SourceFile, string[]>();
+	for (const sourceFile of sourceFiles) {
+		if (reachable.has(sourceFile)) continue;
+		for (const dep of dependencies.get(sourceFile) ?? []) {
+			const importers = importedBy.get(dep) ?? [];
+			importers.push(sourceFile.getFilePath());
+			importedBy.set(dep, importers);
+		}
+	}
+
+	const unreachable = sourceFiles.filter((sf) => !reachable.has(sf));
+	const truncated = unreachable.length > maxResults;
+	const unreachableFiles = unreachable.slice(0, maxResults).map((sf) => ({
+		filePath: sf.getFilePath(),
+		importedBy: importedBy.get(sf) ?? [],
+	}));
+
+	return {
+		unreachableFiles,
+		entryFileCount: entryFiles.length,
+		reachableFileCount: reachable.size,
+		truncated,
+		scannedFiles: sourceFiles.length,
+	};
+}
@@ -360,20 +360,31 @@ const SYNTHETIC_ALIAS_PREFIX = "__find_unused_exports_ns_ref__";
 // (例: `集計`, `λ`) を正しく境界判定するため、lookbehind/lookahead で代替する。
 const TS_IDENT_PART_CLASS = "[\\p{L}\\p{N}_$]";
 
-function countTextOccurrences(
-	name: string,
-	declSourceFile: SourceFile,
-	project: Project,
-): number {
-	if (name.length === 0) return 0;
+function createNameOccurrenceRegExp(name: string): RegExp {
 	const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
 	// 合成 import の `name as __find_unused_exports_ns_ref__N_name` をカウントから除外。
 	// `\s+` で whitespace 揺らぎ (ts-morph の改行挿入等) を吸収。alias 末尾の `\d+_` は
 	// expandNamespaceImports のカウンタ付き alias 形式に対応。
-	const re = new RegExp(
+	return new RegExp(
 		`(?<!${TS_IDENT_PART_CLASS})${escaped}(?!${TS_IDENT_PART_CLASS})(?!\\s+as\\s+${SYNTHETIC_ALIAS_PREFIX}\\d+_)`,
 		"gu",
 	);
+}
+
+/** テキスト中の name の出現数 (`textOccurrences` と同じ境界判定) */
+export function countNameOccurrences(name: string, text: string): number {
+	if (name.length === 0) return 0;
+	return text.match(createNameOccurrenceRegExp(name))?.length ?? 0;
+}
+
+/** 宣言ファイル以外のソースでの name の出現数 (`textOccurrences` の値) */
+export function countTextOccurrences(
+	name: string,
+	declSourceFile: SourceFile,
+	project: Project,
+): number {
+	if (name.length === 0) return 0;
+	const re = createNameOccurrenceRegExp(name);
 	let count = 0;
 	for (const sf of project.getSourceFiles()) {
 		if (sf === declSourceFile) continue;
@@ -0,0 +1,316 @@
+import type { Project } from "ts-morph";
+import { describe, expect, it } from "vitest";
+import { createInMemoryProject } from "../_test-utils/create-in-memory-project";
+import { findUnusedMembers } from "./find-unused-members";
+
+function setup(files: Record<string, string>): Project {
+	const project = createInMemoryProject();
+	for (const [path, content] of Object.entries(files)) {
+		project.createSourceFile(path, content, { overwrite: true });
+	}
+	return project;
+}
+
+function names(result: {
+	unusedMembers: { containerName: string; name: string }[];
+}): string[] {
+	return result.unusedMembers.map((m) => `${m.containerName}.${m.name}`).sort();
+}
+
+describe("findUnusedMembers", () => {
+	describe("クラス", () => {
+		it("他ファイルから使われていない public メソッドだけを報告する", () => {
+			const project = setup({
+				"/a.ts": [
+					"export class Service {",
+					"  used(): void {}",
+					"  unused(): void {}",
+					"}",
+				].join("\n"),
+				"/b.ts": [
+					'import { Service } from "./a";',
+					"new Service().used();",
+				].join("\n"),
+			});
+			const result = findUnusedMembers(project);
+			expect(names(result)).toEqual(["Service.unused"]);
+			expect(result.unusedMembers[0]).toMatchObject({
+				filePath: "/a.ts",
+				line: 3,
+				column: 3,
+				kind: "MethodDeclaration",
+				isDefaultExport: false,
+				containerKind: "ClassDeclaration",
+				textOccurrences: 0,
+				sameFileReferenceCount: 0,
+			});
+		});
+
+		it("同一ファイル内でだけ使われるメンバーは sameFileReferenceCount が 1+", () => {
+			const project = setup({
+				"/a.ts": [
+					"export class Service {",
+					"  run(): void { this.helper(); }",
+					"  helper(): void {}",
+					"}",
+				].join("\n"),
+				"/b.ts": [
+					'import { Service } from "./a";',
+					"new Service().run();",
+				].join("\n"),
+			});
+			const result = findUnusedMembers(project);
+			expect(names(result)).toEqual(["Service.helper"]);
+			expect(result.unusedMembers[0].sameFileReferenceCount).toBe(1);
+		});
+
+		it("private メンバー・コンストラクタ・デコレータ付きメンバーは対象外", () => {
+			const project = setup({
+				"/a.ts": [
+					"declare function Input(): PropertyDecorator;",
+					"export class Component {",
+					"  constructor() {}",
+					"  private secret(): void {}",
+					"  #hidden = 1;",
+					"  @Input() label = '';",
+					"}",
+				].join("\n"),
+			});
+			const result = findUnusedMembers(project);
+			expect(result.unusedMembers).toEqual([]);
+		});
+
+		it("getter / setter の組は 1 件として報告し、setter 経由の代入は使用として数える", () => {
+			const project = setup({
+				"/a.ts": [
+					"export class Box {",
+					"  get size(): number { return 1; }",
+					"  set size(v: number) {}",
+					"  get weight(): number { return 1; }",
+					"  set weight(v: number) {}",
+					"}",
+				].join("\n"),
+				"/b.ts": ['import { Box } from "./a";', "new Box().size = 2;"].join(
+					"\n",
+				),
+			});
+			const result = findUnusedMembers(project);
+			expect(names(result)).toEqual(["Box.weight"]);
+			expect(result.unusedMembers[0].kind).toBe("GetAccessor");
+		});
+
+		it("export されていないクラスのメンバーは対象外", () => {
+			const project = setup({
+				"/a.ts": "class Internal { unused(): void {} }",
+			});
+			const result = findUnusedMembers(project);
+			expect(result.unusedMembers).toEqual([]);
+		});
+	});
+
+	describe("インターフェース実装", () => {
+		it("implements したインターフェースのメンバーを満たすだけのメソッドは報告しない", () => {
+			const project = setup({
+				"/node_modules/lib/index.d.ts":
+					"export interface OnInit { ngOnInit(): void; }",
+				"/a.ts": [
+					'import type { OnInit } from "lib";',
+					"export class Page implements OnInit {",
+					"  ngOnInit(): void {}",
+					"}",
+				].join("\n"),
+			});
+			const result = findUnusedMembers(project);
+			expect(result.unusedMembers).toEqual([]);
+		});
+
+		it("インターフェース経由でしか呼ばれない実装メンバーは使用中と判定される", () => {
+			const project = setup({
+				"/types.ts": ["export interface Repo {", "  find(): void;", "}"].join(
+					"\n",
+				),
+				"/a.ts": [
+					'import type { Repo } from "./types";',
+					"export class MemoryRepo implements Repo {",
+					"  find(): void {}",
+					"}",
+				].join("\n"),
+				"/b.ts": [
+					'import type { Repo } from "./types";',
+					"export function load(repo: Repo): void { repo.find(); }",
+				].join("\n"),
+			});
+			const result = findUnusedMembers(project, {
+				entryPoints: ["/b.ts"],
+			});
+			expect(result.unusedMembers).toEqual([]);
+		});
+
+		it("実装があるだけで誰も使わないインターフェースメンバーは報告する (実装宣言は利用に数えない)", () => {
+			const project = setup({
+				"/types.ts": [
+					"export interface Repo {",
+					"  find(): void;",
+					"  save(): void;",
+					"}",
+				].join("\n"),
+				"/a.ts": [
+					'import type { Repo } from "./types";',
+					"export class MemoryRepo implements Repo {",
+					"  find(): void {}",
+					"  save(): void {}",
+					"}",
+				].join("\n"),
+				"/b.ts": [
+					'import type { Repo } from "./types";',
+					"export function load(repo: Repo): void { repo.find(); }",
+				].join("\n"),
+			});
+			const result = findUnusedMembers(project, {
+				entryPoints: ["/b.ts"],
+			});
+			// MemoryRepo.save は Repo.save を満たすために必要なので報告しない
+			expect(names(result)).toEqual(["Repo.save"]);
+		});
+
+		it("基底クラスのメンバーをオーバーライドするメソッドは報告しない", () => {
+			const project = setup({
+				"/base.ts": "export class Base { render(): string { return ''; } }",
+				"/a.ts": [
+					'import { Base } from "./base";',
+					"export class Child extends Base {",
+					"  render(): string { return 'child'; }",
+					"}",
+				].join("\n"),
+				"/b.ts": [
+					'import type { Base } from "./base";',
+					"export function show(b: Base): string { return b.render(); }",
+				].join("\n"),
+			});
+			const result = findUnusedMembers(project, {
+				entryPoints: ["/b.ts"],
+			});
+			expect(result.unusedMembers).toEqual([]);
+		});
+	});
+
+	describe("インターフェース・型リテラル", () => {
+		it("オブジェクトリテラルで値を与えているプロパティは使用として数える", () => {
+			const project = setup({
+				"/a.ts": [
+					"export interface Options {",
+					"  verbose: boolean;",
+					"  legacy?: boolean;",
+					"}",
+				].join("\n"),
+				"/b.ts": [
+					'import type { Options } from "./a";',
+					"export const options: Options = { verbose: true };",
+				].join("\n"),
+			});
+			const result = findUnusedMembers(project, {
+				entryPoints: ["/b.ts"],
+			});
+			expect(names(result)).toEqual(["Options.legacy"]);
+			expect(result.unusedMembers[0]).toMatchObject({
+				kind: "PropertySignature",
+				containerKind: "InterfaceDeclaration",
+			});
+		});
+
+		it("型リテラルの型エイリアスのメンバーを報告する", () => {
+			const project = setup({
+				"/a.ts":
+					"export type Point = { x: number; y: number; toString(): string };",
+				"/b.ts": [
+					'import type { Point } from "./a";',
+					"export function len(p: Point): number { return p.x + p.y; }",
+				].join("\n"),
+			});
+			const result = findUnusedMembers(project, {
+				entryPoints: ["/b.ts"],
+			});
+			expect(names(result)).toEqual(["Point.toString"]);
+			expect(result.unusedMembers[0]).toMatchObject({
+				kind: "MethodSignature",
+				containerKind: "TypeAliasDeclaration",
+			});
+		});
+
+		it("extends した継承元にもあるメンバーは報告しない", () => {
+			const project = setup({
+				"/a.ts": [
+					"export interface Base { id: string; }",
+					"export interface Entity extends Base { id: string; name: string; }",
+				].join("\n"),
+				"/b.ts": [
+					'import type { Base } from "./a";',
+					"export function key(b: Base): string { return b.id; }",
+				].join("\n"),
+			});
+			const result = findUnusedMembers(project, {
+				entryPoints: ["/b.ts"],
+			});
+			expect(names(result)).toEqual(["Entity.name"]);
+		});
+	});
+
+	describe("enum", () => {
+		it("使われていない enum メンバーを報告する", () => {
+			const project = setup({
+				"/a.ts": "export enum Color { Red, Green, Blue }",
+				"/b.ts": [
+					'import { Color } from "./a";',
+					"console.log(Color.Red);",
+				].join("\n"),
+			});
+			const result = findUnusedMembers(project);
+			expect(names(result)).toEqual(["Color.Blue", "Color.Green"]);
+			expect(result.unusedMembers[0]).toMatchObject({
+				kind: "EnumMember",
+				containerKind: "EnumDeclaration",
+			});
+		});
+	});
+
+	describe("オプション", () => {
+		it("entryPoints のファイルのメンバーは報告しない", () => {
+			const project = setup({
+				"/public-api.ts": "export enum Mode { A }",
+				"/internal.ts": "export enum Level { Low }",
+			});
+			const result = findUnusedMembers(project, {
+				entryPoints: ["/public-api.ts"],
+			});
+			expect(names(result)).toEqual(["Level.Low"]);
+		});
+
+		it("excludeFilePatterns に一致するファイルは走査しない", () => {
+			const project = setup({
+				"/src/a.ts": "export enum Mode { A }",
+				"/src/a.test.ts": "export enum Fixture { B }",
+			});
+			const result = findUnusedMembers(project, {
+				excludeFilePatterns: [".test."],
+			});
+			expect(names(result)).toEqual(["Mode.A"]);
+			expect(result.scannedFiles).toBe(1);
+		});
+
+		it("maxResults に達したら truncated=true を返して打ち切る", () => {
+			const project = setup({
+				"/a.ts": "export enum Mode { A, B, C }",
+			});
+			const result = findUnusedMembers(project, { maxResults: 2 });
+			expect(result.unusedMembers).toHaveLength(2);
+			expect(result.truncated).toBe(true);
+		});
+
+		it("maxResults が不正な値ならエラー", () => {
+			const project = setup({ "/a.ts": "export enum Mode { A }" });
+			expect(() => findUnusedMembers(project, { maxResults: 0 })).toThrow(
+				/1 以上の整数/,
+			);
+		});
+	});
+});
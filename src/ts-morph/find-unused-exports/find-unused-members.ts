@@ -0,0 +1,349 @@
+import * as path from "node:path";
+import {
+	type ClassDeclaration,
+	type InterfaceDeclaration,
+	type MethodSignature,
+	Node,
+	type PropertySignature,
+	type Project,
+	type SourceFile,
+	type Type,
+	type TypeAliasDeclaration,
+} from "ts-morph";
+import logger from "../../utils/logger";
+import { countTextOccurrences, type UnusedExport } from "./find-unused-exports";
+
+/**
+ * export された型のメンバーで、宣言ファイルの外から参照されていないもの。
+ *
+ * `filePath` / `line` / `column` / `name` はメンバー自身の識別子を指し、`kind` はメンバー宣言の
+ * SyntaxKind 名 (MethodDeclaration / PropertyDeclaration / GetAccessor / SetAccessor /
+ * MethodSignature / PropertySignature / EnumMember)。`isDefaultExport` はコンテナが
+ * `export default` されているか。`textOccurrences` / `sameFileReferenceCount` の意味は
+ * `UnusedExport` と同じで、`sameFileReferenceCount >= 1` のクラスメンバーは `private` にできる。
+ */
+export interface UnusedMember extends UnusedExport {
+	/** メンバーを持つ export された型の名前 (無名の `export default class` は `default`) */
+	containerName: string;
+	/** コンテナの SyntaxKind 名 (ClassDeclaration / InterfaceDeclaration / EnumDeclaration / TypeAliasDeclaration) */
+	containerKind: string;
+}
+
+export interface FindUnusedMembersOptions {
+	/** これらの絶対パスのファイルは「公開 API」とみなしメンバーを報告しない */
+	entryPoints?: string[];
+	/** 部分文字列のいずれかを filePath に含むファイルはスキャン対象から除外 */
+	excludeFilePatterns?: string[];
+	/** 上限件数 (デフォルト 100)。超えた時点でスキャンを打ち切り `truncated=true` を返す */
+	maxResults?: number;
+}
+
+export interface FindUnusedMembersResult {
+	unusedMembers: UnusedMember[];
+	/** maxResults に達して打ち切られたか */
+	truncated: boolean;
+	/** 実際にスキャン対象となったファイル数 (除外後) */
+	scannedFiles: number;
+}
+
+const DEFAULT_MAX_RESULTS = 100;
+
+interface MemberCandidate {
+	name: string;
+	identifier: Node;
+	memberKind: string;
+	containerName: string;
+	containerKind: string;
+	isDefaultExport: boolean;
+}
+
+/**
+ * export されたクラス・インターフェース・enum・型リテラルの型エイリアスのメンバーのうち、
+ * 宣言ファイルの外で参照されていないものを列挙する。`findUnusedExports` のメンバー版。
+ *
+ * ## 検出対象
+ * - export されたクラスのメソッド / プロパティ / アクセサ (static を含む)
+ * - export されたインターフェースのプロパティ / メソッドシグネチャ
+ * - export された enum のメンバー
+ * - `export type X = { ... }` の型リテラルのプロパティ / メソッドシグネチャ
+ *
+ * `private` / `#private` メンバー (`tsc --noUnusedLocals` の領分)、コンストラクタ、
+ * 計算プロパティ名のメンバー、デコレータ付きのメンバー (フレームワークが名前で呼び出すことが多い) は対象外。
+ *
+ * ## 「使われていない」の判定基準
+ * メンバーの識別子に対する `findReferencesAsNodes()` の結果から以下を除外して、
+ * 宣言ファイルの外に 1 件も残らなければ未使用とする:
+ * - クラス / インターフェース / 型リテラルのメンバー宣言の名前。TypeScript は実装関係にある
+ *   メンバー (`implements` したクラスのメソッドとインターフェースのシグネチャ等) を互いの参照として返すが、
+ *   宣言同士は利用ではない。オブジェクトリテラルのプロパティは値を与えているので利用として数える。
+ * - `node_modules` 内の参照
+ *
+ * インターフェース経由の呼び出し (`const i: I = c; i.foo()`) は実装側のメンバーの参照にも含まれるため、
+ * インターフェースを通してしか使われない実装メンバーは使用中と判定される。
+ *
+ * ## 契約を満たすためのメンバー
+ * `implements` したインターフェースや基底クラスに同名のプロパティがあるクラスメンバーは、
+ * 単独で削除すると型エラーになるため報告しない。契約側のメンバーがプロジェクト内にあって未使用なら
+ * そちらが報告されるので、それを削除した後に再実行すると実装側が報告される。
+ * インターフェース / 型の `extends` で継承元にも同名のメンバーがある場合も同様。
+ */
+export function findUnusedMembers(
+	project: Project,
+	options: FindUnusedMembersOptions = {},
+): FindUnusedMembersResult {
+	const maxResults = options.maxResults ?? DEFAULT_MAX_RESULTS;
+	if (!Number.isInteger(maxResults) || maxResults < 1) {
+		throw new Error(
+			`maxResults は 1 以上の整数で指定してください (受信値: ${maxResults})`,
+		);
+	}
+
+	const entryPointSet = new Set(
+		(options.entryPoints ?? []).map((p) => path.resolve(p)),
+	);
+	const excludePatterns = options.excludeFilePatterns ?? [];
+
+	const sourceFiles = project.getSourceFiles().filter((sf) => {
+		if (sf.isInNodeModules()) return false;
+		if (sf.isDeclarationFile()) return false;
+		const fp = sf.getFilePath();
+		if (entryPointSet.has(fp)) return false;
+		if (excludePatterns.some((p) => fp.includes(p))) return false;
+		return true;
+	});
+
+	const unusedMembers: UnusedMember[] = [];
+	let truncated = false;
+
+	outer: for (const sourceFile of sourceFiles) {
+		for (const candidate of collectMemberCandidates(sourceFile)) {
+			const usage = analyzeMemberUsage(candidate.identifier, sourceFile);
+			if (!usage || !usage.externallyUnused) continue;
+
+			const { line, column } = sourceFile.getLineAndColumnAtPos(
+				candidate.identifier.getStart(),
+			);
+			unusedMembers.push({
+				filePath: sourceFile.getFilePath(),
+				line,
+				column,
+				name: candidate.name,
+				kind: candidate.memberKind,
+				isDefaultExport: candidate.isDefaultExport,
+				textOccurrences: countTextOccurrences(
+					candidate.name,
+					sourceFile,
+					project,
+				),
+				sameFileReferenceCount: usage.sameFileReferenceCount,
+				containerName: candidate.containerName,
+				containerKind: candidate.containerKind,
+			});
+
+			if (unusedMembers.length >= maxResults) {
+				truncated = true;
+				break outer;
+			}
+		}
+	}
+
+	return { unusedMembers, truncated, scannedFiles: sourceFiles.length };
+}
+
+function collectMemberCandidates(sf: SourceFile): MemberCandidate[] {
+	const result: MemberCandidate[] = [];
+
+	for (const stmt of sf.getStatements()) {
+		if (Node.isClassDeclaration(stmt) && stmt.isExported()) {
+			const contractTypes = getClassContractTypes(stmt);
+			for (const member of stmt.getMembers()) {
+				if (
+					!Node.isMethodDeclaration(member) &&
+					!Node.isPropertyDeclaration(member) &&
+					!Node.isGetAccessorDeclaration(member) &&
+					!Node.isSetAccessorDeclaration(member)
+				) {
+					continue;
+				}
+				if (member.hasModifier("private")) continue;
+				if (member.getDecorators().length > 0) continue;
+				// オーバーロードは実装シグネチャ側の 1 つだけを候補にする
+				if (Node.isMethodDeclaration(member) && member.isOverload()) continue;
+				const nameNode = member.getNameNode();
+				if (!Node.isIdentifier(nameNode)) continue;
+				const name = nameNode.getText();
+				// getter / setter の組は同じシンボルなので getter 側だけを候補にする
+				if (
+					Node.isSetAccessorDeclaration(member) &&
+					member.getGetAccessor() !== undefined
+				) {
+					continue;
+				}
+				if (contractTypes.some((t) => t.getProperty(name) !== undefined)) {
+					continue;
+				}
+				result.push({
+					name,
+					identifier: nameNode,
+					memberKind: member.getKindName(),
+					containerName: stmt.getName() ?? "default",
+					containerKind: stmt.getKindName(),
+					isDefaultExport: stmt.hasDefaultKeyword(),
+				});
+			}
+			continue;
+		}
+
+		if (Node.isInterfaceDeclaration(stmt) && stmt.isExported()) {
+			const baseTypes = getInterfaceBaseTypes(stmt);
+			for (const member of stmt.getMembers()) {
+				if (
+					!Node.isPropertySignature(member) &&
+					!Node.isMethodSignature(member)
+				) {
+					continue;
+				}
+				pushSignatureCandidate(result, member, stmt, baseTypes);
+			}
+			continue;
+		}
+
+		if (Node.isTypeAliasDeclaration(stmt) && stmt.isExported()) {
+			const typeNode = stmt.getTypeNode();
+			if (!Node.isTypeLiteral(typeNode)) continue;
+			for (const member of typeNode.getMembers()) {
+				if (
+					!Node.isPropertySignature(member) &&
+					!Node.isMethodSignature(member)
+				) {
+					continue;
+				}
+				pushSignatureCandidate(result, member, stmt, []);
+			}
+			continue;
+		}
+
+		if (Node.isEnumDeclaration(stmt) && stmt.isExported()) {
+			for (const member of stmt.getMembers()) {
+				const nameNode = member.getNameNode();
+				if (!Node.isIdentifier(nameNode)) continue;
+				result.push({
+					name: nameNode.getText(),
+					identifier: nameNode,
+					memberKind: member.getKindName(),
+					containerName: stmt.getName(),
+					containerKind: stmt.getKindName(),
+					isDefaultExport: false,
+				});
+			}
+		}
+	}
+
+	return result;
+}
+
+function pushSignatureCandidate(
+	result: MemberCandidate[],
+	member: PropertySignature | MethodSignature,
+	container: InterfaceDeclaration | TypeAliasDeclaration,
+	baseTypes: Type[],
+): void {
+	const nameNode = member.getNameNode();
+	if (!Node.isIdentifier(nameNode)) return;
+	const name = nameNode.getText();
+	if (baseTypes.some((t) => t.getProperty(name) !== undefined)) return;
+	result.push({
+		name,
+		identifier: nameNode,
+		memberKind: member.getKindName(),
+		containerName: container.getName(),
+		containerKind: container.getKindName(),
+		isDefaultExport: false,
+	});
+}
+
+/** `implements` したインターフェースと基底クラスの型 (クラスメンバーが満たすべき契約) */
+function getClassContractTypes(cls: ClassDeclaration): Type[] {
+	const types = cls.getImplements().map((impl) => impl.getType());
+	const baseClass = cls.getExtends();
+	if (baseClass) types.push(baseClass.getType());
+	return types;
+}
+
+function getInterfaceBaseTypes(iface: InterfaceDeclaration): Type[] {
+	return iface.getExtends().map((base) => base.getType());
+}
+
+interface MemberUsage {
+	/** 宣言ファイルの外で (実利用として) 参照されていないか */
+	externallyUnused: boolean;
+	/** 宣言と同じファイル内での参照数 (メンバー宣言の名前は除外) */
+	sameFileReferenceCount: number;
+}
+
+/**
+ * クラス / インターフェース / 型リテラルのメンバー宣言の名前か。
+ * オブジェクトリテラルのメソッド・プロパティは値を与える利用なので含めない。
+ */
+function isMemberDeclarationName(ref: Node): boolean {
+	const parent = ref.getParent();
+	if (!parent) return false;
+	if (
+		!Node.isMethodDeclaration(parent) &&
+		!Node.isPropertyDeclaration(parent) &&
+		!Node.isGetAccessorDeclaration(parent) &&
+		!Node.isSetAccessorDeclaration(parent) &&
+		!Node.isMethodSignature(parent) &&
+		!Node.isPropertySignature(parent) &&
+		!Node.isEnumMember(parent)
+	) {
+		return false;
+	}
+	if (Node.isObjectLiteralExpression(parent.getParent())) return false;
+	return parent.getNameNode() === ref;
+}
+
+/**
+ * メンバー識別子の参照を解析する。`findUnusedExports` の export 用の解析と同じく、
+ * findReferences が失敗した場合は判断不能として `null` を返し、候補から除外する。
+ */
+function analyzeMemberUsage(
+	identifier: Node,
+	declSourceFile: SourceFile,
+): MemberUsage | null {
+	const findable = identifier as Node & {
+		findReferencesAsNodes?: () => Node[];
+	};
+	if (typeof findable.findReferencesAsNodes !== "function") {
+		return null;
+	}
+
+	let refs: Node[];
+	try {
+		refs = findable.findReferencesAsNodes();
+	} catch (error) {
+		logger.warn(
+			{
+				err: error,
+				name: identifier.getText(),
+				filePath: declSourceFile.getFilePath(),
+			},
+			"findReferencesAsNodes でエラーが発生したため候補から除外します (false negative の可能性)",
+		);
+		return null;
+	}
+
+	let externallyUnused = true;
+	let sameFileReferenceCount = 0;
+	for (const ref of refs) {
+		const refFile = ref.getSourceFile();
+		if (refFile.isInNodeModules()) continue;
+		if (ref === identifier || isMemberDeclarationName(ref)) continue;
+		if (refFile === declSourceFile) {
+			sameFileReferenceCount++;
+			continue;
+		}
+		externallyUnused = false;
+	}
+	return { externallyUnused, sameFileReferenceCount };
+}
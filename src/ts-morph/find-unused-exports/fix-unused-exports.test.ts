@@ -0,0 +1,171 @@
+import type { Project } from "ts-morph";
+import { describe, expect, it } from "vitest";
+import { createInMemoryProjectWithDoubleQuotes } from "../_test-utils/create-in-memory-project";
+import { fixUnusedExportsOnProject } from "./fix-unused-exports";
+
+function setup(files: Record<string, string>): Project {
+	const project = createInMemoryProjectWithDoubleQuotes();
+	for (const [path, content] of Object.entries(files)) {
+		project.createSourceFile(path, content, { overwrite: true }).saveSync();
+	}
+	return project;
+}
+
+function text(project: Project, filePath: string): string {
+	return project.getSourceFileOrThrow(filePath).getFullText();
+}
+
+describe("fixUnusedExportsOnProject", () => {
+	it("未使用の宣言は削除し、同一ファイル内で使われている宣言は export だけを外す", async () => {
+		const project = setup({
+			"/src/lib.ts": `import { format } from "./format";
+import { unrelated } from "./format";
+
+export function dead() {
+  return format(1);
+}
+
+export const helper = 1;
+
+export const used = helper + 1;
+`,
+			"/src/format.ts":
+				"export const format = (n: number) => n;\nexport const unrelated = 0;\n",
+			"/src/main.ts": 'import { used } from "./lib";\nconsole.log(used);\n',
+		});
+
+		const result = await fixUnusedExportsOnProject(project, {
+			entryPoints: ["/src/main.ts"],
+			excludeFilePatterns: ["/src/format.ts"],
+			dryRun: true,
+		});
+
+		expect(result.fixes).toEqual([
+			{
+				filePath: "/src/lib.ts",
+				line: 4,
+				name: "dead",
+				kind: "FunctionDeclaration",
+				action: "delete",
+			},
+			{
+				filePath: "/src/lib.ts",
+				line: 8,
+				name: "helper",
+				kind: "VariableDeclaration",
+				action: "unexport",
+			},
+		]);
+		expect(result.removedImportCount).toBe(1);
+		expect(result.changedFiles).toEqual(["/src/lib.ts"]);
+		// 元から使われていなかった import (unrelated) は残す
+		expect(
+			text(project, "/src/lib.ts"),
+		).toBe(`import { unrelated } from "./format";
+const helper = 1;
+
+export const used = helper + 1;
+`);
+	});
+
+	it("候補を指す再エクスポートも削除する", async () => {
+		const project = setup({
+			"/src/values.ts": "export const first = 1;\nexport const second = 2;\n",
+			"/src/index.ts": 'export { first, second } from "./values";\n',
+			"/src/only.ts": 'export { first } from "./values";\n',
+			"/src/main.ts":
+				'import { second } from "./index";\nconsole.log(second);\n',
+		});
+
+		const result = await fixUnusedExportsOnProject(project, {
+			entryPoints: ["/src/main.ts"],
+			dryRun: true,
+		});
+
+		expect(result.fixes.map((fix) => `${fix.name}:${fix.action}`)).toEqual([
+			"first:delete",
+		]);
+		expect(result.removedReExportCount).toBe(2);
+		expect(text(project, "/src/values.ts")).toBe("export const second = 2;\n");
+		expect(text(project, "/src/index.ts")).toBe(
+			'export { second } from "./values";\n',
+		);
+		expect(text(project, "/src/only.ts")).toBe("");
+	});
+
+	it("textOccurrences が閾値を超える候補、namespace import されるファイル、entryPoints から export される宣言は修正しない", async () => {
+		const project = setup({
+			"/src/routes.ts": "export const Page = 1;\n",
+			"/src/config.ts": 'export const name = "Page";\n',
+			"/src/ns.ts": "export const spread = 1;\n",
+			"/src/public.ts": "export const api = 1;\n",
+			"/src/index.ts": 'export { api } from "./public";\n',
+			"/src/main.ts":
+				'import * as ns from "./ns";\nexport const all = { ...ns };\n',
+		});
+
+		const result = await fixUnusedExportsOnProject(project, {
+			entryPoints: ["/src/index.ts", "/src/main.ts"],
+			dryRun: true,
+		});
+
+		expect(
+			Object.fromEntries(
+				result.skipped.map((entry) => [entry.name, entry.reason]),
+			),
+		).toEqual({
+			Page: "textOccurrences (再エクスポートを除き 1) が maxTextOccurrences (0) を超えている",
+			spread:
+				"ファイルが namespace import (`import * as`) されており、名前を介さない利用を追えない",
+			api: "entryPoints から export されている",
+		});
+		expect(result.fixes.map((fix) => fix.name)).toEqual(["name"]);
+	});
+
+	it("同じ変数文に修正対象でない export が残る場合は修正しない", async () => {
+		const project = setup({
+			"/src/a.ts": "export const unused = 1, used = 2;\n",
+			"/src/main.ts": 'import { used } from "./a";\nconsole.log(used);\n',
+		});
+
+		const result = await fixUnusedExportsOnProject(project, {
+			entryPoints: ["/src/main.ts"],
+			dryRun: true,
+		});
+
+		expect(result.fixes).toEqual([]);
+		expect(result.skipped.map((entry) => entry.reason)).toEqual([
+			"同じ変数文に修正対象でない export が残る",
+		]);
+		expect(result.changedFiles).toEqual([]);
+	});
+
+	it("複数の宣言がマージされたシンボルは修正しない", async () => {
+		const project = setup({
+			"/src/c.ts": `export class C {}
+export namespace C {
+  export const version = 1;
+}
+export const c = new C();
+`,
+			"/src/main.ts": 'import { c } from "./c";\nconsole.log(c);\n',
+		});
+
+		const result = await fixUnusedExportsOnProject(project, {
+			entryPoints: ["/src/main.ts"],
+			dryRun: true,
+		});
+
+		expect(result.fixes).toEqual([]);
+		expect(result.skipped).toEqual([
+			{
+				filePath: "/src/c.ts",
+				line: 1,
+				name: "C",
+				reason:
+					"複数の宣言がマージされたシンボル (class と namespace など) は修正しない",
+			},
+		]);
+		expect(text(project, "/src/c.ts")).toContain("export class C {}");
+	});
+});
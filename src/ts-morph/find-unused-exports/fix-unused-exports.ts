@@ -0,0 +1,513 @@
+import * as path from "node:path";
+import {
+	type ClassDeclaration,
+	type EnumDeclaration,
+	type ExportSpecifier,
+	type FunctionDeclaration,
+	type ImportDeclaration,
+	type ImportSpecifier,
+	type InterfaceDeclaration,
+	Node,
+	type Project,
+	type SourceFile,
+	SyntaxKind,
+	type TypeAliasDeclaration,
+	type VariableDeclaration,
+} from "ts-morph";
+import logger from "../../utils/logger";
+import { type FileDiff, collectFileDiffs } from "../_utils/file-diff";
+import { getProject } from "../_utils/project-registry";
+import {
+	getChangedFiles,
+	saveProjectChanges,
+} from "../_utils/ts-morph-project";
+import {
+	prepareJournalEntry,
+	writeJournalEntry,
+} from "../refactor-journal/refactor-journal";
+import {
+	countNameOccurrences,
+	findUnusedExports,
+	type UnusedExport,
+} from "./find-unused-exports";
+
+export interface FixUnusedExportsParams {
+	tsconfigPath: string;
+	/** これらの絶対パスのファイルは「公開 API」とみなし、ここから export されている宣言も修正しない */
+	entryPoints?: string[];
+	/** 部分文字列のいずれかを filePath に含むファイルはスキャン対象から除外 */
+	excludeFilePatterns?: string[];
+	/** textOccurrences がこの値を超える候補は修正しない (デフォルト 0) */
+	maxTextOccurrences?: number;
+	dryRun?: boolean;
+	/** true の場合、保存前の in-memory の内容とディスクとの unified diff を返す */
+	includeDiff?: boolean;
+}
+
+/**
+ * - delete: 同一ファイル内でも使われていない (`sameFileReferenceCount === 0`) ため宣言ごと削除
+ * - unexport: 同一ファイル内では使われているため `export` キーワードだけを外す
+ */
+export type UnusedExportFixAction = "delete" | "unexport";
+
+export interface UnusedExportFix {
+	filePath: string;
+	line: number;
+	name: string;
+	kind: string;
+	action: UnusedExportFixAction;
+}
+
+export interface SkippedUnusedExport {
+	filePath: string;
+	line: number;
+	name: string;
+	reason: string;
+}
+
+export interface FixUnusedExportsResult {
+	fixes: UnusedExportFix[];
+	skipped: SkippedUnusedExport[];
+	/** 削除した再エクスポート指定子 (`export { x } from "./a"` の `x`) の数 */
+	removedReExportCount: number;
+	/** 削除した宣言でしか使われていなかったために削除した import の数 */
+	removedImportCount: number;
+	changedFiles: string[];
+	/** `includeDiff: true` のときのみ設定される */
+	diffs?: FileDiff[];
+}
+
+type FixableDeclaration =
+	| FunctionDeclaration
+	| ClassDeclaration
+	| VariableDeclaration
+	| EnumDeclaration
+	| InterfaceDeclaration
+	| TypeAliasDeclaration;
+
+interface DeclarationToFix {
+	identifier: Node;
+	declaration: FixableDeclaration;
+	/** 宣言を指す再エクスポート (`export { x } from "./a"` や同一ファイルの `export { x }`) */
+	exportSpecifiers: ExportSpecifier[];
+}
+
+interface FixTarget extends DeclarationToFix {
+	entry: UnusedExport;
+	action: UnusedExportFixAction;
+}
+
+interface ImportBinding {
+	declaration: ImportDeclaration;
+	name: string;
+	specifier?: ImportSpecifier;
+	isDefault: boolean;
+}
+
+/** entry point から (再エクスポートを含めて) export されている宣言 */
+function collectPublicDeclarations(
+	project: Project,
+	entryPoints: readonly string[],
+): Set<Node> {
+	const declarations = new Set<Node>();
+	for (const entryPoint of entryPoints) {
+		const sourceFile = project.getSourceFile(path.resolve(entryPoint));
+		for (const exported of sourceFile?.getExportedDeclarations().values() ??
+			[]) {
+			for (const declaration of exported) {
+				declarations.add(declaration);
+			}
+		}
+	}
+	return declarations;
+}
+
+/**
+ * `import * as ns` / `export * as ns` の対象になっているファイル。
+ * `{ ...ns }` のように名前を介さず使われると参照を追えないため、これらのファイルの export は修正しない。
+ */
+function collectNamespaceImportedFiles(project: Project): Set<string> {
+	const filePaths = new Set<string>();
+	for (const sourceFile of project.getSourceFiles()) {
+		if (sourceFile.isInNodeModules()) continue;
+		for (const declaration of sourceFile.getImportDeclarations()) {
+			if (!declaration.getNamespaceImport()) continue;
+			const target = declaration.getModuleSpecifierSourceFile();
+			if (target) filePaths.add(target.getFilePath());
+		}
+		for (const declaration of sourceFile.getExportDeclarations()) {
+			if (!declaration.getNamespaceExport()) continue;
+			const target = declaration.getModuleSpecifierSourceFile();
+			if (target) filePaths.add(target.getFilePath());
+		}
+	}
+	return filePaths;
+}
+
+function findDeclaration(
+	project: Project,
+	entry: UnusedExport,
+): DeclarationToFix | undefined {
+	const sourceFile = project.getSourceFileOrThrow(entry.filePath);
+	const position = sourceFile.compilerNode.getPositionOfLineAndCharacter(
+		entry.line - 1,
+		entry.column - 1,
+	);
+	const identifier = sourceFile.getDescendantAtPos(position);
+	const declaration = identifier?.getParent();
+	if (
+		!Node.isIdentifier(identifier) ||
+		!declaration ||
+		!(
+			Node.isFunctionDeclaration(declaration) ||
+			Node.isClassDeclaration(declaration) ||
+			Node.isVariableDeclaration(declaration) ||
+			Node.isEnumDeclaration(declaration) ||
+			Node.isInterfaceDeclaration(declaration) ||
+			Node.isTypeAliasDeclaration(declaration)
+		)
+	) {
+		return undefined;
+	}
+	const exportSpecifiers = new Set<ExportSpecifier>();
+	for (const reference of identifier.findReferencesAsNodes()) {
+		const specifier = reference.getFirstAncestorByKind(
+			SyntaxKind.ExportSpecifier,
+		);
+		if (specifier) exportSpecifiers.add(specifier);
+	}
+	return { identifier, declaration, exportSpecifiers: [...exportSpecifiers] };
+}
+
+/**
+ * 修正と一緒に削除する再エクスポートに現れる名前の数。
+ * textOccurrences は宣言ファイル以外の出現を数えるため、他ファイルの再エクスポートの分を閾値の判定から除く。
+ * 指定子が 1 つだけの宣言はモジュール指定子 (`"./name"`) ごと消えるため、宣言全体で数える。
+ */
+function countReExportOccurrences(
+	entry: UnusedExport,
+	exportSpecifiers: readonly ExportSpecifier[],
+): number {
+	let count = 0;
+	for (const specifier of exportSpecifiers) {
+		if (specifier.getSourceFile().getFilePath() === entry.filePath) continue;
+		const declaration = specifier.getExportDeclaration();
+		const removedNode =
+			declaration.getNamedExports().length === 1 ? declaration : specifier;
+		count += countNameOccurrences(entry.name, removedNode.getText());
+	}
+	return count;
+}
+
+/** 変数宣言は変数文の `export` を外す */
+function unexportDeclaration(declaration: FixableDeclaration): void {
+	if (Node.isVariableDeclaration(declaration)) {
+		declaration.getVariableStatementOrThrow().setIsExported(false);
+	} else {
+		declaration.setIsExported(false);
+	}
+}
+
+function getSkipReason(
+	entry: UnusedExport,
+	target: ReturnType<typeof findDeclaration>,
+	maxTextOccurrences: number,
+	publicDeclarations: ReadonlySet<Node>,
+	namespaceImportedFiles: ReadonlySet<string>,
+): string | undefined {
+	if (entry.isDefaultExport) {
+		return "default export は参照を追い切れず偽陽性が多いため修正しない";
+	}
+	if (namespaceImportedFiles.has(entry.filePath)) {
+		return "ファイルが namespace import (`import * as`) されており、名前を介さない利用を追えない";
+	}
+	if (!target) {
+		return "宣言を特定できない";
+	}
+	const textOccurrences =
+		entry.textOccurrences -
+		countReExportOccurrences(entry, target.exportSpecifiers);
+	if (textOccurrences > maxTextOccurrences) {
+		return `textOccurrences (再エクスポートを除き ${textOccurrences}) が maxTextOccurrences (${maxTextOccurrences}) を超えている`;
+	}
+	const { declaration } = target;
+	if (publicDeclarations.has(declaration)) {
+		return "entryPoints から export されている";
+	}
+	if (
+		Node.isFunctionDeclaration(declaration) &&
+		(declaration.isOverload() || declaration.getOverloads().length > 0)
+	) {
+		return "オーバーロードを持つ関数は修正しない";
+	}
+	if ((target.identifier.getSymbol()?.getDeclarations().length ?? 0) > 1) {
+		// 一部の宣言だけ export を外すと TS2395 (マージされた宣言の export の有無が揃わない) になる
+		return "複数の宣言がマージされたシンボル (class と namespace など) は修正しない";
+	}
+	return undefined;
+}
+
+/**
+ * 同じ変数文に修正対象でない export が残る場合、`export` を外すとそれも外れてしまうため修正しない。
+ */
+function excludePartialVariableStatements(
+	targets: FixTarget[],
+	skipped: SkippedUnusedExport[],
+): FixTarget[] {
+	const targetDeclarations = new Set<Node>(
+		targets.map((target) => target.declaration),
+	);
+	return targets.filter((target) => {
+		const { declaration } = target;
+		if (!Node.isVariableDeclaration(declaration)) return true;
+		const siblings = declaration
+			.getVariableStatementOrThrow()
+			.getDeclarations();
+		if (siblings.every((sibling) => targetDeclarations.has(sibling))) {
+			return true;
+		}
+		skipped.push({
+			filePath: target.entry.filePath,
+			line: target.entry.line,
+			name: target.entry.name,
+			reason: "同じ変数文に修正対象でない export が残る",
+		});
+		return false;
+	});
+}
+
+/** import 宣言以外に現れる識別子の名前ごとの出現数 */
+function countIdentifierUses(sourceFile: SourceFile): Map<string, number> {
+	const counts = new Map<string, number>();
+	for (const identifier of sourceFile.getDescendantsOfKind(
+		SyntaxKind.Identifier,
+	)) {
+		if (identifier.getFirstAncestorByKind(SyntaxKind.ImportDeclaration)) {
+			continue;
+		}
+		const name = identifier.getText();
+		counts.set(name, (counts.get(name) ?? 0) + 1);
+	}
+	return counts;
+}
+
+/** ファイル内で使われている import の束縛 (修正前の状態) */
+function collectUsedImportBindings(sourceFile: SourceFile): ImportBinding[] {
+	const uses = countIdentifierUses(sourceFile);
+	const bindings: ImportBinding[] = [];
+	for (const declaration of sourceFile.getImportDeclarations()) {
+		const defaultImport = declaration.getDefaultImport();
+		if (defaultImport) {
+			bindings.push({
+				declaration,
+				name: defaultImport.getText(),
+				isDefault: true,
+			});
+		}
+		const namespaceImport = declaration.getNamespaceImport();
+		if (namespaceImport) {
+			bindings.push({
+				declaration,
+				name: namespaceImport.getText(),
+				isDefault: false,
+			});
+		}
+		for (const specifier of declaration.getNamedImports()) {
+			bindings.push({
+				declaration,
+				name: (specifier.getAliasNode() ?? specifier.getNameNode()).getText(),
+				specifier,
+				isDefault: false,
+			});
+		}
+	}
+	return bindings.filter((binding) => (uses.get(binding.name) ?? 0) > 0);
+}
+
+/**
+ * 修正前は使われていて、修正後に使われなくなった import を削除する。
+ * 元から使われていなかった import は修正の対象外なので残す。
+ */
+function removeDanglingImports(
+	sourceFile: SourceFile,
+	bindings: readonly ImportBinding[],
+): number {
+	const uses = countIdentifierUses(sourceFile);
+	let removedCount = 0;
+	for (const binding of bindings) {
+		if ((uses.get(binding.name) ?? 0) > 0) continue;
+		const { declaration } = binding;
+		if (declaration.wasForgotten()) continue;
+		if (binding.specifier) {
+			binding.specifier.remove();
+		} else if (binding.isDefault) {
+			declaration.removeDefaultImport();
+		} else {
+			declaration.removeNamespaceImport();
+		}
+		removedCount++;
+		if (
+			!declaration.wasForgotten() &&
+			!declaration.getDefaultImport() &&
+			!declaration.getNamespaceImport() &&
+			declaration.getNamedImports().length === 0
+		) {
+			declaration.remove();
+		}
+	}
+	return removedCount;
+}
+
+function removeExportSpecifier(specifier: ExportSpecifier): void {
+	const declaration = specifier.getExportDeclaration();
+	if (declaration.getNamedExports().length === 1) {
+		declaration.remove();
+	} else {
+		specifier.remove();
+	}
+}
+
+/**
+ * 未使用 export を修正する。
+ *
+ * tsconfigPath からプロジェクトを取得して `fixUnusedExportsOnProject` に委譲する。
+ */
+export async function fixUnusedExports(
+	params: FixUnusedExportsParams,
+): Promise<FixUnusedExportsResult> {
+	const project = getProject(params.tsconfigPath);
+	return fixUnusedExportsOnProject(project, params);
+}
+
+/**
+ * 既存の Project に対して `findUnusedExports` の候補を修正する内部 API。
+ *
+ * - `sameFileReferenceCount === 0` の候補は宣言ごと削除し、その宣言でしか使われていなかった import も削除する
+ * - それ以外は `export` キーワードだけを外す
+ * - どちらの場合も、候補を指す再エクスポート (`export { x } from "./a"` や同一ファイルの `export { x }`) を削除する
+ *
+ * 誤って使用中の宣言を消さないよう、default export、textOccurrences が閾値を超えるもの、
+ * namespace import されているファイルのもの、entryPoints から export されているものは修正しない。
+ * namespace import 展開は Project に合成 import を残すため使わず、代わりに該当ファイルを丸ごと除外する。
+ */
+export async function fixUnusedExportsOnProject(
+	project: Project,
+	{
+		entryPoints = [],
+		excludeFilePatterns,
+		maxTextOccurrences = 0,
+		dryRun = false,
+		includeDiff = false,
+	}: Omit<FixUnusedExportsParams, "tsconfigPath">,
+): Promise<FixUnusedExportsResult> {
+	if (!Number.isInteger(maxTextOccurrences) || maxTextOccurrences < 0) {
+		throw new Error(
+			`maxTextOccurrences は 0 以上の整数で指定してください (受信値: ${maxTextOccurrences})`,
+		);
+	}
+	logger.debug({ entryPoints, excludeFilePatterns }, "fixUnusedExports 開始");
+
+	const { unusedExports } = findUnusedExports(project, {
+		entryPoints,
+		excludeFilePatterns,
+		maxResults: Number.MAX_SAFE_INTEGER,
+		expandNamespaceImports: false,
+	});
+	const publicDeclarations = collectPublicDeclarations(project, entryPoints);
+	const namespaceImportedFiles = collectNamespaceImportedFiles(project);
+
+	const skipped: SkippedUnusedExport[] = [];
+	const candidates: FixTarget[] = [];
+	for (const entry of unusedExports) {
+		const target = findDeclaration(project, entry);
+		const reason = getSkipReason(
+			entry,
+			target,
+			maxTextOccurrences,
+			publicDeclarations,
+			namespaceImportedFiles,
+		);
+		if (reason || !target) {
+			skipped.push({
+				filePath: entry.filePath,
+				line: entry.line,
+				name: entry.name,
+				reason: reason ?? "宣言を特定できない",
+			});
+			continue;
+		}
+		candidates.push({
+			entry,
+			action: entry.sameFileReferenceCount === 0 ? "delete" : "unexport",
+			...target,
+		});
+	}
+	const targets = excludePartialVariableStatements(candidates, skipped);
+
+	// 変更を始める前に、import の使用状況を集めておく
+	const exportSpecifiers = new Set(
+		targets.flatMap((target) => target.exportSpecifiers),
+	);
+	const importBindingsByFile = new Map<SourceFile, ImportBinding[]>();
+	for (const target of targets) {
+		if (target.action !== "delete") continue;
+		const sourceFile = target.identifier.getSourceFile();
+		if (!importBindingsByFile.has(sourceFile)) {
+			importBindingsByFile.set(
+				sourceFile,
+				collectUsedImportBindings(sourceFile),
+			);
+		}
+	}
+
+	for (const specifier of exportSpecifiers) {
+		if (!specifier.wasForgotten()) removeExportSpecifier(specifier);
+	}
+	for (const target of targets) {
+		if (target.action === "delete") {
+			target.declaration.remove();
+		}
+	}
+	for (const target of targets) {
+		if (target.action === "unexport" && !target.identifier.wasForgotten()) {
+			unexportDeclaration(target.declaration);
+		}
+	}
+	let removedImportCount = 0;
+	for (const [sourceFile, bindings] of importBindingsByFile) {
+		removedImportCount += removeDanglingImports(sourceFile, bindings);
+	}
+
+	const changedSourceFiles = getChangedFiles(project);
+	const changedFiles = changedSourceFiles.map((sf) => sf.getFilePath());
+	const diffs = includeDiff
+		? collectFileDiffs(project, changedSourceFiles)
+		: undefined;
+
+	if (!dryRun && changedSourceFiles.length > 0) {
+		const journal = prepareJournalEntry(project, {
+			operation: "fixUnusedExports",
+		});
+		await saveProjectChanges(project);
+		writeJournalEntry(journal);
+		logger.info(
+			{ changedFileCount: changedFiles.length },
+			"fixUnusedExports 保存完了",
+		);
+	}
+
+	return {
+		fixes: targets.map(({ entry, action }) => ({
+			filePath: entry.filePath,
+			line: entry.line,
+			name: entry.name,
+			kind: entry.kind,
+			action,
+		})),
+		skipped,
+		removedReExportCount: exportSpecifiers.size,
+		removedImportCount,
+		changedFiles,
+		diffs,
+	};
+}
@@ -0,0 +1,124 @@
+import type { Project } from "ts-morph";
+import { describe, expect, it } from "vitest";
+import { createInMemoryProject } from "../_test-utils/create-in-memory-project";
+import { getDiagnostics } from "./get-diagnostics";
+import {
+	captureDiagnosticsBaseline,
+	findNewDiagnostics,
+} from "./new-diagnostics";
+
+function setup(files: Record<string, string>): Project {
+	const project = createInMemoryProject();
+	for (const [path, content] of Object.entries(files)) {
+		project.createSourceFile(path, content, { overwrite: true });
+	}
+	return project;
+}
+
+describe("getDiagnostics", () => {
+	it("プロジェクト全体の診断をファイル・行・列の順に構造化して返す", () => {
+		const project = setup({
+			"/src/b.ts": "const b: number = 'x';\n",
+			"/src/a.ts": "export const ok = 1;\nconst a: string = 1;\n",
+		});
+
+		const result = getDiagnostics(project);
+
+		expect(result.checkedFileCount).toBe(2);
+		expect(result.totalCount).toBe(2);
+		expect(result.diagnostics).toEqual([
+			{
+				filePath: "/src/a.ts",
+				line: 2,
+				column: 7,
+				code: 2322,
+				category: "error",
+				message: "Type 'number' is not assignable to type 'string'.",
+			},
+			{
+				filePath: "/src/b.ts",
+				line: 1,
+				column: 7,
+				code: 2322,
+				category: "error",
+				message: "Type 'string' is not assignable to type 'number'.",
+			},
+		]);
+	});
+
+	it("filePaths と directory で対象を絞り込む", () => {
+		const project = setup({
+			"/src/feature/a.ts": "const a: string = 1;\n",
+			"/src/feature/b.ts": "const b: string = 1;\n",
+			"/src/other/c.ts": "const c: string = 1;\n",
+		});
+
+		const byFiles = getDiagnostics(project, {
+			filePaths: ["/src/other/c.ts"],
+		});
+		expect(byFiles.diagnostics.map((d) => d.filePath)).toEqual([
+			"/src/other/c.ts",
+		]);
+
+		const byDirectory = getDiagnostics(project, {
+			directory: "/src/feature",
+		});
+		expect(byDirectory.checkedFileCount).toBe(2);
+		expect(byDirectory.diagnostics.map((d) => d.filePath)).toEqual([
+			"/src/feature/a.ts",
+			"/src/feature/b.ts",
+		]);
+	});
+
+	it("limit を超える診断は切り詰め、totalCount には全件数を返す", () => {
+		const project = setup({
+			"/src/a.ts":
+				"const a: string = 1;\nconst b: string = 2;\nconst c: string = 3;\n",
+		});
+
+		const result = getDiagnostics(project, { limit: 2 });
+
+		expect(result.diagnostics).toHaveLength(2);
+		expect(result.totalCount).toBe(3);
+	});
+
+	it("プロジェクトに含まれないファイルを指定するとエラー", () => {
+		const project = setup({ "/src/a.ts": "export const a = 1;\n" });
+
+		expect(() =>
+			getDiagnostics(project, { filePaths: ["/src/missing.ts"] }),
+		).toThrow("プロジェクトに含まれていません");
+	});
+});
+
+describe("findNewDiagnostics", () => {
+	it("変更されたファイルとその import 元で新しく出た診断だけを返す", () => {
+		const project = setup({
+			"/src/a.ts": "export function f(x: number) { return x; }\n",
+			"/src/b.ts": [
+				'import { f } from "./a";',
+				"f(1);",
+				"const existing: string = 1;",
+			].join("\n"),
+			"/src/c.ts": "const unrelated: string = 1;\n",
+		});
+		const baseline = captureDiagnosticsBaseline(project);
+
+		project
+			.getSourceFileOrThrow("/src/a.ts")
+			.getFunctionOrThrow("f")
+			.getParameters()[0]
+			.setType("string");
+
+		expect(findNewDiagnostics(baseline)).toEqual([
+			expect.objectContaining({ filePath: "/src/b.ts", line: 2, code: 2345 }),
+		]);
+	});
+
+	it("変更がなければ空配列を返す", () => {
+		const project = setup({ "/src/a.ts": "const a: string = 1;\n" });
+		const baseline = captureDiagnosticsBaseline(project);
+
+		expect(findNewDiagnostics(baseline)).toEqual([]);
+	});
+});
@@ -0,0 +1,64 @@
+import type { Project } from "ts-morph";
+import { type DiagnosticInfo, toDiagnosticInfo } from "../_utils/diagnostics";
+import {
+	type SourceFileSelection,
+	selectSourceFiles,
+} from "../_utils/select-source-files";
+
+/** filePaths / directory のどちらも指定しない場合はプロジェクト全体を調べる */
+export interface GetDiagnosticsOptions extends SourceFileSelection {
+	/** 返す診断の最大件数 (既定 200)。totalCount は上限に関係なく全件数 */
+	limit?: number;
+}
+
+export interface GetDiagnosticsResult {
+	/** ファイルパス・行・列の順に並べた診断 (最大 limit 件) */
+	diagnostics: DiagnosticInfo[];
+	/** 上限で切り詰める前の診断の件数 */
+	totalCount: number;
+	/** 調べたファイルの数 */
+	checkedFileCount: number;
+}
+
+const DEFAULT_LIMIT = 200;
+
+export function compareDiagnostics(a: DiagnosticInfo, b: DiagnosticInfo) {
+	return (
+		a.filePath.localeCompare(b.filePath) ||
+		a.line - b.line ||
+		a.column - b.column ||
+		a.code - b.code
+	);
+}
+
+/**
+ * プロジェクト全体・指定ファイル・指定ディレクトリの pre-emit 診断 (構文・型チェック・宣言出力) を返す。
+ * ファイルに紐付かない診断 (tsconfig のエラーなど) は含めない。
+ */
+export function getDiagnostics(
+	project: Project,
+	options: GetDiagnosticsOptions = {},
+): GetDiagnosticsResult {
+	const sourceFiles = selectSourceFiles(project, options);
+
+	// ファイルごとの pre-emit 診断にはグローバルな診断も含まれるため重複を除く
+	const seen = new Set<string>();
+	const diagnostics: DiagnosticInfo[] = [];
+	for (const sourceFile of sourceFiles) {
+		for (const diagnostic of sourceFile.getPreEmitDiagnostics()) {
+			const info = toDiagnosticInfo(diagnostic);
+			if (!info) continue;
+			const key = `${info.filePath}:${info.line}:${info.column}:${info.code}:${info.message}`;
+			if (seen.has(key)) continue;
+			seen.add(key);
+			diagnostics.push(info);
+		}
+	}
+	diagnostics.sort(compareDiagnostics);
+
+	return {
+		diagnostics: diagnostics.slice(0, options.limit ?? DEFAULT_LIMIT),
+		totalCount: diagnostics.length,
+		checkedFileCount: sourceFiles.length,
+	};
+}
@@ -0,0 +1,86 @@
+import { type Project, ts } from "ts-morph";
+import {
+	type DiagnosticInfo,
+	fromCompilerDiagnostic,
+} from "../_utils/diagnostics";
+import { compareDiagnostics } from "./get-diagnostics";
+
+/** リファクタリング前のプログラム。変更後と比べて新しく出た診断を求めるのに使う */
+export interface DiagnosticsBaseline {
+	project: Project;
+	program: ts.Program;
+}
+
+/**
+ * リファクタリングの前に呼び、変更前のプログラムを保持する。
+ * 型チェックはここでは行わず、変更されたファイルについてだけ後で遅延して行う。
+ */
+export function captureDiagnosticsBaseline(
+	project: Project,
+): DiagnosticsBaseline {
+	return { project, program: project.getProgram().compilerObject };
+}
+
+function getFileDiagnostics(
+	program: ts.Program,
+	filePath: string,
+): DiagnosticInfo[] {
+	const sourceFile = program.getSourceFile(filePath);
+	if (!sourceFile) {
+		return [];
+	}
+	return ts
+		.getPreEmitDiagnostics(program, sourceFile)
+		.map(fromCompilerDiagnostic)
+		.filter(
+			(info): info is DiagnosticInfo =>
+				info !== undefined && info.filePath === filePath,
+		);
+}
+
+function toKey(info: DiagnosticInfo): string {
+	return `${info.code}:${info.message}`;
+}
+
+/**
+ * baseline 以降に変更されたファイルと、それらを import しているファイルについて、
+ * 変更後に新しく現れた診断だけを返す (変更前からある診断は除く)。
+ *
+ * 同じファイル内で同じコード・メッセージの診断が変更前より増えた分を「新しい診断」とみなす。
+ * 移動・新規作成されたファイルには変更前の診断がないため、そのファイルの診断はすべて新しいものとして扱う。
+ */
+export function findNewDiagnostics(
+	baseline: DiagnosticsBaseline,
+): DiagnosticInfo[] {
+	const before = baseline.program;
+	const after = baseline.project.getProgram().compilerObject;
+
+	const changedPaths = after
+		.getSourceFiles()
+		.filter((sf) => before.getSourceFile(sf.fileName) !== sf)
+		.map((sf) => sf.fileName);
+	const targetPaths = new Set(changedPaths);
+	for (const filePath of changedPaths) {
+		const sourceFile = baseline.project.getSourceFile(filePath);
+		for (const referencing of sourceFile?.getReferencingSourceFiles() ?? []) {
+			targetPaths.add(referencing.getFilePath());
+		}
+	}
+
+	const newDiagnostics: DiagnosticInfo[] = [];
+	for (const filePath of targetPaths) {
+		const remaining = new Map<string, number>();
+		for (const info of getFileDiagnostics(before, filePath)) {
+			remaining.set(toKey(info), (remaining.get(toKey(info)) ?? 0) + 1);
+		}
+		for (const info of getFileDiagnostics(after, filePath)) {
+			const count = remaining.get(toKey(info)) ?? 0;
+			if (count > 0) {
+				remaining.set(toKey(info), count - 1);
+			} else {
+				newDiagnostics.push(info);
+			}
+		}
+	}
+	return newDiagnostics.sort(compareDiagnostics);
+}
@@ -0,0 +1,285 @@
+import { Node, type Identifier, SymbolFlags, SyntaxKind } from "ts-morph";
+
+function isFunctionBoundary(node: Node): boolean {
+	return (
+		Node.isFunctionLikeDeclaration(node) ||
+		Node.isFunctionExpression(node) ||
+		Node.isClassLikeDeclarationBase(node)
+	);
+}
+
+/**
+ * 評価すると副作用が起こりうるノードか。
+ * プロパティアクセス (getter) は慣例に従い副作用なしとみなす。
+ */
+function isEffectNode(node: Node): boolean {
+	if (
+		Node.isCallExpression(node) ||
+		Node.isNewExpression(node) ||
+		Node.isTaggedTemplateExpression(node) ||
+		Node.isAwaitExpression(node) ||
+		Node.isYieldExpression(node) ||
+		Node.isDeleteExpression(node)
+	) {
+		return true;
+	}
+	if (Node.isBinaryExpression(node)) {
+		const operator = node.getOperatorToken().getKind();
+		return (
+			operator >= SyntaxKind.FirstAssignment &&
+			operator <= SyntaxKind.LastAssignment
+		);
+	}
+	if (
+		Node.isPrefixUnaryExpression(node) ||
+		Node.isPostfixUnaryExpression(node)
+	) {
+		const operator = node.getOperatorToken();
+		return (
+			operator === SyntaxKind.PlusPlusToken ||
+			operator === SyntaxKind.MinusMinusToken
+		);
+	}
+	return false;
+}
+
+/**
+ * node を評価したときに副作用が起こりうるノードを列挙する (node 自身を含む)。
+ * 関数式・アロー関数の本体は生成時には評価されないので対象外。
+ */
+export function findEffectNodes(node: Node): Node[] {
+	const effects: Node[] = isEffectNode(node) ? [node] : [];
+	node.forEachDescendant((descendant, traversal) => {
+		if (isFunctionBoundary(descendant)) {
+			traversal.skip();
+			return;
+		}
+		if (isEffectNode(descendant)) {
+			effects.push(descendant);
+		}
+	});
+	return effects;
+}
+
+export function hasSideEffects(node: Node): boolean {
+	return findEffectNodes(node).length > 0;
+}
+
+/**
+ * 複製しても同じ値になる単純な式か (識別子・リテラル・プロパティアクセスの連鎖)。
+ */
+export function isSimpleExpression(node: Node): boolean {
+	if (Node.isParenthesizedExpression(node)) {
+		return isSimpleExpression(node.getExpression());
+	}
+	if (Node.isPropertyAccessExpression(node)) {
+		return isSimpleExpression(node.getExpression());
+	}
+	return (
+		Node.isIdentifier(node) ||
+		Node.isLiteralExpression(node) ||
+		Node.isNoSubstitutionTemplateLiteral(node) ||
+		Node.isTrueLiteral(node) ||
+		Node.isFalseLiteral(node) ||
+		Node.isNullLiteral(node) ||
+		node.getKind() === SyntaxKind.ThisKeyword
+	);
+}
+
+/**
+ * node が root の評価中にちょうど 1 回、条件なしに評価されるか。
+ * 関数・ループ・条件分岐 (`?:`, `&&`, `||`, `??`, if, switch など) の内側にあると false。
+ */
+export function isEvaluatedOnceWithin(node: Node, root: Node): boolean {
+	let child = node;
+	let parent = node.getParent();
+	while (parent && child !== root) {
+		if (
+			isFunctionBoundary(parent) ||
+			Node.isIterationStatement(parent) ||
+			Node.isCaseClause(parent) ||
+			Node.isDefaultClause(parent) ||
+			Node.isTryStatement(parent) ||
+			Node.isCatchClause(parent)
+		) {
+			return false;
+		}
+		if (
+			Node.isConditionalExpression(parent) &&
+			child !== parent.getCondition()
+		) {
+			return false;
+		}
+		if (Node.isIfStatement(parent) && child !== parent.getExpression()) {
+			return false;
+		}
+		if (Node.isBinaryExpression(parent) && child === parent.getRight()) {
+			const operator = parent.getOperatorToken().getKind();
+			if (
+				operator === SyntaxKind.AmpersandAmpersandToken ||
+				operator === SyntaxKind.BarBarToken ||
+				operator === SyntaxKind.QuestionQuestionToken ||
+				operator === SyntaxKind.AmpersandAmpersandEqualsToken ||
+				operator === SyntaxKind.BarBarEqualsToken ||
+				operator === SyntaxKind.QuestionQuestionEqualsToken
+			) {
+				return false;
+			}
+		}
+		if (
+			(Node.isCallExpression(parent) ||
+				Node.isPropertyAccessExpression(parent)) &&
+			parent.hasQuestionDotToken()
+		) {
+			return false;
+		}
+		child = parent;
+		parent = parent.getParent();
+	}
+	return true;
+}
+
+/**
+ * root の中で、target より前に評価を終える副作用ノードがあるか。
+ * (左から右へ評価されるので、target より前で終わるノードは target より先に評価される)
+ */
+export function hasEffectBefore(target: Node, root: Node): boolean {
+	return findEffectNodes(root).some(
+		(effect) => effect.getEnd() <= target.getStart(),
+	);
+}
+
+/**
+ * this / 関数呼び出し時に決まる値を共有する範囲 (アロー関数以外の関数・クラス・ソースファイル)。
+ */
+export function getThisContainer(node: Node): Node {
+	return (
+		node.getFirstAncestor(
+			(n) =>
+				(isFunctionBoundary(n) && !Node.isArrowFunction(n)) ||
+				Node.isClassStaticBlockDeclaration(n),
+		) ?? node.getSourceFile()
+	);
+}
+
+/**
+ * node 内の this (ネストしたアロー関数以外の関数の内側を除く) を列挙する。
+ */
+export function findThisReferences(node: Node): Node[] {
+	const references: Node[] = [];
+	node.forEachDescendant((descendant, traversal) => {
+		if (isFunctionBoundary(descendant) && !Node.isArrowFunction(descendant)) {
+			traversal.skip();
+			return;
+		}
+		if (
+			descendant.getKind() === SyntaxKind.ThisKeyword ||
+			descendant.getKind() === SyntaxKind.SuperKeyword
+		) {
+			references.push(descendant);
+		}
+	});
+	return references;
+}
+
+/**
+ * expression 内の識別子のうち、declarationSite のスコープにある名前を参照しているもの
+ * (プロパティ名や expression 内で宣言された名前を除く自由変数) を返す。
+ */
+export function findFreeIdentifiers(
+	expression: Node,
+	declarationSite: Node,
+): Identifier[] {
+	const symbolsInScope = new Set(
+		declarationSite.getSymbolsInScope(SymbolFlags.Value),
+	);
+	return expression
+		.getDescendantsOfKind(SyntaxKind.Identifier)
+		.concat(Node.isIdentifier(expression) ? [expression] : [])
+		.filter((identifier) => {
+			const symbol = identifier.getSymbol();
+			return symbol !== undefined && symbolsInScope.has(symbol);
+		});
+}
+
+/**
+ * 自由変数が usageSite でも同じシンボルを指しているか確認する。
+ * 移動先で同名のローカル変数に隠される場合は、その名前を返す。
+ */
+export function findShadowedName(
+	freeIdentifiers: readonly Identifier[],
+	usageSite: Node,
+): string | undefined {
+	if (freeIdentifiers.length === 0) {
+		return undefined;
+	}
+	const symbolsByName = new Map(
+		usageSite
+			.getSymbolsInScope(SymbolFlags.Value)
+			.map((symbol) => [symbol.getName(), symbol]),
+	);
+	return freeIdentifiers
+		.find(
+			(identifier) =>
+				symbolsByName.get(identifier.getText()) !== identifier.getSymbol(),
+		)
+		?.getText();
+}
+
+function needsParenthesesAlways(expression: Node): boolean {
+	return (
+		Node.isBinaryExpression(expression) &&
+		expression.getOperatorToken().getKind() === SyntaxKind.CommaToken
+	);
+}
+
+function isPrimaryExpression(expression: Node): boolean {
+	return (
+		isSimpleExpression(expression) ||
+		Node.isParenthesizedExpression(expression) ||
+		Node.isCallExpression(expression) ||
+		Node.isElementAccessExpression(expression) ||
+		Node.isArrayLiteralExpression(expression) ||
+		Node.isTemplateExpression(expression) ||
+		Node.isNonNullExpression(expression)
+	);
+}
+
+/**
+ * target の位置に置き換える式として、優先順位が変わらないよう必要なら括弧で囲んだテキストを返す。
+ */
+export function formatReplacement(
+	expression: Node,
+	text: string,
+	target: Node,
+): string {
+	const parent = target.getParent();
+	if (needsParenthesesAlways(expression)) {
+		return `(${text})`;
+	}
+	if (Node.isObjectLiteralExpression(expression)) {
+		// 文の先頭やアロー関数の本体ではブロックと解釈されてしまう
+		return Node.isExpressionStatement(parent) || Node.isArrowFunction(parent)
+			? `(${text})`
+			: text;
+	}
+	if (isPrimaryExpression(expression)) {
+		return text;
+	}
+	const isSafePosition =
+		Node.isVariableDeclaration(parent) ||
+		Node.isPropertyAssignment(parent) ||
+		Node.isReturnStatement(parent) ||
+		Node.isArrayLiteralExpression(parent) ||
+		Node.isTemplateSpan(parent) ||
+		Node.isParenthesizedExpression(parent) ||
+		Node.isJsxExpression(parent) ||
+		Node.isSpreadElement(parent) ||
+		(Node.isExpressionStatement(parent) &&
+			!Node.isFunctionExpression(expression)) ||
+		(Node.isArrowFunction(parent) && parent.getBody() === target) ||
+		(Node.isIfStatement(parent) && parent.getExpression() === target) ||
+		((Node.isCallExpression(parent) || Node.isNewExpression(parent)) &&
+			parent.getExpression() !== target);
+	return isSafePosition ? text : `(${text})`;
+}
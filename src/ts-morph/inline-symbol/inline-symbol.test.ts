@@ -0,0 +1,356 @@
+import { IndentationText, type Project } from "ts-morph";
+import { describe, expect, it } from "vitest";
+import { createInMemoryProject } from "../_test-utils/create-in-memory-project";
+import { inlineSymbolOnProject } from "./inline-symbol";
+
+const FILE = "/src/target.ts";
+
+function setup(content: string): Project {
+	const project = createInMemoryProject({
+		manipulationSettings: { indentationText: IndentationText.Tab },
+	});
+	project.createSourceFile(FILE, content, { overwrite: true });
+	return project;
+}
+
+function inline(
+	project: Project,
+	symbolName: string,
+	position: { line: number; column: number },
+) {
+	return inlineSymbolOnProject(project, {
+		targetFilePath: FILE,
+		position,
+		symbolName,
+		dryRun: true,
+	});
+}
+
+function getText(project: Project): string {
+	return project.getSourceFileOrThrow(FILE).getFullText();
+}
+
+describe("inlineSymbolOnProject", () => {
+	describe("関数", () => {
+		it("式の本体を呼び出し箇所に展開し、パラメータを引数で置き換えて宣言を削除する", async () => {
+			const project = setup(`function add(a: number, b: number) {
+	return a + b;
+}
+
+const total = add(1, 2) * 3;
+console.log(add(total, 4));
+`);
+
+			const result = await inline(project, "add", { line: 1, column: 10 });
+
+			expect(result.kind).toBe("function");
+			expect(result.inlinedCount).toBe(2);
+			expect(getText(project)).toBe(`const total = (1 + 2) * 3;
+console.log(total + 4);
+`);
+		});
+
+		it("アロー関数の const も呼び出し箇所から指定して展開できる", async () => {
+			const project = setup(`const double = (value: number) => value * 2;
+
+export function run(input: number) {
+	return double(input + 1);
+}
+`);
+
+			await inline(project, "double", { line: 4, column: 9 });
+
+			expect(getText(project)).toBe(`export function run(input: number) {
+	return (input + 1) * 2;
+}
+`);
+		});
+
+		it("省略された引数はデフォルト値で置き換える", async () => {
+			const project = setup(`function greet(name: string, suffix = "!") {
+	return name + suffix;
+}
+
+export const message = greet("hello");
+`);
+
+			await inline(project, "greet", { line: 1, column: 10 });
+
+			expect(getText(project)).toBe(`export const message = "hello" + "!";
+`);
+		});
+
+		it("文の本体は呼び出し文の位置に展開し、宣言を含む場合はブロックで囲む", async () => {
+			const project = setup(`function log(label: string, value: number) {
+	const text = \`\${label}: \${value}\`;
+	console.log(text);
+}
+
+export function main(count: number) {
+	log("count", count);
+	log("next", compute());
+}
+
+declare function compute(): number;
+`);
+
+			await inline(project, "log", { line: 1, column: 10 });
+
+			expect(getText(project)).toBe(`export function main(count: number) {
+	{
+		const text = \`\${"count"}: \${count}\`;
+		console.log(text);
+	}
+	{
+		const value = compute();
+		const text = \`\${"next"}: \${value}\`;
+		console.log(text);
+	}
+}
+
+declare function compute(): number;
+`);
+		});
+
+		it("宣言を含まない文の本体はそのまま展開する", async () => {
+			const project = setup(`function notify(message: string) {
+	console.log(message);
+	console.log("done");
+}
+
+export function main() {
+	notify("start");
+}
+`);
+
+			await inline(project, "notify", { line: 1, column: 10 });
+
+			expect(getText(project)).toBe(`export function main() {
+	console.log("start");
+	console.log("done");
+}
+`);
+		});
+
+		it("本体で this を参照する関数は拒否する", async () => {
+			const project = setup(`function getName(this: { name: string }) {
+	return this.name;
+}
+
+export const name = getName.call({ name: "a" });
+`);
+
+			await expect(
+				inline(project, "getName", { line: 1, column: 10 }),
+			).rejects.toThrow("this");
+		});
+
+		it("アロー関数の this が呼び出し位置で変わる場合は拒否する", async () => {
+			const project = setup(`export class Box {
+	value = 1;
+	method() {
+		const read = () => this.value;
+		return [1].map(function () {
+			return read();
+		});
+	}
+}
+`);
+
+			await expect(
+				inline(project, "read", { line: 4, column: 9 }),
+			).rejects.toThrow("this");
+		});
+
+		it("副作用のある引数の評価順序が変わる場合は拒否する", async () => {
+			const project = setup(`function pair(a: number, b: number) {
+	return [b, a];
+}
+
+declare function first(): number;
+declare function second(): number;
+export const result = pair(first(), second());
+`);
+
+			await expect(
+				inline(project, "pair", { line: 1, column: 10 }),
+			).rejects.toThrow("副作用");
+		});
+
+		it("副作用のある引数が本体で使われない場合は拒否する", async () => {
+			const project = setup(`function ignore(value: number) {
+	return 0;
+}
+
+declare function next(): number;
+export const result = ignore(next());
+`);
+
+			await expect(
+				inline(project, "ignore", { line: 1, column: 10 }),
+			).rejects.toThrow("副作用");
+		});
+
+		it("呼び出し以外で参照されている関数は拒否する", async () => {
+			const project = setup(`function id(value: number) {
+	return value;
+}
+
+export const values = [1, 2].map(id);
+`);
+
+			await expect(
+				inline(project, "id", { line: 1, column: 10 }),
+			).rejects.toThrow("呼び出し以外");
+		});
+
+		it("関数本体が参照する名前が呼び出し位置で隠される場合は拒否する", async () => {
+			const project = setup(`const rate = 2;
+function scale(value: number) {
+	return value * rate;
+}
+
+export function run(rate: number) {
+	return scale(rate);
+}
+`);
+
+			await expect(
+				inline(project, "scale", { line: 2, column: 10 }),
+			).rejects.toThrow("rate");
+		});
+
+		it("他のファイルから参照されている関数は拒否する", async () => {
+			const project = setup(`export function id(value: number) {
+	return value;
+}
+`);
+			project.createSourceFile(
+				"/src/user.ts",
+				`import { id } from "./target";
+export const one = id(1);
+`,
+			);
+
+			await expect(
+				inline(project, "id", { line: 1, column: 17 }),
+			).rejects.toThrow("/src/user.ts");
+		});
+
+		it("export されている関数は他のファイルから参照されていなくても拒否する", async () => {
+			const project = setup(`export function sq(value: number) {
+	return value * value;
+}
+
+export const four = sq(2);
+`);
+
+			await expect(
+				inline(project, "sq", { line: 5, column: 21 }),
+			).rejects.toThrow("'sq' は export されているため inline できません");
+			expect(getText(project)).toContain("export function sq(");
+		});
+	});
+
+	describe("変数", () => {
+		it("export 文で export されている変数は拒否する", async () => {
+			const project = setup(`const base = 10;
+export const total = base + 1;
+export { base };
+`);
+
+			await expect(
+				inline(project, "base", { line: 2, column: 22 }),
+			).rejects.toThrow("'base' は export されているため inline できません");
+		});
+
+		it("const の参照を初期化式で置き換え、shorthand プロパティは展開する", async () => {
+			const project =
+				setup(`export function area(width: number, height: number) {
+	const size = width * height;
+	return { size, double: size * 2 };
+}
+`);
+
+			const result = await inline(project, "size", { line: 2, column: 8 });
+
+			expect(result.kind).toBe("variable");
+			expect(result.inlinedCount).toBe(2);
+			expect(
+				getText(project),
+			).toBe(`export function area(width: number, height: number) {
+	return { size: width * height, double: (width * height) * 2 };
+}
+`);
+		});
+
+		it("副作用のある初期化式は直後の文で 1 回だけ使われる場合に展開する", async () => {
+			const project = setup(`declare function load(): string;
+export function main() {
+	const data = load();
+	console.log(data);
+}
+`);
+
+			await inline(project, "data", { line: 3, column: 8 });
+
+			expect(getText(project)).toBe(`declare function load(): string;
+export function main() {
+	console.log(load());
+}
+`);
+		});
+
+		it("副作用のある初期化式を離れた位置に移す場合は拒否する", async () => {
+			const project = setup(`declare function load(): string;
+export function main() {
+	const data = load();
+	console.log("loading");
+	console.log(data);
+}
+`);
+
+			await expect(
+				inline(project, "data", { line: 3, column: 8 }),
+			).rejects.toThrow("副作用");
+		});
+
+		it("let で宣言された変数は拒否する", async () => {
+			const project = setup(`export function main() {
+	let value = 1;
+	return value;
+}
+`);
+
+			await expect(
+				inline(project, "value", { line: 2, column: 6 }),
+			).rejects.toThrow("const");
+		});
+
+		it("初期化式が参照する変数が再代入される場合は拒否する", async () => {
+			const project = setup(`export function main() {
+	let count = 1;
+	const snapshot = count;
+	count++;
+	return snapshot;
+}
+`);
+
+			await expect(
+				inline(project, "snapshot", { line: 3, column: 8 }),
+			).rejects.toThrow("count");
+		});
+
+		it("複数箇所で参照されるオブジェクトリテラルは拒否する", async () => {
+			const project = setup(`export function main() {
+	const options = { verbose: true };
+	return [options, options];
+}
+`);
+
+			await expect(
+				inline(project, "options", { line: 2, column: 8 }),
+			).rejects.toThrow("別のオブジェクト");
+		});
+	});
+});
@@ -0,0 +1,227 @@
+import {
+	type FunctionDeclaration,
+	type Identifier,
+	Node,
+	type Project,
+	type VariableDeclaration,
+	VariableDeclarationKind,
+} from "ts-morph";
+import logger from "../../utils/logger";
+import { collectFileDiffs } from "../_utils/file-diff";
+import { getProject } from "../_utils/project-registry";
+import {
+	getChangedFiles,
+	saveProjectChanges,
+} from "../_utils/ts-morph-project";
+import { getEnclosingCallExpression } from "../change-signature/find-call-sites";
+import {
+	prepareJournalEntry,
+	writeJournalEntry,
+} from "../refactor-journal/refactor-journal";
+import {
+	findIdentifierNode,
+	validateSymbol,
+} from "../rename-symbol/rename-symbol";
+import { planFunctionInline } from "./plan-function-inline";
+import { planVariableInline } from "./plan-variable-inline";
+import type {
+	InlineEdit,
+	InlineSymbolParams,
+	InlineSymbolResult,
+} from "./types";
+
+/**
+ * 関数の呼び出し箇所を本体で、const 変数の参照箇所を初期化式で置き換え、宣言を削除する。
+ *
+ * tsconfigPath からプロジェクトを取得して `inlineSymbolOnProject` に委譲する。
+ */
+export async function inlineSymbol(
+	params: InlineSymbolParams,
+): Promise<InlineSymbolResult> {
+	const project = getProject(params.tsconfigPath);
+	return inlineSymbolOnProject(project, params);
+}
+
+/**
+ * 指定位置の識別子 (宣言・参照のどちらでもよい) から inline 対象の宣言を求める。
+ */
+function resolveDeclaration(
+	identifier: Identifier,
+): FunctionDeclaration | VariableDeclaration {
+	const parent = identifier.getParent();
+	if (
+		(Node.isFunctionDeclaration(parent) ||
+			Node.isVariableDeclaration(parent)) &&
+		parent.getNameNode() === identifier
+	) {
+		return parent;
+	}
+
+	let symbol = identifier.getSymbol();
+	if (symbol?.isAlias()) {
+		symbol = symbol.getAliasedSymbol();
+	}
+	const declaration = symbol?.getDeclarations()[0];
+	if (
+		Node.isFunctionDeclaration(declaration) ||
+		Node.isVariableDeclaration(declaration)
+	) {
+		return declaration;
+	}
+	throw new Error(
+		`'${identifier.getText()}' は関数宣言または変数ではないため inline できません${
+			declaration ? ` (宣言の種類: ${declaration.getKindName()})` : ""
+		}`,
+	);
+}
+
+function isCalledAtEveryReference(references: Node[]): boolean {
+	return references.every((reference) => {
+		if (!Node.isIdentifier(reference)) return false;
+		return getEnclosingCallExpression(reference)?.getExpression() === reference;
+	});
+}
+
+/**
+ * 計画した置き換えを適用する。後ろの位置から適用して、前の位置のノードを無効にしないようにする。
+ */
+function applyEdits(edits: InlineEdit[]): void {
+	const sorted = [...edits].sort(
+		(a, b) => b.target.getStart() - a.target.getStart(),
+	);
+	for (const { target, text, asBlock } of sorted) {
+		const container = target.getParentOrThrow();
+		if (asBlock) {
+			target.replaceWithText((writer) =>
+				writer.block(() => writer.write(text)),
+			);
+			continue;
+		}
+		if (!Node.isStatement(target) || !Node.isExpressionStatement(target)) {
+			target.replaceWithText(text);
+			continue;
+		}
+		// 関数本体の文で呼び出し文を置き換える
+		if (Node.isStatemented(container)) {
+			const index = container.getStatementsWithComments().indexOf(target);
+			target.remove();
+			if (text !== "") {
+				container.insertStatements(index, text);
+			}
+		} else {
+			target.replaceWithText((writer) =>
+				writer.block(() => writer.write(text)),
+			);
+		}
+	}
+}
+
+/**
+ * 既存の Project に対して inline を適用する内部 API。
+ */
+export async function inlineSymbolOnProject(
+	project: Project,
+	{
+		targetFilePath,
+		position,
+		symbolName,
+		dryRun = false,
+		includeDiff = false,
+	}: Omit<InlineSymbolParams, "tsconfigPath">,
+): Promise<InlineSymbolResult> {
+	logger.debug({ targetFilePath, position, symbolName }, "inlineSymbol 開始");
+
+	const identifier = findIdentifierNode(project, targetFilePath, position);
+	validateSymbol(identifier, symbolName);
+	const declaration = resolveDeclaration(identifier);
+	const nameNode = declaration.getNameNode();
+	if (!Node.isIdentifier(nameNode)) {
+		throw new Error("名前のない宣言や分割代入は inline できません");
+	}
+	if (
+		Node.isFunctionDeclaration(declaration) &&
+		declaration.isDefaultExport()
+	) {
+		throw new Error(
+			`default export の関数 '${symbolName}' は inline できません`,
+		);
+	}
+
+	const sourceFile = declaration.getSourceFile();
+	const references = nameNode
+		.findReferencesAsNodes()
+		.filter((ref) => ref !== nameNode);
+	const otherFiles = [
+		...new Set(
+			references
+				.filter((ref) => ref.getSourceFile() !== sourceFile)
+				.map((ref) => ref.getSourceFile().getFilePath()),
+		),
+	];
+	if (otherFiles.length > 0) {
+		throw new Error(
+			`'${symbolName}' は他のファイルから参照されているため inline できません:\n${otherFiles
+				.map((f) => `  - ${f}`)
+				.join("\n")}`,
+		);
+	}
+	// プロジェクト内に import がなくても、パッケージの公開 API やプロジェクト外の利用者がいる可能性がある
+	if (declaration.isExported()) {
+		throw new Error(
+			`'${symbolName}' は export されているため inline できません。宣言を削除すると公開 API や他のモジュールの import が壊れます。先に export を外してください`,
+		);
+	}
+	if (references.length === 0) {
+		throw new Error(
+			`'${symbolName}' は参照されていないため inline する箇所がありません`,
+		);
+	}
+
+	// --- Phase 1: 計画フェーズ (全箇所を検証し終えるまで project には手を付けない) ---
+	let kind: InlineSymbolResult["kind"];
+	let edits: InlineEdit[];
+	if (Node.isFunctionDeclaration(declaration)) {
+		kind = "function";
+		edits = planFunctionInline(declaration, symbolName, references);
+	} else {
+		const initializer = declaration.getInitializer();
+		const isFunctionValue =
+			(Node.isArrowFunction(initializer) ||
+				Node.isFunctionExpression(initializer)) &&
+			isCalledAtEveryReference(references);
+		if (
+			isFunctionValue &&
+			declaration.getVariableStatement()?.getDeclarationKind() ===
+				VariableDeclarationKind.Const
+		) {
+			kind = "function";
+			edits = planFunctionInline(initializer, symbolName, references);
+		} else {
+			kind = "variable";
+			edits = planVariableInline(declaration, references);
+		}
+	}
+	logger.debug({ kind, editCount: edits.length }, "inline の計画完了");
+
+	// --- Phase 2: 適用フェーズ ---
+	applyEdits(edits);
+	declaration.remove();
+
+	const changedSourceFiles = getChangedFiles(project);
+	const changedFiles = changedSourceFiles.map((sf) => sf.getFilePath());
+	const diffs = includeDiff
+		? collectFileDiffs(project, changedSourceFiles)
+		: undefined;
+
+	if (!dryRun) {
+		const journal = prepareJournalEntry(project, { operation: "inlineSymbol" });
+		await saveProjectChanges(project);
+		writeJournalEntry(journal);
+		logger.info(
+			{ symbolName, kind, inlinedCount: edits.length },
+			"inlineSymbol 保存完了",
+		);
+	}
+
+	return { kind, inlinedCount: edits.length, changedFiles, diffs };
+}
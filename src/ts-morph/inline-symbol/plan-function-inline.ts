@@ -0,0 +1,471 @@
+import {
+	type ArrowFunction,
+	type CallExpression,
+	type FunctionDeclaration,
+	type FunctionExpression,
+	type Identifier,
+	Node,
+	type ParameterDeclaration,
+	SyntaxKind,
+} from "ts-morph";
+import { getDedentedText, type TextEdit } from "../_utils/dedent-text";
+import { callHasSpreadArgument } from "../change-signature/apply-changes";
+import { filterCallSites } from "../change-signature/find-call-sites";
+import { isWriteReference } from "../extract-function/analyze-variables";
+import {
+	findFreeIdentifiers,
+	findShadowedName,
+	findThisReferences,
+	formatReplacement,
+	getThisContainer,
+	hasEffectBefore,
+	hasSideEffects,
+	isEvaluatedOnceWithin,
+	isSimpleExpression,
+} from "./expression-safety";
+import type { InlineEdit } from "./types";
+
+export type InlinableFunction =
+	| FunctionDeclaration
+	| ArrowFunction
+	| FunctionExpression;
+
+/** 関数の本体の形 */
+type InlineBody =
+	/** `return expr;` だけの本体、またはアロー関数の式本体 */
+	| { kind: "expression"; expression: Node }
+	/** return を含まない文の並び。文として呼ばれている箇所にだけ展開できる */
+	| { kind: "statements"; statements: Node[] };
+
+function formatLocation(node: Node): string {
+	const sourceFile = node.getSourceFile();
+	const { line, column } = sourceFile.getLineAndColumnAtPos(node.getStart());
+	return `${sourceFile.getFilePath()}:${line}:${column}`;
+}
+
+function getFunctionBody(fn: InlinableFunction): Node {
+	const body = fn.getBody();
+	if (!body) {
+		throw new Error("本体のない関数は inline できません");
+	}
+	return body;
+}
+
+function classifyBody(fn: InlinableFunction): InlineBody {
+	const body = getFunctionBody(fn);
+	if (!Node.isBlock(body)) {
+		return { kind: "expression", expression: body };
+	}
+
+	const statements = body.getStatements();
+	if (statements.length === 1 && Node.isReturnStatement(statements[0])) {
+		const expression = statements[0].getExpression();
+		if (expression) {
+			return { kind: "expression", expression };
+		}
+	}
+
+	const hasReturn = body
+		.getDescendantsOfKind(SyntaxKind.ReturnStatement)
+		.some(
+			(r) =>
+				r.getFirstAncestor(
+					(n) =>
+						Node.isFunctionLikeDeclaration(n) || Node.isFunctionExpression(n),
+				) === fn,
+		);
+	if (hasReturn) {
+		throw new Error(
+			"本体が単一の return 文ではなく、途中で return しているため inline できません",
+		);
+	}
+	return { kind: "statements", statements };
+}
+
+function assertInlinableFunction(fn: InlinableFunction, name: string): void {
+	if (Node.isFunctionDeclaration(fn) && fn.getOverloads().length > 0) {
+		throw new Error(`オーバーロードされた関数 '${name}' は inline できません`);
+	}
+	if (fn.isAsync() || (!Node.isArrowFunction(fn) && fn.isGenerator())) {
+		throw new Error(
+			`async 関数 / ジェネレーター関数 '${name}' は inline できません`,
+		);
+	}
+	if (fn.getTypeParameters().length > 0) {
+		throw new Error(`ジェネリック関数 '${name}' は inline できません`);
+	}
+	for (const parameter of fn.getParameters()) {
+		if (
+			parameter.isRestParameter() ||
+			!Node.isIdentifier(parameter.getNameNode())
+		) {
+			throw new Error(
+				`レストパラメータや分割代入のパラメータ (${parameter.getText()}) を持つ関数は inline できません`,
+			);
+		}
+	}
+	// アロー関数以外では、呼び出し位置によって this / arguments の値が変わる
+	if (!Node.isArrowFunction(fn)) {
+		const thisReference = findThisReferences(getFunctionBody(fn))[0];
+		if (thisReference) {
+			throw new Error(
+				`関数本体で this を参照しているため、inline すると this の束縛が変わります (${formatLocation(thisReference)})`,
+			);
+		}
+		const usesArguments = fn
+			.getDescendantsOfKind(SyntaxKind.Identifier)
+			.some(
+				(identifier) =>
+					identifier.getText() === "arguments" &&
+					getThisContainer(identifier) === fn,
+			);
+		if (usesArguments) {
+			throw new Error(
+				`関数本体で arguments を参照しているため '${name}' は inline できません`,
+			);
+		}
+	}
+}
+
+/**
+ * 引数を受け取るパラメータの、本体内での参照箇所 (代入されているパラメータはエラー)。
+ */
+function collectParameterReferences(
+	parameter: ParameterDeclaration,
+	body: Node,
+): Identifier[] {
+	const nameNode = parameter.getNameNode() as Identifier;
+	const references = nameNode
+		.findReferencesAsNodes()
+		.filter(
+			(ref): ref is Identifier =>
+				Node.isIdentifier(ref) &&
+				ref.getStart() >= body.getStart() &&
+				ref.getEnd() <= body.getEnd(),
+		);
+	const written = references.find(isWriteReference);
+	if (written) {
+		throw new Error(
+			`関数本体でパラメータ '${parameter.getName()}' に代入しているため inline できません (${formatLocation(written)})`,
+		);
+	}
+	return references;
+}
+
+interface ArgumentBinding {
+	parameter: ParameterDeclaration;
+	references: Identifier[];
+	/** パラメータに渡される式。省略時はデフォルト値、それもなければ undefined */
+	argument: Node | undefined;
+}
+
+/**
+ * パラメータの参照を引数のテキストで置き換える編集を作る。
+ */
+function buildSubstitutions(bindings: ArgumentBinding[]): TextEdit[] {
+	return bindings.flatMap(({ references, argument }) =>
+		references.map((reference) => {
+			const argumentText = argument ? argument.getText() : "undefined";
+			const parent = reference.getParent();
+			if (
+				Node.isShorthandPropertyAssignment(parent) &&
+				parent.getNameNode() === reference
+			) {
+				return {
+					start: parent.getStart(),
+					end: parent.getEnd(),
+					text: `${reference.getText()}: ${argumentText}`,
+				};
+			}
+			return {
+				start: reference.getStart(),
+				end: reference.getEnd(),
+				text: argument
+					? formatReplacement(argument, argumentText, reference)
+					: argumentText,
+			};
+		}),
+	);
+}
+
+/**
+ * 式として展開する場合に、引数の評価回数・評価順序が変わらないことを確認する。
+ * 副作用のある引数は、本体でちょうど 1 回無条件に評価され、
+ * それより前に本体の他の副作用が起こらない場合にだけ許可する。
+ */
+function assertArgumentEvaluationPreserved(
+	bindings: ArgumentBinding[],
+	expression: Node,
+	call: CallExpression,
+): void {
+	let previousStart = -1;
+	for (const { parameter, references, argument } of bindings) {
+		if (!argument || !hasSideEffects(argument)) continue;
+		const [reference] = references;
+		if (
+			references.length !== 1 ||
+			!isEvaluatedOnceWithin(reference, expression) ||
+			hasEffectBefore(reference, expression) ||
+			reference.getStart() < previousStart
+		) {
+			throw new Error(
+				`呼び出し ${formatLocation(call)} の引数 '${argument.getText()}' には副作用があり、inline すると評価の回数や順序が変わるため inline できません (パラメータ '${parameter.getName()}')`,
+			);
+		}
+		previousStart = reference.getStart();
+	}
+}
+
+/**
+ * 引数の中の名前が、展開先の本体で宣言された名前に隠されないことを確認する。
+ */
+function assertNoArgumentCapture(
+	bindings: ArgumentBinding[],
+	body: Node,
+	call: CallExpression,
+): void {
+	const declaredNames = new Set(
+		body.getDescendants().flatMap((n) => {
+			const nameNode =
+				Node.isVariableDeclaration(n) ||
+				Node.isParameterDeclaration(n) ||
+				Node.isBindingElement(n) ||
+				Node.isFunctionDeclaration(n) ||
+				Node.isClassDeclaration(n)
+					? n.getNameNode()
+					: undefined;
+			return Node.isIdentifier(nameNode) ? [nameNode.getText()] : [];
+		}),
+	);
+	for (const { argument } of bindings) {
+		const captured = argument
+			?.getDescendantsOfKind(SyntaxKind.Identifier)
+			.concat(Node.isIdentifier(argument) ? [argument] : [])
+			.find((identifier) => declaredNames.has(identifier.getText()));
+		if (captured) {
+			throw new Error(
+				`呼び出し ${formatLocation(call)} の引数で使っている '${captured.getText()}' が関数本体の宣言と衝突するため inline できません`,
+			);
+		}
+	}
+}
+
+/**
+ * 関数の各呼び出しを本体で置き換える編集を計画する (プロジェクトは変更しない)。
+ */
+export function planFunctionInline(
+	fn: InlinableFunction,
+	name: string,
+	references: Node[],
+): InlineEdit[] {
+	assertInlinableFunction(fn, name);
+	const body = classifyBody(fn);
+	const bodyNode = getFunctionBody(fn);
+
+	const calls = filterCallSites(references);
+	const nonCall = references.find(
+		(reference) => !calls.some((call) => call.getExpression() === reference),
+	);
+	if (nonCall) {
+		throw new Error(
+			`'${name}' が呼び出し以外で参照されているため inline できません (${formatLocation(nonCall)})`,
+		);
+	}
+	for (const call of calls) {
+		if (call.getStart() >= fn.getStart() && call.getEnd() <= fn.getEnd()) {
+			throw new Error(`再帰呼び出しを含む関数 '${name}' は inline できません`);
+		}
+		if (callHasSpreadArgument(call)) {
+			throw new Error(
+				`スプレッド引数を含む呼び出しは inline できません (${formatLocation(call)})`,
+			);
+		}
+		if (call.getTypeArguments().length > 0 || call.hasQuestionDotToken()) {
+			throw new Error(
+				`型引数またはオプショナル呼び出しを含む呼び出しは inline できません (${formatLocation(call)})`,
+			);
+		}
+	}
+	const nested = calls.find((call) =>
+		calls.some(
+			(other) =>
+				other !== call &&
+				other.getStart() <= call.getStart() &&
+				call.getEnd() <= other.getEnd(),
+		),
+	);
+	if (nested) {
+		throw new Error(
+			`入れ子になった呼び出しは inline できません (${formatLocation(nested)})`,
+		);
+	}
+
+	const parameters = fn.getParameters();
+	const parameterReferences = parameters.map((parameter) =>
+		collectParameterReferences(parameter, bodyNode),
+	);
+	const parameterSymbols = new Set(
+		parameters.map((parameter) => parameter.getSymbol()),
+	);
+	const freeIdentifiers = findFreeIdentifiers(
+		bodyNode,
+		fn.getParentOrThrow(),
+	).filter((identifier) => !parameterSymbols.has(identifier.getSymbol()));
+	const declarationThisContainer = getThisContainer(fn);
+	const usesLexicalThis =
+		Node.isArrowFunction(fn) && findThisReferences(bodyNode).length > 0;
+
+	return calls.map((call) => {
+		const args = call.getArguments();
+		const bindings: ArgumentBinding[] = parameters.map((parameter, index) => ({
+			parameter,
+			references: parameterReferences[index],
+			argument: args[index] ?? parameter.getInitializer(),
+		}));
+
+		const shadowed = findShadowedName(freeIdentifiers, call);
+		if (shadowed) {
+			throw new Error(
+				`関数本体が参照する '${shadowed}' が呼び出し位置 ${formatLocation(call)} では別の宣言に隠されるため inline できません`,
+			);
+		}
+		if (
+			usesLexicalThis &&
+			getThisContainer(call) !== declarationThisContainer
+		) {
+			throw new Error(
+				`関数本体の this が呼び出し位置 ${formatLocation(call)} では別の値になるため inline できません`,
+			);
+		}
+		const droppedEffect =
+			bindings.find(
+				(b) =>
+					b.references.length === 0 && b.argument && hasSideEffects(b.argument),
+			) ?? args.slice(parameters.length).find(hasSideEffects);
+		if (droppedEffect) {
+			throw new Error(
+				`呼び出し ${formatLocation(call)} に本体で使われない副作用のある引数があるため inline できません`,
+			);
+		}
+		assertNoArgumentCapture(bindings, bodyNode, call);
+
+		if (body.kind === "expression") {
+			assertArgumentEvaluationPreserved(bindings, body.expression, call);
+			const text = getDedentedText(
+				body.expression.getSourceFile(),
+				body.expression.getStart(),
+				body.expression.getEnd(),
+				buildSubstitutions(bindings),
+			);
+			return {
+				target: call,
+				text: formatReplacement(body.expression, text, call),
+			};
+		}
+
+		return planStatementsInline(body.statements, bindings, call, name);
+	});
+}
+
+/**
+ * 文の本体へ展開するとき、引数をパラメータの参照位置へ直接埋め込んでも値が変わらないか。
+ * 本体の副作用で引数が参照する値が変わりうる場合は、本体の前で const に受ける。
+ */
+function canSubstituteInStatements(
+	{ argument, references }: ArgumentBinding,
+	statements: Node[],
+): boolean {
+	if (!argument || Node.isLiteralExpression(argument)) {
+		return true;
+	}
+	if (!isSimpleExpression(argument) && references.length !== 1) {
+		return false;
+	}
+	if (hasSideEffects(argument)) {
+		return false;
+	}
+	const block = statements[0]?.getParent();
+	return (
+		block !== undefined &&
+		references.every(
+			(reference) =>
+				isEvaluatedOnceWithin(reference, block) &&
+				!hasEffectBefore(reference, block),
+		)
+	);
+}
+
+/**
+ * return しない関数の呼び出し文を本体の文で置き換える。
+ * 単純でない引数は評価順を保つため、本体の前で const に受けてから使う。
+ */
+function planStatementsInline(
+	statements: Node[],
+	bindings: ArgumentBinding[],
+	call: CallExpression,
+	name: string,
+): InlineEdit {
+	const statement = call.getParent();
+	if (!Node.isExpressionStatement(statement)) {
+		throw new Error(
+			`'${name}' の本体は複数の文からなるため、文として呼び出されている箇所にしか inline できません (${formatLocation(call)})`,
+		);
+	}
+
+	const declarations: string[] = [];
+	const substituted: ArgumentBinding[] = [];
+	for (const binding of bindings) {
+		if (!binding.argument || canSubstituteInStatements(binding, statements)) {
+			substituted.push(binding);
+			continue;
+		}
+		declarations.push(
+			`const ${binding.parameter.getName()} = ${binding.argument.getText()};`,
+		);
+	}
+
+	const declaredParameters = new Set(
+		bindings
+			.filter((b) => !substituted.includes(b))
+			.map((b) => b.parameter.getName()),
+	);
+	const captured = bindings
+		.flatMap(({ argument }) =>
+			argument
+				? argument
+						.getDescendantsOfKind(SyntaxKind.Identifier)
+						.concat(Node.isIdentifier(argument) ? [argument] : [])
+				: [],
+		)
+		.find((identifier) => declaredParameters.has(identifier.getText()));
+	if (captured) {
+		throw new Error(
+			`呼び出し ${formatLocation(call)} の引数で使っている '${captured.getText()}' が展開後のパラメータ名と衝突するため inline できません`,
+		);
+	}
+
+	const bodyText =
+		statements.length === 0
+			? ""
+			: getDedentedText(
+					statements[0].getSourceFile(),
+					statements[0].getStart(),
+					statements[statements.length - 1].getEnd(),
+					buildSubstitutions(substituted),
+				);
+	const lines = [...declarations, bodyText].filter((line) => line !== "");
+	// 本体のトップレベルで宣言している場合は呼び出し元の名前と衝突しないようブロックで囲む
+	const declaresNames =
+		declarations.length > 0 ||
+		statements.some(
+			(s) =>
+				Node.isVariableStatement(s) ||
+				Node.isFunctionDeclaration(s) ||
+				Node.isClassDeclaration(s),
+		);
+	return {
+		target: statement,
+		text: lines.join("\n"),
+		asBlock: declaresNames,
+	};
+}
@@ -0,0 +1,186 @@
+import {
+	type Identifier,
+	Node,
+	VariableDeclarationKind,
+	type VariableDeclaration,
+} from "ts-morph";
+import { getDedentedText } from "../_utils/dedent-text";
+import { isWriteReference } from "../extract-function/analyze-variables";
+import {
+	findFreeIdentifiers,
+	findShadowedName,
+	findThisReferences,
+	formatReplacement,
+	getThisContainer,
+	hasEffectBefore,
+	hasSideEffects,
+	isEvaluatedOnceWithin,
+} from "./expression-safety";
+import type { InlineEdit } from "./types";
+
+function formatLocation(node: Node): string {
+	const sourceFile = node.getSourceFile();
+	const { line, column } = sourceFile.getLineAndColumnAtPos(node.getStart());
+	return `${sourceFile.getFilePath()}:${line}:${column}`;
+}
+
+/**
+ * 評価のたびに新しいオブジェクトを作る式か (複数箇所に複製すると同一性が変わる)
+ */
+function createsNewObject(expression: Node): boolean {
+	return (
+		Node.isObjectLiteralExpression(expression) ||
+		Node.isArrayLiteralExpression(expression) ||
+		Node.isArrowFunction(expression) ||
+		Node.isFunctionExpression(expression) ||
+		Node.isClassExpression(expression) ||
+		Node.isRegularExpressionLiteral(expression)
+	);
+}
+
+/**
+ * 識別子が指す変数が、宣言後に再代入されうるか (let / var / パラメータで、代入箇所がある)
+ */
+function isReassigned(identifier: Identifier): boolean {
+	const declaration = identifier.getSymbol()?.getDeclarations()[0];
+	if (
+		!declaration ||
+		!(
+			Node.isVariableDeclaration(declaration) ||
+			Node.isParameterDeclaration(declaration) ||
+			Node.isBindingElement(declaration)
+		)
+	) {
+		return false;
+	}
+	const list = declaration.getFirstAncestor(Node.isVariableDeclarationList);
+	if (list?.getDeclarationKind() === VariableDeclarationKind.Const) {
+		return false;
+	}
+	return identifier
+		.findReferencesAsNodes()
+		.some((ref) => Node.isIdentifier(ref) && isWriteReference(ref));
+}
+
+/**
+ * 副作用のある初期化式は、宣言の直後の文で 1 回だけ、他の副作用より先に評価される場合にだけ inline できる。
+ */
+function assertEffectfulInitializerInlinable(
+	declaration: VariableDeclaration,
+	references: Node[],
+): void {
+	const name = declaration.getName();
+	const statement = declaration.getVariableStatementOrThrow();
+	const [reference] = references;
+	const nextStatement = statement.getNextSibling();
+	const fail = () =>
+		new Error(
+			`'${name}' の初期化式には副作用があり、inline すると評価の順序や回数が変わるため inline できません。宣言の直後の文で 1 回だけ使われている場合にのみ inline できます`,
+		);
+
+	if (
+		references.length !== 1 ||
+		statement.getDeclarations().length !== 1 ||
+		!nextStatement ||
+		!(
+			reference.getStart() >= nextStatement.getStart() &&
+			reference.getEnd() <= nextStatement.getEnd()
+		)
+	) {
+		throw fail();
+	}
+	if (
+		!isEvaluatedOnceWithin(reference, nextStatement) ||
+		hasEffectBefore(reference, nextStatement)
+	) {
+		throw fail();
+	}
+}
+
+/**
+ * const 変数の各参照を初期化式で置き換える編集を計画する (プロジェクトは変更しない)。
+ */
+export function planVariableInline(
+	declaration: VariableDeclaration,
+	references: Node[],
+): InlineEdit[] {
+	const name = declaration.getName();
+	const statement = declaration.getVariableStatement();
+	if (
+		!statement ||
+		statement.getDeclarationKind() !== VariableDeclarationKind.Const
+	) {
+		throw new Error(
+			`'${name}' は const で宣言された変数ではないため inline できません (再代入される可能性があります)`,
+		);
+	}
+	if (!Node.isIdentifier(declaration.getNameNode())) {
+		throw new Error("分割代入で宣言された変数は inline できません");
+	}
+	const initializer = declaration.getInitializer();
+	if (!initializer) {
+		throw new Error(`'${name}' には初期化式がないため inline できません`);
+	}
+
+	for (const reference of references) {
+		const parent = reference.getParent();
+		if (
+			Node.isExportSpecifier(parent) ||
+			Node.isTypeQuery(parent) ||
+			!Node.isIdentifier(reference) ||
+			isWriteReference(reference)
+		) {
+			throw new Error(
+				`'${name}' が値として読み取る以外の方法 (export・typeof 型など) で参照されているため inline できません (${formatLocation(reference)})`,
+			);
+		}
+	}
+	if (references.length > 1 && createsNewObject(initializer)) {
+		throw new Error(
+			`'${name}' は複数箇所で参照されており、inline すると参照ごとに別のオブジェクトが作られるため inline できません`,
+		);
+	}
+
+	const freeIdentifiers = findFreeIdentifiers(initializer, declaration);
+	if (hasSideEffects(initializer)) {
+		assertEffectfulInitializerInlinable(declaration, references);
+	} else {
+		const reassigned = freeIdentifiers.find(isReassigned);
+		if (reassigned) {
+			throw new Error(
+				`'${name}' の初期化式が参照する '${reassigned.getText()}' は再代入されるため、inline すると値が変わる可能性があります`,
+			);
+		}
+	}
+
+	const usesThis = findThisReferences(initializer).length > 0;
+	const declarationThisContainer = getThisContainer(declaration);
+	const initializerText = getDedentedText(
+		initializer.getSourceFile(),
+		initializer.getStart(),
+		initializer.getEnd(),
+	);
+
+	return references.map((reference) => {
+		const shadowed = findShadowedName(freeIdentifiers, reference);
+		if (shadowed) {
+			throw new Error(
+				`'${name}' の初期化式が参照する '${shadowed}' が ${formatLocation(reference)} では別の宣言に隠されるため inline できません`,
+			);
+		}
+		if (usesThis && getThisContainer(reference) !== declarationThisContainer) {
+			throw new Error(
+				`'${name}' の初期化式の this が ${formatLocation(reference)} では別の値になるため inline できません`,
+			);
+		}
+
+		const parent = reference.getParentOrThrow();
+		if (Node.isShorthandPropertyAssignment(parent)) {
+			return { target: parent, text: `${name}: ${initializerText}` };
+		}
+		return {
+			target: reference,
+			text: formatReplacement(initializer, initializerText, reference),
+		};
+	});
+}
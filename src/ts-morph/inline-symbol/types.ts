@@ -0,0 +1,35 @@
+import type { Node } from "ts-morph";
+import type { FileDiff } from "../_utils/file-diff";
+
+export interface InlineSymbolParams {
+	tsconfigPath: string;
+	targetFilePath: string;
+	/** 関数名 / 変数名の位置 (宣言・参照のどちらでもよい) */
+	position: { line: number; column: number };
+	symbolName: string;
+	dryRun?: boolean;
+	/** true の場合、保存前の in-memory の内容とディスクとの unified diff を返す */
+	includeDiff?: boolean;
+}
+
+export interface InlineSymbolResult {
+	/** inline した宣言の種類 */
+	kind: "function" | "variable";
+	/** 置き換えた呼び出し箇所 / 参照箇所の数 */
+	inlinedCount: number;
+	changedFiles: string[];
+	/** `includeDiff: true` のときのみ設定される */
+	diffs?: FileDiff[];
+}
+
+/**
+ * inline のために行う 1 箇所の置き換え。
+ * 計画フェーズで全箇所分を作ってから、後ろの位置から順に適用する。
+ */
+export interface InlineEdit {
+	/** 置き換える式 (または呼び出し文) */
+	target: Node;
+	text: string;
+	/** true の場合、text をブロック `{ ... }` で囲んだ文として置き換える */
+	asBlock?: boolean;
+}
@@ -0,0 +1,168 @@
+import * as path from "node:path";
+import {
+	type ExportDeclaration,
+	Node,
+	type ImportDeclaration,
+	type SourceFile,
+} from "ts-morph";
+import { calculateRelativePath } from "../_utils/calculate-relative-path";
+import {
+	buildImportSectionStringFromMap,
+	calculateRequiredImportMap,
+	type ImportMap,
+} from "../move-symbol-to-file/generate-content/build-new-file-import-section";
+import { collectNeededExternalImports } from "../move-symbol-to-file/collect-external-imports";
+import { isImportBetweenMergedFiles } from "./resolve-name-collisions";
+
+/**
+ * import / export のモジュール指定子を結合先のファイルから見たものにする。
+ * プロジェクト内のファイルは相対パスを計算し直し、パッケージなどはそのまま使う
+ * (calculateRequiredImportMap と同じ規則)。
+ * 解決できない相対パス (export のないスクリプトや `./styles.css` への副作用 import) は、
+ * 元のファイルのディレクトリを基準に解決してから結合先のディレクトリからの相対パスにする (拡張子はそのまま)。
+ */
+export function getSpecifierFromTarget(
+	declaration: ImportDeclaration | ExportDeclaration,
+	targetFilePath: string,
+): string {
+	const specifier = declaration.getModuleSpecifierValue() ?? "";
+	const resolved = declaration.getModuleSpecifierSourceFile();
+	if (resolved && !resolved.getFilePath().includes("/node_modules/")) {
+		return calculateRelativePath(targetFilePath, resolved.getFilePath());
+	}
+	if (/^\.\.?(\/|$)/.test(specifier)) {
+		return calculateRelativePath(
+			targetFilePath,
+			path.posix.resolve(
+				path.posix.dirname(declaration.getSourceFile().getFilePath()),
+				specifier,
+			),
+			{ simplifyIndex: false, removeExtensions: false },
+		);
+	}
+	return specifier;
+}
+
+/**
+ * import map では表せない import (エイリアス・type-only・namespace・副作用のための import) を、
+ * 結合先から見たモジュール指定子で 1 行ずつの import 文にする。
+ * 返したローカル名は import map から除く。
+ */
+function buildVerbatimImports(
+	importDeclaration: ImportDeclaration,
+	targetFilePath: string,
+): { lines: string[]; localNames: string[] } {
+	const from = `from "${getSpecifierFromTarget(importDeclaration, targetFilePath)}";`;
+	const typePrefix = importDeclaration.isTypeOnly() ? "type " : "";
+	const lines: string[] = [];
+	const localNames: string[] = [];
+
+	if (!importDeclaration.getImportClause()) {
+		lines.push(
+			`import "${getSpecifierFromTarget(importDeclaration, targetFilePath)}";`,
+		);
+		return { lines, localNames };
+	}
+	const namespaceImport = importDeclaration.getNamespaceImport();
+	if (namespaceImport) {
+		lines.push(`import ${typePrefix}* as ${namespaceImport.getText()} ${from}`);
+		localNames.push(namespaceImport.getText());
+	}
+	const defaultImport = importDeclaration.getDefaultImport();
+	if (defaultImport && importDeclaration.isTypeOnly()) {
+		lines.push(`import type ${defaultImport.getText()} ${from}`);
+		localNames.push(defaultImport.getText());
+	}
+	for (const specifier of importDeclaration.getNamedImports()) {
+		const alias = specifier.getAliasNode()?.getText();
+		if (!alias && !specifier.isTypeOnly() && !importDeclaration.isTypeOnly()) {
+			continue;
+		}
+		const name = specifier.getName();
+		lines.push(
+			`import ${typePrefix}{ ${specifier.isTypeOnly() ? "type " : ""}${alias ? `${name} as ${alias}` : name} } ${from}`,
+		);
+		localNames.push(alias ?? name);
+	}
+	return { lines, localNames };
+}
+
+function mergeImportMaps(into: ImportMap, from: ImportMap): void {
+	for (const [modulePath, info] of from) {
+		const existing = into.get(modulePath);
+		if (!existing) {
+			into.set(modulePath, {
+				...info,
+				namedImports: new Set(info.namedImports),
+			});
+			continue;
+		}
+		for (const name of info.namedImports) {
+			existing.namedImports.add(name);
+		}
+		existing.defaultName ??= info.defaultName;
+	}
+}
+
+/**
+ * 結合するファイルの import を、結合先のファイルの import 節 1 つにまとめる。
+ * 名前付き・default の import は calculateRequiredImportMap で同じモジュールごとに集約し、
+ * それで表せないものは 1 行ずつの import 文にする (重複は結合後の organizeImports がまとめる)。
+ * 結合対象のファイル同士の import は結合後は不要なので含めない。
+ */
+export function buildMergedImportSection(
+	files: readonly SourceFile[],
+	targetFilePath: string,
+	mergedFilePaths: ReadonlySet<string>,
+): string {
+	const importMap: ImportMap = new Map();
+	const verbatimLines = new Set<string>();
+
+	for (const file of files) {
+		const externalImports = file
+			.getImportDeclarations()
+			.filter((decl) => !isImportBetweenMergedFiles(decl, mergedFilePaths));
+		const verbatimLocalNames = new Set<string>();
+		for (const decl of externalImports) {
+			const { lines, localNames } = buildVerbatimImports(decl, targetFilePath);
+			for (const line of lines) verbatimLines.add(line);
+			for (const name of localNames) verbatimLocalNames.add(name);
+		}
+
+		const neededExternalImports = collectNeededExternalImports(
+			file.getStatements().filter((s) => !Node.isImportDeclaration(s)),
+			file,
+		);
+		for (const [specifier, entry] of neededExternalImports) {
+			for (const name of verbatimLocalNames) {
+				entry.names.delete(name);
+			}
+			if (entry.declaration?.isTypeOnly()) {
+				entry.names.delete("default");
+			}
+			if (
+				entry.isNamespaceImport ||
+				entry.names.size === 0 ||
+				(entry.declaration &&
+					isImportBetweenMergedFiles(entry.declaration, mergedFilePaths))
+			) {
+				neededExternalImports.delete(specifier);
+			}
+		}
+		mergeImportMaps(
+			importMap,
+			calculateRequiredImportMap(
+				neededExternalImports,
+				[],
+				targetFilePath,
+				file.getFilePath(),
+			),
+		);
+	}
+
+	const importLines = [
+		buildImportSectionStringFromMap(importMap).trimEnd(),
+		...verbatimLines,
+	].filter((line) => line.length > 0);
+	return importLines.length > 0 ? `${importLines.join("\n")}\n\n` : "";
+}
@@ -0,0 +1,274 @@
+import { describe, expect, it } from "vitest";
+import { createInMemoryProjectWithDoubleQuotes } from "../_test-utils/create-in-memory-project";
+import { getFileText } from "../_test-utils/get-file-text";
+import { mergeFilesOnProject } from "./merge-files";
+
+describe("mergeFilesOnProject", () => {
+	it("ファイルの本文を結合し、import をまとめて参照元を結合先に向け直す", async () => {
+		const project = createInMemoryProjectWithDoubleQuotes();
+		project.createSourceFile(
+			"/src/date.ts",
+			`import { pad } from "./lib/pad";
+
+export function formatDate(date: Date) {
+  return pad(date.getDate());
+}
+`,
+		);
+		project.createSourceFile(
+			"/src/time.ts",
+			`import { pad, trim } from "./lib/pad";
+import { formatDate } from "./date";
+
+export function formatTime(date: Date) {
+  return trim(formatDate(date)) + pad(date.getHours());
+}
+`,
+		);
+		project.createSourceFile(
+			"/src/lib/pad.ts",
+			`export const pad = (n: number) => String(n).padStart(2, "0");
+export const trim = (s: string) => s.trim();
+`,
+		);
+		project.createSourceFile(
+			"/src/app.ts",
+			`import { formatDate } from "./date";
+import { formatTime } from "./time";
+
+export const now = formatDate(new Date()) + formatTime(new Date());
+`,
+		);
+
+		const result = await mergeFilesOnProject(project, {
+			sourceFilePaths: ["/src/date.ts", "/src/time.ts"],
+			targetFilePath: "/src/format.ts",
+			dryRun: true,
+		});
+
+		expect(getFileText(project, "/src/format.ts")).toBe(
+			`import { pad, trim } from "./lib/pad";
+
+export function formatDate(date: Date) {
+  return pad(date.getDate());
+}
+
+export function formatTime(date: Date) {
+  return trim(formatDate(date)) + pad(date.getHours());
+}
+`,
+		);
+		expect(getFileText(project, "/src/app.ts")).toBe(
+			`import { formatDate, formatTime } from "./format";
+
+export const now = formatDate(new Date()) + formatTime(new Date());
+`,
+		);
+		expect(project.getSourceFile("/src/date.ts")).toBeUndefined();
+		expect(project.getSourceFile("/src/time.ts")).toBeUndefined();
+		expect(result.renames).toEqual([]);
+		expect(result.redirectedFiles).toEqual(["/src/app.ts"]);
+		expect(result.removedFiles).toEqual(["/src/date.ts", "/src/time.ts"]);
+	});
+
+	it("トップレベルの名前が衝突する場合は後のファイルの宣言をリネームし、参照元も更新する", async () => {
+		const project = createInMemoryProjectWithDoubleQuotes();
+		project.createSourceFile(
+			"/src/user.ts",
+			`const prefix = "u";
+export function format(id: number) {
+  return prefix + id;
+}
+`,
+		);
+		project.createSourceFile(
+			"/src/order.ts",
+			`const prefix = "o";
+export function format(id: number) {
+  return prefix + id;
+}
+`,
+		);
+		project.createSourceFile(
+			"/src/app.ts",
+			`import { format } from "./order";
+
+export const id = format(1);
+`,
+		);
+
+		const result = await mergeFilesOnProject(project, {
+			sourceFilePaths: ["/src/user.ts", "/src/order.ts"],
+			targetFilePath: "/src/ids.ts",
+			dryRun: true,
+		});
+
+		expect(result.renames).toEqual([
+			{ filePath: "/src/order.ts", oldName: "prefix", newName: "prefixOrder" },
+			{ filePath: "/src/order.ts", oldName: "format", newName: "formatOrder" },
+		]);
+		expect(getFileText(project, "/src/ids.ts")).toBe(
+			`const prefix = "u";
+export function format(id: number) {
+  return prefix + id;
+}
+
+const prefixOrder = "o";
+export function formatOrder(id: number) {
+  return prefixOrder + id;
+}
+`,
+		);
+		expect(getFileText(project, "/src/app.ts")).toBe(
+			`import { formatOrder } from "./ids";
+
+export const id = formatOrder(1);
+`,
+		);
+	});
+
+	it("別のものを指す同じ名前の import にはエイリアスを付ける", async () => {
+		const project = createInMemoryProjectWithDoubleQuotes();
+		project.createSourceFile("/src/lib/a.ts", "export const load = () => 1;\n");
+		project.createSourceFile("/src/lib/b.ts", "export const load = () => 2;\n");
+		project.createSourceFile(
+			"/src/first.ts",
+			`import { load } from "./lib/a";
+export const first = load();
+`,
+		);
+		project.createSourceFile(
+			"/src/second.ts",
+			`import { load } from "./lib/b";
+export const second = load();
+`,
+		);
+
+		await mergeFilesOnProject(project, {
+			sourceFilePaths: ["/src/first.ts", "/src/second.ts"],
+			targetFilePath: "/src/both.ts",
+			dryRun: true,
+		});
+
+		expect(getFileText(project, "/src/both.ts")).toBe(
+			`import { load } from "./lib/a";
+import { load as loadSecond } from "./lib/b";
+
+export const first = load();
+
+export const second = loadSecond();
+`,
+		);
+	});
+
+	it("既存の結合先の内容を先頭に残し、結合先との相互の import を取り除く", async () => {
+		const project = createInMemoryProjectWithDoubleQuotes();
+		project.createSourceFile(
+			"/src/index.ts",
+			`import helperFn from "./helper";
+
+export const value = helperFn(1);
+`,
+		);
+		project.createSourceFile(
+			"/src/helper.ts",
+			`export default function helper(n: number) {
+  return n * 2;
+}
+`,
+		);
+
+		await mergeFilesOnProject(project, {
+			sourceFilePaths: ["/src/helper.ts"],
+			targetFilePath: "/src/index.ts",
+			dryRun: true,
+		});
+
+		expect(getFileText(project, "/src/index.ts")).toBe(
+			`export const value = helper(1);
+
+export default function helper(n: number) {
+  return n * 2;
+}
+`,
+		);
+	});
+
+	it("モジュールではないファイルへの副作用 import を持つファイルも結合できる", async () => {
+		const project = createInMemoryProjectWithDoubleQuotes();
+		project.createSourceFile(
+			"/src/polyfill.ts",
+			"(globalThis as { ready?: boolean }).ready = true;\n",
+		);
+		project.createSourceFile(
+			"/src/a.ts",
+			`import "./polyfill";
+
+export const a = 1;
+`,
+		);
+		project.createSourceFile("/src/b.ts", "export const b = 2;\n");
+
+		await mergeFilesOnProject(project, {
+			sourceFilePaths: ["/src/a.ts", "/src/b.ts"],
+			targetFilePath: "/src/ab.ts",
+			dryRun: true,
+		});
+
+		expect(getFileText(project, "/src/ab.ts")).toBe(
+			`import "./polyfill";
+
+export const a = 1;
+
+export const b = 2;
+`,
+		);
+	});
+
+	it("解決できない相対パスの副作用 import は別のディレクトリの結合先から見たパスに書き換える", async () => {
+		const project = createInMemoryProjectWithDoubleQuotes();
+		project.createSourceFile(
+			"/src/polyfill.ts",
+			"(globalThis as { ready?: boolean }).ready = true;\n",
+		);
+		project.createSourceFile(
+			"/src/a.ts",
+			`import "./polyfill";
+import "./styles.css";
+
+export const a = 1;
+`,
+		);
+		project.createSourceFile("/src/b.ts", "export const b = 2;\n");
+
+		await mergeFilesOnProject(project, {
+			sourceFilePaths: ["/src/a.ts", "/src/b.ts"],
+			targetFilePath: "/src/lib/ab.ts",
+			dryRun: true,
+		});
+
+		expect(getFileText(project, "/src/lib/ab.ts")).toBe(
+			`import "../polyfill";
+import "../styles.css";
+
+export const a = 1;
+
+export const b = 2;
+`,
+		);
+	});
+
+	it("default export が複数のファイルにある場合はエラーにする", async () => {
+		const project = createInMemoryProjectWithDoubleQuotes();
+		project.createSourceFile("/src/a.ts", "export default 1;\n");
+		project.createSourceFile("/src/b.ts", "export default 2;\n");
+
+		await expect(
+			mergeFilesOnProject(project, {
+				sourceFilePaths: ["/src/a.ts", "/src/b.ts"],
+				targetFilePath: "/src/ab.ts",
+				dryRun: true,
+			}),
+		).rejects.toThrow("default export が複数のファイルにある");
+	});
+});
@@ -0,0 +1,359 @@
+import {
+	type ImportDeclaration,
+	Node,
+	type Project,
+	type SourceFile,
+} from "ts-morph";
+import logger from "../../utils/logger";
+import { collectFileDiffs, collectRemovedFileDiffs } from "../_utils/file-diff";
+import { findDeclarationsReferencingFile } from "../_utils/find-declarations-to-update";
+import { getProject } from "../_utils/project-registry";
+import {
+	getChangedFiles,
+	saveProjectChanges,
+} from "../_utils/ts-morph-project";
+import {
+	prepareJournalEntry,
+	writeJournalEntry,
+} from "../refactor-journal/refactor-journal";
+import { updateModuleSpecifiers } from "../rename-file-system/update-module-specifiers";
+import {
+	buildMergedImportSection,
+	getSpecifierFromTarget,
+} from "./build-merged-imports";
+import {
+	isImportBetweenMergedFiles,
+	resolveNameCollisions,
+} from "./resolve-name-collisions";
+import type { MergeFilesParams, MergeFilesResult } from "./types";
+
+/**
+ * 複数のファイルを 1 つのファイルに結合する。
+ *
+ * tsconfigPath からプロジェクトを取得して `mergeFilesOnProject` に委譲する。
+ */
+export async function mergeFiles(
+	params: MergeFilesParams,
+): Promise<MergeFilesResult> {
+	const project = getProject(params.tsconfigPath);
+	return mergeFilesOnProject(project, params);
+}
+
+function findSourceFiles(
+	project: Project,
+	sourceFilePaths: readonly string[],
+	targetFilePath: string,
+): SourceFile[] {
+	if (sourceFilePaths.length === 0) {
+		throw new Error("結合するファイルが指定されていません");
+	}
+	if (new Set(sourceFilePaths).size !== sourceFilePaths.length) {
+		throw new Error("同じファイルが複数回指定されています");
+	}
+	return sourceFilePaths.map((filePath) => {
+		if (filePath === targetFilePath) {
+			throw new Error(
+				`結合先 ${targetFilePath} が結合するファイルにも含まれています`,
+			);
+		}
+		const sourceFile = project.getSourceFile(filePath);
+		if (!sourceFile) {
+			throw new Error(`ファイルが見つかりません: ${filePath}`);
+		}
+		return sourceFile;
+	});
+}
+
+/**
+ * 1 つのファイルにまとめられない構成を拒否する。
+ * - default export が複数のファイルにある
+ * - `export =` がある
+ * - 結合対象のファイル同士を namespace import で参照している (結合後に名前空間を作れない)
+ */
+function assertMergeable(
+	files: readonly SourceFile[],
+	mergedFilePaths: ReadonlySet<string>,
+): void {
+	const filesWithDefaultExport = files.filter((file) =>
+		file.getDefaultExportSymbol(),
+	);
+	if (filesWithDefaultExport.length > 1) {
+		throw new Error(
+			`default export が複数のファイルにあるため結合できません: ${filesWithDefaultExport.map((f) => f.getFilePath()).join(", ")}`,
+		);
+	}
+	for (const file of files) {
+		if (file.getExportAssignment((assignment) => assignment.isExportEquals())) {
+			throw new Error(
+				`${file.getFilePath()} は \`export =\` を使っているため結合できません`,
+			);
+		}
+		for (const decl of file.getImportDeclarations()) {
+			if (
+				decl.getNamespaceImport() &&
+				isImportBetweenMergedFiles(decl, mergedFilePaths)
+			) {
+				throw new Error(
+					`${file.getFilePath()} が結合するファイル ${decl.getModuleSpecifierValue()} を namespace import (\`import * as ${decl.getNamespaceImport()?.getText()}\`) しているため結合できません`,
+				);
+			}
+		}
+	}
+}
+
+/**
+ * 結合対象のファイル同士の import について、結合後に宣言を直接参照できるよう、
+ * ローカル名を宣言の名前に揃える (エイリアスや default import の名前を使っている箇所を書き換える)。
+ * import 文そのものは本文を取り出すときに取り除く。
+ */
+function alignImportsBetweenMergedFiles(
+	files: readonly SourceFile[],
+	mergedFilePaths: ReadonlySet<string>,
+): void {
+	for (const file of files) {
+		for (const decl of file.getImportDeclarations()) {
+			if (!isImportBetweenMergedFiles(decl, mergedFilePaths)) {
+				continue;
+			}
+			const defaultImport = decl.getDefaultImport();
+			if (defaultImport) {
+				const declarationName = getDefaultExportDeclarationName(decl);
+				if (defaultImport.getText() !== declarationName) {
+					defaultImport.rename(declarationName);
+				}
+			}
+			for (const specifier of decl.getNamedImports()) {
+				if (specifier.getAliasNode()) {
+					specifier.removeAliasWithRename();
+				}
+			}
+		}
+	}
+}
+
+function getDefaultExportDeclarationName(decl: ImportDeclaration): string {
+	const moduleFile = decl.getModuleSpecifierSourceFileOrThrow();
+	const symbol = moduleFile.getDefaultExportSymbol();
+	const declaration = (
+		symbol?.getAliasedSymbol() ?? symbol
+	)?.getDeclarations()[0];
+	const name =
+		declaration && Node.hasName(declaration)
+			? declaration.getName()
+			: undefined;
+	if (!name) {
+		throw new Error(
+			`${moduleFile.getFilePath()} の default export には名前がないため、${decl.getSourceFile().getFilePath()} からの default import を結合後の宣言に置き換えられません`,
+		);
+	}
+	return name;
+}
+
+/**
+ * 結合するファイルを参照している import / export を結合先に向け直す。
+ * 向け直した結果、同じファイルに結合先からの import 文が複数できた場合は 1 つにまとめる。
+ *
+ * @returns 書き換えたファイルのパス
+ */
+async function redirectReferences(
+	sourceFiles: readonly SourceFile[],
+	targetFilePath: string,
+	mergedFilePaths: ReadonlySet<string>,
+): Promise<string[]> {
+	const declarationsToUpdate = (
+		await Promise.all(
+			sourceFiles.map((sourceFile) =>
+				findDeclarationsReferencingFile(sourceFile),
+			),
+		)
+	)
+		.flat()
+		.filter(
+			({ referencingFilePath }) => !mergedFilePaths.has(referencingFilePath),
+		);
+	updateModuleSpecifiers(
+		declarationsToUpdate,
+		sourceFiles.map((sourceFile) => ({
+			sourceFile,
+			oldPath: sourceFile.getFilePath(),
+			newPath: targetFilePath,
+		})),
+	);
+
+	// 元から結合先を import していた文ともまとめるため、向け直した指定子と同じ import 文をすべて対象にする
+	const redirectedSpecifiers = new Map<SourceFile, Set<string>>();
+	for (const { declaration } of declarationsToUpdate) {
+		const file = declaration.getSourceFile();
+		const specifiers = redirectedSpecifiers.get(file) ?? new Set();
+		specifiers.add(declaration.getModuleSpecifierValue() ?? "");
+		redirectedSpecifiers.set(file, specifiers);
+	}
+	for (const [file, specifiers] of redirectedSpecifiers) {
+		mergeDuplicateImports(
+			file
+				.getImportDeclarations()
+				.filter((decl) => specifiers.has(decl.getModuleSpecifierValue())),
+		);
+	}
+
+	return [
+		...new Set(
+			declarationsToUpdate.map(
+				({ referencingFilePath }) => referencingFilePath,
+			),
+		),
+	];
+}
+
+/**
+ * 同じモジュール指定子の import 文を、名前付き import と default import だけからなるものに限って 1 つにまとめる。
+ * 最後の import 文に前のものを寄せる (前の文を消すほうが、import 節の後ろの空行が残る)。
+ */
+function mergeDuplicateImports(declarations: ImportDeclaration[]): void {
+	const bySpecifier = new Map<string, ImportDeclaration[]>();
+	for (const decl of declarations) {
+		if (decl.getNamespaceImport()) continue;
+		const key = `${decl.isTypeOnly()}:${decl.getModuleSpecifierValue()}`;
+		bySpecifier.set(key, [...(bySpecifier.get(key) ?? []), decl]);
+	}
+	for (const group of bySpecifier.values()) {
+		const last = group[group.length - 1];
+		const namedImports = [];
+		for (const decl of group.slice(0, -1)) {
+			const defaultImport = decl.getDefaultImport();
+			if (defaultImport && last.getDefaultImport()) {
+				continue;
+			}
+			if (defaultImport) {
+				last.setDefaultImport(defaultImport.getText());
+			}
+			namedImports.push(
+				...decl.getNamedImports().map((specifier) => specifier.getStructure()),
+			);
+			decl.remove();
+		}
+		if (namedImports.length > 0) {
+			last.insertNamedImports(0, namedImports);
+		}
+	}
+}
+
+/**
+ * 結合先に並べる本文 (import 以外の文) を取り出す。
+ * 結合対象のファイルからの re-export は結合後は不要なので取り除き、
+ * それ以外の re-export はモジュール指定子を結合先から見たものにする。
+ */
+function extractBody(
+	file: SourceFile,
+	targetFilePath: string,
+	mergedFilePaths: ReadonlySet<string>,
+): string {
+	for (const decl of file.getImportDeclarations()) {
+		decl.remove();
+	}
+	for (const decl of file.getExportDeclarations()) {
+		if (!decl.hasModuleSpecifier()) continue;
+		const moduleFile = decl.getModuleSpecifierSourceFile();
+		if (moduleFile && mergedFilePaths.has(moduleFile.getFilePath())) {
+			decl.remove();
+			continue;
+		}
+		const specifier = getSpecifierFromTarget(decl, targetFilePath);
+		if (specifier !== decl.getModuleSpecifierValue()) {
+			decl.setModuleSpecifier(specifier);
+		}
+	}
+	return file.getFullText().trim();
+}
+
+/**
+ * 複数のファイルを 1 つのファイルに結合し、プロジェクト内の import / export を結合先に向け直して元のファイルを削除する。
+ *
+ * 1. 結合後に同じスコープに並ぶトップレベルの名前の衝突を、型情報を使ったリネームで解消する
+ * 2. 結合するファイルを参照している import / export を結合先に向け直す
+ * 3. import を calculateRequiredImportMap でまとめ、本文を結合先 (既存ならその内容の後ろ) に並べる
+ */
+export async function mergeFilesOnProject(
+	project: Project,
+	{
+		sourceFilePaths,
+		targetFilePath,
+		dryRun = false,
+		includeDiff = false,
+	}: Omit<MergeFilesParams, "tsconfigPath">,
+): Promise<MergeFilesResult> {
+	logger.debug({ sourceFilePaths, targetFilePath }, "mergeFiles 開始");
+
+	const sourceFiles = findSourceFiles(project, sourceFilePaths, targetFilePath);
+	const existingTarget = project.getSourceFile(targetFilePath);
+	const files = existingTarget ? [existingTarget, ...sourceFiles] : sourceFiles;
+	if (files.length < 2) {
+		throw new Error(
+			"結合するファイルが 1 つだけです。ファイルの移動には rename_filesystem_entry_by_tsmorph を使ってください",
+		);
+	}
+	const mergedFilePaths = new Set(files.map((file) => file.getFilePath()));
+	assertMergeable(files, mergedFilePaths);
+
+	const renames = resolveNameCollisions(files, mergedFilePaths);
+	alignImportsBetweenMergedFiles(files, mergedFilePaths);
+	const redirectedFiles = await redirectReferences(
+		sourceFiles,
+		targetFilePath,
+		mergedFilePaths,
+	);
+
+	const importSection = buildMergedImportSection(
+		files,
+		targetFilePath,
+		mergedFilePaths,
+	);
+	// extractBody が import 文を消す前に作る。createSourceFile は未解決のモジュール参照を解決し直すため、
+	// 消した `import "./polyfill"` (モジュールではないファイルへの副作用 import) の指定子をたどって失敗する
+	const targetFile =
+		existingTarget ?? project.createSourceFile(targetFilePath, "");
+	const bodies = files
+		.map((file) => extractBody(file, targetFilePath, mergedFilePaths))
+		.filter((body) => body.length > 0);
+	const content = `${importSection}${bodies.join("\n\n")}\n`;
+
+	targetFile.replaceText([0, targetFile.getEnd()], content);
+	targetFile.organizeImports();
+
+	for (const sourceFile of sourceFiles) {
+		sourceFile.delete();
+	}
+
+	const changedSourceFiles = getChangedFiles(project);
+	const diffs = includeDiff
+		? [
+				...collectFileDiffs(project, changedSourceFiles),
+				...collectRemovedFileDiffs(project, sourceFilePaths),
+			]
+		: undefined;
+
+	if (!dryRun) {
+		const journal = prepareJournalEntry(project, {
+			operation: "mergeFiles",
+			removedFilePaths: sourceFilePaths,
+		});
+		await saveProjectChanges(project);
+		writeJournalEntry(journal);
+		logger.info(
+			{
+				targetFilePath,
+				sourceFileCount: sourceFiles.length,
+				renameCount: renames.length,
+			},
+			"mergeFiles 保存完了",
+		);
+	}
+
+	return {
+		renames,
+		redirectedFiles,
+		removedFiles: [...sourceFilePaths],
+		changedFiles: changedSourceFiles.map((sf) => sf.getFilePath()),
+		diffs,
+	};
+}
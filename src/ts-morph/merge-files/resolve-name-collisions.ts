@@ -0,0 +1,223 @@
+import * as path from "node:path";
+import {
+	type Identifier,
+	type ImportDeclaration,
+	Node,
+	type SourceFile,
+	SyntaxKind,
+} from "ts-morph";
+import type { MergeRename } from "./types";
+
+/**
+ * トップレベルで宣言されている名前と、その名前ノード (リネームの起点) を返す。
+ * 同じ名前の宣言が複数ある場合 (オーバーロードや宣言のマージ) は最初のもの。
+ */
+export function getTopLevelDeclarationNames(
+	sourceFile: SourceFile,
+): Map<string, Identifier> {
+	const names = new Map<string, Identifier>();
+	const add = (nameNode: Node | undefined) => {
+		if (Node.isIdentifier(nameNode) && !names.has(nameNode.getText())) {
+			names.set(nameNode.getText(), nameNode);
+		}
+	};
+
+	for (const statement of sourceFile.getStatements()) {
+		if (Node.isVariableStatement(statement)) {
+			for (const declaration of statement.getDeclarations()) {
+				const nameNode = declaration.getNameNode();
+				if (Node.isIdentifier(nameNode)) {
+					add(nameNode);
+				} else {
+					for (const element of nameNode.getDescendantsOfKind(
+						SyntaxKind.BindingElement,
+					)) {
+						add(element.getNameNode());
+					}
+				}
+			}
+		} else if (
+			Node.isFunctionDeclaration(statement) ||
+			Node.isClassDeclaration(statement) ||
+			Node.isInterfaceDeclaration(statement) ||
+			Node.isTypeAliasDeclaration(statement) ||
+			Node.isEnumDeclaration(statement) ||
+			Node.isModuleDeclaration(statement)
+		) {
+			add(statement.getNameNode());
+		}
+	}
+	return names;
+}
+
+/** import が結合対象のファイル (結合先を含む) を参照しているか */
+export function isImportBetweenMergedFiles(
+	importDeclaration: ImportDeclaration,
+	mergedFilePaths: ReadonlySet<string>,
+): boolean {
+	const resolved = importDeclaration.getModuleSpecifierSourceFile();
+	return resolved !== undefined && mergedFilePaths.has(resolved.getFilePath());
+}
+
+/** import が同じもの (同じモジュールの同じ export) を指しているかを判定するためのキー */
+function getModuleKey(importDeclaration: ImportDeclaration): string {
+	return (
+		importDeclaration.getModuleSpecifierSourceFile()?.getFilePath() ??
+		importDeclaration.getModuleSpecifierValue()
+	);
+}
+
+function toPascalCase(text: string): string {
+	return text
+		.split(/[^A-Za-z0-9]+/)
+		.filter((word) => word.length > 0)
+		.map((word) => word[0].toUpperCase() + word.slice(1))
+		.join("");
+}
+
+/**
+ * 衝突しない名前を割り当てる。元の名前の後ろにファイル名を PascalCase で付け (`format` in `date.ts` -> `formatDate`)、
+ * それでも使われていれば連番を付ける。
+ */
+function createNameAllocator(usedNames: Set<string>) {
+	return (name: string, filePath: string): string => {
+		const base = `${name}${toPascalCase(path.basename(filePath, path.extname(filePath)))}`;
+		let candidate = base;
+		for (let index = 2; usedNames.has(candidate); index++) {
+			candidate = `${base}${index}`;
+		}
+		usedNames.add(candidate);
+		return candidate;
+	};
+}
+
+/** import で導入されるローカル名 1 つ分 */
+interface ImportBinding {
+	key: string;
+	local: Node;
+	rename: (newName: string) => void;
+}
+
+function getImportBindings(
+	importDeclaration: ImportDeclaration,
+): ImportBinding[] {
+	const moduleKey = getModuleKey(importDeclaration);
+	const bindings: ImportBinding[] = [];
+	const defaultImport = importDeclaration.getDefaultImport();
+	if (defaultImport) {
+		bindings.push({
+			key: `${moduleKey}#default`,
+			local: defaultImport,
+			rename: (newName) => defaultImport.rename(newName),
+		});
+	}
+	const namespaceImport = importDeclaration.getNamespaceImport();
+	if (namespaceImport) {
+		bindings.push({
+			key: `${moduleKey}#*`,
+			local: namespaceImport,
+			rename: (newName) => namespaceImport.rename(newName),
+		});
+	}
+	for (const specifier of importDeclaration.getNamedImports()) {
+		bindings.push({
+			key: `${moduleKey}#${specifier.getName()}`,
+			local: specifier.getAliasNode() ?? specifier.getNameNode(),
+			rename: (newName) => specifier.renameAlias(newName),
+		});
+	}
+	return bindings;
+}
+
+/**
+ * 結合すると同じスコープに並ぶトップレベルの名前の衝突を、型情報を使ったリネームで解消する。
+ * 先に並ぶファイル (結合先、sourceFilePaths の順) の名前を優先し、後のファイルの名前を変える。
+ *
+ * - 宣言同士: 後のファイルの宣言をリネームする。export されていれば参照元の import も一緒に変わる
+ * - import と宣言、別のものを指す import 同士: 後のファイルの import にエイリアスを付ける
+ * - 同じものを指す default / namespace import: 先のファイルと同じローカル名に揃える
+ *   (結合後の import 文に 1 つの名前でまとめるため)
+ *
+ * 結合対象のファイル同士の import は結合後に消えるので対象外。
+ */
+export function resolveNameCollisions(
+	files: readonly SourceFile[],
+	mergedFilePaths: ReadonlySet<string>,
+): MergeRename[] {
+	const renames: MergeRename[] = [];
+	const externalImports = (file: SourceFile) =>
+		file
+			.getImportDeclarations()
+			.filter((decl) => !isImportBetweenMergedFiles(decl, mergedFilePaths));
+
+	const usedNames = new Set<string>();
+	for (const file of files) {
+		for (const name of getTopLevelDeclarationNames(file).keys()) {
+			usedNames.add(name);
+		}
+		for (const decl of externalImports(file)) {
+			for (const { local } of getImportBindings(decl)) {
+				usedNames.add(local.getText());
+			}
+		}
+	}
+	const allocateName = createNameAllocator(usedNames);
+
+	// 宣言同士の衝突
+	const declarationOwners = new Map<string, SourceFile>();
+	for (const file of files) {
+		for (const [name, nameNode] of getTopLevelDeclarationNames(file)) {
+			if (!declarationOwners.has(name)) {
+				declarationOwners.set(name, file);
+				continue;
+			}
+			const newName = allocateName(name, file.getFilePath());
+			nameNode.rename(newName);
+			declarationOwners.set(newName, file);
+			renames.push({ filePath: file.getFilePath(), oldName: name, newName });
+		}
+	}
+
+	// import が導入する名前の衝突
+	const keyByLocal = new Map<string, string>();
+	const localByKey = new Map<string, string>();
+	for (const file of files) {
+		for (const decl of externalImports(file)) {
+			for (const binding of getImportBindings(decl)) {
+				const local = binding.local.getText();
+				const isNamed = binding.local.getParentIfKind(
+					SyntaxKind.ImportSpecifier,
+				);
+				const canonical = localByKey.get(binding.key);
+				let newName: string | undefined;
+				if (!isNamed && canonical !== undefined && canonical !== local) {
+					if (getTopLevelDeclarationNames(file).has(canonical)) {
+						throw new Error(
+							`${file.getFilePath()} の import "${local}" を他のファイルと同じ名前 "${canonical}" に揃えられません`,
+						);
+					}
+					newName = canonical;
+				} else if (
+					declarationOwners.has(local) ||
+					(keyByLocal.get(local) ?? binding.key) !== binding.key
+				) {
+					newName = allocateName(local, file.getFilePath());
+				}
+				if (newName !== undefined) {
+					binding.rename(newName);
+					renames.push({
+						filePath: file.getFilePath(),
+						oldName: local,
+						newName,
+					});
+				}
+				const finalName = newName ?? local;
+				keyByLocal.set(finalName, binding.key);
+				if (!localByKey.has(binding.key)) {
+					localByKey.set(binding.key, finalName);
+				}
+			}
+		}
+	}
+	return renames;
+}
@@ -0,0 +1,31 @@
+import type { FileDiff } from "../_utils/file-diff";
+
+export interface MergeFilesParams {
+	tsconfigPath: string;
+	/** 結合するファイル (この順に結合先の後ろへ追加する) */
+	sourceFilePaths: string[];
+	/** 結合先のファイル。既存のファイルなら、その内容を先頭に残す */
+	targetFilePath: string;
+	dryRun?: boolean;
+	/** true の場合、保存前の in-memory の内容とディスクとの unified diff を返す */
+	includeDiff?: boolean;
+}
+
+/** 名前の衝突を避けるために行ったリネーム */
+export interface MergeRename {
+	/** リネームした宣言・import があったファイル (結合前のパス) */
+	filePath: string;
+	oldName: string;
+	newName: string;
+}
+
+export interface MergeFilesResult {
+	renames: MergeRename[];
+	/** import / export の参照先を結合先に書き換えたファイル */
+	redirectedFiles: string[];
+	/** 結合して削除したファイル */
+	removedFiles: string[];
+	changedFiles: string[];
+	/** `includeDiff: true` のときのみ設定される */
+	diffs?: FileDiff[];
+}
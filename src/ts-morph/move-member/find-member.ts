@@ -0,0 +1,142 @@
+import {
+	type ClassDeclaration,
+	type MethodDeclaration,
+	Node,
+	type Project,
+	type PropertyDeclaration,
+	Scope,
+} from "ts-morph";
+import { findThisReferences } from "../inline-symbol/expression-safety";
+import { findNonPublicMemberReferences } from "./member-dependencies";
+import type { MoveMemberDestination, MovedMemberKind } from "./types";
+
+export interface MemberToMove {
+	classDeclaration: ClassDeclaration;
+	member: MethodDeclaration | PropertyDeclaration;
+	kind: MovedMemberKind;
+}
+
+export function formatLocation(node: Node): string {
+	const sourceFile = node.getSourceFile();
+	const { line, column } = sourceFile.getLineAndColumnAtPos(node.getStart());
+	return `${sourceFile.getFilePath()}:${line}:${column}`;
+}
+
+function getMemberKind(
+	member: MethodDeclaration | PropertyDeclaration,
+): MovedMemberKind {
+	if (member.isStatic()) {
+		return Node.isMethodDeclaration(member) ? "staticMethod" : "staticProperty";
+	}
+	if (Node.isPropertyDeclaration(member)) {
+		throw new Error(
+			`インスタンスプロパティ '${member.getName()}' は移動できません (static メンバーとインスタンスメソッドのみ対応しています)`,
+		);
+	}
+	return "instanceMethod";
+}
+
+/**
+ * 移動するメンバーを探し、移動できる形かを検証する。
+ */
+export function findMemberToMove(
+	project: Project,
+	targetFilePath: string,
+	className: string,
+	memberName: string,
+	destination: MoveMemberDestination,
+): MemberToMove {
+	const sourceFile = project.getSourceFile(targetFilePath);
+	if (!sourceFile) {
+		throw new Error(`ファイルが見つかりません: ${targetFilePath}`);
+	}
+	const classDeclaration = sourceFile.getClass(className);
+	if (!classDeclaration) {
+		throw new Error(
+			`クラス '${className}' が見つかりません: ${targetFilePath}`,
+		);
+	}
+
+	const members = classDeclaration
+		.getMembers()
+		.filter(
+			(m): m is MethodDeclaration | PropertyDeclaration =>
+				(Node.isMethodDeclaration(m) || Node.isPropertyDeclaration(m)) &&
+				Node.isIdentifier(m.getNameNode()) &&
+				m.getName() === memberName,
+		);
+	if (members.length === 0) {
+		throw new Error(
+			`クラス '${className}' にメソッドまたはプロパティ '${memberName}' が見つかりません`,
+		);
+	}
+	if (members.length > 1) {
+		throw new Error(
+			`クラス '${className}' に '${memberName}' という名前の static メンバーとインスタンスメンバーの両方があるため、移動するメンバーを特定できません`,
+		);
+	}
+	const member = members[0];
+	const kind = getMemberKind(member);
+
+	if (member.isAbstract()) {
+		throw new Error(`abstract メンバー '${memberName}' は移動できません`);
+	}
+	if (member.getDecorators().length > 0) {
+		throw new Error(
+			`デコレータの付いたメンバー '${memberName}' は移動できません`,
+		);
+	}
+	if (Node.isMethodDeclaration(member) && member.getOverloads().length > 0) {
+		throw new Error(
+			`オーバーロードされたメソッド '${memberName}' は移動できません`,
+		);
+	}
+	if (Node.isMethodDeclaration(member) && !member.getBody()) {
+		throw new Error(`本体のないメソッド '${memberName}' は移動できません`);
+	}
+
+	const thisReference = findThisReferences(member)[0];
+	if (thisReference) {
+		throw new Error(
+			`'${memberName}' は this / super を参照しているため移動できません (${formatLocation(thisReference)})${
+				kind === "instanceMethod"
+					? ""
+					: "。static メンバーの this はクラス名に書き換えてから実行してください"
+			}`,
+		);
+	}
+
+	const nonPublicReference = findNonPublicMemberReferences(
+		member,
+		classDeclaration,
+	)[0];
+	if (nonPublicReference) {
+		throw new Error(
+			`'${memberName}' はクラス '${className}' の private / protected メンバー '${nonPublicReference.name}' を参照しているため移動できません (${formatLocation(nonPublicReference.reference)})。先に '${nonPublicReference.name}' を public にするか、一緒に移動してください`,
+		);
+	}
+
+	if (destination.kind === "class") {
+		if (kind === "instanceMethod") {
+			throw new Error(
+				`インスタンスメソッド '${memberName}' は関数としてのみ移動できます (destination.kind: "function" を指定してください)`,
+			);
+		}
+		if (member.getScope() !== Scope.Public) {
+			throw new Error(
+				`${member.getScope()} メンバー '${memberName}' は別のクラスに移動すると元のクラスから参照できなくなるため移動できません`,
+			);
+		}
+	}
+	if (
+		destination.kind === "function" &&
+		Node.isPropertyDeclaration(member) &&
+		!member.getInitializer()
+	) {
+		throw new Error(
+			`初期化式のない static プロパティ '${memberName}' は const に変換できません`,
+		);
+	}
+
+	return { classDeclaration, member, kind };
+}
@@ -0,0 +1,271 @@
+import * as path from "node:path";
+import {
+	type ClassDeclaration,
+	type Symbol as MorphSymbol,
+	Node,
+	Scope,
+	type SourceFile,
+	type Statement,
+	SyntaxKind,
+} from "ts-morph";
+import { calculateRelativePath } from "../_utils/calculate-relative-path";
+import type { TextEdit } from "../_utils/dedent-text";
+import type { RequiredImport } from "./types";
+
+export interface DependencyImportPlan {
+	imports: RequiredImport[];
+	/** 移動先から import するために export を付ける必要がある、移動元ファイルのトップレベル宣言 */
+	statementsToExport: Statement[];
+}
+
+const KEEP_EXTENSION = [".js", ".jsx", ".json", ".mjs", ".cjs"];
+
+/**
+ * 宣言がソースファイル直下の宣言 (トップレベルの関数・クラス・変数など) であれば、その文を返す。
+ */
+function getTopLevelStatement(declaration: Node): Statement | undefined {
+	const statement = Node.isVariableDeclaration(declaration)
+		? declaration.getVariableStatement()
+		: declaration;
+	if (
+		statement &&
+		Node.isStatement(statement) &&
+		Node.isSourceFile(statement.getParent())
+	) {
+		return statement;
+	}
+	return undefined;
+}
+
+/**
+ * 移動元ファイルの import を、移動先ファイルから見たモジュール指定子に変換する。
+ * 移動先ファイル自身を指す import の場合は undefined (import 不要)。
+ */
+function toDestinationModuleSpecifier(
+	declaration: Node,
+	destinationPath: string,
+): string | undefined {
+	const importDeclaration = declaration.getFirstAncestorByKindOrThrow(
+		SyntaxKind.ImportDeclaration,
+	);
+	const specifier = importDeclaration.getModuleSpecifierValue();
+	const resolved = importDeclaration.getModuleSpecifierSourceFile();
+	if (!resolved || !specifier.startsWith(".")) {
+		return specifier;
+	}
+	if (resolved.getFilePath() === destinationPath) {
+		return undefined;
+	}
+	return calculateRelativePath(destinationPath, resolved.getFilePath(), {
+		removeExtensions: !KEEP_EXTENSION.includes(path.extname(specifier)),
+		simplifyIndex: true,
+	});
+}
+
+function toRequiredImport(
+	declaration: Node,
+	identifierText: string,
+	destinationPath: string,
+): RequiredImport | undefined {
+	if (
+		!Node.isImportSpecifier(declaration) &&
+		!Node.isImportClause(declaration) &&
+		!Node.isNamespaceImport(declaration)
+	) {
+		return undefined;
+	}
+	const moduleSpecifier = toDestinationModuleSpecifier(
+		declaration,
+		destinationPath,
+	);
+	if (moduleSpecifier === undefined) {
+		return undefined;
+	}
+	const importDeclaration = declaration.getFirstAncestorByKindOrThrow(
+		SyntaxKind.ImportDeclaration,
+	);
+	if (Node.isImportSpecifier(declaration)) {
+		return {
+			moduleSpecifier,
+			kind: "named",
+			name: declaration.getName(),
+			alias: identifierText,
+			isTypeOnly: importDeclaration.isTypeOnly() || declaration.isTypeOnly(),
+		};
+	}
+	return {
+		moduleSpecifier,
+		kind: Node.isImportClause(declaration) ? "default" : "namespace",
+		alias: identifierText,
+		isTypeOnly: importDeclaration.isTypeOnly(),
+	};
+}
+
+/**
+ * 宣言が classDeclaration の private / protected メンバー (#private やパラメータプロパティを含む) かを判定する。
+ */
+function isNonPublicMemberOf(
+	declaration: Node,
+	classDeclaration: ClassDeclaration,
+): boolean {
+	const isParameterProperty =
+		Node.isParameterDeclaration(declaration) &&
+		declaration.isParameterProperty() &&
+		declaration.getParentOrThrow().getParent() === classDeclaration;
+	if (!isParameterProperty && declaration.getParent() !== classDeclaration) {
+		return false;
+	}
+	if (
+		Node.isPropertyNamed(declaration) &&
+		Node.isPrivateIdentifier(declaration.getNameNode())
+	) {
+		return true;
+	}
+	return Node.isScoped(declaration) && declaration.getScope() !== Scope.Public;
+}
+
+/**
+ * 移動するメンバーが参照している、移動元クラスの private / protected メンバーを返す。
+ * 移動先 (別のクラスやトップレベルの関数) からはアクセスできなくなるため、移動前に検出して拒否する。
+ */
+export function findNonPublicMemberReferences(
+	member: Node,
+	classDeclaration: ClassDeclaration,
+): { reference: Node; name: string }[] {
+	return member
+		.getDescendants()
+		.filter((node) => Node.isIdentifier(node) || Node.isPrivateIdentifier(node))
+		.flatMap((reference) => {
+			const declaration = reference
+				.getSymbol()
+				?.getDeclarations()
+				.find((d) => isNonPublicMemberOf(d, classDeclaration));
+			return declaration && declaration !== member
+				? [{ reference, name: reference.getText() }]
+				: [];
+		});
+}
+
+/**
+ * 移動するノード (メンバー) が移動元ファイルで参照している import とトップレベル宣言を調べ、
+ * 移動先ファイルに追加する import を計画する。
+ *
+ * - 移動元ファイルの import は、移動先から見たパスに直して同じ形で import する
+ * - 移動元ファイルのトップレベル宣言は移動元ファイルから import する (export されていなければ export を付ける)
+ * - skipRanges 内の識別子 (参照の書き換えで消える部分) は無視する
+ * - extraDeclarations は識別子として現れないが移動先で必要な宣言 (レシーバの型にするクラスなど)
+ */
+export function planDependencyImports(
+	node: Node,
+	destinationFile: SourceFile | undefined,
+	destinationPath: string,
+	skipRanges: readonly TextEdit[],
+	extraDeclarations: { statement: Statement; name: string }[] = [],
+): DependencyImportPlan {
+	const sourceFile = node.getSourceFile();
+	if (destinationPath === sourceFile.getFilePath()) {
+		return { imports: [], statementsToExport: [] };
+	}
+	const sourceModuleSpecifier = calculateRelativePath(
+		destinationPath,
+		sourceFile.getFilePath(),
+		{ removeExtensions: true, simplifyIndex: true },
+	);
+
+	const imports = new Map<string, RequiredImport>();
+	const statementsToExport = new Set<Statement>();
+	const destinationLocals = new Map(
+		(destinationFile?.getLocals() ?? []).map((s) => [s.getName(), s]),
+	);
+	const resolve = (symbol: MorphSymbol) =>
+		symbol.isAlias() ? (symbol.getAliasedSymbol() ?? symbol) : symbol;
+
+	const addImport = (required: RequiredImport, symbol: MorphSymbol) => {
+		const existing = destinationLocals.get(required.alias);
+		if (existing) {
+			if (resolve(existing) === resolve(symbol)) {
+				return;
+			}
+			throw new Error(
+				`移動先 ${destinationPath} には '${required.alias}' という名前の別の宣言があるため、移動するメンバーが参照する '${required.alias}' を import できません`,
+			);
+		}
+		imports.set(
+			`${required.kind}:${required.moduleSpecifier}:${required.name ?? ""}:${required.alias}`,
+			required,
+		);
+	};
+
+	const addStatementImport = (
+		statement: Statement,
+		symbol: MorphSymbol,
+		name: string,
+	) => {
+		const isDefault =
+			Node.isExportable(statement) && statement.isDefaultExport();
+		if (!isDefault && Node.isExportable(statement) && !statement.isExported()) {
+			statementsToExport.add(statement);
+		}
+		addImport(
+			isDefault
+				? {
+						moduleSpecifier: sourceModuleSpecifier,
+						kind: "default",
+						alias: name,
+						isTypeOnly: false,
+					}
+				: {
+						moduleSpecifier: sourceModuleSpecifier,
+						kind: "named",
+						name,
+						alias: name,
+						isTypeOnly: false,
+					},
+			symbol,
+		);
+	};
+
+	for (const { statement, name } of extraDeclarations) {
+		const symbol = statement.getSymbol();
+		if (symbol) {
+			addStatementImport(statement, symbol, name);
+		}
+	}
+
+	for (const identifier of node.getDescendantsOfKind(SyntaxKind.Identifier)) {
+		const position = identifier.getStart();
+		if (skipRanges.some((r) => position >= r.start && position < r.end)) {
+			continue;
+		}
+		const symbol = identifier.getSymbol();
+		const declaration = symbol?.getDeclarations()[0];
+		if (
+			!symbol ||
+			!declaration ||
+			declaration.getSourceFile() !== sourceFile ||
+			(declaration.getStart() >= node.getStart() &&
+				declaration.getEnd() <= node.getEnd())
+		) {
+			continue;
+		}
+
+		const required = toRequiredImport(
+			declaration,
+			identifier.getText(),
+			destinationPath,
+		);
+		if (required) {
+			addImport(required, symbol);
+			continue;
+		}
+		const statement = getTopLevelStatement(declaration);
+		if (statement) {
+			addStatementImport(statement, symbol, identifier.getText());
+		}
+	}
+
+	return {
+		imports: [...imports.values()],
+		statementsToExport: [...statementsToExport],
+	};
+}
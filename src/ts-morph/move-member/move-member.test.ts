@@ -0,0 +1,473 @@
+import { IndentationText, type Project } from "ts-morph";
+import { describe, expect, it } from "vitest";
+import { createInMemoryProject } from "../_test-utils/create-in-memory-project";
+import { moveMemberOnProject } from "./move-member";
+import type { MoveMemberParams } from "./types";
+
+function setup(files: Record<string, string>): Project {
+	const project = createInMemoryProject({
+		manipulationSettings: { indentationText: IndentationText.Tab },
+	});
+	for (const [filePath, content] of Object.entries(files)) {
+		project.createSourceFile(filePath, content, { overwrite: true }).saveSync();
+	}
+	return project;
+}
+
+function move(
+	project: Project,
+	params: Omit<MoveMemberParams, "tsconfigPath" | "dryRun">,
+) {
+	return moveMemberOnProject(project, { ...params, dryRun: true });
+}
+
+function getText(project: Project, filePath: string): string {
+	return project.getSourceFileOrThrow(filePath).getFullText();
+}
+
+describe("moveMemberOnProject", () => {
+	describe("static メンバーを関数に移動", () => {
+		it("static メソッドを export された関数にし、呼び出し箇所と import を書き換える", async () => {
+			const project = setup({
+				"/src/string-utils.ts": `import { normalize } from "./normalize";
+
+const SEPARATOR = "-";
+
+export class StringUtils {
+	/** スラッグに変換する */
+	static slugify(value: string): string {
+		return normalize(value).split(" ").join(SEPARATOR);
+	}
+
+	static upper(value: string) {
+		return value.toUpperCase();
+	}
+}
+`,
+				"/src/normalize.ts": `export const normalize = (value: string) => value.trim();
+`,
+				"/src/app.ts": `import { StringUtils } from "./string-utils";
+
+console.log(StringUtils.slugify("Hello World"), StringUtils.upper("a"));
+`,
+			});
+
+			const result = await move(project, {
+				targetFilePath: "/src/string-utils.ts",
+				className: "StringUtils",
+				memberName: "slugify",
+				destination: { kind: "function", filePath: "/src/text/slugify.ts" },
+			});
+
+			expect(result.kind).toBe("staticMethod");
+			expect(result.updatedReferenceCount).toBe(1);
+			expect(
+				getText(project, "/src/text/slugify.ts"),
+			).toBe(`import { normalize } from "../normalize";
+import { SEPARATOR } from "../string-utils";
+
+/** スラッグに変換する */
+export function slugify(value: string): string {
+	return normalize(value).split(" ").join(SEPARATOR);
+}
+`);
+			expect(
+				getText(project, "/src/string-utils.ts"),
+			).toBe(`export const SEPARATOR = "-";
+
+export class StringUtils {
+	static upper(value: string) {
+		return value.toUpperCase();
+	}
+}
+`);
+			expect(
+				getText(project, "/src/app.ts"),
+			).toBe(`import { StringUtils } from "./string-utils";
+import { slugify } from "./text/slugify";
+
+console.log(slugify("Hello World"), StringUtils.upper("a"));
+`);
+		});
+
+		it("static プロパティを const にし、functionName で名前を変えられる", async () => {
+			const project = setup({
+				"/src/config.ts": `export class Config {
+	static readonly defaultTimeout: number = 1000;
+}
+
+export const timeout = Config.defaultTimeout * 2;
+`,
+			});
+
+			const result = await move(project, {
+				targetFilePath: "/src/config.ts",
+				className: "Config",
+				memberName: "defaultTimeout",
+				destination: {
+					kind: "function",
+					filePath: "/src/config.ts",
+					functionName: "DEFAULT_TIMEOUT",
+				},
+			});
+
+			expect(result.kind).toBe("staticProperty");
+			expect(getText(project, "/src/config.ts")).toBe(`export class Config {
+}
+
+export const timeout = DEFAULT_TIMEOUT * 2;
+
+export const DEFAULT_TIMEOUT: number = 1000;
+`);
+		});
+
+		it("書き込まれている static プロパティは const に変換できない", async () => {
+			const project = setup({
+				"/src/counter.ts": `export class Counter {
+	static count = 0;
+}
+
+Counter.count++;
+`,
+			});
+
+			await expect(
+				move(project, {
+					targetFilePath: "/src/counter.ts",
+					className: "Counter",
+					memberName: "count",
+					destination: { kind: "function", filePath: "/src/count.ts" },
+				}),
+			).rejects.toThrow("書き込まれている");
+		});
+
+		it("this を参照する static メソッドは拒否する", async () => {
+			const project = setup({
+				"/src/math.ts": `export class MathUtils {
+	static base = 10;
+	static scale(value: number) {
+		return value * this.base;
+	}
+}
+`,
+			});
+
+			await expect(
+				move(project, {
+					targetFilePath: "/src/math.ts",
+					className: "MathUtils",
+					memberName: "scale",
+					destination: { kind: "function", filePath: "/src/scale.ts" },
+				}),
+			).rejects.toThrow("this");
+		});
+
+		it("呼び出し位置で同名のローカル変数に隠される場合は拒否する", async () => {
+			const project = setup({
+				"/src/math.ts": `export class MathUtils {
+	static double(value: number) {
+		return value * 2;
+	}
+}
+`,
+				"/src/app.ts": `import { MathUtils } from "./math";
+
+export function run(double: number) {
+	return MathUtils.double(double);
+}
+`,
+			});
+
+			await expect(
+				move(project, {
+					targetFilePath: "/src/math.ts",
+					className: "MathUtils",
+					memberName: "double",
+					destination: { kind: "function", filePath: "/src/double.ts" },
+				}),
+			).rejects.toThrow("別の宣言");
+		});
+	});
+
+	describe("static メンバーを別のクラスに移動", () => {
+		it("移動先のクラスに追加し、`Source.member` を `Dest.member` に書き換えて export と import を補う", async () => {
+			const project = setup({
+				"/src/legacy.ts": `export class Legacy {
+	static format(value: number) {
+		return value.toFixed(2);
+	}
+}
+`,
+				"/src/formatter.ts": `class Formatter {
+	static prefix = "$";
+}
+
+export const price = Formatter.prefix;
+`,
+				"/src/app.ts": `import { Legacy } from "./legacy";
+
+console.log(Legacy.format(1));
+`,
+			});
+
+			await move(project, {
+				targetFilePath: "/src/legacy.ts",
+				className: "Legacy",
+				memberName: "format",
+				destination: {
+					kind: "class",
+					filePath: "/src/formatter.ts",
+					className: "Formatter",
+				},
+			});
+
+			expect(
+				getText(project, "/src/formatter.ts"),
+			).toBe(`export class Formatter {
+	static prefix = "$";
+	static format(value: number) {
+		return value.toFixed(2);
+	}
+}
+
+export const price = Formatter.prefix;
+`);
+			expect(getText(project, "/src/legacy.ts")).toBe(`export class Legacy {
+}
+`);
+			expect(
+				getText(project, "/src/app.ts"),
+			).toBe(`import { Formatter } from "./formatter";
+
+console.log(Formatter.format(1));
+`);
+		});
+
+		it("private な static メンバーは別のクラスに移動できない", async () => {
+			const project = setup({
+				"/src/a.ts": `export class A {
+	private static helper() {
+		return 1;
+	}
+	static run() {
+		return A.helper();
+	}
+}
+
+export class B {}
+`,
+			});
+
+			await expect(
+				move(project, {
+					targetFilePath: "/src/a.ts",
+					className: "A",
+					memberName: "helper",
+					destination: { kind: "class", filePath: "/src/a.ts", className: "B" },
+				}),
+			).rejects.toThrow("private");
+		});
+
+		it("移動元クラスの private メンバーを参照する static メソッドは別のクラスに移動できない", async () => {
+			const project = setup({
+				"/src/a.ts": `export class A {
+	private static base = 1;
+	static calc(x: number) {
+		return x + A.base;
+	}
+}
+`,
+				"/src/b.ts": `export class B {}
+`,
+			});
+
+			await expect(
+				move(project, {
+					targetFilePath: "/src/a.ts",
+					className: "A",
+					memberName: "calc",
+					destination: { kind: "class", filePath: "/src/b.ts", className: "B" },
+				}),
+			).rejects.toThrow(
+				"'calc' はクラス 'A' の private / protected メンバー 'base' を参照しているため移動できません (/src/a.ts:4:16)",
+			);
+		});
+
+		it("移動先のファイルの字下げ幅で追加する", async () => {
+			const project = createInMemoryProject();
+			project.createSourceFile(
+				"/src/a.ts",
+				`export class A {
+  static calc(x: number) {
+    if (x > 0) {
+      return x;
+    }
+    return 0;
+  }
+}
+`,
+			);
+			project.createSourceFile(
+				"/src/b.ts",
+				`export class B {
+  static base = 1;
+}
+`,
+			);
+
+			await move(project, {
+				targetFilePath: "/src/a.ts",
+				className: "A",
+				memberName: "calc",
+				destination: { kind: "class", filePath: "/src/b.ts", className: "B" },
+			});
+
+			expect(getText(project, "/src/b.ts")).toBe(`export class B {
+  static base = 1;
+  static calc(x: number) {
+    if (x > 0) {
+      return x;
+    }
+    return 0;
+  }
+}
+`);
+		});
+	});
+
+	describe("インスタンスメソッドを関数に移動", () => {
+		it("レシーバを第 1 引数に渡す関数にし、`obj.method(args)` を `method(obj, args)` に書き換える", async () => {
+			const project = setup({
+				"/src/box.ts": `export class Box<T> {
+	constructor(public value: T) {}
+
+	describe(label: string): string {
+		return \`\${label}!\`;
+	}
+}
+`,
+				"/src/app.ts": `import { Box } from "./box";
+
+const box = new Box(1);
+console.log(box.describe("a"), new Box("x").describe(box.describe("b")));
+`,
+			});
+
+			const result = await move(project, {
+				targetFilePath: "/src/box.ts",
+				className: "Box",
+				memberName: "describe",
+				destination: { kind: "function", filePath: "/src/describe-box.ts" },
+			});
+
+			expect(result.kind).toBe("instanceMethod");
+			expect(result.updatedReferenceCount).toBe(3);
+			expect(
+				getText(project, "/src/describe-box.ts"),
+			).toBe(`import { Box } from "./box";
+
+export function describe<T>(box: Box<T>, label: string): string {
+	return \`\${label}!\`;
+}
+`);
+			expect(getText(project, "/src/app.ts")).toBe(`import { Box } from "./box";
+import { describe } from "./describe-box";
+
+const box = new Box(1);
+console.log(describe(box, "a"), describe(new Box("x"), describe(box, "b")));
+`);
+		});
+
+		it("this を使うインスタンスメソッドは拒否する", async () => {
+			const project = setup({
+				"/src/user.ts": `export class User {
+	name = "a";
+	greet() {
+		return "hi " + this.name;
+	}
+}
+`,
+			});
+
+			await expect(
+				move(project, {
+					targetFilePath: "/src/user.ts",
+					className: "User",
+					memberName: "greet",
+					destination: { kind: "function", filePath: "/src/greet.ts" },
+				}),
+			).rejects.toThrow("this");
+		});
+
+		it("移動元クラスの protected メンバーを参照するメソッドは関数に移動できない", async () => {
+			const project = setup({
+				"/src/user.ts": `export class User {
+	protected static prefix = "hi ";
+	greet(name: string) {
+		return User.prefix + name;
+	}
+}
+`,
+			});
+
+			await expect(
+				move(project, {
+					targetFilePath: "/src/user.ts",
+					className: "User",
+					memberName: "greet",
+					destination: { kind: "function", filePath: "/src/greet.ts" },
+				}),
+			).rejects.toThrow(
+				"'greet' はクラス 'User' の private / protected メンバー 'prefix' を参照しているため移動できません (/src/user.ts:4:15)",
+			);
+		});
+
+		it("オーバーライドされているメソッドは拒否する", async () => {
+			const project = setup({
+				"/src/shape.ts": `export class Shape {
+	label() {
+		return "shape";
+	}
+}
+
+export class Circle extends Shape {
+	label() {
+		return "circle";
+	}
+}
+`,
+			});
+
+			await expect(
+				move(project, {
+					targetFilePath: "/src/shape.ts",
+					className: "Shape",
+					memberName: "label",
+					destination: { kind: "function", filePath: "/src/label.ts" },
+				}),
+			).rejects.toThrow("他の宣言");
+		});
+
+		it("呼び出し以外で参照されているメソッドは拒否する", async () => {
+			const project = setup({
+				"/src/item.ts": `export class Item {
+	show() {
+		return "item";
+	}
+}
+
+export const fn = new Item().show;
+`,
+			});
+
+			await expect(
+				move(project, {
+					targetFilePath: "/src/item.ts",
+					className: "Item",
+					memberName: "show",
+					destination: { kind: "function", filePath: "/src/show.ts" },
+				}),
+			).rejects.toThrow("呼び出し以外");
+		});
+	});
+});
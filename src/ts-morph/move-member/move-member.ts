@@ -0,0 +1,478 @@
+import {
+	type ClassDeclaration,
+	type MethodDeclaration,
+	Node,
+	type Project,
+	type PropertyDeclaration,
+	type SourceFile,
+	SyntaxKind,
+} from "ts-morph";
+import logger from "../../utils/logger";
+import { calculateRelativePath } from "../_utils/calculate-relative-path";
+import { getDedentedText, type TextEdit } from "../_utils/dedent-text";
+import { collectFileDiffs } from "../_utils/file-diff";
+import {
+	detectIndentationText,
+	withFileIndentation,
+} from "../_utils/indentation";
+import { getProject } from "../_utils/project-registry";
+import {
+	getChangedFiles,
+	saveProjectChanges,
+} from "../_utils/ts-morph-project";
+import {
+	prepareJournalEntry,
+	writeJournalEntry,
+} from "../refactor-journal/refactor-journal";
+import { findMemberToMove, type MemberToMove } from "./find-member";
+import { planDependencyImports } from "./member-dependencies";
+import {
+	planReferenceEdits,
+	type ReferenceTarget,
+} from "./plan-reference-edits";
+import type {
+	MoveMemberParams,
+	MoveMemberResult,
+	RequiredImport,
+} from "./types";
+
+/** インスタンスメソッドを関数にするときに追加する、レシーバを受け取る第 1 引数 */
+interface ReceiverParameter {
+	name: string;
+	typeText: string;
+	/** クラスの型パラメータ (関数の型パラメータの先頭に加える) */
+	typeParameters: string[];
+}
+
+/**
+ * static メソッド・プロパティを別のクラスやトップレベルの関数に、
+ * this を使わないインスタンスメソッドをレシーバを第 1 引数に取る関数に移動し、参照箇所を書き換える。
+ *
+ * tsconfigPath からプロジェクトを取得して `moveMemberOnProject` に委譲する。
+ */
+export async function moveMember(
+	params: MoveMemberParams,
+): Promise<MoveMemberResult> {
+	const project = getProject(params.tsconfigPath);
+	return moveMemberOnProject(project, params);
+}
+
+function findDestinationClass(
+	project: Project,
+	filePath: string,
+	className: string,
+	memberToMove: MemberToMove,
+): ClassDeclaration {
+	const classDeclaration = project.getSourceFile(filePath)?.getClass(className);
+	if (!classDeclaration) {
+		throw new Error(
+			`移動先のクラス '${className}' が見つかりません: ${filePath}`,
+		);
+	}
+	if (classDeclaration === memberToMove.classDeclaration) {
+		throw new Error("移動元と移動先が同じクラスです");
+	}
+	const memberName = memberToMove.member.getName();
+	if (classDeclaration.getStaticMember(memberName)) {
+		throw new Error(
+			`移動先のクラス '${className}' にはすでに static メンバー '${memberName}' があります`,
+		);
+	}
+	return classDeclaration;
+}
+
+function planReceiverParameter(
+	{ classDeclaration, member }: MemberToMove,
+	receiverParameterName: string | undefined,
+): ReceiverParameter {
+	const className = classDeclaration.getNameOrThrow();
+	const name =
+		receiverParameterName ??
+		`${className.charAt(0).toLowerCase()}${className.slice(1)}`;
+	const conflict = member
+		.getDescendantsOfKind(SyntaxKind.Identifier)
+		.find((identifier) => identifier.getText() === name);
+	if (conflict) {
+		throw new Error(
+			`メソッド内で '${name}' という名前が使われているため、レシーバの引数名に使えません。receiverParameterName で別の名前を指定してください`,
+		);
+	}
+	const typeParameters = classDeclaration.getTypeParameters();
+	return {
+		name,
+		typeText:
+			typeParameters.length > 0
+				? `${className}<${typeParameters.map((tp) => tp.getName()).join(", ")}>`
+				: className,
+		typeParameters: typeParameters.map((tp) => tp.getText()),
+	};
+}
+
+/**
+ * ファイルにテキスト編集をまとめて適用する。同じ位置への挿入は計画した順に並べる。
+ */
+function applyTextEdits(sourceFile: SourceFile, edits: TextEdit[]): void {
+	let text = sourceFile.getFullText();
+	const sorted = edits
+		.map((edit, index) => ({ edit, index }))
+		.sort((a, b) => b.edit.start - a.edit.start || b.index - a.index);
+	for (const { edit } of sorted) {
+		text = text.slice(0, edit.start) + edit.text + text.slice(edit.end);
+	}
+	sourceFile.replaceText([0, sourceFile.getEnd()], text);
+}
+
+function findMemberByName(
+	classDeclaration: ClassDeclaration,
+	memberName: string,
+): MethodDeclaration | PropertyDeclaration {
+	const member = classDeclaration
+		.getMembers()
+		.find(
+			(m): m is MethodDeclaration | PropertyDeclaration =>
+				(Node.isMethodDeclaration(m) || Node.isPropertyDeclaration(m)) &&
+				m.getName() === memberName,
+		);
+	if (!member) {
+		throw new Error(`メンバー '${memberName}' を再取得できませんでした`);
+	}
+	return member;
+}
+
+/**
+ * メンバーをトップレベルの export された関数 (static プロパティは const) のテキストに変換する。
+ */
+function buildFunctionText(
+	member: MethodDeclaration | PropertyDeclaration,
+	functionName: string,
+	receiver: ReceiverParameter | undefined,
+): string {
+	const sourceFile = member.getSourceFile();
+	const dedent = (node: Node) =>
+		getDedentedText(sourceFile, node.getStart(), node.getEnd());
+	const docs = member
+		.getJsDocs()
+		.map((doc) => `${dedent(doc)}\n`)
+		.join("");
+
+	if (Node.isPropertyDeclaration(member)) {
+		const typeNode = member.getTypeNode();
+		return `${docs}export const ${functionName}${
+			typeNode ? `: ${dedent(typeNode)}` : ""
+		} = ${dedent(member.getInitializerOrThrow())};`;
+	}
+
+	const typeParameters = [
+		...(receiver?.typeParameters ?? []),
+		...member.getTypeParameters().map((tp) => tp.getText()),
+	];
+	const parameters = [
+		...(receiver ? [`${receiver.name}: ${receiver.typeText}`] : []),
+		...member.getParameters().map(dedent),
+	];
+	const returnType = member.getReturnTypeNode();
+	return `${docs}export ${member.isAsync() ? "async " : ""}function${
+		member.isGenerator() ? "*" : ""
+	} ${functionName}${
+		typeParameters.length > 0 ? `<${typeParameters.join(", ")}>` : ""
+	}(${parameters.join(", ")})${returnType ? `: ${dedent(returnType)}` : ""} ${dedent(
+		member.getBodyOrThrow(),
+	)}`;
+}
+
+/**
+ * 必要な import を追加する。同じモジュールへの既存の import があればまとめる。
+ */
+function addRequiredImport(
+	sourceFile: SourceFile,
+	required: RequiredImport,
+): void {
+	const { moduleSpecifier, kind, name, alias, isTypeOnly } = required;
+	if (kind === "namespace") {
+		sourceFile.addImportDeclaration({
+			moduleSpecifier,
+			namespaceImport: alias,
+			isTypeOnly,
+		});
+		return;
+	}
+	const existing = sourceFile.getImportDeclaration(
+		(decl) =>
+			decl.getModuleSpecifierValue() === moduleSpecifier &&
+			decl.isTypeOnly() === isTypeOnly &&
+			!decl.getNamespaceImport() &&
+			!(kind === "default" && decl.getDefaultImport()),
+	);
+	if (kind === "default") {
+		if (existing) {
+			existing.setDefaultImport(alias);
+		} else {
+			sourceFile.addImportDeclaration({
+				moduleSpecifier,
+				defaultImport: alias,
+				isTypeOnly,
+			});
+		}
+		return;
+	}
+	const specifier = {
+		name: name ?? alias,
+		alias: name === undefined || name === alias ? undefined : alias,
+	};
+	if (existing) {
+		existing.addNamedImport(specifier);
+	} else {
+		sourceFile.addImportDeclaration({
+			moduleSpecifier,
+			namedImports: [specifier],
+			isTypeOnly,
+		});
+	}
+}
+
+/**
+ * メンバーの移動や参照の書き換えで使われなくなった import 指定子を削除する。
+ */
+function removeUnusedImports(sourceFile: SourceFile, aliases: string[]): void {
+	for (const alias of aliases) {
+		for (const declaration of sourceFile.getImportDeclarations()) {
+			const nameNodes = [
+				...declaration
+					.getNamedImports()
+					.map((s) => s.getAliasNode() ?? s.getNameNode()),
+				declaration.getDefaultImport(),
+				declaration.getNamespaceImport(),
+			];
+			const nameNode = nameNodes.find((n) => n?.getText() === alias);
+			if (!nameNode || !Node.isIdentifier(nameNode)) continue;
+			const isUsed = nameNode
+				.findReferencesAsNodes()
+				.some((ref) => ref !== nameNode && ref.getSourceFile() === sourceFile);
+			if (isUsed) continue;
+
+			const specifier = nameNode.getParent();
+			if (Node.isImportSpecifier(specifier)) {
+				specifier.remove();
+			} else if (declaration.getDefaultImport() === nameNode) {
+				declaration.removeDefaultImport();
+			} else {
+				declaration.removeNamespaceImport();
+			}
+			if (
+				declaration.getNamedImports().length === 0 &&
+				!declaration.getDefaultImport() &&
+				!declaration.getNamespaceImport()
+			) {
+				declaration.remove();
+			}
+		}
+	}
+}
+
+/**
+ * 既存の Project に対してメンバーの移動を適用する内部 API。
+ */
+export async function moveMemberOnProject(
+	project: Project,
+	{
+		targetFilePath,
+		className,
+		memberName,
+		destination,
+		receiverParameterName,
+		dryRun = false,
+		includeDiff = false,
+	}: Omit<MoveMemberParams, "tsconfigPath">,
+): Promise<MoveMemberResult> {
+	logger.debug(
+		{ targetFilePath, className, memberName, destination },
+		"moveMember 開始",
+	);
+
+	// --- Phase 1: 計画フェーズ (全箇所を検証し終えるまで project には手を付けない) ---
+	const memberToMove = findMemberToMove(
+		project,
+		targetFilePath,
+		className,
+		memberName,
+		destination,
+	);
+	const { classDeclaration, member, kind } = memberToMove;
+	const sourceFile = member.getSourceFile();
+	const destinationPath = destination.filePath;
+	const destinationFile = project.getSourceFile(destinationPath);
+
+	let target: ReferenceTarget;
+	if (destination.kind === "class") {
+		const destinationClass = findDestinationClass(
+			project,
+			destinationPath,
+			destination.className,
+			memberToMove,
+		);
+		target = {
+			name: destination.className,
+			memberName,
+			destinationFile,
+			destinationClass,
+		};
+	} else {
+		const functionName = destination.functionName ?? memberName;
+		if (
+			destinationFile?.getLocals().some((s) => s.getName() === functionName)
+		) {
+			throw new Error(
+				`移動先 ${destinationPath} にはすでに '${functionName}' という名前の宣言があります`,
+			);
+		}
+		target = { name: functionName, destinationFile };
+	}
+	const receiver =
+		kind === "instanceMethod"
+			? planReceiverParameter(memberToMove, receiverParameterName)
+			: undefined;
+
+	const referencePlan = planReferenceEdits(memberToMove, target);
+	const editsInMember = (
+		referencePlan.editsByFile.get(sourceFile) ?? []
+	).filter(
+		(edit) => edit.start >= member.getStart() && edit.end <= member.getEnd(),
+	);
+	const dependencyPlan = planDependencyImports(
+		member,
+		destinationFile,
+		destinationPath,
+		editsInMember,
+		receiver ? [{ statement: classDeclaration, name: className }] : [],
+	);
+
+	const addEdit = (file: SourceFile, edit: TextEdit) => {
+		const edits = referencePlan.editsByFile.get(file) ?? [];
+		edits.push(edit);
+		referencePlan.editsByFile.set(file, edits);
+	};
+	for (const statement of dependencyPlan.statementsToExport) {
+		addEdit(sourceFile, {
+			start: statement.getStart(),
+			end: statement.getStart(),
+			text: "export ",
+		});
+	}
+	const destinationClass = target.destinationClass;
+	if (
+		destinationClass &&
+		referencePlan.filesNeedingImport.length > 0 &&
+		!destinationClass.isExported()
+	) {
+		addEdit(destinationClass.getSourceFile(), {
+			start: destinationClass.getStart(),
+			end: destinationClass.getStart(),
+			text: "export ",
+		});
+	}
+	const importForReferences = {
+		kind:
+			destinationClass?.isDefaultExport() === true
+				? ("default" as const)
+				: ("named" as const),
+		name: target.name,
+	};
+	const removedImportAliases = dependencyPlan.imports.map((i) => i.alias);
+	logger.debug(
+		{
+			kind,
+			referenceCount: referencePlan.referenceCount,
+			importCount: dependencyPlan.imports.length,
+		},
+		"moveMember の計画完了",
+	);
+
+	// --- Phase 2: 適用フェーズ ---
+	// テキスト編集で既存のノードは無効になるため、以降はクラスやメンバーを名前で取り直す
+	for (const [file, edits] of referencePlan.editsByFile) {
+		applyTextEdits(file, edits);
+	}
+
+	const updatedMember = findMemberByName(
+		sourceFile.getClassOrThrow(className),
+		memberName,
+	);
+	const movedText =
+		destination.kind === "class"
+			? getDedentedText(
+					sourceFile,
+					updatedMember.getStart(true),
+					updatedMember.getEnd(),
+				)
+			: buildFunctionText(updatedMember, target.name, receiver);
+	updatedMember.remove();
+	removeUnusedImports(sourceFile, removedImportAliases);
+	for (const [file, names] of referencePlan.removedReceiverNames) {
+		removeUnusedImports(file, [...names]);
+	}
+
+	const targetFile =
+		project.getSourceFile(destinationPath) ??
+		project.createSourceFile(destinationPath, "");
+	// 移動先の字下げに揃える (新しく作るファイルは移動元の字下げに揃える)
+	withFileIndentation(
+		detectIndentationText(targetFile) ? targetFile : sourceFile,
+		() => {
+			if (destination.kind === "class") {
+				targetFile.getClassOrThrow(destination.className).addMember(movedText);
+			} else {
+				targetFile.addStatements(
+					targetFile.getStatements().length > 0 ? `\n${movedText}` : movedText,
+				);
+			}
+		},
+	);
+
+	for (const required of dependencyPlan.imports) {
+		addRequiredImport(targetFile, required);
+	}
+	for (const file of referencePlan.filesNeedingImport) {
+		addRequiredImport(file, {
+			moduleSpecifier: calculateRelativePath(
+				file.getFilePath(),
+				destinationPath,
+				{ removeExtensions: true, simplifyIndex: true },
+			),
+			kind: importForReferences.kind,
+			name:
+				importForReferences.kind === "named"
+					? importForReferences.name
+					: undefined,
+			alias: importForReferences.name,
+			isTypeOnly: false,
+		});
+	}
+
+	const changedSourceFiles = getChangedFiles(project);
+	const changedFiles = changedSourceFiles.map((sf) => sf.getFilePath());
+	const diffs = includeDiff
+		? collectFileDiffs(project, changedSourceFiles)
+		: undefined;
+
+	if (!dryRun) {
+		const journal = prepareJournalEntry(project, { operation: "moveMember" });
+		await saveProjectChanges(project);
+		writeJournalEntry(journal);
+		logger.info(
+			{
+				className,
+				memberName,
+				kind,
+				referenceCount: referencePlan.referenceCount,
+			},
+			"moveMember 保存完了",
+		);
+	}
+
+	return {
+		kind,
+		updatedReferenceCount: referencePlan.referenceCount,
+		changedFiles,
+		diffs,
+	};
+}
@@ -0,0 +1,223 @@
+import {
+	type ClassDeclaration,
+	Node,
+	type SourceFile,
+	SymbolFlags,
+	SyntaxKind,
+} from "ts-morph";
+import type { TextEdit } from "../_utils/dedent-text";
+import { formatLocation, type MemberToMove } from "./find-member";
+
+export interface ReferenceEditPlan {
+	/** ファイルごとのテキスト編集 (移動するメンバー内の参照も含む) */
+	editsByFile: Map<SourceFile, TextEdit[]>;
+	/** 移動先の名前 (クラス名または関数名) を import する必要があるファイル */
+	filesNeedingImport: SourceFile[];
+	/** static メンバーの参照の書き換えで消えるレシーバの名前 (使われなくなった import の削除に使う) */
+	removedReceiverNames: Map<SourceFile, Set<string>>;
+	referenceCount: number;
+}
+
+/** 参照の書き換え後に使う名前と、その名前が指すべき宣言 */
+export interface ReferenceTarget {
+	/** 参照元に書く名前 (移動先のクラス名または関数名) */
+	name: string;
+	/** `Dest.member` のように書く場合のメンバー名 */
+	memberName?: string;
+	destinationFile: SourceFile | undefined;
+	/** 移動先のクラス (クラスへの移動のとき) */
+	destinationClass?: ClassDeclaration;
+}
+
+function isSideEffectFreeReceiver(node: Node): boolean {
+	if (Node.isIdentifier(node) || node.getKind() === SyntaxKind.ThisKeyword) {
+		return true;
+	}
+	return (
+		Node.isPropertyAccessExpression(node) &&
+		!node.hasQuestionDotToken() &&
+		isSideEffectFreeReceiver(node.getExpression())
+	);
+}
+
+function isWriteAccess(access: Node): boolean {
+	const parent = access.getParent();
+	if (Node.isBinaryExpression(parent)) {
+		const operator = parent.getOperatorToken().getKind();
+		return (
+			parent.getLeft() === access &&
+			operator >= SyntaxKind.FirstAssignment &&
+			operator <= SyntaxKind.LastAssignment
+		);
+	}
+	return (
+		(Node.isPrefixUnaryExpression(parent) ||
+			Node.isPostfixUnaryExpression(parent)) &&
+		(parent.getOperatorToken() === SyntaxKind.PlusPlusToken ||
+			parent.getOperatorToken() === SyntaxKind.MinusMinusToken)
+	);
+}
+
+/**
+ * site で target.name を書いたときに、移動先の宣言以外に解決されてしまうか確認する。
+ * 同じファイル内の宣言 (ローカル変数や import) だけを見る。グローバルはモジュールの import で隠れるため問題にならない。
+ * 移動先の宣言をすでに参照している場合は true を返す。
+ */
+function resolvesToDestination(site: Node, target: ReferenceTarget): boolean {
+	const sourceFile = site.getSourceFile();
+	const symbol = site
+		.getSymbolsInScope(SymbolFlags.Value | SymbolFlags.Alias)
+		.find(
+			(s) =>
+				s.getName() === target.name &&
+				s.getDeclarations().some((d) => d.getSourceFile() === sourceFile),
+		);
+	if (!symbol) {
+		return false;
+	}
+	const resolved = symbol.isAlias() ? symbol.getAliasedSymbol() : symbol;
+	const destinationSymbol = target.destinationClass?.getSymbol();
+	if (destinationSymbol && resolved === destinationSymbol) {
+		return true;
+	}
+	throw new Error(
+		`${formatLocation(site)} では '${target.name}' が別の宣言を指しているため、参照を書き換えられません`,
+	);
+}
+
+/**
+ * 移動するメンバーの参照をすべて検証し、移動先を指すように書き換えるテキスト編集を計画する。
+ * - static メンバー: `Source.member` を `Dest.member` または `member` (関数) に置き換える
+ * - インスタンスメソッド: `receiver.method(args)` を `method(receiver, args)` に置き換える
+ */
+export function planReferenceEdits(
+	{ member, kind }: MemberToMove,
+	target: ReferenceTarget,
+): ReferenceEditPlan {
+	const nameNode = member.getNameNode();
+	if (!Node.isIdentifier(nameNode)) {
+		throw new Error("識別子の名前を持たないメンバーは移動できません");
+	}
+	const memberName = member.getName();
+	const memberSourceFile = member.getSourceFile();
+	const editsByFile = new Map<SourceFile, TextEdit[]>();
+	const filesNeedingImport = new Set<SourceFile>();
+	const removedReceiverNames = new Map<SourceFile, Set<string>>();
+	let referenceCount = 0;
+
+	const references = nameNode
+		.findReferencesAsNodes()
+		.filter((ref) => ref !== nameNode);
+
+	for (const reference of references) {
+		const location = formatLocation(reference);
+		const access = reference.getParent();
+		if (
+			!Node.isPropertyAccessExpression(access) ||
+			access.getNameNode() !== reference
+		) {
+			const isOtherDeclaration =
+				Node.isMethodDeclaration(access) ||
+				Node.isPropertyDeclaration(access) ||
+				Node.isMethodSignature(access) ||
+				Node.isPropertySignature(access) ||
+				Node.isPropertyAssignment(access) ||
+				Node.isShorthandPropertyAssignment(access);
+			throw new Error(
+				isOtherDeclaration
+					? `'${memberName}' は他の宣言 (${location}) と関連付けられている (オーバーライドやインターフェースの実装など) ため移動できません`
+					: `'${memberName}' の参照 (${location}) はプロパティアクセス以外の形のため書き換えられません`,
+			);
+		}
+		if (access.hasQuestionDotToken()) {
+			throw new Error(
+				`'${memberName}' のオプショナルチェーンによる参照 (${location}) は書き換えられません`,
+			);
+		}
+
+		const sourceFile = reference.getSourceFile();
+		const edits = editsByFile.get(sourceFile) ?? [];
+		editsByFile.set(sourceFile, edits);
+		const receiver = access.getExpression();
+
+		if (kind === "instanceMethod") {
+			const call = access.getParent();
+			if (!Node.isCallExpression(call) || call.getExpression() !== access) {
+				throw new Error(
+					`'${memberName}' の呼び出し以外での参照 (${location}) は関数に書き換えられません`,
+				);
+			}
+			if (receiver.getKind() === SyntaxKind.SuperKeyword) {
+				throw new Error(
+					`super を通した '${memberName}' の呼び出し (${location}) は書き換えられません`,
+				);
+			}
+			const openParen = call.getFirstChildByKindOrThrow(
+				SyntaxKind.OpenParenToken,
+			);
+			const typeArguments = call.getTypeArguments();
+			const typeArgumentsText =
+				typeArguments.length > 0
+					? `<${typeArguments.map((t) => t.getText()).join(", ")}>`
+					: "";
+			edits.push(
+				{
+					start: receiver.getStart(),
+					end: receiver.getStart(),
+					text: `${target.name}${typeArgumentsText}(`,
+				},
+				{
+					start: receiver.getEnd(),
+					end: openParen.getEnd(),
+					text: call.getArguments().length > 0 ? ", " : "",
+				},
+			);
+		} else {
+			if (!isSideEffectFreeReceiver(receiver)) {
+				throw new Error(
+					`'${memberName}' の参照 (${location}) のレシーバ '${receiver.getText()}' を書き換えると評価が省かれるため移動できません`,
+				);
+			}
+			if (target.memberName === undefined && isWriteAccess(access)) {
+				throw new Error(
+					`static プロパティ '${memberName}' は ${location} で書き込まれているため const に変換できません`,
+				);
+			}
+			if (Node.isIdentifier(receiver)) {
+				const names = removedReceiverNames.get(sourceFile) ?? new Set();
+				names.add(receiver.getText());
+				removedReceiverNames.set(sourceFile, names);
+			}
+			edits.push({
+				start: access.getStart(),
+				end: access.getEnd(),
+				text: target.memberName
+					? `${target.name}.${target.memberName}`
+					: target.name,
+			});
+		}
+		referenceCount++;
+
+		// 移動するメンバー自身の中の参照 (再帰呼び出しなど) は移動先に入るので import は不要
+		const isInsideMember =
+			sourceFile === memberSourceFile &&
+			reference.getStart() >= member.getStart() &&
+			reference.getEnd() <= member.getEnd();
+		if (isInsideMember) {
+			continue;
+		}
+		if (
+			!resolvesToDestination(reference, target) &&
+			sourceFile !== target.destinationFile
+		) {
+			filesNeedingImport.add(sourceFile);
+		}
+	}
+
+	return {
+		editsByFile,
+		filesNeedingImport: [...filesNeedingImport],
+		removedReceiverNames,
+		referenceCount,
+	};
+}
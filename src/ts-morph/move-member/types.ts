@@ -0,0 +1,62 @@
+import type { FileDiff } from "../_utils/file-diff";
+
+/**
+ * メンバーの移動先。
+ * - class: 既存のクラスの static メンバーとして追加する (static メンバーのみ)
+ * - function: トップレベルの export された関数 (static プロパティは const) として追加する。ファイルがなければ作成する
+ */
+export type MoveMemberDestination =
+	| { kind: "class"; filePath: string; className: string }
+	| {
+			kind: "function";
+			filePath: string;
+			/** 関数 (const) の名前。省略時はメンバー名 */
+			functionName?: string;
+	  };
+
+export interface MoveMemberParams {
+	tsconfigPath: string;
+	/** 移動元のクラスを含むファイル */
+	targetFilePath: string;
+	className: string;
+	memberName: string;
+	destination: MoveMemberDestination;
+	/**
+	 * インスタンスメソッドを関数にするときに、レシーバを受け取る第 1 引数の名前。
+	 * 省略時はクラス名の先頭を小文字にした名前
+	 */
+	receiverParameterName?: string;
+	dryRun?: boolean;
+	/** true の場合、保存前の in-memory の内容とディスクとの unified diff を返す */
+	includeDiff?: boolean;
+}
+
+/** 移動するメンバーの種類 */
+export type MovedMemberKind =
+	| "staticMethod"
+	| "staticProperty"
+	| "instanceMethod";
+
+export interface MoveMemberResult {
+	kind: MovedMemberKind;
+	/** 書き換えた参照箇所 (呼び出し・プロパティアクセス) の数 */
+	updatedReferenceCount: number;
+	changedFiles: string[];
+	/** `includeDiff: true` のときのみ設定される */
+	diffs?: FileDiff[];
+}
+
+/**
+ * 移動先のファイルに追加する import。
+ * 移動したメンバーが移動元ファイルで参照していた import や宣言を、移動先からも参照できるようにする。
+ */
+export interface RequiredImport {
+	moduleSpecifier: string;
+	/** named: `{ name as alias }` / default: `import alias from` / namespace: `import * as alias from` */
+	kind: "named" | "default" | "namespace";
+	/** named の場合のエクスポート名 */
+	name?: string;
+	/** 移動先ファイルでのローカル名 */
+	alias: string;
+	isTypeOnly: boolean;
+}
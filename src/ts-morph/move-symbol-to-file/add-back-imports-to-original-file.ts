@@ -1,8 +1,27 @@
-import type { SourceFile, Statement } from "ts-morph";
+import {
+	type Identifier,
+	Node,
+	type SourceFile,
+	type Statement,
+} from "ts-morph";
 import { calculateRelativePath } from "../_utils/calculate-relative-path";
 import logger from "../../utils/logger";
 import { getDeclarationIdentifier } from "./get-declaration-identifier";
 
+/**
+ * 宣言が導入する名前の Identifier。`const a = 1, b = 2;` のような VariableStatement はすべての宣言子を返す。
+ */
+function getDeclaredIdentifiers(declaration: Statement): Identifier[] {
+	if (Node.isVariableStatement(declaration)) {
+		return declaration
+			.getDeclarations()
+			.map((decl) => decl.getNameNode())
+			.filter(Node.isIdentifier);
+	}
+	const identifier = getDeclarationIdentifier(declaration);
+	return identifier ? [identifier] : [];
+}
+
 /**
  * 移動対象として削除される宣言のうち、移動元ファイルに残るコードから
  * まだ参照されているシンボル名を収集する。
@@ -24,11 +43,9 @@ export function collectSymbolsNeedingBackImport(
 	);
 
 	const names: string[] = [];
-	for (const declaration of declarationsToRemove) {
-		const identifier = getDeclarationIdentifier(declaration);
-		if (!identifier) {
-			continue;
-		}
+	for (const identifier of declarationsToRemove.flatMap(
+		getDeclaredIdentifiers,
+	)) {
 		const name = identifier.getText();
 
 		const referencedByRemainingCode = identifier
@@ -55,6 +72,7 @@ export function collectSymbolsNeedingBackImport(
 /**
  * 移動元ファイルに、移動先ファイルから指定シンボルを import する宣言を追加する。
  * 同一モジュールへの既存 import があればマージする。
+ * 移動先でデフォルトエクスポートになるシンボルは defaultName に指定し、デフォルトインポートにする。
  *
  * ts-morph の `fixMissingImports()` は language service 経由の text 置換で
  * AST 不整合 ("children ... same count") を起こすことがあるため、
@@ -64,8 +82,9 @@ export function addBackImportsToOriginalFile(
 	originalSourceFile: SourceFile,
 	newFilePath: string,
 	names: string[],
+	defaultName?: string,
 ): void {
-	if (names.length === 0) {
+	if (names.length === 0 && !defaultName) {
 		return;
 	}
 
@@ -79,7 +98,10 @@ export function addBackImportsToOriginalFile(
 		(decl) => decl.getModuleSpecifierValue() === moduleSpecifier,
 	);
 
-	if (existing) {
+	if (existing && !(defaultName && existing.getDefaultImport())) {
+		if (defaultName) {
+			existing.setDefaultImport(defaultName);
+		}
 		const existingNames = new Set(
 			existing.getNamedImports().map((spec) => spec.getNameNode().getText()),
 		);
@@ -91,12 +113,18 @@ export function addBackImportsToOriginalFile(
 	} else {
 		originalSourceFile.addImportDeclaration({
 			moduleSpecifier,
-			namedImports: names,
+			defaultImport: defaultName,
+			namedImports: names.length > 0 ? names : undefined,
 		});
 	}
 
 	logger.debug(
-		{ names, moduleSpecifier, file: originalSourceFile.getFilePath() },
+		{
+			names,
+			defaultName,
+			moduleSpecifier,
+			file: originalSourceFile.getFilePath(),
+		},
 		"移動元ファイルに逆向き import を追加。",
 	);
 }
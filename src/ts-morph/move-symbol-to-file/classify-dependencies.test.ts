@@ -167,4 +167,31 @@ describe("classifyDependencies", () => {
 		);
 		expect(classified).toHaveLength(3);
 	});
+
+	it("複数の移動対象から共有される依存は、すべての参照が移動対象内なら moveToNewFile に分類される", () => {
+		const project = createInMemoryProject();
+		const sourceFile = project.createSourceFile(
+			"/src/module.ts",
+			`
+				function sharedUtil() { return 'C'; }
+				export const main = () => sharedUtil();
+				export const another = () => sharedUtil();
+			`,
+		);
+		const targets = [
+			getStatement(sourceFile, "main", SyntaxKind.VariableStatement),
+			getStatement(sourceFile, "another", SyntaxKind.VariableStatement),
+		] as Statement[];
+		const sharedUtilDep = getStatement(
+			sourceFile,
+			"sharedUtil",
+			SyntaxKind.FunctionDeclaration,
+		);
+
+		expect(
+			classifyDependencies(targets, getInternalDependencies(targets[0])),
+		).toEqual<DependencyClassification[]>([
+			{ type: "moveToNewFile", statement: sharedUtilDep },
+		]);
+	});
 });
@@ -4,56 +4,90 @@ import logger from "../../utils/logger";
 import { getDeclarationIdentifier } from "./get-declaration-identifier";
 
 /**
- * 指定された Identifier ノードへの参照を検索し、
- * targetDeclaration の外部 (ただし同じソースファイル内) で参照されているかを確認します。
+ * 依存関係のうち、移動対象と一緒に新しいファイルへ移せるもの (export されておらず、
+ * 同じファイル内では移動対象か、一緒に移る他の依存からしか参照されないもの) を求める。
  *
- * @param targetDeclaration 参照のコンテキストとなる移動対象の宣言。
- * @param dependencyIdentifier 参照を検索する依存関係の Identifier。
- * @returns 外部で参照されていれば true、そうでなければ false。
+ * 「一緒に移る」かどうかは互いに依存するため、移せない依存を取り除く操作を変化がなくなるまで繰り返す。
  */
-function checkIfReferencedOutsideTarget(
-	targetDeclaration: Statement,
-	dependencyIdentifier: Identifier,
-): boolean {
-	const sourceFile = targetDeclaration.getSourceFile();
-	const references =
-		dependencyIdentifier.findReferencesAsNodes() as Identifier[];
-	for (const refNode of references) {
-		if (refNode.getSourceFile() !== sourceFile) continue;
+function findMovableDependencies(
+	targetDeclarations: Statement[],
+	candidates: { statement: Statement; nameNode: Identifier }[],
+): Set<Statement> {
+	const sourceFile = targetDeclarations[0].getSourceFile();
+	const referencesByStatement = new Map(
+		candidates.map(({ statement, nameNode }) => [
+			statement,
+			nameNode
+				.findReferencesAsNodes()
+				.filter((ref) => ref.getSourceFile() === sourceFile),
+		]),
+	);
 
-		const isInsideTarget = refNode.getAncestors().includes(targetDeclaration);
-		if (!isInsideTarget) {
-			return true;
+	const movable = new Set(candidates.map(({ statement }) => statement));
+	const isInsideMovingCode = (ref: Node) =>
+		ref
+			.getAncestors()
+			.some(
+				(ancestor) =>
+					targetDeclarations.includes(ancestor as Statement) ||
+					movable.has(ancestor as Statement),
+			);
+
+	let changed = true;
+	while (changed) {
+		changed = false;
+		for (const statement of [...movable]) {
+			const references = referencesByStatement.get(statement) ?? [];
+			if (!references.every(isInsideMovingCode)) {
+				movable.delete(statement);
+				changed = true;
+			}
 		}
 	}
-	return false;
+	return movable;
 }
 
 /**
  * 移動対象シンボル (targetDeclaration) が依存する内部シンボル (internalDependencies) を分類する。
+ * 複数のシンボルをまとめて移動する場合は、移動対象をすべて渡す。
+ * 移動対象同士で共有している private な依存は、1 度だけ新しいファイルへ移る。
  *
- * @param targetDeclaration 移動対象シンボルの宣言ステートメント
- * @param internalDependencies targetDeclaration が依存する内部シンボルのステートメント配列
+ * @param targetDeclaration 移動対象シンボルの宣言ステートメント (複数可)
+ * @param internalDependencies 移動対象が依存する内部シンボルのステートメント配列
  * @returns 分類結果の配列
  */
 export function classifyDependencies(
-	targetDeclaration: Statement,
+	targetDeclaration: Statement | Statement[],
 	internalDependencies: Statement[],
 ): DependencyClassification[] {
-	const sourceFile = targetDeclaration.getSourceFile();
+	const targetDeclarations = Array.isArray(targetDeclaration)
+		? targetDeclaration
+		: [targetDeclaration];
 	const classifications: DependencyClassification[] = [];
 
+	const namedDependencies: { statement: Statement; nameNode: Identifier }[] =
+		[];
 	for (const dep of internalDependencies) {
 		const nameNode = getDeclarationIdentifier(dep);
-		const depName = nameNode?.getText();
-
-		if (!nameNode || !depName) {
+		if (!nameNode || !nameNode.getText()) {
 			logger.warn(
 				`Could not find identifier node or name for dependency: ${dep.getKindName()} starting with '${dep.getText().substring(0, 20)}...'. This dependency will be ignored and left in the original file.`,
 			);
 			continue;
 		}
+		namedDependencies.push({ statement: dep, nameNode });
+	}
+
+	const movableDependencies = findMovableDependencies(
+		targetDeclarations,
+		namedDependencies.filter(
+			({ statement }) =>
+				!(Node.isExportable(statement) && statement.isExported()),
+		),
+	);
 
+	for (const { statement: dep, nameNode } of namedDependencies) {
+		const depName = nameNode.getText();
 		const isExported = Node.isExportable(dep) && dep.isExported();
 
 		if (isExported) {
@@ -68,12 +102,7 @@ export function classifyDependencies(
 			continue;
 		}
 
-		const isReferencedOutside = checkIfReferencedOutsideTarget(
-			targetDeclaration,
-			nameNode,
-		);
-
-		if (isReferencedOutside) {
+		if (!movableDependencies.has(dep)) {
 			if (Node.isExportable(dep)) {
 				classifications.push({
 					type: "addExport",
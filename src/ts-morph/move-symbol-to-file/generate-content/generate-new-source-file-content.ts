@@ -1,7 +1,8 @@
 import type { Statement } from "ts-morph";
-import { Node } from "ts-morph";
+import { Node, SyntaxKind } from "ts-morph";
 import logger from "../../../utils/logger";
 import type {
+	DefaultExportToMove,
 	DependencyClassification,
 	NeededExternalImports,
 } from "../../types";
@@ -37,15 +38,48 @@ function getPotentiallyExportedStatement(
 	return stmtText;
 }
 
+/**
+ * デフォルトエクスポートされている移動対象の宣言文字列を、移動先での扱いに合わせて生成する。
+ * - `export default function Name` 形式: keepDefault ならそのまま、convertToNamed なら `default` を外す
+ * - `export default Name;` 形式: keepDefault なら宣言の後ろに export 文を付け、convertToNamed なら宣言に export を付ける
+ */
+function getDefaultExportStatement(defaultExport: DefaultExportToMove): string {
+	const { declaration, name, exportAssignment, handling } = defaultExport;
+	const stmtText = declaration.getText();
+	const defaultKeyword = Node.isModifierable(declaration)
+		? declaration.getFirstModifierByKind(SyntaxKind.DefaultKeyword)
+		: undefined;
+
+	if (defaultKeyword) {
+		if (handling === "keepDefault") {
+			return stmtText;
+		}
+		const offset = declaration.getStart();
+		return (
+			stmtText.slice(0, defaultKeyword.getStart() - offset) +
+			stmtText.slice(defaultKeyword.getEnd() - offset).trimStart()
+		);
+	}
+
+	if (handling === "keepDefault") {
+		return exportAssignment
+			? `${stmtText}\n\nexport default ${name};`
+			: stmtText;
+	}
+	return getPotentiallyExportedStatement(declaration, false);
+}
+
 // --- エクスポートされるヘルパー関数 ---
 
 /**
- * 移動対象の宣言と、それに付随する内部依存 (`moveToNewFile` タイプ) の
+ * 移動対象の宣言 (複数可) と、それに付随する内部依存 (`moveToNewFile` タイプ) の
  * 宣言文字列 (適切な export キーワード付き) の配列を生成する。
+ * defaultExport を指定した場合、その宣言は移動先での扱いに合わせて export を書き換える。
  */
 export function prepareDeclarationStrings(
-	targetDeclaration: Statement,
+	targetDeclaration: Statement | Statement[],
 	classifiedDependencies: DependencyClassification[],
+	defaultExport?: DefaultExportToMove,
 ): string[] {
 	logger.debug("Generating declaration section strings...");
 	const declarationStrings: string[] = [];
@@ -58,9 +92,16 @@ export function prepareDeclarationStrings(
 		}
 	}
 
-	declarationStrings.push(
-		getPotentiallyExportedStatement(targetDeclaration, false),
-	);
+	const targetDeclarations = Array.isArray(targetDeclaration)
+		? targetDeclaration
+		: [targetDeclaration];
+	for (const declaration of targetDeclarations) {
+		declarationStrings.push(
+			declaration === defaultExport?.declaration
+				? getDefaultExportStatement(defaultExport)
+				: getPotentiallyExportedStatement(declaration, false),
+		);
+	}
 
 	logger.debug(`Generated ${declarationStrings.length} declaration strings.`);
 	return declarationStrings;
@@ -71,19 +112,21 @@ export function prepareDeclarationStrings(
 /**
  * 移動対象の宣言と依存関係から、新しいファイルの完全な内容を生成する。
  *
- * @param targetDeclaration 移動対象のシンボルの Statement
+ * @param targetDeclaration 移動対象のシンボルの Statement (複数可)
  * @param classifiedDependencies 分類済みの内部依存関係の配列
  * @param originalFilePath 元のファイルの絶対パス
  * @param newFilePath 新しいファイルの絶対パス
  * @param neededExternalImports 事前に収集された外部インポート情報
+ * @param defaultExport 移動対象に含まれるデフォルトエクスポートの情報 (オプション)
  * @returns 新しいファイルのソースコード文字列
  */
 export function generateNewSourceFileContent(
-	targetDeclaration: Statement,
+	targetDeclaration: Statement | Statement[],
 	classifiedDependencies: DependencyClassification[],
 	originalFilePath: string,
 	newFilePath: string,
 	neededExternalImports: NeededExternalImports,
+	defaultExport?: DefaultExportToMove,
 ): string {
 	logger.debug("Generating new source file content...");
 
@@ -99,6 +142,7 @@ export function generateNewSourceFileContent(
 	const declarationStrings = prepareDeclarationStrings(
 		targetDeclaration,
 		classifiedDependencies,
+		defaultExport,
 	);
 	const declarationSection = `${declarationStrings.join("\n\n")}\n`;
 
@@ -0,0 +1,326 @@
+import { describe, it, expect } from "vitest";
+import { createInMemoryProjectWithDoubleQuotes } from "../_test-utils/create-in-memory-project";
+import { getFileText } from "../_test-utils/get-file-text";
+import { moveSymbolToFile } from "./move-symbol-to-file";
+
+const setupProject = () => {
+	const project = createInMemoryProjectWithDoubleQuotes();
+	project.createSourceFile(
+		"/src/components/Button.tsx",
+		`import { classNames } from "./class-names";
+
+function label(text: string) {
+  return text.toUpperCase();
+}
+
+export default function Button(props: { text: string }) {
+  return classNames(label(props.text));
+}
+
+export const size = "md";
+`,
+	);
+	project.createSourceFile(
+		"/src/components/class-names.ts",
+		`export const classNames = (...names: string[]) => names.join(" ");
+`,
+	);
+	project.createSourceFile(
+		"/src/pages/home.ts",
+		`import Button, { size } from "../components/Button";
+
+console.log(Button({ text: "home" }), size);
+`,
+	);
+	project.createSourceFile(
+		"/src/pages/about.ts",
+		`import PrimaryButton from "../components/Button";
+
+console.log(PrimaryButton({ text: "about" }));
+`,
+	);
+	project.createSourceFile(
+		"/src/components/index.ts",
+		`export { default as Button } from "./Button";
+`,
+	);
+	return project;
+};
+
+describe("moveSymbolToFile (Default Export)", () => {
+	it("扱いを指定しない場合、デフォルトエクスポートの移動はエラーになる", async () => {
+		const project = setupProject();
+
+		await expect(
+			moveSymbolToFile(
+				project,
+				"/src/components/Button.tsx",
+				"/src/ui/Button.tsx",
+				"Button",
+			),
+		).rejects.toThrow('Symbol "Button" is a default export.');
+	});
+
+	it("keepDefault: 移動先でもデフォルトエクスポートのままにし、異なるローカル名のデフォルトインポートも書き換える", async () => {
+		const project = setupProject();
+
+		await moveSymbolToFile(
+			project,
+			"/src/components/Button.tsx",
+			"/src/ui/Button.tsx",
+			"Button",
+			undefined,
+			{ defaultExport: "keepDefault" },
+		);
+
+		expect(getFileText(project, "/src/ui/Button.tsx")).toBe(
+			`import { classNames } from "../components/class-names";
+
+function label(text: string) {
+  return text.toUpperCase();
+}
+
+export default function Button(props: { text: string }) {
+  return classNames(label(props.text));
+}
+`,
+		);
+		expect(getFileText(project, "/src/components/Button.tsx")).toBe(
+			`export const size = "md";
+`,
+		);
+		expect(getFileText(project, "/src/pages/home.ts")).toBe(
+			`import { size } from "../components/Button";
+import Button from "../ui/Button";
+
+console.log(Button({ text: "home" }), size);
+`,
+		);
+		expect(getFileText(project, "/src/pages/about.ts")).toBe(
+			`import PrimaryButton from "../ui/Button";
+
+console.log(PrimaryButton({ text: "about" }));
+`,
+		);
+		expect(getFileText(project, "/src/components/index.ts")).toBe(
+			`export { default as Button } from "../ui/Button";
+`,
+		);
+	});
+
+	it("convertToNamed: 名前付きエクスポートに変え、デフォルトインポートはローカル名をエイリアスとして保つ", async () => {
+		const project = setupProject();
+
+		await moveSymbolToFile(
+			project,
+			"/src/components/Button.tsx",
+			"/src/ui/Button.tsx",
+			"Button",
+			undefined,
+			{ defaultExport: "convertToNamed" },
+		);
+
+		expect(getFileText(project, "/src/ui/Button.tsx")).toContain(
+			"export function Button(props: { text: string }) {",
+		);
+		expect(getFileText(project, "/src/pages/home.ts")).toBe(
+			`import { size } from "../components/Button";
+import { Button } from "../ui/Button";
+
+console.log(Button({ text: "home" }), size);
+`,
+		);
+		expect(getFileText(project, "/src/pages/about.ts")).toBe(
+			`import { Button as PrimaryButton } from "../ui/Button";
+
+console.log(PrimaryButton({ text: "about" }));
+`,
+		);
+		expect(getFileText(project, "/src/components/index.ts")).toBe(
+			`export { Button } from "../ui/Button";
+`,
+		);
+	});
+
+	it("`export default Name;` 形式の export 文も一緒に移動し、移動先への import は 1 つにまとめる", async () => {
+		const project = createInMemoryProjectWithDoubleQuotes();
+		project.createSourceFile(
+			"/src/Card.ts",
+			`const Card = () => "card";
+
+export default Card;
+`,
+		);
+		project.createSourceFile(
+			"/src/app.ts",
+			`import MyCard from "./Card";
+import { default as OtherCard } from "./Card";
+
+console.log(MyCard(), OtherCard());
+`,
+		);
+
+		await moveSymbolToFile(
+			project,
+			"/src/Card.ts",
+			"/src/ui/Card.ts",
+			"Card",
+			undefined,
+			{
+				defaultExport: "keepDefault",
+			},
+		);
+
+		expect(getFileText(project, "/src/ui/Card.ts")).toBe(
+			`const Card = () => "card";
+
+export default Card;
+`,
+		);
+		expect(getFileText(project, "/src/Card.ts")).toBe("");
+		expect(getFileText(project, "/src/app.ts")).toBe(
+			`import MyCard, { default as OtherCard } from "./ui/Card";
+console.log(MyCard(), OtherCard());
+`,
+		);
+	});
+
+	it("convertToNamed: `export default Name;` 形式の宣言に export を付け、`default` を指す指定子も書き換える", async () => {
+		const project = createInMemoryProjectWithDoubleQuotes();
+		project.createSourceFile(
+			"/src/Card.ts",
+			`const Card = () => "card";
+
+export default Card;
+`,
+		);
+		project.createSourceFile(
+			"/src/app.ts",
+			`import { default as OtherCard } from "./Card";
+
+console.log(OtherCard());
+`,
+		);
+
+		await moveSymbolToFile(
+			project,
+			"/src/Card.ts",
+			"/src/ui/Card.ts",
+			"Card",
+			undefined,
+			{
+				defaultExport: "convertToNamed",
+			},
+		);
+
+		expect(getFileText(project, "/src/ui/Card.ts")).toBe(
+			`export const Card = () => "card";
+`,
+		);
+		expect(getFileText(project, "/src/app.ts")).toBe(
+			`import { Card as OtherCard } from "./ui/Card";
+
+console.log(OtherCard());
+`,
+		);
+	});
+
+	it("移動元に残るコードが参照する場合、keepDefault ではデフォルトインポートで逆向き import する", async () => {
+		const project = createInMemoryProjectWithDoubleQuotes();
+		project.createSourceFile(
+			"/src/page.ts",
+			`export default function Page() {
+  return "page";
+}
+
+export const render = () => Page();
+`,
+		);
+
+		await moveSymbolToFile(
+			project,
+			"/src/page.ts",
+			"/src/Page.ts",
+			"Page",
+			undefined,
+			{
+				defaultExport: "keepDefault",
+			},
+		);
+
+		expect(getFileText(project, "/src/page.ts")).toBe(
+			`import Page from "./Page";
+
+export const render = () => Page();
+`,
+		);
+	});
+
+	it("`export default Name;` 形式でも、移動元に残るコードが参照する場合は keepDefault でデフォルトインポートで逆向き import する", async () => {
+		const project = createInMemoryProjectWithDoubleQuotes();
+		project.createSourceFile(
+			"/src/app.ts",
+			`function Page() {
+  return "page";
+}
+
+export const render = () => Page();
+
+export default Page;
+`,
+		);
+
+		await moveSymbolToFile(
+			project,
+			"/src/app.ts",
+			"/src/page.ts",
+			"Page",
+			undefined,
+			{
+				defaultExport: "keepDefault",
+			},
+		);
+
+		expect(getFileText(project, "/src/page.ts")).toBe(
+			`function Page() {
+  return "page";
+}
+
+export default Page;
+`,
+		);
+		expect(getFileText(project, "/src/app.ts")).toBe(
+			`import Page from "./page";
+
+export const render = () => Page();
+`,
+		);
+		expect(
+			project
+				.getPreEmitDiagnostics()
+				.map((diagnostic) => diagnostic.getMessageText()),
+		).toEqual([]);
+	});
+
+	it("keepDefault で移動先に既にデフォルトエクスポートがある場合はエラーになる", async () => {
+		const project = setupProject();
+		project.createSourceFile(
+			"/src/ui/Button.tsx",
+			`export default function Other() {
+  return null;
+}
+`,
+		);
+
+		await expect(
+			moveSymbolToFile(
+				project,
+				"/src/components/Button.tsx",
+				"/src/ui/Button.tsx",
+				"Button",
+				undefined,
+				{ defaultExport: "keepDefault" },
+			),
+		).rejects.toThrow("already has a default export");
+	});
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect } from "vitest";
+import { createInMemoryProjectWithDoubleQuotes } from "../_test-utils/create-in-memory-project";
+import { getFileText } from "../_test-utils/get-file-text";
+import { moveSymbolsToFile } from "./move-symbol-to-file";
+
+describe("moveSymbolsToFile (Multiple Symbols)", () => {
+	it("移動対象同士で共有する private な依存は 1 度だけ移動し、export されない", async () => {
+		const project = createInMemoryProjectWithDoubleQuotes();
+		const oldFilePath = "/src/utils.ts";
+		const newFilePath = "/src/string-utils.ts";
+
+		project.createSourceFile(
+			oldFilePath,
+			`function normalize(value: string) {
+  return value.trim().toLowerCase();
+}
+
+export function slugify(value: string) {
+  return normalize(value).replace(/\\s+/g, "-");
+}
+
+export function isBlank(value: string) {
+  return normalize(value) === "";
+}
+
+export const keep = 1;
+`,
+		);
+
+		await moveSymbolsToFile(project, oldFilePath, newFilePath, [
+			{ name: "isBlank" },
+			{ name: "slugify" },
+		]);
+
+		expect(getFileText(project, newFilePath)).toBe(
+			`function normalize(value: string) {
+  return value.trim().toLowerCase();
+}
+
+export function slugify(value: string) {
+  return normalize(value).replace(/\\s+/g, "-");
+}
+
+export function isBlank(value: string) {
+  return normalize(value) === "";
+}
+`,
+		);
+		expect(getFileText(project, oldFilePath)).toBe(
+			`export const keep = 1;
+`,
+		);
+	});
+
+	it("参照元の import を移動先への 1 つの import 文にまとめる", async () => {
+		const project = createInMemoryProjectWithDoubleQuotes();
+		const oldFilePath = "/src/utils.ts";
+		const newFilePath = "/src/math.ts";
+		const consumerPath = "/src/consumer.ts";
+
+		project.createSourceFile(
+			oldFilePath,
+			`export const add = (a: number, b: number) => a + b;
+export const sub = (a: number, b: number) => a - b;
+export const label = "utils";
+`,
+		);
+		project.createSourceFile(
+			consumerPath,
+			`import { add, label, sub as minus } from "./utils";
+
+console.log(add(1, 2), minus(3, 1), label);
+`,
+		);
+
+		await moveSymbolsToFile(project, oldFilePath, newFilePath, [
+			{ name: "add" },
+			{ name: "sub" },
+		]);
+
+		expect(getFileText(project, consumerPath)).toBe(
+			`import { label } from "./utils";
+import { add, sub as minus } from "./math";
+
+console.log(add(1, 2), minus(3, 1), label);
+`,
+		);
+	});
+
+	it("移動元に残るコードから参照される複数のシンボルは逆向き import を 1 つにまとめる", async () => {
+		const project = createInMemoryProjectWithDoubleQuotes();
+		const oldFilePath = "/src/utils.ts";
+		const newFilePath = "/src/math.ts";
+
+		project.createSourceFile(
+			oldFilePath,
+			`export const add = (a: number, b: number) => a + b;
+export const sub = (a: number, b: number) => a - b;
+export const both = (a: number, b: number) => [add(a, b), sub(a, b)];
+`,
+		);
+
+		await moveSymbolsToFile(project, oldFilePath, newFilePath, [
+			{ name: "add" },
+			{ name: "sub" },
+		]);
+
+		expect(getFileText(project, oldFilePath)).toBe(
+			`import { add, sub } from "./math";
+
+export const both = (a: number, b: number) => [add(a, b), sub(a, b)];
+`,
+		);
+	});
+
+	it("同じシンボルを重複して指定した場合はエラーにする", async () => {
+		const project = createInMemoryProjectWithDoubleQuotes();
+		const oldFilePath = "/src/utils.ts";
+		project.createSourceFile(oldFilePath, "export const add = 1;\n");
+
+		await expect(
+			moveSymbolsToFile(project, oldFilePath, "/src/math.ts", [
+				{ name: "add" },
+				{ name: "add" },
+			]),
+		).rejects.toThrow('Symbol "add" is specified more than once.');
+	});
+});
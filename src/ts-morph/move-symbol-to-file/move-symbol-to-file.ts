@@ -1,7 +1,13 @@
 import type { Project, SourceFile, Statement, SyntaxKind } from "ts-morph";
 import { Node } from "ts-morph";
 import logger from "../../utils/logger";
-import type { DependencyClassification, NeededExternalImports } from "../types";
+import type {
+	DefaultExportHandling,
+	DefaultExportToMove,
+	DependencyClassification,
+	NeededExternalImports,
+	SymbolToMove,
+} from "../types";
 import { classifyDependencies } from "./classify-dependencies";
 import { collectNeededExternalImports } from "./collect-external-imports";
 import { ensureExportsInOriginalFile } from "./ensure-exports-in-original-file";
@@ -20,6 +26,124 @@ import { updateImportsInReferencingFiles } from "./update-imports-in-referencing
 import { updateTargetFile } from "./update-target-file";
 import { calculateRequiredImportMap } from "./generate-content/build-new-file-import-section";
 
+export interface MoveSymbolsOptions {
+	/**
+	 * デフォルトエクスポートされたシンボルの扱い。
+	 * 未指定の場合、`export default function/class` の宣言は移動できない。
+	 */
+	defaultExport?: DefaultExportHandling;
+}
+
+/**
+ * 宣言がデフォルトエクスポートされていれば、その情報を返す。
+ * `export default function Name` 形式と、同じファイル内の `export default Name;` 形式に対応する。
+ * 移動先での扱い (handling) が未指定の場合はエラーにする。
+ */
+function findDefaultExport(
+	originalSourceFile: SourceFile,
+	declaration: Statement,
+	name: string,
+	handling: DefaultExportHandling | undefined,
+): DefaultExportToMove | undefined {
+	const exportAssignment = originalSourceFile.getExportAssignment(
+		(assignment) =>
+			!assignment.isExportEquals() &&
+			Node.isIdentifier(assignment.getExpression()) &&
+			assignment.getExpression().getText() === name,
+	);
+	const isDefaultExported =
+		exportAssignment !== undefined ||
+		(Node.isExportable(declaration) && declaration.isDefaultExport());
+	if (!isDefaultExported) {
+		return undefined;
+	}
+	if (!handling) {
+		throw new Error(
+			`Symbol "${name}" is a default export. Specify how to move it (keep it as the default export or convert it to a named export).`,
+		);
+	}
+	return { declaration, name, exportAssignment, handling };
+}
+
+/**
+ * 移動対象のシンボル名から宣言を探す。
+ * 同じ宣言を指す名前 (例: `const a = 1, b = 2;` の a と b) は 1 つにまとめ、元ファイルでの出現順に並べる。
+ */
+function findDeclarationsToMove(
+	originalSourceFile: SourceFile,
+	symbolsToMove: SymbolToMove[],
+	defaultExportHandling: DefaultExportHandling | undefined,
+): { declarations: Statement[]; defaultExport?: DefaultExportToMove } {
+	const originalFilePath = originalSourceFile.getFilePath();
+	const seenNames = new Set<string>();
+	const declarations = new Set<Statement>();
+	let defaultExport: DefaultExportToMove | undefined;
+
+	for (const { name, declarationKind } of symbolsToMove) {
+		if (seenNames.has(name)) {
+			throw new Error(`Symbol "${name}" is specified more than once.`);
+		}
+		seenNames.add(name);
+
+		const declaration = findTopLevelDeclarationByName(
+			originalSourceFile,
+			name,
+			declarationKind,
+		);
+		if (!declaration) {
+			throw new Error(`Symbol "${name}" not found in ${originalFilePath}`);
+		}
+		logger.debug(`シンボルの宣言を発見: ${name}`);
+
+		defaultExport ??= findDefaultExport(
+			originalSourceFile,
+			declaration,
+			name,
+			defaultExportHandling,
+		);
+		declarations.add(declaration);
+	}
+
+	return {
+		declarations: [...declarations].sort((a, b) => a.getStart() - b.getStart()),
+		defaultExport,
+	};
+}
+
+/**
+ * デフォルトエクスポートを移動先に残す場合、移動先に既存のデフォルトエクスポートがないことを確認する。
+ */
+function assertTargetHasNoDefaultExport(
+	project: Project,
+	newFilePath: string,
+	defaultExport: DefaultExportToMove | undefined,
+): void {
+	if (defaultExport?.handling !== "keepDefault") {
+		return;
+	}
+	const targetSourceFile = project.getSourceFile(newFilePath);
+	if (targetSourceFile?.getDefaultExportSymbol()) {
+		throw new Error(
+			`Cannot move default export "${defaultExport.name}": ${newFilePath} already has a default export.`,
+		);
+	}
+}
+
+/**
+ * 移動対象それぞれの内部依存関係を、重複と移動対象自身を除いてまとめる。
+ */
+function collectInternalDependencies(declarations: Statement[]): Statement[] {
+	const dependencies = new Set<Statement>();
+	for (const declaration of declarations) {
+		for (const dep of getInternalDependencies(declaration)) {
+			if (!declarations.includes(dep)) {
+				dependencies.add(dep);
+			}
+		}
+	}
+	return [...dependencies];
+}
+
 /**
  * シンボル移動に必要な情報を収集する。
  * 元ファイル、移動対象の宣言、分類済み依存関係、外部インポート情報を返す。
@@ -27,11 +151,12 @@ import { calculateRequiredImportMap } from "./generate-content/build-new-file-im
 async function gatherMovePrerequisites(
 	project: Project,
 	originalFilePath: string,
-	symbolToMove: string,
-	declarationKind?: SyntaxKind,
+	symbolsToMove: SymbolToMove[],
+	defaultExportHandling: DefaultExportHandling | undefined,
 ): Promise<{
 	originalSourceFile: SourceFile;
-	declaration: Statement;
+	declarations: Statement[];
+	defaultExport?: DefaultExportToMove;
 	classifiedDependencies: DependencyClassification[];
 	neededExternalImports: NeededExternalImports;
 }> {
@@ -41,43 +166,23 @@ async function gatherMovePrerequisites(
 	}
 	logger.debug(`元のファイルを発見: ${originalFilePath}`);
 
-	const declaration = findTopLevelDeclarationByName(
+	const { declarations, defaultExport } = findDeclarationsToMove(
 		originalSourceFile,
-		symbolToMove,
-		declarationKind,
+		symbolsToMove,
+		defaultExportHandling,
 	);
-	if (!declaration) {
-		throw new Error(
-			`Symbol "${symbolToMove}" not found in ${originalFilePath}`,
-		);
-	}
-	logger.debug(`シンボルの宣言を発見: ${symbolToMove}`);
-
-	let isDefaultExported = false;
-	if (
-		Node.isFunctionDeclaration(declaration) ||
-		Node.isClassDeclaration(declaration) ||
-		Node.isInterfaceDeclaration(declaration) ||
-		Node.isEnumDeclaration(declaration)
-	) {
-		isDefaultExported = declaration.isDefaultExport();
-	}
-	if (isDefaultExported) {
-		throw new Error(
-			"Default exports cannot be moved using this function. Please refactor manually or use file moving tools.",
-		);
-	}
 
-	const internalDependencies = getInternalDependencies(declaration);
+	const internalDependencies = collectInternalDependencies(declarations);
 	logger.debug(`${internalDependencies.length}個の内部依存関係を発見。`);
 
+	// 移動対象をまとめて渡し、移動対象同士で共有する依存を 1 度だけ移動させる
 	const classifiedDependencies = classifyDependencies(
-		declaration,
+		declarations,
 		internalDependencies,
 	);
 
 	const allDepsToMove = [
-		declaration,
+		...declarations,
 		...classifiedDependencies.map((dep) => dep.statement),
 	];
 	const neededExternalImports = collectNeededExternalImports(
@@ -88,7 +193,8 @@ async function gatherMovePrerequisites(
 
 	return {
 		originalSourceFile,
-		declaration,
+		declarations,
+		defaultExport,
 		classifiedDependencies,
 		neededExternalImports,
 	};
@@ -100,17 +206,19 @@ async function gatherMovePrerequisites(
 async function updateReferencesAndOriginalFile(
 	project: Project,
 	originalSourceFile: SourceFile,
-	declaration: Statement,
+	declarations: Statement[],
 	classifiedDependencies: DependencyClassification[],
 	originalFilePath: string,
 	newFilePath: string,
-	symbolToMove: string,
+	symbolNames: string[],
+	defaultExport: DefaultExportToMove | undefined,
 ): Promise<void> {
 	await updateImportsInReferencingFiles(
 		project,
 		originalFilePath,
 		newFilePath,
-		symbolToMove,
+		symbolNames,
+		defaultExport,
 	);
 	logger.debug("参照元ファイルのインポートを更新。");
 
@@ -123,13 +231,20 @@ async function updateReferencesAndOriginalFile(
 		)
 		.map((dep) => dep.statement);
 	const allDeclarationsToRemove = [
-		declaration,
+		...declarations,
 		...dependenciesToRemoveDeclarations,
+		...(defaultExport?.exportAssignment
+			? [defaultExport.exportAssignment]
+			: []),
 	];
 
 	const symbolsNeedingBackImport = collectSymbolsNeedingBackImport(
 		allDeclarationsToRemove,
 	);
+	// 移動先でもデフォルトエクスポートのままなら、逆向き import もデフォルトインポートにする
+	const backImportAsDefault =
+		defaultExport?.handling === "keepDefault" &&
+		symbolsNeedingBackImport.includes(defaultExport.name);
 
 	removeOriginalSymbol(originalSourceFile, allDeclarationsToRemove);
 	logger.debug("元のファイルからシンボルと依存関係を削除。");
@@ -137,7 +252,10 @@ async function updateReferencesAndOriginalFile(
 	addBackImportsToOriginalFile(
 		originalSourceFile,
 		newFilePath,
-		symbolsNeedingBackImport,
+		backImportAsDefault
+			? symbolsNeedingBackImport.filter((name) => name !== defaultExport.name)
+			: symbolsNeedingBackImport,
+		backImportAsDefault ? defaultExport.name : undefined,
 	);
 	// addBackImports は不足分の追加のみ行う。削除で不要になった import の除去は
 	// organizeImports が担うため、ここは整理だけでなく correctness 上も必要。
@@ -150,11 +268,12 @@ async function updateReferencesAndOriginalFile(
  */
 function generateAndAppendToNewFile(
 	project: Project,
-	declaration: Statement,
+	declarations: Statement[],
 	classifiedDependencies: DependencyClassification[],
 	originalFilePath: string,
 	newFilePath: string,
 	neededExternalImports: NeededExternalImports,
+	defaultExport: DefaultExportToMove | undefined,
 ): void {
 	logger.debug(
 		`Generate/Append symbol to file: ${newFilePath} (from ${originalFilePath})`,
@@ -168,8 +287,9 @@ function generateAndAppendToNewFile(
 	);
 
 	const declarationStrings = prepareDeclarationStrings(
-		declaration,
+		declarations,
 		classifiedDependencies,
+		defaultExport,
 	);
 
 	const targetSourceFile = project.getSourceFile(newFilePath);
@@ -182,11 +302,12 @@ function generateAndAppendToNewFile(
 
 	logger.debug(`Target file does not exist. Creating: ${newFilePath}`);
 	const newFileContent = generateNewSourceFileContent(
-		declaration,
+		declarations,
 		classifiedDependencies,
 		originalFilePath,
 		newFilePath,
 		neededExternalImports,
+		defaultExport,
 	);
 	const newSourceFile = project.createSourceFile(newFilePath, newFileContent);
 	newSourceFile.organizeImports();
@@ -201,8 +322,9 @@ function generateAndAppendToNewFile(
  * @param newFilePath 移動先ファイルの絶対パス
  * @param symbolToMove 移動するシンボルの名前
  * @param declarationKind 移動するシンボルの種類 (オプション)
+ * @param options デフォルトエクスポートの扱いなど (オプション)
  * @returns Promise<void> 処理が完了したら解決される Promise
- * @throws Error - シンボルが見つからない、デフォルトエクスポート、AST 操作エラーなど
+ * @throws Error - シンボルが見つからない、扱いを指定していないデフォルトエクスポート、AST 操作エラーなど
  */
 export async function moveSymbolToFile(
 	project: Project,
@@ -210,45 +332,83 @@ export async function moveSymbolToFile(
 	newFilePath: string,
 	symbolToMove: string,
 	declarationKind?: SyntaxKind,
+	options: MoveSymbolsOptions = {},
 ): Promise<void> {
+	await moveSymbolsToFile(
+		project,
+		originalFilePath,
+		newFilePath,
+		[{ name: symbolToMove, declarationKind }],
+		options,
+	);
+}
+
+/**
+ * 複数のシンボルをまとめて別ファイル（なければ新規作成）に移動します。
+ * 依存関係はまとめて分類するため、移動対象同士で共有する private な依存は 1 度だけ移動し、
+ * 参照元の import も移動先への 1 つの宣言にまとめます。
+ *
+ * @param project ts-morph プロジェクトインスタンス
+ * @param originalFilePath 元のファイルの絶対パス
+ * @param newFilePath 移動先ファイルの絶対パス
+ * @param symbolsToMove 移動するシンボルの名前と種類 (種類はオプション)
+ * @param options デフォルトエクスポートの扱いなど (オプション)
+ * @returns Promise<void> 処理が完了したら解決される Promise
+ * @throws Error - シンボルが見つからない・重複して指定された、扱いを指定していないデフォルトエクスポート、AST 操作エラーなど
+ */
+export async function moveSymbolsToFile(
+	project: Project,
+	originalFilePath: string,
+	newFilePath: string,
+	symbolsToMove: SymbolToMove[],
+	options: MoveSymbolsOptions = {},
+): Promise<void> {
+	const symbolNames = symbolsToMove.map((symbol) => symbol.name);
 	logger.debug(
-		`moveSymbolToFile 開始: Symbol='${symbolToMove}', From='${originalFilePath}', To='${newFilePath}'`,
+		`moveSymbolsToFile 開始: Symbols='${symbolNames.join(", ")}', From='${originalFilePath}', To='${newFilePath}'`,
 	);
+	if (symbolsToMove.length === 0) {
+		throw new Error("No symbols to move were specified.");
+	}
 
 	const {
 		originalSourceFile,
-		declaration,
+		declarations,
+		defaultExport,
 		classifiedDependencies,
 		neededExternalImports,
 	} = await gatherMovePrerequisites(
 		project,
 		originalFilePath,
-		symbolToMove,
-		declarationKind,
+		symbolsToMove,
+		options.defaultExport,
 	);
+	assertTargetHasNoDefaultExport(project, newFilePath, defaultExport);
 
 	ensureExportsInOriginalFile(classifiedDependencies, originalFilePath);
 
 	generateAndAppendToNewFile(
 		project,
-		declaration,
+		declarations,
 		classifiedDependencies,
 		originalFilePath,
 		newFilePath,
 		neededExternalImports,
+		defaultExport,
 	);
 
 	await updateReferencesAndOriginalFile(
 		project,
 		originalSourceFile,
-		declaration,
+		declarations,
 		classifiedDependencies,
 		originalFilePath,
 		newFilePath,
-		symbolToMove,
+		symbolNames,
+		defaultExport,
 	);
 
 	logger.info(
-		`Successfully moved symbol '${symbolToMove}' from '${originalFilePath}' to '${newFilePath}'.`,
+		`Successfully moved symbol(s) '${symbolNames.join(", ")}' from '${originalFilePath}' to '${newFilePath}'.`,
 	);
 }
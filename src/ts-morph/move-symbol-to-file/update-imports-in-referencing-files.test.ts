@@ -227,6 +227,45 @@ console.log(symbolToMove);`,
 		expect(referencingFile2.getText()).toBe("console.log(symbolToMove);");
 	});
 
+	it("複数のシンボルを移動する場合、移動先への import を 1 つの宣言にまとめ、エイリアスを保つ", async () => {
+		const { project, oldFilePath, newFilePath, importerMultiPath } =
+			setupTestProject();
+		project
+			.getSourceFileOrThrow(importerMultiPath)
+			.replaceWithText(
+				`import { exportedSymbol as value, anotherSymbol } from '../moduleA/old-location';\nconsole.log(value, anotherSymbol);`,
+			);
+
+		await updateImportsInReferencingFiles(project, oldFilePath, newFilePath, [
+			"exportedSymbol",
+			"anotherSymbol",
+		]);
+
+		const expected = `import { exportedSymbol as value, anotherSymbol } from '../moduleC/new-location';
+console.log(value, anotherSymbol);`;
+		expect(project.getSourceFile(importerMultiPath)?.getText()).toBe(expected);
+	});
+
+	it("移動先からの既存の import がある場合、その宣言に指定子を追加する", async () => {
+		const { project, oldFilePath, newFilePath } = setupTestProject();
+		const importerPath = "/src/moduleH/importer-existing.ts";
+		project.createSourceFile(
+			importerPath,
+			`import { existing } from '../moduleC/new-location';
+import { exportedSymbol, anotherSymbol } from '../moduleA/old-location';
+console.log(existing, exportedSymbol, anotherSymbol);`,
+		);
+
+		await updateImportsInReferencingFiles(project, oldFilePath, newFilePath, [
+			"exportedSymbol",
+		]);
+
+		const expected = `import { existing, exportedSymbol } from '../moduleC/new-location';
+import { anotherSymbol } from '../moduleA/old-location';
+console.log(existing, exportedSymbol, anotherSymbol);`;
+		expect(project.getSourceFile(importerPath)?.getText()).toBe(expected);
+	});
+
 	// --- 【制限事項確認】将来的に対応したいケース ---
 	it.skip("【制限事項】バレルファイル経由でインポートしているファイルのパスは更新される", async () => {
 		const { project, oldFilePath, newFilePath, importerIndexPath } =
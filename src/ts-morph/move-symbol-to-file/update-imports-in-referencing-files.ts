@@ -11,141 +11,291 @@ import * as path from "node:path";
 import { calculateRelativePath } from "../_utils/calculate-relative-path";
 import logger from "../../utils/logger";
 import { findDeclarationsReferencingFile } from "../_utils/find-declarations-to-update";
+import type { DefaultExportToMove } from "../types";
 
-// ヘルパー関数用のインターフェース
-interface TargetSpecifierInfo {
-	specifier: ImportSpecifier | ExportSpecifier | undefined;
-	isOnlySpecifier: boolean;
-	isTypeOnlyImport: boolean; // インポート宣言の場合のみ意味を持つ
+/** ImportSpecifierStructure と ExportSpecifierStructure の共通部分 */
+interface SpecifierStructure {
+	name: string;
+	alias?: string;
+	isTypeOnly: boolean;
 }
 
 /**
- * インポート/エクスポート宣言から指定されたシンボル名に一致する Specifier を検索し、
- * それが付随情報（唯一の Specifier か、Type Only か）と共に返すヘルパー関数。
+ * 1 つの import/export 宣言のうち、移動したシンボルを指す部分と、移動先への宣言に書く形。
  */
-function findTargetSpecifierInfo(
+interface MovedBindings {
+	/** 元の宣言から取り除く名前付き指定子 */
+	specifiers: (ImportSpecifier | ExportSpecifier)[];
+	/** 元の宣言のデフォルトインポートが移動したシンボルを指すか */
+	includesDefaultImport: boolean;
+	/** 移動先への宣言に書く名前付き指定子 */
+	newSpecifiers: SpecifierStructure[];
+	/** 移動先への宣言に書くデフォルトインポートの名前 */
+	newDefaultImport?: string;
+	/** 名前付き/デフォルトの書き方が変わらず、モジュール指定子の書き換えだけで済むか */
+	keepsShape: boolean;
+}
+
+/**
+ * デフォルトエクスポートを名前付きエクスポートに変える場合に、`default` を指す指定子を宣言の名前に置き換える。
+ * エイリアスは参照元での名前を保つために残し、宣言の名前と同じなら省略する。
+ */
+function toSpecifierStructure(
+	specifier: ImportSpecifier | ExportSpecifier,
+	defaultExport: DefaultExportToMove | undefined,
+): SpecifierStructure {
+	const name = specifier.getNameNode().getText();
+	const alias = specifier.getAliasNode()?.getText();
+	if (name !== "default" || defaultExport?.handling !== "convertToNamed") {
+		return { name, alias, isTypeOnly: specifier.isTypeOnly() };
+	}
+	const localName = alias ?? "default";
+	return {
+		name: defaultExport.name,
+		alias: localName === defaultExport.name ? undefined : localName,
+		isTypeOnly: specifier.isTypeOnly(),
+	};
+}
+
+/**
+ * インポート/エクスポート宣言から、移動したシンボルを指す部分を集めるヘルパー関数。
+ * 名前付き指定子は移動元ファイルでの名前 (エイリアスではなく元の名前) で照合し、
+ * デフォルトエクスポートを移動した場合はデフォルトインポートと `default` を指す指定子も対象にする。
+ */
+function collectMovedBindings(
 	declaration: ImportDeclaration | ExportDeclaration,
-	symbolName: string,
-): TargetSpecifierInfo {
-	let specifier: ImportSpecifier | ExportSpecifier | undefined;
-	let isOnlySpecifier = false;
-	let isTypeOnlyImport = false;
+	symbolNames: ReadonlySet<string>,
+	defaultExport: DefaultExportToMove | undefined,
+): MovedBindings {
+	const namedSpecifiers = Node.isImportDeclaration(declaration)
+		? declaration.getNamedImports()
+		: declaration.getNamedExports();
+	const specifiers = namedSpecifiers.filter((spec) => {
+		const name = spec.getNameNode().getText();
+		return (
+			symbolNames.has(name) ||
+			(defaultExport !== undefined && name === "default")
+		);
+	});
+	const newSpecifiers = specifiers.map((spec) =>
+		toSpecifierStructure(spec, defaultExport),
+	);
 
+	const defaultImport =
+		defaultExport && Node.isImportDeclaration(declaration)
+			? declaration.getDefaultImport()
+			: undefined;
+	let newDefaultImport: string | undefined;
+	if (defaultImport && defaultExport?.handling === "keepDefault") {
+		newDefaultImport = defaultImport.getText();
+	} else if (defaultImport && defaultExport) {
+		const localName = defaultImport.getText();
+		newSpecifiers.unshift({
+			name: defaultExport.name,
+			alias: localName === defaultExport.name ? undefined : localName,
+			isTypeOnly: false,
+		});
+	}
+
+	const refersToDefault =
+		defaultImport !== undefined ||
+		specifiers.some((spec) => spec.getNameNode().getText() === "default");
+	return {
+		specifiers,
+		includesDefaultImport: defaultImport !== undefined,
+		newSpecifiers,
+		newDefaultImport,
+		keepsShape:
+			!refersToDefault || defaultExport?.handling !== "convertToNamed",
+	};
+}
+
+/**
+ * 宣言のすべての参照先が移動したシンボルか (= 宣言ごと移動先を指すように変えればよいか)。
+ * 移動していないデフォルトインポートや名前空間インポート/エクスポートが残る場合は false。
+ */
+function isWholeDeclarationMoved(
+	declaration: ImportDeclaration | ExportDeclaration,
+	bindings: MovedBindings,
+): boolean {
 	if (Node.isImportDeclaration(declaration)) {
-		isTypeOnlyImport = declaration.isTypeOnly();
-		const namedImports = declaration.getNamedImports();
-		specifier = namedImports.find(
-			(spec) =>
-				spec.getNameNode().getText() === symbolName ||
-				spec.getAliasNode()?.getText() === symbolName,
-		);
-		if (specifier && namedImports.length === 1) {
-			isOnlySpecifier = true;
-		}
-	} else if (Node.isExportDeclaration(declaration)) {
-		const namedExports = declaration.getNamedExports();
-		specifier = namedExports.find(
-			(spec) =>
-				spec.getNameNode().getText() === symbolName ||
-				spec.getAliasNode()?.getText() === symbolName,
+		return (
+			(!declaration.getDefaultImport() || bindings.includesDefaultImport) &&
+			!declaration.getNamespaceImport() &&
+			declaration.getNamedImports().length === bindings.specifiers.length
 		);
-		if (
-			specifier &&
-			namedExports.length === 1 &&
-			!declaration.isNamespaceExport()
-		) {
-			isOnlySpecifier = true;
-		}
 	}
+	return (
+		!declaration.isNamespaceExport() &&
+		declaration.getNamedExports().length === bindings.specifiers.length
+	);
+}
 
-	return { specifier, isOnlySpecifier, isTypeOnlyImport };
+/**
+ * 元の宣言から、移動したシンボルを指す部分を取り除く。
+ */
+function removeMovedBindings(
+	declaration: ImportDeclaration | ExportDeclaration,
+	bindings: MovedBindings,
+	wholeDeclarationMoved: boolean,
+): void {
+	if (wholeDeclarationMoved) {
+		declaration.remove();
+		return;
+	}
+	for (const specifier of bindings.specifiers) {
+		specifier.remove();
+	}
+	if (bindings.includesDefaultImport && Node.isImportDeclaration(declaration)) {
+		declaration.removeDefaultImport();
+	}
 }
 
 /**
- * 宣言を分割し、指定されたシンボルを新しいパスでインポート/エクスポートする宣言を追加します。
- * 元の宣言が空になった場合は削除します。
+ * 移動先への既存の宣言のうち、指定子を追加してまとめられるものを探す。
+ * デフォルトインポートを追加する必要がある場合、既にデフォルトインポートを持つ宣言は対象外。
  */
-function splitAndUpdateDeclaration(
+function findMergeableDeclaration(
+	sourceFile: SourceFile,
+	kindOf: ImportDeclaration | ExportDeclaration,
+	moduleSpecifier: string,
+	needsDefaultImport: boolean,
+): ImportDeclaration | ExportDeclaration | undefined {
+	if (Node.isImportDeclaration(kindOf)) {
+		return sourceFile.getImportDeclaration(
+			(decl) =>
+				decl !== kindOf &&
+				decl.getModuleSpecifierValue() === moduleSpecifier &&
+				decl.isTypeOnly() === kindOf.isTypeOnly() &&
+				!decl.getNamespaceImport() &&
+				!(needsDefaultImport && decl.getDefaultImport()),
+		);
+	}
+	return sourceFile.getExportDeclaration(
+		(decl) =>
+			decl !== kindOf &&
+			decl.getModuleSpecifierValue() === moduleSpecifier &&
+			decl.isTypeOnly() === kindOf.isTypeOnly() &&
+			!decl.isNamespaceExport(),
+	);
+}
+
+/**
+ * 移動したシンボルの指定子を新しいパスへの 1 つの宣言にまとめる。
+ * 同じ移動先を指す既存の宣言があればそこに追加し、元の宣言が空になった場合は削除します。
+ */
+function moveSpecifiersToNewDeclaration(
 	declaration: ImportDeclaration | ExportDeclaration,
-	symbolSpecifier: ImportSpecifier | ExportSpecifier,
+	bindings: MovedBindings,
 	sourceFile: SourceFile,
 	newRelativePath: string,
-	symbolName: string,
-	isTypeOnlyImport: boolean,
+	wholeDeclarationMoved: boolean,
 	referencingFilePath: string,
 ): void {
+	const { newSpecifiers, newDefaultImport } = bindings;
+	const mergeTarget = findMergeableDeclaration(
+		sourceFile,
+		declaration,
+		newRelativePath,
+		newDefaultImport !== undefined,
+	);
 	logger.trace(
 		{
 			file: referencingFilePath,
-			symbol: symbolName,
+			symbols: newSpecifiers.map((s) => s.name),
+			defaultImport: newDefaultImport,
 			from: declaration.getModuleSpecifier()?.getLiteralText(),
 			to: newRelativePath,
 			kind: declaration.getKindName(),
-			action: "Split Declaration",
+			action: mergeTarget
+				? "Merge Into Existing Declaration"
+				: "Split Declaration",
 		},
-		"Splitting declaration for target symbol",
+		"Moving specifiers of moved symbols to the new path",
 	);
 
-	symbolSpecifier.remove();
+	// 宣言ごと削除した後はノードを参照できないため、必要な情報を先に取り出す
+	const isImport = Node.isImportDeclaration(declaration);
+	const isTypeOnly = declaration.isTypeOnly();
+	removeMovedBindings(declaration, bindings, wholeDeclarationMoved);
 
-	if (Node.isImportDeclaration(declaration)) {
-		sourceFile.addImportDeclaration({
-			moduleSpecifier: newRelativePath,
-			namedImports: [symbolName],
-			isTypeOnly: isTypeOnlyImport,
-		});
-	} else if (Node.isExportDeclaration(declaration)) {
+	if (isImport) {
+		if (mergeTarget && Node.isImportDeclaration(mergeTarget)) {
+			if (newDefaultImport) {
+				mergeTarget.setDefaultImport(newDefaultImport);
+			}
+			if (newSpecifiers.length > 0) {
+				mergeTarget.addNamedImports(newSpecifiers);
+			}
+		} else {
+			sourceFile.addImportDeclaration({
+				moduleSpecifier: newRelativePath,
+				defaultImport: newDefaultImport,
+				namedImports: newSpecifiers.length > 0 ? newSpecifiers : undefined,
+				isTypeOnly,
+			});
+		}
+		if (
+			!wholeDeclarationMoved &&
+			Node.isImportDeclaration(declaration) &&
+			declaration.getNamedImports().length === 0 &&
+			!declaration.getDefaultImport() &&
+			!declaration.getNamespaceImport()
+		) {
+			declaration.remove();
+		}
+		return;
+	}
+
+	if (mergeTarget && Node.isExportDeclaration(mergeTarget)) {
+		mergeTarget.addNamedExports(newSpecifiers);
+	} else {
 		sourceFile.addExportDeclaration({
 			moduleSpecifier: newRelativePath,
-			namedExports: [symbolName],
+			namedExports: newSpecifiers,
+			isTypeOnly,
 		});
 	}
-
 	if (
-		Node.isImportDeclaration(declaration) &&
-		declaration.getNamedImports().length === 0
-	) {
-		declaration.remove();
-		logger.trace(
-			{ file: referencingFilePath },
-			"Removed empty original import declaration after split.",
-		);
-	} else if (
+		!wholeDeclarationMoved &&
 		Node.isExportDeclaration(declaration) &&
 		declaration.getNamedExports().length === 0 &&
 		!declaration.isNamespaceExport()
 	) {
 		declaration.remove();
-		logger.trace(
-			{ file: referencingFilePath },
-			"Removed empty original export declaration after split.",
-		);
 	}
 }
 
 /**
  * 指定されたファイルパス (oldFilePath) を参照しているインポート/エクスポート文のうち、
- * 指定されたシンボル (symbolName) を含むもののパスを、
+ * 移動したシンボル (symbolNames) を含むもののパスを、
  * 新しいファイルパス (newFilePath) への参照に更新します。
- * 複数のシンボルを含む場合は宣言を分割します。
+ * 移動していないシンボルも含む宣言は分割し、移動したシンボルは 1 つの宣言にまとめます。
+ * defaultExport を指定した場合、デフォルトインポート (参照元ごとに異なるローカル名を含む) と
+ * `default` を指す指定子も、移動先での扱いに合わせて書き換えます。
  * エラーが発生した場合はそのままスローします。
  *
  * @param project ts-morph プロジェクトインスタンス。
  * @param oldFilePath 移動元のファイルの絶対パス。
  * @param newFilePath 移動先のファイルの絶対パス。
- * @param symbolName 移動したシンボルの名前。
+ * @param symbolNames 移動したシンボルの名前 (複数可)。
+ * @param defaultExport 移動したシンボルに含まれるデフォルトエクスポートの情報 (オプション)。
  * @throws Error - ファイルが見つからない場合や AST 操作中にエラーが発生した場合
  */
 export async function updateImportsInReferencingFiles(
 	project: Project,
 	oldFilePath: string,
 	newFilePath: string,
-	symbolName: string,
+	symbolNames: string | string[],
+	defaultExport?: DefaultExportToMove,
 ): Promise<void> {
 	const oldSourceFile = project.getSourceFile(oldFilePath);
 	if (!oldSourceFile) {
 		throw new Error(`Source file not found at old path: ${oldFilePath}`);
 	}
+	const movedNames = new Set(
+		Array.isArray(symbolNames) ? symbolNames : [symbolNames],
+	);
 
 	const declarationsToUpdate =
 		await findDeclarationsReferencingFile(oldSourceFile);
@@ -163,39 +313,35 @@ export async function updateImportsInReferencingFiles(
 		const sourceFile = declaration.getSourceFile();
 		if (!moduleSpecifier || !sourceFile) continue;
 
-		const {
-			specifier: symbolSpecifier,
-			isOnlySpecifier,
-			isTypeOnlyImport,
-		} = findTargetSpecifierInfo(declaration, symbolName);
-
-		if (!symbolSpecifier) {
+		const bindings = collectMovedBindings(
+			declaration,
+			movedNames,
+			defaultExport,
+		);
+		if (bindings.specifiers.length === 0 && !bindings.includesDefaultImport) {
 			logger.trace(
-				{
-					file: referencingFilePath,
-					symbol: symbolName,
-					kind: declaration.getKindName(),
-				},
-				"Declaration does not reference the target symbol (or is not a named import/export). Skipping.",
+				{ file: referencingFilePath, kind: declaration.getKindName() },
+				"Declaration does not reference the moved symbols (or is not a named import/export). Skipping.",
 			);
 			continue;
 		}
+		const wholeDeclarationMoved = isWholeDeclarationMoved(
+			declaration,
+			bindings,
+		);
 
 		if (referencingFilePath === newFilePath) {
 			logger.trace(
 				{
 					file: referencingFilePath,
-					symbol: symbolName,
 					kind: declaration.getKindName(),
-					action: isOnlySpecifier ? "Remove Declaration" : "Remove Specifier",
+					action: wholeDeclarationMoved
+						? "Remove Declaration"
+						: "Remove Specifier",
 				},
-				"Removing import/export of moved symbol from its new file (self-reference prevention)",
+				"Removing import/export of moved symbols from their new file (self-reference prevention)",
 			);
-			if (isOnlySpecifier) {
-				declaration.remove();
-			} else {
-				symbolSpecifier.remove();
-			}
+			removeMovedBindings(declaration, bindings, wholeDeclarationMoved);
 			continue;
 		}
 
@@ -210,33 +356,38 @@ export async function updateImportsInReferencingFiles(
 			},
 		);
 
-		const currentSpecifier = moduleSpecifier.getLiteralText();
-
-		if (isOnlySpecifier) {
+		const canMergeIntoExisting =
+			findMergeableDeclaration(
+				sourceFile,
+				declaration,
+				newRelativePath,
+				bindings.newDefaultImport !== undefined,
+			) !== undefined;
+		if (wholeDeclarationMoved && bindings.keepsShape && !canMergeIntoExisting) {
+			const currentSpecifier = moduleSpecifier.getLiteralText();
 			if (currentSpecifier !== newRelativePath) {
 				logger.trace(
 					{
 						file: referencingFilePath,
-						symbol: symbolName,
 						from: currentSpecifier,
 						to: newRelativePath,
 						kind: declaration.getKindName(),
-						action: "Update Path (Only Named Symbol)",
+						action: "Update Path (Only Moved Symbols)",
 					},
-					"Updating module specifier for single named import/export declaration",
+					"Updating module specifier for import/export declaration of moved symbols",
 				);
 				moduleSpecifier.setLiteralValue(newRelativePath);
 			}
-		} else if (symbolSpecifier) {
-			splitAndUpdateDeclaration(
-				declaration,
-				symbolSpecifier,
-				sourceFile,
-				newRelativePath,
-				symbolName,
-				isTypeOnlyImport,
-				referencingFilePath,
-			);
+			continue;
 		}
+
+		moveSpecifiersToNewDeclaration(
+			declaration,
+			bindings,
+			sourceFile,
+			newRelativePath,
+			wholeDeclarationMoved,
+			referencingFilePath,
+		);
 	}
 }
@@ -0,0 +1,258 @@
+import { createHash } from "node:crypto";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import type { Project } from "ts-morph";
+import logger from "../../utils/logger";
+import { getChangedFiles } from "../_utils/ts-morph-project";
+import type { PathMapping } from "../types";
+
+/**
+ * 書き込み系ツールの実行前の状態を記録するジャーナル。
+ * `undo_last_refactor_by_tsmorph` はこの記録を使って直前の操作を取り消す。
+ *
+ * 保存先は `MCP_TSMORPH_JOURNAL_DIR` (未指定時は OS の一時ディレクトリ配下)。
+ * tsconfig ごとにサブディレクトリを分け、1 操作 = 1 JSON ファイルとして保存する。
+ * `MCP_TSMORPH_JOURNAL_DIR=off` でジャーナルを無効化できる。
+ */
+
+const JOURNAL_DIR_ENV = "MCP_TSMORPH_JOURNAL_DIR";
+const DEFAULT_JOURNAL_DIR_NAME = "mcp-tsmorph-journal";
+/** tsconfig ごとに保持するエントリ数の上限。古いものから削除する */
+const MAX_ENTRIES_PER_PROJECT = 20;
+
+/** 同一ミリ秒内に複数のエントリが作られても順序を保つための連番 */
+let entrySequence = 0;
+
+export interface JournalFileRecord {
+	filePath: string;
+	/** 操作前の内容。操作前に存在しなかったファイルは null */
+	before: string | null;
+	/** 操作後の内容の sha256。操作で削除されたファイルは null */
+	afterHash: string | null;
+}
+
+export interface RefactorJournalEntry {
+	version: 1;
+	id: string;
+	createdAt: string;
+	/** 記録元の操作名 (例: "renameSymbol") */
+	operation: string;
+	tsconfigPath: string;
+	files: JournalFileRecord[];
+	/** moveFileSystemEntries で移動したファイル */
+	movedFiles: PathMapping[];
+	/** 操作で新たに作成されたディレクトリ (取り消し時に空なら削除する) */
+	createdDirectories: string[];
+	/** cleanupEmptyOldDirectories で削除されたディレクトリ (取り消し時に再作成する) */
+	removedDirectories: string[];
+}
+
+/**
+ * 保存前に `prepareJournalEntry` で作り、保存後に `writeJournalEntry` で確定させる途中状態。
+ */
+export interface PendingJournalEntry {
+	operation: string;
+	tsconfigPath: string;
+	files: { filePath: string; before: string | null }[];
+	movedFiles: PathMapping[];
+	createdDirectories: string[];
+}
+
+/**
+ * ジャーナルの保存先ディレクトリを返す。無効化されている場合は undefined。
+ */
+export function getJournalDirectory(): string | undefined {
+	const configured = process.env[JOURNAL_DIR_ENV];
+	if (configured === "off") {
+		return undefined;
+	}
+	return configured
+		? path.resolve(configured)
+		: path.join(os.tmpdir(), DEFAULT_JOURNAL_DIR_NAME);
+}
+
+/**
+ * tsconfig に対応するエントリ格納ディレクトリ。
+ */
+export function getProjectJournalDirectory(
+	journalDir: string,
+	tsconfigPath: string,
+): string {
+	const key = createHash("sha256")
+		.update(path.resolve(tsconfigPath))
+		.digest("hex")
+		.slice(0, 16);
+	return path.join(journalDir, key);
+}
+
+export function hashContent(content: string): string {
+	return createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * 保存直前の Project から、変更対象ファイルのディスク上の内容を控える。
+ * tsconfig から構築されていない Project (in-memory のテスト等) やジャーナル無効時は undefined。
+ *
+ * @param removedFilePaths ファイル移動などで Project から外れ、保存時に削除されるファイル
+ * @param movedFiles 移動したファイルの対応 (記録用)
+ */
+export function prepareJournalEntry(
+	project: Project,
+	{
+		operation,
+		removedFilePaths = [],
+		movedFiles = [],
+	}: {
+		operation: string;
+		removedFilePaths?: readonly string[];
+		movedFiles?: readonly PathMapping[];
+	},
+): PendingJournalEntry | undefined {
+	const configFilePath = project.compilerOptions.get().configFilePath;
+	if (typeof configFilePath !== "string" || !getJournalDirectory()) {
+		return undefined;
+	}
+
+	const filePaths = new Set<string>([
+		...getChangedFiles(project).map((sf) => sf.getFilePath()),
+		...removedFilePaths,
+		...movedFiles.map((m) => m.oldPath),
+	]);
+	const files = [...filePaths].map((filePath) => ({
+		filePath,
+		before: readFileIfExists(filePath),
+	}));
+
+	const createdDirectories = new Set<string>();
+	for (const { filePath, before } of files) {
+		if (before !== null) continue;
+		let dir = path.dirname(filePath);
+		while (!fs.existsSync(dir) && !createdDirectories.has(dir)) {
+			createdDirectories.add(dir);
+			dir = path.dirname(dir);
+		}
+	}
+
+	return {
+		operation,
+		tsconfigPath: configFilePath,
+		files,
+		movedFiles: [...movedFiles],
+		createdDirectories: [...createdDirectories],
+	};
+}
+
+/**
+ * 保存後のディスクの状態と合わせてエントリを書き出す。
+ * ジャーナルの書き込みに失敗してもリファクタリング自体は成功しているので、警告ログに留める。
+ */
+export function writeJournalEntry(
+	pending: PendingJournalEntry | undefined,
+	{ removedDirectories = [] }: { removedDirectories?: readonly string[] } = {},
+): void {
+	const journalDir = getJournalDirectory();
+	if (!pending || !journalDir) {
+		return;
+	}
+
+	try {
+		const files: JournalFileRecord[] = [];
+		for (const { filePath, before } of pending.files) {
+			const after = readFileIfExists(filePath);
+			if (after === before) continue;
+			files.push({
+				filePath,
+				before,
+				afterHash: after === null ? null : hashContent(after),
+			});
+		}
+		if (files.length === 0 && removedDirectories.length === 0) {
+			return;
+		}
+
+		const createdAt = new Date();
+		const sequence = String(entrySequence++).padStart(6, "0");
+		const id = `${createdAt.getTime()}-${sequence}-${process.pid}`;
+		const entry: RefactorJournalEntry = {
+			version: 1,
+			id,
+			createdAt: createdAt.toISOString(),
+			operation: pending.operation,
+			tsconfigPath: pending.tsconfigPath,
+			files,
+			movedFiles: pending.movedFiles,
+			createdDirectories: pending.createdDirectories,
+			removedDirectories: [...removedDirectories],
+		};
+
+		const projectDir = getProjectJournalDirectory(
+			journalDir,
+			pending.tsconfigPath,
+		);
+		fs.mkdirSync(projectDir, { recursive: true });
+		fs.writeFileSync(
+			path.join(projectDir, `${id}.json`),
+			JSON.stringify(entry),
+			"utf-8",
+		);
+		pruneOldEntries(projectDir);
+		logger.debug(
+			{ id, operation: pending.operation, fileCount: files.length },
+			"Refactor journal entry written",
+		);
+	} catch (error) {
+		logger.warn({ err: error }, "Failed to write refactor journal entry");
+	}
+}
+
+/**
+ * tsconfig に対応する最新のエントリを返す。無ければ undefined。
+ */
+export function readLastJournalEntry(
+	tsconfigPath: string,
+): { entry: RefactorJournalEntry; entryPath: string } | undefined {
+	const journalDir = getJournalDirectory();
+	if (!journalDir) {
+		return undefined;
+	}
+	const projectDir = getProjectJournalDirectory(journalDir, tsconfigPath);
+	const [latest] = listEntryFiles(projectDir).reverse();
+	if (!latest) {
+		return undefined;
+	}
+	const entryPath = path.join(projectDir, latest);
+	const entry = JSON.parse(
+		fs.readFileSync(entryPath, "utf-8"),
+	) as RefactorJournalEntry;
+	return { entry, entryPath };
+}
+
+function listEntryFiles(projectDir: string): string[] {
+	if (!fs.existsSync(projectDir)) {
+		return [];
+	}
+	// id は作成時刻 (ミリ秒) 始まりなので、名前順 = 作成順
+	return fs
+		.readdirSync(projectDir)
+		.filter((name) => name.endsWith(".json"))
+		.sort();
+}
+
+function pruneOldEntries(projectDir: string): void {
+	const entries = listEntryFiles(projectDir);
+	for (const name of entries.slice(
+		0,
+		Math.max(0, entries.length - MAX_ENTRIES_PER_PROJECT),
+	)) {
+		fs.rmSync(path.join(projectDir, name), { force: true });
+	}
+}
+
+export function readFileIfExists(filePath: string): string | null {
+	try {
+		return fs.readFileSync(filePath, "utf-8");
+	} catch {
+		return null;
+	}
+}
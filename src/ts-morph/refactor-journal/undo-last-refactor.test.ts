@@ -0,0 +1,117 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { getProject, invalidateProject } from "../_utils/project-registry";
+import { renameFileSystemEntry } from "../rename-file-system/rename-file-system-entry";
+import { renameSymbol } from "../rename-symbol/rename-symbol";
+import { readLastJournalEntry } from "./refactor-journal";
+import { undoLastRefactor } from "./undo-last-refactor";
+
+describe("undoLastRefactor", () => {
+	let tempDir: string;
+	let tsconfigPath: string;
+	let srcDir: string;
+
+	beforeEach(() => {
+		tempDir = fs.realpathSync(
+			fs.mkdtempSync(path.join(os.tmpdir(), "undo-last-refactor-test-")),
+		);
+		vi.stubEnv("MCP_TSMORPH_JOURNAL_DIR", path.join(tempDir, ".journal"));
+		tsconfigPath = path.join(tempDir, "tsconfig.json");
+		srcDir = path.join(tempDir, "src");
+		fs.mkdirSync(srcDir, { recursive: true });
+		fs.writeFileSync(
+			tsconfigPath,
+			JSON.stringify({
+				compilerOptions: { target: "ES2020", module: "ESNext" },
+				include: ["src/**/*.ts"],
+			}),
+		);
+	});
+
+	afterEach(() => {
+		vi.unstubAllEnvs();
+		invalidateProject();
+		fs.rmSync(tempDir, { recursive: true, force: true });
+	});
+
+	function write(relativePath: string, content: string): string {
+		const filePath = path.join(srcDir, relativePath);
+		fs.mkdirSync(path.dirname(filePath), { recursive: true });
+		fs.writeFileSync(filePath, content);
+		return filePath;
+	}
+
+	it("リネームを取り消して元の内容に戻す", async () => {
+		const utilsPath = write("utils.ts", "export const oldName = 1;\n");
+		const mainPath = write(
+			"main.ts",
+			'import { oldName } from "./utils";\nconsole.log(oldName);\n',
+		);
+
+		await renameSymbol({
+			tsconfigPath,
+			targetFilePath: utilsPath,
+			position: { line: 1, column: 14 },
+			symbolName: "oldName",
+			newName: "newName",
+		});
+		expect(fs.readFileSync(mainPath, "utf-8")).toContain("newName");
+
+		const result = undoLastRefactor(tsconfigPath);
+
+		expect(result.operation).toBe("renameSymbol");
+		expect(result.restoredFiles.sort()).toEqual([mainPath, utilsPath].sort());
+		expect(fs.readFileSync(utilsPath, "utf-8")).toBe(
+			"export const oldName = 1;\n",
+		);
+		expect(fs.readFileSync(mainPath, "utf-8")).toBe(
+			'import { oldName } from "./utils";\nconsole.log(oldName);\n',
+		);
+		expect(() => undoLastRefactor(tsconfigPath)).toThrow(
+			"取り消せる操作の記録がありません",
+		);
+	});
+
+	it("操作後に編集されたファイルがある場合は何も変更せずにエラー", async () => {
+		const utilsPath = write("utils.ts", "export const oldName = 1;\n");
+
+		await renameSymbol({
+			tsconfigPath,
+			targetFilePath: utilsPath,
+			position: { line: 1, column: 14 },
+			symbolName: "oldName",
+			newName: "newName",
+		});
+		fs.writeFileSync(utilsPath, "export const newName = 2;\n");
+
+		expect(() => undoLastRefactor(tsconfigPath)).toThrow(utilsPath);
+		expect(fs.readFileSync(utilsPath, "utf-8")).toBe(
+			"export const newName = 2;\n",
+		);
+		expect(readLastJournalEntry(tsconfigPath)).toBeDefined();
+	});
+
+	it("ディレクトリの移動を取り消し、削除された旧ディレクトリを再作成する", async () => {
+		const helperPath = write("old-dir/helper.ts", "export const h = 1;\n");
+		const mainPath = write(
+			"main.ts",
+			'import { h } from "./old-dir/helper";\nconsole.log(h);\n',
+		);
+		const newDir = path.join(srcDir, "new-dir");
+
+		await renameFileSystemEntry({
+			project: getProject(tsconfigPath),
+			renames: [{ oldPath: path.join(srcDir, "old-dir"), newPath: newDir }],
+		});
+		expect(fs.existsSync(path.join(srcDir, "old-dir"))).toBe(false);
+
+		const result = undoLastRefactor(tsconfigPath);
+
+		expect(result.deletedFiles).toEqual([path.join(newDir, "helper.ts")]);
+		expect(fs.readFileSync(helperPath, "utf-8")).toBe("export const h = 1;\n");
+		expect(fs.readFileSync(mainPath, "utf-8")).toContain('"./old-dir/helper"');
+		expect(fs.existsSync(newDir)).toBe(false);
+	});
+});
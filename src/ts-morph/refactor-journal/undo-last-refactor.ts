@@ -0,0 +1,99 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import logger from "../../utils/logger";
+import {
+	hashContent,
+	readFileIfExists,
+	readLastJournalEntry,
+} from "./refactor-journal";
+
+export interface UndoLastRefactorResult {
+	operation: string;
+	createdAt: string;
+	/** 操作前の内容に書き戻したファイル */
+	restoredFiles: string[];
+	/** 操作で作成されたため削除したファイル */
+	deletedFiles: string[];
+}
+
+/**
+ * tsconfig に対応するジャーナルの最新エントリを使って、直前の書き込み操作を取り消す。
+ *
+ * 操作後にファイルが編集されている (内容のハッシュが記録と異なる) 場合は、
+ * その変更を失わないよう何も書き換えずにエラーにする。
+ * 取り消しに成功したエントリは削除されるので、繰り返し呼ぶと 1 つずつ遡れる。
+ */
+export function undoLastRefactor(tsconfigPath: string): UndoLastRefactorResult {
+	const last = readLastJournalEntry(tsconfigPath);
+	if (!last) {
+		throw new Error(
+			`取り消せる操作の記録がありません (tsconfig: ${path.resolve(tsconfigPath)})`,
+		);
+	}
+	const { entry, entryPath } = last;
+
+	const modifiedFiles = entry.files.filter(({ filePath, afterHash }) => {
+		const current = readFileIfExists(filePath);
+		const currentHash = current === null ? null : hashContent(current);
+		return currentHash !== afterHash;
+	});
+	if (modifiedFiles.length > 0) {
+		throw new Error(
+			`操作 (${entry.operation}, ${entry.createdAt}) の後に変更されたファイルがあるため取り消せません:\n${modifiedFiles
+				.map((f) => `  - ${f.filePath}`)
+				.join("\n")}`,
+		);
+	}
+
+	for (const dir of entry.removedDirectories) {
+		fs.mkdirSync(dir, { recursive: true });
+	}
+
+	const restoredFiles: string[] = [];
+	const deletedFiles: string[] = [];
+	for (const { filePath, before } of entry.files) {
+		if (before === null) {
+			fs.rmSync(filePath, { force: true });
+			deletedFiles.push(filePath);
+			continue;
+		}
+		fs.mkdirSync(path.dirname(filePath), { recursive: true });
+		fs.writeFileSync(filePath, before, "utf-8");
+		restoredFiles.push(filePath);
+	}
+
+	// 深い順に並べて、操作で作られたディレクトリが空になっていれば削除する
+	const createdDirectories = [...entry.createdDirectories].sort(
+		(a, b) => b.length - a.length,
+	);
+	for (const dir of createdDirectories) {
+		try {
+			if (fs.existsSync(dir) && fs.readdirSync(dir).length === 0) {
+				fs.rmdirSync(dir);
+			}
+		} catch (err) {
+			logger.warn(
+				{ err, dir },
+				"Failed to remove directory created by refactor",
+			);
+		}
+	}
+
+	fs.rmSync(entryPath, { force: true });
+	logger.info(
+		{
+			id: entry.id,
+			operation: entry.operation,
+			restored: restoredFiles.length,
+			deleted: deletedFiles.length,
+		},
+		"Undo completed",
+	);
+
+	return {
+		operation: entry.operation,
+		createdAt: entry.createdAt,
+		restoredFiles,
+		deletedFiles,
+	};
+}
@@ -13,13 +13,16 @@ import type { PathMapping } from "../types";
  *  - FS 上にエントリが残っているディレクトリは触らない (untracked file 保護)
  *  - 削除は1段ずつ。`Directory.delete()` の再帰削除は untracked を巻き込むので使わない
  *  - 失敗しても rename 全体は失敗させず warn ログだけ出す (副作用扱い)
+ *
+ * @returns 実際に FS から削除したディレクトリのパス
  */
 export function cleanupEmptyOldDirectories(
 	project: Project,
 	directoryRenames: PathMapping[],
 	signal?: AbortSignal,
-): void {
-	if (directoryRenames.length === 0) return;
+): string[] {
+	const removedDirectories: string[] = [];
+	if (directoryRenames.length === 0) return removedDirectories;
 	const fs = project.getFileSystem();
 
 	for (const { oldPath } of directoryRenames) {
@@ -53,9 +56,11 @@ export function cleanupEmptyOldDirectories(
 				}
 				fs.deleteSync(dirPath);
 				dir.forget();
+				removedDirectories.push(dirPath);
 			} catch (err) {
 				logger.warn({ err, dirPath }, "Failed to cleanup empty old directory");
 			}
 		}
 	}
+	return removedDirectories;
 }
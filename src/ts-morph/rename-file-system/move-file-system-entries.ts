@@ -20,13 +20,15 @@ import { withSkippedTsMorphReferenceUpdates } from "./_utils/skip-ts-morph-ref-u
  * fallback: in-memory FS テスト等で `directoryExistsSync` が false の場合は
  * `Directory.move()` の queueMoveDirectory が flush 時に失敗するため、
  * その directory rename は per-file move に流す。
+ *
+ * @returns 移動したファイルの旧パス/新パスの対応 (ディレクトリ単位の移動も 1 ファイルずつ展開)
  */
 export function moveFileSystemEntries(
 	project: Project,
 	renameOperations: RenameOperation[],
 	directoryRenames: PathMapping[],
 	signal?: AbortSignal,
-) {
+): PathMapping[] {
 	const startTime = performance.now();
 	signal?.throwIfAborted();
 	const fs = project.getFileSystem();
@@ -89,4 +91,5 @@ export function moveFileSystemEntries(
 
 	const durationMs = (performance.now() - startTime).toFixed(2);
 	logger.debug({ durationMs }, "Finished file system moves");
+	return renameOperations.map(({ oldPath, newPath }) => ({ oldPath, newPath }));
 }
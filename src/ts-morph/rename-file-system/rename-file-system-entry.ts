@@ -2,6 +2,11 @@ import * as path from "node:path";
 import { performance } from "node:perf_hooks";
 import type { Project } from "ts-morph";
 import logger from "../../utils/logger";
+import {
+	collectFileDiffs,
+	collectRemovedFileDiffs,
+	type FileDiff,
+} from "../_utils/file-diff";
 import {
 	getChangedFiles,
 	getTsConfigAliasKeys,
@@ -13,6 +18,10 @@ import type {
 	RenameOperation,
 } from "../types";
 import { isPathAlias } from "../_utils/path-alias";
+import {
+	prepareJournalEntry,
+	writeJournalEntry,
+} from "../refactor-journal/refactor-journal";
 import { cleanupEmptyOldDirectories } from "./cleanup-empty-old-directories";
 import { findDeclarationsForRenameOperation } from "./_utils/find-declarations-for-rename-operation";
 import { moveFileSystemEntries } from "./move-file-system-entries";
@@ -115,21 +124,24 @@ async function findAllDeclarationsToUpdate(
  * @param project ts-morph プロジェクトインスタンス
  * @param renames リネーム対象のパスのペア ({ oldPath: string, newPath: string }) の配列
  * @param dryRun trueの場合、ファイルシステムへの変更を保存せずに、変更されるファイルのリストのみを返す
+ * @param includeDiff trueの場合、保存前の in-memory の内容とディスクとの unified diff を返す (移動元のパスは全削除の差分)
  * @param signal オプショナルな AbortSignal。処理をキャンセルするために使用できる
- * @returns 変更されたファイルの絶対パスのリスト
+ * @returns 変更されたファイルの絶対パスのリスト (includeDiff の場合は差分も)
  * @throws リネーム処理中にエラーが発生した場合、または signal によってキャンセルされた場合
  */
 export async function renameFileSystemEntry({
 	project,
 	renames,
 	dryRun = false,
+	includeDiff = false,
 	signal,
 }: {
 	project: Project;
 	renames: PathMapping[];
 	dryRun?: boolean;
+	includeDiff?: boolean;
 	signal?: AbortSignal;
-}): Promise<{ changedFiles: string[] }> {
+}): Promise<{ changedFiles: string[]; diffs?: FileDiff[] }> {
 	const mainStartTime = performance.now();
 	const logProps = {
 		renames: renames.map((r) => ({
@@ -141,6 +153,7 @@ export async function renameFileSystemEntry({
 	logger.info({ props: logProps }, "renameFileSystemEntry started");
 
 	let changedFilePaths: string[] = [];
+	let diffs: FileDiff[] | undefined;
 	let errorOccurred = false;
 	let errorMessage = "";
 
@@ -161,7 +174,12 @@ export async function renameFileSystemEntry({
 		);
 		signal?.throwIfAborted();
 
-		moveFileSystemEntries(project, renameOperations, directoryRenames, signal);
+		const movedFiles = moveFileSystemEntries(
+			project,
+			renameOperations,
+			directoryRenames,
+			signal,
+		);
 		signal?.throwIfAborted();
 
 		updateModuleSpecifiers(allDeclarationsToUpdate, renameOperations, signal);
@@ -169,9 +187,22 @@ export async function renameFileSystemEntry({
 		const saveStart = performance.now();
 		const changed = getChangedFiles(project);
 		changedFilePaths = changed.map((f) => f.getFilePath());
+		if (includeDiff) {
+			diffs = [
+				...collectFileDiffs(project, changed),
+				...collectRemovedFileDiffs(
+					project,
+					movedFiles.map((file) => file.oldPath),
+				),
+			];
+		}
 
 		if (!dryRun && changed.length > 0) {
 			signal?.throwIfAborted();
+			const journal = prepareJournalEntry(project, {
+				operation: "renameFileSystemEntry",
+				movedFiles,
+			});
 			await saveProjectChanges(project, signal);
 			logger.debug(
 				{
@@ -182,7 +213,12 @@ export async function renameFileSystemEntry({
 			);
 			// FS への永続化が完了した後でなければ、旧ディレクトリは依然として
 			// 移動前のファイルを保持しているため readDirSync が空にならない
-			cleanupEmptyOldDirectories(project, directoryRenames, signal);
+			const removedDirectories = cleanupEmptyOldDirectories(
+				project,
+				directoryRenames,
+				signal,
+			);
+			writeJournalEntry(journal, { removedDirectories });
 		} else if (dryRun) {
 			logger.info({ count: changed.length }, "Dry run: Skipping save");
 		} else {
@@ -213,5 +249,5 @@ export async function renameFileSystemEntry({
 		);
 	}
 
-	return { changedFiles: changedFilePaths };
+	return { changedFiles: changedFilePaths, diffs };
 }
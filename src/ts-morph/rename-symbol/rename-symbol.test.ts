@@ -4,6 +4,7 @@ import { createInMemoryProject } from "../_test-utils/create-in-memory-project";
 import {
 	findAllReferencesAsNodes,
 	findIdentifierNode,
+	renameSymbolOnProject,
 	validateSymbol,
 } from "./rename-symbol";
 
@@ -123,3 +124,107 @@ describe("findAllReferencesAsNodes", () => {
 		expect(references.length).toBeGreaterThanOrEqual(2);
 	});
 });
+
+describe("renameSymbolOnProject (findInComments / findInStrings)", () => {
+	const setupRenameProject = () => {
+		const project = createInMemoryProject();
+		project.createSourceFile(
+			"/src/widget.ts",
+			[
+				"/** Creates a {@link Widget}. The Widget is cached. */",
+				"export class Widget {}",
+				"// Widget registry",
+				'export const testId = "Widget";',
+			].join("\n"),
+		);
+		project.createSourceFile(
+			"/src/widget.test.ts",
+			[
+				'import { Widget } from "./widget";',
+				'it("Widget renders", () => new Widget());',
+			].join("\n"),
+		);
+		return project;
+	};
+	const rename = (
+		project: ReturnType<typeof createInMemoryProject>,
+		flags: { findInComments?: boolean; findInStrings?: boolean },
+	) =>
+		renameSymbolOnProject(project, {
+			targetFilePath: "/src/widget.ts",
+			position: { line: 2, column: 14 },
+			symbolName: "Widget",
+			newName: "Gadget",
+			dryRun: true,
+			...flags,
+		});
+
+	it("オプションなしでは参照と {@link} だけを書き換え、追加の出現箇所は返さない", async () => {
+		const project = setupRenameProject();
+		const result = await rename(project, {});
+
+		expect(result.textOccurrences).toBeUndefined();
+		expect(project.getSourceFileOrThrow("/src/widget.ts").getFullText()).toBe(
+			[
+				"/** Creates a {@link Gadget}. The Widget is cached. */",
+				"export class Gadget {}",
+				"// Widget registry",
+				'export const testId = "Widget";',
+			].join("\n"),
+		);
+	});
+
+	it("findInComments はコメント・JSDoc 内の出現を書き換え、参照とは別に返す", async () => {
+		const project = setupRenameProject();
+		const result = await rename(project, { findInComments: true });
+
+		expect(result.textOccurrences).toEqual([
+			{
+				filePath: "/src/widget.ts",
+				line: 1,
+				column: 35,
+				kind: "jsdoc",
+				lineText: "/** Creates a {@link Widget}. The Widget is cached. */",
+			},
+			{
+				filePath: "/src/widget.ts",
+				line: 3,
+				column: 4,
+				kind: "comment",
+				lineText: "// Widget registry",
+			},
+		]);
+		const text = project.getSourceFileOrThrow("/src/widget.ts").getFullText();
+		expect(text).toContain("The Gadget is cached.");
+		expect(text).toContain("// Gadget registry");
+		expect(text).toContain('"Widget"');
+	});
+
+	it("findInStrings は文字列リテラル内の出現を書き換えて返す", async () => {
+		const project = setupRenameProject();
+		const result = await rename(project, { findInStrings: true });
+
+		expect(result.textOccurrences).toEqual([
+			{
+				filePath: "/src/widget.test.ts",
+				line: 2,
+				column: 5,
+				kind: "string",
+				lineText: 'it("Widget renders", () => new Widget());',
+			},
+			{
+				filePath: "/src/widget.ts",
+				line: 4,
+				column: 24,
+				kind: "string",
+				lineText: 'export const testId = "Widget";',
+			},
+		]);
+		expect(
+			project.getSourceFileOrThrow("/src/widget.test.ts").getFullText(),
+		).toContain('it("Gadget renders", () => new Gadget());');
+		expect(
+			project.getSourceFileOrThrow("/src/widget.ts").getFullText(),
+		).toContain("// Widget registry");
+	});
+});
@@ -1,10 +1,28 @@
-import { type Project, SyntaxKind, type Identifier, type Node } from "ts-morph";
+import {
+	type Project,
+	SyntaxKind,
+	type Identifier,
+	Node,
+	type RenameLocation,
+} from "ts-morph";
 // 共通関数をインポート
 import {
-	initializeProject,
 	getChangedFiles,
 	saveProjectChanges,
 } from "../_utils/ts-morph-project";
+import { type FileDiff, collectFileDiffs } from "../_utils/file-diff";
+import { getProject } from "../_utils/project-registry";
+import {
+	prepareJournalEntry,
+	writeJournalEntry,
+} from "../refactor-journal/refactor-journal";
+
+export interface RenameSymbolResult {
+	changedFiles: string[];
+	diffs?: FileDiff[];
+	/** `findInComments` / `findInStrings` を指定した場合の、参照以外に書き換えた出現箇所 */
+	textOccurrences?: RenameTextOccurrence[];
+}
 
 // --- Helper Functions ---
 
@@ -80,16 +98,88 @@ export function findAllReferencesAsNodes(identifier: Identifier): Node[] {
 	return identifier.findReferencesAsNodes();
 }
 
+/**
+ * 型チェッカーの参照ではなく、`findInComments` / `findInStrings` で追加で書き換える出現箇所。
+ * 位置はリネーム前のもの。
+ */
+export interface RenameTextOccurrence {
+	filePath: string;
+	/** 1-based 行番号 */
+	line: number;
+	/** 1-based 列番号 */
+	column: number;
+	/** jsdoc: JSDoc コメント内 / comment: それ以外のコメント内 / string: 文字列リテラル・テンプレート内 */
+	kind: "comment" | "jsdoc" | "string";
+	/** 出現箇所を含む行のテキスト (前後の空白を除く) */
+	lineText: string;
+}
+
+function classifyOccurrence(location: RenameLocation): RenameTextOccurrence {
+	const sourceFile = location.getSourceFile();
+	const start = location.getTextSpan().getStart();
+	const node = sourceFile.getDescendantAtPos(start);
+	let kind: RenameTextOccurrence["kind"] = "comment";
+	if (
+		node &&
+		(Node.isStringLiteral(node) ||
+			Node.isNoSubstitutionTemplateLiteral(node) ||
+			Node.isTemplateHead(node) ||
+			Node.isTemplateMiddle(node) ||
+			Node.isTemplateTail(node))
+	) {
+		kind = "string";
+	} else if (node?.getKindName().startsWith("JSDoc")) {
+		kind = "jsdoc";
+	}
+	const { line, column } = sourceFile.getLineAndColumnAtPos(start);
+	const lineStart = start - (column - 1);
+	const lineEnd = sourceFile.getFullText().indexOf("\n", start);
+	return {
+		filePath: sourceFile.getFilePath(),
+		line,
+		column,
+		kind,
+		lineText: sourceFile
+			.getFullText()
+			.slice(lineStart, lineEnd === -1 ? undefined : lineEnd)
+			.trim(),
+	};
+}
+
+/**
+ * `findInComments` / `findInStrings` を有効にしたときに、型チェッカーの参照に加えて
+ * 書き換わる出現箇所 (コメント・JSDoc・文字列リテラル内) を返す。
+ * TypeScript の言語サービスの findRenameLocations をオプションあり / なしで比較して求める。
+ */
+function findTextOccurrences(
+	project: Project,
+	identifier: Identifier,
+	options: { renameInComments: boolean; renameInStrings: boolean },
+): RenameTextOccurrence[] {
+	const languageService = project.getLanguageService();
+	const keyOf = (location: RenameLocation) =>
+		`${location.getSourceFile().getFilePath()}:${location.getTextSpan().getStart()}`;
+	const referenceKeys = new Set(
+		languageService.findRenameLocations(identifier).map(keyOf),
+	);
+	return languageService
+		.findRenameLocations(identifier, options)
+		.filter((location) => !referenceKeys.has(keyOf(location)))
+		.map(classifyOccurrence)
+		.sort(
+			(a, b) =>
+				a.filePath.localeCompare(b.filePath) ||
+				a.line - b.line ||
+				a.column - b.column,
+		);
+}
+
 /**
  * 指定されたシンボルをプロジェクト全体でリネームする
  */
 export async function renameSymbol({
 	tsconfigPath,
-	targetFilePath,
-	position,
-	symbolName,
-	newName,
-	dryRun = false,
+	...params
 }: {
 	tsconfigPath: string;
 	targetFilePath: string;
@@ -97,16 +187,69 @@ export async function renameSymbol({
 	symbolName: string;
 	newName: string;
 	dryRun?: boolean;
-}): Promise<{ changedFiles: string[] }> {
-	const project = initializeProject(tsconfigPath);
+	/** true の場合、保存前の in-memory の内容とディスクとの unified diff を返す */
+	includeDiff?: boolean;
+	/** true の場合、コメント・JSDoc 内の同名の出現も書き換える */
+	findInComments?: boolean;
+	/** true の場合、文字列リテラル・テンプレート内の同名の出現も書き換える */
+	findInStrings?: boolean;
+}): Promise<RenameSymbolResult> {
+	const project = getProject(tsconfigPath);
+	return renameSymbolOnProject(project, params);
+}
+
+/**
+ * 既存の Project に対してリネームを適用する。
+ * batch_refactor のように 1 つの Project 上で複数の操作を連続して行う場合に使う。
+ */
+export async function renameSymbolOnProject(
+	project: Project,
+	{
+		targetFilePath,
+		position,
+		symbolName,
+		newName,
+		dryRun = false,
+		includeDiff = false,
+		findInComments = false,
+		findInStrings = false,
+	}: {
+		targetFilePath: string;
+		position: { line: number; column: number };
+		symbolName: string;
+		newName: string;
+		dryRun?: boolean;
+		includeDiff?: boolean;
+		findInComments?: boolean;
+		findInStrings?: boolean;
+	},
+): Promise<RenameSymbolResult> {
 	const identifierNode = findIdentifierNode(project, targetFilePath, position);
 	validateSymbol(identifierNode, symbolName);
-	identifierNode.rename(newName);
+	const renameOptions = {
+		renameInComments: findInComments,
+		renameInStrings: findInStrings,
+	};
+	// リネーム後は位置がずれるため、追加の出現箇所は書き換える前に求める
+	const textOccurrences =
+		findInComments || findInStrings
+			? findTextOccurrences(project, identifierNode, renameOptions)
+			: undefined;
+	identifierNode.rename(newName, renameOptions);
 
 	const changedFiles = getChangedFiles(project);
+	const diffs = includeDiff
+		? collectFileDiffs(project, changedFiles)
+		: undefined;
 
 	if (!dryRun) {
+		const journal = prepareJournalEntry(project, { operation: "renameSymbol" });
 		await saveProjectChanges(project);
+		writeJournalEntry(journal);
 	}
-	return { changedFiles: changedFiles.map((f) => f.getFilePath()) };
+	return {
+		changedFiles: changedFiles.map((f) => f.getFilePath()),
+		diffs,
+		textOccurrences,
+	};
 }
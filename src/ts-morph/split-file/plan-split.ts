@@ -0,0 +1,335 @@
+import * as path from "node:path";
+import {
+	type ImportDeclaration,
+	Node,
+	type SourceFile,
+	type Statement,
+	SyntaxKind,
+} from "ts-morph";
+import { getSpecifierFromTarget } from "../merge-files/build-merged-imports";
+import { findTopLevelDeclarationByName } from "../move-symbol-to-file/find-declaration";
+import { getDeclarationIdentifier } from "../move-symbol-to-file/get-declaration-identifier";
+import type { DefaultExportHandling } from "../types";
+import type { SplitFileGroup, SplitFileStrategy } from "./types";
+
+/** 分割・依存の対象になるトップレベルの宣言の種類 (internal-dependencies と同じ) */
+const DECLARATION_KINDS = [
+	SyntaxKind.VariableStatement,
+	SyntaxKind.FunctionDeclaration,
+	SyntaxKind.ClassDeclaration,
+	SyntaxKind.InterfaceDeclaration,
+	SyntaxKind.TypeAliasDeclaration,
+	SyntaxKind.EnumDeclaration,
+];
+
+/** グループごとに移動する宣言 */
+export interface PlannedGroup extends SplitFileGroup {
+	declarations: Statement[];
+}
+
+/** バレルとして残す元のファイルから re-export する名前 */
+export interface BarrelExport {
+	/** 移動先でのエクスポート名 (`default` を含む) */
+	name: string;
+	isTypeOnly: boolean;
+}
+
+function getTopLevelDeclarations(sourceFile: SourceFile): Statement[] {
+	return sourceFile
+		.getStatements()
+		.filter((statement) => DECLARATION_KINDS.includes(statement.getKind()));
+}
+
+function isExportedStatement(statement: Statement): boolean {
+	return (
+		Node.isExportable(statement) &&
+		(statement.isExported() || statement.isDefaultExport())
+	);
+}
+
+/**
+ * `function a() {}` + `export { a }` や `export default a;` のように、宣言とは別の文で export されているか
+ */
+function isExportedByOtherStatement(statement: Statement): boolean {
+	return (
+		Node.isExportable(statement) &&
+		(statement.isExported() || statement.isDefaultExport()) &&
+		!statement.hasExportKeyword()
+	);
+}
+
+/**
+ * 文が宣言している名前 (VariableStatement は分割代入を除くすべての宣言子)。
+ * 名前のない default export は空配列。
+ */
+function getDeclaredNames(statement: Statement): string[] {
+	if (Node.isVariableStatement(statement)) {
+		return statement
+			.getDeclarations()
+			.map((declaration) => declaration.getNameNode())
+			.filter(Node.isIdentifier)
+			.map((nameNode) => nameNode.getText());
+	}
+	const name = getDeclarationIdentifier(statement)?.getText();
+	return name ? [name] : [];
+}
+
+/**
+ * シンボル名を kebab-case のファイル名に変換する (`parseURL` -> `parse-url`, `HTTPClient` -> `http-client`)。
+ */
+export function toKebabCase(name: string): string {
+	return name
+		.replace(/([A-Z]+)([A-Z][a-z])/g, "$1-$2")
+		.replace(/([a-z0-9])([A-Z])/g, "$1-$2")
+		.replace(/_+/g, "-")
+		.toLowerCase();
+}
+
+/**
+ * strategy からグループを決める。
+ * onePerExport: export されたトップレベルの宣言 (文) ごとに `<outputDirectory>/<kebab-case の最初の名前>.ts` を作る。
+ * `export const x = 1, y = 2;` のように複数の名前を宣言する文は文ごと移動するので、すべての名前を同じグループにする。
+ */
+function groupsFromStrategy(
+	sourceFile: SourceFile,
+	strategy: SplitFileStrategy,
+	outputDirectory: string,
+): SplitFileGroup[] {
+	switch (strategy) {
+		case "onePerExport":
+			return getTopLevelDeclarations(sourceFile)
+				.filter(isExportedStatement)
+				.flatMap((statement) => {
+					// 名前のない default export は名前で移動できないので元のファイルに残す
+					const names = getDeclaredNames(statement);
+					return names.length > 0
+						? [
+								{
+									filePath: path.join(
+										outputDirectory,
+										`${toKebabCase(names[0])}${path.extname(sourceFile.getFilePath())}`,
+									),
+									symbols: names,
+								},
+							]
+						: [];
+				});
+	}
+}
+
+/**
+ * groups または strategy から分割先のグループを決め、各シンボルの宣言と対応づける。
+ * 移動先の重複、元のファイル自身への移動、シンボルの重複・不在、1 つの文の名前を複数のグループに分けること、
+ * 別の文 (`export { a }` など) で export されている宣言の移動はエラーにする。
+ */
+export function planSplitGroups(
+	sourceFile: SourceFile,
+	{
+		groups,
+		strategy,
+		outputDirectory,
+	}: {
+		groups?: SplitFileGroup[];
+		strategy?: SplitFileStrategy;
+		outputDirectory?: string;
+	},
+): PlannedGroup[] {
+	if ((groups === undefined) === (strategy === undefined)) {
+		throw new Error("groups と strategy のどちらか一方を指定してください");
+	}
+	const originalFilePath = sourceFile.getFilePath();
+	const resolvedGroups = strategy
+		? groupsFromStrategy(
+				sourceFile,
+				strategy,
+				outputDirectory ?? path.dirname(originalFilePath),
+			)
+		: (groups ?? []);
+	if (resolvedGroups.length === 0) {
+		throw new Error(`${originalFilePath} に分割できるシンボルがありません`);
+	}
+
+	const seenFilePaths = new Set<string>();
+	const seenSymbols = new Set<string>();
+	const groupOfDeclaration = new Map<Statement, string>();
+	return resolvedGroups.map(({ filePath, symbols }) => {
+		if (filePath === originalFilePath) {
+			throw new Error(
+				`分割先 ${filePath} が分割するファイル自身です。別のファイル (strategy の場合は outputDirectory) を指定してください`,
+			);
+		}
+		if (seenFilePaths.has(filePath)) {
+			throw new Error(`分割先 ${filePath} が複数のグループで指定されています`);
+		}
+		seenFilePaths.add(filePath);
+		if (symbols.length === 0) {
+			throw new Error(`分割先 ${filePath} のシンボルが空です`);
+		}
+
+		const declarations = new Set<Statement>();
+		for (const name of symbols) {
+			if (seenSymbols.has(name)) {
+				throw new Error(
+					`シンボル "${name}" が複数のグループで指定されています`,
+				);
+			}
+			seenSymbols.add(name);
+			const declaration = findTopLevelDeclarationByName(sourceFile, name);
+			if (!declaration) {
+				throw new Error(
+					`シンボル "${name}" が ${originalFilePath} にありません`,
+				);
+			}
+			if (isExportedByOtherStatement(declaration)) {
+				throw new Error(
+					`シンボル "${name}" は宣言とは別の文 (export { ${name} } や export default ${name}) で export されているため分割できません。宣言に export を付けてから実行してください`,
+				);
+			}
+			const otherGroup = groupOfDeclaration.get(declaration);
+			if (otherGroup !== undefined && otherGroup !== filePath) {
+				throw new Error(
+					`シンボル "${name}" は ${otherGroup} に移動する名前と同じ文で宣言されているため、別のグループに分けられません`,
+				);
+			}
+			groupOfDeclaration.set(declaration, filePath);
+			declarations.add(declaration);
+		}
+		return { filePath, symbols, declarations: [...declarations] };
+	});
+}
+
+/**
+ * statement が参照している同じファイルのトップレベルの宣言 (自身を除く) を返す。
+ */
+function getReferencedDeclarations(
+	statement: Statement,
+	topLevelDeclarations: ReadonlySet<Statement>,
+): Statement[] {
+	const referenced = new Set<Statement>();
+	for (const identifier of statement.getDescendantsOfKind(
+		SyntaxKind.Identifier,
+	)) {
+		for (const declaration of identifier.getSymbol()?.getDeclarations() ?? []) {
+			const topLevel = [declaration, ...declaration.getAncestors()].find(
+				(node): node is Statement =>
+					topLevelDeclarations.has(node as Statement),
+			);
+			if (topLevel && topLevel !== statement) {
+				referenced.add(topLevel);
+			}
+		}
+	}
+	return [...referenced];
+}
+
+/**
+ * 複数のグループから (他の private な宣言経由を含めて) 参照される private な宣言のうち、
+ * 共有モジュールへ移動するときに指定する宣言 (共有する宣言以外からも参照されるもの) を、元のファイルでの出現順に返す。
+ * 1 つのグループからだけ参照される private な宣言は、そのグループと一緒に移動するので含めない。
+ * export された宣言やグループに含まれる宣言の先はたどらない (それらは自身の移動先から import される)。
+ */
+export function findSharedDependencies(
+	sourceFile: SourceFile,
+	groups: readonly PlannedGroup[],
+): Statement[] {
+	const topLevelDeclarations = new Set(getTopLevelDeclarations(sourceFile));
+	const groupDeclarations = new Set(groups.flatMap((g) => g.declarations));
+	const owners = new Map<Statement, Set<number>>();
+
+	for (const [index, group] of groups.entries()) {
+		const pending = [...group.declarations];
+		for (let current = pending.pop(); current; current = pending.pop()) {
+			for (const dependency of getReferencedDeclarations(
+				current,
+				topLevelDeclarations,
+			)) {
+				if (
+					groupDeclarations.has(dependency) ||
+					isExportedStatement(dependency)
+				) {
+					continue;
+				}
+				const dependencyOwners = owners.get(dependency) ?? new Set();
+				if (dependencyOwners.has(index)) {
+					continue;
+				}
+				dependencyOwners.add(index);
+				owners.set(dependency, dependencyOwners);
+				pending.push(dependency);
+			}
+		}
+	}
+
+	const shared = new Set(
+		[...owners]
+			.filter(([, groupIndexes]) => groupIndexes.size > 1)
+			.map(([statement]) => statement),
+	);
+	// 共有する宣言からしか参照されない宣言は、移動時に private なまま一緒に移るので起点に含めない
+	const referencedFromOutside = new Set(
+		[...topLevelDeclarations]
+			.filter((statement) => !shared.has(statement))
+			.flatMap((statement) =>
+				getReferencedDeclarations(statement, topLevelDeclarations),
+			),
+	);
+	return [...shared]
+		.filter((statement) => referencedFromOutside.has(statement))
+		.sort((a, b) => a.getStart() - b.getStart());
+}
+
+/**
+ * グループの宣言のうち export されているものについて、バレルから re-export する名前を返す。
+ * private な宣言は移動先で export されても、元のファイルの公開 API ではないので含めない。
+ */
+export function collectBarrelExports(
+	declarations: readonly Statement[],
+	defaultExport: DefaultExportHandling | undefined,
+): BarrelExport[] {
+	return declarations.filter(isExportedStatement).flatMap((statement) => {
+		const isTypeOnly =
+			Node.isInterfaceDeclaration(statement) ||
+			Node.isTypeAliasDeclaration(statement);
+		const declaredNames = getDeclaredNames(statement);
+		const names = declaredNames.length > 0 ? declaredNames : ["default"];
+		return names.map((name) => ({
+			name:
+				Node.isExportable(statement) &&
+				statement.isDefaultExport() &&
+				defaultExport === "keepDefault"
+					? "default"
+					: name,
+			isTypeOnly,
+		}));
+	});
+}
+
+/**
+ * 副作用のための import (`import "./styles.css";` のように何も import しない文) かを判定する。
+ */
+export function isSideEffectImport(
+	statement: Statement,
+): statement is ImportDeclaration {
+	return Node.isImportDeclaration(statement) && !statement.getImportClause();
+}
+
+/**
+ * 元のファイルの副作用 import を、各分割先から見たモジュール指定子にして返す。
+ * 分割先のシンボルだけを import したファイルでも元と同じ副作用が起きるよう、分割先のそれぞれにコピーする。
+ */
+export function collectSideEffectImports(
+	sourceFile: SourceFile,
+	destinationPaths: string[],
+): Map<string, string[]> {
+	const sideEffectImports = sourceFile
+		.getStatements()
+		.filter(isSideEffectImport);
+	return new Map(
+		destinationPaths.map((destinationPath) => [
+			destinationPath,
+			sideEffectImports.map((declaration) =>
+				getSpecifierFromTarget(declaration, destinationPath),
+			),
+		]),
+	);
+}
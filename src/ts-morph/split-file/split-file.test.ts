@@ -0,0 +1,352 @@
+import { describe, expect, it } from "vitest";
+import { createInMemoryProjectWithDoubleQuotes } from "../_test-utils/create-in-memory-project";
+import { getFileText } from "../_test-utils/get-file-text";
+import { splitFileOnProject } from "./split-file";
+
+const ORIGINAL = "/src/utils.ts";
+
+function setup(content: string) {
+	const project = createInMemoryProjectWithDoubleQuotes();
+	project.createSourceFile(ORIGINAL, content);
+	return project;
+}
+
+describe("splitFileOnProject", () => {
+	it("グループごとにシンボルを移動し、private な依存は使うグループと一緒に移動する", async () => {
+		const project = setup(`function normalize(value: string) {
+  return value.trim();
+}
+
+export function slugify(value: string) {
+  return normalize(value).replace(/\\s+/g, "-");
+}
+
+export function sum(values: number[]) {
+  return values.reduce((a, b) => a + b, 0);
+}
+`);
+		project.createSourceFile(
+			"/src/consumer.ts",
+			`import { slugify, sum } from "./utils";
+
+export const result = slugify("a b") + sum([1]);
+`,
+		);
+
+		const result = await splitFileOnProject(project, {
+			targetFilePath: ORIGINAL,
+			groups: [
+				{ filePath: "/src/string-utils.ts", symbols: ["slugify"] },
+				{ filePath: "/src/math-utils.ts", symbols: ["sum"] },
+			],
+			dryRun: true,
+		});
+
+		expect(getFileText(project, "/src/string-utils.ts")).toBe(
+			`function normalize(value: string) {
+  return value.trim();
+}
+
+export function slugify(value: string) {
+  return normalize(value).replace(/\\s+/g, "-");
+}
+`,
+		);
+		expect(getFileText(project, "/src/math-utils.ts")).toBe(
+			`export function sum(values: number[]) {
+  return values.reduce((a, b) => a + b, 0);
+}
+`,
+		);
+		const consumer = getFileText(project, "/src/consumer.ts");
+		expect(consumer).toContain('import { slugify } from "./string-utils";');
+		expect(consumer).toContain('import { sum } from "./math-utils";');
+		expect(consumer).not.toContain('"./utils"');
+		expect(result.shared).toBeUndefined();
+		expect(result.removedFiles).toEqual([ORIGINAL]);
+		expect(project.getSourceFile(ORIGINAL)).toBeUndefined();
+	});
+
+	it("複数のグループから使われる private な依存は共有モジュールに移動する", async () => {
+		const project = setup(`const PREFIX = "id-";
+
+function format(value: string) {
+  return PREFIX + value;
+}
+
+export function userId(id: number) {
+  return format(String(id));
+}
+
+export function orderId(id: number) {
+  return format(\`o\${id}\`);
+}
+`);
+
+		const result = await splitFileOnProject(project, {
+			targetFilePath: ORIGINAL,
+			groups: [
+				{ filePath: "/src/user.ts", symbols: ["userId"] },
+				{ filePath: "/src/order.ts", symbols: ["orderId"] },
+			],
+			dryRun: true,
+		});
+
+		expect(result.shared).toEqual({
+			filePath: "/src/utils-shared.ts",
+			symbols: ["format"],
+		});
+		expect(getFileText(project, "/src/utils-shared.ts")).toBe(
+			`const PREFIX = "id-";
+
+export function format(value: string) {
+  return PREFIX + value;
+}
+`,
+		);
+		expect(getFileText(project, "/src/user.ts")).toBe(
+			`import { format } from "./utils-shared";
+
+export function userId(id: number) {
+  return format(String(id));
+}
+`,
+		);
+		expect(getFileText(project, "/src/order.ts")).toContain(
+			'import { format } from "./utils-shared";',
+		);
+		expect(project.getSourceFile(ORIGINAL)).toBeUndefined();
+	});
+
+	it("onePerExport は export ごとに kebab-case のファイルを作り、keepBarrel で元のファイルを re-export にする", async () => {
+		const project = setup(`export interface UserRecord {
+  id: number;
+}
+
+export function parseUser(text: string): UserRecord {
+  return JSON.parse(text);
+}
+`);
+
+		const result = await splitFileOnProject(project, {
+			targetFilePath: ORIGINAL,
+			strategy: "onePerExport",
+			outputDirectory: "/src/users",
+			keepBarrel: true,
+			dryRun: true,
+		});
+
+		expect(result.groups).toEqual([
+			{ filePath: "/src/users/user-record.ts", symbols: ["UserRecord"] },
+			{ filePath: "/src/users/parse-user.ts", symbols: ["parseUser"] },
+		]);
+		expect(getFileText(project, "/src/users/parse-user.ts")).toBe(
+			`import { UserRecord } from "./user-record";
+
+export function parseUser(text: string): UserRecord {
+  return JSON.parse(text);
+}
+`,
+		);
+		expect(getFileText(project, ORIGINAL)).toBe(
+			`export { type UserRecord } from "./users/user-record";
+export { parseUser } from "./users/parse-user";
+`,
+		);
+		expect(result.removedFiles).toEqual([]);
+	});
+
+	it("onePerExport は複数の名前を宣言する文の名前をすべて同じグループにし、それぞれの import を張り替える", async () => {
+		const project = setup(`export const x = 1, y = 2;
+export function f() {
+  return x + y;
+}
+`);
+		project.createSourceFile(
+			"/src/app.ts",
+			`import { x, y, f } from "./utils";
+
+export const r = [x, y, f];
+`,
+		);
+
+		const result = await splitFileOnProject(project, {
+			targetFilePath: ORIGINAL,
+			strategy: "onePerExport",
+			dryRun: true,
+		});
+
+		expect(result.groups).toEqual([
+			{ filePath: "/src/x.ts", symbols: ["x", "y"] },
+			{ filePath: "/src/f.ts", symbols: ["f"] },
+		]);
+		expect(getFileText(project, "/src/f.ts")).toContain(
+			'import { x, y } from "./x";',
+		);
+		const app = getFileText(project, "/src/app.ts");
+		expect(app).toContain('import { x, y } from "./x";');
+		expect(app).not.toContain('"./utils"');
+		expect(result.removedFiles).toEqual([ORIGINAL]);
+		expect(
+			project
+				.getPreEmitDiagnostics()
+				.map((diagnostic) => diagnostic.getMessageText()),
+		).toEqual([]);
+	});
+
+	it("1 つの文で宣言された名前を別々のグループに指定するとエラーにする", async () => {
+		const project = setup("export const x = 1, y = 2;\n");
+
+		await expect(
+			splitFileOnProject(project, {
+				targetFilePath: ORIGINAL,
+				groups: [
+					{ filePath: "/src/x.ts", symbols: ["x"] },
+					{ filePath: "/src/y.ts", symbols: ["y"] },
+				],
+				dryRun: true,
+			}),
+		).rejects.toThrow("別のグループに分けられません");
+	});
+
+	it("export { a } の形で export されている宣言の分割はエラーにする", async () => {
+		const project = setup(`function a() {}
+function b() {}
+export { a, b };
+`);
+
+		await expect(
+			splitFileOnProject(project, {
+				targetFilePath: ORIGINAL,
+				strategy: "onePerExport",
+				dryRun: true,
+			}),
+		).rejects.toThrow(
+			'シンボル "a" は宣言とは別の文 (export { a } や export default a) で export されているため分割できません',
+		);
+	});
+
+	it("共有モジュールに移した依存が解決できない import (型定義のない node:fs など) を使っていても分割できる", async () => {
+		const project = setup(`import { readFileSync } from "node:fs";
+
+function read(filePath: string) {
+  return readFileSync(filePath, "utf8");
+}
+
+export function readA() {
+  return read("a");
+}
+
+export function readB() {
+  return read("b");
+}
+`);
+
+		const result = await splitFileOnProject(project, {
+			targetFilePath: ORIGINAL,
+			strategy: "onePerExport",
+			dryRun: true,
+		});
+
+		expect(result.shared?.symbols).toEqual(["read"]);
+		expect(getFileText(project, "/src/utils-shared.ts")).toBe(
+			`import { readFileSync } from "node:fs";
+
+export function read(filePath: string) {
+  return readFileSync(filePath, "utf8");
+}
+`,
+		);
+		expect(getFileText(project, "/src/read-b.ts")).toBe(
+			`import { read } from "./utils-shared";
+
+export function readB() {
+  return read("b");
+}
+`,
+		);
+		expect(result.removedFiles).toEqual([ORIGINAL]);
+	});
+
+	it("副作用 import は各分割先から見たパスにしてコピーし、それだけが残った元のファイルは削除する", async () => {
+		const project = setup(`import "./styles.css";
+
+export function a() {
+  return 1;
+}
+
+export function b() {
+  return 2;
+}
+`);
+
+		const result = await splitFileOnProject(project, {
+			targetFilePath: ORIGINAL,
+			groups: [
+				{ filePath: "/src/a.ts", symbols: ["a"] },
+				{ filePath: "/src/lib/b.ts", symbols: ["b"] },
+			],
+			dryRun: true,
+		});
+
+		expect(getFileText(project, "/src/a.ts")).toBe(`import "./styles.css";
+
+export function a() {
+  return 1;
+}
+`);
+		expect(getFileText(project, "/src/lib/b.ts")).toBe(`import "../styles.css";
+
+export function b() {
+  return 2;
+}
+`);
+		expect(result.removedFiles).toEqual([ORIGINAL]);
+		expect(project.getSourceFile(ORIGINAL)).toBeUndefined();
+	});
+
+	it("グループに含めなかったシンボルは元のファイルに残す", async () => {
+		const project = setup(`export const a = 1;
+export const b = a + 1;
+`);
+
+		await splitFileOnProject(project, {
+			targetFilePath: ORIGINAL,
+			groups: [{ filePath: "/src/a.ts", symbols: ["a"] }],
+			dryRun: true,
+		});
+
+		expect(getFileText(project, ORIGINAL)).toBe(`import { a } from "./a";
+
+export const b = a + 1;
+`);
+	});
+
+	it("同じシンボルを複数のグループに指定するとエラーにする", async () => {
+		const project = setup("export const a = 1;\n");
+
+		await expect(
+			splitFileOnProject(project, {
+				targetFilePath: ORIGINAL,
+				groups: [
+					{ filePath: "/src/a.ts", symbols: ["a"] },
+					{ filePath: "/src/b.ts", symbols: ["a"] },
+				],
+				dryRun: true,
+			}),
+		).rejects.toThrow('シンボル "a" が複数のグループで指定されています');
+	});
+
+	it("groups と strategy を両方指定するとエラーにする", async () => {
+		const project = setup("export const a = 1;\n");
+
+		await expect(
+			splitFileOnProject(project, {
+				targetFilePath: ORIGINAL,
+				groups: [{ filePath: "/src/a.ts", symbols: ["a"] }],
+				strategy: "onePerExport",
+				dryRun: true,
+			}),
+		).rejects.toThrow("どちらか一方");
+	});
+});
@@ -0,0 +1,237 @@
+import * as path from "node:path";
+import type { Project, SourceFile } from "ts-morph";
+import logger from "../../utils/logger";
+import { calculateRelativePath } from "../_utils/calculate-relative-path";
+import { collectFileDiffs, collectRemovedFileDiffs } from "../_utils/file-diff";
+import { getProject } from "../_utils/project-registry";
+import {
+	getChangedFiles,
+	saveProjectChanges,
+} from "../_utils/ts-morph-project";
+import { getDeclarationIdentifier } from "../move-symbol-to-file/get-declaration-identifier";
+import { moveSymbolsToFile } from "../move-symbol-to-file/move-symbol-to-file";
+import {
+	prepareJournalEntry,
+	writeJournalEntry,
+} from "../refactor-journal/refactor-journal";
+import type { SymbolToMove } from "../types";
+import {
+	type BarrelExport,
+	collectBarrelExports,
+	collectSideEffectImports,
+	findSharedDependencies,
+	isSideEffectImport,
+	planSplitGroups,
+} from "./plan-split";
+import type { SplitFileGroup, SplitFileParams, SplitFileResult } from "./types";
+
+/**
+ * 1 つのファイルを、グループ (分割先ファイルとシンボルの対応) または strategy に従って複数のファイルに分割する。
+ *
+ * tsconfigPath からプロジェクトを取得して `splitFileOnProject` に委譲する。
+ */
+export async function splitFile(
+	params: SplitFileParams,
+): Promise<SplitFileResult> {
+	const project = getProject(params.tsconfigPath);
+	return splitFileOnProject(project, params);
+}
+
+/**
+ * 移動で変更した元のファイルのモジュール参照の情報を ts-morph に作り直させる。
+ *
+ * ts-morph は未解決の import (`node:fs` など型定義のないモジュール) の指定子を覚えておき、
+ * createSourceFile のたびに解決し直す。移動で消えた import の指定子が残っていると、
+ * 次のグループの分割先を作るときに削除済みのノードをたどって失敗するため、移動ごとに作り直す。
+ * (getReferencingSourceFiles は変更のあったファイルの参照情報を作り直してから結果を返す)
+ */
+function refreshModuleReferences(sourceFile: SourceFile): void {
+	sourceFile.getReferencingSourceFiles();
+}
+
+/**
+ * ファイルを分割し、すべてのグループの移動が成功した場合にだけまとめて保存する。
+ *
+ * - 1 つのグループからだけ使われる private な依存は、そのグループと一緒に移動する
+ * - 複数のグループから使われる private な依存は、先に共有モジュールへ移動し、各グループから import する
+ * - 元のファイルの副作用 import (`import "./styles.css";`) は、各分割先の先頭にコピーする
+ * - keepBarrel の場合、元のファイルは移動した export を re-export するバレルとして残す。
+ *   そうでない場合、元のファイルが空 (副作用 import だけ) になれば削除する
+ *
+ * 途中のグループの移動に失敗した場合はディスクには何も書き込まれないが、in-memory の Project は
+ * 中途半端な状態になる (project-registry は未保存の変更が残った Project を自動で作り直す)。
+ */
+export async function splitFileOnProject(
+	project: Project,
+	{
+		targetFilePath,
+		groups,
+		strategy,
+		outputDirectory,
+		sharedFilePath,
+		keepBarrel = false,
+		defaultExport,
+		dryRun = false,
+		includeDiff = false,
+	}: Omit<SplitFileParams, "tsconfigPath">,
+): Promise<SplitFileResult> {
+	logger.debug({ targetFilePath, groups, strategy }, "splitFile 開始");
+
+	const sourceFile = project.getSourceFile(targetFilePath);
+	if (!sourceFile) {
+		throw new Error(`ファイルが見つかりません: ${targetFilePath}`);
+	}
+
+	// --- 計画フェーズ: 宣言は移動のたびに作り直されるので、名前と種類で控えておく ---
+	const plannedGroups = planSplitGroups(sourceFile, {
+		groups,
+		strategy,
+		outputDirectory,
+	});
+	const sharedSymbols: SymbolToMove[] = findSharedDependencies(
+		sourceFile,
+		plannedGroups,
+	).map((statement) => {
+		const name = getDeclarationIdentifier(statement)?.getText();
+		if (!name) {
+			throw new Error(
+				`複数のグループから使われる宣言の名前を特定できません: ${statement.getText().slice(0, 40)}`,
+			);
+		}
+		return { name, declarationKind: statement.getKind() };
+	});
+	const resolvedSharedFilePath =
+		sharedFilePath ??
+		path.join(
+			path.dirname(targetFilePath),
+			`${path.basename(targetFilePath, path.extname(targetFilePath))}-shared${path.extname(targetFilePath)}`,
+		);
+	if (
+		sharedSymbols.length > 0 &&
+		(resolvedSharedFilePath === targetFilePath ||
+			plannedGroups.some((g) => g.filePath === resolvedSharedFilePath))
+	) {
+		throw new Error(
+			`共有モジュール ${resolvedSharedFilePath} が分割するファイルや分割先と重なっています。sharedFilePath で別のパスを指定してください`,
+		);
+	}
+	const barrelExports = new Map<string, BarrelExport[]>(
+		plannedGroups.map((group) => [
+			group.filePath,
+			collectBarrelExports(group.declarations, defaultExport),
+		]),
+	);
+
+	const sideEffectImports = collectSideEffectImports(sourceFile, [
+		...(sharedSymbols.length > 0 ? [resolvedSharedFilePath] : []),
+		...plannedGroups.map((group) => group.filePath),
+	]);
+
+	// --- 適用フェーズ ---
+	if (sharedSymbols.length > 0) {
+		await moveSymbolsToFile(
+			project,
+			targetFilePath,
+			resolvedSharedFilePath,
+			sharedSymbols,
+		);
+		refreshModuleReferences(sourceFile);
+	}
+	for (const group of plannedGroups) {
+		await moveSymbolsToFile(
+			project,
+			targetFilePath,
+			group.filePath,
+			group.symbols.map((name) => ({ name })),
+			{ defaultExport },
+		);
+		refreshModuleReferences(sourceFile);
+	}
+
+	for (const [filePath, specifiers] of sideEffectImports) {
+		const file = project.getSourceFileOrThrow(filePath);
+		const existing = new Set(
+			file
+				.getStatements()
+				.filter(isSideEffectImport)
+				.map((declaration) => declaration.getModuleSpecifierValue()),
+		);
+		file.insertImportDeclarations(
+			0,
+			specifiers
+				.filter((specifier) => !existing.has(specifier))
+				.map((moduleSpecifier) => ({ moduleSpecifier })),
+		);
+	}
+
+	if (keepBarrel) {
+		sourceFile.addExportDeclarations(
+			plannedGroups
+				.filter((group) => (barrelExports.get(group.filePath) ?? []).length > 0)
+				.map((group) => ({
+					moduleSpecifier: calculateRelativePath(
+						targetFilePath,
+						group.filePath,
+						{ removeExtensions: true, simplifyIndex: true },
+					),
+					namedExports: (barrelExports.get(group.filePath) ?? []).map(
+						({ name, isTypeOnly }) => ({ name, isTypeOnly }),
+					),
+				})),
+		);
+	}
+	const removedFiles: string[] = [];
+	// 副作用 import だけが残った場合も、分割先にコピー済みなので削除する
+	if (
+		!keepBarrel &&
+		sourceFile
+			.getStatements()
+			.every((statement) => isSideEffectImport(statement))
+	) {
+		sourceFile.delete();
+		removedFiles.push(targetFilePath);
+	}
+
+	const changedSourceFiles = getChangedFiles(project);
+	const diffs = includeDiff
+		? [
+				...collectFileDiffs(project, changedSourceFiles),
+				...collectRemovedFileDiffs(project, removedFiles),
+			]
+		: undefined;
+
+	if (!dryRun) {
+		const journal = prepareJournalEntry(project, {
+			operation: "splitFile",
+			removedFilePaths: removedFiles,
+		});
+		await saveProjectChanges(project);
+		writeJournalEntry(journal);
+		logger.info(
+			{
+				targetFilePath,
+				groupCount: plannedGroups.length,
+				sharedCount: sharedSymbols.length,
+			},
+			"splitFile 保存完了",
+		);
+	}
+
+	const toGroup = ({ filePath, symbols }: SplitFileGroup): SplitFileGroup => ({
+		filePath,
+		symbols,
+	});
+	return {
+		groups: plannedGroups.map(toGroup),
+		shared:
+			sharedSymbols.length > 0
+				? {
+						filePath: resolvedSharedFilePath,
+						symbols: sharedSymbols.map((symbol) => symbol.name),
+					}
+				: undefined,
+		removedFiles,
+		changedFiles: changedSourceFiles.map((sf) => sf.getFilePath()),
+		diffs,
+	};
+}
@@ -0,0 +1,49 @@
+import type { FileDiff } from "../_utils/file-diff";
+import type { DefaultExportHandling } from "../types";
+
+/** 分割先のファイルと、そこへ移動するトップレベルのシンボル名 */
+export interface SplitFileGroup {
+	filePath: string;
+	symbols: string[];
+}
+
+/**
+ * グループを明示しない場合の分割方法。
+ * - onePerExport: export されたトップレベルの宣言ごとに、名前を kebab-case にしたファイルへ分割する
+ */
+export type SplitFileStrategy = "onePerExport";
+
+export interface SplitFileParams {
+	tsconfigPath: string;
+	/** 分割するファイル */
+	targetFilePath: string;
+	/** 分割先ごとのシンボル。strategy とどちらか一方を指定する */
+	groups?: SplitFileGroup[];
+	strategy?: SplitFileStrategy;
+	/** strategy で作るファイルの置き場所。省略時は分割するファイルと同じディレクトリ */
+	outputDirectory?: string;
+	/**
+	 * 複数のグループから使われる private な依存の移動先。
+	 * 省略時は分割するファイルと同じディレクトリの `<ファイル名>-shared.ts`
+	 */
+	sharedFilePath?: string;
+	/** true の場合、元のファイルを移動したシンボルを re-export するバレルとして残す */
+	keepBarrel?: boolean;
+	/** デフォルトエクスポートされたシンボルを移動するときの扱い */
+	defaultExport?: DefaultExportHandling;
+	dryRun?: boolean;
+	/** true の場合、保存前の in-memory の内容とディスクとの unified diff を返す */
+	includeDiff?: boolean;
+}
+
+export interface SplitFileResult {
+	/** 実際に移動したグループ (strategy の場合は決定したグループ) */
+	groups: SplitFileGroup[];
+	/** 共有モジュールへの移動で指定した private な依存 (それだけが使う宣言も一緒に移る)。なければ undefined */
+	shared?: SplitFileGroup;
+	/** 分割後に空になり削除した元のファイル */
+	removedFiles: string[];
+	changedFiles: string[];
+	/** `includeDiff: true` のときのみ設定される */
+	diffs?: FileDiff[];
+}
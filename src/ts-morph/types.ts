@@ -2,7 +2,9 @@ import type {
 	SourceFile,
 	ImportDeclaration,
 	ExportDeclaration,
+	ExportAssignment,
 	Statement,
+	SyntaxKind,
 } from "ts-morph";
 
 export type PathMapping = {
@@ -38,6 +40,37 @@ export interface DeclarationToUpdate {
 	wasPathAlias?: boolean;
 }
 
+/**
+ * move_symbol_to_file で移動するシンボルの指定。
+ * @property name - トップレベルのシンボル名
+ * @property declarationKind - 同名の宣言が複数ある場合に区別するための宣言の種類 (オプショナル)
+ */
+export interface SymbolToMove {
+	name: string;
+	declarationKind?: SyntaxKind;
+}
+
+/**
+ * デフォルトエクスポートされたシンボルを移動するときの扱い。
+ * - keepDefault: 移動先でもデフォルトエクスポートのままにする
+ * - convertToNamed: 移動先では宣言の名前で名前付きエクスポートにする
+ */
+export type DefaultExportHandling = "keepDefault" | "convertToNamed";
+
+/**
+ * 移動対象に含まれるデフォルトエクスポートの情報。
+ * @property declaration - デフォルトエクスポートされている宣言
+ * @property name - 宣言の名前 (移動元ファイル内のローカル名)
+ * @property exportAssignment - `export default Name;` 形式の場合の export 文 (宣言と一緒に削除する)
+ * @property handling - 移動先での扱い
+ */
+export interface DefaultExportToMove {
+	declaration: Statement;
+	name: string;
+	exportAssignment?: ExportAssignment;
+	handling: DefaultExportHandling;
+}
+
 /**
  * 移動対象シンボルに対する内部依存関係の分類結果。
  */
@@ -7,6 +7,8 @@ export default defineConfig({
 		exclude: ["**/node_modules/**", "**/dist/**", "e2e/**"],
 		env: {
 			API_ADDRESS: "http://localhost:8080",
+			// テストで作る一時プロジェクトのジャーナルを残さない (ジャーナルのテストは個別に上書きする)
+			MCP_TSMORPH_JOURNAL_DIR: "off",
 		},
 		restoreMocks: true,
 		mockReset: true,